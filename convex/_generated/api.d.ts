@@ -9,22 +9,80 @@
  */
 
 import type * as adBriefings from "../adBriefings.js";
+import type * as clientContacts from "../clientContacts.js";
+import type * as clientHealth from "../clientHealth.js";
 import type * as clients from "../clients.js";
+import type * as credentials from "../credentials.js";
+import type * as credentialsActions from "../credentialsActions.js";
 import type * as cronJobs from "../cronJobs.js";
+import type * as crons from "../crons.js";
 import type * as database from "../database.js";
 import type * as fireflies from "../fireflies.js";
 import type * as firefliesActions from "../firefliesActions.js";
 import type * as googleDrive from "../googleDrive.js";
+import type * as googleDriveActions from "../googleDriveActions.js";
+import type * as linkAliases from "../linkAliases.js";
+import type * as llmUsage from "../llmUsage.js";
+import type * as notificationDelivery from "../notificationDelivery.js";
+import type * as notifications from "../notifications.js";
 import type * as openrouter from "../openrouter.js";
+import type * as organizationArchive from "../organizationArchive.js";
+import type * as organizationArchiveActions from "../organizationArchiveActions.js";
 import type * as organizations from "../organizations.js";
+import type * as scheduleTemplates from "../scheduleTemplates.js";
+import type * as scriptCollab from "../scriptCollab.js";
+import type * as scriptContext from "../scriptContext.js";
 import type * as scriptGeneration from "../scriptGeneration.js";
+import type * as scriptReview from "../scriptReview.js";
+import type * as scriptRevisions from "../scriptRevisions.js";
 import type * as scriptSettings from "../scriptSettings.js";
 import type * as scripts from "../scripts.js";
+import type * as search from "../search.js";
+import type * as searchActions from "../searchActions.js";
+import type * as soundbites from "../soundbites.js";
 import type * as systemPrompts from "../systemPrompts.js";
+import type * as telegram from "../telegram.js";
+import type * as transcriptInsights from "../transcriptInsights.js";
+import type * as transcriptInsightsActions from "../transcriptInsightsActions.js";
 import type * as typeform from "../typeform.js";
 import type * as typeformActions from "../typeformActions.js";
+import type * as typeformFieldMappings from "../typeformFieldMappings.js";
 import type * as users from "../users.js";
+import type * as utils_authorization from "../utils/authorization.js";
+import type * as utils_clientContacts from "../utils/clientContacts.js";
+import type * as utils_clientHealth from "../utils/clientHealth.js";
+import type * as utils_clientResolution from "../utils/clientResolution.js";
+import type * as utils_credentialVault from "../utils/credentialVault.js";
+import type * as utils_credentials from "../utils/credentials.js";
+import type * as utils_insightExtraction from "../utils/insightExtraction.js";
+import type * as utils_internalApi from "../utils/internalApi.js";
+import type * as utils_linkAliases from "../utils/linkAliases.js";
+import type * as utils_llmUsage from "../utils/llmUsage.js";
+import type * as utils_notificationDispatch from "../utils/notificationDispatch.js";
+import type * as utils_notifications from "../utils/notifications.js";
+import type * as utils_openrouterClient from "../utils/openrouterClient.js";
+import type * as utils_organizationArchive from "../utils/organizationArchive.js";
 import type * as utils_organizations from "../utils/organizations.js";
+import type * as utils_retry from "../utils/retry.js";
+import type * as utils_schedule from "../utils/schedule.js";
+import type * as utils_scheduling from "../utils/scheduling.js";
+import type * as utils_scriptAccess from "../utils/scriptAccess.js";
+import type * as utils_scriptCollab from "../utils/scriptCollab.js";
+import type * as utils_scriptContext from "../utils/scriptContext.js";
+import type * as utils_scriptGenerationRuns from "../utils/scriptGenerationRuns.js";
+import type * as utils_scriptReview from "../utils/scriptReview.js";
+import type * as utils_scriptRevisions from "../utils/scriptRevisions.js";
+import type * as utils_search from "../utils/search.js";
+import type * as utils_searchIndexing from "../utils/searchIndexing.js";
+import type * as utils_smtp from "../utils/smtp.js";
+import type * as utils_soundbites from "../utils/soundbites.js";
+import type * as utils_telegram from "../utils/telegram.js";
+import type * as utils_textAnchor from "../utils/textAnchor.js";
+import type * as utils_transcriptInsights from "../utils/transcriptInsights.js";
+import type * as utils_transcriptSentences from "../utils/transcriptSentences.js";
+import type * as utils_typeformFieldMapping from "../utils/typeformFieldMapping.js";
+import type * as utils_webhookDeliveries from "../utils/webhookDeliveries.js";
+import type * as utils_webhookTokens from "../utils/webhookTokens.js";
 
 import type {
   ApiFromModules,
@@ -42,22 +100,80 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   adBriefings: typeof adBriefings;
+  clientContacts: typeof clientContacts;
+  clientHealth: typeof clientHealth;
   clients: typeof clients;
+  credentials: typeof credentials;
+  credentialsActions: typeof credentialsActions;
   cronJobs: typeof cronJobs;
+  crons: typeof crons;
   database: typeof database;
   fireflies: typeof fireflies;
   firefliesActions: typeof firefliesActions;
   googleDrive: typeof googleDrive;
+  googleDriveActions: typeof googleDriveActions;
+  linkAliases: typeof linkAliases;
+  llmUsage: typeof llmUsage;
+  notificationDelivery: typeof notificationDelivery;
+  notifications: typeof notifications;
   openrouter: typeof openrouter;
+  organizationArchive: typeof organizationArchive;
+  organizationArchiveActions: typeof organizationArchiveActions;
   organizations: typeof organizations;
+  scheduleTemplates: typeof scheduleTemplates;
+  scriptCollab: typeof scriptCollab;
+  scriptContext: typeof scriptContext;
   scriptGeneration: typeof scriptGeneration;
+  scriptReview: typeof scriptReview;
+  scriptRevisions: typeof scriptRevisions;
   scriptSettings: typeof scriptSettings;
   scripts: typeof scripts;
+  search: typeof search;
+  searchActions: typeof searchActions;
+  soundbites: typeof soundbites;
   systemPrompts: typeof systemPrompts;
+  telegram: typeof telegram;
+  transcriptInsights: typeof transcriptInsights;
+  transcriptInsightsActions: typeof transcriptInsightsActions;
   typeform: typeof typeform;
   typeformActions: typeof typeformActions;
+  typeformFieldMappings: typeof typeformFieldMappings;
   users: typeof users;
+  "utils/authorization": typeof utils_authorization;
+  "utils/clientContacts": typeof utils_clientContacts;
+  "utils/clientHealth": typeof utils_clientHealth;
+  "utils/clientResolution": typeof utils_clientResolution;
+  "utils/credentialVault": typeof utils_credentialVault;
+  "utils/credentials": typeof utils_credentials;
+  "utils/insightExtraction": typeof utils_insightExtraction;
+  "utils/internalApi": typeof utils_internalApi;
+  "utils/linkAliases": typeof utils_linkAliases;
+  "utils/llmUsage": typeof utils_llmUsage;
+  "utils/notificationDispatch": typeof utils_notificationDispatch;
+  "utils/notifications": typeof utils_notifications;
+  "utils/openrouterClient": typeof utils_openrouterClient;
+  "utils/organizationArchive": typeof utils_organizationArchive;
   "utils/organizations": typeof utils_organizations;
+  "utils/retry": typeof utils_retry;
+  "utils/schedule": typeof utils_schedule;
+  "utils/scheduling": typeof utils_scheduling;
+  "utils/scriptAccess": typeof utils_scriptAccess;
+  "utils/scriptCollab": typeof utils_scriptCollab;
+  "utils/scriptContext": typeof utils_scriptContext;
+  "utils/scriptGenerationRuns": typeof utils_scriptGenerationRuns;
+  "utils/scriptReview": typeof utils_scriptReview;
+  "utils/scriptRevisions": typeof utils_scriptRevisions;
+  "utils/search": typeof utils_search;
+  "utils/searchIndexing": typeof utils_searchIndexing;
+  "utils/smtp": typeof utils_smtp;
+  "utils/soundbites": typeof utils_soundbites;
+  "utils/telegram": typeof utils_telegram;
+  "utils/textAnchor": typeof utils_textAnchor;
+  "utils/transcriptInsights": typeof utils_transcriptInsights;
+  "utils/transcriptSentences": typeof utils_transcriptSentences;
+  "utils/typeformFieldMapping": typeof utils_typeformFieldMapping;
+  "utils/webhookDeliveries": typeof utils_webhookDeliveries;
+  "utils/webhookTokens": typeof utils_webhookTokens;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -1,6 +1,7 @@
-import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
+import { authorize, getAuthorizedRecord } from "./utils/authorization";
 
 export const getBriefingForClient = query({
   args: {
@@ -8,6 +9,7 @@ export const getBriefingForClient = query({
     clientId: v.id("clients"),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "records.read", args.ownerEmail);
     const existing = await ctx.db
       .query("ad_briefings")
       .withIndex("by_owner_client", (q) =>
@@ -28,6 +30,8 @@ export const upsertBriefing = mutation({
   handler: async (ctx: MutationCtx, args) => {
     const now = Date.now();
 
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "records.write", args.ownerEmail);
+
     const existing = await ctx.db
       .query("ad_briefings")
       .withIndex("by_owner_client", (q) =>
@@ -35,12 +39,6 @@ export const upsertBriefing = mutation({
       )
       .unique();
 
-    // Get organizationId from client
-    const client = await ctx.db.get(args.clientId);
-    if (!client || !client.organizationId) {
-      throw new Error("Client not found or missing organization");
-    }
-
     if (existing) {
       await ctx.db.patch(existing._id as Id<"ad_briefings">, {
         organizationId: client.organizationId, // Ensure organizationId is set
@@ -65,9 +63,9 @@ export const upsertBriefing = mutation({
 
 /**
  * Migration: Fix existing ad_briefings records missing organizationId
- * This should be run once to fix existing records
+ * This should be run once to fix existing records (from the dashboard or CLI)
  */
-export const migrateAdBriefingsOrganizationId = mutation({
+export const migrateAdBriefingsOrganizationId = internalMutation({
   args: {},
   handler: async (ctx: MutationCtx) => {
     // Get all ad_briefings records
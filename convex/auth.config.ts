@@ -0,0 +1,26 @@
+import type { AuthConfig } from "convex/server";
+
+const clientId = process.env.WORKOS_CLIENT_ID;
+
+/**
+ * WorkOS access tokens identify the caller to Convex functions
+ * (see utils/authorization.ts). The WorkOS JWT template must add an
+ * `email` claim; functions use it to find the caller's organization.
+ */
+export default {
+  providers: [
+    {
+      type: "customJwt",
+      issuer: "https://api.workos.com/",
+      algorithm: "RS256",
+      applicationID: clientId,
+      jwks: `https://api.workos.com/sso/jwks/${clientId}`,
+    },
+    {
+      type: "customJwt",
+      issuer: `https://api.workos.com/user_management/${clientId}`,
+      algorithm: "RS256",
+      jwks: `https://api.workos.com/sso/jwks/${clientId}`,
+    },
+  ],
+} satisfies AuthConfig;
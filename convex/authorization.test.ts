@@ -0,0 +1,164 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { modules } from "./test.setup";
+
+type Role = "owner" | "admin" | "member";
+
+/**
+ * Two organizations, each with a client and a script, and a member of each
+ * role in organization A
+ */
+async function setup() {
+  const t = convexTest(schema, modules);
+  const seeded = await t.run(async (ctx) => {
+    const now = Date.now();
+    const addOrganization = async (name: string) => {
+      const organizationId = await ctx.db.insert("organizations", { name, createdAt: now, updatedAt: now });
+      const clientId = await ctx.db.insert("clients", {
+        organizationId,
+        businessName: `${name} Client`,
+        createdAt: now,
+        updatedAt: now,
+      });
+      const scriptId = await ctx.db.insert("scripts", {
+        organizationId,
+        clientId,
+        title: `${name} Script`,
+        contentHtml: "<p>Script</p>",
+        source: { type: "manual" },
+        status: "draft",
+        createdAt: now,
+        updatedAt: now,
+      });
+      return { organizationId, clientId, scriptId };
+    };
+    const addMember = async (organizationId: Id<"organizations">, email: string, role: Role) => {
+      await ctx.db.insert("organization_members", { organizationId, email, role, createdAt: now, updatedAt: now });
+    };
+
+    const orgA = await addOrganization("A");
+    const orgB = await addOrganization("B");
+    await addMember(orgA.organizationId, "owner@a.test", "owner");
+    await addMember(orgA.organizationId, "admin@a.test", "admin");
+    await addMember(orgA.organizationId, "member@a.test", "member");
+    await addMember(orgB.organizationId, "owner@b.test", "owner");
+    return { orgA, orgB };
+  });
+  const as = (email: string) => t.withIdentity({ email });
+  return { t, as, ...seeded };
+}
+
+describe("cross-organization access", () => {
+  test("updateClient rejects a client in another organization", async () => {
+    const { t, as, orgB } = await setup();
+    await expect(
+      as("owner@a.test").mutation(api.clients.updateClient, { clientId: orgB.clientId, businessName: "Taken" })
+    ).rejects.toThrow("Not found or access denied");
+
+    const client = await t.run((ctx) => ctx.db.get(orgB.clientId));
+    expect(client?.businessName).toBe("B Client");
+  });
+
+  test("deleteScript rejects a script in another organization", async () => {
+    const { t, as, orgB } = await setup();
+    await expect(
+      as("owner@a.test").mutation(api.scripts.deleteScript, { scriptId: orgB.scriptId, ownerEmail: "owner@a.test" })
+    ).rejects.toThrow("Not found or access denied");
+
+    expect(await t.run((ctx) => ctx.db.get(orgB.scriptId))).not.toBeNull();
+  });
+
+  test("deleteRecord rejects a record in another organization", async () => {
+    const { t, as, orgB } = await setup();
+    await expect(
+      as("owner@a.test").mutation(api.database.deleteRecord, {
+        table: "clients",
+        id: orgB.clientId,
+        ownerEmail: "owner@a.test",
+      })
+    ).rejects.toThrow("Client not found or access denied");
+
+    expect(await t.run((ctx) => ctx.db.get(orgB.clientId))).not.toBeNull();
+  });
+
+  test("the email argument can't stand in for the signed-in user", async () => {
+    const { as, orgB } = await setup();
+    await expect(
+      as("owner@a.test").mutation(api.scripts.deleteScript, { scriptId: orgB.scriptId, ownerEmail: "owner@b.test" })
+    ).rejects.toThrow("signed in as a different user");
+  });
+});
+
+describe("member role", () => {
+  test("can edit clients", async () => {
+    const { t, as, orgA } = await setup();
+    await as("member@a.test").mutation(api.clients.updateClient, { clientId: orgA.clientId, businessName: "Renamed" });
+
+    const client = await t.run((ctx) => ctx.db.get(orgA.clientId));
+    expect(client?.businessName).toBe("Renamed");
+  });
+
+  test("can't delete clients", async () => {
+    const { t, as, orgA } = await setup();
+    await expect(
+      as("member@a.test").mutation(api.database.deleteRecord, {
+        table: "clients",
+        id: orgA.clientId,
+        ownerEmail: "member@a.test",
+      })
+    ).rejects.toThrow("admin role required for clients.delete");
+
+    expect(await t.run((ctx) => ctx.db.get(orgA.clientId))).not.toBeNull();
+  });
+
+  test("can't manage integrations", async () => {
+    const { t, as } = await setup();
+    await expect(
+      as("member@a.test").mutation(api.typeform.setSecretForEmail, { email: "member@a.test", secret: "whsec_member" })
+    ).rejects.toThrow("admin role required for integrations.manage");
+
+    expect(await t.run((ctx) => ctx.db.query("typeform_configs").collect())).toHaveLength(0);
+  });
+
+  test("can't update the organization", async () => {
+    const { t, as, orgA } = await setup();
+    await expect(
+      as("member@a.test").mutation(api.organizations.updateOrganization, {
+        organizationId: orgA.organizationId,
+        name: "Renamed",
+        updaterEmail: "member@a.test",
+      })
+    ).rejects.toThrow("admin role required for organization.update");
+
+    const organization = await t.run((ctx) => ctx.db.get(orgA.organizationId));
+    expect(organization?.name).toBe("A");
+  });
+
+  test("admins can do all three", async () => {
+    const { t, as, orgA } = await setup();
+    const admin = as("admin@a.test");
+    await admin.mutation(api.organizations.updateOrganization, {
+      organizationId: orgA.organizationId,
+      name: "Renamed",
+      updaterEmail: "admin@a.test",
+    });
+    await admin.mutation(api.typeform.setSecretForEmail, { email: "admin@a.test", secret: "whsec_admin" });
+    await admin.mutation(api.database.deleteRecord, { table: "clients", id: orgA.clientId, ownerEmail: "admin@a.test" });
+
+    const organization = await t.run((ctx) => ctx.db.get(orgA.organizationId));
+    expect(organization?.name).toBe("Renamed");
+    expect(await t.run((ctx) => ctx.db.get(orgA.clientId))).toBeNull();
+  });
+});
+
+describe("session email", () => {
+  test("is the email from the verified identity", async () => {
+    const { t, as } = await setup();
+    expect(await as("member@a.test").query(api.users.getSessionEmail, {})).toBe("member@a.test");
+    expect(await t.query(api.users.getSessionEmail, {})).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthorizedRecord } from "./utils/authorization";
+import {
+  clientContactInputValidator,
+  clientContactRoleValidator,
+  getContactsForClient as listContactsForClient,
+  insertClientContact,
+  syncPrimaryContact,
+} from "./utils/clientContacts";
+
+/**
+ * Contacts of a client, primary first
+ */
+export const getContactsForClient = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.read");
+    return await listContactsForClient(ctx, args.clientId);
+  },
+});
+
+export const addContact = mutation({
+  args: {
+    clientId: v.id("clients"),
+    contact: clientContactInputValidator,
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.write");
+    const contactId = await insertClientContact(ctx, client, args.contact);
+    await syncPrimaryContact(ctx, client._id, args.contact.isPrimary ? contactId : undefined);
+    return contactId;
+  },
+});
+
+export const updateContact = mutation({
+  args: {
+    contactId: v.id("client_contacts"),
+    firstName: v.optional(v.string()),
+    lastName: v.optional(v.string()),
+    email: v.optional(v.string()),
+    phone: v.optional(v.string()),
+    role: v.optional(clientContactRoleValidator),
+    isPrimary: v.optional(v.boolean()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const contact = await getAuthorizedRecord(ctx, await ctx.db.get(args.contactId), "clients.write");
+    if (args.firstName !== undefined && !args.firstName.trim()) {
+      throw new Error("Contact first name is required");
+    }
+
+    await ctx.db.patch(contact._id, {
+      ...(args.firstName !== undefined && { firstName: args.firstName.trim() }),
+      // Empty strings clear optional fields
+      ...(args.lastName !== undefined && { lastName: args.lastName.trim() || undefined }),
+      ...(args.email !== undefined && { email: args.email.toLowerCase().trim() || undefined }),
+      ...(args.phone !== undefined && { phone: args.phone.trim() || undefined }),
+      ...(args.role !== undefined && { role: args.role }),
+      updatedAt: Date.now(),
+    });
+    await syncPrimaryContact(ctx, contact.clientId, args.isPrimary ? contact._id : undefined);
+    return contact._id;
+  },
+});
+
+export const removeContact = mutation({
+  args: { contactId: v.id("client_contacts") },
+  handler: async (ctx: MutationCtx, args) => {
+    const contact = await getAuthorizedRecord(ctx, await ctx.db.get(args.contactId), "clients.write");
+    await ctx.db.delete(contact._id);
+    await syncPrimaryContact(ctx, contact.clientId);
+    return contact._id;
+  },
+});
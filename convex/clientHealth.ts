@@ -0,0 +1,102 @@
+import { internalMutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { authorize } from "./utils/authorization";
+import {
+  computeClientHealth,
+  healthSnapshotDay,
+  loadClientHealthSignals,
+} from "./utils/clientHealth";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days of snapshots in each client's trend
+const TREND_DAYS = 30;
+const SNAPSHOT_PAGE_SIZE = 50;
+
+/**
+ * Health of every active or paused client in the caller's organization,
+ * least healthy first, with the factors behind each score and a daily trend
+ */
+export const getHealthDashboard = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.read", args.email);
+    const clients = await ctx.db
+      .query("clients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+
+    const now = Date.now();
+    const trendStart = healthSnapshotDay(now - TREND_DAYS * DAY_MS);
+    const today = healthSnapshotDay(now);
+    const rows = await Promise.all(
+      clients
+        .filter((client) => client.status !== "inactive")
+        .map(async (client) => {
+          const health = computeClientHealth(await loadClientHealthSignals(ctx, client, now), now);
+          const snapshots = await ctx.db
+            .query("client_health_snapshots")
+            .withIndex("by_client_day", (q) => q.eq("clientId", client._id).gte("day", trendStart))
+            .collect();
+          const trend = snapshots
+            .filter((snapshot) => snapshot.day !== today)
+            .map((snapshot) => ({ day: snapshot.day, score: snapshot.score }));
+          trend.push({ day: today, score: health.score });
+          return {
+            clientId: client._id,
+            businessName: client.businessName,
+            status: client.status ?? "inactive",
+            ...health,
+            // Change since the oldest snapshot in the trend
+            change: trend.length > 1 ? health.score - trend[0].score : null,
+            trend,
+          };
+        })
+    );
+
+    rows.sort((a, b) => a.score - b.score);
+    return rows;
+  },
+});
+
+/**
+ * Daily: record each client's score so trends have history. Processes
+ * clients in pages; re-running on the same day overwrites that day's score.
+ */
+export const recordSnapshots = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx: MutationCtx, args): Promise<{ recorded: number }> => {
+    const page = await ctx.db.query("clients").paginate({ cursor: args.cursor ?? null, numItems: SNAPSHOT_PAGE_SIZE });
+
+    const now = Date.now();
+    const day = healthSnapshotDay(now);
+    let recorded = 0;
+    for (const client of page.page) {
+      if (client.status === "inactive") {
+        continue;
+      }
+      const { score } = computeClientHealth(await loadClientHealthSignals(ctx, client, now), now);
+      const existing = await ctx.db
+        .query("client_health_snapshots")
+        .withIndex("by_client_day", (q) => q.eq("clientId", client._id).eq("day", day))
+        .unique();
+      if (existing) {
+        await ctx.db.patch(existing._id, { score, createdAt: now });
+      } else {
+        await ctx.db.insert("client_health_snapshots", {
+          organizationId: client.organizationId,
+          clientId: client._id,
+          day,
+          score,
+          createdAt: now,
+        });
+      }
+      recorded++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.clientHealth.recordSnapshots, { cursor: page.continueCursor });
+    }
+    return { recorded };
+  },
+});
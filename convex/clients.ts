@@ -1,7 +1,28 @@
-import { mutation, query, QueryCtx, MutationCtx, action, ActionCtx } from "./_generated/server";
+import { mutation, query, internalQuery, QueryCtx, MutationCtx, internalAction, ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  MONTHLY_FROM_ANCHOR_RULE,
+  scheduleRuleValidator,
+  validateScheduleRule,
+  type ScheduleRule,
+} from "./utils/schedule";
+import { rescheduleClientJobs } from "./utils/scheduling";
+import { authorize, authorizeForOrganization } from "./utils/authorization";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+import { deleteTranscriptInsights, scheduleTranscriptInsights } from "./utils/insightExtraction";
+import { internalApiHeaders } from "./utils/internalApi";
+import { DUPLICATE_CLIENT_THRESHOLD, resolveClientCandidates } from "./utils/clientResolution";
+import {
+  clientContactInputValidator,
+  insertClientContact,
+  type ClientContactInput,
+  renamePrimaryContact,
+  syncPrimaryContact,
+  withContacts,
+} from "./utils/clientContacts";
+import { computeClientHealth, loadClientHealthSignals } from "./utils/clientHealth";
 
 /**
  * Get all clients for an owner
@@ -9,6 +30,7 @@ import type { Id } from "./_generated/dataModel";
 export const getAllClientsForOwner = query({
   args: { ownerEmail: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     return await ctx.db
       .query("clients")
       .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
@@ -22,6 +44,7 @@ export const getAllClientsForOwner = query({
 export const getClientByBusinessEmail = query({
   args: { ownerEmail: v.string(), businessEmail: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     // Note: businessEmail is now optional, so this query may not work for all cases
     // Consider using searchClients instead if businessEmail might be null
     return await ctx.db
@@ -37,6 +60,21 @@ export const getClientByBusinessEmail = query({
  * Get client by ID
  */
 export const getClientById = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args) => {
+    const client = await ctx.db.get(args.clientId);
+    if (!client) {
+      return null;
+    }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.read");
+    return client;
+  },
+});
+
+/**
+ * Get client by ID without an access check, for scheduled jobs
+ */
+export const getClientByIdInternal = internalQuery({
   args: { clientId: v.id("clients") },
   handler: async (ctx: QueryCtx, args) => {
     return await ctx.db.get(args.clientId);
@@ -46,6 +84,7 @@ export const getClientById = query({
 export const getClientByOnboardingResponseId = query({
   args: { ownerEmail: v.string(), onboardingResponseId: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     const clients = await ctx.db
       .query("clients")
       .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
@@ -55,6 +94,49 @@ export const getClientByOnboardingResponseId = query({
   },
 });
 
+type DuplicateClientFields = {
+  businessEmail?: string;
+  businessName?: string;
+  website?: string;
+};
+
+type DuplicateCandidate = Doc<"clients"> & { contacts: Doc<"client_contacts">[] };
+
+async function loadDuplicateCandidates(ctx: QueryCtx | MutationCtx, ownerEmail: string): Promise<DuplicateCandidate[]> {
+  const clients = await ctx.db
+    .query("clients")
+    .withIndex("by_owner", (q) => q.eq("ownerEmail", ownerEmail))
+    .collect();
+  return await withContacts(ctx, clients);
+}
+
+/**
+ * The candidate a new client would duplicate: the same business or contact
+ * email, business name, or a website on the client's email domain
+ */
+function matchDuplicate(candidates: DuplicateCandidate[], fields: DuplicateClientFields) {
+  const [best] = resolveClientCandidates(
+    {
+      emails: fields.businessEmail ? [fields.businessEmail] : undefined,
+      name: fields.businessName,
+      website: fields.website,
+    },
+    candidates
+  );
+  if (!best || best.score < DUPLICATE_CLIENT_THRESHOLD) {
+    return null;
+  }
+  const { contacts: _contacts, ...client } = best.client;
+  return client;
+}
+
+/**
+ * The owner's existing client that a new one would duplicate
+ */
+async function findDuplicateForOwner(ctx: QueryCtx | MutationCtx, ownerEmail: string, fields: DuplicateClientFields) {
+  return matchDuplicate(await loadDuplicateCandidates(ctx, ownerEmail), fields);
+}
+
 /**
  * Check for duplicate clients based on identifying information
  */
@@ -66,46 +148,97 @@ export const findDuplicateClient = query({
     website: v.optional(v.string()),
   },
   handler: async (ctx: QueryCtx, args) => {
-    const allClients = await ctx.db
-      .query("clients")
-      .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
-      .collect();
-    
-    // Normalize inputs for comparison
-    const normalizedBusinessEmail = args.businessEmail?.toLowerCase().trim();
-    const normalizedBusinessName = args.businessName?.toLowerCase().trim();
-    const normalizedWebsite = args.website?.toLowerCase().trim().replace(/^https?:\/\//, "").replace(/^www\./, "");
-    
-    for (const client of allClients) {
-      // Check business email match
-      if (normalizedBusinessEmail && client.businessEmail) {
-        if (client.businessEmail.toLowerCase().trim() === normalizedBusinessEmail) {
-          return client;
-        }
-      }
-      
-      // Check business name match (case-insensitive)
-      if (normalizedBusinessName && client.businessName) {
-        if (client.businessName.toLowerCase().trim() === normalizedBusinessName) {
-          return client;
-        }
+    await authorize(ctx, "clients.read", args.ownerEmail);
+    return await findDuplicateForOwner(ctx, args.ownerEmail, args);
+  },
+});
+
+type ManualClientFields = {
+  ownerEmail: string;
+  businessEmail?: string;
+  businessName: string;
+  contactFirstName?: string;
+  contactLastName?: string;
+  targetRevenue?: number;
+  generateScriptImmediately?: boolean;
+  enableCronJobs?: boolean;
+  cronJobBaseTime?: number;
+  skipFirstCronJob?: boolean;
+  monthlyStartTime?: number;
+  contacts?: ClientContactInput[];
+};
+
+/**
+ * Insert a client entered by hand or imported from a file, then schedule its
+ * cron jobs and first script. Callers check for duplicates first.
+ */
+async function insertManualClient(ctx: MutationCtx, organizationId: Id<"organizations">, args: ManualClientFields) {
+  const now = Date.now();
+  const clientId = await ctx.db.insert("clients", {
+    organizationId,
+    ownerEmail: args.ownerEmail,
+    businessEmail: args.businessEmail?.toLowerCase().trim() || undefined,
+    businessName: args.businessName,
+    contactFirstName: args.contactFirstName,
+    contactLastName: args.contactLastName,
+    targetRevenue: args.targetRevenue,
+    status: "active",
+    cronJobEnabled: args.enableCronJobs !== false, // Default to true
+    scheduleAnchorTime: args.monthlyStartTime || args.cronJobBaseTime || now,
+    // Skipping the first run means "monthly from the start date"
+    ...(args.skipFirstCronJob === true && { scheduleRule: MONTHLY_FROM_ANCHOR_RULE }),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  if (args.contacts && args.contacts.length > 0) {
+    const client = await ctx.db.get(clientId);
+    if (client) {
+      // The contact from the form stays primary unless another one is marked
+      // (whoever fills in onboarding is usually the owner)
+      const contacts = [...args.contacts];
+      if (args.contactFirstName?.trim() && !contacts.some((contact) => contact.isPrimary)) {
+        contacts.unshift({
+          firstName: args.contactFirstName,
+          lastName: args.contactLastName,
+          email: args.businessEmail,
+          role: "owner",
+          isPrimary: true,
+        });
       }
-      
-      // Check website match (normalize URLs)
-      if (normalizedWebsite && client.businessEmails) {
-        // Check if any business email domain matches website
-        for (const email of client.businessEmails) {
-          const emailDomain = email.toLowerCase().trim().split("@")[1];
-          if (emailDomain && normalizedWebsite.includes(emailDomain)) {
-            return client;
-          }
-        }
+      for (const contact of contacts) {
+        await insertClientContact(ctx, client, contact);
       }
+      await syncPrimaryContact(ctx, clientId);
     }
-    
-    return null;
-  },
-});
+  }
+  
+  // Schedule cron jobs if enabled
+  if (args.enableCronJobs !== false) {
+    const baseTime = args.monthlyStartTime || args.cronJobBaseTime || now;
+    const skipFirstJob = args.skipFirstCronJob === true;
+    ctx.scheduler.runAfter(0, internal.cronJobs.scheduleClientJobs, {
+      clientId,
+      ownerEmail: args.ownerEmail,
+      baseTime,
+      skipFirstJob,
+    }).catch((error) => {
+      console.error(`[createManualClient] Failed to schedule cron jobs for client ${clientId}:`, error);
+    });
+  }
+  
+  // Trigger script generation if requested
+  if (args.generateScriptImmediately) {
+    ctx.scheduler.runAfter(0, internal.clients.triggerScriptGeneration, {
+      clientId,
+      ownerEmail: args.ownerEmail,
+    }).catch((error) => {
+      console.error(`[createManualClient] Failed to trigger script generation for client ${clientId}:`, error);
+    });
+  }
+
+  return clientId;
+}
 
 /**
  * Create a manual client (not from Typeform)
@@ -124,116 +257,109 @@ export const createManualClient = mutation({
     cronJobBaseTime: v.optional(v.number()), // Base time for calculating cron job schedule (defaults to now)
     skipFirstCronJob: v.optional(v.boolean()), // When true, skip the 25-day cron job and start at recurring schedule
     monthlyStartTime: v.optional(v.number()), // Custom start time for monthly schedule (when skipping 25-day)
+    contacts: v.optional(v.array(clientContactInputValidator)),
   },
   handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.write", args.ownerEmail);
+
     // Check for duplicates first
-    const duplicate = await ctx.db
-      .query("clients")
-      .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
-      .collect()
-      .then(clients => {
-        const normalizedBusinessEmail = args.businessEmail?.toLowerCase().trim();
-        const normalizedBusinessName = args.businessName?.toLowerCase().trim();
-        const normalizedWebsite = args.website?.toLowerCase().trim().replace(/^https?:\/\//, "").replace(/^www\./, "");
-        
-        for (const client of clients) {
-          // Check business email match
-          if (normalizedBusinessEmail && client.businessEmail) {
-            if (client.businessEmail.toLowerCase().trim() === normalizedBusinessEmail) {
-              return client;
-            }
-          }
-          
-          // Check business name match (case-insensitive)
-          if (normalizedBusinessName && client.businessName) {
-            if (client.businessName.toLowerCase().trim() === normalizedBusinessName) {
-              return client;
-            }
-          }
-          
-          // Check website match
-          if (normalizedWebsite && client.businessEmails) {
-            for (const email of client.businessEmails) {
-              const emailDomain = email.toLowerCase().trim().split("@")[1];
-              if (emailDomain && normalizedWebsite.includes(emailDomain)) {
-                return client;
-              }
-            }
-          }
-        }
-        return null;
-      });
+    const duplicate = await findDuplicateForOwner(ctx, args.ownerEmail, args);
     
     if (duplicate) {
       throw new Error(`A client with matching information already exists: ${duplicate.businessName}`);
     }
-    
-    // Get or create organization for owner
-    let member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.ownerEmail))
-      .first();
-    
-    let organizationId: Id<"organizations">;
-    if (member) {
-      organizationId = member.organizationId;
-    } else {
-      // Create default organization for user inline
-      const now = Date.now();
-      organizationId = await ctx.db.insert("organizations", {
-        name: `${args.ownerEmail.split("@")[0]}'s Organization`,
-        createdAt: now,
-        updatedAt: now,
-      });
-      await ctx.db.insert("organization_members", {
-        organizationId,
-        email: args.ownerEmail,
-        role: "owner",
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
 
-    const now = Date.now();
-    const clientId = await ctx.db.insert("clients", {
-      organizationId,
-      ownerEmail: args.ownerEmail,
-      businessEmail: args.businessEmail?.toLowerCase().trim() || undefined,
-      businessName: args.businessName,
-      contactFirstName: args.contactFirstName,
-      contactLastName: args.contactLastName,
-      targetRevenue: args.targetRevenue,
-      status: "active",
-      cronJobEnabled: args.enableCronJobs !== false, // Default to true
-      createdAt: now,
-      updatedAt: now,
+    return await insertManualClient(ctx, organizationId, args);
+  },
+});
+
+// Rows per call; the import page sends a file in batches of this size
+const MAX_IMPORT_PREVIEW_ROWS = 500;
+const MAX_IMPORT_BATCH_ROWS = 50;
+
+/**
+ * Existing clients that rows from an import file would duplicate, in row
+ * order (null where there's none)
+ */
+export const previewClientImport = query({
+  args: {
+    ownerEmail: v.string(),
+    rows: v.array(
+      v.object({
+        businessName: v.string(),
+        businessEmail: v.optional(v.string()),
+        website: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
+    if (args.rows.length > MAX_IMPORT_PREVIEW_ROWS) {
+      throw new Error(`Preview at most ${MAX_IMPORT_PREVIEW_ROWS} rows at a time`);
+    }
+    const candidates = await loadDuplicateCandidates(ctx, args.ownerEmail);
+    return args.rows.map((row) => {
+      const duplicate = matchDuplicate(candidates, row);
+      return duplicate && { _id: duplicate._id, businessName: duplicate.businessName };
     });
-    
-    // Schedule cron jobs if enabled
-    if (args.enableCronJobs !== false) {
-      const baseTime = args.monthlyStartTime || args.cronJobBaseTime || now;
-      const skipFirstJob = args.skipFirstCronJob === true;
-      ctx.scheduler.runAfter(0, api.cronJobs.scheduleCronJobsForClient, {
-        clientId,
-        ownerEmail: args.ownerEmail,
-        baseTime,
-        skipFirstJob,
-      }).catch((error) => {
-        console.error(`[createManualClient] Failed to schedule cron jobs for client ${clientId}:`, error);
-      });
+  },
+});
+
+/**
+ * Create a batch of clients from an import file, each with cron jobs
+ * scheduled from its start date. A row that duplicates an existing client
+ * (or an earlier row) is skipped with an error rather than failing the batch.
+ */
+export const importClients = mutation({
+  args: {
+    ownerEmail: v.string(),
+    rows: v.array(
+      v.object({
+        businessName: v.string(),
+        businessEmail: v.optional(v.string()),
+        contactFirstName: v.optional(v.string()),
+        contactLastName: v.optional(v.string()),
+        targetRevenue: v.optional(v.number()),
+        website: v.optional(v.string()),
+        startTime: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.write", args.ownerEmail);
+    if (args.rows.length > MAX_IMPORT_BATCH_ROWS) {
+      throw new Error(`Import at most ${MAX_IMPORT_BATCH_ROWS} clients at a time`);
     }
-    
-    // Trigger script generation if requested
-    if (args.generateScriptImmediately) {
-      ctx.scheduler.runAfter(0, api.clients.triggerScriptGeneration, {
-        clientId,
+
+    const candidates = await loadDuplicateCandidates(ctx, args.ownerEmail);
+    const results: Array<{ clientId: Id<"clients"> } | { error: string }> = [];
+    for (const row of args.rows) {
+      const duplicate = matchDuplicate(candidates, row);
+      if (duplicate) {
+        results.push({ error: `A client with matching information already exists: ${duplicate.businessName}` });
+        continue;
+      }
+      if (row.startTime >= Date.now()) {
+        results.push({ error: "Start date must be in the past" });
+        continue;
+      }
+
+      const { startTime, website: _website, ...fields } = row;
+      const clientId = await insertManualClient(ctx, organizationId, {
+        ...fields,
         ownerEmail: args.ownerEmail,
-      }).catch((error) => {
-        console.error(`[createManualClient] Failed to trigger script generation for client ${clientId}:`, error);
+        businessName: fields.businessName.trim(),
+        enableCronJobs: true,
+        cronJobBaseTime: startTime,
       });
+      const client = await ctx.db.get(clientId);
+      if (client) {
+        // Later rows in the batch are checked against this one too
+        candidates.push({ ...client, contacts: [] });
+      }
+      results.push({ clientId });
     }
-    
-    return clientId;
+    return results;
   },
 });
 
@@ -249,8 +375,12 @@ export const upsertClientFromTypeform = mutation({
     contactLastName: v.optional(v.string()),
     onboardingResponseId: v.optional(v.string()),
     targetRevenue: v.optional(v.number()),
+    servicesOffered: v.optional(v.string()),
+    notes: v.optional(v.string()),
   },
   handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.write", args.ownerEmail);
+
     // If businessEmail is provided, try to find existing client by it
     let existing = null;
     if (args.businessEmail) {
@@ -269,6 +399,8 @@ export const upsertClientFromTypeform = mutation({
       contactLastName?: string;
       onboardingResponseId?: string;
       targetRevenue?: number;
+      servicesOffered?: string;
+      notes?: string;
       updatedAt: number;
     } = {
       businessName: args.businessName,
@@ -283,37 +415,19 @@ export const upsertClientFromTypeform = mutation({
     if (args.targetRevenue !== undefined) {
       updateData.targetRevenue = args.targetRevenue;
     }
+    if (args.servicesOffered !== undefined) {
+      updateData.servicesOffered = args.servicesOffered;
+    }
+    // Mapped notes never replace notes someone already wrote
+    if (args.notes !== undefined && !existing?.notes) {
+      updateData.notes = args.notes;
+    }
 
     if (existing) {
       await ctx.db.patch(existing._id, updateData);
       return existing._id;
     }
 
-    // Get or create organization for owner
-    let member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.ownerEmail))
-      .first();
-    
-    let organizationId: Id<"organizations">;
-    if (member) {
-      organizationId = member.organizationId;
-    } else {
-      // Create default organization for user inline
-      const now = Date.now();
-      organizationId = await ctx.db.insert("organizations", {
-        name: `${args.ownerEmail.split("@")[0]}'s Organization`,
-        createdAt: now,
-        updatedAt: now,
-      });
-      await ctx.db.insert("organization_members", {
-        organizationId,
-        email: args.ownerEmail,
-        role: "owner",
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
 
     const newClientId = await ctx.db.insert("clients", {
       organizationId,
@@ -324,7 +438,10 @@ export const upsertClientFromTypeform = mutation({
       contactLastName: args.contactLastName,
       onboardingResponseId: args.onboardingResponseId,
       targetRevenue: args.targetRevenue,
+      servicesOffered: args.servicesOffered,
+      notes: args.notes,
       status: "active",
+      scheduleAnchorTime: now,
       createdAt: now,
       updatedAt: now,
     });
@@ -336,7 +453,7 @@ export const upsertClientFromTypeform = mutation({
       .unique();
     const autoGenEnabled = settings?.autoGenerateOnSync === true;
     if (autoGenEnabled) {
-      ctx.scheduler.runAfter(0, api.clients.triggerScriptGeneration, {
+      ctx.scheduler.runAfter(0, internal.clients.triggerScriptGeneration, {
         clientId: newClientId,
         ownerEmail: args.ownerEmail,
       }).catch((error) => {
@@ -351,7 +468,7 @@ export const upsertClientFromTypeform = mutation({
     
     // Schedule cron jobs for new clients (cron jobs are enabled by default if template exists)
     // Use the client's createdAt as the base time
-    ctx.scheduler.runAfter(0, api.cronJobs.scheduleCronJobsForClient, {
+    ctx.scheduler.runAfter(0, internal.cronJobs.scheduleClientJobs, {
       clientId: newClientId,
       ownerEmail: args.ownerEmail,
       baseTime: now,
@@ -369,6 +486,7 @@ export const upsertClientFromTypeform = mutation({
 export const findClientByParticipantEmail = query({
   args: { ownerEmail: v.string(), participantEmail: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     // Normalize email for comparison (lowercase)
     const normalizedEmail = args.participantEmail.toLowerCase().trim();
     
@@ -392,13 +510,29 @@ export const findClientByParticipantEmail = query({
 /**
  * Retrieve all clients for an owner (used for intelligent transcript linking)
  */
+/**
+ * The owner's clients with their contacts, for matching transcripts and replies
+ */
 export const getClientsForLinking = query({
   args: { ownerEmail: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    return await ctx.db
+    await authorize(ctx, "clients.read", args.ownerEmail);
+    const clients = await ctx.db
+      .query("clients")
+      .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
+      .collect();
+    return await withContacts(ctx, clients);
+  },
+});
+
+export const getClientsForLinkingInternal = internalQuery({
+  args: { ownerEmail: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const clients = await ctx.db
       .query("clients")
       .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
       .collect();
+    return await withContacts(ctx, clients);
   },
 });
 
@@ -408,12 +542,14 @@ export const getClientsForLinking = query({
 export const getClientsWithScheduleSummary = query({
   args: { ownerEmail: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     const clients = await ctx.db
       .query("clients")
       .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
       .collect();
 
-    // For each client, fetch last script, last call, and next scheduled job
+    // For each client, fetch last script, last call, next scheduled job and health
+    const now = Date.now();
     const summaries = await Promise.all(
       clients.map(async (client) => {
         const clientId = client._id as Id<"clients">;
@@ -443,11 +579,26 @@ export const getClientsWithScheduleSummary = query({
           .take(1);
         const nextScheduled = nextJob[0] ?? null;
 
+        // Open comment threads across the client's scripts
+        const openComments = await ctx.db
+          .query("script_comments")
+          .withIndex("by_client_resolved", (q) => q.eq("clientId", clientId).eq("resolvedAt", undefined))
+          .collect();
+        const openCommentCount = openComments.filter(
+          (comment) => !comment.parentCommentId && comment.kind !== "approval"
+        ).length;
+
+        const lastCallDate = lastTranscript ? lastTranscript.date : null;
+        const health = computeClientHealth(await loadClientHealthSignals(ctx, client, now, lastCallDate), now);
+
         return {
           ...client,
           lastScriptDate: lastScript ? lastScript.createdAt : null,
-          lastCallDate: lastTranscript ? lastTranscript.date : null,
+          lastCallDate,
           nextScriptDate: nextScheduled ? nextScheduled.scheduledTime : null,
+          openCommentCount,
+          healthScore: health.score,
+          healthLevel: health.level,
         };
       })
     );
@@ -473,10 +624,17 @@ export const linkTranscriptToClient = mutation({
     if (!transcript) {
       throw new Error(`Transcript not found: ${args.transcriptId}`);
     }
+    await authorizeForOrganization(ctx, transcript.organizationId, "records.write");
+    const client = await ctx.db.get(args.clientId);
+    if (!client || client.organizationId !== transcript.organizationId) {
+      throw new Error(`Client not found: ${args.clientId}`);
+    }
 
     await ctx.db.patch(transcript._id, {
       clientId: args.clientId,
     });
+    await scheduleSearchIndexing(ctx, "transcript", transcript._id);
+    await scheduleTranscriptInsights(ctx, transcript._id);
 
     return transcript._id;
   },
@@ -498,10 +656,15 @@ export const unlinkTranscriptFromClient = mutation({
     if (!transcript) {
       throw new Error(`Transcript not found: ${args.transcriptId}`);
     }
+    await authorizeForOrganization(ctx, transcript.organizationId, "records.write");
 
     await ctx.db.patch(transcript._id, {
       clientId: undefined,
+      insightsStatus: undefined,
+      insightsError: undefined,
     });
+    await scheduleSearchIndexing(ctx, "transcript", transcript._id);
+    await deleteTranscriptInsights(ctx, transcript._id);
 
     return transcript._id;
   },
@@ -520,11 +683,19 @@ export const linkResponseToClient = mutation({
     if (!client) {
       throw new Error(`Client not found: ${args.clientId}`);
     }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.write");
 
     await ctx.db.patch(args.clientId, {
       onboardingResponseId: args.responseId,
       updatedAt: Date.now(),
     });
+    const response = await ctx.db
+      .query("typeform_responses")
+      .withIndex("by_response_id", (q) => q.eq("responseId", args.responseId))
+      .first();
+    if (response) {
+      await scheduleSearchIndexing(ctx, "response", response._id);
+    }
 
     return args.clientId;
   },
@@ -543,6 +714,7 @@ export const updateClientEmail = mutation({
     if (!client) {
       throw new Error(`Client not found: ${args.clientId}`);
     }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.write");
 
     // Update businessEmail if it's not set, or set it to the new email
     // This allows auto-linking future transcripts with this email
@@ -566,6 +738,7 @@ export const searchClients = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "clients.read", args.ownerEmail);
     const maxLimit = 200;
     const requestedLimit = args.limit ?? (args.query ? 10 : 100);
     const limit = Math.min(Math.max(requestedLimit, 1), maxLimit);
@@ -639,8 +812,11 @@ export const updateClient = mutation({
       v.literal("inactive")
     )),
     notes: v.optional(v.string()),
-    cronJobSchedule: v.optional(v.array(v.number())), // e.g., [25, 30] for +25d then every 30d
+    cronJobSchedule: v.optional(v.array(v.number())), // Deprecated - use scheduleRule
     cronJobEnabled: v.optional(v.boolean()),
+    scheduleRule: v.optional(v.union(scheduleRuleValidator, v.null())), // null clears the client's own rule
+    scheduleTemplateId: v.optional(v.union(v.id("schedule_templates"), v.null())), // null clears the template
+    scheduleAnchorTime: v.optional(v.number()),
   },
   handler: async (ctx: MutationCtx, args) => {
     console.log("[updateClient] Mutation called with args:", JSON.stringify(args, null, 2));
@@ -649,6 +825,7 @@ export const updateClient = mutation({
     if (!client) {
       throw new Error(`Client not found: ${args.clientId}`);
     }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.write");
 
     console.log("[updateClient] Current client state:", {
       businessEmail: client.businessEmail,
@@ -665,9 +842,13 @@ export const updateClient = mutation({
       onboardingResponseId?: string;
       servicesOffered?: string;
       status?: "active" | "paused" | "inactive";
+      pausedAt?: number;
       notes?: string;
       cronJobSchedule?: number[];
       cronJobEnabled?: boolean;
+      scheduleRule?: ScheduleRule;
+      scheduleTemplateId?: Id<"schedule_templates">;
+      scheduleAnchorTime?: number;
       updatedAt: number;
     } = {
       updatedAt: Date.now(),
@@ -706,6 +887,11 @@ export const updateClient = mutation({
     }
     if (args.status !== undefined) {
       updateData.status = args.status;
+      if (args.status === "paused" && client.status !== "paused") {
+        updateData.pausedAt = Date.now();
+      } else if (args.status !== "paused") {
+        updateData.pausedAt = undefined;
+      }
     }
     if (args.notes !== undefined) {
       updateData.notes = args.notes || undefined;
@@ -716,30 +902,52 @@ export const updateClient = mutation({
     if (args.cronJobEnabled !== undefined) {
       updateData.cronJobEnabled = args.cronJobEnabled;
     }
+    if (args.scheduleRule !== undefined) {
+      if (args.scheduleRule !== null) {
+        const error = validateScheduleRule(args.scheduleRule);
+        if (error) {
+          throw new Error(error);
+        }
+      }
+      updateData.scheduleRule = args.scheduleRule ?? undefined;
+    }
+    if (args.scheduleTemplateId !== undefined) {
+      if (args.scheduleTemplateId !== null) {
+        const template = await ctx.db.get(args.scheduleTemplateId);
+        if (!template || template.organizationId !== client.organizationId) {
+          throw new Error("Schedule template not found");
+        }
+      }
+      updateData.scheduleTemplateId = args.scheduleTemplateId ?? undefined;
+    }
+    if (args.scheduleAnchorTime !== undefined) {
+      updateData.scheduleAnchorTime = args.scheduleAnchorTime;
+    }
 
     console.log("[updateClient] Final updateData:", JSON.stringify(updateData, null, 2));
 
     await ctx.db.patch(args.clientId, updateData);
+    if (args.notes !== undefined) {
+      await scheduleSearchIndexing(ctx, "client_note", args.clientId);
+    }
+    if (args.contactFirstName !== undefined || args.contactLastName !== undefined) {
+      await renamePrimaryContact(ctx, args.clientId, {
+        firstName: args.contactFirstName,
+        lastName: args.contactLastName,
+      });
+    }
     
-    // If cron job schedule or enabled status changed, reschedule cron jobs
-    if (args.cronJobSchedule !== undefined || args.cronJobEnabled !== undefined) {
+    // If the schedule or enabled status changed, cancel and recreate the scheduled run
+    const scheduleChanged =
+      args.cronJobSchedule !== undefined ||
+      args.cronJobEnabled !== undefined ||
+      args.scheduleRule !== undefined ||
+      args.scheduleTemplateId !== undefined ||
+      args.scheduleAnchorTime !== undefined;
+    if (scheduleChanged) {
       const updatedClient = await ctx.db.get(args.clientId);
-      if (updatedClient && updatedClient.cronJobEnabled !== false) {
-        // Schedule cron jobs in the background
-        ctx.scheduler.runAfter(0, api.cronJobs.scheduleCronJobsForClient, {
-          clientId: args.clientId,
-          ownerEmail: updatedClient.ownerEmail || "",
-          baseTime: updatedClient.createdAt,
-        }).catch((error) => {
-          console.error(`[updateClient] Failed to schedule cron jobs for client ${args.clientId}:`, error);
-        });
-      } else if (updatedClient && updatedClient.cronJobEnabled === false) {
-        // Cancel existing cron jobs (mutation, can be called directly)
-        await ctx.runMutation(api.cronJobs.cancelJobsForClient, {
-          clientId: args.clientId,
-        }).catch((error) => {
-          console.error(`[updateClient] Failed to cancel cron jobs for client ${args.clientId}:`, error);
-        });
+      if (updatedClient) {
+        await rescheduleClientJobs(ctx, updatedClient, updatedClient.ownerEmail || "");
       }
     }
 
@@ -759,14 +967,14 @@ export const updateClient = mutation({
  * This action calls the Next.js API endpoint to generate a script
  * Uses the client's onboardingResponseId to generate from Typeform response data
  */
-export const triggerScriptGeneration = action({
+export const triggerScriptGeneration = internalAction({
   args: {
     clientId: v.id("clients"),
     ownerEmail: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<void> => {
     // Respect per-user settings
-    const settings = await ctx.runQuery(api.scriptSettings.getSettingsForEmail, { email: args.ownerEmail });
+    const settings = await ctx.runQuery(internal.scriptSettings.getSettingsForEmailInternal, { email: args.ownerEmail });
     if (settings?.autoGenerateOnSync !== true) {
       console.log("[Script Generation] Auto-generation disabled in user settings. Skipping triggerScriptGeneration.", {
         clientId: String(args.clientId),
@@ -776,7 +984,7 @@ export const triggerScriptGeneration = action({
     }
     
     // Get the client to find the onboardingResponseId
-    const client = await ctx.runQuery(api.clients.getClientById, {
+    const client = await ctx.runQuery(internal.clients.getClientByIdInternal, {
       clientId: args.clientId,
     });
     
@@ -819,9 +1027,7 @@ export const triggerScriptGeneration = action({
     // This runs asynchronously - we don't wait for the result
     fetch(`${baseUrl.replace(/\/$/, "")}/api/scripts/generate-from-response`, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers: internalApiHeaders(),
       body: JSON.stringify({
         responseId: responseId,
         clientId: String(args.clientId),
@@ -0,0 +1,232 @@
+import { internalMutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { authorize } from "./utils/authorization";
+import {
+  CREDENTIAL_KINDS,
+  credentialKindValidator,
+  encryptedSecretValidator,
+  type CredentialKind,
+  type EncryptedSecret,
+} from "./utils/credentialVault";
+
+type CredentialConfigId =
+  | Id<"openrouter_configs">
+  | Id<"fireflies_configs">
+  | Id<"typeform_configs">
+  | Id<"google_drive_configs">;
+
+type StoredCredential = {
+  configId: CredentialConfigId;
+  encrypted?: EncryptedSecret;
+  // Written before encryption and not migrated yet
+  legacyPlaintext?: string;
+};
+
+async function loadStoredCredential(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  kind: CredentialKind
+): Promise<StoredCredential | null> {
+  switch (kind) {
+    case "openrouter_api_key": {
+      const config = await ctx.db
+        .query("openrouter_configs")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .unique();
+      return config && { configId: config._id, encrypted: config.apiKeyEncrypted, legacyPlaintext: config.apiKey };
+    }
+    case "fireflies_api_key": {
+      const config = await ctx.db
+        .query("fireflies_configs")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .unique();
+      return config && { configId: config._id, encrypted: config.apiKeyEncrypted, legacyPlaintext: config.apiKey };
+    }
+    case "typeform_access_token": {
+      const config = await ctx.db
+        .query("typeform_configs")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .unique();
+      return (
+        config && { configId: config._id, encrypted: config.accessTokenEncrypted, legacyPlaintext: config.accessToken }
+      );
+    }
+    case "google_drive_refresh_token": {
+      const config = await ctx.db
+        .query("google_drive_configs")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .unique();
+      return (
+        config && { configId: config._id, encrypted: config.refreshTokenEncrypted, legacyPlaintext: config.refreshToken }
+      );
+    }
+  }
+}
+
+/**
+ * Store an encrypted secret on an existing config row, dropping any
+ * plaintext copy
+ */
+async function patchStoredCredential(
+  ctx: MutationCtx,
+  kind: CredentialKind,
+  configId: CredentialConfigId,
+  secret: EncryptedSecret
+) {
+  const updatedAt = Date.now();
+  switch (kind) {
+    case "openrouter_api_key":
+      await ctx.db.patch(configId as Id<"openrouter_configs">, { apiKeyEncrypted: secret, apiKey: undefined, updatedAt });
+      return;
+    case "fireflies_api_key":
+      await ctx.db.patch(configId as Id<"fireflies_configs">, { apiKeyEncrypted: secret, apiKey: undefined, updatedAt });
+      return;
+    case "typeform_access_token":
+      await ctx.db.patch(configId as Id<"typeform_configs">, {
+        accessTokenEncrypted: secret,
+        accessToken: undefined,
+        updatedAt,
+      });
+      return;
+    case "google_drive_refresh_token":
+      await ctx.db.patch(configId as Id<"google_drive_configs">, {
+        refreshTokenEncrypted: secret,
+        refreshToken: undefined,
+        updatedAt,
+      });
+      return;
+  }
+}
+
+/**
+ * The caller's organization's stored secret, still encrypted. Only actions
+ * can call this; decryption happens there (see utils/credentials.ts).
+ */
+export const getStoredCredentialForEmail = internalQuery({
+  args: { email: v.string(), kind: credentialKindValidator },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "integrations.use", args.email);
+    const stored = await loadStoredCredential(ctx, organizationId, args.kind);
+    return stored && { encrypted: stored.encrypted, legacyPlaintext: stored.legacyPlaintext };
+  },
+});
+
+/**
+ * The organization's stored secret for background jobs, which run without a
+ * signed-in user
+ */
+export const getStoredCredentialForOrganization = internalQuery({
+  args: { organizationId: v.id("organizations"), kind: credentialKindValidator },
+  handler: async (ctx: QueryCtx, args) => {
+    const stored = await loadStoredCredential(ctx, args.organizationId, args.kind);
+    return stored && { encrypted: stored.encrypted, legacyPlaintext: stored.legacyPlaintext };
+  },
+});
+
+/**
+ * Save a secret the caller entered in settings, already encrypted by
+ * credentialsActions.setCredentialForEmail
+ */
+export const storeCredentialForEmail = internalMutation({
+  args: { email: v.string(), kind: credentialKindValidator, secret: encryptedSecretValidator },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId, email } = await authorize(ctx, "integrations.manage", args.email);
+    const stored = await loadStoredCredential(ctx, organizationId, args.kind);
+    if (stored) {
+      await patchStoredCredential(ctx, args.kind, stored.configId, args.secret);
+      return;
+    }
+
+    const now = Date.now();
+    switch (args.kind) {
+      case "openrouter_api_key":
+        await ctx.db.insert("openrouter_configs", {
+          organizationId,
+          email,
+          apiKeyEncrypted: args.secret,
+          createdAt: now,
+          updatedAt: now,
+        });
+        return;
+      case "fireflies_api_key":
+        await ctx.db.insert("fireflies_configs", {
+          organizationId,
+          email,
+          apiKeyEncrypted: args.secret,
+          createdAt: now,
+          updatedAt: now,
+        });
+        return;
+      case "typeform_access_token":
+        await ctx.db.insert("typeform_configs", {
+          organizationId,
+          email,
+          accessTokenEncrypted: args.secret,
+          createdAt: now,
+          updatedAt: now,
+        });
+        return;
+      case "google_drive_refresh_token":
+        throw new Error("Connect Google Drive from Settings to store its tokens");
+    }
+  },
+});
+
+/**
+ * Every stored secret across organizations, for credentialsActions.migrateCredentials
+ */
+export const listStoredCredentials = internalQuery({
+  args: {},
+  handler: async (ctx: QueryCtx) => {
+    const organizations = await ctx.db.query("organizations").collect();
+    const credentials: Array<{
+      organizationId: Id<"organizations">;
+      kind: CredentialKind;
+      encrypted?: EncryptedSecret;
+      legacyPlaintext?: string;
+    }> = [];
+    for (const organization of organizations) {
+      for (const kind of CREDENTIAL_KINDS) {
+        const stored = await loadStoredCredential(ctx, organization._id, kind);
+        if (stored?.encrypted || stored?.legacyPlaintext) {
+          credentials.push({
+            organizationId: organization._id,
+            kind,
+            encrypted: stored.encrypted,
+            legacyPlaintext: stored.legacyPlaintext,
+          });
+        }
+      }
+    }
+    return credentials;
+  },
+});
+
+/**
+ * Swap in a migrated secret unless it changed since it was read:
+ * `replacesCiphertext` is the ciphertext it re-wraps, or undefined when it
+ * encrypts the legacy plaintext
+ */
+export const replaceStoredCredential = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    kind: credentialKindValidator,
+    replacesCiphertext: v.optional(v.string()),
+    secret: encryptedSecretValidator,
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const stored = await loadStoredCredential(ctx, args.organizationId, args.kind);
+    if (!stored) {
+      return { replaced: false };
+    }
+    const unchanged = args.replacesCiphertext
+      ? stored.encrypted?.ciphertext === args.replacesCiphertext
+      : !stored.encrypted && stored.legacyPlaintext !== undefined;
+    if (!unchanged) {
+      return { replaced: false };
+    }
+    await patchStoredCredential(ctx, args.kind, stored.configId, args.secret);
+    return { replaced: true };
+  },
+});
@@ -0,0 +1,84 @@
+import { action, internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { getCallerEmail } from "./utils/authorization";
+import { getCredentialForEmail } from "./utils/credentials";
+import { credentialKindValidator, encryptSecret, rewrapSecret } from "./utils/credentialVault";
+
+/**
+ * Save an API key or token entered in settings. It's encrypted here and can't
+ * be read back; settings only show its masked suffix.
+ */
+export const setCredentialForEmail = action({
+  args: { email: v.string(), kind: credentialKindValidator, value: v.string() },
+  handler: async (ctx: ActionCtx, args) => {
+    const email = await getCallerEmail(ctx, args.email);
+    const value = args.value.trim();
+    if (!value) {
+      throw new Error("Enter a value to save");
+    }
+    await ctx.runMutation(internal.credentials.storeCredentialForEmail, {
+      email,
+      kind: args.kind,
+      secret: await encryptSecret(args.kind, value),
+    });
+  },
+});
+
+/**
+ * The decrypted secret for server routes, which call this with the
+ * deployment token acting as `email` (see src/lib/credentials.ts). Internal
+ * so the browser can never reach it.
+ */
+export const revealCredentialForEmail = internalAction({
+  args: { email: v.string(), kind: credentialKindValidator },
+  handler: async (ctx: ActionCtx, args): Promise<string | null> => {
+    return await getCredentialForEmail(ctx, args.email, args.kind);
+  },
+});
+
+/**
+ * Encrypt plaintext credentials written before encryption, and re-wrap data
+ * keys after a master key rotation. To rotate: set CREDENTIALS_MASTER_KEY_PREVIOUS
+ * to the old key and CREDENTIALS_MASTER_KEY to the new one, run
+ * `npx convex run credentialsActions:migrateCredentials`, then remove the
+ * previous key. Safe to run again.
+ */
+export const migrateCredentials = internalAction({
+  args: {},
+  handler: async (ctx: ActionCtx): Promise<{ encrypted: number; rewrapped: number; skipped: number }> => {
+    const credentials = await ctx.runQuery(internal.credentials.listStoredCredentials, {});
+    let encrypted = 0;
+    let rewrapped = 0;
+    let skipped = 0;
+
+    for (const credential of credentials) {
+      if (credential.encrypted) {
+        const secret = await rewrapSecret(credential.encrypted);
+        if (!secret) {
+          skipped++;
+          continue;
+        }
+        const { replaced } = await ctx.runMutation(internal.credentials.replaceStoredCredential, {
+          organizationId: credential.organizationId,
+          kind: credential.kind,
+          replacesCiphertext: credential.encrypted.ciphertext,
+          secret,
+        });
+        if (replaced) rewrapped++;
+        else skipped++;
+      } else if (credential.legacyPlaintext) {
+        const { replaced } = await ctx.runMutation(internal.credentials.replaceStoredCredential, {
+          organizationId: credential.organizationId,
+          kind: credential.kind,
+          secret: await encryptSecret(credential.kind, credential.legacyPlaintext),
+        });
+        if (replaced) encrypted++;
+        else skipped++;
+      }
+    }
+
+    console.log("[credentials] Migration finished", { encrypted, rewrapped, skipped });
+    return { encrypted, rewrapped, skipped };
+  },
+});
@@ -0,0 +1,47 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import { modules } from "./test.setup";
+
+describe("reconcileClientSchedules", () => {
+  beforeEach(() => {
+    // Scheduled runs stay queued instead of executing
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("schedules active clients only", async () => {
+    const t = convexTest(schema, modules);
+    const clientIds = await t.run(async (ctx) => {
+      const now = Date.now();
+      const organizationId = await ctx.db.insert("organizations", { name: "A", createdAt: now, updatedAt: now });
+      const addClient = (businessName: string, status?: "active" | "paused" | "inactive") =>
+        ctx.db.insert("clients", {
+          organizationId,
+          ownerEmail: "owner@a.test",
+          businessName,
+          status,
+          cronJobEnabled: true,
+          createdAt: now,
+          updatedAt: now,
+        });
+      return {
+        active: await addClient("Active", "active"),
+        legacy: await addClient("No status"),
+        paused: await addClient("Paused", "paused"),
+        inactive: await addClient("Inactive", "inactive"),
+      };
+    });
+
+    const result = await t.mutation(internal.cronJobs.reconcileClientSchedules, {});
+    expect(result).toEqual({ checked: 4, repaired: 2 });
+
+    const jobs = await t.run((ctx) => ctx.db.query("cron_jobs").collect());
+    expect(jobs.map((job) => job.clientId).sort()).toEqual([clientIds.active, clientIds.legacy].sort());
+  });
+});
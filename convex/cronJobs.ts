@@ -1,76 +1,35 @@
-import { mutation, query, QueryCtx, MutationCtx, action, ActionCtx } from "./_generated/server";
+import {
+  mutation,
+  query,
+  internalMutation,
+  internalQuery,
+  QueryCtx,
+  MutationCtx,
+  action,
+  internalAction,
+  ActionCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import type { Id, Doc } from "./_generated/dataModel";
+import { getZonedDateParts, startOfZonedDay } from "./utils/schedule";
+import {
+  cancelScheduledCronJobs,
+  cancelScheduledFunction,
+  createScheduledCronJob,
+  rescheduleClientJobs,
+  resolveClientSchedule,
+  scheduleNextOccurrence,
+  type EffectiveSchedule,
+} from "./utils/scheduling";
+import { authorize, authorizeForOrganization, getAuthorizedRecord } from "./utils/authorization";
+import { internalApiHeaders } from "./utils/internalApi";
+import { notifyOrganization } from "./utils/notificationDispatch";
 
-/**
- * Timezone helpers - schedule at 12:00am America/New_York (ET)
- */
-const ET_TZ = "America/New_York";
-
-function getTimeZoneOffsetMs(tz: string, d: Date): number {
-  // Convert a UTC date into tz calendar parts, then compare epoch
-  const dtf = new Intl.DateTimeFormat("en-US", {
-    timeZone: tz,
-    hour12: false,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-  });
-  const parts = dtf.formatToParts(d).reduce<Record<string, string>>((acc, p) => {
-    if (p.type !== "literal") acc[p.type] = p.value;
-    return acc;
-  }, {});
-  const asUtc = Date.UTC(
-    Number(parts.year),
-    Number(parts.month) - 1,
-    Number(parts.day),
-    Number(parts.hour),
-    Number(parts.minute),
-    Number(parts.second)
-  );
-  return asUtc - d.getTime();
-}
+const RECONCILE_PAGE_SIZE = 100;
 
-function getMidnightInTimeZone(year: number, monthIndex: number, day: number, tz: string): number {
-  // Initial guess: midnight UTC of that calendar date
-  let guessUtc = Date.UTC(year, monthIndex, day, 0, 0, 0);
-  let offset = getTimeZoneOffsetMs(tz, new Date(guessUtc));
-  // Adjust UTC time by the timezone offset so that wall clock == 00:00:00
-  let utc = Date.UTC(year, monthIndex, day, 0, 0, 0) - offset;
-  // Recompute in case DST boundary changed the offset
-  const offset2 = getTimeZoneOffsetMs(tz, new Date(utc));
-  if (offset2 !== offset) {
-    utc = Date.UTC(year, monthIndex, day, 0, 0, 0) - offset2;
-  }
-  return utc;
-}
-
-function getEtDatePartsFromUtc(ms: number): { year: number; monthIndex: number; day: number } {
-  const dtf = new Intl.DateTimeFormat("en-US", {
-    timeZone: ET_TZ,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-  const parts = dtf.formatToParts(new Date(ms)).reduce<Record<string, string>>((acc, p) => {
-    if (p.type !== "literal") acc[p.type] = p.value;
-    return acc;
-  }, {});
-  return {
-    year: Number(parts.year),
-    monthIndex: Number(parts.month) - 1,
-    day: Number(parts.day),
-  };
-}
-
-function etMidnightForSameCalendarDay(ms: number): number {
-  const { year, monthIndex, day } = getEtDatePartsFromUtc(ms);
-  return getMidnightInTimeZone(year, monthIndex, day, ET_TZ);
-}
+// How long past its scheduled time a job without a scheduled function ID is still trusted
+const STALE_JOB_GRACE_MS = 6 * 60 * 60 * 1000;
 
 /**
  * Get cron jobs for a client
@@ -78,6 +37,7 @@ function etMidnightForSameCalendarDay(ms: number): number {
 export const getCronJobsForClient = query({
   args: { clientId: v.id("clients") },
   handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.read");
     return await ctx.db
       .query("cron_jobs")
       .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
@@ -88,7 +48,7 @@ export const getCronJobsForClient = query({
 /**
  * Get cron job by its cronJobId
  */
-export const getCronJobByCronId = query({
+export const getCronJobByCronId = internalQuery({
   args: { cronJobId: v.string() },
   handler: async (ctx: QueryCtx, args) => {
     return await ctx.db
@@ -107,13 +67,15 @@ export const getUpcomingCronJobs = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.read", args.ownerEmail);
     const limit = Math.min(args.limit ?? 50, 100);
     const now = Date.now();
     
     let query = ctx.db
       .query("cron_jobs")
       .withIndex("by_scheduled_time", (q) => q.gte("scheduledTime", now))
-      .filter((q) => q.eq(q.field("status"), "scheduled"));
+      .filter((q) => q.eq(q.field("status"), "scheduled"))
+      .filter((q) => q.eq(q.field("organizationId"), organizationId));
     
     if (args.ownerEmail) {
       query = query.filter((q) => q.eq(q.field("ownerEmail"), args.ownerEmail));
@@ -124,218 +86,94 @@ export const getUpcomingCronJobs = query({
 });
 
 /**
- * Schedule cron jobs for a client based on template or client-specific schedule
+ * Get the schedule rule that applies to a client, with its timezone and anchor
+ */
+export const getEffectiveScheduleForClient = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args): Promise<EffectiveSchedule | null> => {
+    const client = await ctx.db.get(args.clientId);
+    if (!client) {
+      return null;
+    }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.read");
+    return await resolveClientSchedule(ctx, client);
+  },
+});
+
+/**
+ * Schedule cron jobs for a client based on its schedule rule or template.
+ * baseTime/skipFirstJob are only used for clients without a stored anchor or rule.
  */
 export const scheduleCronJobsForClient = action({
   args: {
     clientId: v.id("clients"),
     ownerEmail: v.string(),
-    baseTime: v.optional(v.number()), // Unix timestamp to calculate from (defaults to now)
-    skipFirstJob: v.optional(v.boolean()), // When true, skip the 25-day job and start at the recurring schedule
+    baseTime: v.optional(v.number()), // Anchor to calculate from when the client has none (defaults to creation time)
+    skipFirstJob: v.optional(v.boolean()), // When true and no rule is set, run monthly from baseTime
   },
   handler: async (ctx: ActionCtx, args): Promise<{ scheduled: number }> => {
-    const baseTime = args.baseTime || Date.now();
-    const skipFirstJob = args.skipFirstJob === true;
-    
-    // Get client
-    const client = await ctx.runQuery(api.clients.getClientById, {
-      clientId: args.clientId,
-    });
-    
-    if (!client) {
-      throw new Error(`Client not found: ${args.clientId}`);
-    }
-    
-    // Check if cron jobs are enabled for this client
-    if (client.cronJobEnabled === false) {
-      console.log(`[CronJobs] Cron jobs disabled for client ${args.clientId}`);
-      return { scheduled: 0 };
-    }
-    
-    // Cancel existing scheduled jobs for this client
-    await ctx.runMutation(api.cronJobs.cancelJobsForClient, {
-      clientId: args.clientId,
-    });
-    
-    // Fixed schedule pattern:
-    // 1. Immediate (already done when client is created)
-    // 2. 25 days after creation
-    // 3. 30 days after that (55 days total from creation) - this date's day becomes the recurring day
-    // 4. Then every month on that same day of the month
-    
-    let scheduledCount = 0;
-    
-    let firstJobDayOfMonth: number | null = null;
-
-    // First cron job: 25 days after creation (optional)
-    if (!skipFirstJob) {
-      const firstJobTarget = baseTime + 25 * 24 * 60 * 60 * 1000;
-      const firstJobTime = etMidnightForSameCalendarDay(firstJobTarget);
-      firstJobDayOfMonth = getEtDatePartsFromUtc(firstJobTime).day;
-
-      const firstCronJobId = await ctx.runMutation(api.cronJobs.createCronJobRecord, {
-        ownerEmail: args.ownerEmail,
-        clientId: args.clientId,
-        scheduledTime: firstJobTime,
-        dayOfMonth: firstJobDayOfMonth,
-        isRepeating: false, // This is a one-time job
-      });
-
-      await scheduleCloudflareCronTrigger(ctx, {
-        cronJobId: firstCronJobId,
-        clientId: args.clientId,
-        ownerEmail: args.ownerEmail,
-        scheduledTime: firstJobTime,
-        isRepeating: false,
-        dayOfMonth: firstJobDayOfMonth,
-      });
-
-      scheduledCount++;
-    }
-
-    // Second cron job:
-    // - Normal mode: 30 days after first job (55 days total from creation)
-    // - Skip-first mode: baseTime becomes the first monthly run date
-    const secondJobTarget = skipFirstJob
-      ? baseTime // Use baseTime directly as the first monthly date
-      : (baseTime + 25 * 24 * 60 * 60 * 1000) + 30 * 24 * 60 * 60 * 1000;
-    const secondJobTime = etMidnightForSameCalendarDay(secondJobTarget);
-    const recurringDayOfMonth = getEtDatePartsFromUtc(secondJobTime).day;
-    
-    // Schedule the second job for the exact date (55 days from creation)
-    // When it executes, it will schedule the next month's occurrence
-    const secondCronJobId = await ctx.runMutation(api.cronJobs.createCronJobRecord, {
-      ownerEmail: args.ownerEmail,
-      clientId: args.clientId,
-      scheduledTime: secondJobTime,
-      dayOfMonth: recurringDayOfMonth,
-      isRepeating: true, // This will become the recurring monthly job
-    });
-    
-    await scheduleCloudflareCronTrigger(ctx, {
-      cronJobId: secondCronJobId,
-      clientId: args.clientId,
-      ownerEmail: args.ownerEmail,
-      scheduledTime: secondJobTime,
-      isRepeating: true,
-      dayOfMonth: recurringDayOfMonth,
-    });
-    
-    scheduledCount++;
-    
-    console.log(
-      `[CronJobs] Scheduled ${scheduledCount} cron jobs for client ${args.clientId}:` +
-        (skipFirstJob
-          ? ` starting at day ${recurringDayOfMonth} (55 days from base, then monthly)`
-          : ` first at day ${firstJobDayOfMonth} (25 days), recurring on day ${recurringDayOfMonth} (monthly)`)
-    );
-    return { scheduled: scheduledCount };
+    const result = await ctx.runMutation(api.cronJobs.rescheduleJobsForClient, args);
+    return { scheduled: result ? 1 : 0 };
   },
 });
 
-/**
- * Calculate the next occurrence of a specific day of the month
- * Handles edge cases like day 31 when month has fewer days (uses last day of month)
- */
-function calculateNextDayOfMonth(fromTime: number, dayOfMonth: number): number {
-  // Work in ET calendar to determine the next date, then return ET midnight
-  const { year, monthIndex, day } = getEtDatePartsFromUtc(fromTime);
-  // Try this month first in ET
-  const lastDayThisMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
-  const desiredDayThisMonth = Math.min(dayOfMonth, lastDayThisMonth);
-  const thisMonthEtMidnight = getMidnightInTimeZone(year, monthIndex, desiredDayThisMonth, ET_TZ);
-  if (thisMonthEtMidnight > fromTime && desiredDayThisMonth >= day) {
-    return thisMonthEtMidnight;
+const rescheduleArgs = {
+  clientId: v.id("clients"),
+  ownerEmail: v.string(),
+  baseTime: v.optional(v.number()),
+  skipFirstJob: v.optional(v.boolean()),
+};
+
+async function rescheduleAndLog(
+  ctx: MutationCtx,
+  client: Doc<"clients">,
+  ownerEmail: string,
+  legacy: { baseTime?: number; skipFirstJob?: boolean }
+): Promise<{ cronJobId: string; scheduledTime: number } | null> {
+  const result = await rescheduleClientJobs(ctx, client, ownerEmail, legacy);
+  if (result) {
+    console.log(`[CronJobs] Next run for client ${client._id} scheduled at ${new Date(result.scheduledTime).toISOString()}`);
+  } else {
+    console.log(`[CronJobs] No run scheduled for client ${client._id} (disabled or no further occurrences)`);
   }
-  // Next month in ET
-  const nextMonthIndex = (monthIndex + 1) % 12;
-  const nextYear = monthIndex === 11 ? year + 1 : year;
-  const lastDayNextMonth = new Date(Date.UTC(nextYear, nextMonthIndex + 1, 0)).getUTCDate();
-  const desiredDayNextMonth = Math.min(dayOfMonth, lastDayNextMonth);
-  return getMidnightInTimeZone(nextYear, nextMonthIndex, desiredDayNextMonth, ET_TZ);
+  return result;
 }
 
 /**
- * Helper to schedule Cloudflare cron trigger
- * Note: Cloudflare cron triggers are configured in wrangler.toml, but we can also
- * use the Cloudflare API to create scheduled events dynamically
+ * Cancel a client's scheduled jobs and schedule the next occurrence of its rule
  */
-async function scheduleCloudflareCronTrigger(
-  ctx: ActionCtx,
-  params: {
-    cronJobId: string;
-    clientId: Id<"clients">;
-    ownerEmail: string;
-    scheduledTime: number;
-    isRepeating?: boolean;
-    dayOfMonth?: number;
-  }
-): Promise<void> {
-  // For now, we'll store the cron job info and use a scheduled Convex function
-  // Cloudflare cron triggers are typically configured statically in wrangler.toml
-  // We'll use Convex scheduler.runAfter for dynamic scheduling
-  
-  const delayMs = params.scheduledTime - Date.now();
-  
-  if (delayMs <= 0) {
-    // Already past due, run immediately
-    ctx.scheduler.runAfter(0, api.cronJobs.executeCronJob, {
-      cronJobId: params.cronJobId,
-      clientId: params.clientId,
-      ownerEmail: params.ownerEmail,
+export const rescheduleJobsForClient = mutation({
+  args: rescheduleArgs,
+  handler: async (ctx: MutationCtx, args): Promise<{ cronJobId: string; scheduledTime: number } | null> => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "schedules.write", args.ownerEmail);
+    return await rescheduleAndLog(ctx, client, args.ownerEmail, {
+      baseTime: args.baseTime,
+      skipFirstJob: args.skipFirstJob,
     });
-  } else {
-    // Schedule for later
-    ctx.scheduler.runAfter(delayMs, api.cronJobs.executeCronJob, {
-      cronJobId: params.cronJobId,
-      clientId: params.clientId,
-      ownerEmail: params.ownerEmail,
-    });
-  }
-}
+  },
+});
 
 /**
- * Create a cron job record in the database
+ * Schedule a newly created client's jobs (scheduled by the client mutations)
  */
-export const createCronJobRecord = mutation({
-  args: {
-    ownerEmail: v.string(),
-    clientId: v.id("clients"),
-    scheduledTime: v.number(),
-    dayOfMonth: v.number(),
-    isRepeating: v.boolean(),
-  },
-  handler: async (ctx: MutationCtx, args) => {
-    // Get organizationId from client
+export const scheduleClientJobs = internalMutation({
+  args: rescheduleArgs,
+  handler: async (ctx: MutationCtx, args): Promise<{ cronJobId: string; scheduledTime: number } | null> => {
     const client = await ctx.db.get(args.clientId);
-    if (!client || !client.organizationId) {
-      throw new Error("Client not found or missing organization");
+    if (!client) {
+      throw new Error(`Client not found: ${args.clientId}`);
     }
-    
-    const now = Date.now();
-    const cronJobId = `cron_${args.clientId}_${args.scheduledTime}_${Math.random().toString(36).substring(7)}`;
-    
-    await ctx.db.insert("cron_jobs", {
-      organizationId: client.organizationId,
-      ownerEmail: args.ownerEmail,
-      clientId: args.clientId,
-      cronJobId,
-      scheduledTime: args.scheduledTime,
-      dayOfMonth: args.dayOfMonth,
-      isRepeating: args.isRepeating,
-      status: "scheduled",
-      createdAt: now,
-      updatedAt: now,
+    return await rescheduleAndLog(ctx, client, args.ownerEmail, {
+      baseTime: args.baseTime,
+      skipFirstJob: args.skipFirstJob,
     });
-    
-    return cronJobId;
   },
 });
 
 /**
  * Execute a cron job (generate script)
  */
-export const executeCronJob = action({
+export const executeCronJob = internalAction({
   args: {
     cronJobId: v.string(),
     clientId: v.id("clients"),
@@ -343,7 +181,7 @@ export const executeCronJob = action({
   },
   handler: async (ctx: ActionCtx, args): Promise<void> => {
     // Get the cron job record directly by cronJobId (indexed)
-    const cronJob = await ctx.runQuery(api.cronJobs.getCronJobByCronId, {
+    const cronJob = await ctx.runQuery(internal.cronJobs.getCronJobByCronId, {
       cronJobId: args.cronJobId,
     });
     
@@ -358,13 +196,13 @@ export const executeCronJob = action({
     }
     
     // Get client
-    const client = await ctx.runQuery(api.clients.getClientById, {
+    const client = await ctx.runQuery(internal.clients.getClientByIdInternal, {
       clientId: args.clientId,
     });
     
     if (!client) {
       console.error(`[CronJobs] Client not found: ${args.clientId}`);
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
+      await ctx.runMutation(internal.cronJobs.updateCronJobStatus, {
         cronJobId: args.cronJobId,
         status: "failed",
       });
@@ -374,26 +212,25 @@ export const executeCronJob = action({
     // Check if cron jobs are still enabled
     if (client.cronJobEnabled === false) {
       console.log(`[CronJobs] Cron jobs disabled for client ${args.clientId}, cancelling job`);
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
+      await ctx.runMutation(internal.cronJobs.updateCronJobStatus, {
         cronJobId: args.cronJobId,
         status: "cancelled",
       });
       return;
     }
-    
-    // Get the onboarding response ID to generate script from
-    if (!client.onboardingResponseId) {
-      console.error(`[CronJobs] Client ${args.clientId} has no onboardingResponseId`);
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
+
+    if ((client.status ?? "active") !== "active") {
+      console.log(`[CronJobs] Client ${args.clientId} is ${client.status}, cancelling job`);
+      await ctx.runMutation(internal.cronJobs.updateCronJobStatus, {
         cronJobId: args.cronJobId,
-        status: "failed",
+        status: "cancelled",
       });
       return;
     }
     
     try {
       // Trigger script generation
-      const settings = await ctx.runQuery(api.scriptSettings.getSettingsForEmail, {
+      const settings = await ctx.runQuery(internal.scriptSettings.getSettingsForEmailInternal, {
         email: args.ownerEmail,
       });
       
@@ -407,9 +244,7 @@ export const executeCronJob = action({
       try {
         await fetch(`${baseUrl.replace(/\/$/, "")}/api/google-drive/create-folders`, {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
+          headers: internalApiHeaders(),
           body: JSON.stringify({
             clientId: args.clientId,
             email: args.ownerEmail,
@@ -421,15 +256,16 @@ export const executeCronJob = action({
         // Continue anyway; do not fail the cron job due to Drive errors
       }
       
-      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/api/scripts/generate-from-response`, {
+      // Generate from the client's full context (onboarding answers, linked transcripts,
+      // ad briefing, notes, previous scripts) rather than the onboarding response alone
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/api/scripts/generate-from-client`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: internalApiHeaders(),
         body: JSON.stringify({
-          responseId: client.onboardingResponseId,
-          email: args.ownerEmail,
           clientId: args.clientId,
+          email: args.ownerEmail,
+          force: true,
+          cronJobId: args.cronJobId,
         }),
       });
       
@@ -439,27 +275,24 @@ export const executeCronJob = action({
       }
       
       // Mark cron job as completed
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
+      await ctx.runMutation(internal.cronJobs.updateCronJobStatus, {
         cronJobId: args.cronJobId,
         status: "completed",
       });
       
       console.log(`[CronJobs] Successfully executed cron job ${args.cronJobId} for client ${args.clientId}`);
       
-      // If this is a repeating job, schedule the next month's occurrence
+      // If the rule has further occurrences, schedule the next one
       if (cronJob.isRepeating) {
-        await ctx.runAction(api.cronJobs.scheduleNextRepeatingJob, {
+        await ctx.runMutation(internal.cronJobs.scheduleNextRepeatingJob, {
           cronJobId: args.cronJobId,
-          clientId: args.clientId,
-          ownerEmail: args.ownerEmail,
-          dayOfMonth: cronJob.dayOfMonth,
         }).catch((error) => {
           console.error(`[CronJobs] Failed to schedule next repeating job for ${args.cronJobId}:`, error);
         });
       }
     } catch (error) {
       console.error(`[CronJobs] Failed to execute cron job ${args.cronJobId}:`, error);
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
+      await ctx.runMutation(internal.cronJobs.updateCronJobStatus, {
         cronJobId: args.cronJobId,
         status: "failed",
       });
@@ -474,156 +307,126 @@ export const executeCronJob = action({
 export const getNextScheduledJob = query({
   args: { clientId: v.id("clients") },
   handler: async (ctx: QueryCtx, args) => {
-    const jobs = await ctx.db
-      .query("cron_jobs")
-      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
-      .filter((q) => q.eq(q.field("status"), "scheduled"))
-      .collect();
-    if (jobs.length === 0) return null;
-    jobs.sort((a, b) => a.scheduledTime - b.scheduledTime);
-    return jobs[0];
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.read");
+    return await getEarliestScheduledJob(ctx, args.clientId);
   },
 });
 
+async function getEarliestScheduledJob(
+  ctx: QueryCtx | MutationCtx,
+  clientId: Id<"clients">
+): Promise<Doc<"cron_jobs"> | null> {
+  const jobs = await ctx.db
+    .query("cron_jobs")
+    .withIndex("by_client", (q) => q.eq("clientId", clientId))
+    .filter((q) => q.eq(q.field("status"), "scheduled"))
+    .collect();
+  if (jobs.length === 0) return null;
+  jobs.sort((a, b) => a.scheduledTime - b.scheduledTime);
+  return jobs[0];
+}
+
 /**
  * Override the next scheduled run to a specific date.
  * Will keep repeating status if current next job is repeating.
  */
-export const overrideNextRun = action({
+export const overrideNextRun = mutation({
   args: {
     clientId: v.id("clients"),
     ownerEmail: v.string(),
-    nextTime: v.number(), // arbitrary ms; will be converted to ET midnight of that day
+    nextTime: v.number(), // arbitrary ms; will be moved to the rule's hour on that day in the org timezone
   },
-  handler: async (ctx: ActionCtx, args): Promise<{ cronJobId: string; scheduledTime: number; dayOfMonth: number; isRepeating: boolean }> => {
-    const nextJob: Doc<"cron_jobs"> | null = await ctx.runQuery(api.cronJobs.getNextScheduledJob, {
-      clientId: args.clientId,
-    });
-    const keepRepeating: boolean = nextJob?.isRepeating === true;
-    if (nextJob) {
-      await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
-        cronJobId: nextJob.cronJobId,
-        status: "cancelled",
-      });
-    }
-    const scheduledTime = etMidnightForSameCalendarDay(args.nextTime);
-    const dayOfMonth = getEtDatePartsFromUtc(scheduledTime).day;
-    const newId: string = await ctx.runMutation(api.cronJobs.createCronJobRecord, {
-      ownerEmail: args.ownerEmail,
-      clientId: args.clientId,
-      scheduledTime,
-      dayOfMonth,
-      isRepeating: keepRepeating,
-    });
-    await scheduleCloudflareCronTrigger(ctx, {
-      cronJobId: newId,
-      clientId: args.clientId,
+  handler: async (ctx: MutationCtx, args): Promise<{ cronJobId: string; scheduledTime: number; dayOfMonth: number; isRepeating: boolean }> => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "schedules.write", args.ownerEmail);
+    const nextJob = await getEarliestScheduledJob(ctx, args.clientId);
+    const keepRepeating = nextJob?.isRepeating === true;
+    await cancelScheduledCronJobs(ctx, args.clientId);
+
+    const schedule = await resolveClientSchedule(ctx, client);
+    const scheduledTime = startOfZonedDay(args.nextTime, schedule.timezone, schedule.rule.hour ?? 0);
+    const cronJobId = await createScheduledCronJob(ctx, client, {
       ownerEmail: args.ownerEmail,
       scheduledTime,
       isRepeating: keepRepeating,
-      dayOfMonth,
+      timezone: schedule.timezone,
     });
-    return { cronJobId: newId, scheduledTime, dayOfMonth, isRepeating: keepRepeating };
+    const dayOfMonth = getZonedDateParts(scheduledTime, schedule.timezone).day;
+    return { cronJobId, scheduledTime, dayOfMonth, isRepeating: keepRepeating };
   },
 });
 
 /**
- * Skip the next scheduled run. If it's a repeating job, schedule the following month.
+ * Skip the next scheduled run. If it's a repeating job, schedule the following occurrence.
  */
-export const skipNextRun = action({
+export const skipNextRun = mutation({
   args: {
     clientId: v.id("clients"),
     ownerEmail: v.string(),
   },
-  handler: async (ctx: ActionCtx, args): Promise<{ skipped: boolean; cronJobId?: string; scheduledTime?: number }> => {
-    const nextJob: Doc<"cron_jobs"> | null = await ctx.runQuery(api.cronJobs.getNextScheduledJob, {
-      clientId: args.clientId,
-    });
+  handler: async (ctx: MutationCtx, args): Promise<{ skipped: boolean; cronJobId?: string; scheduledTime?: number }> => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "schedules.write", args.ownerEmail);
+    const nextJob = await getEarliestScheduledJob(ctx, args.clientId);
     if (!nextJob) {
       return { skipped: false };
     }
-    // Cancel the next job
-    await ctx.runMutation(api.cronJobs.updateCronJobStatus, {
-      cronJobId: nextJob.cronJobId,
-      status: "cancelled",
-    });
+    await cancelScheduledCronJobs(ctx, args.clientId);
     if (nextJob.isRepeating) {
-      const nextMonthTime = calculateNextDayOfMonth(nextJob.scheduledTime + 1, nextJob.dayOfMonth);
-      const createdId: string = await ctx.runMutation(api.cronJobs.createCronJobRecord, {
+      const next = await scheduleNextOccurrence(ctx, client, {
         ownerEmail: args.ownerEmail,
-        clientId: args.clientId,
-        scheduledTime: nextMonthTime,
-        dayOfMonth: nextJob.dayOfMonth,
-        isRepeating: true,
+        after: nextJob.scheduledTime,
       });
-      await scheduleCloudflareCronTrigger(ctx, {
-        cronJobId: createdId,
-        clientId: args.clientId,
-        ownerEmail: args.ownerEmail,
-        scheduledTime: nextMonthTime,
-        isRepeating: true,
-        dayOfMonth: nextJob.dayOfMonth,
-      });
-      return { skipped: true, cronJobId: createdId, scheduledTime: nextMonthTime };
+      if (next) {
+        return { skipped: true, ...next };
+      }
     }
     return { skipped: true };
   },
 });
 
 /**
- * Schedule the next repeating cron job (next month's occurrence)
+ * Schedule the occurrence that follows a completed repeating job
  */
-export const scheduleNextRepeatingJob = action({
+export const scheduleNextRepeatingJob = internalMutation({
   args: {
     cronJobId: v.string(),
-    clientId: v.id("clients"),
-    ownerEmail: v.string(),
-    dayOfMonth: v.number(),
   },
-  handler: async (ctx: ActionCtx, args): Promise<void> => {
-    // Get the cron job to find its pattern
-    const cronJobs = await ctx.runQuery(api.cronJobs.getCronJobsForClient, {
-      clientId: args.clientId,
-    });
-    
-    const originalJob = cronJobs.find((job: Doc<"cron_jobs">) => job.cronJobId === args.cronJobId);
-    
+  handler: async (ctx: MutationCtx, args): Promise<void> => {
+    const originalJob = await ctx.db
+      .query("cron_jobs")
+      .withIndex("by_cron_id", (q) => q.eq("cronJobId", args.cronJobId))
+      .unique();
+
     if (!originalJob || !originalJob.isRepeating) {
       console.log(`[CronJobs] Original job not found or not repeating: ${args.cronJobId}`);
       return;
     }
-    
-    // Calculate next month's occurrence of this day
-    const now = Date.now();
-    const nextScheduledTime = calculateNextDayOfMonth(now, args.dayOfMonth);
-    
-    // Create new cron job record
-    const newCronJobId = await ctx.runMutation(api.cronJobs.createCronJobRecord, {
-      ownerEmail: args.ownerEmail,
-      clientId: args.clientId,
-      scheduledTime: nextScheduledTime,
-      dayOfMonth: args.dayOfMonth,
-      isRepeating: true,
-    });
-    
-    // Schedule the next execution
-    await scheduleCloudflareCronTrigger(ctx, {
-      cronJobId: newCronJobId,
-      clientId: args.clientId,
-      ownerEmail: args.ownerEmail,
-      scheduledTime: nextScheduledTime,
-      isRepeating: true,
-      dayOfMonth: args.dayOfMonth,
+
+    const client = await ctx.db.get(originalJob.clientId);
+    if (!client || client.cronJobEnabled === false) {
+      return;
+    }
+
+    // A reschedule may already have queued the next run
+    const pending = await getEarliestScheduledJob(ctx, originalJob.clientId);
+    if (pending) {
+      return;
+    }
+
+    // Late executions must not schedule a run in the past
+    const next = await scheduleNextOccurrence(ctx, client, {
+      ownerEmail: originalJob.ownerEmail || client.ownerEmail || "",
+      after: Math.max(originalJob.scheduledTime, Date.now()),
     });
-    
-    console.log(`[CronJobs] Scheduled next repeating job ${newCronJobId} for client ${args.clientId} on day ${args.dayOfMonth}`);
+    if (next) {
+      console.log(`[CronJobs] Scheduled next repeating job ${next.cronJobId} for client ${originalJob.clientId} at ${new Date(next.scheduledTime).toISOString()}`);
+    }
   },
 });
 
 /**
  * Update cron job status
  */
-export const updateCronJobStatus = mutation({
+export const updateCronJobStatus = internalMutation({
   args: {
     cronJobId: v.string(),
     status: v.union(
@@ -636,7 +439,7 @@ export const updateCronJobStatus = mutation({
   handler: async (ctx: MutationCtx, args) => {
     const cronJobs = await ctx.db
       .query("cron_jobs")
-      .filter((q) => q.eq(q.field("cronJobId"), args.cronJobId))
+      .withIndex("by_cron_id", (q) => q.eq("cronJobId", args.cronJobId))
       .collect();
     
     if (cronJobs.length === 0) {
@@ -645,10 +448,26 @@ export const updateCronJobStatus = mutation({
     
     // Update all matching jobs (should only be one)
     for (const job of cronJobs) {
+      if (args.status === "cancelled") {
+        await cancelScheduledFunction(ctx, job);
+      }
       await ctx.db.patch(job._id, {
         status: args.status,
         updatedAt: Date.now(),
       });
+
+      if (args.status === "failed" && job.status !== "failed") {
+        const client = await ctx.db.get(job.clientId);
+        await notifyOrganization(ctx, {
+          organizationId: job.organizationId,
+          eventType: "cron_job_failed",
+          title: `Scheduled generation failed${client ? ` for ${client.businessName}` : ""}`,
+          body: `The job scheduled for ${new Date(job.scheduledTime).toUTCString()} did not complete.`,
+          link: `/dashboard/clients/${job.clientId}`,
+          recipientEmails: job.ownerEmail ? [job.ownerEmail] : undefined,
+          subject: { clientId: job.clientId },
+        });
+      }
     }
     
     return cronJobs[0]._id;
@@ -661,21 +480,78 @@ export const updateCronJobStatus = mutation({
 export const cancelJobsForClient = mutation({
   args: { clientId: v.id("clients") },
   handler: async (ctx: MutationCtx, args) => {
-    const jobs = await ctx.db
-      .query("cron_jobs")
-      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
-      .filter((q) => q.eq(q.field("status"), "scheduled"))
-      .collect();
-    
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "schedules.write");
+    return await cancelScheduledCronJobs(ctx, args.clientId);
+  },
+});
+
+/**
+ * Daily repair: find active clients with cron jobs enabled but no live future job
+ * (lost or failed scheduled function, job left in the past, or no job at all)
+ * and schedule their next occurrence. Processes clients in pages.
+ */
+export const reconcileClientSchedules = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx: MutationCtx, args): Promise<{ checked: number; repaired: number }> => {
+    const page = await ctx.db
+      .query("clients")
+      .paginate({ cursor: args.cursor ?? null, numItems: RECONCILE_PAGE_SIZE });
+
     const now = Date.now();
-    for (const job of jobs) {
-      await ctx.db.patch(job._id, {
-        status: "cancelled",
-        updatedAt: now,
+    let repaired = 0;
+    for (const client of page.page) {
+      // Paused and inactive clients get no runs (no status means active)
+      if (client.cronJobEnabled === false || (client.status ?? "active") !== "active") {
+        continue;
+      }
+      const jobs = await ctx.db
+        .query("cron_jobs")
+        .withIndex("by_client", (q) => q.eq("clientId", client._id))
+        .filter((q) => q.eq(q.field("status"), "scheduled"))
+        .collect();
+
+      let hasLiveJob = false;
+      for (const job of jobs) {
+        if (await isLiveScheduledJob(ctx, job, now)) {
+          hasLiveJob = true;
+          break;
+        }
+      }
+      if (hasLiveJob) {
+        continue;
+      }
+
+      // Dead jobs are marked failed so the history shows what was lost
+      for (const job of jobs) {
+        await cancelScheduledFunction(ctx, job);
+        await ctx.db.patch(job._id, { status: "failed", updatedAt: now });
+      }
+      const next = await rescheduleClientJobs(ctx, client, client.ownerEmail || "");
+      if (next) {
+        repaired++;
+        console.log(
+          `[CronJobs] Reconciled client ${client._id}: ${jobs.length} dead job(s), next run at ${new Date(next.scheduledTime).toISOString()}`
+        );
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.cronJobs.reconcileClientSchedules, {
+        cursor: page.continueCursor,
       });
     }
-    
-    return jobs.length;
+    return { checked: page.page.length, repaired };
   },
 });
 
+/**
+ * A scheduled job is live when its scheduled function will still run it, or is running it now
+ */
+async function isLiveScheduledJob(ctx: MutationCtx, job: Doc<"cron_jobs">, now: number): Promise<boolean> {
+  if (job.scheduledFunctionId) {
+    const scheduled = await ctx.db.system.get(job.scheduledFunctionId);
+    return scheduled?.state.kind === "pending" || scheduled?.state.kind === "inProgress";
+  }
+  // Jobs created before scheduled function IDs were stored: trust them until they are overdue
+  return job.scheduledTime + STALE_JOB_GRACE_MS > now;
+}
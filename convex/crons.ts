@@ -0,0 +1,38 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Resume or fail script generation runs that stopped making progress
+crons.interval(
+  "sweep stuck script generation runs",
+  { minutes: 5 },
+  internal.scriptGeneration.sweepStuckRuns,
+  {}
+);
+
+// Repair clients whose next scheduled script run was lost
+crons.daily(
+  "reconcile client schedules",
+  { hourUTC: 9, minuteUTC: 0 },
+  internal.cronJobs.reconcileClientSchedules,
+  {}
+);
+
+// Record client health scores for trends
+crons.daily(
+  "record client health snapshots",
+  { hourUTC: 10, minuteUTC: 0 },
+  internal.clientHealth.recordSnapshots,
+  {}
+);
+
+// Forget script editors that closed without leaving
+crons.interval(
+  "clean up stale script presence",
+  { minutes: 10 },
+  internal.scriptCollab.cleanupStalePresence,
+  {}
+);
+
+export default crons;
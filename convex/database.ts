@@ -1,8 +1,11 @@
 import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
-import { api } from "./_generated/api";
-import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import { internal } from "./_generated/api";
+import { authorize, type Permission } from "./utils/authorization";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+import { deleteSoundbitesForTranscript } from "./utils/soundbites";
+import { deleteTranscriptInsights, scheduleTranscriptInsights } from "./utils/insightExtraction";
 
 // Tables that are allowed for database operations
 const ALLOWED_TABLES = [
@@ -17,7 +20,7 @@ const ALLOWED_TABLES = [
 type AllowedTable = typeof ALLOWED_TABLES[number];
 
 // Tables that contain API keys - BLOCKED
-const BLOCKED_TABLES = ["typeform_configs", "fireflies_configs"] as const;
+const BLOCKED_TABLES = ["typeform_configs", "fireflies_configs", "openrouter_configs", "google_drive_configs"] as const;
 
 function validateTable(table: string): table is AllowedTable {
   if (BLOCKED_TABLES.includes(table as any)) {
@@ -29,6 +32,13 @@ function validateTable(table: string): table is AllowedTable {
   return true;
 }
 
+/**
+ * Clients have their own permissions; every other table holds records
+ */
+function tablePermission(table: string, action: "read" | "write" | "delete"): Permission {
+  return table === "clients" ? `clients.${action}` : `records.${action}`;
+}
+
 /**
  * Read data from a table
  */
@@ -44,13 +54,10 @@ export const readTable = query({
     validateTable(args.table);
     const limit = Math.min(args.limit ?? 100, 200);
     const includeTranscript = args.includeTranscript !== false; // Default to true
-    const organizationId = await getOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId } = await authorize(ctx, tablePermission(args.table, "read"), args.ownerEmail);
 
     switch (args.table) {
       case "clients":
-        if (!organizationId) {
-          return [];
-        }
         return await ctx.db
           .query("clients")
           .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
@@ -58,9 +65,6 @@ export const readTable = query({
           .take(limit);
 
       case "fireflies_transcripts":
-        if (!organizationId) {
-          return [];
-        }
         const transcripts = await ctx.db
           .query("fireflies_transcripts")
           .withIndex("by_organization_synced", (q) => q.eq("organizationId", organizationId))
@@ -99,9 +103,6 @@ export const readTable = query({
         return limited;
 
       case "fireflies_webhooks":
-        if (!organizationId) {
-          return [];
-        }
         return await ctx.db
           .query("fireflies_webhooks")
           .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
@@ -109,9 +110,6 @@ export const readTable = query({
           .take(limit);
 
       case "typeform_responses":
-        if (!organizationId) {
-          return [];
-        }
         const responses = await ctx.db
           .query("typeform_responses")
           .withIndex("by_organization_synced", (q) => q.eq("organizationId", organizationId))
@@ -139,9 +137,6 @@ export const readTable = query({
         return filteredResponses.slice(0, limit);
 
       case "typeform_webhooks":
-        if (!organizationId) {
-          return [];
-        }
         return await ctx.db
           .query("typeform_webhooks")
           .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
@@ -172,7 +167,11 @@ export const createRecord = mutation({
   handler: async (ctx: MutationCtx, args) => {
     validateTable(args.table);
     const now = Date.now();
-    const ownerOrganizationId = await getOrCreateOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId: ownerOrganizationId } = await authorize(
+      ctx,
+      tablePermission(args.table, "write"),
+      args.ownerEmail
+    );
 
     switch (args.table) {
       case "clients": {
@@ -193,7 +192,7 @@ export const createRecord = mutation({
         // Trigger script generation for new clients
         // Use scheduler to call the action asynchronously
         try {
-          ctx.scheduler.runAfter(0, api.clients.triggerScriptGeneration, {
+          ctx.scheduler.runAfter(0, internal.clients.triggerScriptGeneration, {
             clientId,
             ownerEmail: args.ownerEmail,
           });
@@ -220,7 +219,7 @@ export const createRecord = mutation({
           organizationId = client.organizationId;
         }
 
-        return await ctx.db.insert("fireflies_transcripts", {
+        const transcriptId = await ctx.db.insert("fireflies_transcripts", {
           organizationId,
           email: args.ownerEmail,
           transcriptId: args.data.transcriptId,
@@ -233,6 +232,11 @@ export const createRecord = mutation({
           syncedAt: now,
           clientId: args.data.clientId,
         });
+        await scheduleSearchIndexing(ctx, "transcript", transcriptId);
+        if (args.data.clientId) {
+          await scheduleTranscriptInsights(ctx, transcriptId);
+        }
+        return transcriptId;
       }
 
       case "fireflies_webhooks":
@@ -246,8 +250,8 @@ export const createRecord = mutation({
           receivedAt: now,
         });
 
-      case "typeform_responses":
-        return await ctx.db.insert("typeform_responses", {
+      case "typeform_responses": {
+        const responseId = await ctx.db.insert("typeform_responses", {
           organizationId: ownerOrganizationId,
           email: args.ownerEmail,
           formId: args.data.formId,
@@ -257,6 +261,9 @@ export const createRecord = mutation({
           questions: args.data.questions,
           qaPairs: args.data.qaPairs,
         });
+        await scheduleSearchIndexing(ctx, "response", responseId);
+        return responseId;
+      }
 
       case "typeform_webhooks":
         return await ctx.db.insert("typeform_webhooks", {
@@ -293,7 +300,7 @@ export const updateRecord = mutation({
   handler: async (ctx: MutationCtx, args) => {
     validateTable(args.table);
     const now = Date.now();
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId } = await authorize(ctx, tablePermission(args.table, "write"), args.ownerEmail);
 
     // Verify ownership for tables that require it
     switch (args.table) {
@@ -380,7 +387,7 @@ export const deleteRecord = mutation({
   },
   handler: async (ctx: MutationCtx, args) => {
     validateTable(args.table);
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId } = await authorize(ctx, tablePermission(args.table, "delete"), args.ownerEmail);
 
     // Verify ownership before deletion
     switch (args.table) {
@@ -401,6 +408,9 @@ export const deleteRecord = mutation({
           throw new Error("Transcript not found or access denied");
         }
         await ctx.db.delete(recordId);
+        await deleteSoundbitesForTranscript(ctx, recordId);
+        await deleteTranscriptInsights(ctx, recordId);
+        await scheduleSearchIndexing(ctx, "transcript", recordId);
         return recordId;
       }
 
@@ -421,6 +431,7 @@ export const deleteRecord = mutation({
           throw new Error("Response not found or access denied");
         }
         await ctx.db.delete(recordId);
+        await scheduleSearchIndexing(ctx, "response", recordId);
         return recordId;
       }
 
@@ -460,7 +471,7 @@ export const linkTranscriptToClient = mutation({
     ownerEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId } = await authorize(ctx, "records.write", args.ownerEmail);
     // Verify ownership
     const client = await ctx.db.get(args.clientId);
     if (!client || client.organizationId !== organizationId) {
@@ -479,6 +490,8 @@ export const linkTranscriptToClient = mutation({
     await ctx.db.patch(transcript._id, {
       clientId: args.clientId,
     });
+    await scheduleSearchIndexing(ctx, "transcript", transcript._id);
+    await scheduleTranscriptInsights(ctx, transcript._id);
 
     return transcript._id;
   },
@@ -494,7 +507,7 @@ export const linkResponseToClient = mutation({
     ownerEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.ownerEmail);
+    const { organizationId } = await authorize(ctx, "records.write", args.ownerEmail);
     // Verify ownership
     const client = await ctx.db.get(args.clientId);
     if (!client || client.organizationId !== organizationId) {
@@ -514,6 +527,7 @@ export const linkResponseToClient = mutation({
       onboardingResponseId: args.responseId,
       updatedAt: Date.now(),
     });
+    await scheduleSearchIndexing(ctx, "response", response._id);
 
     return args.clientId;
   },
@@ -1,8 +1,16 @@
-import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, type ObjectType } from "convex/values";
 import { api } from "./_generated/api";
-import type { Id } from "./_generated/dataModel";
-import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import type { Doc, Id } from "./_generated/dataModel";
+import { authorize, authorizeForOrganization, getAuthorizedRecord } from "./utils/authorization";
+import { notifyOrganization } from "./utils/notificationDispatch";
+import { learnAliasesFromManualLink } from "./utils/linkAliases";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+import { scheduleTranscriptInsights } from "./utils/insightExtraction";
+import { maskSecret } from "./utils/credentialVault";
+import { transcriptSentenceValidator, type TranscriptSentence } from "./utils/transcriptSentences";
+import { generateWebhookToken, getWebhookActorEmail } from "./utils/webhookTokens";
+import { webhookDeliveryStatusValidator, webhookStatusUpdate } from "./utils/webhookDeliveries";
 
 type LinkingHistoryEntry = {
   stage: string;
@@ -13,66 +21,102 @@ type LinkingHistoryEntry = {
   reason?: string;
 };
 
+/**
+ * The organization's Fireflies settings with the API key masked. Save the key
+ * with credentialsActions.setCredentialForEmail.
+ */
 export const getConfigForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
-    return await ctx.db
+    const { organizationId } = await authorize(ctx, "integrations.use", args.email);
+    const config = await ctx.db
       .query("fireflies_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
+    if (!config) return null;
+    const { apiKey, apiKeyEncrypted, ...settings } = config;
+    return { ...settings, maskedApiKey: maskSecret(apiKeyEncrypted, apiKey) };
   },
 });
 
-export const setApiKeyForEmail = mutation({
-  args: { email: v.string(), apiKey: v.string() },
+export const setWebhookSecretForEmail = mutation({
+  args: { email: v.string(), webhookSecret: v.string() },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId } = await authorize(ctx, "integrations.manage", args.email);
     const existing = await ctx.db
       .query("fireflies_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
     const now = Date.now();
     if (existing) {
-      await ctx.db.patch(existing._id, { apiKey: args.apiKey, updatedAt: now });
+      await ctx.db.patch(existing._id, { webhookSecret: args.webhookSecret, updatedAt: now });
       return existing._id;
     }
     return await ctx.db.insert("fireflies_configs", {
       organizationId,
       email: args.email,
-      apiKey: args.apiKey,
+      webhookSecret: args.webhookSecret,
       createdAt: now,
       updatedAt: now,
     });
   },
 });
 
-export const setWebhookSecretForEmail = mutation({
-  args: { email: v.string(), webhookSecret: v.string() },
+/**
+ * Create or replace the token in the organization's webhook URL. Webhooks
+ * sent to it act as the caller; the previous URL stops working.
+ */
+export const rotateWebhookTokenForEmail = mutation({
+  args: { email: v.string() },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId, email } = await authorize(ctx, "integrations.manage", args.email);
     const existing = await ctx.db
       .query("fireflies_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
+    const webhookToken = generateWebhookToken();
     const now = Date.now();
     if (existing) {
-      await ctx.db.patch(existing._id, { webhookSecret: args.webhookSecret, updatedAt: now });
-      return existing._id;
+      await ctx.db.patch(existing._id, { webhookToken, webhookTokenEmail: email, updatedAt: now });
+    } else {
+      await ctx.db.insert("fireflies_configs", {
+        organizationId,
+        email,
+        webhookToken,
+        webhookTokenEmail: email,
+        createdAt: now,
+        updatedAt: now,
+      });
     }
-    return await ctx.db.insert("fireflies_configs", {
-      organizationId,
-      email: args.email,
-      webhookSecret: args.webhookSecret,
-      createdAt: now,
-      updatedAt: now,
-    });
+    return webhookToken;
   },
 });
 
+/**
+ * Resolve the token in a webhook URL to its organization, the secret its
+ * signature must match and the member it acts as (null if they've left)
+ */
+export const getWebhookConfigByTokenInternal = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const config = await ctx.db
+      .query("fireflies_configs")
+      .withIndex("by_webhook_token", (q) => q.eq("webhookToken", args.token))
+      .unique();
+    if (!config) return null;
+    return {
+      organizationId: config.organizationId,
+      email: await getWebhookActorEmail(ctx, config),
+      secret: config.webhookSecret ?? null,
+    };
+  },
+});
+
+/**
+ * Record an inbound webhook before processing it. A repeat for a meeting
+ * that is already processed or in progress returns `duplicate: true` and
+ * must not be processed again; a repeat of a failed one starts a new attempt.
+ */
 export const storeWebhook = mutation({
   args: {
     email: v.string(),
@@ -82,8 +126,22 @@ export const storeWebhook = mutation({
     transcriptId: v.optional(v.string()),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
-    return await ctx.db.insert("fireflies_webhooks", {
+    const { organizationId } = await authorize(ctx, "records.write", args.email);
+    if (args.meetingId) {
+      const existing = await ctx.db
+        .query("fireflies_webhooks")
+        .withIndex("by_organization_meeting", (q) => q.eq("organizationId", organizationId).eq("meetingId", args.meetingId))
+        .first();
+      if (existing) {
+        if (existing.status !== "failed") {
+          return { webhookId: existing._id, duplicate: true };
+        }
+        await ctx.db.patch(existing._id, webhookStatusUpdate(existing, "received"));
+        return { webhookId: existing._id, duplicate: false };
+      }
+    }
+
+    const webhookId = await ctx.db.insert("fireflies_webhooks", {
       organizationId,
       email: args.email,
       payload: args.payload,
@@ -91,17 +149,62 @@ export const storeWebhook = mutation({
       meetingId: args.meetingId,
       transcriptId: args.transcriptId,
       receivedAt: Date.now(),
+      status: "received",
+      attempts: 1,
     });
+    return { webhookId, duplicate: false };
+  },
+});
+
+/**
+ * Record the outcome of processing a webhook, or ("received") the start of a replay
+ */
+export const setWebhookStatus = mutation({
+  args: {
+    webhookId: v.id("fireflies_webhooks"),
+    status: webhookDeliveryStatusValidator,
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const webhook = await getAuthorizedRecord(ctx, await ctx.db.get(args.webhookId), "records.write");
+    await ctx.db.patch(webhook._id, webhookStatusUpdate(webhook, args.status, args.error));
+  },
+});
+
+export const getWebhookById = query({
+  args: { webhookId: v.id("fireflies_webhooks") },
+  handler: async (ctx: QueryCtx, args) => {
+    return await getAuthorizedRecord(ctx, await ctx.db.get(args.webhookId), "records.read");
+  },
+});
+
+/**
+ * Deliveries for the webhook inspector, newest first
+ */
+export const listWebhooksForEmail = query({
+  args: {
+    email: v.string(),
+    status: v.optional(webhookDeliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+    const deliveries = ctx.db
+      .query("fireflies_webhooks")
+      .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
+      .order("desc");
+    if (args.status) {
+      return await deliveries.filter((q) => q.eq(q.field("status"), args.status)).take(limit);
+    }
+    return await deliveries.take(limit);
   },
 });
 
 export const getLatestWebhookForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const webhooks = await ctx.db
       .query("fireflies_webhooks")
       .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
@@ -114,10 +217,7 @@ export const getLatestWebhookForEmail = query({
 export const getAllTranscriptsForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return [];
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const transcripts = await ctx.db
       .query("fireflies_transcripts")
       .withIndex("by_organization_synced", (q) => q.eq("organizationId", organizationId))
@@ -133,10 +233,7 @@ export const getAllTranscriptsForEmail = query({
 export const getUnlinkedTranscriptsForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return [];
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     // Get all transcripts for this owner
     const allTranscripts = await ctx.db
       .query("fireflies_transcripts")
@@ -155,6 +252,7 @@ export const getUnlinkedTranscriptsForEmail = query({
 export const getTranscriptsForClient = query({
   args: { clientId: v.id("clients") },
   handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "records.read");
     const transcripts = await ctx.db
       .query("fireflies_transcripts")
       .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
@@ -165,6 +263,25 @@ export const getTranscriptsForClient = query({
 });
 
 export const getTranscriptById = query({
+  args: { transcriptId: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const transcript = await ctx.db
+      .query("fireflies_transcripts")
+      .withIndex("by_transcript_id", (q) => q.eq("transcriptId", args.transcriptId))
+      .first();
+    if (!transcript) {
+      return null;
+    }
+    await authorizeForOrganization(ctx, transcript.organizationId, "records.read");
+    return transcript;
+  },
+});
+
+/**
+ * Look up a transcript without a signed-in user, e.g. to find whose
+ * transcript a Telegram reply is about before acting as them
+ */
+export const getTranscriptByIdInternal = internalQuery({
   args: { transcriptId: v.string() },
   handler: async (ctx: QueryCtx, args) => {
     return await ctx.db
@@ -181,15 +298,7 @@ export const storeTranscript = mutation({
     meetingId: v.string(),
     title: v.string(),
     transcript: v.string(),
-    sentences: v.optional(
-      v.array(
-        v.object({
-          text: v.string(),
-          speakerName: v.optional(v.string()),
-          speakerId: v.optional(v.string()),
-        })
-      )
-    ),
+    sentences: v.optional(v.array(transcriptSentenceValidator)),
     date: v.number(),
     duration: v.optional(v.number()),
     participants: v.optional(v.array(v.string())),
@@ -218,6 +327,14 @@ export const storeTranscript = mutation({
     ),
   },
   handler: async (ctx: MutationCtx, args) => {
+    const caller = await authorize(ctx, "records.write", args.email);
+    if (args.clientId) {
+      const client = await ctx.db.get(args.clientId);
+      if (!client || client.organizationId !== caller.organizationId) {
+        throw new Error("Client not found or access denied");
+      }
+    }
+
     // Check if transcript already exists
     const existing = await ctx.db
       .query("fireflies_transcripts")
@@ -225,11 +342,14 @@ export const storeTranscript = mutation({
       .first();
     
     if (existing) {
+      if (existing.organizationId !== caller.organizationId) {
+        throw new Error("Not found or access denied");
+      }
       // Update existing transcript
       const updateData: {
         title: string;
         transcript: string;
-        sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+        sentences?: TranscriptSentence[];
         date: number;
         duration?: number;
         participants?: string[];
@@ -269,20 +389,13 @@ export const storeTranscript = mutation({
       }
       
       await ctx.db.patch(existing._id, updateData);
+      if (updateData.clientId) {
+        await scheduleTranscriptInsights(ctx, existing._id);
+      }
       return existing._id;
     }
     
-    // Get organizationId from client or email
-    let organizationId: Id<"organizations">;
-    if (args.clientId) {
-      const client = await ctx.db.get(args.clientId);
-      if (!client || !client.organizationId) {
-        throw new Error("Client not found or missing organization");
-      }
-      organizationId = client.organizationId;
-    } else {
-      organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
-    }
+    const organizationId = caller.organizationId;
 
     // Insert new transcript
     const record: {
@@ -292,7 +405,7 @@ export const storeTranscript = mutation({
       meetingId: string;
       title: string;
       transcript: string;
-      sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+      sentences?: TranscriptSentence[];
       date: number;
       duration?: number;
       participants?: string[];
@@ -328,83 +441,147 @@ export const storeTranscript = mutation({
       record.linkingHistory = [args.linkingHistoryEntry as LinkingHistoryEntry];
     }
     
-    return await ctx.db.insert("fireflies_transcripts", record);
+    const id = await ctx.db.insert("fireflies_transcripts", record);
+    await scheduleSearchIndexing(ctx, "transcript", id);
+    if (record.clientId) {
+      await scheduleTranscriptInsights(ctx, id);
+    }
+    return id;
   },
 });
 
-export const recordLinkingAttempt = mutation({
-  args: {
-    transcriptId: v.string(),
-    linkingStatus: v.optional(
-      v.union(
-        v.literal("unlinked"),
-        v.literal("auto_linked"),
-        v.literal("ai_pending"),
-        v.literal("ai_linked"),
-        v.literal("needs_human"),
-        v.literal("manually_linked")
-      )
-    ),
-    lastLinkAttemptAt: v.optional(v.number()),
-    linkingHistoryEntry: v.optional(
-      v.object({
-        stage: v.string(),
-        status: v.union(v.literal("success"), v.literal("no_match"), v.literal("error")),
-        timestamp: v.number(),
-        confidence: v.optional(v.number()),
-        clientId: v.optional(v.id("clients")),
-        reason: v.optional(v.string()),
-      })
-    ),
-    clientId: v.optional(v.id("clients")),
-    overwriteClient: v.optional(v.boolean()),
-  },
-  handler: async (ctx: MutationCtx, args) => {
-    const transcript = await ctx.db
-      .query("fireflies_transcripts")
-      .withIndex("by_transcript_id", (q) => q.eq("transcriptId", args.transcriptId))
-      .first();
+const recordLinkingAttemptArgs = {
+  transcriptId: v.string(),
+  linkingStatus: v.optional(
+    v.union(
+      v.literal("unlinked"),
+      v.literal("auto_linked"),
+      v.literal("ai_pending"),
+      v.literal("ai_linked"),
+      v.literal("needs_human"),
+      v.literal("manually_linked")
+    )
+  ),
+  lastLinkAttemptAt: v.optional(v.number()),
+  linkingHistoryEntry: v.optional(
+    v.object({
+      stage: v.string(),
+      status: v.union(v.literal("success"), v.literal("no_match"), v.literal("error")),
+      timestamp: v.number(),
+      confidence: v.optional(v.number()),
+      clientId: v.optional(v.id("clients")),
+      reason: v.optional(v.string()),
+    })
+  ),
+  clientId: v.optional(v.id("clients")),
+  overwriteClient: v.optional(v.boolean()),
+};
 
-    if (!transcript) {
-      throw new Error(`Transcript not found: ${args.transcriptId}`);
+async function applyLinkingAttempt(
+  ctx: MutationCtx,
+  transcript: Doc<"fireflies_transcripts">,
+  args: ObjectType<typeof recordLinkingAttemptArgs>,
+  actorEmail?: string
+) {
+  if (args.clientId) {
+    const client = await ctx.db.get(args.clientId);
+    if (!client || client.organizationId !== transcript.organizationId) {
+      throw new Error("Client not found or access denied");
     }
+  }
 
-    const update: {
-      clientId?: Id<"clients">;
-      linkingStatus?: typeof args.linkingStatus;
-      lastLinkAttemptAt?: number;
-      linkingHistory?: LinkingHistoryEntry[];
-    } = {};
+  const update: {
+    clientId?: Id<"clients">;
+    linkingStatus?: typeof args.linkingStatus;
+    lastLinkAttemptAt?: number;
+    linkingHistory?: LinkingHistoryEntry[];
+  } = {};
 
-    if (
-      args.clientId &&
-      (!transcript.clientId || args.overwriteClient)
-    ) {
-      update.clientId = args.clientId;
-    }
+  if (
+    args.clientId &&
+    (!transcript.clientId || args.overwriteClient)
+  ) {
+    update.clientId = args.clientId;
+  }
 
-    if (args.linkingStatus) {
-      update.linkingStatus = args.linkingStatus;
-    }
+  if (args.linkingStatus) {
+    update.linkingStatus = args.linkingStatus;
+  }
 
-    if (typeof args.lastLinkAttemptAt === "number") {
-      update.lastLinkAttemptAt = args.lastLinkAttemptAt;
-    }
+  if (typeof args.lastLinkAttemptAt === "number") {
+    update.lastLinkAttemptAt = args.lastLinkAttemptAt;
+  }
 
-    if (args.linkingHistoryEntry) {
-      const history = Array.isArray(transcript.linkingHistory)
-        ? (transcript.linkingHistory as LinkingHistoryEntry[]).slice()
-        : [];
-      history.push(args.linkingHistoryEntry as LinkingHistoryEntry);
-      update.linkingHistory = history;
-    }
+  if (args.linkingHistoryEntry) {
+    const history = Array.isArray(transcript.linkingHistory)
+      ? (transcript.linkingHistory as LinkingHistoryEntry[]).slice()
+      : [];
+    history.push(args.linkingHistoryEntry as LinkingHistoryEntry);
+    update.linkingHistory = history;
+  }
 
-    if (Object.keys(update).length === 0) {
-      return transcript._id;
-    }
-
-    await ctx.db.patch(transcript._id, update);
+  if (Object.keys(update).length === 0) {
     return transcript._id;
+  }
+
+  await ctx.db.patch(transcript._id, update);
+  if (update.clientId) {
+    await scheduleSearchIndexing(ctx, "transcript", transcript._id);
+    await scheduleTranscriptInsights(ctx, transcript._id);
+  }
+
+  // A person picked the client; link their next meeting without asking again
+  if (args.linkingStatus === "manually_linked" && args.clientId) {
+    await learnAliasesFromManualLink(ctx, transcript, args.clientId, actorEmail);
+  }
+
+  // Automatic linking gave up; ask a person (Telegram prompts, in-app, ...)
+  if (args.linkingStatus === "needs_human" && args.linkingHistoryEntry?.stage === "ai") {
+    await notifyOrganization(ctx, {
+      organizationId: transcript.organizationId,
+      eventType: "transcript_needs_human",
+      title: "Transcript needs a client",
+      body: `"${transcript.title}" couldn't be linked automatically: ${args.linkingHistoryEntry.reason ?? "no confident match"}`,
+      link: `/resolve-transcript/${transcript.transcriptId}`,
+      recipientEmails: transcript.email ? [transcript.email] : undefined,
+      subject: {
+        transcriptId: transcript.transcriptId,
+        suggestedClientId: args.linkingHistoryEntry.clientId,
+      },
+    });
+  }
+  return transcript._id;
+}
+
+async function getTranscriptByTranscriptId(ctx: MutationCtx, transcriptId: string) {
+  const transcript = await ctx.db
+    .query("fireflies_transcripts")
+    .withIndex("by_transcript_id", (q) => q.eq("transcriptId", transcriptId))
+    .first();
+
+  if (!transcript) {
+    throw new Error(`Transcript not found: ${transcriptId}`);
+  }
+  return transcript;
+}
+
+export const recordLinkingAttempt = mutation({
+  args: recordLinkingAttemptArgs,
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await getTranscriptByTranscriptId(ctx, args.transcriptId);
+    const { email } = await authorizeForOrganization(ctx, transcript.organizationId, "records.write");
+    return await applyLinkingAttempt(ctx, transcript, args, email);
+  },
+});
+
+/**
+ * Record a linking attempt from a scheduled delivery, which has no signed-in user
+ */
+export const recordLinkingAttemptInternal = internalMutation({
+  args: recordLinkingAttemptArgs,
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await getTranscriptByTranscriptId(ctx, args.transcriptId);
+    return await applyLinkingAttempt(ctx, transcript, args);
   },
 });
 
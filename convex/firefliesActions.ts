@@ -1,225 +1,139 @@
-import { action, ActionCtx } from "./_generated/server";
+import { action, internalAction, ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
 import type { Doc, Id } from "./_generated/dataModel";
+import { getCallerEmail } from "./utils/authorization";
+import { getCredentialForEmail } from "./utils/credentials";
+import { openRouterRequest } from "./utils/openrouterClient";
+import { internalApiHeaders } from "./utils/internalApi";
+import { buildLinkKeyboard, callTelegramApi } from "./utils/telegram";
+import { formatContactsForPrompt } from "./utils/clientContacts";
+import type { TranscriptSentence } from "./utils/transcriptSentences";
+import {
+  describeCandidate,
+  pickAutoLinkCandidate,
+  resolveClientCandidates,
+} from "./utils/clientResolution";
 
 const FIREFLIES_API_URL = "https://api.fireflies.ai/graphql";
 
-const COMMON_TLDS = [
-  "com",
-  "net",
-  "org",
-  "io",
-  "ai",
-  "co",
-  "us",
-  "uk",
-  "ca",
-  "app",
-  "dev",
-  "info",
-  "biz",
-  "xyz",
-];
-
-function normalizeEmail(email: string): string {
-  return email.toLowerCase().trim();
-}
-
-function normalizeKey(value: string): string {
-  return value.toLowerCase().trim().replace(/[^a-z0-9]/g, "");
-}
-
-function extractDomain(email: string): string | null {
-  const atIndex = email.lastIndexOf("@");
-  if (atIndex === -1) return null;
-  return email.slice(atIndex + 1).toLowerCase().trim();
-}
-
-function stripCommonTlds(value: string): string {
-  let result = value;
-  let changed = true;
-  while (changed && result.length > 0) {
-    changed = false;
-    for (const tld of COMMON_TLDS) {
-      if (result.endsWith(tld)) {
-        result = result.slice(0, -tld.length);
-        changed = true;
-        break;
-      }
-    }
-  }
-  return result;
-}
-
-function getDomainKey(domain: string): string | null {
-  const normalized = normalizeKey(domain);
-  if (!normalized) return null;
-  const stripped = stripCommonTlds(normalized);
-  return stripped || normalized;
-}
-
-type ClientLinkingMeta = {
-  client: { _id: Id<"clients">; businessEmail?: string | null; businessName?: string | null };
-  emailNormalized: string | null;
-  domain: string | null;
-  domainKey: string | null;
-  businessKey: string | null;
-};
-
-type ClientLookup = {
-  metas: ClientLinkingMeta[];
-  byEmail: Map<string, ClientLinkingMeta>;
-  byDomain: Map<string, ClientLinkingMeta[]>;
-  byDomainKey: Map<string, ClientLinkingMeta[]>;
-};
-
 type LinkingHistoryEntry = NonNullable<Doc<"fireflies_transcripts">["linkingHistory"]>[number];
 
-function buildClientLookup(
-  clients: Array<{ _id: Id<"clients">; businessEmail?: string | null; businessName?: string | null }>
-): ClientLookup {
-  const metas: ClientLinkingMeta[] = [];
-  const byEmail = new Map<string, ClientLinkingMeta>();
-  const byDomain = new Map<string, ClientLinkingMeta[]>();
-  const byDomainKey = new Map<string, ClientLinkingMeta[]>();
-
-  for (const client of clients) {
-    const emailNormalized = client.businessEmail ? normalizeEmail(client.businessEmail) : null;
-    const domain = client.businessEmail ? extractDomain(client.businessEmail) : null;
-    const domainKey = domain ? getDomainKey(domain) : null;
-    const businessKey = client.businessName ? normalizeKey(client.businessName) : null;
-    const meta: ClientLinkingMeta = {
-      client,
-      emailNormalized,
-      domain,
-      domainKey,
-      businessKey,
-    };
-    metas.push(meta);
-    if (emailNormalized) {
-      byEmail.set(emailNormalized, meta);
-    }
-    if (domain) {
-      const list = byDomain.get(domain);
-      if (list) {
-        list.push(meta);
-      } else {
-        byDomain.set(domain, [meta]);
-      }
-    }
-    if (domainKey) {
-      const list = byDomainKey.get(domainKey);
-      if (list) {
-        list.push(meta);
-      } else {
-        byDomainKey.set(domainKey, [meta]);
-      }
-    }
-  }
+// What the resolver matches a transcript against
+type LinkingContext = {
+  clients: Doc<"clients">[];
+  aliases: Doc<"link_aliases">[];
+  threshold: number;
+};
 
-  return { metas, byEmail, byDomain, byDomainKey };
+async function loadLinkingContext(ctx: ActionCtx, ownerEmail: string): Promise<LinkingContext> {
+  const [clients, aliases, threshold] = await Promise.all([
+    ctx.runQuery(api.clients.getClientsForLinking, { ownerEmail }),
+    ctx.runQuery(api.linkAliases.getAliasesForLinking, { ownerEmail }),
+    ctx.runQuery(api.organizations.getAutoLinkThresholdForEmail, { email: ownerEmail }),
+  ]);
+  return { clients, aliases, threshold };
 }
 
-type MatchResult = {
-  meta: ClientLinkingMeta;
-  confidence: number;
-  reason: string;
-};
-
-function matchClientForParticipants(
+/**
+ * Automatic linking from a transcript's participants, title and the
+ * organization's alias rules. Returns the client to link when the best
+ * candidate reaches the threshold, and the history entry explaining the
+ * outcome either way.
+ */
+function resolveTranscriptAutoLink(
   ownerEmail: string,
-  participants: string[] | undefined,
-  lookup: ClientLookup
-): MatchResult | null {
-  if (!participants || participants.length === 0) {
-    return null;
+  transcript: { title: string; participants?: string[] },
+  { clients, aliases, threshold }: LinkingContext,
+  timestamp: number
+): { clientId?: Id<"clients">; linkingHistoryEntry: LinkingHistoryEntry } {
+  const candidates = resolveClientCandidates(
+    { emails: transcript.participants, ignoreEmails: [ownerEmail], title: transcript.title, aliases },
+    clients
+  );
+  const match = pickAutoLinkCandidate(candidates, threshold);
+  if (match) {
+    return {
+      clientId: match.client._id,
+      linkingHistoryEntry: {
+        stage: "auto",
+        status: "success",
+        timestamp,
+        confidence: match.score,
+        clientId: match.client._id,
+        reason: describeCandidate(match),
+      },
+    };
   }
 
-  const ownerNormalized = normalizeEmail(ownerEmail);
-  let bestMatch: MatchResult | null = null;
-
-  const consider = (candidate: MatchResult) => {
-    if (!bestMatch || candidate.confidence > bestMatch.confidence) {
-      bestMatch = candidate;
-    }
+  const [best] = candidates;
+  let reason: string;
+  if (best) {
+    reason = `Best candidate ${best.client.businessName} is below the auto-link threshold ${threshold} or tied. ${describeCandidate(best)}`;
+  } else if (transcript.participants && transcript.participants.length > 0) {
+    reason = "No matching client found for participant emails.";
+  } else {
+    reason = "Transcript contained no participant emails to evaluate.";
+  }
+  return {
+    linkingHistoryEntry: {
+      stage: "auto",
+      status: "no_match",
+      timestamp,
+      confidence: best?.score,
+      reason,
+    },
   };
+}
 
-  for (const participant of participants) {
-    if (!participant) continue;
-    const normalized = normalizeEmail(participant);
-    if (normalized === ownerNormalized) continue;
-
-    // Exact email match
-    const emailMatch = lookup.byEmail.get(normalized);
-    if (emailMatch) {
-      return {
-        meta: emailMatch,
-        confidence: 1,
-        reason: `Participant email "${participant}" matches client business email.`,
-      };
-    }
-
-    const domain = extractDomain(participant);
-    if (!domain) continue;
-
-    const domainMatches = lookup.byDomain.get(domain) ?? [];
-    if (domainMatches.length === 1) {
-      const candidate: MatchResult = {
-        meta: domainMatches[0],
-        confidence: 0.95,
-        reason: `Participant domain "${domain}" uniquely matches client email domain.`,
-      };
-      consider(candidate);
-      if (candidate.confidence >= 0.95) {
-        return candidate;
-      }
-    }
+type LinkingCandidate = {
+  client: Doc<"clients">;
+  score: number;
+};
 
-    const participantDomainKey = getDomainKey(domain);
-    if (!participantDomainKey) continue;
+// Buttons offered on a Telegram linking prompt
+const TELEGRAM_CANDIDATE_LIMIT = 5;
 
-    const keyCandidates = lookup.byDomainKey.get(participantDomainKey) ?? [];
-    if (keyCandidates.length === 1) {
-      consider({
-        meta: keyCandidates[0],
-        confidence: 0.85,
-        reason: `Participant domain core "${participantDomainKey}" uniquely aligns with client domain.`,
-      });
-      continue;
-    }
+// The AI's pick only reaches Telegram when it was below the threshold
+const SUGGESTED_CLIENT_CONFIDENCE = 0.8;
 
-    if (keyCandidates.length > 1) {
-      const filtered = keyCandidates.filter(
-        (candidate) =>
-          candidate.businessKey &&
-          (candidate.businessKey.includes(participantDomainKey) ||
-            participantDomainKey.includes(candidate.businessKey))
-      );
-      if (filtered.length === 1) {
-        consider({
-          meta: filtered[0],
-          confidence: 0.75,
-          reason: `Participant domain core "${participantDomainKey}" matches client business name.`,
-        });
-        continue;
-      }
-    }
-
-    // Fallback fuzzy business name match
-    for (const meta of lookup.metas) {
-      if (!meta.businessKey) continue;
-      if (meta.businessKey.includes(participantDomainKey) || participantDomainKey.includes(meta.businessKey)) {
-        consider({
-          meta,
-          confidence: 0.65,
-          reason: `Participant domain "${domain}" loosely matches client business name "${meta.client.businessName ?? ""}".`,
-        });
-      }
-    }
+/**
+ * Rank clients a transcript could belong to, for the Telegram prompt's
+ * buttons. Uses the same resolver as automatic linking plus the AI's
+ * suggestion, then falls back to recently updated clients so there is always
+ * something to pick.
+ */
+function rankLinkingCandidates(
+  ownerEmail: string,
+  transcript: Doc<"fireflies_transcripts">,
+  clients: Doc<"clients">[],
+  aliases: Doc<"link_aliases">[],
+  suggestedClientId?: string
+): LinkingCandidate[] {
+  const ranked: LinkingCandidate[] = resolveClientCandidates(
+    {
+      emails: transcript.participants,
+      ignoreEmails: [ownerEmail],
+      title: transcript.title,
+      aliases,
+      llmVote: suggestedClientId
+        ? { clientId: suggestedClientId, confidence: SUGGESTED_CLIENT_CONFIDENCE }
+        : undefined,
+    },
+    clients
+  )
+    .slice(0, TELEGRAM_CANDIDATE_LIMIT)
+    .map(({ client, score }) => ({ client, score }));
+
+  const rankedIds = new Set(ranked.map(({ client }) => client._id));
+  const recent = clients
+    .filter((client) => !rankedIds.has(client._id))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  for (const client of recent) {
+    if (ranked.length >= TELEGRAM_CANDIDATE_LIMIT) break;
+    ranked.push({ client, score: 0 });
   }
-
-  return bestMatch;
+  return ranked;
 }
 
 type FirefliesTranscript = {
@@ -232,6 +146,8 @@ type FirefliesTranscript = {
     text: string;
     speaker_name?: string;
     speaker_id?: string;
+    start_time?: number; // Seconds from the start of the call
+    end_time?: number;
   }>;
   participants?: string[]; // Array of strings, not objects
   summary?: {
@@ -260,14 +176,13 @@ export const fetchFirefliesTranscripts = action({
     duration?: number;
     transcript: string;
     participants?: string[];
-    sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+    sentences?: TranscriptSentence[];
     notes?: string;
   }>> => {
-    const config: { apiKey?: string } | null = await ctx.runQuery(api.fireflies.getConfigForEmail, {
-      email: args.email,
-    });
+    await getCallerEmail(ctx, args.email);
+    const apiKey = await getCredentialForEmail(ctx, args.email, "fireflies_api_key");
 
-    if (!config?.apiKey) {
+    if (!apiKey) {
       throw new Error(`API key not configured for user: ${args.email}. Please set your Fireflies AI API key in settings.`);
     }
 
@@ -285,6 +200,9 @@ export const fetchFirefliesTranscripts = action({
           sentences {
             text
             speaker_name
+            speaker_id
+            start_time
+            end_time
           }
           participants
           summary {
@@ -297,7 +215,7 @@ export const fetchFirefliesTranscripts = action({
     const response: Response = await fetch(FIREFLIES_API_URL, {
       method: "POST",
       headers: {
-        "Authorization": `Bearer ${config.apiKey}`,
+        "Authorization": `Bearer ${apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({ query }),
@@ -347,6 +265,8 @@ export const fetchFirefliesTranscripts = action({
             text: s.text,
             speakerName: s.speaker_name,
             speakerId: s.speaker_id,
+            startTime: s.start_time,
+            endTime: s.end_time,
           }))
         : undefined;
 
@@ -379,14 +299,13 @@ export const fetchTranscriptById = action({
     duration?: number;
     transcript: string;
     participants?: string[];
-    sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+    sentences?: TranscriptSentence[];
     notes?: string;
   } | null> => {
-    const config: { apiKey?: string } | null = await ctx.runQuery(api.fireflies.getConfigForEmail, {
-      email: args.email,
-    });
+    await getCallerEmail(ctx, args.email);
+    const apiKey = await getCredentialForEmail(ctx, args.email, "fireflies_api_key");
 
-    if (!config?.apiKey) {
+    if (!apiKey) {
       throw new Error(`API key not configured for user: ${args.email}. Please set your Fireflies AI API key in settings.`);
     }
 
@@ -403,6 +322,9 @@ export const fetchTranscriptById = action({
           sentences {
             text
             speaker_name
+            speaker_id
+            start_time
+            end_time
           }
           participants
           summary {
@@ -415,7 +337,7 @@ export const fetchTranscriptById = action({
     const response: Response = await fetch(FIREFLIES_API_URL, {
       method: "POST",
       headers: {
-        "Authorization": `Bearer ${config.apiKey}`,
+        "Authorization": `Bearer ${apiKey}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
@@ -468,6 +390,8 @@ export const fetchTranscriptById = action({
           text: s.text,
           speakerName: s.speaker_name,
           speakerId: s.speaker_id,
+          startTime: s.start_time,
+          endTime: s.end_time,
         }))
       : undefined;
 
@@ -492,6 +416,7 @@ export const syncFirefliesTranscripts = action({
     email: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<{ synced: number; skipped: number; total: number }> => {
+    await getCallerEmail(ctx, args.email);
     const transcripts: Array<{
       id: string;
       title: string;
@@ -499,7 +424,7 @@ export const syncFirefliesTranscripts = action({
       duration?: number;
       transcript: string;
       participants?: string[];
-      sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+      sentences?: TranscriptSentence[];
       notes?: string;
     }> = await ctx.runAction(api.firefliesActions.fetchFirefliesTranscripts, {
       email: args.email,
@@ -508,8 +433,7 @@ export const syncFirefliesTranscripts = action({
     let synced = 0;
     let skipped = 0;
 
-    const clients = await ctx.runQuery(api.clients.getClientsForLinking, { ownerEmail: args.email });
-    const clientLookup = buildClientLookup(clients);
+    const linkingContext = await loadLinkingContext(ctx, args.email);
 
     for (const transcript of transcripts) {
       try {
@@ -517,21 +441,13 @@ export const syncFirefliesTranscripts = action({
         const dateTimestamp = new Date(transcript.date).getTime();
 
         const attemptTimestamp = Date.now();
-        const match = matchClientForParticipants(args.email, transcript.participants, clientLookup);
-
-        const linkingStatus = match ? "auto_linked" : "unlinked";
-        const linkingHistoryEntry = {
-          stage: "auto",
-          status: match ? ("success" as const) : ("no_match" as const),
-          timestamp: attemptTimestamp,
-          confidence: match?.confidence,
-          clientId: match?.meta.client._id,
-          reason:
-            match?.reason ??
-            (transcript.participants && transcript.participants.length > 0
-              ? "No matching client found for participant emails."
-              : "Transcript contained no participant emails to evaluate."),
-        };
+        const { clientId, linkingHistoryEntry } = resolveTranscriptAutoLink(
+          args.email,
+          transcript,
+          linkingContext,
+          attemptTimestamp
+        );
+        const linkingStatus = clientId ? "auto_linked" : "unlinked";
 
         await ctx.runMutation(api.fireflies.storeTranscript, {
           email: args.email,
@@ -544,16 +460,16 @@ export const syncFirefliesTranscripts = action({
           duration: transcript.duration,
           participants: transcript.participants,
           notes: transcript.notes,
-          clientId: match ? match.meta.client._id : undefined,
+          clientId,
           linkingStatus,
           lastLinkAttemptAt: attemptTimestamp,
           linkingHistoryEntry,
         });
         synced++;
 
-        if (!match) {
+        if (!clientId) {
           try {
-            const aiOutcome = await ctx.runAction(api.firefliesActions.analyzeTranscriptForLinking, {
+            await ctx.runAction(api.firefliesActions.analyzeTranscriptForLinking, {
               email: args.email,
               transcriptId: transcript.id,
             });
@@ -585,6 +501,7 @@ export const fetchAndStoreTranscriptById = action({
     meetingId: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<void> => {
+    await getCallerEmail(ctx, args.email);
     try {
       const transcript = await ctx.runAction(api.firefliesActions.fetchTranscriptById, {
         email: args.email,
@@ -599,23 +516,15 @@ export const fetchAndStoreTranscriptById = action({
       // Parse date string to timestamp
       const dateTimestamp = new Date(transcript.date).getTime();
 
-      const clients = await ctx.runQuery(api.clients.getClientsForLinking, { ownerEmail: args.email });
-      const clientLookup = buildClientLookup(clients);
+      const linkingContext = await loadLinkingContext(ctx, args.email);
       const attemptTimestamp = Date.now();
-      const match = matchClientForParticipants(args.email, transcript.participants, clientLookup);
-      const linkingStatus = match ? "auto_linked" : "unlinked";
-      const linkingHistoryEntry = {
-        stage: "auto",
-        status: match ? ("success" as const) : ("no_match" as const),
-        timestamp: attemptTimestamp,
-        confidence: match?.confidence,
-        clientId: match?.meta.client._id,
-        reason:
-          match?.reason ??
-          (transcript.participants && transcript.participants.length > 0
-            ? "No matching client found for participant emails."
-            : "Transcript contained no participant emails to evaluate."),
-      };
+      const { clientId, linkingHistoryEntry } = resolveTranscriptAutoLink(
+        args.email,
+        transcript,
+        linkingContext,
+        attemptTimestamp
+      );
+      const linkingStatus = clientId ? "auto_linked" : "unlinked";
 
       // Store the transcript data in the transcripts table
       await ctx.runMutation(api.fireflies.storeTranscript, {
@@ -629,7 +538,7 @@ export const fetchAndStoreTranscriptById = action({
         duration: transcript.duration,
         participants: transcript.participants,
         notes: transcript.notes,
-        clientId: match ? match.meta.client._id : undefined,
+        clientId,
         linkingStatus,
         lastLinkAttemptAt: attemptTimestamp,
         linkingHistoryEntry,
@@ -658,6 +567,7 @@ export const analyzeTranscriptForLinking = action({
     | { status: "linked"; transcriptId: string; clientId: string; confidence: number }
     | { status: "needs_human"; transcriptId: string; reason: string; confidence: number }
   > => {
+    await getCallerEmail(ctx, args.email);
     const transcript = await ctx.runQuery(api.fireflies.getTranscriptById, {
       transcriptId: args.transcriptId,
     });
@@ -696,12 +606,10 @@ export const analyzeTranscriptForLinking = action({
     }
 
     // Get OpenRouter API key from Convex (user-specific)
-    const openrouterConfig = await ctx.runQuery(api.openrouter.getConfigForEmail, {
-      email: args.email,
-    });
+    const configuredKey = await getCredentialForEmail(ctx, args.email, "openrouter_api_key");
 
     // Fallback to environment variable for backwards compatibility
-    const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = configuredKey || process.env.OPENROUTER_API_KEY;
     if (!apiKey) {
       throw new Error(
         "OpenRouter API key is not configured. Please set it in Settings → OpenRouter. " +
@@ -715,6 +623,7 @@ export const analyzeTranscriptForLinking = action({
       businessEmail: client.businessEmail ?? "",
       contactFirstName: client.contactFirstName ?? "",
       contactLastName: client.contactLastName ?? "",
+      contacts: client.contacts,
       status: client.status ?? null,
     }));
 
@@ -742,7 +651,11 @@ export const analyzeTranscriptForLinking = action({
             client.contactLastName,
           ]
             .filter(Boolean)
-            .join(" ") || "Unknown"}\n  Status: ${client.status || "unspecified"}`
+            .join(" ") || "Unknown"}${
+            client.contacts.length > 0
+              ? `\n  Contacts:\n${formatContactsForPrompt(client.contacts).replace(/^/gm, "    ")}`
+              : ""
+          }\n  Status: ${client.status || "unspecified"}`
       ),
       `Transcript content:\n"""${transcript.transcript}"""`,
     ].join("\n\n");
@@ -757,13 +670,11 @@ export const analyzeTranscriptForLinking = action({
     const attemptTimestamp = Date.now();
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
+      const data = await openRouterRequest<any>(
+        ctx,
+        apiKey,
+        "chat/completions",
+        {
           // Using openrouter/auto to match the chat default, or fallback to gpt-4o-mini for cost efficiency
           // This will automatically select the best available model
           model: "openrouter/auto",
@@ -772,14 +683,9 @@ export const analyzeTranscriptForLinking = action({
             { role: "system", content: systemPrompt },
             { role: "user", content: userPrompt },
           ],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenRouter request failed with status ${response.status}`);
-      }
-
-      const data = (await response.json()) as any;
+        },
+        { email: args.email, feature: "transcript_linking" }
+      );
       const content = data?.choices?.[0]?.message?.content;
       if (!content || typeof content !== "string") {
         throw new Error("AI response missing content.");
@@ -833,36 +739,52 @@ export const analyzeTranscriptForLinking = action({
       };
     }
 
-    if (aiResult.decision === "link" && aiResult.clientId) {
-      const targetClient = clients.find((client) => client._id === aiResult.clientId);
-      if (targetClient && aiResult.confidence >= 0.75) {
-        await ctx.runMutation(api.clients.linkTranscriptToClient, {
-          transcriptId: args.transcriptId,
-          clientId: targetClient._id,
-        });
+    // The AI's pick is one more signal next to the participants and title
+    const [aliases, threshold] = await Promise.all([
+      ctx.runQuery(api.linkAliases.getAliasesForLinking, { ownerEmail: args.email }),
+      ctx.runQuery(api.organizations.getAutoLinkThresholdForEmail, { email: args.email }),
+    ]);
+    const candidates = resolveClientCandidates(
+      {
+        emails: transcript.participants,
+        ignoreEmails: [args.email],
+        title: transcript.title,
+        aliases,
+        llmVote:
+          aiResult.decision === "link" && aiResult.clientId
+            ? { clientId: aiResult.clientId, confidence: aiResult.confidence, reason: aiResult.reason }
+            : undefined,
+      },
+      clients
+    );
+    const match = pickAutoLinkCandidate(candidates, threshold);
+    if (match) {
+      await ctx.runMutation(api.clients.linkTranscriptToClient, {
+        transcriptId: args.transcriptId,
+        clientId: match.client._id,
+      });
 
-        await ctx.runMutation(api.fireflies.recordLinkingAttempt, {
-          transcriptId: args.transcriptId,
-          clientId: targetClient._id,
-          linkingStatus: "ai_linked",
-          lastLinkAttemptAt: attemptTimestamp,
-          linkingHistoryEntry: {
-            stage: "ai",
-            status: "success",
-            timestamp: attemptTimestamp,
-            confidence: aiResult.confidence,
-            clientId: targetClient._id,
-            reason: aiResult.reason,
-          },
-        });
+      await ctx.runMutation(api.fireflies.recordLinkingAttempt, {
+        transcriptId: args.transcriptId,
+        clientId: match.client._id,
+        linkingStatus: "ai_linked",
+        lastLinkAttemptAt: attemptTimestamp,
+        linkingHistoryEntry: {
+          stage: "ai",
+          status: "success",
+          timestamp: attemptTimestamp,
+          confidence: match.score,
+          clientId: match.client._id,
+          reason: describeCandidate(match),
+        },
+      });
 
-        return {
-          status: "linked",
-          transcriptId: args.transcriptId,
-          clientId: targetClient._id,
-          confidence: aiResult.confidence,
-        };
-      }
+      return {
+        status: "linked",
+        transcriptId: args.transcriptId,
+        clientId: match.client._id,
+        confidence: match.score,
+      };
     }
 
     await ctx.runMutation(api.fireflies.recordLinkingAttempt, {
@@ -879,17 +801,6 @@ export const analyzeTranscriptForLinking = action({
       },
     });
 
-    try {
-      await ctx.runAction(api.firefliesActions.notifyTranscriptLinkingViaTelegram, {
-        transcriptId: args.transcriptId,
-      });
-    } catch (notifyError) {
-      console.error(
-        `Failed to send Telegram escalation for transcript ${args.transcriptId}:`,
-        notifyError
-      );
-    }
-
     return {
       status: "needs_human",
       transcriptId: args.transcriptId,
@@ -899,24 +810,53 @@ export const analyzeTranscriptForLinking = action({
   },
 });
 
+const telegramPromptArgs = {
+  transcriptId: v.string(),
+  suggestedClientId: v.optional(v.string()), // The AI's low-confidence pick, offered first
+  force: v.optional(v.boolean()), // Send again even if the chat was already asked
+};
+
+type TelegramPromptResult =
+  | { status: "sent"; transcriptId: string; messageId: number }
+  | { status: "skipped"; reason: string };
+
+/**
+ * Ask the organization's Telegram chat which client a transcript belongs to.
+ * The message has a button per candidate client; presses are handled by
+ * /api/telegram/webhook using the prompt recorded here.
+ */
 export const notifyTranscriptLinkingViaTelegram = action({
-  args: {
-    transcriptId: v.string(),
+  args: telegramPromptArgs,
+  handler: async (ctx: ActionCtx, args): Promise<TelegramPromptResult> => {
+    const transcript = await ctx.runQuery(api.fireflies.getTranscriptById, {
+      transcriptId: args.transcriptId,
+    });
+    if (!transcript) {
+      return {
+        status: "skipped",
+        reason: `Transcript ${args.transcriptId} not found.`,
+      };
+    }
+    return await ctx.runAction(internal.firefliesActions.sendTranscriptLinkingPrompt, args);
   },
-  handler: async (
-    ctx: ActionCtx,
-    args
-  ): Promise<{ status: "sent"; transcriptId: string; messageId: number } | { status: "skipped"; reason: string }> => {
+});
+
+/**
+ * The Telegram adapter's delivery for transcript_needs_human notifications
+ * (see notificationDelivery.ts), which run without a signed-in user
+ */
+export const sendTranscriptLinkingPrompt = internalAction({
+  args: telegramPromptArgs,
+  handler: async (ctx: ActionCtx, args): Promise<TelegramPromptResult> => {
     const botToken = process.env.TELEGRAM_BOT_TOKEN;
-    const chatId = process.env.TELEGRAM_CHAT_ID;
-    if (!botToken || !chatId) {
+    if (!botToken) {
       return {
         status: "skipped",
-        reason: "Telegram bot token or chat ID not configured.",
+        reason: "Telegram bot token not configured.",
       };
     }
 
-    const transcript = await ctx.runQuery(api.fireflies.getTranscriptById, {
+    const transcript = await ctx.runQuery(internal.fireflies.getTranscriptByIdInternal, {
       transcriptId: args.transcriptId,
     });
 
@@ -927,18 +867,38 @@ export const notifyTranscriptLinkingViaTelegram = action({
       };
     }
 
+    const telegramConfig = await ctx.runQuery(internal.telegram.getConfigForOrganizationInternal, {
+      organizationId: transcript.organizationId,
+    });
+    if (!telegramConfig) {
+      return {
+        status: "skipped",
+        reason: "No Telegram chat connected to this organization (Settings → Telegram).",
+      };
+    }
+
     const alreadyEscalated =
       Array.isArray(transcript.linkingHistory) &&
       transcript.linkingHistory.some(
         (entry: LinkingHistoryEntry) => entry.stage === "telegram" && entry.status === "success"
       );
-    if (alreadyEscalated) {
+    if (alreadyEscalated && !args.force) {
       return {
         status: "skipped",
         reason: "Telegram notification already sent for this transcript.",
       };
     }
 
+    const clients = transcript.email
+      ? await ctx.runQuery(internal.clients.getClientsForLinkingInternal, { ownerEmail: transcript.email })
+      : [];
+    const aliases = await ctx.runQuery(internal.linkAliases.getAliasesForLinkingInternal, {
+      organizationId: transcript.organizationId,
+    });
+    const candidates = transcript.email
+      ? rankLinkingCandidates(transcript.email, transcript, clients, aliases, args.suggestedClientId)
+      : [];
+
     const participants = Array.isArray(transcript.participants)
       ? transcript.participants.join(", ")
       : "None listed";
@@ -962,35 +922,35 @@ export const notifyTranscriptLinkingViaTelegram = action({
       `*Current Status:* ${transcript.linkingStatus ?? "unlinked"}`,
       "",
       manualLink ? `Manual link: ${manualLink}` : "",
-      "Reply to this message with the correct client name or email (e.g., `Best Cleaners Inc` or `info@acme.com`).",
-      "If we should hold off, reply with `manual` and we'll wait for more info.",
+      candidates.length > 0
+        ? "Tap the client this call was with, or reply to this message with the client name or email."
+        : "Reply to this message with the correct client name or email (e.g., `Best Cleaners Inc` or `info@acme.com`).",
       "",
       `Preview:\n${snippet}`,
     ].filter(Boolean);
 
-    const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
+    const message = await callTelegramApi<{ message_id: number }>(botToken, "sendMessage", {
+      chat_id: telegramConfig.chatId,
+      text: messageLines.join("\n"),
+      parse_mode: "Markdown",
+      disable_web_page_preview: true,
+      reply_markup: {
+        inline_keyboard: buildLinkKeyboard(candidates.map(({ client }) => client.businessName)),
       },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: messageLines.join("\n"),
-        parse_mode: "Markdown",
-        disable_web_page_preview: true,
-      }),
     });
+    const messageId = message.message_id;
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Failed to send Telegram notification: ${response.status} ${text}`);
-    }
-
-    const payload = (await response.json()) as { result?: { message_id?: number } };
-    const messageId = payload?.result?.message_id ?? 0;
+    await ctx.runMutation(internal.telegram.recordPromptInternal, {
+      organizationId: transcript.organizationId,
+      chatId: telegramConfig.chatId,
+      messageId,
+      kind: "link",
+      transcriptId: transcript.transcriptId,
+      options: candidates.map(({ client }) => client._id),
+    });
 
     const attemptTimestamp = Date.now();
-    await ctx.runMutation(api.fireflies.recordLinkingAttempt, {
+    await ctx.runMutation(internal.fireflies.recordLinkingAttemptInternal, {
       transcriptId: args.transcriptId,
       linkingStatus: "needs_human",
       lastLinkAttemptAt: attemptTimestamp,
@@ -998,7 +958,7 @@ export const notifyTranscriptLinkingViaTelegram = action({
         stage: "telegram",
         status: "success",
         timestamp: attemptTimestamp,
-        reason: `Escalated to Telegram (message ${messageId}).`,
+        reason: `Escalated to Telegram (message ${messageId}) with ${candidates.length} suggested client(s).`,
       },
     });
 
@@ -1019,6 +979,7 @@ export const createTestTranscript = action({
     email: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<{ transcriptId: string; status: string }> => {
+    await getCallerEmail(ctx, args.email);
     // Create a test transcript with realistic data
     const testTranscriptId = `test-${Date.now()}-${Math.random().toString(36).substring(7)}`;
     const testMeetingId = `meeting-${Date.now()}`;
@@ -1051,26 +1012,16 @@ The meeting concluded with action items for next week.`,
     // Store the test transcript
     const dateTimestamp = new Date(testTranscript.date).getTime();
     
-    const clients = await ctx.runQuery(api.clients.getClientsForLinking, { ownerEmail: args.email });
-    const clientLookup = buildClientLookup(
-      clients.map((client) => ({
-        _id: client._id,
-        businessEmail: client.businessEmail ?? null,
-        businessName: client.businessName ?? null,
-      }))
-    );
+    const linkingContext = await loadLinkingContext(ctx, args.email);
     
     const attemptTimestamp = Date.now();
-    const match = matchClientForParticipants(args.email, testTranscript.participants, clientLookup);
-    const linkingStatus = match ? "auto_linked" : "unlinked";
-    const linkingHistoryEntry = {
-      stage: "auto",
-      status: match ? ("success" as const) : ("no_match" as const),
-      timestamp: attemptTimestamp,
-      confidence: match?.confidence,
-      clientId: match?.meta.client._id,
-      reason: match?.reason ?? "No automatic match found.",
-    };
+    const { clientId, linkingHistoryEntry } = resolveTranscriptAutoLink(
+      args.email,
+      testTranscript,
+      linkingContext,
+      attemptTimestamp
+    );
+    const linkingStatus = clientId ? "auto_linked" : "unlinked";
 
     await ctx.runMutation(api.fireflies.storeTranscript, {
       email: args.email,
@@ -1081,14 +1032,14 @@ The meeting concluded with action items for next week.`,
       date: dateTimestamp,
       duration: testTranscript.duration,
       participants: testTranscript.participants,
-      clientId: match?.meta.client._id,
+      clientId,
       linkingStatus,
       lastLinkAttemptAt: attemptTimestamp,
       linkingHistoryEntry,
     });
 
     // If auto-linked, return success
-    if (match) {
+    if (clientId) {
       return {
         transcriptId: testTranscriptId,
         status: "auto_linked",
@@ -1108,9 +1059,7 @@ The meeting concluded with action items for next week.`,
 
       const linkingResponse = await fetch(`${baseUrl.replace(/\/$/, "")}/api/fireflies/process-linking`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: internalApiHeaders(),
         body: JSON.stringify({
           email: args.email,
           transcriptId: testTranscriptId,
@@ -1,6 +1,26 @@
-import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
+import type { Doc } from "./_generated/dataModel";
+import { authorize, authorizeForOrganization } from "./utils/authorization";
+import { encryptedSecretValidator } from "./utils/credentialVault";
+
+/**
+ * What the browser may see of a Google Drive config: the connected account,
+ * never its tokens
+ */
+function describeConfig(config: Doc<"google_drive_configs"> | null) {
+  if (!config) return null;
+  return {
+    _id: config._id,
+    organizationId: config.organizationId,
+    connectedByEmail: config.connectedByEmail,
+    connected: Boolean(config.refreshTokenEncrypted || config.refreshToken),
+    userEmail: config.userEmail,
+    userName: config.userName,
+    tokenExpiry: config.tokenExpiry,
+    updatedAt: config.updatedAt,
+  };
+}
 
 /**
  * Get Google Drive config for an organization
@@ -8,10 +28,12 @@ import type { Id } from "./_generated/dataModel";
 export const getConfigForOrganization = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx: QueryCtx, args) => {
-    return await ctx.db
+    await authorizeForOrganization(ctx, args.organizationId, "integrations.use");
+    const config = await ctx.db
       .query("google_drive_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
       .unique();
+    return describeConfig(config);
   },
 });
 
@@ -22,127 +44,69 @@ export const getConfigForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
     // First try to get by organization (new way)
-    // Get user's organization
-    const member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
-
-    if (member) {
-      const orgConfig = await ctx.db
-        .query("google_drive_configs")
-        .withIndex("by_organization", (q) => q.eq("organizationId", member.organizationId))
-        .unique();
-      if (orgConfig) {
-        return orgConfig;
-      }
+    const { organizationId } = await authorize(ctx, "integrations.use", args.email);
+    const orgConfig = await ctx.db
+      .query("google_drive_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
+    if (orgConfig) {
+      return describeConfig(orgConfig);
     }
 
     // Fallback to old email-based lookup (for migration)
-    return await ctx.db
+    const emailConfig = await ctx.db
       .query("google_drive_configs")
       .withIndex("by_email", (q) => q.eq("connectedByEmail", args.email))
       .first();
+    return describeConfig(emailConfig);
   },
 });
 
 /**
- * Set Google Drive tokens for an organization
+ * The organization's tokens for googleDriveActions, with the refresh token
+ * still encrypted
  */
-export const setTokensForOrganization = mutation({
-  args: {
-    organizationId: v.id("organizations"),
-    connectedByEmail: v.string(),
-    accessToken: v.string(),
-    refreshToken: v.string(),
-    tokenExpiry: v.number(),
-    userEmail: v.optional(v.string()),
-    userName: v.optional(v.string()),
-  },
-  handler: async (ctx: MutationCtx, args) => {
-    const existing = await ctx.db
+export const getStoredTokens = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: QueryCtx, args) => {
+    await authorizeForOrganization(ctx, args.organizationId, "integrations.use");
+    return await ctx.db
       .query("google_drive_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
       .unique();
-    const now = Date.now();
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        connectedByEmail: args.connectedByEmail,
-        accessToken: args.accessToken,
-        refreshToken: args.refreshToken,
-        tokenExpiry: args.tokenExpiry,
-        userEmail: args.userEmail,
-        userName: args.userName,
-        updatedAt: now,
-      });
-      return existing._id;
-    }
-    return await ctx.db.insert("google_drive_configs", {
-      organizationId: args.organizationId,
-      connectedByEmail: args.connectedByEmail,
-      accessToken: args.accessToken,
-      refreshToken: args.refreshToken,
-      tokenExpiry: args.tokenExpiry,
-      userEmail: args.userEmail,
-      userName: args.userName,
-      createdAt: now,
-      updatedAt: now,
-    });
   },
 });
 
 /**
- * Set tokens for email (backwards compatibility - gets user's org)
+ * Set Google Drive tokens for an organization, with the refresh token
+ * encrypted by googleDriveActions.storeTokens.
+ * Connecting an account needs integrations.manage; saving a refreshed access
+ * token for the connected account only needs integrations.use.
  */
-export const setTokensForEmail = mutation({
+export const storeTokens = internalMutation({
   args: {
-    email: v.string(),
+    organizationId: v.id("organizations"),
+    connectedByEmail: v.string(),
     accessToken: v.string(),
-    refreshToken: v.string(),
+    refreshTokenEncrypted: encryptedSecretValidator,
+    isRefresh: v.boolean(),
     tokenExpiry: v.number(),
     userEmail: v.optional(v.string()),
     userName: v.optional(v.string()),
   },
   handler: async (ctx: MutationCtx, args) => {
-    // Get or create organization for user
-    const member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
-
-    let organizationId: Id<"organizations">;
-    if (member) {
-      organizationId = member.organizationId;
-    } else {
-      // Create default organization for user inline
-      const now = Date.now();
-      organizationId = await ctx.db.insert("organizations", {
-        name: `${args.email.split("@")[0]}'s Organization`,
-        createdAt: now,
-        updatedAt: now,
-      });
-
-      // Add user as owner
-      await ctx.db.insert("organization_members", {
-        organizationId,
-        email: args.email,
-        role: "owner",
-        createdAt: now,
-        updatedAt: now,
-      });
-    }
-
-    // Use the same logic as setTokensForOrganization
+    await authorizeForOrganization(ctx, args.organizationId, args.isRefresh ? "integrations.use" : "integrations.manage");
     const existing = await ctx.db
       .query("google_drive_configs")
-      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
       .unique();
     const now = Date.now();
     if (existing) {
       await ctx.db.patch(existing._id, {
-        connectedByEmail: args.email,
+        connectedByEmail: args.connectedByEmail,
         accessToken: args.accessToken,
-        refreshToken: args.refreshToken,
+        refreshTokenEncrypted: args.refreshTokenEncrypted,
+        refreshToken: undefined,
         tokenExpiry: args.tokenExpiry,
         userEmail: args.userEmail,
         userName: args.userName,
@@ -151,10 +115,10 @@ export const setTokensForEmail = mutation({
       return existing._id;
     }
     return await ctx.db.insert("google_drive_configs", {
-      organizationId,
-      connectedByEmail: args.email,
+      organizationId: args.organizationId,
+      connectedByEmail: args.connectedByEmail,
       accessToken: args.accessToken,
-      refreshToken: args.refreshToken,
+      refreshTokenEncrypted: args.refreshTokenEncrypted,
       tokenExpiry: args.tokenExpiry,
       userEmail: args.userEmail,
       userName: args.userName,
@@ -168,54 +132,24 @@ export const setTokensForEmail = mutation({
  * Disconnect Google Drive for an organization
  */
 export const disconnectAccount = mutation({
-  args: { 
+  args: {
     organizationId: v.optional(v.id("organizations")),
     email: v.optional(v.string()), // For backwards compatibility
   },
   handler: async (ctx: MutationCtx, args) => {
-    let organizationId: Id<"organizations"> | undefined = args.organizationId;
-
-    // If email provided but no orgId, get user's org
-    if (!organizationId && args.email) {
-      const member = await ctx.db
-        .query("organization_members")
-        .withIndex("by_email", (q) => q.eq("email", args.email!))
-        .first();
-      if (member) {
-        organizationId = member.organizationId;
-      }
-    }
-
-    if (!organizationId) {
-      // Fallback to old email-based lookup
-      if (args.email) {
-        const existing = await ctx.db
-          .query("google_drive_configs")
-          .withIndex("by_email", (q) => q.eq("connectedByEmail", args.email!))
-          .first();
-        if (existing) {
-          await ctx.db.patch(existing._id, {
-            accessToken: undefined,
-            refreshToken: undefined,
-            tokenExpiry: undefined,
-            userEmail: undefined,
-            userName: undefined,
-            updatedAt: Date.now(),
-          });
-          return existing._id;
-        }
-      }
-      return null;
-    }
+    const { organizationId } = args.organizationId
+      ? await authorizeForOrganization(ctx, args.organizationId, "integrations.manage", args.email)
+      : await authorize(ctx, "integrations.manage", args.email);
 
     const existing = await ctx.db
       .query("google_drive_configs")
-      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId!))
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
     if (existing) {
       await ctx.db.patch(existing._id, {
         accessToken: undefined,
         refreshToken: undefined,
+        refreshTokenEncrypted: undefined,
         tokenExpiry: undefined,
         userEmail: undefined,
         userName: undefined,
@@ -226,4 +160,3 @@ export const disconnectAccount = mutation({
     return null;
   },
 });
-
@@ -0,0 +1,67 @@
+import { internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { decryptSecret, encryptSecret } from "./utils/credentialVault";
+
+type GoogleDriveTokens = {
+  connectedByEmail: string;
+  accessToken: string;
+  refreshToken: string;
+  tokenExpiry?: number;
+  userEmail?: string;
+  userName?: string;
+};
+
+async function loadTokens(ctx: ActionCtx, organizationId: Id<"organizations">): Promise<GoogleDriveTokens | null> {
+  const config = await ctx.runQuery(internal.googleDrive.getStoredTokens, { organizationId });
+  if (!config?.accessToken) return null;
+  const refreshToken = config.refreshTokenEncrypted
+    ? await decryptSecret("google_drive_refresh_token", config.refreshTokenEncrypted)
+    : config.refreshToken;
+  if (!refreshToken) return null;
+  return {
+    connectedByEmail: config.connectedByEmail,
+    accessToken: config.accessToken,
+    refreshToken,
+    tokenExpiry: config.tokenExpiry,
+    userEmail: config.userEmail,
+    userName: config.userName,
+  };
+}
+
+/**
+ * The organization's decrypted tokens for the Google Drive routes, which call
+ * this with the deployment token acting as the user (see src/lib/credentials.ts)
+ */
+export const getTokens = internalAction({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: ActionCtx, args): Promise<GoogleDriveTokens | null> => {
+    return await loadTokens(ctx, args.organizationId);
+  },
+});
+
+/**
+ * Store tokens from the OAuth callback or a token refresh, encrypting the
+ * refresh token. Keeping the connected refresh token counts as a refresh.
+ */
+export const storeTokens = internalAction({
+  args: {
+    organizationId: v.id("organizations"),
+    connectedByEmail: v.string(),
+    accessToken: v.string(),
+    refreshToken: v.string(),
+    tokenExpiry: v.number(),
+    userEmail: v.optional(v.string()),
+    userName: v.optional(v.string()),
+  },
+  handler: async (ctx: ActionCtx, args) => {
+    const existing = await loadTokens(ctx, args.organizationId);
+    const { refreshToken, ...tokens } = args;
+    await ctx.runMutation(internal.googleDrive.storeTokens, {
+      ...tokens,
+      refreshTokenEncrypted: await encryptSecret("google_drive_refresh_token", refreshToken),
+      isRefresh: existing?.refreshToken === refreshToken,
+    });
+  },
+});
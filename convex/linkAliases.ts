@@ -0,0 +1,73 @@
+import { mutation, query, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { authorize, getAuthorizedRecord, getCallerEmail } from "./utils/authorization";
+import { getAliasesForOrganization, linkAliasKindValidator, upsertLinkAlias } from "./utils/linkAliases";
+
+/**
+ * Alias rules of the owner's organization, for the resolver
+ */
+export const getAliasesForLinking = query({
+  args: { ownerEmail: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "clients.read", args.ownerEmail);
+    return await getAliasesForOrganization(ctx, organizationId);
+  },
+});
+
+export const getAliasesForLinkingInternal = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: QueryCtx, args) => {
+    return await getAliasesForOrganization(ctx, args.organizationId);
+  },
+});
+
+/**
+ * Alias rules pointing at a client, for its detail page
+ */
+export const getAliasesForClient = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.read");
+    const aliases = await ctx.db
+      .query("link_aliases")
+      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+      .collect();
+    return aliases.sort((a, b) => a.kind.localeCompare(b.kind) || a.value.localeCompare(b.value));
+  },
+});
+
+/**
+ * Add a rule by hand. Takes over the email, domain or title if another client had it.
+ */
+export const addAlias = mutation({
+  args: {
+    clientId: v.id("clients"),
+    kind: linkAliasKindValidator,
+    value: v.string(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "clients.write");
+    const email = await getCallerEmail(ctx);
+    const aliasId = await upsertLinkAlias(ctx, {
+      organizationId: client.organizationId,
+      clientId: client._id,
+      kind: args.kind,
+      value: args.value,
+      source: "manual",
+      createdByEmail: email,
+    });
+    if (!aliasId) {
+      throw new Error(`"${args.value}" is not a valid ${args.kind}`);
+    }
+    return aliasId;
+  },
+});
+
+export const removeAlias = mutation({
+  args: { aliasId: v.id("link_aliases") },
+  handler: async (ctx: MutationCtx, args) => {
+    const alias = await getAuthorizedRecord(ctx, await ctx.db.get(args.aliasId), "clients.write");
+    await ctx.db.delete(alias._id);
+    return alias._id;
+  },
+});
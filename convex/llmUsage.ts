@@ -0,0 +1,241 @@
+import { internalMutation, internalQuery, mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { authorize } from "./utils/authorization";
+import { notifyOrganization } from "./utils/notificationDispatch";
+import {
+  LLM_FEATURE_LABELS,
+  llmBudgetModeValidator,
+  llmBudgetStatus,
+  llmFeatureValidator,
+  llmUsageRecordValidator,
+  usageMonth,
+  usageMonthStart,
+  type LlmBudgetStatus,
+  type LlmFeature,
+} from "./utils/llmUsage";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+// Months in the usage page's monthly breakdown, current month included
+const SUMMARY_MONTHS = 6;
+
+async function spentSince(ctx: ReadCtx, organizationId: Id<"organizations">, since: number): Promise<number> {
+  const rows = await ctx.db
+    .query("llm_usage")
+    .withIndex("by_organization_created", (q) => q.eq("organizationId", organizationId).gte("createdAt", since))
+    .collect();
+  return rows.reduce((sum, row) => sum + row.cost, 0);
+}
+
+async function getBudgetStatusForOrganization(
+  ctx: ReadCtx,
+  organizationId: Id<"organizations">
+): Promise<LlmBudgetStatus> {
+  const organization = await ctx.db.get(organizationId);
+  if (!organization) {
+    throw new Error("Organization not found");
+  }
+  return llmBudgetStatus(organization, await spentSince(ctx, organizationId, usageMonthStart(Date.now())));
+}
+
+async function insertUsage(
+  ctx: MutationCtx,
+  usage: {
+    organizationId: Id<"organizations">;
+    email?: string;
+    clientId?: Id<"clients">;
+    feature: LlmFeature;
+    model: string;
+    generationId?: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;
+  }
+) {
+  const organization = await ctx.db.get(usage.organizationId);
+  if (!organization) {
+    return null;
+  }
+  // Clients from another organization aren't recorded against this one
+  let clientId = usage.clientId;
+  if (clientId) {
+    const client = await ctx.db.get(clientId);
+    if (client?.organizationId !== usage.organizationId) {
+      clientId = undefined;
+    }
+  }
+
+  const now = Date.now();
+  const spentBefore = await spentSince(ctx, usage.organizationId, usageMonthStart(now));
+  const usageId = await ctx.db.insert("llm_usage", { ...usage, clientId, createdAt: now });
+
+  // Tell admins once, on the call that reaches the budget
+  const before = llmBudgetStatus(organization, spentBefore);
+  const after = llmBudgetStatus(organization, spentBefore + usage.cost);
+  if (!before.exceeded && after.exceeded) {
+    const admins = await ctx.db
+      .query("organization_members")
+      .withIndex("by_organization", (q) => q.eq("organizationId", usage.organizationId))
+      .collect();
+    await notifyOrganization(ctx, {
+      organizationId: usage.organizationId,
+      eventType: "llm_budget_exceeded",
+      title: "Monthly AI budget reached",
+      body:
+        `$${after.spent.toFixed(2)} of the $${(after.budget ?? 0).toFixed(2)} budget has been spent this month. ` +
+        (after.blocked ? "AI features are paused until next month." : "AI features keep working."),
+      link: "/usage",
+      recipientEmails: admins.filter((member) => member.role !== "member").map((member) => member.email),
+    });
+  }
+  return usageId;
+}
+
+const usageTagsValidator = {
+  clientId: v.optional(v.id("clients")),
+  feature: llmFeatureValidator,
+  ...llmUsageRecordValidator,
+};
+
+/**
+ * Record one OpenRouter call made by a background job
+ */
+export const recordUsage = internalMutation({
+  args: { organizationId: v.id("organizations"), ...usageTagsValidator },
+  handler: async (ctx: MutationCtx, args) => {
+    return await insertUsage(ctx, args);
+  },
+});
+
+/**
+ * Record one OpenRouter call made for the caller (Next.js routes and
+ * actions run by a signed-in user)
+ */
+export const recordUsageForEmail = internalMutation({
+  args: { email: v.string(), ...usageTagsValidator },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId, email } = await authorize(ctx, "integrations.use", args.email);
+    return await insertUsage(ctx, { ...args, organizationId, email });
+  },
+});
+
+export const getBudgetStatus = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: QueryCtx, args): Promise<LlmBudgetStatus> => {
+    return await getBudgetStatusForOrganization(ctx, args.organizationId);
+  },
+});
+
+/**
+ * The caller's organization's budget and this month's spend, checked before
+ * each OpenRouter call
+ */
+export const getBudgetStatusForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args): Promise<LlmBudgetStatus> => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    return await getBudgetStatusForOrganization(ctx, organizationId);
+  },
+});
+
+type UsageTotals = { cost: number; totalTokens: number; calls: number };
+
+function addTo<K>(totals: Map<K, UsageTotals>, key: K, row: { cost: number; totalTokens: number }) {
+  const entry = totals.get(key) ?? { cost: 0, totalTokens: 0, calls: 0 };
+  entry.cost += row.cost;
+  entry.totalTokens += row.totalTokens;
+  entry.calls++;
+  totals.set(key, entry);
+}
+
+function byCostDesc<T extends UsageTotals>(rows: T[]): T[] {
+  return rows.sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Spend for the usage page: totals for each of the last few months, and for
+ * one month (the current one by default) a breakdown by client, model and
+ * feature
+ */
+export const getUsageSummary = query({
+  args: { email: v.string(), month: v.optional(v.string()) },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+
+    const now = new Date();
+    const since = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (SUMMARY_MONTHS - 1), 1);
+    const rows = await ctx.db
+      .query("llm_usage")
+      .withIndex("by_organization_created", (q) => q.eq("organizationId", organizationId).gte("createdAt", since))
+      .collect();
+
+    const currentMonth = usageMonth(now.getTime());
+    const selectedMonth = args.month ?? currentMonth;
+    const months = new Map<string, UsageTotals>();
+    for (let i = SUMMARY_MONTHS - 1; i >= 0; i--) {
+      months.set(usageMonth(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)), {
+        cost: 0,
+        totalTokens: 0,
+        calls: 0,
+      });
+    }
+    const clients = new Map<Id<"clients"> | null, UsageTotals>();
+    const models = new Map<string, UsageTotals>();
+    const features = new Map<LlmFeature, UsageTotals>();
+    for (const row of rows) {
+      const month = usageMonth(row.createdAt);
+      addTo(months, month, row);
+      if (month === selectedMonth) {
+        addTo(clients, row.clientId ?? null, row);
+        addTo(models, row.model, row);
+        addTo(features, row.feature, row);
+      }
+    }
+
+    const byClient = await Promise.all(
+      [...clients].map(async ([clientId, totals]) => ({
+        clientId,
+        businessName: clientId ? ((await ctx.db.get(clientId))?.businessName ?? "Deleted client") : null,
+        ...totals,
+      }))
+    );
+
+    return {
+      budget: llmBudgetStatus(
+        (await ctx.db.get(organizationId)) ?? {},
+        months.get(currentMonth)?.cost ?? 0
+      ),
+      month: selectedMonth,
+      byMonth: [...months].map(([month, totals]) => ({ month, ...totals })),
+      byClient: byCostDesc(byClient),
+      byModel: byCostDesc([...models].map(([model, totals]) => ({ model, ...totals }))),
+      byFeature: byCostDesc(
+        [...features].map(([feature, totals]) => ({ feature, label: LLM_FEATURE_LABELS[feature], ...totals }))
+      ),
+    };
+  },
+});
+
+/**
+ * Set or clear (null) the monthly budget and whether reaching it warns or blocks
+ */
+export const setBudgetForEmail = mutation({
+  args: {
+    email: v.string(),
+    monthlyBudget: v.union(v.number(), v.null()),
+    mode: llmBudgetModeValidator,
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    if (args.monthlyBudget !== null && !(args.monthlyBudget >= 0)) {
+      throw new Error("The monthly budget must be zero or more");
+    }
+    const { organizationId } = await authorize(ctx, "organization.update", args.email);
+    await ctx.db.patch(organizationId, {
+      monthlyLlmBudget: args.monthlyBudget ?? undefined,
+      llmBudgetMode: args.mode,
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,153 @@
+"use node";
+
+import { internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+  NOTIFICATION_EVENTS,
+  notificationChannelValidator,
+  notificationEventValidator,
+  notificationSubjectValidator,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationSubject,
+} from "./utils/notifications";
+import { callTelegramApi } from "./utils/telegram";
+import { getSmtpConfig, sendMail } from "./utils/smtp";
+
+type OutboundNotification = {
+  organizationId: Id<"organizations">;
+  eventType: NotificationEvent;
+  title: string;
+  body: string;
+  link?: string;
+  subject?: NotificationSubject;
+};
+
+/**
+ * Sends a notification over one external channel. `target` is the email
+ * address for email and the incoming webhook URL for Slack; Telegram goes to
+ * the organization's connected chat.
+ */
+type NotificationAdapter = (
+  ctx: ActionCtx,
+  notification: OutboundNotification,
+  target: string | undefined
+) => Promise<void>;
+
+function absoluteLink(link: string | undefined): string | null {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL;
+  if (!link || !baseUrl) return null;
+  return `${baseUrl.replace(/\/$/, "")}${link}`;
+}
+
+const sendEmail: NotificationAdapter = async (_ctx, notification, target) => {
+  const config = getSmtpConfig();
+  if (!config || !target) {
+    console.warn("[Notifications] SMTP_HOST/SMTP_FROM not configured; skipping email", {
+      eventType: notification.eventType,
+    });
+    return;
+  }
+  const link = absoluteLink(notification.link);
+  await sendMail(config, {
+    to: target,
+    subject: notification.title,
+    text: [
+      notification.body,
+      link ? `\nOpen: ${link}` : "",
+      `\nYou get "${NOTIFICATION_EVENTS[notification.eventType].label}" emails because of your notification settings.`,
+    ].join("\n"),
+  });
+};
+
+const sendSlack: NotificationAdapter = async (_ctx, notification, target) => {
+  if (!target) return;
+  const link = absoluteLink(notification.link);
+  const response = await fetch(target, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text: `${notification.title}: ${notification.body}`,
+      blocks: [
+        {
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `*${notification.title}*\n${notification.body}${link ? `\n<${link}|Open in Gravitate>` : ""}`,
+          },
+        },
+      ],
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Slack webhook failed: ${response.status} ${await response.text()}`);
+  }
+};
+
+const sendTelegram: NotificationAdapter = async (ctx, notification) => {
+  // Transcripts that need a client get the interactive prompt with client buttons
+  if (notification.eventType === "transcript_needs_human" && notification.subject?.transcriptId) {
+    const result = await ctx.runAction(internal.firefliesActions.sendTranscriptLinkingPrompt, {
+      transcriptId: notification.subject.transcriptId,
+      suggestedClientId: notification.subject.suggestedClientId,
+    });
+    if (result.status === "skipped") {
+      console.log(`[Notifications] Telegram prompt skipped: ${result.reason}`);
+    }
+    return;
+  }
+
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  const config = await ctx.runQuery(internal.telegram.getConfigForOrganizationInternal, {
+    organizationId: notification.organizationId,
+  });
+  if (!botToken || !config) {
+    console.log("[Notifications] Telegram not configured for organization; skipping", {
+      organizationId: String(notification.organizationId),
+    });
+    return;
+  }
+  const link = absoluteLink(notification.link);
+  await callTelegramApi(botToken, "sendMessage", {
+    chat_id: config.chatId,
+    text: `🔔 *${notification.title}*\n\n${notification.body}${link ? `\n\n${link}` : ""}`,
+    parse_mode: "Markdown",
+    disable_web_page_preview: true,
+  });
+};
+
+const adapters: Record<Exclude<NotificationChannel, "inApp">, NotificationAdapter> = {
+  email: sendEmail,
+  slack: sendSlack,
+  telegram: sendTelegram,
+};
+
+/**
+ * Deliver one notification over one external channel. Scheduled by
+ * notifyOrganization (utils/notificationDispatch.ts); in-app notifications
+ * are written there directly.
+ */
+export const deliver = internalAction({
+  args: {
+    organizationId: v.id("organizations"),
+    eventType: notificationEventValidator,
+    title: v.string(),
+    body: v.string(),
+    link: v.optional(v.string()),
+    subject: v.optional(notificationSubjectValidator),
+    channel: notificationChannelValidator,
+    target: v.optional(v.string()),
+  },
+  handler: async (ctx: ActionCtx, args): Promise<void> => {
+    if (args.channel === "inApp") return;
+    const { channel, target, ...notification } = args;
+    try {
+      await adapters[channel](ctx, notification, target);
+    } catch (error) {
+      // Deliveries are best effort; the in-app notification is the record
+      console.error(`[Notifications] ${channel} delivery failed for ${args.eventType}:`, error);
+    }
+  },
+});
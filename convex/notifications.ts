@@ -0,0 +1,135 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { authorize, getCallerEmail } from "./utils/authorization";
+import {
+  NOTIFICATION_EVENTS,
+  channelsForEvent,
+  notificationPreferenceEntryValidator,
+  type NotificationEvent,
+} from "./utils/notifications";
+
+// Unread counts above this show as "99+"
+const UNREAD_COUNT_LIMIT = 100;
+
+/**
+ * Latest in-app notifications for the Navbar bell
+ */
+export const listForEmail = query({
+  args: { email: v.string(), limit: v.optional(v.number()) },
+  handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "organization.read", args.email);
+    const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient", (q) => q.eq("recipientEmail", args.email))
+      .order("desc")
+      .take(limit);
+  },
+});
+
+export const getUnreadCountForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "organization.read", args.email);
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient_read", (q) => q.eq("recipientEmail", args.email).eq("readAt", undefined))
+      .take(UNREAD_COUNT_LIMIT);
+    return unread.length;
+  },
+});
+
+export const markRead = mutation({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx: MutationCtx, args) => {
+    const email = await getCallerEmail(ctx);
+    const notification = await ctx.db.get(args.notificationId);
+    if (!notification || notification.recipientEmail !== email) {
+      throw new Error("Not found or access denied");
+    }
+    if (!notification.readAt) {
+      await ctx.db.patch(notification._id, { readAt: Date.now() });
+    }
+  },
+});
+
+export const markAllReadForEmail = mutation({
+  args: { email: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    await authorize(ctx, "organization.read", args.email);
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_recipient_read", (q) => q.eq("recipientEmail", args.email).eq("readAt", undefined))
+      .collect();
+    const now = Date.now();
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { readAt: now });
+    }
+  },
+});
+
+/**
+ * The caller's channels for every event (defaults filled in), plus which
+ * external channels can deliver at all
+ */
+export const getPreferencesForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    const preferences = await ctx.db
+      .query("notification_preferences")
+      .withIndex("by_organization_email", (q) => q.eq("organizationId", organizationId).eq("email", args.email))
+      .unique();
+    const telegramConfig = await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
+
+    return {
+      events: (Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]).map((eventType) => ({
+        eventType,
+        label: NOTIFICATION_EVENTS[eventType].label,
+        channels: channelsForEvent(preferences, eventType),
+      })),
+      slackWebhookUrl: preferences?.slackWebhookUrl ?? null,
+      available: {
+        email: Boolean(process.env.SMTP_HOST && process.env.SMTP_FROM),
+        slack: Boolean(preferences?.slackWebhookUrl),
+        telegram: Boolean(telegramConfig),
+      },
+    };
+  },
+});
+
+export const setPreferencesForEmail = mutation({
+  args: {
+    email: v.string(),
+    events: v.array(notificationPreferenceEntryValidator),
+    slackWebhookUrl: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    const slackWebhookUrl = args.slackWebhookUrl?.trim() || undefined;
+    if (slackWebhookUrl && !slackWebhookUrl.startsWith("https://hooks.slack.com/")) {
+      throw new Error("Slack incoming webhook URLs start with https://hooks.slack.com/");
+    }
+
+    const existing = await ctx.db
+      .query("notification_preferences")
+      .withIndex("by_organization_email", (q) => q.eq("organizationId", organizationId).eq("email", args.email))
+      .unique();
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { events: args.events, slackWebhookUrl, updatedAt: now });
+      return existing._id;
+    }
+    return await ctx.db.insert("notification_preferences", {
+      organizationId,
+      email: args.email,
+      events: args.events,
+      slackWebhookUrl,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
@@ -0,0 +1,39 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import { modules } from "./test.setup";
+
+describe("importBatch", () => {
+  test("caps imported member roles at the importer's role", async () => {
+    const t = convexTest(schema, modules);
+    const organizationId = await t.run(async (ctx) => {
+      const now = Date.now();
+      const organizationId = await ctx.db.insert("organizations", { name: "A", createdAt: now, updatedAt: now });
+      await ctx.db.insert("organization_members", {
+        organizationId,
+        email: "admin@a.test",
+        role: "admin",
+        createdAt: now,
+        updatedAt: now,
+      });
+      return organizationId;
+    });
+
+    const now = Date.now();
+    await t.mutation(internal.organizationArchive.importBatch, {
+      organizationId,
+      importerEmail: "admin@a.test",
+      table: "organization_members",
+      docs: [
+        { email: "owner@old.test", role: "owner", createdAt: now, updatedAt: now },
+        { email: "member@old.test", role: "member", createdAt: now, updatedAt: now },
+      ],
+    });
+
+    const members = await t.run((ctx) => ctx.db.query("organization_members").collect());
+    const roles = Object.fromEntries(members.map((member) => [member.email, member.role]));
+    expect(roles).toEqual({ "admin@a.test": "admin", "owner@old.test": "admin", "member@old.test": "member" });
+  });
+});
@@ -0,0 +1,233 @@
+import { internalMutation, internalQuery, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { authorize, ROLE_RANK, type OrganizationRole } from "./utils/authorization";
+import { getOrganizationMembership } from "./utils/organizations";
+import { rescheduleClientJobs } from "./utils/scheduling";
+import { llmBudgetModeValidator } from "./utils/llmUsage";
+import { SEARCH_SOURCES } from "./utils/search";
+import {
+  ARCHIVE_TABLES,
+  ARCHIVE_TABLE_NAMES,
+  isArchiveTable,
+  replacesExisting,
+  toArchiveDocument,
+  type ArchiveTable,
+} from "./utils/organizationArchive";
+
+function requireArchiveTable(table: string): ArchiveTable {
+  if (!isArchiveTable(table)) {
+    throw new Error(`Invalid archive table: '${table}'`);
+  }
+  return table;
+}
+
+// Records of one organization in an archived table, by the index in ARCHIVE_TABLES
+function organizationRecords(ctx: QueryCtx, table: ArchiveTable, organizationId: Id<"organizations">) {
+  // Every archived table's index starts with organizationId; the cast only
+  // narrows the index name, which the union of tables can't express
+  return ctx.db
+    .query(table as "clients")
+    .withIndex(ARCHIVE_TABLES[table].index as "by_organization", (q) => q.eq("organizationId", organizationId));
+}
+
+/**
+ * The caller's organization and its settings, for the archive header
+ */
+export const getExportContext = internalQuery({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { email, organizationId } = await authorize(ctx, "organization.update", args.email);
+    const organization = await ctx.db.get(organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+    return {
+      email,
+      organizationId,
+      organization: {
+        name: organization.name,
+        timezone: organization.timezone,
+        autoLinkThreshold: organization.autoLinkThreshold,
+        semanticSearchEnabled: organization.semanticSearchEnabled,
+        monthlyLlmBudget: organization.monthlyLlmBudget,
+        llmBudgetMode: organization.llmBudgetMode,
+      },
+    };
+  },
+});
+
+export const exportPage = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+    table: v.string(),
+    cursor: v.union(v.string(), v.null()),
+    numItems: v.number(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const table = requireArchiveTable(args.table);
+    const page = await organizationRecords(ctx, table, args.organizationId).paginate({
+      cursor: args.cursor,
+      numItems: args.numItems,
+    });
+    return {
+      records: page.page.map((record) => ({ id: record._id as string, doc: toArchiveDocument(table, record) })),
+      isDone: page.isDone,
+      continueCursor: page.continueCursor,
+    };
+  },
+});
+
+/**
+ * The caller's organization, if it can be restored into: nothing but
+ * members and settings that an import replaces
+ */
+export const getImportContext = internalQuery({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { email, organizationId } = await authorize(ctx, "organization.update", args.email);
+    const nonEmpty: ArchiveTable[] = [];
+    for (const table of ARCHIVE_TABLE_NAMES) {
+      if (table === "organization_members" || replacesExisting(table)) continue;
+      if (await organizationRecords(ctx, table, organizationId).first()) {
+        nonEmpty.push(table);
+      }
+    }
+    if (nonEmpty.length > 0) {
+      throw new Error(
+        `Archives can only be restored into an empty organization; this one already has ${nonEmpty
+          .map((table) => table.replace(/_/g, " "))
+          .join(", ")}`
+      );
+    }
+    return { email, organizationId };
+  },
+});
+
+/**
+ * Apply the archived organization settings and drop the settings records the
+ * archive replaces. The name is kept: it's the target organization's own.
+ */
+export const prepareImport = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    timezone: v.optional(v.string()),
+    autoLinkThreshold: v.optional(v.number()),
+    semanticSearchEnabled: v.optional(v.boolean()),
+    monthlyLlmBudget: v.optional(v.number()),
+    llmBudgetMode: v.optional(llmBudgetModeValidator),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId, ...settings } = args;
+    for (const table of ARCHIVE_TABLE_NAMES) {
+      if (!replacesExisting(table)) continue;
+      for (const record of await organizationRecords(ctx, table, organizationId).collect()) {
+        await ctx.db.delete(record._id);
+      }
+    }
+    await ctx.db.patch(organizationId, { ...settings, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Insert already remapped records into the organization. Returns the new ID
+ * of each record, or null for members who already belong to an organization.
+ * Imported members get at most the importer's role, so an admin can't
+ * restore an owner.
+ */
+export const importBatch = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    importerEmail: v.string(),
+    table: v.string(),
+    docs: v.array(v.any()),
+  },
+  handler: async (ctx: MutationCtx, args): Promise<Array<string | null>> => {
+    const table = requireArchiveTable(args.table);
+    const importer = await getOrganizationMembership(ctx, args.organizationId, args.importerEmail);
+    if (!importer) {
+      throw new Error("Not found or access denied");
+    }
+    const ids: Array<string | null> = [];
+    for (let doc of args.docs) {
+      if (table === "organization_members") {
+        if (ROLE_RANK[doc.role as OrganizationRole] > ROLE_RANK[importer.role]) {
+          doc = { ...doc, role: importer.role };
+        }
+        // A user belongs to one organization
+        const existing = await ctx.db
+          .query("organization_members")
+          .withIndex("by_email", (q) => q.eq("email", doc.email))
+          .first();
+        if (existing) {
+          ids.push(null);
+          continue;
+        }
+      }
+      // insert validates the record against the schema
+      const id = await ctx.db.insert(table as "clients", { ...doc, organizationId: args.organizationId });
+      ids.push(id);
+    }
+    return ids;
+  },
+});
+
+/**
+ * Start the schedules of imported clients, or switch them off so a restored
+ * copy (e.g. in staging) doesn't generate scripts on its own
+ */
+export const scheduleImportedClients = internalMutation({
+  args: {
+    clientIds: v.array(v.id("clients")),
+    ownerEmail: v.string(),
+    pauseSchedules: v.boolean(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    for (const clientId of args.clientIds) {
+      const client = await ctx.db.get(clientId);
+      if (!client) continue;
+      if (args.pauseSchedules) {
+        if (client.cronJobEnabled !== false) {
+          await ctx.db.patch(clientId, { cronJobEnabled: false, updatedAt: Date.now() });
+        }
+        continue;
+      }
+      await rescheduleClientJobs(ctx, client, client.ownerEmail || args.ownerEmail);
+    }
+  },
+});
+
+/**
+ * Rebuild the search index for the imported records
+ */
+export const finishImport = internalMutation({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: MutationCtx, args) => {
+    await ctx.scheduler.runAfter(0, internal.search.rebuildIndexPage, {
+      organizationId: args.organizationId,
+      source: SEARCH_SOURCES[0],
+      cursor: null,
+    });
+  },
+});
+
+/**
+ * URL to upload an archive to before calling organizationArchiveActions.importOrganization
+ */
+export const generateUploadUrl = mutation({
+  args: { email: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    await authorize(ctx, "organization.update", args.email);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const deleteArchiveFile = internalMutation({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx: MutationCtx, args) => {
+    if (await ctx.db.system.get(args.storageId)) {
+      await ctx.storage.delete(args.storageId);
+    }
+  },
+});
@@ -0,0 +1,211 @@
+import { action, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getCallerEmail } from "./utils/authorization";
+import {
+  ARCHIVE_FILE_TTL_MS,
+  ARCHIVE_FORMAT,
+  ARCHIVE_TABLE_NAMES,
+  ARCHIVE_VERSION,
+  parseArchiveHeader,
+  parseArchiveRecord,
+  remapArchiveDocument,
+  type ArchiveDocument,
+  type ArchiveHeader,
+  type ArchiveTable,
+} from "./utils/organizationArchive";
+
+// Records per export query; transcripts with sentences can be large
+const EXPORT_PAGE_SIZE = 50;
+// Records and approximate JSON size per import mutation
+const IMPORT_BATCH_SIZE = 100;
+const IMPORT_BATCH_BYTES = 1_000_000;
+const SCHEDULE_BATCH_SIZE = 50;
+
+type TableCounts = Partial<Record<ArchiveTable, number>>;
+
+/**
+ * Export the caller's organization as an archive file (see
+ * utils/organizationArchive.ts). Returns a download URL that expires with the
+ * file after an hour.
+ */
+export const exportOrganization = action({
+  args: { email: v.string() },
+  handler: async (ctx: ActionCtx, args): Promise<{ url: string; fileName: string; counts: TableCounts }> => {
+    const email = await getCallerEmail(ctx, args.email);
+    const { organizationId, organization } = await ctx.runQuery(internal.organizationArchive.getExportContext, {
+      email,
+    });
+
+    const lines: string[] = [];
+    const counts: TableCounts = {};
+    for (const table of ARCHIVE_TABLE_NAMES) {
+      let cursor: string | null = null;
+      let count = 0;
+      for (;;) {
+        const page: { records: Array<{ id: string; doc: ArchiveDocument }>; isDone: boolean; continueCursor: string } =
+          await ctx.runQuery(internal.organizationArchive.exportPage, {
+            organizationId,
+            table,
+            cursor,
+            numItems: EXPORT_PAGE_SIZE,
+          });
+        for (const record of page.records) {
+          lines.push(JSON.stringify({ table, id: record.id, doc: record.doc }));
+        }
+        count += page.records.length;
+        if (page.isDone) break;
+        cursor = page.continueCursor;
+      }
+      counts[table] = count;
+    }
+
+    const exportedAt = Date.now();
+    const header: ArchiveHeader = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt,
+      exportedByEmail: email,
+      organization,
+      counts,
+    };
+    const storageId = await ctx.storage.store(
+      new Blob([[JSON.stringify(header), ...lines].join("\n") + "\n"], { type: "application/x-ndjson" })
+    );
+    await ctx.scheduler.runAfter(ARCHIVE_FILE_TTL_MS, internal.organizationArchive.deleteArchiveFile, { storageId });
+
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) {
+      throw new Error("Failed to store the archive");
+    }
+    const slug = organization.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "organization";
+    const fileName = `${slug}-${new Date(exportedAt).toISOString().slice(0, 10)}.ndjson`;
+    console.log(`[Archive] Exported organization ${organizationId}`, counts);
+    return { url, fileName, counts };
+  },
+});
+
+/**
+ * Restore an archive uploaded with organizationArchive.generateUploadUrl into
+ * the caller's organization, which must have no data yet. Records get new IDs
+ * and references are rewritten to them. Clients' schedules restart from
+ * their rules unless `pauseSchedules` switches them off.
+ */
+export const importOrganization = action({
+  args: {
+    email: v.string(),
+    storageId: v.id("_storage"),
+    pauseSchedules: v.optional(v.boolean()),
+  },
+  handler: async (
+    ctx: ActionCtx,
+    args
+  ): Promise<{ imported: TableCounts; skipped: TableCounts; exportedAt: number; sourceName: string }> => {
+    const email = await getCallerEmail(ctx, args.email);
+    try {
+      const { organizationId } = await ctx.runQuery(internal.organizationArchive.getImportContext, { email });
+      const blob = await ctx.storage.get(args.storageId);
+      if (!blob) {
+        throw new Error("The uploaded archive wasn't found");
+      }
+      const lines = (await blob.text()).split("\n");
+      const header = parseArchiveHeader(lines[0]);
+
+      await ctx.runMutation(internal.organizationArchive.prepareImport, {
+        organizationId,
+        timezone: header.organization.timezone,
+        autoLinkThreshold: header.organization.autoLinkThreshold,
+        semanticSearchEnabled: header.organization.semanticSearchEnabled,
+        monthlyLlmBudget: header.organization.monthlyLlmBudget,
+        llmBudgetMode: header.organization.llmBudgetMode,
+      });
+
+      const idMap = new Map<string, string>();
+      const imported: TableCounts = {};
+      const skipped: TableCounts = {};
+      const clientIds: Id<"clients">[] = [];
+
+      // Pending records of the current table; flushed before the next table
+      // starts, since later tables refer to their new IDs
+      let pendingTable: ArchiveTable | null = null;
+      let pending: Array<{ oldId: string; doc: ArchiveDocument }> = [];
+      let pendingIds = new Set<string>();
+      let pendingBytes = 0;
+
+      const flush = async () => {
+        if (!pendingTable || pending.length === 0) return;
+        const table: ArchiveTable = pendingTable;
+        const batch = pending;
+        pending = [];
+        pendingIds = new Set();
+        pendingBytes = 0;
+        const newIds: Array<string | null> = await ctx.runMutation(internal.organizationArchive.importBatch, {
+          organizationId,
+          importerEmail: email,
+          table,
+          docs: batch.map((record) => record.doc),
+        });
+        newIds.forEach((newId, index) => {
+          if (!newId) {
+            skipped[table] = (skipped[table] ?? 0) + 1;
+            return;
+          }
+          idMap.set(batch[index].oldId, newId);
+          imported[table] = (imported[table] ?? 0) + 1;
+          if (table === "clients") {
+            clientIds.push(newId as Id<"clients">);
+          }
+        });
+      };
+
+      for (let index = 1; index < lines.length; index++) {
+        if (!lines[index].trim()) continue;
+        const record = parseArchiveRecord(lines[index], index + 1);
+        if (record.table !== pendingTable) {
+          await flush();
+          pendingTable = record.table;
+        }
+        // Scheduled jobs are recreated from the clients' rules below
+        if (record.table === "cron_jobs" && record.doc.status === "scheduled") {
+          skipped.cron_jobs = (skipped.cron_jobs ?? 0) + 1;
+          continue;
+        }
+        // Revisions and comments can refer to earlier records of their own table
+        if (Object.values(record.doc).some((value) => typeof value === "string" && pendingIds.has(value))) {
+          await flush();
+        }
+        const doc = remapArchiveDocument(record.table, record.doc, idMap);
+        if (!doc) {
+          skipped[record.table] = (skipped[record.table] ?? 0) + 1;
+          continue;
+        }
+        if (record.table === "cron_jobs") {
+          // Scripts refer to the job that generated them by cronJobId
+          idMap.set(record.doc.cronJobId as string, doc.cronJobId as string);
+        }
+        pending.push({ oldId: record.id, doc });
+        pendingIds.add(record.id);
+        pendingBytes += lines[index].length;
+        if (pending.length >= IMPORT_BATCH_SIZE || pendingBytes >= IMPORT_BATCH_BYTES) {
+          await flush();
+        }
+      }
+      await flush();
+
+      for (let start = 0; start < clientIds.length; start += SCHEDULE_BATCH_SIZE) {
+        await ctx.runMutation(internal.organizationArchive.scheduleImportedClients, {
+          clientIds: clientIds.slice(start, start + SCHEDULE_BATCH_SIZE),
+          ownerEmail: email,
+          pauseSchedules: args.pauseSchedules === true,
+        });
+      }
+      await ctx.runMutation(internal.organizationArchive.finishImport, { organizationId });
+
+      console.log(`[Archive] Imported into organization ${organizationId}`, { imported, skipped });
+      return { imported, skipped, exportedAt: header.exportedAt, sourceName: header.organization.name };
+    } finally {
+      await ctx.runMutation(internal.organizationArchive.deleteArchiveFile, { storageId: args.storageId });
+    }
+  },
+});
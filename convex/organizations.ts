@@ -1,6 +1,17 @@
 import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
+import { getOrganizationMembership } from "./utils/organizations";
+import {
+  DEFAULT_AUTO_LINK_THRESHOLD,
+  isValidAutoLinkThreshold,
+} from "./utils/clientResolution";
+import {
+  authorize,
+  authorizeForOrganization,
+  getCallerEmail,
+  permissionsForRole,
+  ROLE_RANK,
+} from "./utils/authorization";
 
 /**
  * Get or create a default organization for a user
@@ -9,10 +20,11 @@ import type { Id } from "./_generated/dataModel";
 export const getOrCreateDefaultOrganization = mutation({
   args: { email: v.string() },
   handler: async (ctx: MutationCtx, args) => {
+    const email = await getCallerEmail(ctx, args.email);
     // Check if user is already a member of an organization
     const existingMember = await ctx.db
       .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
+      .withIndex("by_email", (q) => q.eq("email", email))
       .first();
 
     if (existingMember) {
@@ -22,7 +34,7 @@ export const getOrCreateDefaultOrganization = mutation({
     // Create a new organization
     const now = Date.now();
     const orgId = await ctx.db.insert("organizations", {
-      name: `${args.email.split("@")[0]}'s Organization`,
+      name: `${email.split("@")[0]}'s Organization`,
       createdAt: now,
       updatedAt: now,
     });
@@ -30,7 +42,7 @@ export const getOrCreateDefaultOrganization = mutation({
     // Add user as owner
     await ctx.db.insert("organization_members", {
       organizationId: orgId,
-      email: args.email,
+      email,
       role: "owner",
       createdAt: now,
       updatedAt: now,
@@ -46,9 +58,10 @@ export const getOrCreateDefaultOrganization = mutation({
 export const getOrganizationForUser = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    const email = await getCallerEmail(ctx, args.email);
     const member = await ctx.db
       .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
+      .withIndex("by_email", (q) => q.eq("email", email))
       .first();
 
     if (!member) {
@@ -73,9 +86,10 @@ export const getOrganizationForUser = query({
 export const getOrganizationsForUser = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
+    const email = await getCallerEmail(ctx, args.email);
     const members = await ctx.db
       .query("organization_members")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
+      .withIndex("by_email", (q) => q.eq("email", email))
       .collect();
 
     const orgs = await Promise.all(
@@ -99,6 +113,7 @@ export const getOrganizationsForUser = query({
 export const getOrganizationById = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx: QueryCtx, args) => {
+    await authorizeForOrganization(ctx, args.organizationId, "organization.read");
     return await ctx.db.get(args.organizationId);
   },
 });
@@ -109,6 +124,7 @@ export const getOrganizationById = query({
 export const getOrganizationMembers = query({
   args: { organizationId: v.id("organizations") },
   handler: async (ctx: QueryCtx, args) => {
+    await authorizeForOrganization(ctx, args.organizationId, "organization.read");
     return await ctx.db
       .query("organization_members")
       .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
@@ -125,6 +141,7 @@ export const createOrganization = mutation({
     creatorEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
+    await getCallerEmail(ctx, args.creatorEmail);
     const now = Date.now();
     const orgId = await ctx.db.insert("organizations", {
       name: args.name,
@@ -155,17 +172,7 @@ export const updateOrganization = mutation({
     updaterEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    // Verify user has permission (owner or admin)
-    const member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_organization_email", (q) =>
-        q.eq("organizationId", args.organizationId).eq("email", args.updaterEmail)
-      )
-      .first();
-
-    if (!member || (member.role !== "owner" && member.role !== "admin")) {
-      throw new Error("Unauthorized: Only owners and admins can update organizations");
-    }
+    await authorizeForOrganization(ctx, args.organizationId, "organization.update", args.updaterEmail);
 
     await ctx.db.patch(args.organizationId, {
       name: args.name,
@@ -187,17 +194,13 @@ export const addMember = mutation({
     inviterEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    // Verify inviter has permission (owner or admin)
-    const inviter = await ctx.db
-      .query("organization_members")
-      .withIndex("by_organization_email", (q) =>
-        q.eq("organizationId", args.organizationId).eq("email", args.inviterEmail)
-      )
-      .first();
-
-    if (!inviter || (inviter.role !== "owner" && inviter.role !== "admin")) {
-      throw new Error("Unauthorized: Only owners and admins can add members");
-    }
+    // Admins add members; only owners can add another owner
+    await authorizeForOrganization(
+      ctx,
+      args.organizationId,
+      args.role === "owner" ? "members.changeRole" : "members.manage",
+      args.inviterEmail
+    );
 
     // Check if member already exists
     const existing = await ctx.db
@@ -234,17 +237,7 @@ export const removeMember = mutation({
     removerEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    // Verify remover has permission (owner or admin)
-    const remover = await ctx.db
-      .query("organization_members")
-      .withIndex("by_organization_email", (q) =>
-        q.eq("organizationId", args.organizationId).eq("email", args.removerEmail)
-      )
-      .first();
-
-    if (!remover || (remover.role !== "owner" && remover.role !== "admin")) {
-      throw new Error("Unauthorized: Only owners and admins can remove members");
-    }
+    await authorizeForOrganization(ctx, args.organizationId, "members.manage", args.removerEmail);
 
     // Find the member to remove
     const member = await ctx.db
@@ -258,8 +251,9 @@ export const removeMember = mutation({
       throw new Error("Member not found");
     }
 
-    // Don't allow removing the last owner
+    // Only owners can remove an owner, and never the last one
     if (member.role === "owner") {
+      await authorizeForOrganization(ctx, args.organizationId, "members.changeRole", args.removerEmail);
       const owners = await ctx.db
         .query("organization_members")
         .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
@@ -286,17 +280,7 @@ export const updateMemberRole = mutation({
     updaterEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    // Verify updater has permission (owner only for role changes)
-    const updater = await ctx.db
-      .query("organization_members")
-      .withIndex("by_organization_email", (q) =>
-        q.eq("organizationId", args.organizationId).eq("email", args.updaterEmail)
-      )
-      .first();
-
-    if (!updater || updater.role !== "owner") {
-      throw new Error("Unauthorized: Only owners can change member roles");
-    }
+    await authorizeForOrganization(ctx, args.organizationId, "members.changeRole", args.updaterEmail);
 
     // Find the member to update
     const member = await ctx.db
@@ -341,12 +325,8 @@ export const hasPermission = query({
     requiredRole: v.optional(v.union(v.literal("owner"), v.literal("admin"), v.literal("member"))),
   },
   handler: async (ctx: QueryCtx, args) => {
-    const member = await ctx.db
-      .query("organization_members")
-      .withIndex("by_organization_email", (q) =>
-        q.eq("organizationId", args.organizationId).eq("email", args.email)
-      )
-      .first();
+    const email = await getCallerEmail(ctx, args.email);
+    const member = await getOrganizationMembership(ctx, args.organizationId, email);
 
     if (!member) {
       return false;
@@ -356,13 +336,54 @@ export const hasPermission = query({
       return true; // Just checking membership
     }
 
-    const roleHierarchy: Record<string, number> = {
-      member: 1,
-      admin: 2,
-      owner: 3,
+    return ROLE_RANK[member.role] >= ROLE_RANK[args.requiredRole];
+  },
+});
+
+/**
+ * The caller's role in their organization and the actions it allows
+ * (see PERMISSIONS in utils/authorization.ts), for showing only what they can do
+ */
+export const getPermissionsForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const email = await getCallerEmail(ctx, args.email);
+    const member = await ctx.db
+      .query("organization_members")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+    if (!member) {
+      return null;
+    }
+    return {
+      organizationId: member.organizationId,
+      role: member.role,
+      permissions: permissionsForRole(member.role),
     };
+  },
+});
+
 
-    return roleHierarchy[member.role] >= roleHierarchy[args.requiredRole];
+/**
+ * Lowest client-resolution score at which transcripts are linked automatically
+ */
+export const getAutoLinkThresholdForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    const organization = await ctx.db.get(organizationId);
+    return organization?.autoLinkThreshold ?? DEFAULT_AUTO_LINK_THRESHOLD;
   },
 });
 
+export const setAutoLinkThresholdForEmail = mutation({
+  args: { email: v.string(), threshold: v.number() },
+  handler: async (ctx: MutationCtx, args) => {
+    if (!isValidAutoLinkThreshold(args.threshold)) {
+      throw new Error("The auto-link threshold must be between 0.5 and 1");
+    }
+    const { organizationId } = await authorize(ctx, "organization.update", args.email);
+    await ctx.db.patch(organizationId, { autoLinkThreshold: args.threshold, updatedAt: Date.now() });
+    return args.threshold;
+  },
+});
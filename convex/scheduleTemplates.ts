@@ -0,0 +1,170 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { authorize } from "./utils/authorization";
+import { isValidTimeZone, scheduleRuleValidator, validateScheduleRule } from "./utils/schedule";
+import { getOrganizationTimezone, rescheduleClientJobs } from "./utils/scheduling";
+
+/**
+ * Get all schedule templates for a user's organization
+ */
+export const getTemplatesForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    const templates = await ctx.db
+      .query("schedule_templates")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Create a template, or update it when templateId is given.
+ * Marking a template as default unsets the previous default.
+ */
+export const saveTemplate = mutation({
+  args: {
+    email: v.string(),
+    templateId: v.optional(v.id("schedule_templates")),
+    name: v.string(),
+    rule: scheduleRuleValidator,
+    isDefault: v.optional(v.boolean()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "scheduleTemplates.manage", args.email);
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Template name is required");
+    }
+    const ruleError = validateScheduleRule(args.rule);
+    if (ruleError) {
+      throw new Error(ruleError);
+    }
+
+    if (args.isDefault) {
+      await clearDefaultTemplate(ctx, organizationId);
+    }
+
+    const now = Date.now();
+    let templateId: Id<"schedule_templates">;
+    if (args.templateId) {
+      const existing = await ctx.db.get(args.templateId);
+      if (!existing || existing.organizationId !== organizationId) {
+        throw new Error("Schedule template not found");
+      }
+      await ctx.db.patch(existing._id, {
+        name,
+        rule: args.rule,
+        ...(args.isDefault !== undefined && { isDefault: args.isDefault }),
+        updatedAt: now,
+      });
+      templateId = existing._id;
+    } else {
+      templateId = await ctx.db.insert("schedule_templates", {
+        organizationId,
+        name,
+        rule: args.rule,
+        isDefault: args.isDefault,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await rescheduleClientsUsingTemplates(ctx, organizationId);
+    return templateId;
+  },
+});
+
+/**
+ * Delete a template. Clients using it fall back to the org default.
+ */
+export const deleteTemplate = mutation({
+  args: { email: v.string(), templateId: v.id("schedule_templates") },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "scheduleTemplates.manage", args.email);
+    const template = await ctx.db.get(args.templateId);
+    if (!template || template.organizationId !== organizationId) {
+      throw new Error("Schedule template not found");
+    }
+
+    const clients = await ctx.db
+      .query("clients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    for (const client of clients) {
+      if (client.scheduleTemplateId === template._id) {
+        await ctx.db.patch(client._id, { scheduleTemplateId: undefined, updatedAt: Date.now() });
+      }
+    }
+    await ctx.db.delete(template._id);
+
+    await rescheduleClientsUsingTemplates(ctx, organizationId);
+    return template._id;
+  },
+});
+
+/**
+ * Get the timezone schedules are computed in for a user's organization
+ */
+export const getTimezoneForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    return await getOrganizationTimezone(ctx, organizationId);
+  },
+});
+
+/**
+ * Set the organization timezone and reschedule every client's next run in it
+ */
+export const setTimezoneForEmail = mutation({
+  args: { email: v.string(), timezone: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    if (!isValidTimeZone(args.timezone)) {
+      throw new Error(`Unknown timezone: ${args.timezone}`);
+    }
+    const { organizationId } = await authorize(ctx, "organization.update", args.email);
+    await ctx.db.patch(organizationId, { timezone: args.timezone, updatedAt: Date.now() });
+
+    const clients = await ctx.db
+      .query("clients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    for (const client of clients) {
+      if (client.cronJobEnabled !== false) {
+        await rescheduleClientJobs(ctx, client, client.ownerEmail || args.email);
+      }
+    }
+    return args.timezone;
+  },
+});
+
+async function clearDefaultTemplate(ctx: MutationCtx, organizationId: Id<"organizations">) {
+  const templates = await ctx.db
+    .query("schedule_templates")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  for (const template of templates) {
+    if (template.isDefault) {
+      await ctx.db.patch(template._id, { isDefault: false, updatedAt: Date.now() });
+    }
+  }
+}
+
+/**
+ * Reschedule clients whose effective rule comes from a template or the org default
+ */
+async function rescheduleClientsUsingTemplates(ctx: MutationCtx, organizationId: Id<"organizations">) {
+  const clients = await ctx.db
+    .query("clients")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  for (const client of clients) {
+    if (client.cronJobEnabled === false || client.scheduleRule) {
+      continue;
+    }
+    await rescheduleClientJobs(ctx, client, client.ownerEmail || "");
+  }
+}
@@ -1,10 +1,49 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { fieldMappingRuleValidator } from "./utils/typeformFieldMapping";
+import { scriptContextSourceValidator } from "./utils/scriptContext";
+import { scriptRevisionSourceValidator } from "./utils/scriptRevisions";
+import { runCheckpointValidator } from "./utils/scriptGenerationRuns";
+import { scheduleRuleValidator } from "./utils/schedule";
+import {
+  scriptCommentKindValidator,
+  scriptSectionAnchorValidator,
+  scriptStatusValidator,
+} from "./utils/scriptReview";
+import { textAnchorValidator } from "./utils/textAnchor";
+import {
+  notificationEventValidator,
+  notificationPreferenceEntryValidator,
+} from "./utils/notifications";
+import { webhookDeliveryStatusValidator } from "./utils/webhookDeliveries";
+import { linkAliasKindValidator, linkAliasSourceValidator } from "./utils/linkAliases";
+import { clientContactRoleValidator } from "./utils/clientContacts";
+import { EMBEDDING_DIMENSIONS, searchSourceValidator } from "./utils/search";
+import { transcriptSentenceValidator } from "./utils/transcriptSentences";
+import {
+  briefingContradictionValidator,
+  insightSentimentValidator,
+  insightsStatusValidator,
+  transcriptInsightKindValidator,
+} from "./utils/transcriptInsights";
+import { encryptedSecretValidator } from "./utils/credentialVault";
+import { llmBudgetModeValidator, llmFeatureValidator } from "./utils/llmUsage";
 
 export default defineSchema({
   // Organizations - groups of users that share data
   organizations: defineTable({
     name: v.string(),
+    // IANA timezone used for schedule dates (defaults to America/New_York)
+    timezone: v.optional(v.string()),
+    // Lowest resolver score that links a transcript without asking anyone
+    // (defaults to DEFAULT_AUTO_LINK_THRESHOLD in convex/utils/clientResolution.ts)
+    autoLinkThreshold: v.optional(v.number()),
+    // Embed search chunks with the organization's OpenRouter key for semantic search
+    semanticSearchEnabled: v.optional(v.boolean()),
+    // Monthly OpenRouter spend limit in USD and what happens once it's reached
+    // (see convex/utils/llmUsage.ts); no limit when unset
+    monthlyLlmBudget: v.optional(v.number()),
+    llmBudgetMode: v.optional(llmBudgetModeValidator),
     createdAt: v.number(),
     updatedAt: v.number(),
   }),
@@ -27,22 +66,35 @@ export default defineSchema({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()),
     secret: v.optional(v.string()),
+    accessTokenEncrypted: v.optional(encryptedSecretValidator),
+    // Plaintext from before encryption; moved into accessTokenEncrypted by credentialsActions.migrateCredentials
     accessToken: v.optional(v.string()),
+    // Token in the webhook URL (see utils/webhookTokens.ts) and the member webhooks act as
+    webhookToken: v.optional(v.string()),
+    webhookTokenEmail: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_organization", ["organizationId"])
-    .index("by_email", ["email"]),
+    .index("by_email", ["email"])
+    .index("by_webhook_token", ["webhookToken"]),
   typeform_webhooks: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()),
     payload: v.any(),
     eventType: v.optional(v.string()),
+    eventId: v.optional(v.string()), // Typeform event_id; repeated deliveries of an event are deduplicated
     formId: v.optional(v.string()),
     receivedAt: v.number(),
+    // Processing state (see utils/webhookDeliveries.ts); unset on deliveries from before it was tracked
+    status: v.optional(webhookDeliveryStatusValidator),
+    error: v.optional(v.string()),
+    attempts: v.optional(v.number()),
+    processedAt: v.optional(v.number()),
   })
     .index("by_organization", ["organizationId"])
     .index("by_organization_received", ["organizationId", "receivedAt"])
+    .index("by_organization_event", ["organizationId", "eventId"])
     .index("by_email", ["email"])
     .index("by_email_received", ["email", "receivedAt"]),
   typeform_responses: defineTable({
@@ -73,27 +125,51 @@ export default defineSchema({
     .index("by_email_form", ["email", "formId"])
     .index("by_email_synced", ["email", "syncedAt"])
     .index("by_response_id", ["responseId"]),
+  // Per-form mapping of Typeform fieldRefs onto client attributes
+  typeform_field_mappings: defineTable({
+    organizationId: v.id("organizations"),
+    formId: v.string(),
+    formTitle: v.optional(v.string()),
+    rules: v.array(fieldMappingRuleValidator),
+    updatedByEmail: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"])
+    .index("by_organization_form", ["organizationId", "formId"]),
   fireflies_configs: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()),
+    apiKeyEncrypted: v.optional(encryptedSecretValidator),
+    // Plaintext from before encryption; moved into apiKeyEncrypted by credentialsActions.migrateCredentials
     apiKey: v.optional(v.string()),
     webhookSecret: v.optional(v.string()),
+    // Token in the webhook URL (see utils/webhookTokens.ts) and the member webhooks act as
+    webhookToken: v.optional(v.string()),
+    webhookTokenEmail: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_organization", ["organizationId"])
-    .index("by_email", ["email"]),
+    .index("by_email", ["email"])
+    .index("by_webhook_token", ["webhookToken"]),
   fireflies_webhooks: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()),
     payload: v.any(),
     eventType: v.optional(v.string()),
-    meetingId: v.optional(v.string()),
+    meetingId: v.optional(v.string()), // Repeated deliveries for a meeting are deduplicated
     transcriptId: v.optional(v.string()),
     receivedAt: v.number(),
+    // Processing state (see utils/webhookDeliveries.ts); unset on deliveries from before it was tracked
+    status: v.optional(webhookDeliveryStatusValidator),
+    error: v.optional(v.string()),
+    attempts: v.optional(v.number()),
+    processedAt: v.optional(v.number()),
   })
     .index("by_organization", ["organizationId"])
     .index("by_organization_received", ["organizationId", "receivedAt"])
+    .index("by_organization_meeting", ["organizationId", "meetingId"])
     .index("by_email", ["email"])
     .index("by_email_received", ["email", "receivedAt"]),
   clients: defineTable({
@@ -121,13 +197,19 @@ export default defineSchema({
     )),
     notes: v.optional(v.string()), // Notes/observations about the client
     
-    // Cron job configuration (per-client override)
-    // Not used directly - cron jobs are calculated as: 25 days, then 30 days later, then monthly
-    // This field is kept for backwards compatibility but the schedule is fixed
-    cronJobSchedule: v.optional(v.array(v.number())), // Deprecated - schedule is fixed: 25d, then 30d, then monthly
+    // Cron job configuration. The effective rule is, in order: scheduleRule,
+    // the template in scheduleTemplateId, the org's default template, then
+    // DEFAULT_SCHEDULE_RULE (25d, then 30d, then monthly) - see convex/utils/schedule.ts
+    scheduleRule: v.optional(scheduleRuleValidator),
+    scheduleTemplateId: v.optional(v.id("schedule_templates")),
+    // Date schedule offsets count from (defaults to createdAt)
+    scheduleAnchorTime: v.optional(v.number()),
+    cronJobSchedule: v.optional(v.array(v.number())), // Deprecated - replaced by scheduleRule
     cronJobEnabled: v.optional(v.boolean()), // Whether cron jobs are enabled for this client
     // Optional pause window; when set, UI can indicate resume time
     pausedUntil: v.optional(v.number()),
+    // When status last became "paused", for client health
+    pausedAt: v.optional(v.number()),
     
     // Timestamps
     createdAt: v.number(),
@@ -137,6 +219,21 @@ export default defineSchema({
     .index("by_owner", ["ownerEmail"]) // Keep for migration
     .index("by_business_email", ["businessEmail"])
     .index("by_owner_business_email", ["ownerEmail", "businessEmail"]), // Keep for migration
+  // People at a client; the primary one is mirrored into the client's contact fields
+  client_contacts: defineTable({
+    organizationId: v.id("organizations"),
+    clientId: v.id("clients"),
+    firstName: v.string(),
+    lastName: v.optional(v.string()),
+    email: v.optional(v.string()), // Lowercased
+    phone: v.optional(v.string()),
+    role: clientContactRoleValidator,
+    isPrimary: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_client", ["clientId"])
+    .index("by_organization", ["organizationId"]),
   fireflies_transcripts: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()), // Deprecated - kept for migration
@@ -144,16 +241,8 @@ export default defineSchema({
     meetingId: v.string(),
     title: v.string(),
     transcript: v.string(),
-    // Optional structured sentences preserving speaker labels
-    sentences: v.optional(
-      v.array(
-        v.object({
-          text: v.string(),
-          speakerName: v.optional(v.string()),
-          speakerId: v.optional(v.string()),
-        })
-      )
-    ),
+    // Optional structured sentences preserving speaker labels and timestamps
+    sentences: v.optional(v.array(transcriptSentenceValidator)),
     date: v.number(),
     duration: v.optional(v.number()),
     participants: v.optional(v.array(v.string())),
@@ -184,6 +273,10 @@ export default defineSchema({
         })
       )
     ),
+    // Insight extraction for the linked client (see convex/transcriptInsightsActions.ts)
+    insightsStatus: v.optional(insightsStatusValidator),
+    insightsError: v.optional(v.string()),
+    insightsUpdatedAt: v.optional(v.number()),
   })
     .index("by_organization", ["organizationId"])
     .index("by_email", ["email"]) // Keep for migration
@@ -194,6 +287,58 @@ export default defineSchema({
     .index("by_client", ["clientId"])
     .index("by_organization_unlinked", ["organizationId", "clientId"])
     .index("by_email_unlinked", ["email", "clientId"]), // Keep for migration
+  // Objections, offers, pricing changes etc. extracted from a linked transcript;
+  // replaced whenever the transcript is re-extracted or linked elsewhere
+  transcript_insights: defineTable({
+    organizationId: v.id("organizations"),
+    clientId: v.id("clients"),
+    transcriptId: v.id("fireflies_transcripts"),
+    kind: transcriptInsightKindValidator,
+    summary: v.string(),
+    quote: v.optional(v.string()),
+    sentiment: v.optional(insightSentimentValidator),
+    contradiction: v.optional(briefingContradictionValidator),
+    contradictionDismissedAt: v.optional(v.number()),
+    occurredAt: v.number(), // Date of the call
+    createdAt: v.number(),
+  })
+    .index("by_transcript", ["transcriptId"])
+    .index("by_client_occurred", ["clientId", "occurredAt"])
+    .index("by_organization", ["organizationId"]),
+  // Quotes highlighted in a transcript for script generation to cite. They
+  // belong to whichever client the transcript is linked to.
+  transcript_soundbites: defineTable({
+    organizationId: v.id("organizations"),
+    transcriptId: v.id("fireflies_transcripts"),
+    // Range of transcript sentences the quote was taken from
+    startIndex: v.number(),
+    endIndex: v.number(),
+    quote: v.string(),
+    speakerName: v.optional(v.string()),
+    startTime: v.optional(v.number()), // Seconds from the start of the call
+    endTime: v.optional(v.number()),
+    note: v.optional(v.string()),
+    createdByEmail: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_transcript", ["transcriptId"])
+    .index("by_organization", ["organizationId"]),
+  // Rules mapping a participant email, email domain or meeting title to a
+  // client, learned from manual links (see convex/utils/linkAliases.ts)
+  link_aliases: defineTable({
+    organizationId: v.id("organizations"),
+    clientId: v.id("clients"),
+    kind: linkAliasKindValidator,
+    // Normalized with normalizeAliasValue
+    value: v.string(),
+    source: linkAliasSourceValidator,
+    createdByEmail: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"])
+    .index("by_organization_kind_value", ["organizationId", "kind", "value"])
+    .index("by_client", ["clientId"]),
   scripts: defineTable({
     organizationId: v.id("organizations"),
     ownerEmail: v.optional(v.string()), // Deprecated - kept for migration
@@ -207,7 +352,21 @@ export default defineSchema({
     }),
     model: v.optional(v.string()), // Model used for generation (e.g., "openai/gpt-5")
     thinkingEffort: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
-    status: v.union(v.literal("draft"), v.literal("final")),
+    // Which context sources went into the prompt (see src/lib/scriptContext.ts)
+    contextSources: v.optional(v.array(scriptContextSourceValidator)),
+    // Review workflow - see convex/utils/scriptReview.ts
+    status: scriptStatusValidator,
+    reviewerEmail: v.optional(v.string()), // Organization member assigned to review
+    reviewRequestedByEmail: v.optional(v.string()),
+    reviewRequestedAt: v.optional(v.number()),
+    approvedByEmail: v.optional(v.string()),
+    approvedAt: v.optional(v.number()),
+    deliveredAt: v.optional(v.number()),
+    driveDocUrl: v.optional(v.string()), // Google Doc created on delivery
+    // Collaborative editing - see convex/scriptCollab.ts
+    collabVersion: v.optional(v.number()), // Number of editor steps accepted so far
+    contentVersion: v.optional(v.number()), // Step version contentHtml was saved at
+    collabResetVersion: v.optional(v.number()), // Version at which content was last replaced wholesale
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -215,6 +374,65 @@ export default defineSchema({
     .index("by_client", ["clientId", "createdAt"])
     .index("by_owner", ["ownerEmail", "createdAt"]) // Keep for migration
     .index("by_source_response", ["source.responseId"]),
+  // Editor steps (ProseMirror step JSON) accepted for a script, in version order.
+  // Clients rebase their unconfirmed steps on these; contentHtml is a snapshot.
+  script_steps: defineTable({
+    scriptId: v.id("scripts"),
+    version: v.number(),
+    step: v.any(),
+    clientId: v.string(), // Editor session that submitted the step
+    authorEmail: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_script_version", ["scriptId", "version"]),
+  // Who has a script open and where their cursor is
+  script_presence: defineTable({
+    scriptId: v.id("scripts"),
+    sessionId: v.string(),
+    email: v.string(),
+    // Editor positions, valid at `version`
+    selection: v.optional(v.object({ anchor: v.number(), head: v.number() })),
+    version: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_script_session", ["scriptId", "sessionId"])
+    .index("by_updated", ["updatedAt"]),
+  // Snapshot of a script's content, written on every save so edits can be
+  // compared and restored. Manual autosaves from the same author are coalesced.
+  script_revisions: defineTable({
+    organizationId: v.id("organizations"),
+    scriptId: v.id("scripts"),
+    clientId: v.id("clients"),
+    contentHtml: v.string(),
+    source: scriptRevisionSourceValidator,
+    authorEmail: v.optional(v.string()),
+    // For restores: the revision whose content was brought back
+    restoredFromRevisionId: v.optional(v.id("script_revisions")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_script", ["scriptId", "createdAt"])
+    .index("by_organization", ["organizationId"]),
+  // Reviewer and author comments on a script, anchored to a section or to a
+  // span of text. Replies point at the thread's root comment; only roots are resolved.
+  script_comments: defineTable({
+    organizationId: v.id("organizations"),
+    scriptId: v.id("scripts"),
+    clientId: v.optional(v.id("clients")),
+    authorEmail: v.string(),
+    body: v.string(),
+    kind: scriptCommentKindValidator,
+    anchor: v.optional(scriptSectionAnchorValidator),
+    textAnchor: v.optional(textAnchorValidator),
+    parentCommentId: v.optional(v.id("script_comments")),
+    resolvedAt: v.optional(v.number()),
+    resolvedByEmail: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_script", ["scriptId", "createdAt"])
+    .index("by_client_resolved", ["clientId", "resolvedAt"])
+    .index("by_organization", ["organizationId"]),
   script_settings: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()), // Deprecated - kept for migration
@@ -224,10 +442,12 @@ export default defineSchema({
     autoGenerateOnSync: v.optional(v.boolean()),
     // A publicly reachable base URL for the Next.js app, used by Convex actions
     publicAppUrl: v.optional(v.string()),
-    // Cron job template: fixed schedule pattern
-    // Pattern: immediate, then 25 days, then 30 days later (which becomes monthly recurring day)
-    // This field is kept for backwards compatibility but the schedule is fixed
-    cronJobTemplate: v.optional(v.array(v.number())), // Deprecated - schedule is fixed: 25d, then 30d, then monthly
+    // Context assembly for generation: how many linked transcripts to include and
+    // the approximate token budget for all context sources combined
+    contextTranscriptLimit: v.optional(v.number()),
+    contextTokenBudget: v.optional(v.number()),
+    // Kept for backwards compatibility; schedule templates live in schedule_templates
+    cronJobTemplate: v.optional(v.array(v.number())), // Deprecated - replaced by schedule_templates
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -255,21 +475,42 @@ export default defineSchema({
       timestamp: v.number(),
       detail: v.optional(v.string()),
     }))),
+    // Pipeline step currently executing, and the step that failed (see SCRIPT_GENERATION_STEPS)
+    currentStep: v.optional(v.string()),
+    failedStep: v.optional(v.string()),
+    // Outputs of completed steps, used to resume a failed or stuck run
+    checkpoint: v.optional(runCheckpointValidator),
+    // Number of times the run was resumed (manually or by the stuck-run sweeper)
+    resumeCount: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_organization", ["organizationId", "createdAt"])
     .index("by_owner", ["ownerEmail", "createdAt"]) // Keep for migration
+    .index("by_status", ["status", "updatedAt"])
     .index("by_organization_response", ["organizationId", "responseId"])
     .index("by_owner_response", ["ownerEmail", "responseId"]), // Keep for migration
+  // Reusable schedule rules for an organization; at most one is the default
+  // for clients without their own rule
+  schedule_templates: defineTable({
+    organizationId: v.id("organizations"),
+    name: v.string(),
+    rule: scheduleRuleValidator,
+    isDefault: v.optional(v.boolean()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"]),
   cron_jobs: defineTable({
     organizationId: v.id("organizations"),
     ownerEmail: v.optional(v.string()), // Deprecated - kept for migration
     clientId: v.id("clients"),
-    cronJobId: v.string(), // Cloudflare cron job ID
+    cronJobId: v.string(), // Stable ID passed to executeCronJob
+    // Convex scheduled function that will run executeCronJob; cancelled with the job
+    scheduledFunctionId: v.optional(v.id("_scheduled_functions")),
     scheduledTime: v.number(), // Unix timestamp when this job should run
     dayOfMonth: v.number(), // Day of month (1-31) for this job
-    isRepeating: v.boolean(), // Whether this is a repeating monthly job
+    isRepeating: v.boolean(), // Whether the schedule rule has further occurrences after this job
     status: v.union(
       v.literal("scheduled"),
       v.literal("completed"),
@@ -288,7 +529,9 @@ export default defineSchema({
   google_drive_configs: defineTable({
     organizationId: v.id("organizations"),
     connectedByEmail: v.string(), // Email of user who connected the account
-    accessToken: v.optional(v.string()),
+    accessToken: v.optional(v.string()), // Short-lived; never returned to the browser
+    refreshTokenEncrypted: v.optional(encryptedSecretValidator),
+    // Plaintext from before encryption; moved into refreshTokenEncrypted by credentialsActions.migrateCredentials
     refreshToken: v.optional(v.string()),
     tokenExpiry: v.optional(v.number()), // Unix timestamp when access token expires
     userEmail: v.optional(v.string()), // Google account email
@@ -301,6 +544,8 @@ export default defineSchema({
   openrouter_configs: defineTable({
     organizationId: v.id("organizations"),
     email: v.optional(v.string()),
+    apiKeyEncrypted: v.optional(encryptedSecretValidator),
+    // Plaintext from before encryption; moved into apiKeyEncrypted by credentialsActions.migrateCredentials
     apiKey: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -328,6 +573,108 @@ export default defineSchema({
     .index("by_organization", ["organizationId"])
     .index("by_client", ["clientId"])
     .index("by_owner_client", ["ownerEmail", "clientId"]), // Keep for migration
+  telegram_configs: defineTable({
+    organizationId: v.id("organizations"),
+    chatId: v.string(), // Telegram chat that gets linking prompts and may run bot commands
+    connectedByEmail: v.string(), // Bot commands act as this user
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_organization", ["organizationId"])
+    .index("by_chat", ["chatId"]),
+  // secret_token the webhook was registered with; Telegram sends it back in
+  // X-Telegram-Bot-Api-Secret-Token. Kept apart from telegram_configs so
+  // queries the browser runs never return it.
+  telegram_webhook_secrets: defineTable({
+    organizationId: v.id("organizations"),
+    secret: v.string(),
+    registeredByEmail: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organization", ["organizationId"]),
+  // Bot messages with inline keyboards; button presses look up what they refer to here
+  telegram_prompts: defineTable({
+    organizationId: v.id("organizations"),
+    chatId: v.string(),
+    messageId: v.number(),
+    kind: v.union(v.literal("link"), v.literal("unlinked")),
+    transcriptId: v.optional(v.string()), // For "link" prompts
+    options: v.array(v.string()), // Client IDs for "link" prompts, transcript IDs for "unlinked"
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_chat_message", ["chatId", "messageId"])
+    .index("by_transcript", ["transcriptId"]),
+  // In-app notifications shown under the Navbar bell (see utils/notificationDispatch.ts)
+  notifications: defineTable({
+    organizationId: v.id("organizations"),
+    recipientEmail: v.string(),
+    eventType: notificationEventValidator,
+    title: v.string(),
+    body: v.string(),
+    link: v.optional(v.string()), // App path to open
+    readAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_recipient", ["recipientEmail", "createdAt"])
+    .index("by_recipient_read", ["recipientEmail", "readAt"]),
+  // Channels each user gets each event on; events without an entry use their defaults
+  notification_preferences: defineTable({
+    organizationId: v.id("organizations"),
+    email: v.string(),
+    events: v.array(notificationPreferenceEntryValidator),
+    slackWebhookUrl: v.optional(v.string()), // Slack incoming webhook for the "slack" channel
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_organization_email", ["organizationId", "email"]),
+  // Daily client health scores for trends (see convex/utils/clientHealth.ts)
+  client_health_snapshots: defineTable({
+    organizationId: v.id("organizations"),
+    clientId: v.id("clients"),
+    day: v.string(), // UTC date, YYYY-MM-DD
+    score: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_client_day", ["clientId", "day"]),
+  // One row per OpenRouter call: tokens, model and cost (see convex/utils/llmUsage.ts)
+  llm_usage: defineTable({
+    organizationId: v.id("organizations"),
+    email: v.optional(v.string()), // Who made the call; unset for background jobs
+    clientId: v.optional(v.id("clients")),
+    feature: llmFeatureValidator,
+    model: v.string(),
+    generationId: v.optional(v.string()), // OpenRouter generation ID
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    cost: v.number(), // USD
+    createdAt: v.number(),
+  })
+    .index("by_organization_created", ["organizationId", "createdAt"])
+    .index("by_client_created", ["clientId", "createdAt"]),
+  // Chunks of searchable text, rebuilt whenever their record changes (see utils/searchIndexing.ts)
+  search_documents: defineTable({
+    organizationId: v.id("organizations"),
+    source: searchSourceValidator,
+    sourceId: v.string(), // Convex ID of the transcript, response, script or client
+    sourceKey: v.string(), // Fireflies transcript ID, Typeform response ID, else sourceId
+    clientId: v.optional(v.id("clients")),
+    title: v.string(),
+    date: v.number(),
+    chunkIndex: v.number(),
+    text: v.string(),
+    embedding: v.optional(v.array(v.float64())),
+    updatedAt: v.number(),
+  })
+    .index("by_source", ["source", "sourceId", "chunkIndex"])
+    .index("by_organization_embedding", ["organizationId", "embedding"])
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["organizationId", "source", "clientId"],
+    })
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["organizationId"],
+    }),
 });
-
-
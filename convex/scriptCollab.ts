@@ -0,0 +1,190 @@
+import { mutation, query, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { getCallerEmail } from "./utils/authorization";
+import { getScriptForMember } from "./utils/scriptAccess";
+import { statusAfterContentEdit } from "./utils/scriptReview";
+import { PRESENCE_TTL_MS, STEP_HISTORY } from "./utils/scriptCollab";
+
+/**
+ * Steps accepted after `version`, for an editor to rebase on.
+ * `resync` means the editor can't catch up from its version (the content was
+ * replaced, or the steps it needs were pruned) and must reload the snapshot.
+ */
+export const getStepsSince = query({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    version: v.number(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    let script: Doc<"scripts">;
+    try {
+      script = await getScriptForMember(ctx, args.scriptId, args.email);
+    } catch {
+      return null;
+    }
+    const version = script.collabVersion ?? 0;
+    const snapshot = {
+      contentHtml: script.contentHtml,
+      contentVersion: script.contentVersion ?? 0,
+    };
+    if (
+      args.version > version ||
+      args.version < (script.collabResetVersion ?? 0) ||
+      args.version < snapshot.contentVersion - STEP_HISTORY
+    ) {
+      return { version, resync: true, snapshot, steps: [] };
+    }
+
+    const steps = await ctx.db
+      .query("script_steps")
+      .withIndex("by_script_version", (q) => q.eq("scriptId", args.scriptId).gt("version", args.version))
+      .collect();
+    return {
+      version,
+      resync: false,
+      snapshot: null,
+      steps: steps.map((s) => ({ step: s.step, clientId: s.clientId })),
+    };
+  },
+});
+
+/**
+ * Append an editor's steps. Rejected (accepted: false) unless the editor was
+ * at the latest version; it then rebases on the newer steps and resubmits.
+ */
+export const submitSteps = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    clientId: v.string(),
+    version: v.number(),
+    steps: v.array(v.any()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    const current = script.collabVersion ?? 0;
+    if (args.version !== current) {
+      return { accepted: false, version: current };
+    }
+
+    const now = Date.now();
+    for (let i = 0; i < args.steps.length; i++) {
+      await ctx.db.insert("script_steps", {
+        scriptId: script._id,
+        version: current + i + 1,
+        step: args.steps[i],
+        clientId: args.clientId,
+        authorEmail: args.email,
+        createdAt: now,
+      });
+    }
+    await ctx.db.patch(script._id, {
+      collabVersion: current + args.steps.length,
+      status: statusAfterContentEdit(script.status),
+      updatedAt: now,
+    });
+    return { accepted: true, version: current + args.steps.length };
+  },
+});
+
+/**
+ * Everyone else with the script open, with their cursor positions
+ */
+export const getPresence = query({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    try {
+      await getScriptForMember(ctx, args.scriptId, args.email);
+    } catch {
+      return [];
+    }
+    const rows = await ctx.db
+      .query("script_presence")
+      .withIndex("by_script_session", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    return rows.map((row) => ({
+      sessionId: row.sessionId,
+      email: row.email,
+      selection: row.selection ?? null,
+      version: row.version,
+      updatedAt: row.updatedAt,
+    }));
+  },
+});
+
+/**
+ * Heartbeat for an open editor session, with its current selection
+ */
+export const updatePresence = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    sessionId: v.string(),
+    selection: v.optional(v.object({ anchor: v.number(), head: v.number() })),
+    version: v.number(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    await getScriptForMember(ctx, args.scriptId, args.email);
+    const existing = await ctx.db
+      .query("script_presence")
+      .withIndex("by_script_session", (q) => q.eq("scriptId", args.scriptId).eq("sessionId", args.sessionId))
+      .unique();
+    const fields = {
+      email: args.email,
+      selection: args.selection,
+      version: args.version,
+      updatedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+    return await ctx.db.insert("script_presence", {
+      scriptId: args.scriptId,
+      sessionId: args.sessionId,
+      ...fields,
+    });
+  },
+});
+
+/**
+ * Remove the caller's editor session when the script is closed
+ */
+export const leaveScript = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    sessionId: v.string(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const email = await getCallerEmail(ctx);
+    const existing = await ctx.db
+      .query("script_presence")
+      .withIndex("by_script_session", (q) => q.eq("scriptId", args.scriptId).eq("sessionId", args.sessionId))
+      .unique();
+    if (existing && existing.email === email) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Delete presence left behind by editors that closed without saying so
+ */
+export const cleanupStalePresence = internalMutation({
+  args: {},
+  handler: async (ctx: MutationCtx) => {
+    const stale = await ctx.db
+      .query("script_presence")
+      .withIndex("by_updated", (q) => q.lt("updatedAt", Date.now() - PRESENCE_TTL_MS))
+      .take(500);
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+    return { deleted: stale.length };
+  },
+});
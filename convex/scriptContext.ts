@@ -0,0 +1,107 @@
+import { query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { authorizeForOrganization } from "./utils/authorization";
+import {
+  DEFAULT_CONTEXT_PREVIOUS_SCRIPT_LIMIT,
+  DEFAULT_CONTEXT_TRANSCRIPT_LIMIT,
+} from "./utils/scriptContext";
+import { getSoundbitesForClient } from "./utils/soundbites";
+
+/**
+ * Gather the raw inputs for a client's script generation prompt:
+ * onboarding Q&A, the most recent linked transcripts, soundbites saved from
+ * any linked transcript, the saved ad briefing, client notes and the most
+ * recent scripts.
+ *
+ * Token budgeting and summarization happen in the caller (src/lib/scriptContext.ts).
+ */
+export const getScriptContextInputs = query({
+  args: {
+    clientId: v.id("clients"),
+    ownerEmail: v.string(),
+    transcriptLimit: v.optional(v.number()),
+    previousScriptLimit: v.optional(v.number()),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const client = await ctx.db.get(args.clientId);
+    if (!client) {
+      return null;
+    }
+    await authorizeForOrganization(ctx, client.organizationId, "clients.read", args.ownerEmail);
+
+    const transcriptLimit = Math.min(Math.max(args.transcriptLimit ?? DEFAULT_CONTEXT_TRANSCRIPT_LIMIT, 0), 20);
+    const previousScriptLimit = Math.min(
+      Math.max(args.previousScriptLimit ?? DEFAULT_CONTEXT_PREVIOUS_SCRIPT_LIMIT, 0),
+      10
+    );
+
+    const onboarding = client.onboardingResponseId
+      ? await ctx.db
+          .query("typeform_responses")
+          .withIndex("by_response_id", (q) => q.eq("responseId", client.onboardingResponseId!))
+          .first()
+      : null;
+
+    const transcripts = (
+      await ctx.db
+        .query("fireflies_transcripts")
+        .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+        .collect()
+    )
+      .sort((a, b) => b.date - a.date)
+      .slice(0, transcriptLimit);
+
+    const soundbites = await getSoundbitesForClient(ctx, args.clientId);
+
+    const briefing = await ctx.db
+      .query("ad_briefings")
+      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+      .first();
+
+    const previousScripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+      .order("desc")
+      .take(previousScriptLimit);
+
+    return {
+      client,
+      onboarding: onboarding
+        ? {
+            responseId: onboarding.responseId,
+            qaPairs: onboarding.qaPairs ?? [],
+          }
+        : null,
+      transcripts: transcripts.map((t) => ({
+        transcriptId: t.transcriptId,
+        title: t.title,
+        date: t.date,
+        notes: t.notes,
+        transcript: t.transcript,
+        sentences: t.sentences,
+      })),
+      soundbites: soundbites.map((s) => ({
+        soundbiteId: s._id,
+        quote: s.quote,
+        speakerName: s.speakerName,
+        startTime: s.startTime,
+        note: s.note,
+        transcriptTitle: s.transcript.title,
+        transcriptDate: s.transcript.date,
+      })),
+      briefing: briefing
+        ? {
+            briefingId: briefing._id,
+            briefing: briefing.briefing,
+            updatedAt: briefing.updatedAt,
+          }
+        : null,
+      previousScripts: previousScripts.map((s) => ({
+        scriptId: s._id,
+        title: s.title,
+        createdAt: s.createdAt,
+        contentHtml: s.contentHtml,
+      })),
+    };
+  },
+});
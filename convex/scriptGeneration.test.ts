@@ -0,0 +1,82 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import { modules } from "./test.setup";
+
+async function setupQueuedRun() {
+  const t = convexTest(schema, modules);
+  const runId = await t.run(async (ctx) => {
+    const now = Date.now();
+    const organizationId = await ctx.db.insert("organizations", { name: "A", createdAt: now, updatedAt: now });
+    await ctx.db.insert("organization_members", {
+      organizationId,
+      email: "owner@a.test",
+      role: "owner",
+      createdAt: now,
+      updatedAt: now,
+    });
+    return await ctx.db.insert("script_generation_runs", {
+      organizationId,
+      ownerEmail: "owner@a.test",
+      responseId: "response-1",
+      status: "queued",
+      steps: [],
+      currentStep: "generate_script",
+      resumeCount: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  return { t, runId };
+}
+
+describe("resumeStuckRun", () => {
+  beforeEach(() => {
+    // Failure notifications are scheduled; keep them from running after the test
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("fails a queued run the generation route rejects", async () => {
+    const { t, runId } = await setupQueuedRun();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("Unauthorized", { status: 401 })));
+
+    await t.action(internal.scriptGeneration.resumeStuckRun, { runId });
+
+    const run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run?.status).toBe("failed");
+    expect(run?.error).toBe("Could not resume run: 401 - Unauthorized");
+  });
+
+  test("fails a queued run when the route can't be reached", async () => {
+    const { t, runId } = await setupQueuedRun();
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw new Error("connection refused");
+    }));
+
+    await t.action(internal.scriptGeneration.resumeStuckRun, { runId });
+
+    const run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run?.status).toBe("failed");
+    expect(run?.error).toBe("Could not resume run: connection refused");
+  });
+
+  test("leaves a run the route already picked up to the route", async () => {
+    const { t, runId } = await setupQueuedRun();
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      await t.run((ctx) => ctx.db.patch(runId, { status: "started" }));
+      return new Response("Internal error", { status: 500 });
+    }));
+
+    await t.action(internal.scriptGeneration.resumeStuckRun, { runId });
+
+    const run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run?.status).toBe("started");
+  });
+});
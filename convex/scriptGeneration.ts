@@ -1,7 +1,35 @@
-import { mutation, query, QueryCtx, MutationCtx, action, ActionCtx } from "./_generated/server";
+import {
+  mutation,
+  query,
+  QueryCtx,
+  MutationCtx,
+  action,
+  ActionCtx,
+  internalMutation,
+  internalAction,
+  internalQuery,
+} from "./_generated/server";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
-import { api } from "./_generated/api";
+import { internal } from "./_generated/api";
+import { authorize, getAuthorizedRecord, getCallerEmail, type Permission } from "./utils/authorization";
+import { internalApiHeaders } from "./utils/internalApi";
+import {
+  MAX_AUTO_RESUMES,
+  SCRIPT_GENERATION_STEPS,
+  STUCK_RUN_TIMEOUT_MS,
+  runCheckpointUpdateValidator,
+} from "./utils/scriptGenerationRuns";
+import { notifyOrganization } from "./utils/notificationDispatch";
+
+async function getRunForCaller(
+  ctx: QueryCtx | MutationCtx,
+  runId: Id<"script_generation_runs">,
+  permission: Permission,
+  ownerEmail?: string
+) {
+  return await getAuthorizedRecord(ctx, await ctx.db.get(runId), permission, ownerEmail);
+}
 
 export const startRun = mutation({
   args: {
@@ -13,36 +41,10 @@ export const startRun = mutation({
     // Get organizationId from client or ownerEmail
     let organizationId: Id<"organizations">;
     if (args.clientId) {
-      const client = await ctx.db.get(args.clientId);
-      if (!client || !client.organizationId) {
-        throw new Error("Client not found or missing organization");
-      }
+      const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "scripts.write", args.ownerEmail);
       organizationId = client.organizationId;
     } else {
-      // Get or create organization for ownerEmail
-      let member = await ctx.db
-        .query("organization_members")
-        .withIndex("by_email", (q) => q.eq("email", args.ownerEmail))
-        .first();
-      
-      if (member) {
-        organizationId = member.organizationId;
-      } else {
-        // Create default organization for user inline
-        const orgNow = Date.now();
-        organizationId = await ctx.db.insert("organizations", {
-          name: `${args.ownerEmail.split("@")[0]}'s Organization`,
-          createdAt: orgNow,
-          updatedAt: orgNow,
-        });
-        await ctx.db.insert("organization_members", {
-          organizationId,
-          email: args.ownerEmail,
-          role: "owner",
-          createdAt: orgNow,
-          updatedAt: orgNow,
-        });
-      }
+      ({ organizationId } = await authorize(ctx, "scripts.write", args.ownerEmail));
     }
 
     const now = Date.now();
@@ -72,6 +74,8 @@ export const updateStep = mutation({
       status: v.union(v.literal("pending"), v.literal("running"), v.literal("success"), v.literal("error")),
       detail: v.optional(v.string()),
     }),
+    // Outputs to save when a pipeline step succeeds
+    checkpoint: v.optional(runCheckpointUpdateValidator),
     status: v.optional(v.union(
       v.literal("queued"),
       v.literal("started"),
@@ -82,10 +86,7 @@ export const updateStep = mutation({
     )),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const run = await ctx.db.get(args.runId);
-    if (!run) {
-      throw new Error("Run not found");
-    }
+    const run = await getRunForCaller(ctx, args.runId, "scripts.write");
     const now = Date.now();
     const steps = Array.isArray(run.steps) ? run.steps.slice() : [];
     steps.push({
@@ -94,9 +95,19 @@ export const updateStep = mutation({
       timestamp: now,
       detail: args.step.detail,
     });
+    const isPipelineStep = (SCRIPT_GENERATION_STEPS as readonly string[]).includes(args.step.name);
+    const checkpoint = run.checkpoint ?? { completedSteps: [] };
+    const completedSteps =
+      isPipelineStep && args.step.status === "success" && !checkpoint.completedSteps.includes(args.step.name)
+        ? [...checkpoint.completedSteps, args.step.name]
+        : checkpoint.completedSteps;
     await ctx.db.patch(args.runId, {
       steps,
       status: args.status ?? run.status,
+      ...(isPipelineStep && { currentStep: args.step.name }),
+      ...((isPipelineStep || args.checkpoint) && {
+        checkpoint: { ...checkpoint, ...args.checkpoint, completedSteps },
+      }),
       updatedAt: now,
     });
     return args.runId;
@@ -108,53 +119,265 @@ export const completeRun = mutation({
     runId: v.id("script_generation_runs"),
   },
   handler: async (ctx: MutationCtx, args) => {
+    await getRunForCaller(ctx, args.runId, "scripts.write");
     const now = Date.now();
     // Preserve steps by fetching current and only updating status/updatedAt
     await ctx.db.patch(args.runId, {
       status: "completed",
+      currentStep: undefined,
+      failedStep: undefined,
       updatedAt: now,
-    } as any);
+    });
     return args.runId;
   },
 });
 
+const failRunArgs = {
+  runId: v.id("script_generation_runs"),
+  error: v.string(),
+  failedStep: v.optional(v.string()),
+};
+
+async function markRunFailed(
+  ctx: MutationCtx,
+  args: { runId: Id<"script_generation_runs">; error: string; failedStep?: string }
+) {
+  const now = Date.now();
+  const run = await ctx.db.get(args.runId);
+  const steps = Array.isArray(run?.steps) ? run!.steps.slice() : [];
+  steps.push({
+    name: "error",
+    status: "error",
+    timestamp: now,
+    detail: args.error,
+  });
+  await ctx.db.patch(args.runId, {
+    status: "failed",
+    error: args.error,
+    failedStep: args.failedStep ?? run?.currentStep,
+    steps,
+    updatedAt: now,
+  });
+
+  if (run && run.status !== "failed") {
+    const client = run.clientId ? await ctx.db.get(run.clientId) : null;
+    await notifyOrganization(ctx, {
+      organizationId: run.organizationId,
+      eventType: "script_generation_failed",
+      title: client ? `Script generation failed for ${client.businessName}` : "Script generation failed",
+      body: args.error,
+      link: client ? `/dashboard/clients/${client._id}` : undefined,
+      recipientEmails: run.ownerEmail ? [run.ownerEmail] : undefined,
+      subject: { clientId: run.clientId },
+    });
+  }
+  return args.runId;
+}
+
 export const failRun = mutation({
+  args: failRunArgs,
+  handler: async (ctx: MutationCtx, args) => {
+    await getRunForCaller(ctx, args.runId, "scripts.write");
+    return await markRunFailed(ctx, args);
+  },
+});
+
+/**
+ * Fail a run from the sweeper, which has no signed-in user
+ */
+export const failRunInternal = internalMutation({
+  args: failRunArgs,
+  handler: async (ctx: MutationCtx, args) => {
+    return await markRunFailed(ctx, args);
+  },
+});
+
+export const listRecentRuns = query({
+  args: {
+    ownerEmail: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "scripts.read", args.ownerEmail);
+    const limit = Math.min(Math.max(args.limit ?? 25, 1), 100);
+    return await ctx.db
+      .query("script_generation_runs")
+      .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
+      .order("desc")
+      .take(limit);
+  },
+});
+
+/**
+ * Get a run for its owner (used when resuming)
+ */
+export const getRun = query({
+  args: {
+    runId: v.id("script_generation_runs"),
+    ownerEmail: v.string(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) {
+      return null;
+    }
+    await getAuthorizedRecord(ctx, run, "scripts.read", args.ownerEmail);
+    return run.ownerEmail === args.ownerEmail ? run : null;
+  },
+});
+
+/**
+ * Put a failed or stuck run back into "started" so the pipeline can pick it up
+ * from its checkpoint. Throws if the run already completed or is still active.
+ */
+export const resumeRun = mutation({
   args: {
     runId: v.id("script_generation_runs"),
-    error: v.string(),
+    ownerEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
+    const run = await getRunForCaller(ctx, args.runId, "scripts.write", args.ownerEmail);
+    if (run.ownerEmail !== args.ownerEmail) {
+      throw new Error("Run not found or access denied");
+    }
+    if (run.status === "completed") {
+      throw new Error("Run already completed");
+    }
     const now = Date.now();
-    const run = await ctx.db.get(args.runId);
-    const steps = Array.isArray(run?.steps) ? run!.steps.slice() : [];
+    const isActive = run.status !== "failed" && run.status !== "queued" && now - run.updatedAt < STUCK_RUN_TIMEOUT_MS;
+    if (isActive) {
+      throw new Error("Run is still in progress");
+    }
+
+    const steps = Array.isArray(run.steps) ? run.steps.slice() : [];
+    const resumeFrom = run.failedStep ?? run.currentStep;
     steps.push({
-      name: "error",
-      status: "error",
+      name: "resume",
+      status: "running",
       timestamp: now,
-      detail: args.error,
+      detail: resumeFrom ? `Resuming from ${resumeFrom}` : undefined,
     });
     await ctx.db.patch(args.runId, {
-      status: "failed",
-      error: args.error,
+      status: "started",
+      error: undefined,
+      failedStep: undefined,
+      resumeCount: (run.resumeCount ?? 0) + 1,
       steps,
       updatedAt: now,
     });
-    return args.runId;
+    return run.checkpoint ?? { completedSteps: [] };
   },
 });
 
-export const listRecentRuns = query({
+/**
+ * Find runs that stopped making progress (the request died mid-pipeline) and
+ * either resume them from their checkpoint or fail them once they have been
+ * resumed MAX_AUTO_RESUMES times. Runs from convex/crons.ts.
+ */
+export const sweepStuckRuns = internalMutation({
+  args: {},
+  handler: async (ctx: MutationCtx) => {
+    const cutoff = Date.now() - STUCK_RUN_TIMEOUT_MS;
+    let resumed = 0;
+    let failed = 0;
+
+    for (const status of ["started", "generating", "storing"] as const) {
+      const stuck = await ctx.db
+        .query("script_generation_runs")
+        .withIndex("by_status", (q) => q.eq("status", status).lt("updatedAt", cutoff))
+        .take(50);
+
+      for (const run of stuck) {
+        const now = Date.now();
+        const steps = Array.isArray(run.steps) ? run.steps.slice() : [];
+        const canResume = Boolean(run.responseId && run.ownerEmail) && (run.resumeCount ?? 0) < MAX_AUTO_RESUMES;
+
+        if (canResume) {
+          steps.push({
+            name: "sweeper",
+            status: "pending",
+            timestamp: now,
+            detail: `No progress in ${run.currentStep ?? "run"} for ${Math.round(STUCK_RUN_TIMEOUT_MS / 60000)} minutes; resuming`,
+          });
+          await ctx.db.patch(run._id, { status: "queued", steps, updatedAt: now });
+          await ctx.scheduler.runAfter(0, internal.scriptGeneration.resumeStuckRun, { runId: run._id });
+          resumed++;
+        } else {
+          const error = `Timed out during ${run.currentStep ?? "generation"}`;
+          steps.push({ name: "error", status: "error", timestamp: now, detail: error });
+          await ctx.db.patch(run._id, {
+            status: "failed",
+            error,
+            failedStep: run.currentStep,
+            steps,
+            updatedAt: now,
+          });
+          failed++;
+        }
+      }
+    }
+
+    if (resumed > 0 || failed > 0) {
+      console.log("[Script Generation][Sweeper]", JSON.stringify({ resumed, failed }));
+    }
+    return { resumed, failed };
+  },
+});
+
+/**
+ * Re-invoke the generation route for a run queued by the sweeper
+ */
+export const resumeStuckRun = internalAction({
   args: {
-    ownerEmail: v.string(),
-    limit: v.optional(v.number()),
+    runId: v.id("script_generation_runs"),
   },
+  handler: async (ctx: ActionCtx, args): Promise<void> => {
+    const run = await ctx.runQuery(internal.scriptGeneration.getRunInternal, { runId: args.runId });
+    if (!run || run.status !== "queued" || !run.responseId || !run.ownerEmail) {
+      return;
+    }
+
+    const ownerSettings = await ctx.runQuery(internal.scriptSettings.getSettingsForEmailInternal, { email: run.ownerEmail });
+    const baseUrl = (
+      ownerSettings?.publicAppUrl || process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL || "http://localhost:3000"
+    ).replace(/\/$/, "");
+
+    let failure: string | null = null;
+    try {
+      const res = await fetch(`${baseUrl}/api/scripts/generate-from-response`, {
+        method: "POST",
+        headers: internalApiHeaders(),
+        body: JSON.stringify({
+          responseId: run.responseId,
+          email: run.ownerEmail,
+          clientId: run.clientId,
+          runId: args.runId,
+        }),
+      });
+      if (!res.ok) {
+        const text = await res.text();
+        console.error(`[Script Generation][Sweeper] Resume failed for ${args.runId}: ${res.status} - ${text}`);
+        failure = `Could not resume run: ${res.status} - ${text}`;
+      }
+    } catch (error) {
+      failure = `Could not resume run: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (failure) {
+      // The sweeper doesn't scan "queued" runs, so one the route never picked
+      // up would sit there unnoticed. Runs it did pick up it fails itself.
+      const current = await ctx.runQuery(internal.scriptGeneration.getRunInternal, { runId: args.runId });
+      if (current?.status === "queued") {
+        await ctx.runMutation(internal.scriptGeneration.failRunInternal, { runId: args.runId, error: failure });
+      }
+    }
+  },
+});
+
+export const getRunInternal = internalQuery({
+  args: { runId: v.id("script_generation_runs") },
   handler: async (ctx: QueryCtx, args) => {
-    const limit = Math.min(Math.max(args.limit ?? 25, 1), 100);
-    return await ctx.db
-      .query("script_generation_runs")
-      .withIndex("by_owner", (q) => q.eq("ownerEmail", args.ownerEmail))
-      .order("desc")
-      .take(limit);
+    return await ctx.db.get(args.runId);
   },
 });
 
@@ -169,8 +392,9 @@ export const triggerScriptGenerationFromResponse = action({
     clientId: v.optional(v.id("clients")),
   },
   handler: async (ctx: ActionCtx, args): Promise<{ success: boolean; error?: string }> => {
+    await getCallerEmail(ctx, args.ownerEmail);
     // Resolve base URL: prefer per-user settings, then env, then localhost (best-effort)
-    const ownerSettings = await ctx.runQuery(api.scriptSettings.getSettingsForEmail, { email: args.ownerEmail });
+    const ownerSettings = await ctx.runQuery(internal.scriptSettings.getSettingsForEmailInternal, { email: args.ownerEmail });
     const rawNextPublic = process.env.NEXT_PUBLIC_APP_URL;
     const rawAppUrl = process.env.APP_URL;
     const baseUrl = ownerSettings?.publicAppUrl || rawNextPublic || rawAppUrl || "http://localhost:3000";
@@ -194,9 +418,7 @@ export const triggerScriptGenerationFromResponse = action({
       console.log("[Script Generation][Action] Calling workflow endpoint", JSON.stringify({ url: workflowUrl, responseId: args.responseId, ownerEmail: args.ownerEmail }));
       const workflowResponse = await fetch(workflowUrl, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: internalApiHeaders(),
         body: JSON.stringify({
           responseId: args.responseId,
           email: args.ownerEmail,
@@ -217,9 +439,7 @@ export const triggerScriptGenerationFromResponse = action({
       console.log("[Script Generation][Action] Calling direct endpoint", JSON.stringify({ url: directUrl, responseId: args.responseId, ownerEmail: args.ownerEmail }));
       const directResponse = await fetch(directUrl, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: internalApiHeaders(),
         body: JSON.stringify({
           responseId: args.responseId,
           email: args.ownerEmail,
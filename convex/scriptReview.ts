@@ -0,0 +1,368 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getOrganizationMembership } from "./utils/organizations";
+import { authorize, getCallerEmail } from "./utils/authorization";
+import { getScriptForMember } from "./utils/scriptAccess";
+import {
+  getScriptSections,
+  isScriptApproved,
+  scriptSectionAnchorValidator,
+  type ScriptSectionAnchor,
+} from "./utils/scriptReview";
+import { textAnchorValidator, type TextAnchor } from "./utils/textAnchor";
+
+async function insertComment(
+  ctx: MutationCtx,
+  script: Doc<"scripts">,
+  params: {
+    authorEmail: string;
+    body: string;
+    kind: Doc<"script_comments">["kind"];
+    anchor?: ScriptSectionAnchor;
+    textAnchor?: TextAnchor;
+    parentCommentId?: Id<"script_comments">;
+  }
+) {
+  const now = Date.now();
+  return await ctx.db.insert("script_comments", {
+    organizationId: script.organizationId,
+    scriptId: script._id,
+    clientId: script.clientId,
+    authorEmail: params.authorEmail,
+    body: params.body,
+    kind: params.kind,
+    anchor: params.anchor,
+    textAnchor: params.textAnchor,
+    parentCommentId: params.parentCommentId,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Reviewer emails are stored lowercased and trimmed, so compare the caller the same way
+ */
+async function isAssignedReviewer(ctx: MutationCtx, script: Doc<"scripts">, email: string) {
+  const callerEmail = (await getCallerEmail(ctx, email)).toLowerCase().trim();
+  return script.reviewerEmail === callerEmail;
+}
+
+/**
+ * Review state for a script: status, reviewer, sections comments can anchor to,
+ * the comments themselves, and the organization members who can review.
+ */
+export const getReviewForScript = query({
+  args: { scriptId: v.id("scripts"), email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    let script: Doc<"scripts">;
+    try {
+      script = await getScriptForMember(ctx, args.scriptId, args.email);
+    } catch {
+      return null;
+    }
+    const comments = await ctx.db
+      .query("script_comments")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    const members = await ctx.db
+      .query("organization_members")
+      .withIndex("by_organization", (q) => q.eq("organizationId", script.organizationId))
+      .collect();
+
+    return {
+      status: script.status,
+      reviewerEmail: script.reviewerEmail ?? null,
+      reviewRequestedByEmail: script.reviewRequestedByEmail ?? null,
+      reviewRequestedAt: script.reviewRequestedAt ?? null,
+      approvedByEmail: script.approvedByEmail ?? null,
+      approvedAt: script.approvedAt ?? null,
+      deliveredAt: script.deliveredAt ?? null,
+      driveDocUrl: script.driveDocUrl ?? null,
+      sections: getScriptSections(script.contentHtml),
+      comments,
+      members: members.map((m) => ({ email: m.email, role: m.role })),
+    };
+  },
+});
+
+/**
+ * Latest script status per client in the user's organization, for status badges
+ */
+export const getLatestScriptStatusesForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "scripts.read", args.email);
+    const clients = await ctx.db
+      .query("clients")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+
+    const statuses = [];
+    for (const client of clients) {
+      const latest = await ctx.db
+        .query("scripts")
+        .withIndex("by_client", (q) => q.eq("clientId", client._id))
+        .order("desc")
+        .first();
+      if (!latest) continue;
+      statuses.push({
+        clientId: client._id,
+        onboardingResponseId: client.onboardingResponseId ?? null,
+        scriptId: latest._id,
+        status: latest.status,
+        reviewerEmail: latest.reviewerEmail ?? null,
+      });
+    }
+    return statuses;
+  },
+});
+
+/**
+ * Send a draft for review by an organization member (or reassign the reviewer)
+ */
+export const requestReview = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    reviewerEmail: v.string(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    if (script.status !== "draft" && script.status !== "in_review") {
+      throw new Error("Only draft scripts can be sent for review");
+    }
+    const reviewerEmail = args.reviewerEmail.toLowerCase().trim();
+    if (!(await getOrganizationMembership(ctx, script.organizationId, reviewerEmail))) {
+      throw new Error("Reviewer must be a member of the organization");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(script._id, {
+      status: "in_review",
+      reviewerEmail,
+      reviewRequestedByEmail: args.email,
+      reviewRequestedAt: now,
+      updatedAt: now,
+    });
+    return script._id;
+  },
+});
+
+/**
+ * Approve a script in review. Only the assigned reviewer may approve.
+ */
+export const approveScript = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    body: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    if (script.status !== "in_review") {
+      throw new Error("Only scripts in review can be approved");
+    }
+    if (!(await isAssignedReviewer(ctx, script, args.email))) {
+      throw new Error("Only the assigned reviewer can approve this script");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(script._id, {
+      status: "approved",
+      approvedByEmail: args.email,
+      approvedAt: now,
+      updatedAt: now,
+    });
+    await insertComment(ctx, script, {
+      authorEmail: args.email,
+      body: args.body?.trim() || "Approved",
+      kind: "approval",
+    });
+    return script._id;
+  },
+});
+
+/**
+ * Send a script in review back to draft with the reviewer's feedback
+ */
+export const requestChanges = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    body: v.string(),
+    anchor: v.optional(scriptSectionAnchorValidator),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    if (script.status !== "in_review") {
+      throw new Error("Only scripts in review can have changes requested");
+    }
+    if (!(await isAssignedReviewer(ctx, script, args.email))) {
+      throw new Error("Only the assigned reviewer can request changes");
+    }
+    const body = args.body.trim();
+    if (!body) {
+      throw new Error("Describe the changes you need");
+    }
+
+    await ctx.db.patch(script._id, {
+      status: "draft",
+      updatedAt: Date.now(),
+    });
+    await insertComment(ctx, script, {
+      authorEmail: args.email,
+      body,
+      kind: "changes_requested",
+      anchor: args.anchor,
+    });
+    return script._id;
+  },
+});
+
+/**
+ * Add a comment, optionally anchored to a section or a span of text.
+ * Replies join the thread of the comment they answer and carry no anchor.
+ */
+export const addComment = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    body: v.string(),
+    anchor: v.optional(scriptSectionAnchorValidator),
+    textAnchor: v.optional(textAnchorValidator),
+    parentCommentId: v.optional(v.id("script_comments")),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    const body = args.body.trim();
+    if (!body) {
+      throw new Error("Comment cannot be empty");
+    }
+
+    if (args.parentCommentId) {
+      const parent = await ctx.db.get(args.parentCommentId);
+      if (!parent || parent.scriptId !== script._id) {
+        throw new Error("Comment not found");
+      }
+      return await insertComment(ctx, script, {
+        authorEmail: args.email,
+        body,
+        kind: "comment",
+        // Threads are one level deep: replying to a reply answers its root
+        parentCommentId: parent.parentCommentId ?? parent._id,
+      });
+    }
+
+    if (args.textAnchor && !args.textAnchor.quote.trim()) {
+      throw new Error("Select some text to comment on");
+    }
+    return await insertComment(ctx, script, {
+      authorEmail: args.email,
+      body,
+      kind: "comment",
+      anchor: args.anchor,
+      textAnchor: args.textAnchor,
+    });
+  },
+});
+
+/**
+ * Move a comment's text anchor after the script was edited around it
+ */
+export const updateCommentAnchor = mutation({
+  args: {
+    commentId: v.id("script_comments"),
+    email: v.string(),
+    textAnchor: textAnchorValidator,
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const comment = await ctx.db.get(args.commentId);
+    if (!comment || !comment.textAnchor) {
+      throw new Error("Comment not found");
+    }
+    await getScriptForMember(ctx, comment.scriptId, args.email, "scripts.write");
+    await ctx.db.patch(comment._id, {
+      textAnchor: args.textAnchor,
+      updatedAt: Date.now(),
+    });
+    return comment._id;
+  },
+});
+
+/**
+ * Mark a comment thread resolved, or reopen it
+ */
+export const setCommentResolved = mutation({
+  args: {
+    commentId: v.id("script_comments"),
+    email: v.string(),
+    resolved: v.boolean(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const comment = await ctx.db.get(args.commentId);
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+    if (comment.parentCommentId) {
+      throw new Error("Resolve the thread instead of a reply");
+    }
+    await getScriptForMember(ctx, comment.scriptId, args.email, "scripts.write");
+    const now = Date.now();
+    await ctx.db.patch(comment._id, {
+      resolvedAt: args.resolved ? now : undefined,
+      resolvedByEmail: args.resolved ? args.email : undefined,
+      updatedAt: now,
+    });
+    return comment._id;
+  },
+});
+
+/**
+ * Whether a script may be exported, with the reason when it may not
+ */
+export const getExportEligibility = query({
+  args: { scriptId: v.id("scripts"), email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    let script: Doc<"scripts">;
+    try {
+      script = await getScriptForMember(ctx, args.scriptId, args.email);
+    } catch {
+      return { allowed: false, code: "not_found" as const, reason: "Script not found or access denied", script: null };
+    }
+    if (!isScriptApproved(script.status)) {
+      return { allowed: false, code: "not_approved" as const, reason: "Script must be approved before it can be exported", script: null };
+    }
+    return {
+      allowed: true,
+      code: null,
+      reason: null,
+      script: { title: script.title, contentHtml: script.contentHtml, clientId: script.clientId, createdAt: script.createdAt },
+    };
+  },
+});
+
+/**
+ * Record that an approved script was exported to Google Drive
+ */
+export const markDelivered = mutation({
+  args: {
+    scriptId: v.id("scripts"),
+    email: v.string(),
+    driveDocUrl: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const script = await getScriptForMember(ctx, args.scriptId, args.email, "scripts.write");
+    if (!isScriptApproved(script.status)) {
+      throw new Error("Script must be approved before it can be delivered");
+    }
+    const now = Date.now();
+    await ctx.db.patch(script._id, {
+      status: "delivered",
+      deliveredAt: now,
+      ...(args.driveDocUrl !== undefined && { driveDocUrl: args.driveDocUrl }),
+      updatedAt: now,
+    });
+    return script._id;
+  },
+});
@@ -0,0 +1,57 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getScriptForMember } from "./utils/scriptAccess";
+import { replaceScriptContent } from "./utils/scriptCollab";
+import { recordScriptRevision } from "./utils/scriptRevisions";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+
+/**
+ * List a script's revisions, newest first
+ */
+export const listRevisionsForScript = query({
+  args: {
+    scriptId: v.id("scripts"),
+    ownerEmail: v.string(),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    await getScriptForMember(ctx, args.scriptId, args.ownerEmail);
+
+    return await ctx.db
+      .query("script_revisions")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Restore a previous revision.
+ * The script's content is replaced and a new "restore" revision is recorded,
+ * so the restore itself shows up in (and can be undone from) the history.
+ */
+export const restoreRevision = mutation({
+  args: {
+    revisionId: v.id("script_revisions"),
+    ownerEmail: v.string(),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+    const script = await getScriptForMember(ctx, revision.scriptId, args.ownerEmail, "scripts.write");
+
+    const newRevisionId = await recordScriptRevision(ctx, script, {
+      contentHtml: revision.contentHtml,
+      source: "restore",
+      authorEmail: args.ownerEmail,
+      restoredFromRevisionId: revision._id,
+    });
+
+    // Open editors reload the restored content
+    await replaceScriptContent(ctx, script, revision.contentHtml);
+    await scheduleSearchIndexing(ctx, "script", script._id);
+
+    return newRevisionId;
+  },
+});
@@ -1,6 +1,30 @@
-import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { mutation, query, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import { getOrganizationIdForEmail } from "./utils/organizations";
+import { authorize } from "./utils/authorization";
+
+async function loadSettingsForEmail(ctx: QueryCtx, email: string) {
+  const organizationId = await getOrganizationIdForEmail(ctx, email);
+  if (!organizationId) {
+    return await ctx.db
+      .query("script_settings")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+  }
+  let settings = await ctx.db
+    .query("script_settings")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .unique();
+
+  if (!settings) {
+    settings = await ctx.db
+      .query("script_settings")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .unique();
+  }
+
+  return settings;
+}
 
 /**
  * Get script generation settings for a user
@@ -8,26 +32,18 @@ import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./
 export const getSettingsForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return await ctx.db
-        .query("script_settings")
-        .withIndex("by_email", (q) => q.eq("email", args.email))
-        .unique();
-    }
-    let settings = await ctx.db
-      .query("script_settings")
-      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
-      .unique();
-
-    if (!settings) {
-      settings = await ctx.db
-        .query("script_settings")
-        .withIndex("by_email", (q) => q.eq("email", args.email))
-        .unique();
-    }
+    await authorize(ctx, "organization.read", args.email);
+    return await loadSettingsForEmail(ctx, args.email);
+  },
+});
 
-    return settings;
+/**
+ * Get script generation settings without an access check, for scheduled jobs
+ */
+export const getSettingsForEmailInternal = internalQuery({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    return await loadSettingsForEmail(ctx, args.email);
   },
 });
 
@@ -41,10 +57,12 @@ export const updateSettings = mutation({
     defaultThinkingEffort: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
     autoGenerateOnSync: v.optional(v.boolean()),
     publicAppUrl: v.optional(v.string()),
+    contextTranscriptLimit: v.optional(v.number()),
+    contextTokenBudget: v.optional(v.number()),
     cronJobTemplate: v.optional(v.array(v.number())), // e.g., [15] for 15th of every month, [5, 20] for 5th and 20th
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId } = await authorize(ctx, "settings.manage", args.email);
     const existing = await ctx.db
       .query("script_settings")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
@@ -58,6 +76,8 @@ export const updateSettings = mutation({
         ...(args.defaultThinkingEffort !== undefined && { defaultThinkingEffort: args.defaultThinkingEffort }),
         ...(args.autoGenerateOnSync !== undefined && { autoGenerateOnSync: args.autoGenerateOnSync }),
         ...(args.publicAppUrl !== undefined && { publicAppUrl: args.publicAppUrl }),
+        ...(args.contextTranscriptLimit !== undefined && { contextTranscriptLimit: args.contextTranscriptLimit }),
+        ...(args.contextTokenBudget !== undefined && { contextTokenBudget: args.contextTokenBudget }),
         ...(args.cronJobTemplate !== undefined && { cronJobTemplate: args.cronJobTemplate }),
         updatedAt: now,
       });
@@ -71,6 +91,8 @@ export const updateSettings = mutation({
       defaultThinkingEffort: args.defaultThinkingEffort,
       autoGenerateOnSync: args.autoGenerateOnSync,
       publicAppUrl: args.publicAppUrl,
+      contextTranscriptLimit: args.contextTranscriptLimit,
+      contextTokenBudget: args.contextTokenBudget,
       cronJobTemplate: args.cronJobTemplate,
       createdAt: now,
       updatedAt: now,
@@ -1,6 +1,14 @@
 import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import type { Id } from "./_generated/dataModel";
+import { scriptContextSourceValidator } from "./utils/scriptContext";
+import { recordScriptRevision } from "./utils/scriptRevisions";
+import { statusAfterContentEdit } from "./utils/scriptReview";
+import { getScriptForMember } from "./utils/scriptAccess";
+import { authorize, getAuthorizedRecord } from "./utils/authorization";
+import { replaceScriptContent, STEP_HISTORY } from "./utils/scriptCollab";
+import { notifyOrganization } from "./utils/notificationDispatch";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
 
 /**
  * Create a new script
@@ -18,17 +26,15 @@ export const createScript = mutation({
     }),
     model: v.optional(v.string()),
     thinkingEffort: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
-    status: v.optional(v.union(v.literal("draft"), v.literal("final"))),
+    contextSources: v.optional(v.array(scriptContextSourceValidator)),
+    status: v.optional(v.literal("draft")), // New scripts always start as drafts; see scriptReview.ts
   },
   handler: async (ctx: MutationCtx, args) => {
     // Get organizationId from client
-    const client = await ctx.db.get(args.clientId);
-    if (!client || !client.organizationId) {
-      throw new Error("Client not found or missing organization");
-    }
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "scripts.write", args.ownerEmail);
     
     const now = Date.now();
-    return await ctx.db.insert("scripts", {
+    const scriptId = await ctx.db.insert("scripts", {
       organizationId: client.organizationId,
       ownerEmail: args.ownerEmail,
       clientId: args.clientId,
@@ -37,35 +43,96 @@ export const createScript = mutation({
       source: args.source,
       model: args.model,
       thinkingEffort: args.thinkingEffort,
-      status: args.status || "draft",
+      contextSources: args.contextSources,
+      status: "draft",
       createdAt: now,
       updatedAt: now,
     });
+
+    const script = await ctx.db.get(scriptId);
+    if (script) {
+      await recordScriptRevision(ctx, script, {
+        contentHtml: args.contentHtml,
+        source: "generation",
+        authorEmail: args.ownerEmail,
+      });
+    }
+    await scheduleSearchIndexing(ctx, "script", scriptId);
+
+    await notifyOrganization(ctx, {
+      organizationId: client.organizationId,
+      eventType: "script_generated",
+      title: `New script for ${client.businessName}`,
+      body: `"${args.title}" is ready for review.`,
+      link: `/dashboard/clients/${args.clientId}`,
+      recipientEmails: [args.ownerEmail],
+      subject: { scriptId, clientId: args.clientId },
+    });
+    return scriptId;
   },
 });
 
 /**
- * Update script content
+ * Update script content and record a revision.
+ * `source` distinguishes editor saves ("manual", the default) from AI edits.
+ * Status changes go through the review workflow in scriptReview.ts; changing
+ * an approved script's content sends it back to draft.
+ *
+ * The collaborative editor passes the step `version` its HTML reflects, and
+ * the save is a snapshot (see convex/utils/scriptCollab.ts); older snapshots
+ * are ignored. Without a version the content replaces the script wholesale and
+ * open editors reload it.
  */
 export const updateScriptContent = mutation({
   args: {
     scriptId: v.id("scripts"),
     ownerEmail: v.string(),
     contentHtml: v.string(),
-    status: v.optional(v.union(v.literal("draft"), v.literal("final"))),
+    source: v.optional(v.union(v.literal("manual"), v.literal("ai_edit"))),
+    version: v.optional(v.number()),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const script = await ctx.db.get(args.scriptId);
-    if (!script || script.ownerEmail !== args.ownerEmail) {
-      throw new Error("Script not found or access denied");
+    const script = await getScriptForMember(ctx, args.scriptId, args.ownerEmail, "scripts.write");
+
+    if (args.version !== undefined) {
+      if (args.version > (script.collabVersion ?? 0)) {
+        throw new Error("Snapshot is ahead of the accepted edits");
+      }
+      if (args.version < (script.contentVersion ?? 0)) {
+        return args.scriptId;
+      }
     }
-    
+
+    await recordScriptRevision(ctx, script, {
+      contentHtml: args.contentHtml,
+      source: args.source ?? "manual",
+      authorEmail: args.ownerEmail,
+    });
+    await scheduleSearchIndexing(ctx, "script", args.scriptId);
+
+    if (args.version === undefined) {
+      await replaceScriptContent(ctx, script, args.contentHtml);
+      return args.scriptId;
+    }
+
     await ctx.db.patch(args.scriptId, {
       contentHtml: args.contentHtml,
+      contentVersion: args.version,
       updatedAt: Date.now(),
-      ...(args.status !== undefined && { status: args.status }),
+      ...(args.contentHtml !== script.contentHtml && { status: statusAfterContentEdit(script.status) }),
     });
-    
+
+    // Drop steps no editor should still need
+    const staleSteps = await ctx.db
+      .query("script_steps")
+      .withIndex("by_script_version", (q) =>
+        q.eq("scriptId", args.scriptId).lte("version", args.version! - STEP_HISTORY)
+      )
+      .take(100);
+    for (const step of staleSteps) {
+      await ctx.db.delete(step._id);
+    }
+
     return args.scriptId;
   },
 });
@@ -79,6 +146,7 @@ export const getScriptsForClient = query({
     ownerEmail: v.string(),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "scripts.read", args.ownerEmail);
     // Verify client ownership
     const client = await ctx.db.get(args.clientId);
     if (!client || client.ownerEmail !== args.ownerEmail) {
@@ -102,6 +170,7 @@ export const getScriptById = query({
     ownerEmail: v.string(),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "scripts.read", args.ownerEmail);
     const script = await ctx.db.get(args.scriptId);
     if (!script || script.ownerEmail !== args.ownerEmail) {
       return null;
@@ -119,6 +188,7 @@ export const getScriptByResponseId = query({
     ownerEmail: v.string(),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "scripts.read", args.ownerEmail);
     const scripts = await ctx.db
       .query("scripts")
       .withIndex("by_source_response", (q) => q.eq("source.responseId", args.responseId))
@@ -130,7 +200,7 @@ export const getScriptByResponseId = query({
 });
 
 /**
- * Delete a script
+ * Delete a script (admins only)
  */
 export const deleteScript = mutation({
   args: {
@@ -138,12 +208,34 @@ export const deleteScript = mutation({
     ownerEmail: v.string(),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const script = await ctx.db.get(args.scriptId);
-    if (!script || script.ownerEmail !== args.ownerEmail) {
-      throw new Error("Script not found or access denied");
+    await getScriptForMember(ctx, args.scriptId, args.ownerEmail, "scripts.delete");
+
+    const revisions = await ctx.db
+      .query("script_revisions")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    for (const revision of revisions) {
+      await ctx.db.delete(revision._id);
     }
-    
+
+    const comments = await ctx.db
+      .query("script_comments")
+      .withIndex("by_script", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    for (const comment of comments) {
+      await ctx.db.delete(comment._id);
+    }
+
+    const steps = await ctx.db
+      .query("script_steps")
+      .withIndex("by_script_version", (q) => q.eq("scriptId", args.scriptId))
+      .collect();
+    for (const step of steps) {
+      await ctx.db.delete(step._id);
+    }
+
     await ctx.db.delete(args.scriptId);
+    await scheduleSearchIndexing(ctx, "script", args.scriptId);
     return args.scriptId;
   },
 });
@@ -157,6 +249,7 @@ export const getScriptCountForClient = query({
     ownerEmail: v.string(),
   },
   handler: async (ctx: QueryCtx, args) => {
+    await authorize(ctx, "scripts.read", args.ownerEmail);
     const client = await ctx.db.get(args.clientId);
     if (!client || client.ownerEmail !== args.ownerEmail) {
       return 0;
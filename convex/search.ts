@@ -0,0 +1,299 @@
+import { mutation, query, internalMutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, type ObjectType } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { authorize } from "./utils/authorization";
+import {
+  SEARCH_SOURCES,
+  buildSnippet,
+  getSearchResultHref,
+  searchFiltersValidator,
+  searchSourceValidator,
+  type SearchResult,
+  type SearchSource,
+} from "./utils/search";
+import { indexSearchSource } from "./utils/searchIndexing";
+
+// Chunks fetched per search before grouping them by record
+const CANDIDATE_LIMIT = 100;
+const RESULT_LIMIT = 20;
+// Records re-indexed per rebuild step; transcripts can be dozens of chunks each
+const REBUILD_PAGE_SIZE = 10;
+// Chunks embedded per OpenRouter request
+const EMBEDDING_BATCH_SIZE = 64;
+
+type SearchFilters = ObjectType<typeof searchFiltersValidator>;
+
+/**
+ * One result per record, best-ranked chunk first, with snippets and client names
+ */
+async function buildSearchResults(
+  ctx: QueryCtx,
+  chunks: Array<{ chunk: Doc<"search_documents">; score?: number }>,
+  searchQuery: string,
+  filters: SearchFilters
+): Promise<SearchResult[]> {
+  const seen = new Set<string>();
+  const results: SearchResult[] = [];
+  const clientNames = new Map<Id<"clients">, string | null>();
+
+  for (const { chunk, score } of chunks) {
+    if (filters.source && chunk.source !== filters.source) continue;
+    if (filters.clientId && chunk.clientId !== filters.clientId) continue;
+    if (filters.from !== undefined && chunk.date < filters.from) continue;
+    if (filters.to !== undefined && chunk.date > filters.to) continue;
+
+    const key = `${chunk.source}:${chunk.sourceId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    let clientName: string | null = null;
+    if (chunk.clientId) {
+      if (!clientNames.has(chunk.clientId)) {
+        const client = await ctx.db.get(chunk.clientId);
+        clientNames.set(chunk.clientId, client?.businessName ?? null);
+      }
+      clientName = clientNames.get(chunk.clientId) ?? null;
+    }
+
+    results.push({
+      source: chunk.source,
+      sourceId: chunk.sourceId,
+      title: chunk.title,
+      clientId: chunk.clientId ?? null,
+      clientName,
+      date: chunk.date,
+      snippet: buildSnippet(chunk.text, searchQuery),
+      href: getSearchResultHref(chunk.source, chunk.sourceKey, chunk.clientId ?? null),
+      score,
+    });
+    if (results.length >= RESULT_LIMIT) break;
+  }
+  return results;
+}
+
+/**
+ * Full-text search over the organization's transcripts, onboarding responses,
+ * scripts and client notes, ranked by relevance
+ */
+export const searchForEmail = query({
+  args: { email: v.string(), query: v.string(), ...searchFiltersValidator },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
+    const searchQuery = args.query.trim();
+    if (!searchQuery) return [];
+
+    const chunks = await ctx.db
+      .query("search_documents")
+      .withSearchIndex("search_text", (q) => {
+        const search = q.search("text", searchQuery).eq("organizationId", organizationId);
+        if (args.source && args.clientId) return search.eq("source", args.source).eq("clientId", args.clientId);
+        if (args.source) return search.eq("source", args.source);
+        if (args.clientId) return search.eq("clientId", args.clientId);
+        return search;
+      })
+      .take(CANDIDATE_LIMIT);
+
+    return await buildSearchResults(
+      ctx,
+      chunks.map((chunk) => ({ chunk })),
+      searchQuery,
+      args
+    );
+  },
+});
+
+/**
+ * Organization and semantic-search flag for the semanticSearch action, checked
+ * as the caller
+ */
+export const getSemanticSearchContext = internalQuery({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
+    const organization = await ctx.db.get(organizationId);
+    return { organizationId, enabled: organization?.semanticSearchEnabled === true };
+  },
+});
+
+/**
+ * Results for vector matches, in the order they were found
+ */
+export const getResultsForMatches = internalQuery({
+  args: {
+    organizationId: v.id("organizations"),
+    matches: v.array(v.object({ chunkId: v.id("search_documents"), score: v.number() })),
+    query: v.string(),
+    ...searchFiltersValidator,
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const chunks: Array<{ chunk: Doc<"search_documents">; score: number }> = [];
+    for (const match of args.matches) {
+      const chunk = await ctx.db.get(match.chunkId);
+      if (chunk && chunk.organizationId === args.organizationId) {
+        chunks.push({ chunk, score: match.score });
+      }
+    }
+    return await buildSearchResults(ctx, chunks, args.query, args);
+  },
+});
+
+export const getSearchSettingsForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    const organization = await ctx.db.get(organizationId);
+    const pending = await ctx.db
+      .query("search_documents")
+      .withIndex("by_organization_embedding", (q) =>
+        q.eq("organizationId", organizationId).eq("embedding", undefined)
+      )
+      .take(1000);
+    return {
+      semanticSearchEnabled: organization?.semanticSearchEnabled === true,
+      // Chunks still waiting for an embedding (capped at 1000)
+      pendingEmbeddings: pending.length,
+    };
+  },
+});
+
+/**
+ * Turn semantic search on or off. Turning it on embeds everything indexed so
+ * far with the organization's OpenRouter key.
+ */
+export const setSemanticSearchForEmail = mutation({
+  args: { email: v.string(), enabled: v.boolean() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.update", args.email);
+    await ctx.db.patch(organizationId, { semanticSearchEnabled: args.enabled, updatedAt: Date.now() });
+    if (args.enabled) {
+      await ctx.scheduler.runAfter(0, internal.searchActions.embedPendingChunks, { organizationId });
+    }
+    return args.enabled;
+  },
+});
+
+/**
+ * Re-index every record of the organization, for data written before search
+ * existed or through paths that don't index
+ */
+export const rebuildIndexForEmail = mutation({
+  args: { email: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.update", args.email);
+    await ctx.scheduler.runAfter(0, internal.search.rebuildIndexPage, {
+      organizationId,
+      source: SEARCH_SOURCES[0],
+      cursor: null,
+    });
+  },
+});
+
+async function sourceIdsPage(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">,
+  source: SearchSource,
+  cursor: string | null
+) {
+  const paginationOpts = { numItems: REBUILD_PAGE_SIZE, cursor };
+  switch (source) {
+    case "transcript": {
+      const page = await ctx.db
+        .query("fireflies_transcripts")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .paginate(paginationOpts);
+      return { ...page, ids: page.page.map((record) => record._id as string) };
+    }
+    case "response": {
+      const page = await ctx.db
+        .query("typeform_responses")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .paginate(paginationOpts);
+      return { ...page, ids: page.page.map((record) => record._id as string) };
+    }
+    case "script": {
+      const page = await ctx.db
+        .query("scripts")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .paginate(paginationOpts);
+      return { ...page, ids: page.page.map((record) => record._id as string) };
+    }
+    case "client_note": {
+      const page = await ctx.db
+        .query("clients")
+        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+        .paginate(paginationOpts);
+      return { ...page, ids: page.page.map((record) => record._id as string) };
+    }
+  }
+}
+
+export const rebuildIndexPage = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    source: searchSourceValidator,
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { ids, isDone, continueCursor } = await sourceIdsPage(ctx, args.organizationId, args.source, args.cursor);
+    for (const sourceId of ids) {
+      await indexSearchSource(ctx, args.source, sourceId);
+    }
+
+    const nextSource = SEARCH_SOURCES[SEARCH_SOURCES.indexOf(args.source) + 1];
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.rebuildIndexPage, { ...args, cursor: continueCursor });
+    } else if (nextSource) {
+      await ctx.scheduler.runAfter(0, internal.search.rebuildIndexPage, {
+        organizationId: args.organizationId,
+        source: nextSource,
+        cursor: null,
+      });
+    }
+  },
+});
+
+export const indexSource = internalMutation({
+  args: { source: searchSourceValidator, sourceId: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    return await indexSearchSource(ctx, args.source, args.sourceId);
+  },
+});
+
+export const getChunksToEmbed = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: QueryCtx, args) => {
+    // Stops the embedding loop once semantic search is turned off
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization?.semanticSearchEnabled) return [];
+
+    const chunks = await ctx.db
+      .query("search_documents")
+      .withIndex("by_organization_embedding", (q) =>
+        q.eq("organizationId", args.organizationId).eq("embedding", undefined)
+      )
+      .take(EMBEDDING_BATCH_SIZE);
+    return chunks.map((chunk) => ({ chunkId: chunk._id, text: chunk.text }));
+  },
+});
+
+export const storeEmbeddings = internalMutation({
+  args: {
+    embeddings: v.array(
+      v.object({
+        chunkId: v.id("search_documents"),
+        text: v.string(), // The text that was embedded
+        embedding: v.array(v.float64()),
+      })
+    ),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    for (const { chunkId, text, embedding } of args.embeddings) {
+      // The chunk may have been rewritten or removed while it was being embedded
+      const chunk = await ctx.db.get(chunkId);
+      if (chunk?.text === text) {
+        await ctx.db.patch(chunkId, { embedding });
+      }
+    }
+  },
+});
@@ -0,0 +1,100 @@
+import { action, internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getCredentialForOrganization } from "./utils/credentials";
+import { openRouterRequest } from "./utils/openrouterClient";
+import { EMBEDDING_MODEL, searchFiltersValidator, type SearchResult } from "./utils/search";
+
+// Nearest chunks fetched before filtering and grouping by record
+const VECTOR_CANDIDATE_LIMIT = 128;
+
+async function fetchEmbeddings(
+  ctx: ActionCtx,
+  organizationId: Id<"organizations">,
+  apiKey: string,
+  inputs: string[]
+): Promise<number[][]> {
+  const data = await openRouterRequest<{ data?: Array<{ embedding: number[]; index: number }> }>(
+    ctx,
+    apiKey,
+    "embeddings",
+    { model: EMBEDDING_MODEL, input: inputs },
+    { organizationId, feature: "search_embeddings" }
+  );
+  if (!data.data || data.data.length !== inputs.length) {
+    throw new Error("OpenRouter embeddings response is missing vectors");
+  }
+  return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+}
+
+async function getApiKey(ctx: ActionCtx, organizationId: Id<"organizations">): Promise<string | null> {
+  const apiKey = await getCredentialForOrganization(ctx, organizationId, "openrouter_api_key");
+  // Fallback to environment variable for backwards compatibility
+  return apiKey || process.env.OPENROUTER_API_KEY || null;
+}
+
+/**
+ * Embed the organization's chunks that don't have an embedding yet, one batch
+ * per run, rescheduling until none are left
+ */
+export const embedPendingChunks = internalAction({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: ActionCtx, args): Promise<{ embedded: number }> => {
+    const apiKey = await getApiKey(ctx, args.organizationId);
+    if (!apiKey) {
+      console.warn("[search] Semantic search is on but no OpenRouter API key is configured", args.organizationId);
+      return { embedded: 0 };
+    }
+
+    const chunks = await ctx.runQuery(internal.search.getChunksToEmbed, { organizationId: args.organizationId });
+    if (chunks.length === 0) {
+      return { embedded: 0 };
+    }
+
+    const embeddings = await fetchEmbeddings(ctx, args.organizationId, apiKey, chunks.map((chunk) => chunk.text));
+    await ctx.runMutation(internal.search.storeEmbeddings, {
+      embeddings: chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.searchActions.embedPendingChunks, args);
+    return { embedded: chunks.length };
+  },
+});
+
+/**
+ * Search by meaning: embed the query and find the nearest chunks. Only
+ * records embedded so far are found.
+ */
+export const semanticSearch = action({
+  args: { email: v.string(), query: v.string(), ...searchFiltersValidator },
+  handler: async (ctx: ActionCtx, args): Promise<SearchResult[]> => {
+    const { organizationId, enabled } = await ctx.runQuery(internal.search.getSemanticSearchContext, {
+      email: args.email,
+    });
+    if (!enabled) {
+      throw new Error("Semantic search is turned off. Turn it on in Settings → Search.");
+    }
+    const searchQuery = args.query.trim();
+    if (!searchQuery) return [];
+
+    const apiKey = await getApiKey(ctx, organizationId);
+    if (!apiKey) {
+      throw new Error("OpenRouter API key not configured. Please set it in Settings → OpenRouter.");
+    }
+
+    const [vector] = await fetchEmbeddings(ctx, organizationId, apiKey, [searchQuery]);
+    const matches = await ctx.vectorSearch("search_documents", "by_embedding", {
+      vector,
+      limit: VECTOR_CANDIDATE_LIMIT,
+      filter: (q) => q.eq("organizationId", organizationId),
+    });
+
+    const { email: _email, ...filters } = args;
+    return await ctx.runQuery(internal.search.getResultsForMatches, {
+      ...filters,
+      organizationId,
+      matches: matches.map((match) => ({ chunkId: match._id, score: match._score })),
+    });
+  },
+});
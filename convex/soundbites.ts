@@ -0,0 +1,100 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { authorizeForOrganization, getAuthorizedRecord } from "./utils/authorization";
+import { getSoundbitesForClient as listSoundbitesForClient } from "./utils/soundbites";
+
+// Longer selections are closer to a transcript excerpt than a quote
+const MAX_QUOTE_LENGTH = 2000;
+
+/**
+ * Soundbites saved from the client's linked transcripts
+ */
+export const getSoundbitesForClient = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "records.read");
+    return await listSoundbitesForClient(ctx, args.clientId);
+  },
+});
+
+/**
+ * Soundbites saved from one transcript, in transcript order
+ */
+export const getSoundbitesForTranscript = query({
+  args: { transcriptId: v.id("fireflies_transcripts") },
+  handler: async (ctx: QueryCtx, args) => {
+    const transcript = await getAuthorizedRecord(ctx, await ctx.db.get(args.transcriptId), "records.read");
+    const soundbites = await ctx.db
+      .query("transcript_soundbites")
+      .withIndex("by_transcript", (q) => q.eq("transcriptId", transcript._id))
+      .collect();
+    return soundbites.sort((a, b) => a.startIndex - b.startIndex);
+  },
+});
+
+/**
+ * Save a quote highlighted in a linked transcript. The sentence range gives
+ * the quote its speaker and timestamps.
+ */
+export const createSoundbite = mutation({
+  args: {
+    transcriptId: v.id("fireflies_transcripts"),
+    startIndex: v.number(),
+    endIndex: v.number(),
+    quote: v.string(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await ctx.db.get(args.transcriptId);
+    if (!transcript) {
+      throw new Error("Not found or access denied");
+    }
+    const { email } = await authorizeForOrganization(ctx, transcript.organizationId, "records.write");
+    if (!transcript.clientId) {
+      throw new Error("Link this transcript to a client before saving soundbites");
+    }
+
+    const sentences = transcript.sentences ?? [];
+    if (
+      !Number.isInteger(args.startIndex) ||
+      !Number.isInteger(args.endIndex) ||
+      args.startIndex < 0 ||
+      args.endIndex < args.startIndex ||
+      args.endIndex >= sentences.length
+    ) {
+      throw new Error("The highlighted range is not part of this transcript");
+    }
+    const quote = args.quote.replace(/\s+/g, " ").trim();
+    if (!quote) {
+      throw new Error("Highlight some text to save as a soundbite");
+    }
+    if (quote.length > MAX_QUOTE_LENGTH) {
+      throw new Error(`Soundbites can be at most ${MAX_QUOTE_LENGTH} characters`);
+    }
+
+    const range = sentences.slice(args.startIndex, args.endIndex + 1);
+    const speakers = [...new Set(range.map((sentence) => sentence.speakerName).filter(Boolean))];
+    return await ctx.db.insert("transcript_soundbites", {
+      organizationId: transcript.organizationId,
+      transcriptId: transcript._id,
+      startIndex: args.startIndex,
+      endIndex: args.endIndex,
+      quote,
+      speakerName: speakers.length > 0 ? speakers.join(", ") : undefined,
+      startTime: range[0].startTime,
+      endTime: range[range.length - 1].endTime,
+      note: args.note?.trim() || undefined,
+      createdByEmail: email,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const deleteSoundbite = mutation({
+  args: { soundbiteId: v.id("transcript_soundbites") },
+  handler: async (ctx: MutationCtx, args) => {
+    const soundbite = await getAuthorizedRecord(ctx, await ctx.db.get(args.soundbiteId), "records.write");
+    await ctx.db.delete(soundbite._id);
+    return soundbite._id;
+  },
+});
@@ -1,6 +1,6 @@
 import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import { authorize } from "./utils/authorization";
 
 const DEFAULT_SYSTEM_PROMPT = `You are an expert video script writer creating personalized outreach scripts for businesses.
 
@@ -21,14 +21,11 @@ const HTML_FORMATTING_INSTRUCTION = `\n\nFormat the response as clean HTML witho
 export const getSystemPromptForEditing = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    let prompt = null;
-    if (organizationId) {
-      prompt = await ctx.db
-        .query("system_prompts")
-        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
-        .unique();
-    }
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    let prompt = await ctx.db
+      .query("system_prompts")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
 
     if (!prompt) {
       // Fallback for legacy email-scoped prompts
@@ -55,14 +52,11 @@ export const getSystemPromptForEditing = query({
 export const getSystemPrompt = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    let prompt = null;
-    if (organizationId) {
-      prompt = await ctx.db
-        .query("system_prompts")
-        .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
-        .unique();
-    }
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    let prompt = await ctx.db
+      .query("system_prompts")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
 
     if (!prompt) {
       prompt = await ctx.db
@@ -101,7 +95,7 @@ export const updateSystemPrompt = mutation({
       cleanedPrompt = cleanedPrompt.replace(new RegExp(`\\s*${formattingInstruction.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'g'), '').trim();
     }
 
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId } = await authorize(ctx, "settings.manage", args.email);
     const existing = await ctx.db
       .query("system_prompts")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
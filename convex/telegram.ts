@@ -0,0 +1,200 @@
+import { mutation, query, internalMutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { authorize } from "./utils/authorization";
+import { normalizeTelegramChatId } from "./utils/telegram";
+import { generateWebhookToken } from "./utils/webhookTokens";
+
+/**
+ * The organization's webhook secret_token, created on first use. Every
+ * organization shares the one bot and Telegram sends a single secret with
+ * all of its updates, so a new organization takes the secret the webhook is
+ * already registered with.
+ */
+async function ensureWebhookSecret(ctx: MutationCtx, organizationId: Id<"organizations">) {
+  const existing = await ctx.db
+    .query("telegram_webhook_secrets")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .unique();
+  if (existing) {
+    return existing;
+  }
+  const registered = await ctx.db.query("telegram_webhook_secrets").first();
+  const now = Date.now();
+  const secretId = await ctx.db.insert("telegram_webhook_secrets", {
+    organizationId,
+    secret: registered?.secret ?? generateWebhookToken(),
+    createdAt: now,
+    updatedAt: now,
+  });
+  return (await ctx.db.get(secretId))!;
+}
+
+/**
+ * Telegram chat connected to the caller's organization
+ */
+export const getConfigForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "integrations.use", args.email);
+    return await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
+  },
+});
+
+/**
+ * Connect a Telegram chat to the caller's organization. Bot commands sent
+ * from the chat act as the caller, so a chat can only belong to one organization.
+ */
+export const setChatIdForEmail = mutation({
+  args: { email: v.string(), chatId: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId, email } = await authorize(ctx, "integrations.manage", args.email);
+    const chatId = normalizeTelegramChatId(args.chatId);
+    if (!chatId) {
+      throw new Error("Telegram chat IDs are numbers, e.g. -1001234567890");
+    }
+
+    const claimed = await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+      .first();
+    if (claimed && claimed.organizationId !== organizationId) {
+      throw new Error("This Telegram chat is already connected to another organization");
+    }
+
+    const existing = await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
+    await ensureWebhookSecret(ctx, organizationId);
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { chatId, connectedByEmail: email, updatedAt: now });
+      return existing._id;
+    }
+    return await ctx.db.insert("telegram_configs", {
+      organizationId,
+      chatId,
+      connectedByEmail: email,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const disconnectChatForEmail = mutation({
+  args: { email: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "integrations.manage", args.email);
+    const existing = await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Secret to register the bot's webhook with (see
+ * src/app/api/telegram/register-webhook/route.ts)
+ */
+export const registerWebhookSecretForEmail = internalMutation({
+  args: { email: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId, email } = await authorize(ctx, "integrations.manage", args.email);
+    const secret = await ensureWebhookSecret(ctx, organizationId);
+    await ctx.db.patch(secret._id, { registeredByEmail: email, updatedAt: Date.now() });
+    return secret.secret;
+  },
+});
+
+/**
+ * Secrets a webhook request may carry: the organization's own, or for a
+ * chat that isn't connected yet any organization's
+ */
+export const getWebhookSecretsInternal = internalQuery({
+  args: { organizationId: v.optional(v.id("organizations")) },
+  handler: async (ctx: QueryCtx, args): Promise<string[]> => {
+    const organizationId = args.organizationId;
+    const rows = organizationId
+      ? await ctx.db
+          .query("telegram_webhook_secrets")
+          .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+          .collect()
+      : await ctx.db.query("telegram_webhook_secrets").collect();
+    return [...new Set(rows.map((row) => row.secret))];
+  },
+});
+
+/**
+ * Find the organization a chat belongs to. Telegram updates carry no user,
+ * so the webhook starts here before acting as the user who connected the chat.
+ */
+export const getConfigByChatIdInternal = internalQuery({
+  args: { chatId: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    return await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_chat", (q) => q.eq("chatId", args.chatId))
+      .first();
+  },
+});
+
+export const getConfigForOrganizationInternal = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx: QueryCtx, args) => {
+    return await ctx.db
+      .query("telegram_configs")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .unique();
+  },
+});
+
+export const recordPromptInternal = internalMutation({
+  args: {
+    organizationId: v.id("organizations"),
+    chatId: v.string(),
+    messageId: v.number(),
+    kind: v.union(v.literal("link"), v.literal("unlinked")),
+    transcriptId: v.optional(v.string()),
+    options: v.array(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    return await ctx.db.insert("telegram_prompts", { ...args, createdAt: Date.now() });
+  },
+});
+
+export const getPromptInternal = internalQuery({
+  args: { chatId: v.string(), messageId: v.number() },
+  handler: async (ctx: QueryCtx, args) => {
+    return await ctx.db
+      .query("telegram_prompts")
+      .withIndex("by_chat_message", (q) => q.eq("chatId", args.chatId).eq("messageId", args.messageId))
+      .unique();
+  },
+});
+
+/**
+ * Mark every open prompt about a transcript as handled, so buttons on older
+ * copies of the prompt stop linking it again
+ */
+export const resolvePromptsForTranscriptInternal = internalMutation({
+  args: { transcriptId: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const prompts = await ctx.db
+      .query("telegram_prompts")
+      .withIndex("by_transcript", (q) => q.eq("transcriptId", args.transcriptId))
+      .collect();
+    const now = Date.now();
+    for (const prompt of prompts) {
+      if (!prompt.resolvedAt) {
+        await ctx.db.patch(prompt._id, { resolvedAt: now });
+      }
+    }
+  },
+});
@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+// Every Convex module, for convexTest(schema, modules)
+export const modules = import.meta.glob("./**/!(*.*.*)*.*s");
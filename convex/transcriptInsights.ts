@@ -0,0 +1,190 @@
+import { mutation, query, internalMutation, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthorizedRecord } from "./utils/authorization";
+import { notifyOrganization } from "./utils/notificationDispatch";
+import { deleteTranscriptInsights, scheduleTranscriptInsights } from "./utils/insightExtraction";
+import { extractedInsightValidator, formatBriefingForPrompt } from "./utils/transcriptInsights";
+
+/**
+ * Insight timeline for a client, newest call first, plus the linked
+ * transcripts whose extraction is still running or failed
+ */
+export const getInsightsForClient = query({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: QueryCtx, args) => {
+    await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "records.read");
+
+    const insights = await ctx.db
+      .query("transcript_insights")
+      .withIndex("by_client_occurred", (q) => q.eq("clientId", args.clientId))
+      .order("desc")
+      .collect();
+
+    const transcripts = await ctx.db
+      .query("fireflies_transcripts")
+      .withIndex("by_client", (q) => q.eq("clientId", args.clientId))
+      .collect();
+    const transcriptsById = new Map(transcripts.map((transcript) => [transcript._id, transcript]));
+
+    return {
+      insights: insights.flatMap((insight) => {
+        const transcript = transcriptsById.get(insight.transcriptId);
+        // Insights outlive a re-link only until the new extraction replaces them
+        if (!transcript) return [];
+        return [{ ...insight, transcriptTitle: transcript.title }];
+      }),
+      extractions: transcripts
+        .filter((transcript) => transcript.insightsStatus === "pending" || transcript.insightsStatus === "error")
+        .map((transcript) => ({
+          transcriptId: transcript._id,
+          title: transcript.title,
+          status: transcript.insightsStatus!,
+          error: transcript.insightsError,
+        })),
+      // Linked before insights existed
+      notExtractedCount: transcripts.filter((transcript) => transcript.insightsStatus === undefined).length,
+    };
+  },
+});
+
+/**
+ * Extract a linked transcript's insights again, e.g. after a failure or once
+ * the ad briefing has changed
+ */
+export const reextractInsights = mutation({
+  args: { transcriptId: v.id("fireflies_transcripts") },
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await getAuthorizedRecord(ctx, await ctx.db.get(args.transcriptId), "records.write");
+    if (!transcript.clientId) {
+      throw new Error("Link this transcript to a client before extracting insights");
+    }
+    await scheduleTranscriptInsights(ctx, transcript._id);
+  },
+});
+
+/**
+ * Extract insights from the client's linked transcripts that have never been
+ * analysed
+ */
+export const extractMissingInsights = mutation({
+  args: { clientId: v.id("clients") },
+  handler: async (ctx: MutationCtx, args) => {
+    const client = await getAuthorizedRecord(ctx, await ctx.db.get(args.clientId), "records.write");
+    const transcripts = await ctx.db
+      .query("fireflies_transcripts")
+      .withIndex("by_client", (q) => q.eq("clientId", client._id))
+      .collect();
+    const missing = transcripts.filter((transcript) => transcript.insightsStatus === undefined);
+    for (const transcript of missing) {
+      await scheduleTranscriptInsights(ctx, transcript._id);
+    }
+    return missing.length;
+  },
+});
+
+export const dismissContradiction = mutation({
+  args: { insightId: v.id("transcript_insights") },
+  handler: async (ctx: MutationCtx, args) => {
+    const insight = await getAuthorizedRecord(ctx, await ctx.db.get(args.insightId), "records.write");
+    await ctx.db.patch(insight._id, { contradictionDismissedAt: Date.now() });
+  },
+});
+
+/**
+ * What the extraction prompt needs; null once the transcript is gone or unlinked
+ */
+export const getExtractionInput = internalQuery({
+  args: { transcriptId: v.id("fireflies_transcripts") },
+  handler: async (ctx: QueryCtx, args) => {
+    const transcript = await ctx.db.get(args.transcriptId);
+    if (!transcript?.clientId) {
+      return null;
+    }
+    const briefing = await ctx.db
+      .query("ad_briefings")
+      .withIndex("by_client", (q) => q.eq("clientId", transcript.clientId!))
+      .first();
+
+    const transcriptText = transcript.sentences?.length
+      ? transcript.sentences
+          .map((sentence) => (sentence.speakerName ? `${sentence.speakerName}: ${sentence.text}` : sentence.text))
+          .join("\n")
+      : transcript.transcript;
+
+    return {
+      organizationId: transcript.organizationId,
+      clientId: transcript.clientId,
+      title: transcript.title,
+      date: transcript.date,
+      transcriptText,
+      notes: transcript.notes,
+      briefingLines: formatBriefingForPrompt(briefing?.briefing),
+    };
+  },
+});
+
+/**
+ * Replace a transcript's insights with a fresh extraction. Results for a
+ * client the transcript is no longer linked to are dropped; the re-link
+ * scheduled its own extraction.
+ */
+export const storeInsights = internalMutation({
+  args: {
+    transcriptId: v.id("fireflies_transcripts"),
+    clientId: v.id("clients"),
+    insights: v.array(extractedInsightValidator),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await ctx.db.get(args.transcriptId);
+    if (!transcript || transcript.clientId !== args.clientId) {
+      return { stored: 0 };
+    }
+
+    await deleteTranscriptInsights(ctx, transcript._id);
+    const now = Date.now();
+    for (const insight of args.insights) {
+      await ctx.db.insert("transcript_insights", {
+        organizationId: transcript.organizationId,
+        clientId: args.clientId,
+        transcriptId: transcript._id,
+        ...insight,
+        occurredAt: transcript.date,
+        createdAt: now,
+      });
+    }
+    await ctx.db.patch(transcript._id, {
+      insightsStatus: "done",
+      insightsError: undefined,
+      insightsUpdatedAt: now,
+    });
+
+    const contradictions = args.insights.filter((insight) => insight.contradiction);
+    if (contradictions.length > 0) {
+      const client = await ctx.db.get(args.clientId);
+      await notifyOrganization(ctx, {
+        organizationId: transcript.organizationId,
+        eventType: "briefing_contradiction",
+        title: "Call contradicts the ad briefing",
+        body: `"${transcript.title}"${client ? ` with ${client.businessName}` : ""}: ${contradictions
+          .map((insight) => `${insight.contradiction!.briefingField}: ${insight.contradiction!.explanation}`)
+          .join("; ")}`,
+        link: `/dashboard/clients/${args.clientId}`,
+        subject: { transcriptId: transcript.transcriptId, clientId: args.clientId },
+      });
+    }
+    return { stored: args.insights.length };
+  },
+});
+
+export const recordExtractionError = internalMutation({
+  args: { transcriptId: v.id("fireflies_transcripts"), error: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const transcript = await ctx.db.get(args.transcriptId);
+    if (!transcript) return;
+    await ctx.db.patch(transcript._id, {
+      insightsStatus: "error",
+      insightsError: args.error,
+      insightsUpdatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,67 @@
+import { internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { getCredentialForOrganization } from "./utils/credentials";
+import { openRouterRequest } from "./utils/openrouterClient";
+import {
+  INSIGHTS_SYSTEM_PROMPT,
+  buildInsightsUserPrompt,
+  parseInsightsResponse,
+} from "./utils/transcriptInsights";
+
+/**
+ * Extract objections, offers, pricing changes, testimonials, action items and
+ * sentiment from a linked transcript, flagging anything that contradicts the
+ * client's ad briefing. Scheduled by scheduleTranscriptInsights.
+ */
+export const extractInsights = internalAction({
+  args: { transcriptId: v.id("fireflies_transcripts") },
+  handler: async (ctx: ActionCtx, args) => {
+    const input = await ctx.runQuery(internal.transcriptInsights.getExtractionInput, args);
+    if (!input) {
+      return;
+    }
+
+    const configuredKey = await getCredentialForOrganization(ctx, input.organizationId, "openrouter_api_key");
+    // Fallback to environment variable for backwards compatibility
+    const apiKey = configuredKey || process.env.OPENROUTER_API_KEY;
+    if (!apiKey) {
+      await ctx.runMutation(internal.transcriptInsights.recordExtractionError, {
+        ...args,
+        error: "OpenRouter API key not configured. Please set it in Settings → OpenRouter.",
+      });
+      return;
+    }
+
+    try {
+      const data = await openRouterRequest<{ choices?: Array<{ message?: { content?: string } }> }>(
+        ctx,
+        apiKey,
+        "chat/completions",
+        {
+          model: "openrouter/auto",
+          temperature: 0.1,
+          messages: [
+            { role: "system", content: INSIGHTS_SYSTEM_PROMPT },
+            { role: "user", content: buildInsightsUserPrompt(input) },
+          ],
+        },
+        { organizationId: input.organizationId, clientId: input.clientId, feature: "transcript_insights" }
+      );
+      const content = data?.choices?.[0]?.message?.content;
+      if (!content || typeof content !== "string") {
+        throw new Error("AI response missing content.");
+      }
+
+      await ctx.runMutation(internal.transcriptInsights.storeInsights, {
+        ...args,
+        clientId: input.clientId,
+        insights: parseInsightsResponse(content),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[insights] Extraction failed", args.transcriptId, message);
+      await ctx.runMutation(internal.transcriptInsights.recordExtractionError, { ...args, error: message });
+    }
+  },
+});
@@ -1,25 +1,34 @@
-import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { mutation, query, internalQuery, QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { getOrganizationIdForEmail, getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import { authorize, authorizeForOrganization, getAuthorizedRecord } from "./utils/authorization";
+import { notifyOrganization } from "./utils/notificationDispatch";
+import { maskSecret } from "./utils/credentialVault";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+import { generateWebhookToken, getWebhookActorEmail } from "./utils/webhookTokens";
+import { webhookDeliveryStatusValidator, webhookStatusUpdate } from "./utils/webhookDeliveries";
 
+/**
+ * The organization's Typeform settings with the access token masked. Save the
+ * token with credentialsActions.setCredentialForEmail.
+ */
 export const getConfigForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
-    return await ctx.db
+    const { organizationId } = await authorize(ctx, "integrations.use", args.email);
+    const config = await ctx.db
       .query("typeform_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
+    if (!config) return null;
+    const { accessToken, accessTokenEncrypted, ...settings } = config;
+    return { ...settings, maskedAccessToken: maskSecret(accessTokenEncrypted, accessToken) };
   },
 });
 
 export const setSecretForEmail = mutation({
   args: { email: v.string(), secret: v.string() },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId } = await authorize(ctx, "integrations.manage", args.email);
     const existing = await ctx.db
       .query("typeform_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
@@ -39,76 +48,149 @@ export const setSecretForEmail = mutation({
   },
 });
 
-export const setAccessTokenForEmail = mutation({
-  args: { email: v.string(), accessToken: v.string() },
+/**
+ * Create or replace the token in the organization's webhook URL. Webhooks
+ * sent to it act as the caller; the previous URL stops working.
+ */
+export const rotateWebhookTokenForEmail = mutation({
+  args: { email: v.string() },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
+    const { organizationId, email } = await authorize(ctx, "integrations.manage", args.email);
     const existing = await ctx.db
       .query("typeform_configs")
       .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
       .unique();
+    const webhookToken = generateWebhookToken();
     const now = Date.now();
     if (existing) {
-      await ctx.db.patch(existing._id, { accessToken: args.accessToken, updatedAt: now });
-      return existing._id;
+      await ctx.db.patch(existing._id, { webhookToken, webhookTokenEmail: email, updatedAt: now });
+    } else {
+      await ctx.db.insert("typeform_configs", {
+        organizationId,
+        email,
+        webhookToken,
+        webhookTokenEmail: email,
+        createdAt: now,
+        updatedAt: now,
+      });
     }
-    // If config doesn't exist, create it with just the access token
-    return await ctx.db.insert("typeform_configs", {
-      organizationId,
-      email: args.email,
-      accessToken: args.accessToken,
-      createdAt: now,
-      updatedAt: now,
-    });
+    return webhookToken;
   },
 });
 
+/**
+ * Resolve the token in a webhook URL to its organization, the secret its
+ * signature must match and the member it acts as (null if they've left)
+ */
+export const getWebhookConfigByTokenInternal = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const config = await ctx.db
+      .query("typeform_configs")
+      .withIndex("by_webhook_token", (q) => q.eq("webhookToken", args.token))
+      .unique();
+    if (!config) return null;
+    return {
+      organizationId: config.organizationId,
+      email: await getWebhookActorEmail(ctx, config),
+      secret: config.secret ?? null,
+    };
+  },
+});
+
+/**
+ * Record an inbound webhook before processing it. A repeat of an event that
+ * is already processed or in progress returns `duplicate: true` and must not
+ * be processed again; a repeat of a failed one starts a new attempt.
+ */
 export const storeWebhook = mutation({
   args: {
     email: v.string(),
     payload: v.any(),
     eventType: v.optional(v.string()),
+    eventId: v.optional(v.string()),
     formId: v.optional(v.string()),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
-    // Check for duplicate payloads by comparing with existing webhooks for this email
-    const existingWebhooks = await ctx.db
-      .query("typeform_webhooks")
-      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
-      .collect();
-    
-    // Stringify the new payload for comparison
-    const newPayloadString = JSON.stringify(args.payload);
-    
-    // Check if any existing webhook has the same payload
-    for (const webhook of existingWebhooks) {
-      const existingPayloadString = JSON.stringify(webhook.payload);
-      if (existingPayloadString === newPayloadString) {
-        // Duplicate found, return existing webhook ID without inserting
-        return webhook._id;
+    const { organizationId } = await authorize(ctx, "records.write", args.email);
+    if (args.eventId) {
+      const existing = await ctx.db
+        .query("typeform_webhooks")
+        .withIndex("by_organization_event", (q) => q.eq("organizationId", organizationId).eq("eventId", args.eventId))
+        .first();
+      if (existing) {
+        if (existing.status !== "failed") {
+          return { webhookId: existing._id, duplicate: true };
+        }
+        await ctx.db.patch(existing._id, webhookStatusUpdate(existing, "received"));
+        return { webhookId: existing._id, duplicate: false };
       }
     }
-    
-    // No duplicate found, insert new webhook
-    return await ctx.db.insert("typeform_webhooks", {
+
+    const webhookId = await ctx.db.insert("typeform_webhooks", {
       organizationId,
       email: args.email,
       payload: args.payload,
       eventType: args.eventType,
+      eventId: args.eventId,
       formId: args.formId,
       receivedAt: Date.now(),
+      status: "received",
+      attempts: 1,
     });
+    return { webhookId, duplicate: false };
+  },
+});
+
+/**
+ * Record the outcome of processing a webhook, or ("received") the start of a replay
+ */
+export const setWebhookStatus = mutation({
+  args: {
+    webhookId: v.id("typeform_webhooks"),
+    status: webhookDeliveryStatusValidator,
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const webhook = await getAuthorizedRecord(ctx, await ctx.db.get(args.webhookId), "records.write");
+    await ctx.db.patch(webhook._id, webhookStatusUpdate(webhook, args.status, args.error));
+  },
+});
+
+export const getWebhookById = query({
+  args: { webhookId: v.id("typeform_webhooks") },
+  handler: async (ctx: QueryCtx, args) => {
+    return await getAuthorizedRecord(ctx, await ctx.db.get(args.webhookId), "records.read");
+  },
+});
+
+/**
+ * Deliveries for the webhook inspector, newest first
+ */
+export const listWebhooksForEmail = query({
+  args: {
+    email: v.string(),
+    status: v.optional(webhookDeliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
+    const limit = Math.min(Math.max(args.limit ?? 50, 1), 200);
+    const deliveries = ctx.db
+      .query("typeform_webhooks")
+      .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
+      .order("desc");
+    if (args.status) {
+      return await deliveries.filter((q) => q.eq(q.field("status"), args.status)).take(limit);
+    }
+    return await deliveries.take(limit);
   },
 });
 
 export const getLatestWebhookForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const webhooks = await ctx.db
       .query("typeform_webhooks")
       .withIndex("by_organization_received", (q) => q.eq("organizationId", organizationId))
@@ -121,10 +203,7 @@ export const getLatestWebhookForEmail = query({
 export const getLatestSyncedResponseForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const responses = await ctx.db
       .query("typeform_responses")
       .withIndex("by_organization_synced", (q) => q.eq("organizationId", organizationId))
@@ -137,10 +216,7 @@ export const getLatestSyncedResponseForEmail = query({
 export const getLatestActivityForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return null;
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     // Get latest webhook
     const webhooks = await ctx.db
       .query("typeform_webhooks")
@@ -204,10 +280,15 @@ export const getLatestActivityForEmail = query({
 export const getResponseByResponseId = query({
   args: { responseId: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    return await ctx.db
+    const response = await ctx.db
       .query("typeform_responses")
       .withIndex("by_response_id", (q) => q.eq("responseId", args.responseId))
       .first();
+    if (!response) {
+      return null;
+    }
+    await authorizeForOrganization(ctx, response.organizationId, "records.read");
+    return response;
   },
 });
 
@@ -228,10 +309,12 @@ export const storeResponse = mutation({
       answer: v.string(),
       fieldRef: v.optional(v.string()),
     }))),
+    // Set for responses that just arrived (webhook), not for backfills and syncs
+    notify: v.optional(v.boolean()),
   },
   handler: async (ctx: MutationCtx, args) => {
-    const organizationId = await getOrCreateOrganizationIdForEmail(ctx, args.email);
-    return await ctx.db.insert("typeform_responses", {
+    const { organizationId } = await authorize(ctx, "records.write", args.email);
+    const id = await ctx.db.insert("typeform_responses", {
       organizationId,
       email: args.email,
       formId: args.formId,
@@ -241,6 +324,18 @@ export const storeResponse = mutation({
       questions: args.questions,
       qaPairs: args.qaPairs,
     });
+    await scheduleSearchIndexing(ctx, "response", id);
+
+    if (args.notify) {
+      await notifyOrganization(ctx, {
+        organizationId,
+        eventType: "onboarding_response_received",
+        title: "New onboarding response",
+        body: `A new response to form ${args.formId} was received.`,
+        link: "/dashboard",
+      });
+    }
+    return id;
   },
 });
 
@@ -271,12 +366,14 @@ export const updateResponseWithQuestions = mutation({
     if (!existing) {
       throw new Error(`Response not found: ${args.responseId}`);
     }
+    await authorizeForOrganization(ctx, existing.organizationId, "records.write");
     
     // Always update both fields if provided
     await ctx.db.patch(existing._id, {
       questions: args.questions,
       qaPairs: args.qaPairs,
     });
+    await scheduleSearchIndexing(ctx, "response", existing._id);
     
     return existing._id;
   },
@@ -285,10 +382,7 @@ export const updateResponseWithQuestions = mutation({
 export const getAllResponsesForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return [];
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const responses = await ctx.db
       .query("typeform_responses")
       .withIndex("by_organization_synced", (q) => q.eq("organizationId", organizationId))
@@ -304,10 +398,7 @@ export const getAllResponsesForEmail = query({
 export const getUnlinkedResponsesCountForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return 0;
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     const timestamp = new Date().toISOString();
     console.log(
       "[TYPEFORM] getUnlinkedResponsesCountForEmail called",
@@ -391,10 +482,7 @@ export const getUnlinkedResponsesCountForEmail = query({
 export const getUnlinkedResponsesForEmail = query({
   args: { email: v.string() },
   handler: async (ctx: QueryCtx, args) => {
-    const organizationId = await getOrganizationIdForEmail(ctx, args.email);
-    if (!organizationId) {
-      return [];
-    }
+    const { organizationId } = await authorize(ctx, "records.read", args.email);
     // Get all responses
     const allResponses = await ctx.db
       .query("typeform_responses")
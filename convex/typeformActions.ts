@@ -2,18 +2,25 @@ import { action, ActionCtx, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
 import { api } from "./_generated/api";
 import { getOrCreateOrganizationIdForEmail } from "./utils/organizations";
+import { getCallerEmail } from "./utils/authorization";
+import { getCredentialForEmail } from "./utils/credentials";
+import { scheduleSearchIndexing } from "./utils/searchIndexing";
+import {
+  DEFAULT_FIELD_MAPPING_RULES,
+  extractClientDataFromQAPairs,
+  type FieldMappingRule,
+} from "./utils/typeformFieldMapping";
 
 export const fetchTypeformForms = action({
   args: {
     email: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<Array<{ id: string; title: string }>> => {
+    await getCallerEmail(ctx, args.email);
     // Get user's access token from config
-    const config: { accessToken?: string } | null = await ctx.runQuery(api.typeform.getConfigForEmail, {
-      email: args.email,
-    });
+    const accessToken = await getCredentialForEmail(ctx, args.email, "typeform_access_token");
 
-    if (!config?.accessToken) {
+    if (!accessToken) {
       throw new Error(`Access token not configured for user: ${args.email}. Please set your Typeform personal access token in settings.`);
     }
 
@@ -21,7 +28,7 @@ export const fetchTypeformForms = action({
     const response: Response = await fetch("https://api.typeform.com/forms", {
       method: "GET",
       headers: {
-        "Authorization": `Bearer ${config.accessToken}`,
+        "Authorization": `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
     });
@@ -74,12 +81,11 @@ export const fetchTypeformFormDetails = action({
       type: string;
     }>;
   } | null> => {
+    await getCallerEmail(ctx, args.email);
     // Get user's access token from config
-    const config: { accessToken?: string } | null = await ctx.runQuery(api.typeform.getConfigForEmail, {
-      email: args.email,
-    });
+    const accessToken = await getCredentialForEmail(ctx, args.email, "typeform_access_token");
 
-    if (!config?.accessToken) {
+    if (!accessToken) {
       throw new Error(`Access token not configured for user: ${args.email}. Please set your Typeform personal access token in settings.`);
     }
 
@@ -87,7 +93,7 @@ export const fetchTypeformFormDetails = action({
     const response: Response = await fetch(`https://api.typeform.com/forms/${args.formId}`, {
       method: "GET",
       headers: {
-        "Authorization": `Bearer ${config.accessToken}`,
+        "Authorization": `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
     });
@@ -208,12 +214,11 @@ export const fetchTypeformResponses = action({
     after: v.optional(v.string()),
   },
   handler: async (ctx: ActionCtx, args): Promise<unknown> => {
+    await getCallerEmail(ctx, args.email);
     // Get user's access token from config using the public query
-    const config: { accessToken?: string } | null = await ctx.runQuery(api.typeform.getConfigForEmail, {
-      email: args.email,
-    });
+    const accessToken = await getCredentialForEmail(ctx, args.email, "typeform_access_token");
 
-    if (!config?.accessToken) {
+    if (!accessToken) {
       throw new Error(`Access token not configured for user: ${args.email}. Please set your Typeform personal access token in settings.`);
     }
 
@@ -231,7 +236,7 @@ export const fetchTypeformResponses = action({
     const response: Response = await fetch(url, {
       method: "GET",
       headers: {
-        "Authorization": `Bearer ${config.accessToken}`,
+        "Authorization": `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
     });
@@ -301,6 +306,7 @@ export const storeResponseInternal = internalMutation({
       questions: args.questions,
       qaPairs: args.qaPairs,
     });
+    await scheduleSearchIndexing(ctx, "response", id);
     return { inserted: true, id };
   },
 });
@@ -311,6 +317,7 @@ export const syncTypeformResponses = action({
     formId: v.string(),
   },
   handler: async (ctx: ActionCtx, args): Promise<{ synced: number; skipped: number; total: number }> => {
+    await getCallerEmail(ctx, args.email);
     // Load per-user settings to determine if auto-generation is enabled
     const userSettings: { autoGenerateOnSync?: boolean } | null = await ctx.runQuery(api.scriptSettings.getSettingsForEmail, {
       email: args.email,
@@ -321,11 +328,9 @@ export const syncTypeformResponses = action({
       autoGenEnabled,
     } as any);
     // Get user's access token from config
-    const config: { accessToken?: string } | null = await ctx.runQuery(api.typeform.getConfigForEmail, {
-      email: args.email,
-    });
+    const accessToken = await getCredentialForEmail(ctx, args.email, "typeform_access_token");
 
-    if (!config?.accessToken) {
+    if (!accessToken) {
       throw new Error(`Access token not configured for user: ${args.email}. Please set your Typeform personal access token in settings.`);
     }
 
@@ -346,6 +351,12 @@ export const syncTypeformResponses = action({
       console.error(`Failed to fetch form details for ${args.formId}:`, error);
     }
 
+    // Load the organization's field mapping for this form (null -> default mapping)
+    const fieldMapping: { rules: FieldMappingRule[] } | null = await ctx.runQuery(
+      api.typeformFieldMappings.getMappingForForm,
+      { email: args.email, formId: args.formId }
+    );
+
     // Create a map of field ref -> field for quick lookup
     const fieldMap = new Map<string, { id: string; ref: string; title: string; type: string }>();
     formQuestions.forEach((field) => {
@@ -373,7 +384,7 @@ export const syncTypeformResponses = action({
       const response: Response = await fetch(url, {
         method: "GET",
         headers: {
-          "Authorization": `Bearer ${config.accessToken}`,
+          "Authorization": `Bearer ${accessToken}`,
           "Content-Type": "application/json",
         },
       });
@@ -435,18 +446,6 @@ export const syncTypeformResponses = action({
             };
           }) || [];
           
-          // Field mapping for the single Typeform form (same as webhook)
-          const FIELD_MAPPING: Record<string, { field: string; type: "string" | "number" | "email" }> = {
-            // Full Name
-            "98e94d78-6c72-4ea2-806e-9675f326550e": { field: "contactFirstName", type: "string" },
-            // Business Name
-            "01K3PZTF2WHB908HD47FDXE81C": { field: "businessName", type: "string" },
-            // Email
-            "a0e9781d-38e4-4768-af2c-19a4518d2ac7": { field: "businessEmail", type: "email" },
-            // Target Revenue (monthly)
-            "6589c67b-c739-4372-96e0-a5e3b6a52220": { field: "targetRevenue", type: "number" },
-          };
-
           if (!existingResponse) {
             // Response doesn't exist, store it with questions and Q&A pairs
             await ctx.runMutation(api.typeform.storeResponse, {
@@ -485,80 +484,24 @@ export const syncTypeformResponses = action({
             }
           }
             
-            // Extract client info using explicit field mapping from qaPairs (same as webhook)
-            let businessEmail: string | null = null;
-            let businessName: string | null = null;
-            let firstName: string | null = null;
-            let lastName: string | null = null;
-            let targetRevenue: number | null = null;
-            
-            // Extract data from qaPairs using explicit mapping
-            for (const qa of qaPairs) {
-              const fieldRef = qa.fieldRef?.trim();
-              if (!fieldRef) continue;
-              
-              const mapping = FIELD_MAPPING[fieldRef];
-              if (!mapping) continue;
-              
-              const value = qa.answer?.trim();
-              // Allow empty email (it might be optional)
-              if (!value && mapping.field !== "businessEmail") continue;
-              
-              switch (mapping.field) {
-                case "businessName":
-                  businessName = value;
-                  break;
-                case "businessEmail":
-                  if (value) {
-                    businessEmail = value.toLowerCase().trim();
-                  }
-                    break;
-                case "contactFirstName": {
-                  const nameParts = value.split(/\s+/);
-                  firstName = nameParts[0] || null;
-                  if (nameParts.length > 1) {
-                    lastName = nameParts.slice(1).join(" ");
-                  }
-                  break;
-                }
-                case "targetRevenue": {
-                  // Handle ranges like "20-30k" or "20k-30k"
-                  let num: number | null = null;
-                  const cleaned = value.replace(/,/g, "").toLowerCase().trim();
-                  
-                  // Try to parse range (e.g., "20-30k" -> take upper bound)
-                  const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)\s*k/i);
-                  if (rangeMatch) {
-                    const upper = parseInt(rangeMatch[2], 10) * 1000;
-                    num = upper;
-                  } else {
-                    // Try single number with k suffix
-                    const kMatch = cleaned.match(/(\d+)\s*k/i);
-                    if (kMatch) {
-                      num = parseInt(kMatch[1], 10) * 1000;
-                    } else {
-                      // Try plain number
-                      const plainNum = parseInt(cleaned, 10);
-                      if (!isNaN(plainNum) && plainNum > 0) {
-                        num = plainNum;
-                      }
-                    }
-                  }
-                  
-                  if (num && num > 0) {
-                    targetRevenue = num;
-                  }
-                  break;
-                }
-              }
-            }
+            // Extract client info using the organization's field mapping (same as webhook)
+            const mapped = extractClientDataFromQAPairs(qaPairs, fieldMapping?.rules);
+            let businessEmail = mapped.businessEmail;
+            const businessName = mapped.businessName;
+            const firstName = mapped.contactFirstName;
+            const lastName = mapped.contactLastName;
+            const targetRevenue = mapped.targetRevenue;
             
             // Fallback: if businessEmail is still missing, try to read it directly from payload answers
             if (!businessEmail && responsePayload.answers && Array.isArray(responsePayload.answers)) {
-              // Prefer the specific email fieldRef if present
-              const EMAIL_FIELD_REF = "a0e9781d-38e4-4768-af2c-19a4518d2ac7";
+              // Prefer the mapped email fieldRef if present
+              const emailFieldRefs = new Set(
+                (fieldMapping?.rules ?? DEFAULT_FIELD_MAPPING_RULES)
+                  .filter((rule) => rule.field === "businessEmail")
+                  .map((rule) => rule.fieldRef)
+              );
               const emailAnswerByRef = responsePayload.answers.find(
-                (a) => (a.field?.ref?.trim() === EMAIL_FIELD_REF) && typeof (a as any).email === "string" && (a as any).email.trim().length > 0
+                (a) => emailFieldRefs.has(a.field?.ref?.trim() ?? "") && typeof (a as any).email === "string" && (a as any).email.trim().length > 0
               ) as any;
               const emailAnswerAny = responsePayload.answers.find(
                 (a) => (a.field?.type === "email" || typeof (a as any).email === "string") && (a as any).email && (a as any).email.trim().length > 0
@@ -581,6 +524,8 @@ export const syncTypeformResponses = action({
                   contactLastName: lastName || undefined,
                   onboardingResponseId: responseId,
                   targetRevenue: targetRevenue || undefined,
+                  servicesOffered: mapped.servicesOffered || undefined,
+                  notes: mapped.notes || undefined,
                 });
                 
                 // Collect responseId for script generation if:
@@ -0,0 +1,107 @@
+import { mutation, query, QueryCtx, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { authorize } from "./utils/authorization";
+import { fieldMappingRuleValidator } from "./utils/typeformFieldMapping";
+
+/**
+ * Get all saved field mappings for a user's organization
+ */
+export const getMappingsForEmail = query({
+  args: { email: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    return await ctx.db
+      .query("typeform_field_mappings")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+  },
+});
+
+/**
+ * Get the saved field mapping for a specific form.
+ * Returns null when the organization has not configured one (callers fall back
+ * to DEFAULT_FIELD_MAPPING_RULES).
+ */
+export const getMappingForForm = query({
+  args: { email: v.string(), formId: v.string() },
+  handler: async (ctx: QueryCtx, args) => {
+    const { organizationId } = await authorize(ctx, "organization.read", args.email);
+    return await ctx.db
+      .query("typeform_field_mappings")
+      .withIndex("by_organization_form", (q) =>
+        q.eq("organizationId", organizationId).eq("formId", args.formId)
+      )
+      .unique();
+  },
+});
+
+/**
+ * Create or replace the field mapping for a form
+ */
+export const setMappingForForm = mutation({
+  args: {
+    email: v.string(),
+    formId: v.string(),
+    formTitle: v.optional(v.string()),
+    rules: v.array(fieldMappingRuleValidator),
+  },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "settings.manage", args.email);
+
+    // Only one rule per fieldRef; last one wins
+    const rulesByRef = new Map<string, (typeof args.rules)[number]>();
+    for (const rule of args.rules) {
+      const fieldRef = rule.fieldRef.trim();
+      if (!fieldRef) continue;
+      rulesByRef.set(fieldRef, { ...rule, fieldRef });
+    }
+    const rules = Array.from(rulesByRef.values());
+
+    const existing = await ctx.db
+      .query("typeform_field_mappings")
+      .withIndex("by_organization_form", (q) =>
+        q.eq("organizationId", organizationId).eq("formId", args.formId)
+      )
+      .unique();
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        rules,
+        ...(args.formTitle !== undefined && { formTitle: args.formTitle }),
+        updatedByEmail: args.email,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+    return await ctx.db.insert("typeform_field_mappings", {
+      organizationId,
+      formId: args.formId,
+      formTitle: args.formTitle,
+      rules,
+      updatedByEmail: args.email,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Remove a form's mapping so it falls back to the default rules
+ */
+export const deleteMappingForForm = mutation({
+  args: { email: v.string(), formId: v.string() },
+  handler: async (ctx: MutationCtx, args) => {
+    const { organizationId } = await authorize(ctx, "settings.manage", args.email);
+    const existing = await ctx.db
+      .query("typeform_field_mappings")
+      .withIndex("by_organization_form", (q) =>
+        q.eq("organizationId", organizationId).eq("formId", args.formId)
+      )
+      .unique();
+    if (!existing) {
+      return null;
+    }
+    await ctx.db.delete(existing._id);
+    return existing._id;
+  },
+});
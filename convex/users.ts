@@ -1,9 +1,11 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
+import { getCallerEmail } from "./utils/authorization";
 
 export const upsertUser = mutation({
   args: { email: v.string() },
-  handler: async (ctx: any, { email }: { email: string }) => {
+  handler: async (ctx: any, args: { email: string }) => {
+    const email = await getCallerEmail(ctx, args.email);
     const existing = await ctx.db
       .query("users")
       .withIndex("by_email", (q: any) => q.eq("email", email))
@@ -19,7 +21,8 @@ export const upsertUser = mutation({
 
 export const getUserByEmail = query({
   args: { email: v.string() },
-  handler: async (ctx: any, { email }: { email: string }) => {
+  handler: async (ctx: any, args: { email: string }) => {
+    const email = await getCallerEmail(ctx, args.email);
     return await ctx.db
       .query("users")
       .withIndex("by_email", (q: any) => q.eq("email", email))
@@ -27,4 +30,14 @@ export const getUserByEmail = query({
   },
 });
 
-
+/**
+ * Email of the signed-in caller as Convex verified it from their token, for
+ * servers that must not trust the email cookie. Null without a session.
+ */
+export const getSessionEmail = query({
+  args: {},
+  handler: async (ctx: any) => {
+    const identity = await ctx.auth.getUserIdentity();
+    return identity?.email ?? null;
+  },
+});
@@ -0,0 +1,142 @@
+import type { Auth } from "convex/server";
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { getOrganizationMembership } from "./organizations";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+export type OrganizationRole = Doc<"organization_members">["role"];
+
+export const ROLE_RANK: Record<OrganizationRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * The least role allowed to perform each action in an organization.
+ * Members run the day-to-day work; deleting data and changing integrations,
+ * settings or membership needs an admin; changing roles needs an owner.
+ */
+export const PERMISSIONS = {
+  "organization.read": "member",
+  "organization.update": "admin",
+  "members.manage": "admin",
+  "members.changeRole": "owner",
+  "clients.read": "member",
+  "clients.write": "member",
+  "clients.delete": "admin",
+  "schedules.write": "member",
+  "scheduleTemplates.manage": "admin",
+  "scripts.read": "member",
+  "scripts.write": "member",
+  "scripts.delete": "admin",
+  // Transcripts, form responses, webhook logs and ad briefings
+  "records.read": "member",
+  "records.write": "member",
+  "records.delete": "admin",
+  // Using stored API keys and tokens, e.g. to generate a script or sync transcripts
+  "integrations.use": "member",
+  // Changing API keys, OAuth tokens and webhook secrets
+  "integrations.manage": "admin",
+  // Prompts, generation settings and field mappings
+  "settings.manage": "admin",
+} as const satisfies Record<string, OrganizationRole>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type Caller = {
+  email: string;
+  organizationId: Id<"organizations">;
+  role: OrganizationRole;
+};
+
+export function roleAllows(role: OrganizationRole, permission: Permission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSIONS[permission]];
+}
+
+/**
+ * Every permission a role has, for hiding actions the UI would reject
+ */
+export function permissionsForRole(role: OrganizationRole): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter((permission) => roleAllows(role, permission));
+}
+
+/**
+ * Email of the signed-in caller, from the WorkOS session token (or the
+ * identity a trusted server acts as). Functions still take the email they
+ * were written with; it must match the identity so it can't be used to act
+ * as someone else.
+ */
+export async function getCallerEmail(ctx: { auth: Auth }, claimedEmail?: string): Promise<string> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Unauthenticated: sign in to continue");
+  }
+  if (!identity.email) {
+    throw new Error("Unauthenticated: the session token has no email claim");
+  }
+  if (claimedEmail !== undefined && claimedEmail.trim().toLowerCase() !== identity.email.trim().toLowerCase()) {
+    throw new Error("Unauthorized: signed in as a different user");
+  }
+  return claimedEmail ?? identity.email;
+}
+
+function requireRole(member: Doc<"organization_members">, permission: Permission): Caller {
+  if (!roleAllows(member.role, permission)) {
+    throw new Error(`Unauthorized: ${PERMISSIONS[permission]} role required for ${permission}`);
+  }
+  return { email: member.email, organizationId: member.organizationId, role: member.role };
+}
+
+/**
+ * Check the caller may perform `permission` in their own organization
+ * (the one their data is created in) and return it.
+ */
+export async function authorize(ctx: ReadCtx, permission: Permission, claimedEmail?: string): Promise<Caller> {
+  const email = await getCallerEmail(ctx, claimedEmail);
+  const member = await ctx.db
+    .query("organization_members")
+    .withIndex("by_email", (q) => q.eq("email", email))
+    .first();
+  if (!member) {
+    throw new Error("Unauthorized: not a member of any organization");
+  }
+  return requireRole(member, permission);
+}
+
+/**
+ * Check the caller may perform `permission` in a specific organization, e.g.
+ * the one a record belongs to. Non-members get the same error as for a
+ * missing record, so IDs from other organizations reveal nothing.
+ */
+export async function authorizeForOrganization(
+  ctx: ReadCtx,
+  organizationId: Id<"organizations">,
+  permission: Permission,
+  claimedEmail?: string
+): Promise<Caller> {
+  const email = await getCallerEmail(ctx, claimedEmail);
+  const member = await getOrganizationMembership(ctx, organizationId, email);
+  if (!member) {
+    throw new Error("Not found or access denied");
+  }
+  return requireRole(member, permission);
+}
+
+/**
+ * Load a record and check the caller may perform `permission` on it.
+ * Throws the same error whether the record is missing or in another organization.
+ */
+export async function getAuthorizedRecord<T extends { organizationId: Id<"organizations"> }>(
+  ctx: ReadCtx,
+  record: T | null,
+  permission: Permission,
+  claimedEmail?: string
+): Promise<T> {
+  if (!record) {
+    throw new Error("Not found or access denied");
+  }
+  await authorizeForOrganization(ctx, record.organizationId, permission, claimedEmail);
+  return record;
+}
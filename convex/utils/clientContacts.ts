@@ -0,0 +1,179 @@
+import { v, type Infer } from "convex/values";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * People at a client. The primary contact is mirrored into the client's
+ * contactFirstName / contactLastName so older screens and prompts keep
+ * showing it; clients created before contacts existed only have those fields.
+ */
+export const CLIENT_CONTACT_ROLES = ["owner", "marketing", "bookkeeper", "operations", "sales", "other"] as const;
+
+export type ClientContactRole = (typeof CLIENT_CONTACT_ROLES)[number];
+
+export const CLIENT_CONTACT_ROLE_LABELS: Record<ClientContactRole, string> = {
+  owner: "Owner",
+  marketing: "Marketing manager",
+  bookkeeper: "Bookkeeper",
+  operations: "Operations",
+  sales: "Sales",
+  other: "Other",
+};
+
+export const clientContactRoleValidator = v.union(
+  v.literal("owner"),
+  v.literal("marketing"),
+  v.literal("bookkeeper"),
+  v.literal("operations"),
+  v.literal("sales"),
+  v.literal("other")
+);
+
+export const clientContactInputValidator = v.object({
+  firstName: v.string(),
+  lastName: v.optional(v.string()),
+  email: v.optional(v.string()),
+  phone: v.optional(v.string()),
+  role: clientContactRoleValidator,
+  isPrimary: v.optional(v.boolean()),
+});
+
+export type ClientContactInput = Infer<typeof clientContactInputValidator>;
+
+// The fields the resolver and prompts need
+export type ClientContactSummary = {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  role: ClientContactRole;
+  isPrimary: boolean;
+};
+
+export function formatContactName(contact: { firstName: string; lastName?: string }): string {
+  return [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+}
+
+/**
+ * "Jane Doe (Owner, primary) <jane@acme.com>", one per line, for LLM prompts
+ */
+export function formatContactsForPrompt(contacts: ClientContactSummary[]): string {
+  return contacts
+    .map((contact) => {
+      const role = CLIENT_CONTACT_ROLE_LABELS[contact.role] + (contact.isPrimary ? ", primary" : "");
+      const email = contact.email ? ` <${contact.email}>` : "";
+      return `- ${formatContactName(contact)} (${role})${email}`;
+    })
+    .join("\n");
+}
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+export async function getContactsForClient(ctx: ReadCtx, clientId: Id<"clients">) {
+  const contacts = await ctx.db
+    .query("client_contacts")
+    .withIndex("by_client", (q) => q.eq("clientId", clientId))
+    .collect();
+  return contacts.sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.createdAt - b.createdAt);
+}
+
+/**
+ * Clients with their contacts attached, for matching against
+ */
+export async function withContacts(
+  ctx: ReadCtx,
+  clients: Doc<"clients">[]
+): Promise<Array<Doc<"clients"> & { contacts: Doc<"client_contacts">[] }>> {
+  const byClient = new Map<Id<"clients">, Doc<"client_contacts">[]>();
+  const organizationIds = [...new Set(clients.map((client) => client.organizationId))];
+  for (const organizationId of organizationIds) {
+    const contacts = await ctx.db
+      .query("client_contacts")
+      .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    for (const contact of contacts) {
+      const list = byClient.get(contact.clientId);
+      if (list) {
+        list.push(contact);
+      } else {
+        byClient.set(contact.clientId, [contact]);
+      }
+    }
+  }
+  return clients.map((client) => ({ ...client, contacts: byClient.get(client._id) ?? [] }));
+}
+
+/**
+ * Make sure exactly one contact is primary (the given one, else the current
+ * one, else the oldest) and copy its name onto the client
+ */
+export async function syncPrimaryContact(
+  ctx: MutationCtx,
+  clientId: Id<"clients">,
+  primaryContactId?: Id<"client_contacts">
+) {
+  const contacts = await getContactsForClient(ctx, clientId);
+  if (contacts.length === 0) return;
+
+  const primary =
+    contacts.find((contact) => contact._id === primaryContactId) ??
+    contacts.find((contact) => contact.isPrimary) ??
+    [...contacts].sort((a, b) => a.createdAt - b.createdAt)[0];
+
+  for (const contact of contacts) {
+    const isPrimary = contact._id === primary._id;
+    if (contact.isPrimary !== isPrimary) {
+      await ctx.db.patch(contact._id, { isPrimary, updatedAt: Date.now() });
+    }
+  }
+  await ctx.db.patch(clientId, {
+    contactFirstName: primary.firstName,
+    contactLastName: primary.lastName,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Carry a name edited on the client itself (the legacy contact fields) over to
+ * its primary contact so the two don't drift apart
+ */
+export async function renamePrimaryContact(
+  ctx: MutationCtx,
+  clientId: Id<"clients">,
+  name: { firstName?: string; lastName?: string }
+) {
+  const primary = (await getContactsForClient(ctx, clientId)).find((contact) => contact.isPrimary);
+  if (!primary) return;
+  await ctx.db.patch(primary._id, {
+    ...(name.firstName?.trim() && { firstName: name.firstName.trim() }),
+    ...(name.lastName !== undefined && { lastName: name.lastName.trim() || undefined }),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Add a contact to a client; used on creation and by the contacts editor
+ */
+export async function insertClientContact(
+  ctx: MutationCtx,
+  client: Doc<"clients">,
+  contact: ClientContactInput
+): Promise<Id<"client_contacts">> {
+  const firstName = contact.firstName.trim();
+  if (!firstName) {
+    throw new Error("Contact first name is required");
+  }
+  const now = Date.now();
+  return await ctx.db.insert("client_contacts", {
+    organizationId: client.organizationId,
+    clientId: client._id,
+    firstName,
+    lastName: contact.lastName?.trim() || undefined,
+    email: contact.email?.toLowerCase().trim() || undefined,
+    phone: contact.phone?.trim() || undefined,
+    role: contact.role,
+    isPrimary: contact.isPrimary === true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
@@ -0,0 +1,187 @@
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+/**
+ * Client health: a 0-100 score from signals already stored for a client.
+ * Each factor takes points off 100:
+ * - no call for a while (transcript dates)
+ * - scheduled scripts not delivered within a week of their run
+ * - scheduled runs that failed
+ * - no onboarding response linked
+ * - paused, more so the longer it lasts
+ * Scores are recorded daily in client_health_snapshots for trends.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Jobs, scripts and failures older than this don't count
+export const HEALTH_WINDOW_DAYS = 90;
+// A scheduled script counts as on time when delivered this long after its run
+const ON_TIME_DAYS = 7;
+// Calls are expected at least this often
+const CALL_GRACE_DAYS = 21;
+
+const MAX_PENALTY = {
+  lastCall: 30,
+  onSchedule: 25,
+  failedJobs: 20,
+  onboarding: 10,
+  paused: 20,
+};
+
+export type ClientHealthLevel = "healthy" | "watch" | "at_risk";
+
+export type ClientHealthFactor = {
+  key: keyof typeof MAX_PENALTY;
+  penalty: number;
+  detail: string;
+};
+
+export type ClientHealth = {
+  score: number;
+  level: ClientHealthLevel;
+  factors: ClientHealthFactor[]; // Only factors that took points off, largest first
+};
+
+export type ClientHealthSignals = {
+  createdAt: number;
+  status: Doc<"clients">["status"];
+  pausedSince: number | null;
+  hasOnboardingResponse: boolean;
+  lastCallDate: number | null;
+  // Scheduled runs in the window that have already run
+  finishedJobs: Array<{ scheduledTime: number; status: "completed" | "failed"; deliveredAt: number | null }>;
+};
+
+export function healthLevel(score: number): ClientHealthLevel {
+  if (score >= 75) return "healthy";
+  if (score >= 50) return "watch";
+  return "at_risk";
+}
+
+export function computeClientHealth(signals: ClientHealthSignals, now: number): ClientHealth {
+  const factors: ClientHealthFactor[] = [];
+
+  if (signals.lastCallDate === null) {
+    if (now - signals.createdAt > CALL_GRACE_DAYS * DAY_MS) {
+      factors.push({ key: "lastCall", penalty: 20, detail: "No calls recorded" });
+    }
+  } else {
+    const days = Math.floor((now - signals.lastCallDate) / DAY_MS);
+    if (days > CALL_GRACE_DAYS) {
+      const scale = Math.min(1, (days - CALL_GRACE_DAYS) / (HEALTH_WINDOW_DAYS - CALL_GRACE_DAYS));
+      factors.push({
+        key: "lastCall",
+        penalty: Math.max(1, Math.round(scale * MAX_PENALTY.lastCall)),
+        detail: `No call in ${days} days`,
+      });
+    }
+  }
+
+  // Only runs that have had a week to be delivered are judged
+  const judged = signals.finishedJobs.filter(
+    (job) => job.deliveredAt !== null || now - job.scheduledTime > ON_TIME_DAYS * DAY_MS
+  );
+  const onTime = judged.filter(
+    (job) => job.deliveredAt !== null && job.deliveredAt - job.scheduledTime <= ON_TIME_DAYS * DAY_MS
+  ).length;
+  if (judged.length > 0 && onTime < judged.length) {
+    factors.push({
+      key: "onSchedule",
+      penalty: Math.round(MAX_PENALTY.onSchedule * (1 - onTime / judged.length)),
+      detail: `${onTime} of ${judged.length} scheduled scripts delivered on time`,
+    });
+  }
+
+  const failed = signals.finishedJobs.filter((job) => job.status === "failed").length;
+  if (failed > 0) {
+    factors.push({
+      key: "failedJobs",
+      penalty: Math.min(MAX_PENALTY.failedJobs, failed * 10),
+      detail: `${failed} failed scheduled run${failed === 1 ? "" : "s"}`,
+    });
+  }
+
+  if (!signals.hasOnboardingResponse) {
+    factors.push({ key: "onboarding", penalty: MAX_PENALTY.onboarding, detail: "No onboarding response" });
+  }
+
+  if (signals.status === "paused") {
+    const days = signals.pausedSince ? Math.max(0, Math.floor((now - signals.pausedSince) / DAY_MS)) : 0;
+    factors.push({
+      key: "paused",
+      penalty: Math.min(MAX_PENALTY.paused, 5 + Math.round((days / 60) * 15)),
+      detail: `Paused for ${days} day${days === 1 ? "" : "s"}`,
+    });
+  }
+
+  factors.sort((a, b) => b.penalty - a.penalty);
+  const score = Math.max(0, 100 - factors.reduce((sum, factor) => sum + factor.penalty, 0));
+  return { score, level: healthLevel(score), factors };
+}
+
+/**
+ * Load a client's health signals. `lastCallDate` can be passed when the
+ * caller already looked it up.
+ */
+export async function loadClientHealthSignals(
+  ctx: ReadCtx,
+  client: Doc<"clients">,
+  now: number,
+  lastCallDate?: number | null
+): Promise<ClientHealthSignals> {
+  const since = now - HEALTH_WINDOW_DAYS * DAY_MS;
+
+  if (lastCallDate === undefined) {
+    const lastTranscript = await ctx.db
+      .query("fireflies_transcripts")
+      .withIndex("by_client", (q) => q.eq("clientId", client._id))
+      .order("desc")
+      .first();
+    lastCallDate = lastTranscript?.date ?? null;
+  }
+
+  const jobs = await ctx.db
+    .query("cron_jobs")
+    .withIndex("by_client", (q) => q.eq("clientId", client._id))
+    .collect();
+  const recentJobs = jobs.filter(
+    (job) => job.scheduledTime >= since && job.scheduledTime <= now && (job.status === "completed" || job.status === "failed")
+  );
+
+  // Delivery times of scripts generated by those runs
+  const deliveredAtByJob = new Map<string, number>();
+  if (recentJobs.length > 0) {
+    const scripts = await ctx.db
+      .query("scripts")
+      .withIndex("by_client", (q) => q.eq("clientId", client._id).gte("createdAt", since))
+      .collect();
+    for (const script of scripts) {
+      if (script.source.cronJobId && script.deliveredAt) {
+        deliveredAtByJob.set(script.source.cronJobId, script.deliveredAt);
+      }
+    }
+  }
+
+  return {
+    createdAt: client.createdAt,
+    status: client.status,
+    pausedSince: client.status === "paused" ? (client.pausedAt ?? client.updatedAt) : null,
+    hasOnboardingResponse: Boolean(client.onboardingResponseId),
+    lastCallDate,
+    finishedJobs: recentJobs.map((job) => ({
+      scheduledTime: job.scheduledTime,
+      status: job.status as "completed" | "failed",
+      deliveredAt: deliveredAtByJob.get(job.cronJobId) ?? null,
+    })),
+  };
+}
+
+/**
+ * UTC calendar day of a timestamp, e.g. "2025-03-14", for snapshot keys
+ */
+export function healthSnapshotDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
@@ -0,0 +1,258 @@
+import { describe, expect, test } from "vitest";
+import {
+  DEFAULT_AUTO_LINK_THRESHOLD,
+  DUPLICATE_CLIENT_THRESHOLD,
+  normalizeAliasValue,
+  pickAutoLinkCandidate,
+  resolveClientCandidates,
+  type LinkAlias,
+  type ResolutionInput,
+  type ResolvableClient,
+} from "./clientResolution";
+
+// The corpus every case resolves against
+const CLIENTS = [
+  {
+    _id: "acme",
+    businessName: "Acme Corp",
+    businessEmail: "jane@acme.com",
+    contactFirstName: "Jane",
+    contactLastName: "Doe",
+    contacts: [{ firstName: "Bob", lastName: "Stone", email: "bob@acme.com", role: "CFO" }],
+  },
+  { _id: "globex", businessName: "Globex", businessEmails: ["hank@globex.io"] },
+  // Two clients run by the same holding company, on one domain
+  { _id: "initech", businessName: "Initech", businessEmail: "peter@holding.com" },
+  { _id: "initrode", businessName: "Initrode", businessEmail: "bill@holding.com" },
+  { _id: "bakery", businessName: "Sunny Bakery", businessEmail: "sunny.bakery@gmail.com" },
+] satisfies ResolvableClient[];
+
+function resolve(input: ResolutionInput) {
+  return resolveClientCandidates(input, CLIENTS);
+}
+
+function summarize(input: ResolutionInput) {
+  return resolve(input).map((candidate) => ({
+    id: candidate.client._id,
+    score: candidate.score,
+    kinds: candidate.signals.map((signal) => signal.kind),
+  }));
+}
+
+// What findDuplicateClient asks (see findDuplicateForOwner in convex/clients.ts)
+function findDuplicate(fields: { businessEmail?: string; businessName?: string; website?: string }) {
+  const [best] = resolve({
+    emails: fields.businessEmail ? [fields.businessEmail] : undefined,
+    name: fields.businessName,
+    website: fields.website,
+  });
+  return best && best.score >= DUPLICATE_CLIENT_THRESHOLD ? best.client._id : null;
+}
+
+describe("exact email", () => {
+  test("a business email is certain", () => {
+    expect(summarize({ emails: ["Jane@Acme.com "] })).toEqual([
+      { id: "acme", score: 1, kinds: ["exact_email", "domain"] },
+    ]);
+  });
+
+  test("a contact's email names the contact", () => {
+    const [candidate] = resolve({ emails: ["bob@acme.com"] });
+    expect(candidate.client._id).toBe("acme");
+    expect(candidate.signals[0].detail).toContain("Bob Stone (CFO)");
+  });
+
+  test("ignored emails are skipped", () => {
+    expect(resolve({ emails: ["jane@acme.com"], ignoreEmails: ["JANE@acme.com"] })).toEqual([]);
+  });
+});
+
+describe("email domain", () => {
+  test("a domain only one client has is strong evidence", () => {
+    expect(summarize({ emails: ["someone.new@acme.com"] })).toEqual([{ id: "acme", score: 0.95, kinds: ["domain"] }]);
+  });
+
+  test("a domain shared by several clients is weak evidence for each", () => {
+    expect(summarize({ emails: ["newhire@holding.com"] })).toEqual([
+      { id: "initech", score: 0.6, kinds: ["domain"] },
+      { id: "initrode", score: 0.6, kinds: ["domain"] },
+    ]);
+  });
+
+  test("the same domain core under another TLD still matches", () => {
+    const [candidate] = resolve({ emails: ["hank@globex.com"] });
+    expect(candidate.client._id).toBe("globex");
+    expect(candidate.signals.map((signal) => [signal.kind, signal.weight])).toEqual([
+      ["domain", 0.85],
+      ["fuzzy_name", 0.65],
+    ]);
+  });
+});
+
+describe("free-mail domains", () => {
+  test("say nothing about the client", () => {
+    expect(resolve({ emails: ["someone@gmail.com"] })).toEqual([]);
+  });
+
+  test("the exact address still matches", () => {
+    expect(summarize({ emails: ["sunny.bakery@gmail.com"] })).toEqual([
+      { id: "bakery", score: 1, kinds: ["exact_email"] },
+    ]);
+  });
+});
+
+describe("fuzzy names", () => {
+  test("the full business name, ignoring case and punctuation", () => {
+    expect(summarize({ name: "ACME corp." })).toEqual([{ id: "acme", score: 0.9, kinds: ["fuzzy_name"] }]);
+  });
+
+  test("part of a business name", () => {
+    expect(summarize({ name: "Acme" })).toEqual([{ id: "acme", score: 0.6, kinds: ["fuzzy_name"] }]);
+  });
+
+  test("a contact's full name, and part of one", () => {
+    expect(summarize({ name: "Jane Doe" })).toEqual([{ id: "acme", score: 0.7, kinds: ["fuzzy_name"] }]);
+    expect(summarize({ name: "Bob" })).toEqual([{ id: "acme", score: 0.5, kinds: ["fuzzy_name"] }]);
+  });
+
+  test("keys shorter than three characters don't match partially", () => {
+    expect(resolve({ name: "Ac" })).toEqual([]);
+  });
+});
+
+describe("title mentions", () => {
+  test("a business name in the meeting title", () => {
+    expect(summarize({ title: "Weekly sync with Globex" })).toEqual([{ id: "globex", score: 0.6, kinds: ["title"] }]);
+  });
+
+  test("a title mentioning no client", () => {
+    expect(resolve({ title: "Team standup" })).toEqual([]);
+  });
+});
+
+describe("aliases", () => {
+  const aliases: LinkAlias[] = [
+    { clientId: "globex", kind: "email", value: normalizeAliasValue("email", "CEO@Partner.net") },
+    { clientId: "initech", kind: "domain", value: normalizeAliasValue("domain", "@www.tps-reports.com") },
+    { clientId: "acme", kind: "title", value: normalizeAliasValue("title", "Rocket review 3/14") },
+    { clientId: "deleted-client", kind: "email", value: "old@example.com" },
+  ];
+
+  test("a participant linked before", () => {
+    expect(summarize({ emails: ["ceo@partner.net"], aliases })).toEqual([{ id: "globex", score: 1, kinds: ["alias"] }]);
+  });
+
+  test("a domain linked before", () => {
+    expect(summarize({ emails: ["anyone@tps-reports.com"], aliases })).toEqual([
+      { id: "initech", score: 0.95, kinds: ["alias"] },
+    ]);
+  });
+
+  test("a recurring title linked before, whatever the date", () => {
+    expect(summarize({ title: "Rocket Review 4/2", aliases })).toEqual([{ id: "acme", score: 0.7, kinds: ["alias"] }]);
+  });
+
+  test("a title linked before doesn't auto-link without another signal", () => {
+    const titleOnly = resolve({ title: "Rocket Review 4/2", aliases });
+    expect(pickAutoLinkCandidate(titleOnly, DEFAULT_AUTO_LINK_THRESHOLD)).toBeNull();
+
+    const withEmail = resolve({ title: "Rocket Review 4/2", emails: ["someone.new@acme.com"], aliases });
+    expect(pickAutoLinkCandidate(withEmail, DEFAULT_AUTO_LINK_THRESHOLD)?.client._id).toBe("acme");
+  });
+
+  test("aliases of clients that no longer exist are skipped", () => {
+    expect(resolve({ emails: ["old@example.com"], aliases })).toEqual([]);
+  });
+});
+
+describe("AI votes", () => {
+  test("count as one more signal", () => {
+    const [candidate] = resolve({ llmVote: { clientId: "globex", confidence: 0.8, reason: "Discussed Globex ads" } });
+    expect(candidate.client._id).toBe("globex");
+    expect(candidate.score).toBe(0.8);
+    expect(candidate.signals).toEqual([{ kind: "llm_vote", weight: 0.8, detail: "AI: Discussed Globex ads" }]);
+  });
+
+  test("combine with other evidence", () => {
+    expect(summarize({ title: "Globex call", llmVote: { clientId: "globex", confidence: 0.8 } })).toEqual([
+      { id: "globex", score: 0.92, kinds: ["llm_vote", "title"] },
+    ]);
+  });
+
+  test("for a client that isn't in the list are ignored", () => {
+    expect(resolve({ llmVote: { clientId: "unknown", confidence: 0.99 } })).toEqual([]);
+  });
+});
+
+describe("auto-link threshold", () => {
+  test("defaults to 0.85", () => {
+    expect(DEFAULT_AUTO_LINK_THRESHOLD).toBe(0.85);
+  });
+
+  test("a score exactly at the threshold links", () => {
+    const candidates = resolve({ llmVote: { clientId: "globex", confidence: 0.85 } });
+    expect(pickAutoLinkCandidate(candidates, DEFAULT_AUTO_LINK_THRESHOLD)?.client._id).toBe("globex");
+  });
+
+  test("a score just under it doesn't", () => {
+    const candidates = resolve({ llmVote: { clientId: "globex", confidence: 0.849 } });
+    expect(pickAutoLinkCandidate(candidates, DEFAULT_AUTO_LINK_THRESHOLD)).toBeNull();
+  });
+
+  test("two weak signals can add up to less than the threshold", () => {
+    const candidates = resolve({ title: "Globex call", llmVote: { clientId: "globex", confidence: 0.6 } });
+    expect(candidates[0].score).toBe(0.84);
+    expect(pickAutoLinkCandidate(candidates, DEFAULT_AUTO_LINK_THRESHOLD)).toBeNull();
+  });
+
+  test("a tie links neither client", () => {
+    const candidates = resolve({ emails: ["newhire@holding.com"], name: "Init" });
+    expect(candidates.map((candidate) => candidate.score)).toEqual([0.84, 0.84]);
+    expect(pickAutoLinkCandidate(candidates, 0.8)).toBeNull();
+  });
+
+  test("a title mention breaks the tie", () => {
+    const candidates = resolve({ emails: ["newhire@holding.com"], name: "Init", title: "Initech kickoff" });
+    expect(candidates[0].score).toBe(0.936);
+    expect(pickAutoLinkCandidate(candidates, DEFAULT_AUTO_LINK_THRESHOLD)?.client._id).toBe("initech");
+  });
+
+  test("an organization's stricter threshold", () => {
+    const candidates = resolve({ emails: ["someone.new@acme.com"] });
+    expect(pickAutoLinkCandidate(candidates, DEFAULT_AUTO_LINK_THRESHOLD)?.client._id).toBe("acme");
+    expect(pickAutoLinkCandidate(candidates, 0.99)).toBeNull();
+  });
+
+  test("no candidates", () => {
+    expect(pickAutoLinkCandidate([], DEFAULT_AUTO_LINK_THRESHOLD)).toBeNull();
+  });
+});
+
+describe("duplicate clients", () => {
+  test("threshold is 0.9", () => {
+    expect(DUPLICATE_CLIENT_THRESHOLD).toBe(0.9);
+  });
+
+  test("the same business or contact email", () => {
+    expect(findDuplicate({ businessEmail: "jane@acme.com", businessName: "Something Else" })).toBe("acme");
+    expect(findDuplicate({ businessEmail: "bob@acme.com" })).toBe("acme");
+  });
+
+  test("the same business name", () => {
+    expect(findDuplicate({ businessName: "Acme Corp" })).toBe("acme");
+  });
+
+  test("another email on a domain only one client has", () => {
+    expect(findDuplicate({ businessEmail: "ops@acme.com" })).toBe("acme");
+  });
+
+  test("a website on the client's email domain", () => {
+    expect(findDuplicate({ website: "https://www.acme.com/about" })).toBe("acme");
+  });
+
+  test("not a partial name, a shared domain or a free-mail address", () => {
+    expect(findDuplicate({ businessName: "Acme" })).toBeNull();
+    expect(findDuplicate({ businessEmail: "newhire@holding.com", businessName: "Vandelay Industries" })).toBeNull();
+    expect(findDuplicate({ businessEmail: "owner@gmail.com", businessName: "Sunny Side Cafe" })).toBeNull();
+  });
+});
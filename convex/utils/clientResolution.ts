@@ -0,0 +1,419 @@
+/**
+ * Client resolution: which existing client does a transcript, a Typeform
+ * response or a typed name refer to?
+ *
+ * Every path that matches against clients (automatic transcript linking, the
+ * AI pass, Telegram replies and commands, duplicate detection, the batch
+ * linking tool) scores candidates here. Each candidate carries the signals
+ * that produced its score so the linking history can explain a decision.
+ *
+ * Signals of the same kind keep only the strongest one; different kinds are
+ * combined as independent evidence (1 - Π(1 - weight)), so a domain match and
+ * a title mention together score higher than either alone.
+ */
+
+export type ResolutionSignalKind = "exact_email" | "domain" | "fuzzy_name" | "title" | "alias" | "llm_vote";
+
+export type ResolutionSignal = {
+  kind: ResolutionSignalKind;
+  weight: number;
+  detail: string;
+};
+
+export type ResolvableClient = {
+  _id: string;
+  businessName?: string | null;
+  businessEmail?: string | null;
+  businessEmails?: string[] | null;
+  contactFirstName?: string | null;
+  contactLastName?: string | null;
+  // People at the client (client_contacts); their emails identify the client too
+  contacts?: Array<{ firstName: string; lastName?: string; email?: string; role?: string }> | null;
+};
+
+/**
+ * A rule learned from a manual link (or added on the client's page): this
+ * participant email, email domain or recurring meeting title belongs to the
+ * client. Values are normalized with normalizeAliasValue.
+ */
+export type LinkAliasKind = "email" | "domain" | "title";
+
+export type LinkAlias = {
+  clientId: string;
+  kind: LinkAliasKind;
+  value: string;
+};
+
+export type ResolutionInput = {
+  // Participant emails, a response's business email, an email typed in a reply
+  emails?: string[];
+  // Emails that never identify a client, e.g. the owner on their own calls
+  ignoreEmails?: string[];
+  // A business or contact name
+  name?: string;
+  website?: string;
+  // Meeting title
+  title?: string;
+  // The organization's alias rules
+  aliases?: LinkAlias[];
+  llmVote?: { clientId: string; confidence: number; reason?: string };
+};
+
+export type ResolutionCandidate<C extends ResolvableClient> = {
+  client: C;
+  score: number;
+  signals: ResolutionSignal[];
+};
+
+// Used when an organization has not set its own threshold
+export const DEFAULT_AUTO_LINK_THRESHOLD = 0.85;
+
+// Score at which a new client is treated as one that already exists
+export const DUPLICATE_CLIENT_THRESHOLD = 0.9;
+
+const COMMON_TLDS = [
+  "com",
+  "net",
+  "org",
+  "io",
+  "ai",
+  "co",
+  "us",
+  "uk",
+  "ca",
+  "app",
+  "dev",
+  "info",
+  "biz",
+  "xyz",
+];
+
+// Shared by unrelated people, so the domain says nothing about the client
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+]);
+
+const ALIAS_WEIGHTS: Record<LinkAliasKind, number> = {
+  email: 1,
+  domain: 0.95,
+  // Below the default auto-link threshold: generic titles like "Weekly sync"
+  // get learned too, so a title alias needs another signal to link on its own
+  title: 0.7,
+};
+
+// Shorter keys match inside too many unrelated names and titles
+const MIN_PARTIAL_KEY_LENGTH = 3;
+
+export function normalizeEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+export function normalizeKey(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]/g, "");
+}
+
+export function extractDomain(email: string): string | null {
+  const atIndex = email.lastIndexOf("@");
+  if (atIndex === -1) return null;
+  return email.slice(atIndex + 1).toLowerCase().trim() || null;
+}
+
+function stripCommonTlds(value: string): string {
+  let result = value;
+  let changed = true;
+  while (changed && result.length > 0) {
+    changed = false;
+    for (const tld of COMMON_TLDS) {
+      if (result.endsWith(tld)) {
+        result = result.slice(0, -tld.length);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+export function isFreeEmailDomain(domain: string): boolean {
+  return FREE_EMAIL_DOMAINS.has(domain);
+}
+
+/**
+ * A meeting title without dates, numbers and punctuation, so every instance of
+ * a recurring meeting ("Acme weekly sync 3/14") has the same key
+ */
+export function normalizeTitleKey(title: string): string {
+  return title.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+export function normalizeAliasValue(kind: LinkAliasKind, value: string): string {
+  switch (kind) {
+    case "email":
+      return normalizeEmail(value);
+    case "domain":
+      return value.toLowerCase().trim().replace(/^@/, "").replace(/^www\./, "");
+    case "title":
+      return normalizeTitleKey(value);
+  }
+}
+
+/**
+ * The distinctive part of a domain: "acme-corp.co.uk" -> "acmecorp"
+ */
+export function getDomainKey(domain: string): string | null {
+  const normalized = normalizeKey(domain);
+  if (!normalized) return null;
+  const stripped = stripCommonTlds(normalized);
+  return stripped || normalized;
+}
+
+function normalizeWebsite(website: string): string | null {
+  const host = website
+    .toLowerCase()
+    .trim()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#]/)[0];
+  return host || null;
+}
+
+function overlaps(a: string, b: string): boolean {
+  if (a === b) return true;
+  const shorter = a.length < b.length ? a : b;
+  return shorter.length >= MIN_PARTIAL_KEY_LENGTH && (a.includes(b) || b.includes(a));
+}
+
+type ClientKeys<C> = {
+  client: C;
+  emails: string[];
+  // Who an email belongs to, for explaining matches on contact emails
+  emailOwners: Map<string, string>;
+  domains: string[];
+  domainKeys: string[];
+  businessKey: string | null;
+  contacts: Array<{ key: string; label: string }>;
+};
+
+function getClientKeys<C extends ResolvableClient>(client: C): ClientKeys<C> {
+  const emailOwners = new Map<string, string>();
+  const contacts: Array<{ key: string; label: string }> = [];
+  const legacyContactName = `${client.contactFirstName ?? ""} ${client.contactLastName ?? ""}`.trim();
+  if (normalizeKey(legacyContactName)) {
+    contacts.push({ key: normalizeKey(legacyContactName), label: legacyContactName });
+  }
+  for (const contact of client.contacts ?? []) {
+    const name = [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+    const label = contact.role ? `${name} (${contact.role})` : name;
+    if (normalizeKey(name)) {
+      contacts.push({ key: normalizeKey(name), label });
+    }
+    if (contact.email) {
+      emailOwners.set(normalizeEmail(contact.email), label);
+    }
+  }
+
+  const emails = [client.businessEmail, ...(client.businessEmails ?? []), ...emailOwners.keys()]
+    .filter((email): email is string => Boolean(email))
+    .map(normalizeEmail);
+  const domains = [...new Set(emails.map(extractDomain).filter((domain): domain is string => Boolean(domain)))];
+  const businessDomains = domains.filter((domain) => !FREE_EMAIL_DOMAINS.has(domain));
+  return {
+    client,
+    emails: [...new Set(emails)],
+    emailOwners,
+    domains: businessDomains,
+    domainKeys: businessDomains.map(getDomainKey).filter((key): key is string => Boolean(key)),
+    businessKey: client.businessName ? normalizeKey(client.businessName) || null : null,
+    contacts,
+  };
+}
+
+function combineWeights(signals: ResolutionSignal[]): number {
+  const remaining = signals.reduce((product, signal) => product * (1 - signal.weight), 1);
+  return Math.round((1 - remaining) * 1000) / 1000;
+}
+
+/**
+ * Score every client against the input, best first. Clients without any
+ * signal are left out.
+ */
+export function resolveClientCandidates<C extends ResolvableClient>(
+  input: ResolutionInput,
+  clients: C[]
+): ResolutionCandidate<C>[] {
+  const keyed = clients.map(getClientKeys);
+  const strongest = new Map<string, Map<ResolutionSignalKind, ResolutionSignal>>();
+
+  const addSignal = (client: C, kind: ResolutionSignalKind, weight: number, detail: string) => {
+    let signals = strongest.get(client._id);
+    if (!signals) {
+      signals = new Map();
+      strongest.set(client._id, signals);
+    }
+    const existing = signals.get(kind);
+    if (!existing || weight > existing.weight) {
+      signals.set(kind, { kind, weight: Math.max(0, Math.min(1, weight)), detail });
+    }
+  };
+
+  const ignored = new Set((input.ignoreEmails ?? []).map(normalizeEmail));
+  const emails = [...new Set((input.emails ?? []).map(normalizeEmail))].filter(
+    (email) => email && !ignored.has(email)
+  );
+
+  for (const email of emails) {
+    const exact = keyed.filter((entry) => entry.emails.includes(email));
+    for (const entry of exact) {
+      const owner = entry.emailOwners.get(email);
+      addSignal(
+        entry.client,
+        "exact_email",
+        1,
+        owner ? `Email "${email}" belongs to ${owner} at this client.` : `Email "${email}" is a business email of this client.`
+      );
+    }
+
+    const domain = extractDomain(email);
+    if (!domain || FREE_EMAIL_DOMAINS.has(domain)) continue;
+
+    const domainMatches = keyed.filter((entry) => entry.domains.includes(domain));
+    for (const entry of domainMatches) {
+      addSignal(
+        entry.client,
+        "domain",
+        domainMatches.length === 1 ? 0.95 : 0.6,
+        domainMatches.length === 1
+          ? `Email domain "${domain}" belongs only to this client.`
+          : `Email domain "${domain}" is shared by ${domainMatches.length} clients.`
+      );
+    }
+    if (domainMatches.length > 0) continue;
+
+    const domainKey = getDomainKey(domain);
+    if (!domainKey) continue;
+
+    const keyMatches = keyed.filter((entry) => entry.domainKeys.includes(domainKey));
+    for (const entry of keyMatches) {
+      const nameAgrees = entry.businessKey !== null && overlaps(entry.businessKey, domainKey);
+      const weight = keyMatches.length === 1 ? 0.85 : nameAgrees ? 0.75 : 0.5;
+      addSignal(entry.client, "domain", weight, `Email domain "${domain}" has the same core as this client's domain.`);
+    }
+
+    for (const entry of keyed) {
+      if (entry.businessKey && overlaps(entry.businessKey, domainKey)) {
+        addSignal(
+          entry.client,
+          "fuzzy_name",
+          0.65,
+          `Email domain "${domain}" resembles the business name "${entry.client.businessName ?? ""}".`
+        );
+      }
+    }
+  }
+
+  const website = input.website ? normalizeWebsite(input.website) : null;
+  if (website) {
+    for (const entry of keyed) {
+      const domain = entry.domains.find((candidate) => website === candidate || website.endsWith(`.${candidate}`));
+      if (domain) {
+        addSignal(entry.client, "domain", 0.9, `Website "${website}" matches this client's email domain "${domain}".`);
+      }
+    }
+  }
+
+  const nameKey = input.name ? normalizeKey(input.name) : "";
+  if (nameKey) {
+    for (const entry of keyed) {
+      if (entry.businessKey === nameKey) {
+        addSignal(entry.client, "fuzzy_name", 0.9, `"${input.name}" is this client's business name.`);
+      } else if (entry.businessKey && overlaps(entry.businessKey, nameKey)) {
+        addSignal(entry.client, "fuzzy_name", 0.6, `"${input.name}" partially matches the business name "${entry.client.businessName ?? ""}".`);
+      }
+      for (const contact of entry.contacts) {
+        if (contact.key === nameKey) {
+          addSignal(entry.client, "fuzzy_name", 0.7, `"${input.name}" is ${contact.label}, a contact at this client.`);
+        } else if (overlaps(contact.key, nameKey)) {
+          addSignal(entry.client, "fuzzy_name", 0.5, `"${input.name}" partially matches the contact ${contact.label}.`);
+        }
+      }
+    }
+  }
+
+  const titleKey = input.title ? normalizeKey(input.title) : "";
+  if (titleKey) {
+    for (const entry of keyed) {
+      if (entry.businessKey && entry.businessKey.length >= MIN_PARTIAL_KEY_LENGTH && titleKey.includes(entry.businessKey)) {
+        addSignal(entry.client, "title", 0.6, `Title "${input.title}" mentions "${entry.client.businessName ?? ""}".`);
+      }
+    }
+  }
+
+  if (input.aliases && input.aliases.length > 0) {
+    const byId = new Map(keyed.map((entry) => [entry.client._id, entry.client]));
+    const emailDomains = new Set(emails.map(extractDomain).filter((domain): domain is string => Boolean(domain)));
+    const titleAliasKey = input.title ? normalizeTitleKey(input.title) : "";
+    for (const alias of input.aliases) {
+      const client = byId.get(alias.clientId);
+      if (!client) continue;
+      if (alias.kind === "email" && emails.includes(alias.value)) {
+        addSignal(client, "alias", ALIAS_WEIGHTS.email, `Participant "${alias.value}" was linked to this client before.`);
+      } else if (alias.kind === "domain" && emailDomains.has(alias.value)) {
+        addSignal(client, "alias", ALIAS_WEIGHTS.domain, `Email domain "${alias.value}" was linked to this client before.`);
+      } else if (alias.kind === "title" && titleAliasKey && titleAliasKey === alias.value) {
+        addSignal(client, "alias", ALIAS_WEIGHTS.title, `Meetings titled "${input.title}" were linked to this client before.`);
+      }
+    }
+  }
+
+  if (input.llmVote) {
+    const vote = input.llmVote;
+    const entry = keyed.find((candidate) => candidate.client._id === vote.clientId);
+    if (entry) {
+      addSignal(entry.client, "llm_vote", vote.confidence, vote.reason ? `AI: ${vote.reason}` : "Chosen by the AI.");
+    }
+  }
+
+  return keyed
+    .filter((entry) => strongest.has(entry.client._id))
+    .map((entry) => {
+      const signals = [...(strongest.get(entry.client._id)?.values() ?? [])].sort((a, b) => b.weight - a.weight);
+      return { client: entry.client, score: combineWeights(signals), signals };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The candidate to link without asking anyone: it must reach the threshold
+ * and score strictly higher than the runner-up.
+ */
+export function pickAutoLinkCandidate<C extends ResolvableClient>(
+  candidates: ResolutionCandidate<C>[],
+  threshold: number
+): ResolutionCandidate<C> | null {
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < threshold) return null;
+  if (runnerUp && runnerUp.score >= best.score) return null;
+  return best;
+}
+
+/**
+ * A one-line explanation of a candidate's score for the linking history
+ */
+export function describeCandidate(candidate: ResolutionCandidate<ResolvableClient>): string {
+  const signals = candidate.signals.map((signal) => `${signal.detail} (${signal.kind} ${signal.weight})`);
+  return `Score ${candidate.score}: ${signals.join(" ")}`;
+}
+
+export function isValidAutoLinkThreshold(threshold: number): boolean {
+  return Number.isFinite(threshold) && threshold >= 0.5 && threshold <= 1;
+}
@@ -0,0 +1,174 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * Third-party credentials stored encrypted at rest. Each secret is encrypted
+ * with its own random data key, and the data key is wrapped with the master
+ * key from the CREDENTIALS_MASTER_KEY environment variable (base64, 32 bytes).
+ * Only actions decrypt: queries and the browser see a masked suffix at most.
+ */
+export const CREDENTIAL_KINDS = [
+  "openrouter_api_key",
+  "fireflies_api_key",
+  "typeform_access_token",
+  "google_drive_refresh_token",
+] as const;
+
+export type CredentialKind = (typeof CREDENTIAL_KINDS)[number];
+
+export const credentialKindValidator = v.union(
+  v.literal("openrouter_api_key"),
+  v.literal("fireflies_api_key"),
+  v.literal("typeform_access_token"),
+  v.literal("google_drive_refresh_token")
+);
+
+export const encryptedSecretValidator = v.object({
+  ciphertext: v.string(), // base64 AES-GCM ciphertext of the secret
+  iv: v.string(),
+  wrappedKey: v.string(), // base64 data key encrypted with the master key
+  wrapIv: v.string(),
+  keyId: v.string(), // Which master key wrapped the data key (see getMasterKeys)
+  last4: v.string(), // Shown masked in settings; empty for short secrets
+});
+
+export type EncryptedSecret = Infer<typeof encryptedSecretValidator>;
+
+const MASK = "••••••••";
+// Secrets shorter than this don't reveal a suffix
+const MIN_LENGTH_FOR_SUFFIX = 12;
+
+/**
+ * What settings show for a stored secret, e.g. "••••••••a1b2"; null when
+ * none is stored. `legacyPlaintext` covers rows written before encryption.
+ */
+export function maskSecret(encrypted: EncryptedSecret | undefined, legacyPlaintext?: string): string | null {
+  if (encrypted) {
+    return MASK + encrypted.last4;
+  }
+  if (legacyPlaintext) {
+    return MASK + lastFour(legacyPlaintext);
+  }
+  return null;
+}
+
+function lastFour(secret: string): string {
+  return secret.length >= MIN_LENGTH_FOR_SUFFIX ? secret.slice(-4) : "";
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (const byte of array) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+type MasterKey = { keyId: string; key: CryptoKey };
+
+async function importMasterKey(encoded: string, variable: string): Promise<MasterKey> {
+  const raw = fromBase64(encoded.trim());
+  if (raw.length !== 32) {
+    throw new Error(`${variable} must be 32 bytes, base64-encoded`);
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", raw));
+  const keyId = Array.from(digest.slice(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const key = await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+  return { keyId, key };
+}
+
+/**
+ * The current master key, plus the previous one while a rotation is under
+ * way (CREDENTIALS_MASTER_KEY_PREVIOUS)
+ */
+async function getMasterKeys(): Promise<{ current: MasterKey; previous: MasterKey | null }> {
+  const current = process.env.CREDENTIALS_MASTER_KEY;
+  if (!current) {
+    throw new Error("CREDENTIALS_MASTER_KEY is not configured. Set it in the Convex dashboard to store credentials.");
+  }
+  const previous = process.env.CREDENTIALS_MASTER_KEY_PREVIOUS;
+  return {
+    current: await importMasterKey(current, "CREDENTIALS_MASTER_KEY"),
+    previous: previous ? await importMasterKey(previous, "CREDENTIALS_MASTER_KEY_PREVIOUS") : null,
+  };
+}
+
+async function findMasterKey(keyId: string): Promise<MasterKey> {
+  const { current, previous } = await getMasterKeys();
+  if (current.keyId === keyId) return current;
+  if (previous?.keyId === keyId) return previous;
+  throw new Error(`No master key matches credential key ${keyId}; was CREDENTIALS_MASTER_KEY rotated without a migration?`);
+}
+
+// The kind is bound to the ciphertext so a secret can't be copied into another field
+function additionalData(kind: CredentialKind): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(kind);
+}
+
+export async function encryptSecret(kind: CredentialKind, plaintext: string): Promise<EncryptedSecret> {
+  const { current } = await getMasterKeys();
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey("raw", rawDataKey, "AES-GCM", false, ["encrypt"]);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(kind) },
+    dataKey,
+    new TextEncoder().encode(plaintext)
+  );
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.encrypt({ name: "AES-GCM", iv: wrapIv }, current.key, rawDataKey);
+
+  return {
+    ciphertext: toBase64(ciphertext),
+    iv: toBase64(iv),
+    wrappedKey: toBase64(wrappedKey),
+    wrapIv: toBase64(wrapIv),
+    keyId: current.keyId,
+    last4: lastFour(plaintext),
+  };
+}
+
+async function unwrapDataKey(secret: EncryptedSecret): Promise<Uint8Array<ArrayBuffer>> {
+  const masterKey = await findMasterKey(secret.keyId);
+  const rawDataKey = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(secret.wrapIv) },
+    masterKey.key,
+    fromBase64(secret.wrappedKey)
+  );
+  return new Uint8Array(rawDataKey);
+}
+
+export async function decryptSecret(kind: CredentialKind, secret: EncryptedSecret): Promise<string> {
+  const dataKey = await crypto.subtle.importKey("raw", await unwrapDataKey(secret), "AES-GCM", false, ["decrypt"]);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(secret.iv), additionalData: additionalData(kind) },
+    dataKey,
+    fromBase64(secret.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Re-wrap a secret's data key with the current master key, leaving the
+ * ciphertext as is. Null when it's already wrapped with the current key.
+ */
+export async function rewrapSecret(secret: EncryptedSecret): Promise<EncryptedSecret | null> {
+  const { current } = await getMasterKeys();
+  if (secret.keyId === current.keyId) {
+    return null;
+  }
+  const rawDataKey = await unwrapDataKey(secret);
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.encrypt({ name: "AES-GCM", iv: wrapIv }, current.key, rawDataKey);
+  return { ...secret, wrappedKey: toBase64(wrappedKey), wrapIv: toBase64(wrapIv), keyId: current.keyId };
+}
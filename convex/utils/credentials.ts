@@ -0,0 +1,38 @@
+import type { ActionCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { decryptSecret, type CredentialKind, type EncryptedSecret } from "./credentialVault";
+
+async function reveal(
+  kind: CredentialKind,
+  stored: { encrypted?: EncryptedSecret; legacyPlaintext?: string } | null
+): Promise<string | null> {
+  if (stored?.encrypted) {
+    return await decryptSecret(kind, stored.encrypted);
+  }
+  // Rows written before encryption keep working until the migration runs
+  return stored?.legacyPlaintext ?? null;
+}
+
+/**
+ * The decrypted secret of the caller's organization, or null when none is
+ * stored. For actions only; never return it to the browser.
+ */
+export async function getCredentialForEmail(ctx: ActionCtx, email: string, kind: CredentialKind): Promise<string | null> {
+  return await reveal(kind, await ctx.runQuery(internal.credentials.getStoredCredentialForEmail, { email, kind }));
+}
+
+/**
+ * The decrypted secret of an organization for background jobs, which run
+ * without a signed-in user
+ */
+export async function getCredentialForOrganization(
+  ctx: ActionCtx,
+  organizationId: Id<"organizations">,
+  kind: CredentialKind
+): Promise<string | null> {
+  return await reveal(
+    kind,
+    await ctx.runQuery(internal.credentials.getStoredCredentialForOrganization, { organizationId, kind })
+  );
+}
@@ -0,0 +1,26 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+
+/**
+ * Extract insights for a transcript after the mutation that linked it to a
+ * client commits. Call this wherever a transcript's clientId is set; a
+ * re-link replaces the insights extracted for the previous client.
+ */
+export async function scheduleTranscriptInsights(ctx: MutationCtx, transcriptId: Id<"fireflies_transcripts">) {
+  await ctx.db.patch(transcriptId, { insightsStatus: "pending", insightsError: undefined });
+  await ctx.scheduler.runAfter(0, internal.transcriptInsightsActions.extractInsights, { transcriptId });
+}
+
+/**
+ * Remove a transcript's insights, e.g. when it's unlinked or deleted
+ */
+export async function deleteTranscriptInsights(ctx: MutationCtx, transcriptId: Id<"fireflies_transcripts">) {
+  const insights = await ctx.db
+    .query("transcript_insights")
+    .withIndex("by_transcript", (q) => q.eq("transcriptId", transcriptId))
+    .collect();
+  for (const insight of insights) {
+    await ctx.db.delete(insight._id);
+  }
+}
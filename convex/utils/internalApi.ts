@@ -0,0 +1,12 @@
+/**
+ * Headers for calls from Convex (and the generation worker) to the app's API
+ * routes. Routes only accept an `email` to act as when the shared
+ * INTERNAL_API_SECRET matches; see src/lib/convexServer.ts.
+ */
+export function internalApiHeaders(): Record<string, string> {
+  const secret = process.env.INTERNAL_API_SECRET;
+  return {
+    "Content-Type": "application/json",
+    ...(secret && { Authorization: `Bearer ${secret}` }),
+  };
+}
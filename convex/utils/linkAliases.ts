@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  extractDomain,
+  isFreeEmailDomain,
+  normalizeAliasValue,
+  normalizeEmail,
+  type LinkAliasKind,
+} from "./clientResolution";
+
+/**
+ * Alias rules map a participant email, an email domain or a recurring meeting
+ * title to a client. They are learned whenever someone links a transcript by
+ * hand and feed the resolver as the "alias" signal, so the next meeting with
+ * the same people is linked before the AI stage.
+ */
+export const linkAliasKindValidator = v.union(v.literal("email"), v.literal("domain"), v.literal("title"));
+
+// "learned" rules follow the latest manual link; "manual" ones were added on
+// the client's page and are never repointed by learning
+export const linkAliasSourceValidator = v.union(v.literal("learned"), v.literal("manual"));
+
+// Keys shorter than this ("call", "sync") say nothing about the client
+const MIN_TITLE_KEY_LENGTH = 6;
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+export async function getAliasesForOrganization(ctx: ReadCtx, organizationId: Id<"organizations">) {
+  return await ctx.db
+    .query("link_aliases")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+}
+
+/**
+ * Create or repoint an alias rule. A manual rule for another client wins over
+ * a learned one.
+ */
+export async function upsertLinkAlias(
+  ctx: MutationCtx,
+  alias: {
+    organizationId: Id<"organizations">;
+    clientId: Id<"clients">;
+    kind: LinkAliasKind;
+    value: string;
+    source: "learned" | "manual";
+    createdByEmail?: string;
+  }
+): Promise<Id<"link_aliases"> | null> {
+  const value = normalizeAliasValue(alias.kind, alias.value);
+  if (!value) return null;
+
+  const existing = await ctx.db
+    .query("link_aliases")
+    .withIndex("by_organization_kind_value", (q) =>
+      q.eq("organizationId", alias.organizationId).eq("kind", alias.kind).eq("value", value)
+    )
+    .first();
+
+  const now = Date.now();
+  if (existing) {
+    if (existing.clientId === alias.clientId) {
+      await ctx.db.patch(existing._id, {
+        source: alias.source === "manual" ? "manual" : existing.source,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+    if (existing.source === "manual" && alias.source === "learned") {
+      return null;
+    }
+    await ctx.db.patch(existing._id, {
+      clientId: alias.clientId,
+      source: alias.source,
+      createdByEmail: alias.createdByEmail,
+      updatedAt: now,
+    });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("link_aliases", {
+    organizationId: alias.organizationId,
+    clientId: alias.clientId,
+    kind: alias.kind,
+    value,
+    source: alias.source,
+    createdByEmail: alias.createdByEmail,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Learn alias rules from a transcript someone linked by hand: its external
+ * participants, their company domains and its title. The organization's own
+ * members and their domains are skipped since they are on every call.
+ */
+export async function learnAliasesFromManualLink(
+  ctx: MutationCtx,
+  transcript: Doc<"fireflies_transcripts">,
+  clientId: Id<"clients">,
+  createdByEmail?: string
+) {
+  const members = await ctx.db
+    .query("organization_members")
+    .withIndex("by_organization", (q) => q.eq("organizationId", transcript.organizationId))
+    .collect();
+  const memberEmails = new Set(members.map((member) => normalizeEmail(member.email)));
+  if (transcript.email) {
+    memberEmails.add(normalizeEmail(transcript.email));
+  }
+  const memberDomains = new Set([...memberEmails].map(extractDomain).filter(Boolean));
+
+  const learn = (kind: LinkAliasKind, value: string) =>
+    upsertLinkAlias(ctx, {
+      organizationId: transcript.organizationId,
+      clientId,
+      kind,
+      value,
+      source: "learned",
+      createdByEmail,
+    });
+
+  for (const participant of transcript.participants ?? []) {
+    const email = normalizeEmail(participant);
+    if (!email.includes("@") || memberEmails.has(email)) continue;
+    await learn("email", email);
+
+    const domain = extractDomain(email);
+    if (domain && !isFreeEmailDomain(domain) && !memberDomains.has(domain)) {
+      await learn("domain", domain);
+    }
+  }
+
+  if (normalizeAliasValue("title", transcript.title).length >= MIN_TITLE_KEY_LENGTH) {
+    await learn("title", transcript.title);
+  }
+}
@@ -0,0 +1,133 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * LLM usage accounting. Every OpenRouter call records its tokens, model and
+ * cost in llm_usage, tagged with the feature that made it and the client it
+ * was for when there is one. Next.js routes call OpenRouter through
+ * src/lib/openrouter.ts and Convex actions through utils/openrouterClient.ts;
+ * the generation worker (workers/script-generation-workflow.ts) checks the
+ * budget and records its call itself.
+ *
+ * An organization can set a monthly budget in USD. Once the month's spend
+ * reaches it, "warn" notifies admins and keeps going; "block" refuses new
+ * calls until the next month (UTC) or until the budget is raised.
+ */
+
+export const llmFeatureValidator = v.union(
+  v.literal("script_generation"),
+  v.literal("transcript_linking"),
+  v.literal("ad_briefing"),
+  v.literal("chat"),
+  v.literal("studio_test"),
+  v.literal("transcript_insights"),
+  v.literal("search_embeddings")
+);
+
+export type LlmFeature = Infer<typeof llmFeatureValidator>;
+
+export const LLM_FEATURE_LABELS: Record<LlmFeature, string> = {
+  script_generation: "Script generation",
+  transcript_linking: "Transcript linking",
+  ad_briefing: "Ad briefing",
+  chat: "Chat",
+  studio_test: "Studio tests",
+  transcript_insights: "Meeting insights",
+  search_embeddings: "Semantic search",
+};
+
+export const llmBudgetModeValidator = v.union(v.literal("warn"), v.literal("block"));
+
+export type LlmBudgetMode = Infer<typeof llmBudgetModeValidator>;
+
+export type LlmBudgetStatus = {
+  budget: number | null; // USD per calendar month, null when unlimited
+  mode: LlmBudgetMode;
+  spent: number; // USD spent this month
+  exceeded: boolean;
+  // New calls are refused
+  blocked: boolean;
+};
+
+export function llmBudgetStatus(
+  organization: { monthlyLlmBudget?: number; llmBudgetMode?: LlmBudgetMode },
+  spent: number
+): LlmBudgetStatus {
+  const budget = organization.monthlyLlmBudget ?? null;
+  const mode = organization.llmBudgetMode ?? "warn";
+  const exceeded = budget !== null && spent >= budget;
+  return { budget, mode, spent, exceeded, blocked: exceeded && mode === "block" };
+}
+
+export function llmBudgetExceededMessage(status: LlmBudgetStatus): string {
+  return `This month's AI budget of $${(status.budget ?? 0).toFixed(2)} has been used ($${status.spent.toFixed(
+    2
+  )} spent). Raise it on the Usage page or wait until next month.`;
+}
+
+/**
+ * Start of the UTC calendar month containing `timestamp`
+ */
+export function usageMonthStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * UTC calendar month of a timestamp, e.g. "2025-03"
+ */
+export function usageMonth(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+/**
+ * The `usage` block OpenRouter returns when a request sets
+ * `usage: { include: true }` (the last chunk of a stream carries it)
+ */
+export type OpenRouterUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost?: number; // USD, in credits
+};
+
+export type LlmUsageRecord = {
+  model: string;
+  generationId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+};
+
+/**
+ * Usage fields of an OpenRouter response body, or null when it has none
+ */
+export function usageFromOpenRouterResponse(
+  data: { id?: unknown; model?: unknown; usage?: OpenRouterUsage | null },
+  requestedModel: string
+): LlmUsageRecord | null {
+  const usage = data.usage;
+  if (!usage) {
+    return null;
+  }
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    // The model OpenRouter actually routed to (e.g. for openrouter/auto)
+    model: typeof data.model === "string" && data.model ? data.model : requestedModel,
+    generationId: typeof data.id === "string" ? data.id : undefined,
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+    cost: usage.cost ?? 0,
+  };
+}
+
+export const llmUsageRecordValidator = {
+  model: v.string(),
+  generationId: v.optional(v.string()),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  totalTokens: v.number(),
+  cost: v.number(),
+};
@@ -0,0 +1,96 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { channelsForEvent, type NotificationEvent, type NotificationSubject } from "./notifications";
+
+export type NotificationInput = {
+  organizationId: Id<"organizations">;
+  eventType: NotificationEvent;
+  title: string;
+  body: string;
+  link?: string; // App path, e.g. /dashboard/clients/<id>
+  // Defaults to every member of the organization
+  recipientEmails?: string[];
+  subject?: NotificationSubject;
+};
+
+/**
+ * Record an event for its recipients: an in-app notification for everyone
+ * who wants one, and a scheduled delivery per external channel. Slack
+ * webhooks are deduplicated and the organization's Telegram chat is sent to once.
+ */
+export async function notifyOrganization(ctx: MutationCtx, notification: NotificationInput) {
+  const recipients =
+    notification.recipientEmails ??
+    (
+      await ctx.db
+        .query("organization_members")
+        .withIndex("by_organization", (q) => q.eq("organizationId", notification.organizationId))
+        .collect()
+    ).map((member) => member.email);
+
+  const now = Date.now();
+  const emailRecipients: string[] = [];
+  const slackWebhookUrls = new Set<string>();
+  let sendToTelegram = false;
+
+  for (const recipientEmail of new Set(recipients)) {
+    const preferences = await ctx.db
+      .query("notification_preferences")
+      .withIndex("by_organization_email", (q) =>
+        q.eq("organizationId", notification.organizationId).eq("email", recipientEmail)
+      )
+      .unique();
+    const channels = channelsForEvent(preferences, notification.eventType);
+
+    if (channels.includes("inApp")) {
+      await ctx.db.insert("notifications", {
+        organizationId: notification.organizationId,
+        recipientEmail,
+        eventType: notification.eventType,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+        createdAt: now,
+      });
+    }
+    if (channels.includes("email")) {
+      emailRecipients.push(recipientEmail);
+    }
+    if (channels.includes("slack") && preferences?.slackWebhookUrl) {
+      slackWebhookUrls.add(preferences.slackWebhookUrl);
+    }
+    if (channels.includes("telegram")) {
+      sendToTelegram = true;
+    }
+  }
+
+  const message = {
+    organizationId: notification.organizationId,
+    eventType: notification.eventType,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    subject: notification.subject,
+  };
+  for (const recipientEmail of emailRecipients) {
+    await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliver, {
+      ...message,
+      channel: "email",
+      target: recipientEmail,
+    });
+  }
+  for (const webhookUrl of slackWebhookUrls) {
+    await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliver, {
+      ...message,
+      channel: "slack",
+      target: webhookUrl,
+    });
+  }
+  if (sendToTelegram) {
+    await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliver, {
+      ...message,
+      channel: "telegram",
+    });
+  }
+}
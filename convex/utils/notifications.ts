@@ -0,0 +1,103 @@
+import { v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+
+/**
+ * Events the app notifies about. Each user picks the channels they get each
+ * event on (notification_preferences); these are the channels until they do.
+ */
+export const NOTIFICATION_EVENTS = {
+  transcript_needs_human: {
+    label: "Transcript needs a client",
+    defaultChannels: ["inApp", "telegram"],
+  },
+  script_generated: {
+    label: "Script generated",
+    defaultChannels: ["inApp"],
+  },
+  script_generation_failed: {
+    label: "Script generation failed",
+    defaultChannels: ["inApp", "email"],
+  },
+  cron_job_failed: {
+    label: "Scheduled script failed",
+    defaultChannels: ["inApp", "email"],
+  },
+  onboarding_response_received: {
+    label: "New onboarding response",
+    defaultChannels: ["inApp"],
+  },
+  briefing_contradiction: {
+    label: "Call contradicts the ad briefing",
+    defaultChannels: ["inApp"],
+  },
+  llm_budget_exceeded: {
+    label: "Monthly AI budget reached",
+    defaultChannels: ["inApp", "email"],
+  },
+} as const satisfies Record<string, { label: string; defaultChannels: readonly NotificationChannel[] }>;
+
+export type NotificationEvent = keyof typeof NOTIFICATION_EVENTS;
+
+export const NOTIFICATION_CHANNELS = ["inApp", "email", "slack", "telegram"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  inApp: "In-app",
+  email: "Email",
+  slack: "Slack",
+  telegram: "Telegram",
+};
+
+export const notificationEventValidator = v.union(
+  v.literal("transcript_needs_human"),
+  v.literal("script_generated"),
+  v.literal("script_generation_failed"),
+  v.literal("cron_job_failed"),
+  v.literal("onboarding_response_received"),
+  v.literal("briefing_contradiction"),
+  v.literal("llm_budget_exceeded")
+);
+
+export const notificationChannelValidator = v.union(
+  v.literal("inApp"),
+  v.literal("email"),
+  v.literal("slack"),
+  v.literal("telegram")
+);
+
+/**
+ * What a notification is about, so adapters can do more than send text
+ * (the Telegram adapter sends transcript prompts with client buttons)
+ */
+export const notificationSubjectValidator = v.object({
+  transcriptId: v.optional(v.string()),
+  clientId: v.optional(v.id("clients")),
+  scriptId: v.optional(v.id("scripts")),
+  suggestedClientId: v.optional(v.string()),
+});
+
+export type NotificationSubject = {
+  transcriptId?: string;
+  clientId?: Id<"clients">;
+  scriptId?: Id<"scripts">;
+  suggestedClientId?: string;
+};
+
+export type NotificationPreferenceEntry = {
+  eventType: NotificationEvent;
+  channels: NotificationChannel[];
+};
+
+export const notificationPreferenceEntryValidator = v.object({
+  eventType: notificationEventValidator,
+  channels: v.array(notificationChannelValidator),
+});
+
+export function channelsForEvent(
+  preferences: { events: NotificationPreferenceEntry[] } | null,
+  eventType: NotificationEvent
+): NotificationChannel[] {
+  const saved = preferences?.events.find((entry) => entry.eventType === eventType);
+  return saved ? saved.channels : [...NOTIFICATION_EVENTS[eventType].defaultChannels];
+}
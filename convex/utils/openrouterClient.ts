@@ -0,0 +1,76 @@
+import type { ActionCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { api, internal } from "../_generated/api";
+import {
+  llmBudgetExceededMessage,
+  usageFromOpenRouterResponse,
+  type LlmBudgetStatus,
+  type LlmFeature,
+  type OpenRouterUsage,
+} from "./llmUsage";
+
+const OPENROUTER_API_URL = "https://openrouter.ai/api/v1";
+
+/**
+ * Who a call is accounted to: the signed-in caller's organization, or an
+ * organization directly for background jobs
+ */
+export type OpenRouterUsageTags = {
+  feature: LlmFeature;
+  clientId?: Id<"clients">;
+} & ({ email: string } | { organizationId: Id<"organizations"> });
+
+/**
+ * POST to an OpenRouter endpoint from an action and record the call's usage
+ * in llm_usage. Throws when the organization's budget blocks new calls or the
+ * request fails; failing to record usage is only logged.
+ */
+export async function openRouterRequest<T>(
+  ctx: ActionCtx,
+  apiKey: string,
+  endpoint: "chat/completions" | "embeddings",
+  body: { model: string } & Record<string, unknown>,
+  tags: OpenRouterUsageTags
+): Promise<T> {
+  const budget: LlmBudgetStatus =
+    "email" in tags
+      ? await ctx.runQuery(api.llmUsage.getBudgetStatusForEmail, { email: tags.email })
+      : await ctx.runQuery(internal.llmUsage.getBudgetStatus, { organizationId: tags.organizationId });
+  if (budget.blocked) {
+    throw new Error(llmBudgetExceededMessage(budget));
+  }
+
+  const response = await fetch(`${OPENROUTER_API_URL}/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    // Chat completions only report cost when asked; embeddings always include usage
+    body: JSON.stringify(endpoint === "chat/completions" ? { ...body, usage: { include: true } } : body),
+  });
+  if (!response.ok) {
+    throw new Error(`OpenRouter ${endpoint} request failed with status ${response.status}`);
+  }
+
+  const data = (await response.json()) as T & { id?: unknown; model?: unknown; usage?: OpenRouterUsage };
+  const usage = usageFromOpenRouterResponse(data, body.model);
+  if (usage) {
+    try {
+      const { feature, clientId } = tags;
+      if ("email" in tags) {
+        await ctx.runMutation(internal.llmUsage.recordUsageForEmail, { email: tags.email, feature, clientId, ...usage });
+      } else {
+        await ctx.runMutation(internal.llmUsage.recordUsage, {
+          organizationId: tags.organizationId,
+          feature,
+          clientId,
+          ...usage,
+        });
+      }
+    } catch (error) {
+      console.error("[llmUsage] Failed to record usage", tags.feature, error);
+    }
+  }
+  return data;
+}
@@ -0,0 +1,204 @@
+import type { TableNames } from "../_generated/dataModel";
+import type { LlmBudgetMode } from "./llmUsage";
+
+/**
+ * Organization backup archives (see convex/organizationArchiveActions.ts).
+ *
+ * An archive is NDJSON: a header line, then one line per record in
+ * ARCHIVE_TABLES order, so every record comes after the records it refers
+ * to. Records keep their original IDs; imports insert them as new records
+ * and rewrite references through a map of old to new IDs.
+ *
+ * Left out: integration configs (API keys, OAuth tokens, webhook secrets and
+ * tokens must be set up again), webhook delivery logs, notifications,
+ * collaborative editing steps and presence, generation runs, client health
+ * snapshots, LLM usage records and the search index, which is rebuilt after
+ * an import.
+ */
+export const ARCHIVE_FORMAT = "gravitate-organization-archive";
+export const ARCHIVE_VERSION = 1;
+
+// Uploaded and exported archive files are deleted after this long
+export const ARCHIVE_FILE_TTL_MS = 60 * 60 * 1000;
+
+type ArchiveTableSpec = {
+  // Index whose first field is organizationId
+  index: "by_organization" | "by_organization_email";
+  // Fields holding IDs of earlier records, and the table they point into
+  refs: Record<string, TableNames>;
+  // Fields never exported: secrets and state that only makes sense in the source deployment
+  omit: string[];
+  // Settings the target organization may already have; they're replaced rather than blocking the import
+  replacesExisting?: boolean;
+};
+
+export const ARCHIVE_TABLES = {
+  organization_members: { index: "by_organization", refs: {}, omit: [] },
+  script_settings: { index: "by_organization", refs: {}, omit: ["email"], replacesExisting: true },
+  system_prompts: { index: "by_organization", refs: {}, omit: ["email"], replacesExisting: true },
+  notification_preferences: {
+    index: "by_organization_email",
+    refs: {},
+    omit: ["slackWebhookUrl"],
+    replacesExisting: true,
+  },
+  typeform_field_mappings: { index: "by_organization", refs: {}, omit: [] },
+  schedule_templates: { index: "by_organization", refs: {}, omit: [] },
+  clients: { index: "by_organization", refs: { scheduleTemplateId: "schedule_templates" }, omit: [] },
+  client_contacts: { index: "by_organization", refs: { clientId: "clients" }, omit: [] },
+  link_aliases: { index: "by_organization", refs: { clientId: "clients" }, omit: [] },
+  typeform_responses: { index: "by_organization", refs: {}, omit: [] },
+  fireflies_transcripts: { index: "by_organization", refs: { clientId: "clients" }, omit: [] },
+  transcript_insights: {
+    index: "by_organization",
+    refs: { clientId: "clients", transcriptId: "fireflies_transcripts" },
+    omit: [],
+  },
+  transcript_soundbites: { index: "by_organization", refs: { transcriptId: "fireflies_transcripts" }, omit: [] },
+  ad_briefings: { index: "by_organization", refs: { clientId: "clients" }, omit: [] },
+  cron_jobs: { index: "by_organization", refs: { clientId: "clients" }, omit: ["scheduledFunctionId"] },
+  scripts: {
+    index: "by_organization",
+    refs: { clientId: "clients" },
+    omit: ["collabVersion", "contentVersion", "collabResetVersion"],
+  },
+  script_revisions: {
+    index: "by_organization",
+    refs: { scriptId: "scripts", clientId: "clients", restoredFromRevisionId: "script_revisions" },
+    omit: [],
+  },
+  script_comments: {
+    index: "by_organization",
+    refs: { scriptId: "scripts", clientId: "clients", parentCommentId: "script_comments" },
+    omit: [],
+  },
+} as const satisfies Partial<Record<TableNames, ArchiveTableSpec>>;
+
+export type ArchiveTable = keyof typeof ARCHIVE_TABLES;
+
+export const ARCHIVE_TABLE_NAMES = Object.keys(ARCHIVE_TABLES) as ArchiveTable[];
+
+export function isArchiveTable(table: string): table is ArchiveTable {
+  return table in ARCHIVE_TABLES;
+}
+
+/**
+ * Whether importing the table replaces the target organization's records
+ * instead of requiring it to have none
+ */
+export function replacesExisting(table: ArchiveTable): boolean {
+  return "replacesExisting" in ARCHIVE_TABLES[table];
+}
+
+export type ArchiveHeader = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  exportedByEmail: string;
+  organization: {
+    name: string;
+    timezone?: string;
+    autoLinkThreshold?: number;
+    semanticSearchEnabled?: boolean;
+    monthlyLlmBudget?: number;
+    llmBudgetMode?: LlmBudgetMode;
+  };
+  counts: Partial<Record<ArchiveTable, number>>;
+};
+
+// Record fields without system fields or organizationId
+export type ArchiveDocument = Record<string, unknown>;
+
+export type ArchiveRecord = { table: ArchiveTable; id: string; doc: ArchiveDocument };
+
+/**
+ * The fields of a record to write to an archive
+ */
+export function toArchiveDocument(table: ArchiveTable, record: Record<string, unknown>): ArchiveDocument {
+  const omitted = new Set<string>(["_id", "_creationTime", "organizationId", ...ARCHIVE_TABLES[table].omit]);
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !omitted.has(field)));
+}
+
+/**
+ * Parse an archive's header, checking it's one this version can import
+ */
+export function parseArchiveHeader(line: string | undefined): ArchiveHeader {
+  let header: Partial<ArchiveHeader> | null = null;
+  try {
+    header = line ? (JSON.parse(line) as Partial<ArchiveHeader>) : null;
+  } catch {
+    header = null;
+  }
+  if (!header || header.format !== ARCHIVE_FORMAT) {
+    throw new Error("This file isn't an organization archive");
+  }
+  if (typeof header.version !== "number" || header.version > ARCHIVE_VERSION) {
+    throw new Error(`Archive version ${header.version} is newer than this app supports (${ARCHIVE_VERSION})`);
+  }
+  return header as ArchiveHeader;
+}
+
+export function parseArchiveRecord(line: string, lineNumber: number): ArchiveRecord {
+  const record = JSON.parse(line) as Partial<ArchiveRecord>;
+  if (!record.table || !isArchiveTable(record.table) || typeof record.id !== "string" || !record.doc) {
+    throw new Error(`Line ${lineNumber} of the archive isn't a record this app can import`);
+  }
+  return record as ArchiveRecord;
+}
+
+/**
+ * Rewrite a record's references to the IDs its targets were imported as.
+ * Returns null when a required reference points at a record that wasn't
+ * imported; optional ones are dropped. `idMap` holds old ID → new ID, and
+ * old → new cronJobId for cron jobs.
+ */
+export function remapArchiveDocument(
+  table: ArchiveTable,
+  doc: ArchiveDocument,
+  idMap: Map<string, string>
+): ArchiveDocument | null {
+  const remapped: ArchiveDocument = { ...doc };
+  for (const field of Object.keys(ARCHIVE_TABLES[table].refs)) {
+    const oldId = doc[field];
+    if (typeof oldId !== "string") continue;
+    const newId = idMap.get(oldId);
+    if (newId) {
+      remapped[field] = newId;
+    } else if (isRequiredRef(table, field)) {
+      return null;
+    } else {
+      delete remapped[field];
+    }
+  }
+
+  if (table === "fireflies_transcripts" && Array.isArray(doc.linkingHistory)) {
+    remapped.linkingHistory = (doc.linkingHistory as Array<{ clientId?: string }>).map(({ clientId, ...entry }) => {
+      const newClientId = clientId ? idMap.get(clientId) : undefined;
+      return newClientId ? { ...entry, clientId: newClientId } : entry;
+    });
+  }
+  if (table === "cron_jobs" && typeof doc.cronJobId === "string") {
+    // cronJobId is looked up across the deployment, so the copy gets its own
+    remapped.cronJobId = `cron_${remapped.clientId}_${doc.scheduledTime}_${Math.random().toString(36).substring(7)}`;
+  }
+  if (table === "scripts") {
+    const source = doc.source as { cronJobId?: string } | undefined;
+    if (source?.cronJobId) {
+      remapped.source = { ...source, cronJobId: idMap.get(source.cronJobId) ?? source.cronJobId };
+    }
+  }
+  return remapped;
+}
+
+// Optional reference fields in the schema; the rest are required
+const OPTIONAL_REFS = new Set([
+  "clients.scheduleTemplateId",
+  "fireflies_transcripts.clientId",
+  "script_revisions.restoredFromRevisionId",
+  "script_comments.clientId",
+  "script_comments.parentCommentId",
+]);
+
+function isRequiredRef(table: ArchiveTable, field: string): boolean {
+  return !OPTIONAL_REFS.has(`${table}.${field}`);
+}
@@ -1,5 +1,5 @@
 import type { QueryCtx, MutationCtx } from "../_generated/server";
-import type { Id } from "../_generated/dataModel";
+import type { Doc, Id } from "../_generated/dataModel";
 
 type ReadCtx = QueryCtx | MutationCtx;
 
@@ -51,3 +51,19 @@ export async function getOrCreateOrganizationIdForEmail(
 }
 
 
+
+/**
+ * Get a user's membership in a specific organization, or null if they are not a member.
+ */
+export async function getOrganizationMembership(
+  ctx: ReadCtx,
+  organizationId: Id<"organizations">,
+  email: string
+): Promise<Doc<"organization_members"> | null> {
+  return await ctx.db
+    .query("organization_members")
+    .withIndex("by_organization_email", (q) =>
+      q.eq("organizationId", organizationId).eq("email", email)
+    )
+    .unique();
+}
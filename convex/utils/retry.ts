@@ -0,0 +1,89 @@
+/**
+ * Retry helpers shared by the script generation pipeline (Next.js routes and
+ * the workflow worker).
+ */
+
+export type RetryOptions = {
+  // Total attempts including the first one
+  attempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Called before waiting for the next attempt
+  onRetry?: (info: { attempt: number; attempts: number; delayMs: number; error: unknown }) => void | Promise<void>;
+};
+
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 15000;
+
+/**
+ * An error that retrying cannot fix (missing records, access denied, bad input).
+ * `status` is the HTTP status a route should respond with.
+ */
+export class NonRetryableError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "NonRetryableError";
+    this.status = status;
+  }
+}
+
+/**
+ * An upstream HTTP failure. Retried for 408, 429 and 5xx responses.
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof NonRetryableError) return false;
+  if (error instanceof HttpStatusError) return isRetryableStatus(error.status);
+  return true;
+}
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, min(max, base * 2^(attempt-1))]
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(attempt - 1, 0));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run `fn` until it succeeds, it throws a non-retryable error, or attempts run out.
+ * The last error is rethrown.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const attempts = Math.max(options.attempts ?? DEFAULT_RETRY_ATTEMPTS, 1);
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      lastError = error;
+      if (attempt >= attempts || !isRetryableError(error)) {
+        break;
+      }
+      const delayMs = computeBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      await options.onRetry?.({ attempt, attempts, delayMs, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,333 @@
+import { v } from "convex/values";
+
+/**
+ * Schedule rules for recurring script generation.
+ *
+ * A rule produces run dates in the organization's timezone, counted from an
+ * anchor (the client's schedule start, defaulting to when the client was
+ * created). Only the next occurrence is stored as a `cron_jobs` record; when it
+ * runs, the following occurrence is computed from the rule again.
+ */
+
+export const DEFAULT_SCHEDULE_TIMEZONE = "America/New_York";
+
+export const SCHEDULE_FREQUENCIES = [
+  "weekly",
+  "biweekly",
+  "monthly_day",
+  "monthly_nth_weekday",
+  "custom_offsets",
+] as const;
+
+export type ScheduleFrequency = (typeof SCHEDULE_FREQUENCIES)[number];
+
+export type ScheduleRule = {
+  frequency: ScheduleFrequency;
+  // 0 = Sunday ... 6 = Saturday (weekly, biweekly, monthly_nth_weekday)
+  weekday?: number;
+  // 1-4, or -1 for the last such weekday of the month (monthly_nth_weekday)
+  nth?: number;
+  // 1-31; clamped to the month's last day (monthly_day)
+  dayOfMonth?: number;
+  // Days after the anchor (custom_offsets)
+  offsetsDays?: number[];
+  // After the last offset, repeat monthly on that day of the month (custom_offsets)
+  repeatMonthly?: boolean;
+  // Local hour of day to run at (default 0 = midnight)
+  hour?: number;
+};
+
+export const scheduleRuleValidator = v.object({
+  frequency: v.union(
+    v.literal("weekly"),
+    v.literal("biweekly"),
+    v.literal("monthly_day"),
+    v.literal("monthly_nth_weekday"),
+    v.literal("custom_offsets")
+  ),
+  weekday: v.optional(v.number()),
+  nth: v.optional(v.number()),
+  dayOfMonth: v.optional(v.number()),
+  offsetsDays: v.optional(v.array(v.number())),
+  repeatMonthly: v.optional(v.boolean()),
+  hour: v.optional(v.number()),
+});
+
+/**
+ * The original fixed cadence: 25 days after the anchor, 30 days after that,
+ * then monthly on the day of that second run.
+ */
+export const DEFAULT_SCHEDULE_RULE: ScheduleRule = {
+  frequency: "custom_offsets",
+  offsetsDays: [25, 55],
+  repeatMonthly: true,
+};
+
+/**
+ * Monthly from the anchor date itself (used when a client skips the 25-day run)
+ */
+export const MONTHLY_FROM_ANCHOR_RULE: ScheduleRule = {
+  frequency: "custom_offsets",
+  offsetsDays: [0],
+  repeatMonthly: true,
+};
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const NTH_NAMES: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? "st" : n % 10 === 2 && n % 100 !== 12 ? "nd" : n % 10 === 3 && n % 100 !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+}
+
+/**
+ * Human-readable summary, e.g. "Every other Tuesday" or "Monthly on the last Friday"
+ */
+export function describeScheduleRule(rule: ScheduleRule): string {
+  const weekday = WEEKDAY_NAMES[rule.weekday ?? 1] ?? "Monday";
+  switch (rule.frequency) {
+    case "weekly":
+      return `Every ${weekday}`;
+    case "biweekly":
+      return `Every other ${weekday}`;
+    case "monthly_day":
+      return `Monthly on the ${ordinal(rule.dayOfMonth ?? 1)}`;
+    case "monthly_nth_weekday":
+      return `Monthly on the ${NTH_NAMES[rule.nth ?? 1] ?? "first"} ${weekday}`;
+    case "custom_offsets": {
+      const offsets = rule.offsetsDays ?? [];
+      const offsetsText = offsets.length > 0 ? `${offsets.join(", ")} days after start` : "No runs";
+      return rule.repeatMonthly ? `${offsetsText}, then monthly on that day` : offsetsText;
+    }
+  }
+}
+
+/**
+ * Returns an error message for an invalid rule, or null when it is usable
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | null {
+  const isInt = (n: unknown) => typeof n === "number" && Number.isInteger(n);
+  if (rule.hour !== undefined && (!isInt(rule.hour) || rule.hour < 0 || rule.hour > 23)) {
+    return "Hour must be between 0 and 23";
+  }
+  switch (rule.frequency) {
+    case "weekly":
+    case "biweekly":
+      if (!isInt(rule.weekday) || rule.weekday! < 0 || rule.weekday! > 6) return "Pick a day of the week";
+      return null;
+    case "monthly_day":
+      if (!isInt(rule.dayOfMonth) || rule.dayOfMonth! < 1 || rule.dayOfMonth! > 31) return "Day of month must be between 1 and 31";
+      return null;
+    case "monthly_nth_weekday":
+      if (!isInt(rule.weekday) || rule.weekday! < 0 || rule.weekday! > 6) return "Pick a day of the week";
+      if (!isInt(rule.nth) || ![1, 2, 3, 4, -1].includes(rule.nth!)) return "Pick first, second, third, fourth or last";
+      return null;
+    case "custom_offsets":
+      if (!rule.offsetsDays || rule.offsetsDays.length === 0) return "Add at least one offset";
+      if (rule.offsetsDays.some((d) => !isInt(d) || d < 0 || d > 3650)) return "Offsets must be whole days between 0 and 3650";
+      return null;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timezone helpers
+// ---------------------------------------------------------------------------
+
+function getTimeZoneOffsetMs(tz: string, d: Date): number {
+  // Convert a UTC date into tz calendar parts, then compare epoch
+  const dtf = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hour12: false,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const parts = dtf.formatToParts(d).reduce<Record<string, string>>((acc, p) => {
+    if (p.type !== "literal") acc[p.type] = p.value;
+    return acc;
+  }, {});
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour) % 24,
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - d.getTime();
+}
+
+/**
+ * UTC epoch ms of a wall-clock time in `tz`
+ */
+export function zonedTimeToUtc(year: number, monthIndex: number, day: number, hour: number, tz: string): number {
+  const wallAsUtc = Date.UTC(year, monthIndex, day, hour, 0, 0);
+  const offset = getTimeZoneOffsetMs(tz, new Date(wallAsUtc));
+  let utc = wallAsUtc - offset;
+  // Recompute in case DST boundary changed the offset
+  const offset2 = getTimeZoneOffsetMs(tz, new Date(utc));
+  if (offset2 !== offset) {
+    utc = wallAsUtc - offset2;
+  }
+  return utc;
+}
+
+export type ZonedDateParts = { year: number; monthIndex: number; day: number };
+
+/**
+ * Calendar date of an instant as seen in `tz`
+ */
+export function getZonedDateParts(ms: number, tz: string): ZonedDateParts {
+  const dtf = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  const parts = dtf.formatToParts(new Date(ms)).reduce<Record<string, string>>((acc, p) => {
+    if (p.type !== "literal") acc[p.type] = p.value;
+    return acc;
+  }, {});
+  return {
+    year: Number(parts.year),
+    monthIndex: Number(parts.month) - 1,
+    day: Number(parts.day),
+  };
+}
+
+/**
+ * Midnight (or `hour`) in `tz` on the calendar day `ms` falls on in `tz`
+ */
+export function startOfZonedDay(ms: number, tz: string, hour = 0): number {
+  const { year, monthIndex, day } = getZonedDateParts(ms, tz);
+  return zonedTimeToUtc(year, monthIndex, day, hour, tz);
+}
+
+// ---------------------------------------------------------------------------
+// Occurrence generation (pure calendar math on local dates)
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since epoch for a calendar date; timezone-free
+function dayNumber(d: ZonedDateParts): number {
+  return Math.floor(Date.UTC(d.year, d.monthIndex, d.day) / DAY_MS);
+}
+
+function fromDayNumber(n: number): ZonedDateParts {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), monthIndex: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function weekdayOf(d: ZonedDateParts): number {
+  return new Date(Date.UTC(d.year, d.monthIndex, d.day)).getUTCDay();
+}
+
+function matchesDay(rule: ScheduleRule, d: ZonedDateParts, anchor: ZonedDateParts): boolean {
+  switch (rule.frequency) {
+    case "weekly":
+      return weekdayOf(d) === rule.weekday;
+    case "biweekly": {
+      if (weekdayOf(d) !== rule.weekday) return false;
+      const weeks = Math.floor((dayNumber(d) - dayNumber(anchor)) / 7);
+      return ((weeks % 2) + 2) % 2 === 0;
+    }
+    case "monthly_day":
+      return d.day === Math.min(rule.dayOfMonth ?? 1, daysInMonth(d.year, d.monthIndex));
+    case "monthly_nth_weekday": {
+      if (weekdayOf(d) !== rule.weekday) return false;
+      if (rule.nth === -1) return d.day + 7 > daysInMonth(d.year, d.monthIndex);
+      return Math.ceil(d.day / 7) === (rule.nth ?? 1);
+    }
+    case "custom_offsets":
+      return false;
+  }
+}
+
+/**
+ * Dates produced by a custom_offsets rule, in order, up to `count` past `after`
+ */
+function customOffsetDates(rule: ScheduleRule, anchor: ZonedDateParts, afterDay: number, count: number): ZonedDateParts[] {
+  const offsets = Array.from(new Set(rule.offsetsDays ?? [])).sort((a, b) => a - b);
+  const dates = offsets.map((o) => fromDayNumber(dayNumber(anchor) + o));
+  const result = dates.filter((d) => dayNumber(d) >= afterDay);
+  if (!rule.repeatMonthly || dates.length === 0) {
+    return result.slice(0, count);
+  }
+
+  // Monthly on the day of the last offset date, clamped to short months
+  const last = dates[dates.length - 1];
+  let year = last.year;
+  let monthIndex = last.monthIndex;
+  for (let i = 0; result.length < count && i < 1200; i++) {
+    monthIndex++;
+    if (monthIndex > 11) {
+      monthIndex = 0;
+      year++;
+    }
+    const d = { year, monthIndex, day: Math.min(last.day, daysInMonth(year, monthIndex)) };
+    if (dayNumber(d) >= afterDay) result.push(d);
+  }
+  return result.slice(0, count);
+}
+
+/**
+ * Next `count` run times (UTC ms) strictly after `after`
+ */
+export function computeNextRunTimes(
+  rule: ScheduleRule,
+  options: { anchor: number; after: number; timezone?: string; count?: number }
+): number[] {
+  const tz = options.timezone && isValidTimeZone(options.timezone) ? options.timezone : DEFAULT_SCHEDULE_TIMEZONE;
+  const count = Math.max(options.count ?? 1, 0);
+  const hour = rule.hour ?? 0;
+  if (count === 0 || validateScheduleRule(rule)) return [];
+
+  const anchor = getZonedDateParts(options.anchor, tz);
+  const afterDay = dayNumber(getZonedDateParts(options.after, tz));
+  const toUtc = (d: ZonedDateParts) => zonedTimeToUtc(d.year, d.monthIndex, d.day, hour, tz);
+
+  if (rule.frequency === "custom_offsets") {
+    // Over-fetch by one: the first date may be today but already past `after`
+    return customOffsetDates(rule, anchor, afterDay, count + 1)
+      .map(toUtc)
+      .filter((t) => t > options.after)
+      .slice(0, count);
+  }
+
+  const result: number[] = [];
+  // ~2 years of days covers 12+ occurrences of any monthly rule
+  for (let n = afterDay; result.length < count && n < afterDay + 366 * 2 * Math.max(1, Math.ceil(count / 12)); n++) {
+    const d = fromDayNumber(n);
+    if (!matchesDay(rule, d, anchor)) continue;
+    const t = toUtc(d);
+    if (t > options.after) result.push(t);
+  }
+  return result;
+}
+
+/**
+ * Next run time after `after`, or null when the rule has no more occurrences
+ */
+export function computeNextRunTime(
+  rule: ScheduleRule,
+  options: { anchor: number; after: number; timezone?: string }
+): number | null {
+  return computeNextRunTimes(rule, { ...options, count: 1 })[0] ?? null;
+}
@@ -0,0 +1,186 @@
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import {
+  DEFAULT_SCHEDULE_RULE,
+  DEFAULT_SCHEDULE_TIMEZONE,
+  MONTHLY_FROM_ANCHOR_RULE,
+  computeNextRunTimes,
+  getZonedDateParts,
+  isValidTimeZone,
+  type ScheduleRule,
+} from "./schedule";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+export type EffectiveSchedule = {
+  rule: ScheduleRule;
+  // Where the rule came from
+  source: "client" | "template" | "org_default" | "default";
+  templateId?: Id<"schedule_templates">;
+  templateName?: string;
+  timezone: string;
+  anchor: number;
+};
+
+export async function getOrganizationTimezone(
+  ctx: ReadCtx,
+  organizationId: Id<"organizations"> | undefined
+): Promise<string> {
+  const org = organizationId ? await ctx.db.get(organizationId) : null;
+  return org?.timezone && isValidTimeZone(org.timezone) ? org.timezone : DEFAULT_SCHEDULE_TIMEZONE;
+}
+
+/**
+ * Resolve the schedule that applies to a client: its own rule, its template,
+ * the organization's default template, or the built-in default.
+ */
+export async function resolveClientSchedule(ctx: ReadCtx, client: Doc<"clients">): Promise<EffectiveSchedule> {
+  const timezone = await getOrganizationTimezone(ctx, client.organizationId);
+  const anchor = client.scheduleAnchorTime ?? client.createdAt;
+
+  if (client.scheduleRule) {
+    return { rule: client.scheduleRule, source: "client", timezone, anchor };
+  }
+
+  if (client.scheduleTemplateId) {
+    const template = await ctx.db.get(client.scheduleTemplateId);
+    if (template) {
+      return { rule: template.rule, source: "template", templateId: template._id, templateName: template.name, timezone, anchor };
+    }
+  }
+
+  if (client.organizationId) {
+    const templates = await ctx.db
+      .query("schedule_templates")
+      .withIndex("by_organization", (q) => q.eq("organizationId", client.organizationId))
+      .collect();
+    const orgDefault = templates.find((t) => t.isDefault);
+    if (orgDefault) {
+      return { rule: orgDefault.rule, source: "org_default", templateId: orgDefault._id, templateName: orgDefault.name, timezone, anchor };
+    }
+  }
+
+  return { rule: DEFAULT_SCHEDULE_RULE, source: "default", timezone, anchor };
+}
+
+/**
+ * Schedule executeCronJob with Convex's scheduler and record the job with the
+ * scheduled function ID, so cancelling the job also cancels the function.
+ * `isRepeating` records whether the rule has further occurrences after this one.
+ */
+export async function createScheduledCronJob(
+  ctx: MutationCtx,
+  client: Doc<"clients">,
+  params: { ownerEmail: string; scheduledTime: number; isRepeating: boolean; timezone: string }
+): Promise<string> {
+  const now = Date.now();
+  const cronJobId = `cron_${client._id}_${params.scheduledTime}_${Math.random().toString(36).substring(7)}`;
+  const scheduledFunctionId = await ctx.scheduler.runAt(
+    Math.max(params.scheduledTime, now),
+    internal.cronJobs.executeCronJob,
+    { cronJobId, clientId: client._id, ownerEmail: params.ownerEmail }
+  );
+  await ctx.db.insert("cron_jobs", {
+    organizationId: client.organizationId,
+    ownerEmail: params.ownerEmail,
+    clientId: client._id,
+    cronJobId,
+    scheduledFunctionId,
+    scheduledTime: params.scheduledTime,
+    dayOfMonth: getZonedDateParts(params.scheduledTime, params.timezone).day,
+    isRepeating: params.isRepeating,
+    status: "scheduled",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return cronJobId;
+}
+
+/**
+ * Cancel a job's scheduled function if it has not started yet
+ */
+export async function cancelScheduledFunction(ctx: MutationCtx, job: Doc<"cron_jobs">): Promise<void> {
+  if (!job.scheduledFunctionId) {
+    return;
+  }
+  const scheduled = await ctx.db.system.get(job.scheduledFunctionId);
+  if (scheduled?.state.kind === "pending") {
+    await ctx.scheduler.cancel(job.scheduledFunctionId);
+  }
+}
+
+/**
+ * Mark every scheduled job for a client as cancelled and cancel their scheduled functions
+ */
+export async function cancelScheduledCronJobs(ctx: MutationCtx, clientId: Id<"clients">): Promise<number> {
+  const jobs = await ctx.db
+    .query("cron_jobs")
+    .withIndex("by_client", (q) => q.eq("clientId", clientId))
+    .filter((q) => q.eq(q.field("status"), "scheduled"))
+    .collect();
+  const now = Date.now();
+  for (const job of jobs) {
+    await cancelScheduledFunction(ctx, job);
+    await ctx.db.patch(job._id, { status: "cancelled", updatedAt: now });
+  }
+  return jobs.length;
+}
+
+/**
+ * Schedule the client's next occurrence strictly after `after`.
+ * Returns null when the rule has no further occurrences.
+ */
+export async function scheduleNextOccurrence(
+  ctx: MutationCtx,
+  client: Doc<"clients">,
+  params: { ownerEmail: string; after: number; rule?: ScheduleRule; anchor?: number }
+): Promise<{ cronJobId: string; scheduledTime: number } | null> {
+  const schedule = await resolveClientSchedule(ctx, client);
+  const rule = params.rule ?? schedule.rule;
+  const [next, following] = computeNextRunTimes(rule, {
+    anchor: params.anchor ?? schedule.anchor,
+    after: params.after,
+    timezone: schedule.timezone,
+    count: 2,
+  });
+  if (next === undefined) {
+    return null;
+  }
+  const cronJobId = await createScheduledCronJob(ctx, client, {
+    ownerEmail: params.ownerEmail,
+    scheduledTime: next,
+    isRepeating: following !== undefined,
+    timezone: schedule.timezone,
+  });
+  return { cronJobId, scheduledTime: next };
+}
+
+/**
+ * Cancel a client's scheduled jobs and schedule the next occurrence of its
+ * current rule. Runs in one mutation so there is never a window with two
+ * scheduled jobs or none.
+ *
+ * `legacy` carries the old baseTime/skipFirstJob arguments; they only apply when
+ * the client has no stored anchor or rule of its own.
+ */
+export async function rescheduleClientJobs(
+  ctx: MutationCtx,
+  client: Doc<"clients">,
+  ownerEmail: string,
+  legacy: { baseTime?: number; skipFirstJob?: boolean } = {}
+): Promise<{ cronJobId: string; scheduledTime: number } | null> {
+  await cancelScheduledCronJobs(ctx, client._id);
+  if (client.cronJobEnabled === false) {
+    return null;
+  }
+
+  const schedule = await resolveClientSchedule(ctx, client);
+  const useLegacySkip = legacy.skipFirstJob === true && schedule.source === "default";
+  return await scheduleNextOccurrence(ctx, client, {
+    ownerEmail,
+    after: Date.now(),
+    rule: useLegacySkip ? MONTHLY_FROM_ANCHOR_RULE : schedule.rule,
+    anchor: client.scheduleAnchorTime ?? legacy.baseTime ?? schedule.anchor,
+  });
+}
@@ -0,0 +1,18 @@
+import type { QueryCtx, MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { getAuthorizedRecord, type Permission } from "./authorization";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+/**
+ * Load a script the signed-in user may access: they must be `email` and a
+ * member of the script's organization whose role allows `permission`.
+ */
+export async function getScriptForMember(
+  ctx: ReadCtx,
+  scriptId: Id<"scripts">,
+  email: string,
+  permission: Permission = "scripts.read"
+): Promise<Doc<"scripts">> {
+  return await getAuthorizedRecord(ctx, await ctx.db.get(scriptId), permission, email);
+}
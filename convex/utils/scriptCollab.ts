@@ -0,0 +1,38 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc } from "../_generated/dataModel";
+import { statusAfterContentEdit } from "./scriptReview";
+
+/**
+ * Collaborative editing uses the prosemirror-collab model: each editor submits
+ * steps against the latest version it has seen, the server accepts them only
+ * if that version is current, and everyone rebases on the accepted steps.
+ * scripts.contentHtml is a snapshot taken at scripts.contentVersion; a new
+ * editor loads the snapshot and replays the steps after it.
+ */
+
+// Steps kept behind the latest snapshot so slightly stale editors can catch up
+export const STEP_HISTORY = 200;
+
+// Presence rows older than this are treated as gone
+export const PRESENCE_TTL_MS = 30 * 1000;
+
+/**
+ * Replace a script's content outside the editor (restores, full overwrites).
+ * Open editors can't rebase onto a wholesale replacement, so this starts a new
+ * version that tells them to reload the snapshot.
+ */
+export async function replaceScriptContent(
+  ctx: MutationCtx,
+  script: Doc<"scripts">,
+  contentHtml: string
+): Promise<void> {
+  const version = (script.collabVersion ?? 0) + 1;
+  await ctx.db.patch(script._id, {
+    contentHtml,
+    collabVersion: version,
+    contentVersion: version,
+    collabResetVersion: version,
+    updatedAt: Date.now(),
+    ...(contentHtml !== script.contentHtml && { status: statusAfterContentEdit(script.status) }),
+  });
+}
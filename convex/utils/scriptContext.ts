@@ -0,0 +1,45 @@
+import { v } from "convex/values";
+
+/**
+ * Defaults for assembling script generation context
+ */
+export const DEFAULT_CONTEXT_TRANSCRIPT_LIMIT = 3;
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 12000;
+export const DEFAULT_CONTEXT_PREVIOUS_SCRIPT_LIMIT = 2;
+
+export type ScriptContextSourceType =
+  | "onboarding_response"
+  | "transcript"
+  | "ad_briefing"
+  | "client_notes"
+  | "soundbites"
+  | "previous_script";
+
+/**
+ * One piece of context that was included in a generation prompt
+ */
+export type ScriptContextSource = {
+  type: ScriptContextSourceType;
+  // Identifier of the underlying record (responseId, transcriptId, script _id, ...)
+  refId?: string;
+  label: string;
+  // Approximate tokens this source contributed to the prompt
+  tokens: number;
+  // True when the source was shortened to fit the token budget
+  truncated?: boolean;
+};
+
+export const scriptContextSourceValidator = v.object({
+  type: v.union(
+    v.literal("onboarding_response"),
+    v.literal("transcript"),
+    v.literal("ad_briefing"),
+    v.literal("client_notes"),
+    v.literal("soundbites"),
+    v.literal("previous_script")
+  ),
+  refId: v.optional(v.string()),
+  label: v.string(),
+  tokens: v.number(),
+  truncated: v.optional(v.boolean()),
+});
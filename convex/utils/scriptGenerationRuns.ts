@@ -0,0 +1,47 @@
+import { v } from "convex/values";
+
+/**
+ * Steps of the response → script pipeline, in order.
+ * Each step is retried on its own and its output is checkpointed on the run,
+ * so a failed or interrupted run can resume from the step that failed.
+ */
+export const SCRIPT_GENERATION_STEPS = [
+  "fetch_response",
+  "extract_client",
+  "generate",
+  "store",
+  "drive_export",
+] as const;
+
+export type ScriptGenerationStep = (typeof SCRIPT_GENERATION_STEPS)[number];
+
+/**
+ * Runs still "started"/"generating"/"storing" after this long are considered stuck
+ */
+export const STUCK_RUN_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * How many times the sweeper resumes a stuck run before failing it
+ */
+export const MAX_AUTO_RESUMES = 2;
+
+const checkpointFields = {
+  clientId: v.optional(v.id("clients")),
+  model: v.optional(v.string()),
+  thinkingEffort: v.optional(v.union(v.literal("low"), v.literal("medium"), v.literal("high"))),
+  scriptHtml: v.optional(v.string()),
+  scriptId: v.optional(v.id("scripts")),
+};
+
+/**
+ * Intermediate results saved as steps complete
+ */
+export const runCheckpointValidator = v.object({
+  completedSteps: v.array(v.string()),
+  ...checkpointFields,
+});
+
+/**
+ * Fields a step may add to the checkpoint when it succeeds
+ */
+export const runCheckpointUpdateValidator = v.object(checkpointFields);
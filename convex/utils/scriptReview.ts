@@ -0,0 +1,104 @@
+import { v } from "convex/values";
+
+/**
+ * Script review workflow: draft → in_review → approved → delivered.
+ * Requesting changes sends an in-review script back to draft, and editing an
+ * approved script invalidates the approval. "final" is the pre-review status of
+ * older scripts and is treated as approved.
+ */
+export const SCRIPT_STATUSES = ["draft", "in_review", "approved", "delivered", "final"] as const;
+
+export type ScriptStatus = (typeof SCRIPT_STATUSES)[number];
+
+export const scriptStatusValidator = v.union(
+  v.literal("draft"),
+  v.literal("in_review"),
+  v.literal("approved"),
+  v.literal("delivered"),
+  v.literal("final") // Deprecated - scripts finalized before the review workflow
+);
+
+export const SCRIPT_STATUS_LABELS: Record<ScriptStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  delivered: "Delivered",
+  final: "Approved",
+};
+
+export const SCRIPT_COMMENT_KINDS = ["comment", "changes_requested", "approval"] as const;
+
+export type ScriptCommentKind = (typeof SCRIPT_COMMENT_KINDS)[number];
+
+export const scriptCommentKindValidator = v.union(
+  v.literal("comment"),
+  v.literal("changes_requested"),
+  v.literal("approval")
+);
+
+/**
+ * Points a comment at a section of the script. Sections are split on headings;
+ * the heading text is kept so the comment still reads sensibly if sections move.
+ */
+export const scriptSectionAnchorValidator = v.object({
+  sectionIndex: v.number(),
+  sectionHeading: v.optional(v.string()),
+});
+
+export type ScriptSectionAnchor = {
+  sectionIndex: number;
+  sectionHeading?: string;
+};
+
+/**
+ * Whether a script may be exported to Google Drive
+ */
+export function isScriptApproved(status: ScriptStatus): boolean {
+  return status === "approved" || status === "delivered" || status === "final";
+}
+
+/**
+ * Status after the script's content changes. Edits invalidate an approval.
+ */
+export function statusAfterContentEdit(status: ScriptStatus): ScriptStatus {
+  return isScriptApproved(status) ? "draft" : status;
+}
+
+export type ScriptSection = {
+  index: number;
+  heading: string;
+};
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Split script HTML into sections at h1-h3 headings.
+ * Content before the first heading (if any) is section 0, "Opening".
+ */
+export function getScriptSections(html: string): ScriptSection[] {
+  const headingPattern = /<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/gi;
+  const sections: ScriptSection[] = [];
+  let match: RegExpExecArray | null;
+  let firstHeadingAt: number | null = null;
+  while ((match = headingPattern.exec(html)) !== null) {
+    if (firstHeadingAt === null) firstHeadingAt = match.index;
+    const heading = stripTags(match[1]);
+    if (heading) sections.push({ index: 0, heading });
+  }
+  const leading = stripTags(firstHeadingAt === null ? html : html.slice(0, firstHeadingAt));
+  if (leading || sections.length === 0) {
+    sections.unshift({ index: 0, heading: "Opening" });
+  }
+  return sections.map((section, index) => ({ ...section, index }));
+}
@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+export type ScriptRevisionSource = "generation" | "manual" | "ai_edit" | "restore";
+
+export const scriptRevisionSourceValidator = v.union(
+  v.literal("generation"),
+  v.literal("manual"),
+  v.literal("ai_edit"),
+  v.literal("restore")
+);
+
+/**
+ * Consecutive manual saves by the same author within this window update a
+ * single revision instead of creating a new one (autosave fires per keystroke).
+ */
+export const MANUAL_REVISION_COALESCE_MS = 5 * 60 * 1000;
+
+/**
+ * Record a snapshot of a script's content.
+ * Returns the ID of the inserted (or coalesced) revision.
+ */
+export async function recordScriptRevision(
+  ctx: MutationCtx,
+  script: Doc<"scripts">,
+  args: {
+    contentHtml: string;
+    source: ScriptRevisionSource;
+    authorEmail?: string;
+    restoredFromRevisionId?: Id<"script_revisions">;
+  }
+): Promise<Id<"script_revisions">> {
+  const now = Date.now();
+  const latest = await ctx.db
+    .query("script_revisions")
+    .withIndex("by_script", (q) => q.eq("scriptId", script._id))
+    .order("desc")
+    .first();
+
+  // Scripts created before revisions existed have no history yet; keep their
+  // current content as the baseline so the first edit can be compared/restored.
+  if (!latest && script.contentHtml !== args.contentHtml) {
+    await ctx.db.insert("script_revisions", {
+      organizationId: script.organizationId,
+      scriptId: script._id,
+      clientId: script.clientId,
+      contentHtml: script.contentHtml,
+      source: "generation",
+      authorEmail: script.ownerEmail,
+      createdAt: script.createdAt,
+      updatedAt: script.createdAt,
+    });
+  }
+
+  if (latest && latest.contentHtml === args.contentHtml) {
+    return latest._id;
+  }
+
+  if (
+    latest &&
+    args.source === "manual" &&
+    latest.source === "manual" &&
+    latest.authorEmail === args.authorEmail &&
+    now - latest.updatedAt < MANUAL_REVISION_COALESCE_MS
+  ) {
+    await ctx.db.patch(latest._id, {
+      contentHtml: args.contentHtml,
+      updatedAt: now,
+    });
+    return latest._id;
+  }
+
+  return await ctx.db.insert("script_revisions", {
+    organizationId: script.organizationId,
+    scriptId: script._id,
+    clientId: script.clientId,
+    contentHtml: args.contentHtml,
+    source: args.source,
+    authorEmail: args.authorEmail,
+    restoredFromRevisionId: args.restoredFromRevisionId,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+
+/**
+ * Global search over transcripts, onboarding responses, scripts and client
+ * notes. Each record is split into chunks in search_documents, which carry a
+ * full-text index and, for organizations with semantic search on, an
+ * embedding in a vector index. Plain helpers only; indexing lives in
+ * searchIndexing.ts.
+ */
+export const SEARCH_SOURCES = ["transcript", "response", "script", "client_note"] as const;
+
+export type SearchSource = (typeof SEARCH_SOURCES)[number];
+
+export const SEARCH_SOURCE_LABELS: Record<SearchSource, string> = {
+  transcript: "Transcripts",
+  response: "Onboarding responses",
+  script: "Scripts",
+  client_note: "Client notes",
+};
+
+export const searchSourceValidator = v.union(
+  v.literal("transcript"),
+  v.literal("response"),
+  v.literal("script"),
+  v.literal("client_note")
+);
+
+export const searchFiltersValidator = {
+  source: v.optional(searchSourceValidator),
+  clientId: v.optional(v.id("clients")),
+  // Record dates (meeting date, response sync, script creation), inclusive
+  from: v.optional(v.number()),
+  to: v.optional(v.number()),
+};
+
+// Model and size of the vector index in schema.ts; changing either means
+// clearing every stored embedding
+export const EMBEDDING_MODEL = "openai/text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = 1536;
+
+// Chunks stay well under the full-text index's per-document term limit and
+// are small enough that one chunk is one topic for the embedding
+const CHUNK_SIZE = 1200;
+const SNIPPET_RADIUS = 90;
+
+export type SearchSnippet = {
+  text: string;
+  // [start, end) character ranges of matched terms within text
+  highlights: Array<[number, number]>;
+};
+
+export type SearchResult = {
+  source: SearchSource;
+  sourceId: string;
+  title: string;
+  clientId: string | null;
+  clientName: string | null;
+  date: number;
+  snippet: SearchSnippet;
+  // App path to open the record
+  href: string;
+  // Vector similarity in semantic mode; full-text results are ranked by relevance
+  score?: number;
+};
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6])\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n")
+    .trim();
+}
+
+/**
+ * Split text into chunks of about CHUNK_SIZE characters, breaking at line
+ * ends, then sentence ends, then spaces
+ */
+export function chunkText(text: string, size: number = CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    const breakAt = Math.max(
+      window.lastIndexOf("\n"),
+      window.lastIndexOf(". "),
+      window.lastIndexOf("? "),
+      window.lastIndexOf("! ")
+    );
+    const cut = breakAt > size / 2 ? breakAt + 1 : window.lastIndexOf(" ") > size / 2 ? window.lastIndexOf(" ") : size;
+    chunks.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+export function getQueryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])].filter((term) => term.length > 1);
+}
+
+/**
+ * A window of the chunk around its first matching term, with every term
+ * occurrence in the window marked. Full-text search also matches on prefixes
+ * of the last term, so terms are matched as word prefixes.
+ */
+export function buildSnippet(text: string, query: string): SearchSnippet {
+  const terms = getQueryTerms(query);
+  const pattern = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})`, "giu")
+    : null;
+
+  const first = pattern ? pattern.exec(text) : null;
+  const center = first ? first.index : 0;
+  let start = Math.max(0, center - SNIPPET_RADIUS);
+  let end = Math.min(text.length, center + SNIPPET_RADIUS * 2);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 || space > center ? start : space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > center ? space : end;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const window = text.slice(start, end).replace(/\s+/g, " ");
+  const highlights: Array<[number, number]> = [];
+  if (pattern) {
+    pattern.lastIndex = 0;
+    for (const match of window.matchAll(pattern)) {
+      const at = prefix.length + (match.index ?? 0);
+      highlights.push([at, at + match[0].length]);
+    }
+  }
+  return { text: `${prefix}${window}${suffix}`, highlights };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Where a result opens: the client's page when the record belongs to one,
+ * otherwise the screen for resolving unlinked records
+ */
+export function getSearchResultHref(source: SearchSource, sourceKey: string, clientId: string | null): string {
+  if (clientId) {
+    return `/dashboard/clients/${clientId}`;
+  }
+  if (source === "transcript") {
+    return `/resolve-transcript/${sourceKey}`;
+  }
+  return "/unlinked";
+}
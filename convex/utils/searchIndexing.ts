@@ -0,0 +1,153 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { chunkText, htmlToText, type SearchSource } from "./search";
+
+type SearchRecord = {
+  organizationId: Id<"organizations">;
+  sourceKey: string;
+  clientId?: Id<"clients">;
+  title: string;
+  date: number;
+  text: string;
+};
+
+/**
+ * Re-index a record after the mutation that changed it commits. Call this
+ * wherever transcripts, responses, scripts or client notes are written or
+ * deleted; records missed here are picked up by a rebuild from Settings.
+ */
+export async function scheduleSearchIndexing(ctx: MutationCtx, source: SearchSource, sourceId: string) {
+  await ctx.scheduler.runAfter(0, internal.search.indexSource, { source, sourceId });
+}
+
+function transcriptText(transcript: Doc<"fireflies_transcripts">): string {
+  // Speaker labels make "what did Jane say about..." searchable
+  const body = transcript.sentences?.length
+    ? transcript.sentences
+        .map((sentence) => (sentence.speakerName ? `${sentence.speakerName}: ${sentence.text}` : sentence.text))
+        .join("\n")
+    : transcript.transcript;
+  return [body, transcript.notes].filter(Boolean).join("\n");
+}
+
+async function loadSearchRecord(ctx: MutationCtx, source: SearchSource, sourceId: string): Promise<SearchRecord | null> {
+  switch (source) {
+    case "transcript": {
+      const id = ctx.db.normalizeId("fireflies_transcripts", sourceId);
+      const transcript = id ? await ctx.db.get(id) : null;
+      if (!transcript) return null;
+      return {
+        organizationId: transcript.organizationId,
+        sourceKey: transcript.transcriptId,
+        clientId: transcript.clientId,
+        title: transcript.title,
+        date: transcript.date,
+        text: transcriptText(transcript),
+      };
+    }
+    case "response": {
+      const id = ctx.db.normalizeId("typeform_responses", sourceId);
+      const response = id ? await ctx.db.get(id) : null;
+      if (!response) return null;
+      // Responses belong to the client created from them
+      const clients = await ctx.db
+        .query("clients")
+        .withIndex("by_organization", (q) => q.eq("organizationId", response.organizationId))
+        .collect();
+      const client = clients.find((candidate) => candidate.onboardingResponseId === response.responseId);
+      return {
+        organizationId: response.organizationId,
+        sourceKey: response.responseId,
+        clientId: client?._id,
+        title: client ? `Onboarding response · ${client.businessName}` : `Onboarding response ${response.responseId}`,
+        date: response.syncedAt,
+        text: (response.qaPairs ?? []).map((qa) => `Q: ${qa.question}\nA: ${qa.answer}`).join("\n"),
+      };
+    }
+    case "script": {
+      const id = ctx.db.normalizeId("scripts", sourceId);
+      const script = id ? await ctx.db.get(id) : null;
+      if (!script) return null;
+      return {
+        organizationId: script.organizationId,
+        sourceKey: script._id,
+        clientId: script.clientId,
+        title: script.title,
+        date: script.createdAt,
+        text: htmlToText(script.contentHtml),
+      };
+    }
+    case "client_note": {
+      const id = ctx.db.normalizeId("clients", sourceId);
+      const client = id ? await ctx.db.get(id) : null;
+      if (!client?.notes) return null;
+      return {
+        organizationId: client.organizationId,
+        sourceKey: client._id,
+        clientId: client._id,
+        title: `Notes · ${client.businessName}`,
+        date: client.updatedAt,
+        text: client.notes,
+      };
+    }
+  }
+}
+
+/**
+ * Bring a record's chunks in line with its current content. Unchanged chunks
+ * keep their embeddings; changed ones are queued for embedding when the
+ * organization has semantic search on.
+ */
+export async function indexSearchSource(ctx: MutationCtx, source: SearchSource, sourceId: string) {
+  const existing = await ctx.db
+    .query("search_documents")
+    .withIndex("by_source", (q) => q.eq("source", source).eq("sourceId", sourceId))
+    .collect();
+  const record = await loadSearchRecord(ctx, source, sourceId);
+  const chunks = record ? chunkText(record.text) : [];
+
+  const now = Date.now();
+  let needsEmbedding = false;
+  for (const [chunkIndex, text] of chunks.entries()) {
+    const fields = {
+      organizationId: record!.organizationId,
+      source,
+      sourceId,
+      sourceKey: record!.sourceKey,
+      clientId: record!.clientId,
+      title: record!.title,
+      date: record!.date,
+      chunkIndex,
+      text,
+      updatedAt: now,
+    };
+    const current = existing[chunkIndex];
+    if (!current) {
+      await ctx.db.insert("search_documents", fields);
+      needsEmbedding = true;
+    } else if (current.text !== text) {
+      await ctx.db.patch(current._id, { ...fields, embedding: undefined });
+      needsEmbedding = true;
+    } else if (
+      current.clientId !== fields.clientId ||
+      current.title !== fields.title ||
+      current.date !== fields.date
+    ) {
+      await ctx.db.patch(current._id, fields);
+    }
+  }
+  for (const stale of existing.slice(chunks.length)) {
+    await ctx.db.delete(stale._id);
+  }
+
+  if (record && needsEmbedding) {
+    const organization = await ctx.db.get(record.organizationId);
+    if (organization?.semanticSearchEnabled) {
+      await ctx.scheduler.runAfter(0, internal.searchActions.embedPendingChunks, {
+        organizationId: record.organizationId,
+      });
+    }
+  }
+  return chunks.length;
+}
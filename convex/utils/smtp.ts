@@ -0,0 +1,200 @@
+"use node";
+
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Minimal SMTP client for notification emails, so sending mail needs no
+ * provider SDK. Supports implicit TLS (port 465), STARTTLS and AUTH PLAIN.
+ */
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string; // "Gravitate <notifications@example.com>" or a bare address
+};
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * SMTP settings from the Convex environment, or null when email isn't configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM;
+  if (!host || !from) return null;
+  const port = Number(process.env.SMTP_PORT || 587);
+  return {
+    host,
+    port,
+    secure: port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  };
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  // Non-ASCII header values are sent as RFC 2047 encoded words
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function buildMessage(config: SmtpConfig, message: MailMessage): string {
+  const body = Buffer.from(message.text, "utf8")
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  const domain = extractAddress(config.from).split("@")[1] ?? config.host;
+  return [
+    `From: ${config.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * One SMTP session. Replies are read line by line; a reply ends at the line
+ * whose code is followed by a space rather than a dash.
+ */
+class SmtpSession {
+  private buffer = "";
+  private waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      this.flush();
+    });
+    socket.on("timeout", () => this.fail(new Error("SMTP server timed out")));
+    socket.on("error", (error: Error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.socket.destroy();
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const lines = this.buffer.split("\r\n");
+    const lastIndex = lines.findIndex((line) => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+    if (lastIndex === -1) return;
+    const reply = lines.slice(0, lastIndex + 1).join("\n");
+    this.buffer = lines.slice(lastIndex + 1).join("\r\n");
+    this.waiting.resolve(reply);
+    this.waiting = null;
+  }
+
+  read(expectedCode: number): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      this.waiting = {
+        resolve: (reply) => {
+          if (Number(reply.slice(0, 3)) === expectedCode) {
+            resolve(reply);
+          } else {
+            reject(new Error(`SMTP error: expected ${expectedCode}, got "${reply}"`));
+          }
+        },
+        reject,
+      };
+      this.flush();
+    });
+  }
+
+  async command(line: string, expectedCode: number): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return await this.read(expectedCode);
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string) {
+    this.socket.removeAllListeners();
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.removeAllListeners();
+    this.socket.on("error", () => undefined);
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const session = new SmtpSession(await connect(config));
+  try {
+    await session.read(220);
+    const clientName = "gravitate-agent";
+    const hello = await session.command(`EHLO ${clientName}`, 250);
+    if (!config.secure && /STARTTLS/i.test(hello)) {
+      await session.command("STARTTLS", 220);
+      await session.upgrade(config.host);
+      await session.command(`EHLO ${clientName}`, 250);
+    }
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password}`, "utf8").toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await session.command(`MAIL FROM:<${extractAddress(config.from)}>`, 250);
+    await session.command(`RCPT TO:<${extractAddress(message.to)}>`, 250);
+    await session.command("DATA", 354);
+    // Lines starting with a dot are escaped so they don't end the message
+    const data = buildMessage(config, message).replace(/\r\n\./g, "\r\n..");
+    await session.command(`${data}\r\n.`, 250);
+    await session.command("QUIT", 221).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -0,0 +1,48 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+type ReadCtx = QueryCtx | MutationCtx;
+
+export type ClientSoundbite = Doc<"transcript_soundbites"> & {
+  transcript: {
+    transcriptId: string;
+    title: string;
+    date: number;
+  };
+};
+
+/**
+ * Soundbites from every transcript linked to the client, newest call first and
+ * in transcript order within a call
+ */
+export async function getSoundbitesForClient(ctx: ReadCtx, clientId: Id<"clients">): Promise<ClientSoundbite[]> {
+  const transcripts = await ctx.db
+    .query("fireflies_transcripts")
+    .withIndex("by_client", (q) => q.eq("clientId", clientId))
+    .collect();
+
+  const soundbites: ClientSoundbite[] = [];
+  for (const transcript of transcripts.sort((a, b) => b.date - a.date)) {
+    const forTranscript = await ctx.db
+      .query("transcript_soundbites")
+      .withIndex("by_transcript", (q) => q.eq("transcriptId", transcript._id))
+      .collect();
+    for (const soundbite of forTranscript.sort((a, b) => a.startIndex - b.startIndex)) {
+      soundbites.push({
+        ...soundbite,
+        transcript: { transcriptId: transcript.transcriptId, title: transcript.title, date: transcript.date },
+      });
+    }
+  }
+  return soundbites;
+}
+
+export async function deleteSoundbitesForTranscript(ctx: MutationCtx, transcriptId: Id<"fireflies_transcripts">) {
+  const soundbites = await ctx.db
+    .query("transcript_soundbites")
+    .withIndex("by_transcript", (q) => q.eq("transcriptId", transcriptId))
+    .collect();
+  for (const soundbite of soundbites) {
+    await ctx.db.delete(soundbite._id);
+  }
+}
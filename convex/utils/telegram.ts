@@ -0,0 +1,89 @@
+/**
+ * Telegram Bot API helpers shared by the Convex notification action and the
+ * Next.js webhook (src/app/api/telegram/webhook/route.ts).
+ */
+
+export type TelegramInlineKeyboard = Array<Array<{ text: string; callback_data: string }>>;
+
+export type TelegramCallback =
+  | { type: "link"; index: number } // Link the prompt's transcript to its nth candidate client
+  | { type: "pick"; index: number } // Ask about the nth transcript of an /unlinked list
+  | { type: "manual" };
+
+// Telegram shows about this many characters on a button before truncating
+const BUTTON_LABEL_LENGTH = 40;
+
+/**
+ * Chat IDs are numbers (negative for groups), stored as strings
+ */
+export function normalizeTelegramChatId(value: string | number): string | null {
+  const trimmed = String(value).trim();
+  return /^-?\d+$/.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Call a Bot API method and return its `result`. Throws with Telegram's
+ * description when the call fails.
+ */
+export async function callTelegramApi<T = unknown>(
+  botToken: string,
+  method: string,
+  body: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Telegram API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = (await response.json()) as { ok: boolean; result?: T; description?: string };
+  if (!data.ok) {
+    throw new Error(`Telegram API error: ${data.description || JSON.stringify(data)}`);
+  }
+  return data.result as T;
+}
+
+/**
+ * Callback data is limited to 64 bytes, so buttons carry an index into the
+ * options stored with the prompt (see telegram_prompts) rather than IDs
+ */
+export function encodeTelegramCallback(callback: TelegramCallback): string {
+  return callback.type === "manual" ? "manual" : `${callback.type}:${callback.index}`;
+}
+
+export function parseTelegramCallback(data: string | undefined): TelegramCallback | null {
+  if (!data) return null;
+  if (data === "manual") return { type: "manual" };
+  const match = data.match(/^(link|pick):(\d+)$/);
+  if (!match) return null;
+  return { type: match[1] as "link" | "pick", index: Number(match[2]) };
+}
+
+function buttonLabel(label: string): string {
+  return label.length > BUTTON_LABEL_LENGTH ? `${label.slice(0, BUTTON_LABEL_LENGTH - 1)}…` : label;
+}
+
+/**
+ * One button per candidate client, then a button to leave it for manual linking
+ */
+export function buildLinkKeyboard(candidateLabels: string[]): TelegramInlineKeyboard {
+  return [
+    ...candidateLabels.map((label, index) => [
+      { text: buttonLabel(label), callback_data: encodeTelegramCallback({ type: "link", index }) },
+    ]),
+    [{ text: "✋ Handle manually", callback_data: encodeTelegramCallback({ type: "manual" }) }],
+  ];
+}
+
+export function buildPickKeyboard(transcriptLabels: string[]): TelegramInlineKeyboard {
+  return transcriptLabels.map((label, index) => [
+    { text: buttonLabel(label), callback_data: encodeTelegramCallback({ type: "pick", index }) },
+  ]);
+}
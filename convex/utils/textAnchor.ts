@@ -0,0 +1,88 @@
+import { v } from "convex/values";
+
+/**
+ * Anchors a comment to a span of a script's plain text. The quoted text plus a
+ * little surrounding context is stored instead of editor positions, so the
+ * comment can be found again after the script is edited.
+ */
+export type TextAnchor = {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  // Character offset of the quote when the anchor was made (tie-breaker)
+  offset: number;
+};
+
+export const textAnchorValidator = v.object({
+  quote: v.string(),
+  prefix: v.string(),
+  suffix: v.string(),
+  offset: v.number(),
+});
+
+const CONTEXT_CHARS = 32;
+
+export function buildTextAnchor(text: string, start: number, end: number): TextAnchor {
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+    suffix: text.slice(end, end + CONTEXT_CHARS),
+    offset: start,
+  };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+/**
+ * Find the anchor's span in (possibly edited) text.
+ * Picks the occurrence of the quote whose surroundings best match the stored
+ * context, then the one closest to the original offset. When the quote itself
+ * was edited (no occurrence has matching context), falls back to the text
+ * between the stored prefix and suffix.
+ * Returns null when the anchor can no longer be placed.
+ */
+export function resolveTextAnchor(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+  if (!anchor.quote) return null;
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let i = text.indexOf(anchor.quote); i !== -1; i = text.indexOf(anchor.quote, i + 1)) {
+    const before = text.slice(Math.max(0, i - anchor.prefix.length), i);
+    const after = text.slice(i + anchor.quote.length, i + anchor.quote.length + anchor.suffix.length);
+    const score = commonSuffixLength(before, anchor.prefix) + commonPrefixLength(after, anchor.suffix);
+    const distance = Math.abs(i - anchor.offset);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: i, score, distance };
+    }
+  }
+  // A weak context match may be a different occurrence of a quote that was itself edited
+  const contextLength = anchor.prefix.length + anchor.suffix.length;
+  if (best && best.score * 4 >= contextLength) {
+    return { start: best.start, end: best.start + anchor.quote.length };
+  }
+
+  // Quote changed: use the context on both sides if it is still intact and close together
+  if (anchor.prefix.length >= 8 && anchor.suffix.length >= 8) {
+    const prefixAt = text.indexOf(anchor.prefix);
+    if (prefixAt !== -1) {
+      const start = prefixAt + anchor.prefix.length;
+      const end = text.indexOf(anchor.suffix, start);
+      if (end > start && end - start <= anchor.quote.length * 2 + CONTEXT_CHARS) {
+        return { start, end };
+      }
+    }
+  }
+  if (best) {
+    return { start: best.start, end: best.start + anchor.quote.length };
+  }
+  return null;
+}
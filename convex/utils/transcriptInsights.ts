@@ -0,0 +1,171 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * Structured facts extracted from a linked transcript by
+ * transcriptInsightsActions.extractInsights
+ */
+export const TRANSCRIPT_INSIGHT_KINDS = [
+  "objection",
+  "new_offer",
+  "pricing_change",
+  "testimonial",
+  "action_item",
+  "sentiment",
+] as const;
+
+export type TranscriptInsightKind = (typeof TRANSCRIPT_INSIGHT_KINDS)[number];
+
+export const TRANSCRIPT_INSIGHT_KIND_LABELS: Record<TranscriptInsightKind, string> = {
+  objection: "Objection",
+  new_offer: "New offer",
+  pricing_change: "Pricing change",
+  testimonial: "Testimonial",
+  action_item: "Action item",
+  sentiment: "Sentiment",
+};
+
+export const transcriptInsightKindValidator = v.union(
+  v.literal("objection"),
+  v.literal("new_offer"),
+  v.literal("pricing_change"),
+  v.literal("testimonial"),
+  v.literal("action_item"),
+  v.literal("sentiment")
+);
+
+export const insightSentimentValidator = v.union(
+  v.literal("positive"),
+  v.literal("neutral"),
+  v.literal("negative"),
+  v.literal("mixed")
+);
+
+export type InsightSentiment = Infer<typeof insightSentimentValidator>;
+
+export const insightsStatusValidator = v.union(v.literal("pending"), v.literal("done"), v.literal("error"));
+
+/**
+ * A statement in the call that conflicts with the client's saved ad briefing
+ */
+export const briefingContradictionValidator = v.object({
+  briefingField: v.string(),
+  explanation: v.string(),
+});
+
+export const extractedInsightValidator = v.object({
+  kind: transcriptInsightKindValidator,
+  summary: v.string(),
+  quote: v.optional(v.string()),
+  sentiment: v.optional(insightSentimentValidator),
+  contradiction: v.optional(briefingContradictionValidator),
+});
+
+export type ExtractedInsight = Infer<typeof extractedInsightValidator>;
+
+// Keeps the prompt within small context windows; long calls are cut
+const MAX_TRANSCRIPT_CHARS = 60000;
+const MAX_INSIGHTS_PER_TRANSCRIPT = 30;
+
+function humanizeKey(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Flatten a saved ad briefing (stored as `v.any()`) into "Field: value" lines,
+ * skipping empty fields
+ */
+export function formatBriefingForPrompt(briefing: unknown, path: string[] = []): string[] {
+  if (!briefing || typeof briefing !== "object") return [];
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(briefing as Record<string, unknown>)) {
+    const fieldPath = [...path, humanizeKey(key)];
+    if (typeof value === "string") {
+      if (value.trim()) lines.push(`${fieldPath.join(" → ")}: ${value.trim()}`);
+    } else if (value && typeof value === "object") {
+      lines.push(...formatBriefingForPrompt(value, fieldPath));
+    }
+  }
+  return lines;
+}
+
+export const INSIGHTS_SYSTEM_PROMPT = `You extract structured insights from a sales or client call transcript for a marketing agency.
+Return strict JSON: {"insights":[{"kind":"...","summary":"...","quote":"...","sentiment":"...","contradiction":{"briefingField":"...","explanation":"..."}}]}
+Kinds:
+- "objection": a concern or pushback the client raised
+- "new_offer": a new product, service, promotion or package the client mentioned
+- "pricing_change": a price, fee or discount that changed or was announced
+- "testimonial": praise from or about the client's customers that could be quoted in ads
+- "action_item": something someone committed to do after the call
+- "sentiment": exactly one item with the client's overall mood in the call; set "sentiment" to positive, neutral, negative or mixed
+Rules:
+- "summary" is one short sentence. "quote" is the exact words from the transcript when there is a clear one, otherwise omit it.
+- Add "contradiction" only when the insight conflicts with the ad briefing provided (e.g. a different price, offer, audience or guarantee). "briefingField" names the briefing field, "explanation" says what changed.
+- Omit kinds that don't occur. Do not invent facts.`;
+
+export function buildInsightsUserPrompt(input: {
+  title: string;
+  date: number;
+  transcriptText: string;
+  notes?: string;
+  briefingLines: string[];
+}): string {
+  const transcriptText =
+    input.transcriptText.length > MAX_TRANSCRIPT_CHARS
+      ? `${input.transcriptText.slice(0, MAX_TRANSCRIPT_CHARS)}\n[transcript truncated]`
+      : input.transcriptText;
+  return [
+    `Call: ${input.title} (${new Date(input.date).toISOString().slice(0, 10)})`,
+    input.briefingLines.length > 0
+      ? `Current ad briefing:\n${input.briefingLines.join("\n")}`
+      : "Current ad briefing: none saved (never add contradictions)",
+    input.notes ? `Call notes:\n${input.notes}` : "",
+    `Transcript:\n"""${transcriptText}"""`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate the model's JSON, dropping items that don't fit the schema rather
+ * than failing the whole extraction
+ */
+export function parseInsightsResponse(content: string): ExtractedInsight[] {
+  // Some models wrap JSON in a code fence despite instructions
+  const json = content.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  const parsed = JSON.parse(json) as { insights?: unknown };
+  if (!Array.isArray(parsed.insights)) {
+    throw new Error("AI response has no insights array");
+  }
+
+  const insights: ExtractedInsight[] = [];
+  for (const item of parsed.insights as Array<Record<string, unknown>>) {
+    if (!item || typeof item !== "object") continue;
+    const kind = TRANSCRIPT_INSIGHT_KINDS.find((candidate) => candidate === item.kind);
+    const summary = optionalString(item.summary);
+    if (!kind || !summary) continue;
+
+    const sentiment = (["positive", "neutral", "negative", "mixed"] as const).find(
+      (candidate) => candidate === item.sentiment
+    );
+    if (kind === "sentiment" && !sentiment) continue;
+
+    const rawContradiction = item.contradiction as Record<string, unknown> | null | undefined;
+    const briefingField = optionalString(rawContradiction?.briefingField);
+    const explanation = optionalString(rawContradiction?.explanation);
+
+    insights.push({
+      kind,
+      summary,
+      quote: optionalString(item.quote),
+      sentiment: kind === "sentiment" ? sentiment : undefined,
+      contradiction: briefingField && explanation ? { briefingField, explanation } : undefined,
+    });
+    if (insights.length >= MAX_INSIGHTS_PER_TRANSCRIPT) break;
+  }
+  return insights;
+}
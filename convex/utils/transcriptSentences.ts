@@ -0,0 +1,53 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * One sentence of a Fireflies transcript. Times are seconds from the start of
+ * the call; transcripts synced before timestamps were stored don't have them.
+ */
+export const transcriptSentenceValidator = v.object({
+  text: v.string(),
+  speakerName: v.optional(v.string()),
+  speakerId: v.optional(v.string()),
+  startTime: v.optional(v.number()),
+  endTime: v.optional(v.number()),
+});
+
+export type TranscriptSentence = Infer<typeof transcriptSentenceValidator>;
+
+/**
+ * "4:07" or "1:02:09"
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Parse "4:07", "1:02:09" or plain seconds; null when it isn't a time
+ */
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Index of the sentence being spoken at `seconds` (the first timed sentence
+ * when it's before the call starts); -1 when no sentence has times
+ */
+export function findSentenceAtTime(sentences: TranscriptSentence[], seconds: number): number {
+  let found = -1;
+  for (const [index, sentence] of sentences.entries()) {
+    if (sentence.startTime === undefined) continue;
+    if (sentence.startTime > seconds) {
+      return found === -1 ? index : found;
+    }
+    found = index;
+  }
+  return found;
+}
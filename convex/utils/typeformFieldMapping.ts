@@ -0,0 +1,267 @@
+import { v } from "convex/values";
+
+/**
+ * Client attributes that a Typeform field can be mapped onto.
+ */
+export const MAPPABLE_CLIENT_FIELDS = [
+  "businessName",
+  "businessEmail",
+  "contactFirstName",
+  "contactLastName",
+  "targetRevenue",
+  "servicesOffered",
+  "notes",
+] as const;
+
+export type MappableClientField = (typeof MAPPABLE_CLIENT_FIELDS)[number];
+
+/**
+ * How a raw answer string is coerced before it is written to the client field.
+ * - string: trimmed text
+ * - email: trimmed, lowercased
+ * - full_name: split on whitespace into contactFirstName / contactLastName
+ * - number: plain integer (commas stripped)
+ * - revenue_range: "20-30k" -> 30000, "25k" -> 25000, "25000" -> 25000
+ */
+export const FIELD_COERCIONS = ["string", "email", "full_name", "number", "revenue_range"] as const;
+
+export type FieldCoercion = (typeof FIELD_COERCIONS)[number];
+
+export type FieldMappingRule = {
+  fieldRef: string;
+  field: MappableClientField;
+  coercion: FieldCoercion;
+  // Question title at the time the mapping was saved (display only)
+  questionTitle?: string;
+};
+
+export const fieldMappingRuleValidator = v.object({
+  fieldRef: v.string(),
+  field: v.union(
+    v.literal("businessName"),
+    v.literal("businessEmail"),
+    v.literal("contactFirstName"),
+    v.literal("contactLastName"),
+    v.literal("targetRevenue"),
+    v.literal("servicesOffered"),
+    v.literal("notes")
+  ),
+  coercion: v.union(
+    v.literal("string"),
+    v.literal("email"),
+    v.literal("full_name"),
+    v.literal("number"),
+    v.literal("revenue_range")
+  ),
+  questionTitle: v.optional(v.string()),
+});
+
+/**
+ * Mapping for the original onboarding form. Used whenever an organization has
+ * not saved a mapping for the form a response came from.
+ */
+export const DEFAULT_FIELD_MAPPING_RULES: FieldMappingRule[] = [
+  // Full Name
+  { fieldRef: "98e94d78-6c72-4ea2-806e-9675f326550e", field: "contactFirstName", coercion: "full_name" },
+  // Business Name
+  { fieldRef: "01K3PZTF2WHB908HD47FDXE81C", field: "businessName", coercion: "string" },
+  // Email
+  { fieldRef: "a0e9781d-38e4-4768-af2c-19a4518d2ac7", field: "businessEmail", coercion: "email" },
+  // Target Revenue (monthly)
+  { fieldRef: "6589c67b-c739-4372-96e0-a5e3b6a52220", field: "targetRevenue", coercion: "revenue_range" },
+];
+
+/**
+ * Suggest a sensible coercion for a client field (used by the settings UI).
+ */
+export function defaultCoercionForField(field: MappableClientField): FieldCoercion {
+  switch (field) {
+    case "businessEmail":
+      return "email";
+    case "targetRevenue":
+      return "revenue_range";
+    default:
+      return "string";
+  }
+}
+
+export type MappedClientData = {
+  businessName: string | null;
+  businessEmail: string | null;
+  contactFirstName: string | null;
+  contactLastName: string | null;
+  targetRevenue: number | null;
+  servicesOffered: string | null;
+  notes: string | null;
+};
+
+/**
+ * Parse revenue answers such as "20-30k" (upper bound), "25k" or "25,000".
+ */
+export function parseRevenueRange(value: string): number | null {
+  const cleaned = value.replace(/,/g, "").toLowerCase().trim();
+
+  // Try to parse range (e.g., "20-30k" -> take upper bound)
+  const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)\s*k/i);
+  if (rangeMatch) {
+    return parseInt(rangeMatch[2], 10) * 1000;
+  }
+
+  // Try single number with k suffix
+  const kMatch = cleaned.match(/(\d+)\s*k/i);
+  if (kMatch) {
+    return parseInt(kMatch[1], 10) * 1000;
+  }
+
+  // Try plain number
+  const plainNum = parseInt(cleaned, 10);
+  if (!isNaN(plainNum) && plainNum > 0) {
+    return plainNum;
+  }
+  return null;
+}
+
+function emptyMappedClientData(): MappedClientData {
+  return {
+    businessName: null,
+    businessEmail: null,
+    contactFirstName: null,
+    contactLastName: null,
+    targetRevenue: null,
+    servicesOffered: null,
+    notes: null,
+  };
+}
+
+/**
+ * Apply a single rule to an answer and write the coerced value into `result`.
+ */
+function applyRule(result: MappedClientData, rule: FieldMappingRule, rawValue: string) {
+  const value = rawValue.trim();
+  if (!value) return;
+
+  switch (rule.coercion) {
+    case "email":
+      if (rule.field === "businessEmail") {
+        result.businessEmail = value.toLowerCase();
+      } else {
+        setStringField(result, rule.field, value.toLowerCase());
+      }
+      break;
+    case "full_name": {
+      const nameParts = value.split(/\s+/);
+      result.contactFirstName = nameParts[0] || null;
+      if (nameParts.length > 1) {
+        result.contactLastName = nameParts.slice(1).join(" ");
+      }
+      break;
+    }
+    case "number": {
+      const num = parseInt(value.replace(/,/g, ""), 10);
+      if (rule.field === "targetRevenue") {
+        if (!isNaN(num) && num > 0) result.targetRevenue = num;
+      } else if (!isNaN(num)) {
+        setStringField(result, rule.field, String(num));
+      }
+      break;
+    }
+    case "revenue_range": {
+      const num = parseRevenueRange(value);
+      if (rule.field === "targetRevenue") {
+        if (num && num > 0) result.targetRevenue = num;
+      } else if (num) {
+        setStringField(result, rule.field, String(num));
+      }
+      break;
+    }
+    case "string":
+    default:
+      if (rule.field === "targetRevenue") {
+        const num = parseRevenueRange(value);
+        if (num && num > 0) result.targetRevenue = num;
+      } else {
+        setStringField(result, rule.field, value);
+      }
+      break;
+  }
+}
+
+function setStringField(result: MappedClientData, field: MappableClientField, value: string) {
+  switch (field) {
+    case "businessName":
+    case "businessEmail":
+    case "contactFirstName":
+    case "contactLastName":
+    case "servicesOffered":
+    case "notes":
+      result[field] = value;
+      break;
+    case "targetRevenue":
+      break;
+  }
+}
+
+/**
+ * Extract client data from stored Q&A pairs using the given mapping rules.
+ * Falls back to DEFAULT_FIELD_MAPPING_RULES when no rules are provided.
+ */
+export function extractClientDataFromQAPairs(
+  qaPairs: Array<{ question: string; answer: string; fieldRef?: string }>,
+  rules?: FieldMappingRule[] | null
+): MappedClientData {
+  const result = emptyMappedClientData();
+  const rulesByRef = new Map<string, FieldMappingRule>();
+  for (const rule of rules && rules.length > 0 ? rules : DEFAULT_FIELD_MAPPING_RULES) {
+    rulesByRef.set(rule.fieldRef.trim(), rule);
+  }
+
+  for (const qa of qaPairs) {
+    const fieldRef = qa.fieldRef?.trim();
+    if (!fieldRef) continue;
+
+    const rule = rulesByRef.get(fieldRef);
+    if (!rule) continue;
+
+    applyRule(result, rule, qa.answer ?? "");
+  }
+
+  return result;
+}
+
+/**
+ * Pull a display string out of a raw Typeform answer object.
+ */
+export function getTypeformAnswerValue(answer: Record<string, unknown>): string {
+  if (typeof answer.text === "string") return answer.text;
+  if (typeof answer.email === "string") return answer.email;
+  if (typeof answer.url === "string") return answer.url;
+  if (typeof answer.phone_number === "string") return answer.phone_number;
+  if (typeof answer.number === "number") return String(answer.number);
+  if (typeof answer.boolean === "boolean") return String(answer.boolean);
+  if (typeof answer.date === "string") return answer.date;
+  const choice = answer.choice as { label?: string } | undefined;
+  if (choice?.label) return choice.label;
+  const choices = answer.choices as { labels?: string[] } | Array<{ label?: string }> | undefined;
+  if (Array.isArray(choices)) {
+    return choices.map((c) => c.label).filter(Boolean).join(", ");
+  }
+  if (choices?.labels) return choices.labels.join(", ");
+  return "";
+}
+
+/**
+ * Extract client data directly from a raw Typeform payload's answers.
+ */
+export function extractClientDataFromAnswers(
+  answers: Array<Record<string, unknown> & { field?: { ref?: string } }>,
+  rules?: FieldMappingRule[] | null
+): MappedClientData {
+  return extractClientDataFromQAPairs(
+    answers.map((answer) => ({
+      question: "",
+      answer: getTypeformAnswerValue(answer),
+      fieldRef: answer.field?.ref,
+    })),
+    rules
+  );
+}
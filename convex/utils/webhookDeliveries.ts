@@ -0,0 +1,39 @@
+import { v, type Infer } from "convex/values";
+
+/**
+ * Processing state of an inbound webhook. A delivery is "received" while the
+ * app stores what it refers to (the Typeform response, the Fireflies
+ * transcript), then "processed" or "failed" with the error. Failed deliveries
+ * can be replayed from the webhook inspector, and a provider retry of the
+ * same event reprocesses them; retries of other events are ignored.
+ */
+export const webhookDeliveryStatusValidator = v.union(
+  v.literal("received"),
+  v.literal("processed"),
+  v.literal("failed")
+);
+
+export type WebhookDeliveryStatus = Infer<typeof webhookDeliveryStatusValidator>;
+
+// Kept short so a long upstream error can't bloat the delivery log
+export const MAX_WEBHOOK_ERROR_LENGTH = 2000;
+
+/**
+ * Fields to patch onto a delivery when its status changes
+ */
+export function webhookStatusUpdate(
+  delivery: { attempts?: number },
+  status: WebhookDeliveryStatus,
+  error?: string
+) {
+  const now = Date.now();
+  if (status === "received") {
+    // Starting another attempt (replay or provider retry)
+    return { status, error: undefined, attempts: (delivery.attempts ?? 1) + 1, processedAt: undefined };
+  }
+  return {
+    status,
+    error: status === "failed" ? (error ?? "Unknown error").slice(0, MAX_WEBHOOK_ERROR_LENGTH) : undefined,
+    processedAt: now,
+  };
+}
@@ -0,0 +1,28 @@
+import type { QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { getOrganizationMembership } from "./organizations";
+
+/**
+ * Webhook URLs identify the organization by an opaque token in the path
+ * (/api/typeform/webhook/<token>) rather than a user's email. Rotating the
+ * token stops the old URL from working.
+ */
+export function generateWebhookToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Who a webhook acts as: the member who last rotated the token. Null once
+ * they've left the organization, until someone rotates it again.
+ */
+export async function getWebhookActorEmail(
+  ctx: QueryCtx,
+  config: { organizationId: Id<"organizations">; webhookTokenEmail?: string }
+): Promise<string | null> {
+  if (!config.webhookTokenEmail) return null;
+  const member = await getOrganizationMembership(ctx, config.organizationId, config.webhookTokenEmail);
+  return member ? member.email : null;
+}
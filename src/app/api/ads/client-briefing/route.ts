@@ -1,16 +1,14 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getVerifiedSession } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
 import { extractTypeformData } from "@/lib/extractTypeformData";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { LlmBudgetExceededError, openRouterChatCompletion } from "@/lib/openrouter";
 import {
   AdStrategistBriefing,
   normalizeBriefing,
 } from "@/lib/adBriefing";
 
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
 type BriefingSource = "saved" | "llm";
 
 type BriefingResponse = {
@@ -145,8 +143,8 @@ function safeJsonExtractObject(text: string): unknown {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -164,14 +162,7 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!convex) {
-      return NextResponse.json(
-        { error: "Convex not configured" },
-        { status: 500 },
-      );
-    }
-
-    const ownerEmail = user.email;
+    const { convex, email: ownerEmail } = session;
 
     // Load client and verify ownership
     const client = await convex.query(api.clients.getClientById, {
@@ -214,12 +205,14 @@ export async function POST(request: Request) {
 
     // Fetch Typeform + transcripts to build context
     let typeformPayload: unknown = null;
+    let typeformFormId: string | null = null;
     if (client.onboardingResponseId) {
       const typeformResponse = await convex.query(
         api.typeform.getResponseByResponseId,
         { responseId: client.onboardingResponseId },
       );
       typeformPayload = typeformResponse?.payload ?? null;
+      typeformFormId = typeformResponse?.formId ?? null;
     }
 
     const transcripts =
@@ -227,8 +220,15 @@ export async function POST(request: Request) {
         clientId: clientId as any,
       })) ?? [];
 
+    const fieldMapping = typeformFormId
+      ? await convex.query(api.typeformFieldMappings.getMappingForForm, {
+          email: ownerEmail,
+          formId: typeformFormId,
+        })
+      : null;
+
     const typeformData = typeformPayload
-      ? extractTypeformData(typeformPayload as any)
+      ? extractTypeformData(typeformPayload as any, fieldMapping?.rules)
       : null;
 
     const transcriptsForContext = transcripts
@@ -257,15 +257,7 @@ export async function POST(request: Request) {
     };
 
     // Get OpenRouter API key
-    const openrouterConfig = await convex.query(
-      api.openrouter.getConfigForEmail,
-      {
-        email: ownerEmail,
-      },
-    );
-
-    const apiKey =
-      openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = await getOpenRouterApiKey(ownerEmail);
     if (!apiKey) {
       return NextResponse.json(
         {
@@ -296,24 +288,22 @@ ${JSON.stringify(context, null, 2)}
 Remember: your final answer must be ONLY the JSON object, with no explanation or extra text.
 `.trim();
 
-    const llmRes = await fetch(
-      "https://openrouter.ai/api/v1/chat/completions",
+    const llmRes = await openRouterChatCompletion(
+      apiKey,
       {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-          "HTTP-Referer": referer,
-          "X-Title": "Gravitate Agent - Ad Strategist Briefing",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-pro",
-          messages: [
-            { role: "system", content: AD_STRATEGIST_SYSTEM_PROMPT },
-            { role: "user", content: userPrompt },
-          ],
-          temperature: 0.4,
-        }),
+        model: "google/gemini-2.5-pro",
+        messages: [
+          { role: "system", content: AD_STRATEGIST_SYSTEM_PROMPT },
+          { role: "user", content: userPrompt },
+        ],
+        temperature: 0.4,
+      },
+      {
+        email: ownerEmail,
+        feature: "ad_briefing",
+        clientId,
+        referer,
+        title: "Gravitate Agent - Ad Strategist Briefing",
       },
     );
 
@@ -370,6 +360,9 @@ Remember: your final answer must be ONLY the JSON object, with no explanation or
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof LlmBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("[Ad Briefing] Unexpected error:", error);
     return NextResponse.json(
       {
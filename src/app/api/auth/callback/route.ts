@@ -3,11 +3,11 @@ import { WorkOS } from "@workos-inc/node";
 import { cookies } from "next/headers";
 import { ConvexHttpClient } from "convex/browser";
 import { api } from "../../../../../convex/_generated/api";
+import { setSessionTokens } from "@/lib/auth";
 
 const workosApiKey = process.env.WORKOS_API_KEY;
 const workosClientId = process.env.WORKOS_CLIENT_ID;
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
 
 // Normalize the app URL so it always includes a scheme.
 // Cloudflare currently sets NEXT_PUBLIC_APP_URL to "gravitate.ultralistic.com",
@@ -121,9 +121,14 @@ export async function GET(request: Request) {
 
     console.log("[AUTH/CALLBACK] workos_user_id and workos_user_email cookies set");
 
+    // Convex verifies the access token on every call; the refresh token renews it
+    await setSessionTokens(auth.accessToken, auth.refreshToken);
+
     // Create/ensure user has an organization
-    if (convex) {
+    if (convexUrl) {
       try {
+        const convex = new ConvexHttpClient(convexUrl);
+        convex.setAuth(auth.accessToken);
         await convex.mutation(api.organizations.getOrCreateDefaultOrganization, {
           email: user.email,
         });
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
 import { WorkOS } from "@workos-inc/node";
+import { SESSION_COOKIES } from "@/lib/auth";
 
 const workosApiKey = process.env.WORKOS_API_KEY;
 const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
@@ -30,16 +31,12 @@ export async function GET() {
   });
 
   // Clear local cookies
-  cookieStore.delete("workos_user_id");
-  cookieStore.delete("workos_user_email");
-  cookieStore.delete("workos_session_id");
+  for (const name of SESSION_COOKIES) {
+    cookieStore.delete(name);
+  }
 
   // Also set to empty string with expired maxAge as backup
-  for (const name of [
-    "workos_user_id",
-    "workos_user_email",
-    "workos_session_id",
-  ]) {
+  for (const name of SESSION_COOKIES) {
     cookieStore.set(name, "", {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getSessionAccessToken } from "@/lib/auth";
+
+/**
+ * Access token for the browser's Convex client (see components/Providers.tsx).
+ * The token cookie is httpOnly, so the client asks for it here.
+ */
+export async function GET(request: Request) {
+  const forceRefresh = new URL(request.url).searchParams.get("refresh") === "1";
+  const token = await getSessionAccessToken({ forceRefresh });
+  if (!token) {
+    return NextResponse.json({ token: null }, { status: 401 });
+  }
+  const response = NextResponse.json({ token });
+  response.headers.set("Cache-Control", "no-store");
+  return response;
+}
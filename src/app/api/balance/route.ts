@@ -1,33 +1,17 @@
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
-import { api } from "../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import { getVerifiedSession } from "@/lib/convexServer";
+import { getOpenRouterApiKey } from "@/lib/credentials";
 
 export async function GET() {
   try {
-    const user = await getCurrentUser();
-    if (!user?.email) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    if (!convex) {
-      return new Response(JSON.stringify({ error: "Convex not configured" }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-      email: user.email,
-    });
-
-    // Fallback to environment variable for backwards compatibility
-    const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = await getOpenRouterApiKey(session.email);
     if (!apiKey) {
       return new Response(
         JSON.stringify({
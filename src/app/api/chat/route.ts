@@ -1,9 +1,6 @@
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
-import { api } from "../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import { getVerifiedSession } from "@/lib/convexServer";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { LlmBudgetExceededError, openRouterChatCompletion } from "@/lib/openrouter";
 
 // System prompt that explains available tools
 const SYSTEM_PROMPT = `You are a helpful AI assistant for Gravitate Agent, a client management platform. You help users manage their clients, view transcripts, and access business information.
@@ -160,8 +157,8 @@ const UPDATE_DOCUMENT_TOOL = {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { "Content-Type": "application/json" },
@@ -185,19 +182,7 @@ export async function POST(request: Request) {
     }
 
     // Get OpenRouter API key from Convex (user-specific)
-    if (!convex) {
-      return new Response(JSON.stringify({ error: "Convex not configured" }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-      email: user.email,
-    });
-
-    // Fallback to environment variable for backwards compatibility
-    const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = await getOpenRouterApiKey(session.email);
     if (!apiKey) {
       return new Response(
         JSON.stringify({
@@ -214,6 +199,9 @@ export async function POST(request: Request) {
       process.env.NEXT_PUBLIC_APP_URL ||
       (request.headers.get("origin") ?? "") ||
       "http://localhost:3000";
+    // Non-null copies for the tool-call follow-ups below
+    const openRouterKey = apiKey;
+    const usageOptions = { email: session.email, feature: "chat" as const, referer };
 
     // Check if model supports reasoning (GPT-5 or GPT-OSS-120B)
     const supportsReasoning = model?.includes("gpt-5") || model?.includes("gpt-oss-120b");
@@ -240,15 +228,9 @@ export async function POST(request: Request) {
       ];
     }
     
-    const openRouterRes = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": referer,
-        "X-Title": "Gravitate Agent",
-      },
-      body: JSON.stringify({
+    const openRouterRes = await openRouterChatCompletion(
+      openRouterKey,
+      {
         model: model || "openrouter/auto",
         messages: messagesWithSystem,
         tools: availableTools,
@@ -259,8 +241,9 @@ export async function POST(request: Request) {
             effort: thinkingEffort,
           },
         }),
-      }),
-    });
+      },
+      usageOptions
+    );
 
     if (!openRouterRes.ok) {
       const t = await openRouterRes.text();
@@ -281,10 +264,13 @@ export async function POST(request: Request) {
           const args = JSON.parse(toolCall.arguments);
           const updatedContent = typeof args.content === "string" ? args.content : "";
           
-          // Return the updated content so the client can update the document
+          // Return the updated content so the client can update the document.
+          // baseContent is the version the model edited; the editor merges the
+          // change into whatever collaborators have typed since.
           return {
             result: {
               updatedContent,
+              baseContent: documentContext?.content,
               success: true,
             },
           };
@@ -621,34 +607,27 @@ export async function POST(request: Request) {
       });
 
       // Make follow-up request with tool results
-      const followUpRes = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
+      // The turn already passed the budget check; let it finish
+      const followUpRes = await openRouterChatCompletion(
+        openRouterKey,
         {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-            "HTTP-Referer": referer,
-            "X-Title": "Gravitate Agent",
-          },
-          body: JSON.stringify({
-            model: model || "openrouter/auto",
-            messages: [
-              ...messagesWithSystem,
-              ...messagesSoFar,
-              ...toolMessages,
-              ...toolResultMessages,
-            ],
-            tools: availableTools,
-            tool_choice: "auto",
-            stream: true,
-            ...(supportsReasoning && {
-              reasoning: {
-                effort: thinkingEffort,
-              },
-            }),
+          model: model || "openrouter/auto",
+          messages: [
+            ...messagesWithSystem,
+            ...messagesSoFar,
+            ...toolMessages,
+            ...toolResultMessages,
+          ],
+          tools: availableTools,
+          tool_choice: "auto",
+          stream: true,
+          ...(supportsReasoning && {
+            reasoning: {
+              effort: thinkingEffort,
+            },
           }),
-        }
+        },
+        { ...usageOptions, checkBudget: false }
       );
 
       if (followUpRes.ok && followUpRes.body) {
@@ -703,6 +682,12 @@ export async function POST(request: Request) {
       },
     });
   } catch (err) {
+    if (err instanceof LlmBudgetExceededError) {
+      return new Response(JSON.stringify({ error: err.message }), {
+        status: err.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
     return new Response(JSON.stringify({ error: "Unexpected error" }), {
       status: 500,
       headers: { "Content-Type": "application/json" },
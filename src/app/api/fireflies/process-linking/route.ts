@@ -1,16 +1,26 @@
 import { NextResponse } from "next/server";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForEmail, isInternalRequest } from "@/lib/convexServer";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { openRouterChatCompletion } from "@/lib/openrouter";
 import { api } from "../../../../../convex/_generated/api";
 import type { Id } from "../../../../../convex/_generated/dataModel";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import { formatContactsForPrompt } from "../../../../../convex/utils/clientContacts";
+import {
+  describeCandidate,
+  pickAutoLinkCandidate,
+  resolveClientCandidates,
+} from "../../../../../convex/utils/clientResolution";
 
 /**
  * Process AI linking for a transcript
- * This runs in Next.js so it can use NEXT_PUBLIC_* and other Next.js env vars
+ * This runs in Next.js so it can use NEXT_PUBLIC_* and other Next.js env vars.
+ * Only called internally (webhooks, Convex), acting as the transcript's owner.
  */
 export async function POST(request: Request) {
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const body = await request.json() as {
       email: string;
@@ -19,6 +29,7 @@ export async function POST(request: Request) {
 
     const { email, transcriptId } = body;
 
+    const convex = getConvexForEmail(email);
     if (!convex) {
       return NextResponse.json(
         { error: "Convex not configured" },
@@ -72,12 +83,7 @@ export async function POST(request: Request) {
     }
 
     // Get OpenRouter API key from Convex (user-specific)
-    const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-      email,
-    });
-
-    // Fallback to environment variable for backwards compatibility
-    const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = await getOpenRouterApiKey(email);
     if (!apiKey) {
       return NextResponse.json(
         {
@@ -94,6 +100,7 @@ export async function POST(request: Request) {
       businessEmail: client.businessEmail ?? "",
       contactFirstName: client.contactFirstName ?? "",
       contactLastName: client.contactLastName ?? "",
+      contacts: client.contacts,
       status: client.status ?? null,
     }));
 
@@ -121,7 +128,11 @@ export async function POST(request: Request) {
             client.contactLastName,
           ]
             .filter(Boolean)
-            .join(" ") || "Unknown"}\n  Status: ${client.status || "unspecified"}`
+            .join(" ") || "Unknown"}${
+            client.contacts.length > 0
+              ? `\n  Contacts:\n${formatContactsForPrompt(client.contacts).replace(/^/gm, "    ")}`
+              : ""
+          }\n  Status: ${client.status || "unspecified"}`
       ),
       `Transcript content:\n"""${transcript.transcript}"""`,
     ].join("\n\n");
@@ -135,13 +146,9 @@ export async function POST(request: Request) {
     } | null = null;
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
+      const response = await openRouterChatCompletion(
+        apiKey,
+        {
           model: "openai/gpt-5",
           temperature: 0.1,
           reasoning: {
@@ -151,8 +158,9 @@ export async function POST(request: Request) {
             { role: "system", content: systemPrompt },
             { role: "user", content: userPrompt },
           ],
-        }),
-      });
+        },
+        { email, feature: "transcript_linking" }
+      );
 
       if (!response.ok) {
         throw new Error(`OpenRouter request failed with status ${response.status}`);
@@ -219,44 +227,62 @@ export async function POST(request: Request) {
       reason: aiResult.reason,
     });
 
-    if (aiResult.decision === "link" && aiResult.clientId) {
-      const targetClient = clients.find((client) => client._id === aiResult.clientId);
-      if (targetClient && aiResult.confidence >= 0.75) {
-        console.log(`[AI Linking] Linking transcript ${transcriptId} to client ${targetClient._id} with confidence ${aiResult.confidence}`);
-        
-        await convex.mutation(api.clients.linkTranscriptToClient, {
-          transcriptId,
-          clientId: targetClient._id,
-        });
+    // The AI's pick is one more signal next to the participants and title
+    const [aliases, threshold] = await Promise.all([
+      convex.query(api.linkAliases.getAliasesForLinking, { ownerEmail: email }),
+      convex.query(api.organizations.getAutoLinkThresholdForEmail, { email }),
+    ]);
+    const candidates = resolveClientCandidates(
+      {
+        emails: transcript.participants,
+        ignoreEmails: [email],
+        title: transcript.title,
+        aliases,
+        llmVote:
+          aiResult.decision === "link" && aiResult.clientId
+            ? { clientId: aiResult.clientId, confidence: aiResult.confidence, reason: aiResult.reason }
+            : undefined,
+      },
+      clients
+    );
+    const match = pickAutoLinkCandidate(candidates, threshold);
+
+    if (match) {
+      console.log(`[AI Linking] Linking transcript ${transcriptId} to client ${match.client._id} with score ${match.score}`);
 
-        await convex.mutation(api.fireflies.recordLinkingAttempt, {
-          transcriptId,
-          clientId: targetClient._id,
-          linkingStatus: "ai_linked",
-          lastLinkAttemptAt: attemptTimestamp,
-          linkingHistoryEntry: {
-            stage: "ai",
-            status: "success",
-            timestamp: attemptTimestamp,
-            confidence: aiResult.confidence,
-            clientId: targetClient._id,
-            reason: aiResult.reason,
-          },
-        });
+      await convex.mutation(api.clients.linkTranscriptToClient, {
+        transcriptId,
+        clientId: match.client._id,
+      });
 
-        return NextResponse.json({
-          status: "linked",
-          transcriptId,
-          clientId: targetClient._id,
-          confidence: aiResult.confidence,
-        });
-      } else {
-        console.log(`[AI Linking] Decision was "link" but confidence ${aiResult.confidence} < 0.75 or client not found, proceeding to Telegram escalation`);
-      }
-    } else {
-      console.log(`[AI Linking] Decision was "${aiResult.decision}", proceeding to Telegram escalation`);
+      await convex.mutation(api.fireflies.recordLinkingAttempt, {
+        transcriptId,
+        clientId: match.client._id,
+        linkingStatus: "ai_linked",
+        lastLinkAttemptAt: attemptTimestamp,
+        linkingHistoryEntry: {
+          stage: "ai",
+          status: "success",
+          timestamp: attemptTimestamp,
+          confidence: match.score,
+          clientId: match.client._id,
+          reason: describeCandidate(match),
+        },
+      });
+
+      return NextResponse.json({
+        status: "linked",
+        transcriptId,
+        clientId: match.client._id,
+        confidence: match.score,
+      });
     }
 
+    console.log(
+      `[AI Linking] Best score ${candidates[0]?.score ?? 0} is below the auto-link threshold ${threshold} or tied, proceeding to Telegram escalation`
+    );
+
+    // Recording the failed AI attempt notifies the owner (Telegram prompt, in-app, ...)
     await convex.mutation(api.fireflies.recordLinkingAttempt, {
       transcriptId,
       linkingStatus: "needs_human",
@@ -271,115 +297,11 @@ export async function POST(request: Request) {
       },
     });
 
-    // Escalate to Telegram if configured
-    let telegramSent = false;
-    try {
-      const botToken = process.env.TELEGRAM_BOT_TOKEN;
-      const chatId = process.env.TELEGRAM_CHAT_ID;
-      
-      console.log(`[Telegram] Checking configuration: botToken=${!!botToken}, chatId=${!!chatId}`);
-      
-      if (!botToken || !chatId) {
-        console.warn(`[Telegram] Not configured: botToken=${!!botToken}, chatId=${!!chatId}`);
-      } else {
-        const participants = Array.isArray(transcript.participants)
-          ? transcript.participants.join(", ")
-          : "None listed";
-
-        const snippet = transcript.transcript.length > 500
-          ? `${transcript.transcript.slice(0, 500)}…`
-          : transcript.transcript;
-
-        const baseUrl = process.env.NEXT_PUBLIC_APP_URL;
-        const manualLink = baseUrl
-          ? `${baseUrl.replace(/\/$/, "")}/resolve-transcript/${transcript.transcriptId}`
-          : null;
-
-        const messageLines = [
-          "🤖 *Transcript Linking Assistance Required*",
-          "",
-          `*Transcript ID:* ${transcript.transcriptId}`,
-          `*Title:* ${transcript.title}`,
-          `*Date:* ${new Date(transcript.date).toLocaleString()}`,
-          `*Participants:* ${participants}`,
-          `*Current Status:* ${transcript.linkingStatus ?? "unlinked"}`,
-          "",
-          manualLink ? `Manual link: ${manualLink}` : "",
-          "Reply to this message with the correct client name or email (e.g., `Best Cleaners Inc` or `info@acme.com`).",
-          "If we should hold off, reply with `manual` and we'll wait for more info.",
-          "",
-          `Preview:\n${snippet}`,
-        ].filter(Boolean);
-
-        const messageText = messageLines.join("\n");
-        console.log(`[Telegram] Sending message to chat ${chatId}...`);
-
-        const telegramResponse = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            chat_id: chatId,
-            text: messageText,
-            parse_mode: "Markdown",
-            disable_web_page_preview: true,
-          }),
-        });
-
-        if (!telegramResponse.ok) {
-          const errorText = await telegramResponse.text();
-          throw new Error(`Telegram API error: ${telegramResponse.status} - ${errorText}`);
-        }
-
-        const telegramData = (await telegramResponse.json()) as { ok: boolean; result?: unknown };
-        if (!telegramData.ok) {
-          throw new Error(`Telegram API returned error: ${JSON.stringify(telegramData)}`);
-        }
-
-        console.log(`[Telegram] Message sent successfully: ${JSON.stringify(telegramData.result)}`);
-        telegramSent = true;
-
-        await convex.mutation(api.fireflies.recordLinkingAttempt, {
-          transcriptId,
-          linkingStatus: "needs_human",
-          lastLinkAttemptAt: attemptTimestamp,
-          linkingHistoryEntry: {
-            stage: "telegram",
-            status: "success",
-            timestamp: attemptTimestamp,
-            reason: "Escalated to Telegram.",
-          },
-        });
-      }
-    } catch (notifyError) {
-      const errorMessage = notifyError instanceof Error ? notifyError.message : String(notifyError);
-      console.error(`[Telegram] Failed to send escalation for transcript ${transcriptId}:`, errorMessage);
-      
-      // Still record the attempt as failed
-      try {
-        await convex.mutation(api.fireflies.recordLinkingAttempt, {
-          transcriptId,
-          linkingStatus: "needs_human",
-          lastLinkAttemptAt: attemptTimestamp,
-          linkingHistoryEntry: {
-            stage: "telegram",
-            status: "error",
-            timestamp: attemptTimestamp,
-            reason: `Telegram send failed: ${errorMessage}`,
-          },
-        });
-      } catch (recordError) {
-        console.error(`[Telegram] Failed to record failed attempt:`, recordError);
-      }
-    }
-
     return NextResponse.json({
       status: "needs_human",
       transcriptId,
       reason: aiResult.reason,
       confidence: aiResult.confidence,
-      telegramSent,
     });
   } catch (error) {
     console.error("Error processing AI linking:", error);
@@ -1,9 +1,8 @@
 import { NextResponse } from "next/server";
-import { ConvexHttpClient } from "convex/browser";
+import { getCurrentUser } from "@/lib/auth";
+import { getConvexForSession } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import { internalApiHeaders } from "../../../../../convex/utils/internalApi";
 
 function sendLog(controller: ReadableStreamDefaultController<Uint8Array>, message: string, type: "info" | "success" | "error" | "warning" = "info") {
   const encoder = new TextEncoder();
@@ -11,13 +10,18 @@ function sendLog(controller: ReadableStreamDefaultController<Uint8Array>, messag
   controller.enqueue(encoder.encode(`data: ${data}\n\n`));
 }
 
-export async function POST(request: Request) {
+export async function POST() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const convex = await getConvexForSession();
   if (!convex) {
     return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
   }
 
-  const body = await request.json() as { email: string };
-  const { email } = body;
+  const { email } = user;
 
   const stream = new ReadableStream({
     async start(controller) {
@@ -49,9 +53,7 @@ export async function POST(request: Request) {
         
         const linkingResponse = await fetch(`${baseUrl.replace(/\/$/, "")}/api/fireflies/process-linking`, {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
+          headers: internalApiHeaders(),
           body: JSON.stringify({
             email,
             transcriptId: testResult.transcriptId,
@@ -73,7 +75,6 @@ export async function POST(request: Request) {
           status: string;
           confidence?: number;
           reason?: string;
-          telegramSent?: boolean;
         };
         
         sendLog(controller, `   AI analysis complete`, "success");
@@ -88,16 +89,9 @@ export async function POST(request: Request) {
           sendLog(controller, `   AI Decision: No confident match found`, "info");
           sendLog(controller, `   Reason: ${aiResult.reason || "Unknown"}`, "info");
           
-          if (aiResult.telegramSent) {
-            sendLog(controller, `📱 Sending Telegram notification...`, "info");
-            sendLog(controller, `📱 Telegram notification sent`, "success");
-            sendLog(controller, `   Check your Telegram for the notification`, "info");
-            sendLog(controller, `✅ Test complete: escalated_to_telegram`, "success");
-          } else {
-            sendLog(controller, `⚠️ Telegram not configured or failed to send`, "warning");
-            sendLog(controller, `   Make sure TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID are set`, "info");
-            sendLog(controller, `✅ Test complete: ${testResult.status}`, "info");
-          }
+          sendLog(controller, `📣 Escalated through your notification preferences`, "info");
+          sendLog(controller, `   Check the bell in the navbar, or Telegram if it's enabled for this event`, "info");
+          sendLog(controller, `✅ Test complete: escalated`, "success");
         } else {
           sendLog(controller, `✅ Test complete: ${aiResult.status}`, "info");
         }
@@ -0,0 +1,194 @@
+import { NextResponse } from "next/server";
+import { convexMutation, convexQuery } from "@/lib/convexHttp";
+import { verifySignature } from "@/lib/webhookSignature";
+import { parseFirefliesWebhook, processFirefliesWebhook } from "@/lib/firefliesWebhook";
+
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+const hasConvexConfig = Boolean(
+  convexUrl && process.env.CONVEX_DEPLOYMENT_TOKEN
+);
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+type WebhookConfig = {
+  organizationId: string;
+  email: string | null;
+  secret: string | null;
+};
+
+// Health check endpoint
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    route: "/api/fireflies/webhook/[token]",
+    convexConfigured: hasConvexConfig,
+    convexUrl: convexUrl ? `${convexUrl.substring(0, 30)}...` : "not set",
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+
+    console.log("[Fireflies Webhook] POST request received", {
+      convexConfigured: hasConvexConfig,
+      convexUrlSet: !!convexUrl,
+    });
+
+    if (!hasConvexConfig) {
+      console.error("[Fireflies Webhook] Convex HTTP API not configured");
+      return NextResponse.json(
+        { error: "Server configuration error: Convex not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Get raw body as text for signature verification
+    const rawBody = await request.text();
+    
+    if (!rawBody || rawBody.length === 0) {
+      return NextResponse.json(
+        { error: "Empty request body" },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the organization from the token in the URL
+    let config: WebhookConfig | null;
+    try {
+      config = await convexQuery<WebhookConfig | null>("fireflies:getWebhookConfigByTokenInternal", { token });
+    } catch (error) {
+      console.error("[Fireflies Webhook] Failed to fetch webhook config:", error);
+      return NextResponse.json(
+        { error: "Failed to retrieve webhook configuration" },
+        { status: 500 }
+      );
+    }
+
+    if (!config) {
+      return NextResponse.json({ error: "Unknown webhook URL" }, { status: 404 });
+    }
+
+    if (!config.secret) {
+      return NextResponse.json(
+        { error: "Webhook secret not configured. Paste the secret from Fireflies in Settings → Fireflies." },
+        { status: 401 }
+      );
+    }
+
+    // Fireflies uses x-hub-signature header with sha256= prefix
+    const signature = request.headers.get("x-hub-signature") ||
+                      request.headers.get("x-fireflies-signature") || 
+                      request.headers.get("fireflies-signature") ||
+                      request.headers.get("x-signature") ||
+                      request.headers.get("signature") ||
+                      request.headers.get("x-webhook-signature");
+    
+    if (!signature) {
+      return NextResponse.json(
+        { error: "Missing signature header. Expected signature header from Fireflies." },
+        { status: 401 }
+      );
+    }
+
+    const isValid = await verifySignature(rawBody, signature, config.secret);
+    if (!isValid) {
+      console.warn(`[Fireflies Webhook] Signature verification failed for organization ${config.organizationId}`);
+      return NextResponse.json(
+        { error: "Invalid webhook signature. Signature verification failed." },
+        { status: 401 }
+      );
+    }
+
+    if (!config.email) {
+      return NextResponse.json(
+        { error: "The member who set up this webhook URL has left the organization. Rotate the URL in Settings → Fireflies." },
+        { status: 403 }
+      );
+    }
+    const userEmail = config.email;
+
+    // Parse JSON payload
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch (parseError) {
+      console.error("Failed to parse webhook payload as JSON:", parseError);
+      return NextResponse.json(
+        { error: "Invalid JSON payload. Failed to parse request body." },
+        { status: 400 }
+      );
+    }
+
+    const { eventType, meetingId } = parseFirefliesWebhook(payload);
+    
+    if (!meetingId) {
+      return NextResponse.json(
+        { error: "Missing meetingId in webhook payload" },
+        { status: 400 }
+      );
+    }
+
+    // Record the delivery first (without transcript data) so it can be inspected and replayed
+    let delivery: { webhookId: string; duplicate: boolean };
+    try {
+      delivery = await convexMutation<{ webhookId: string; duplicate: boolean }>("fireflies:storeWebhook", {
+        email: userEmail,
+        payload,
+        eventType,
+        meetingId: meetingId,
+        transcriptId: meetingId, // meetingId and transcriptId are the same in Fireflies
+      }, { actingAs: userEmail });
+    } catch (storageError) {
+      console.error(`Failed to store webhook for user ${userEmail}:`, storageError);
+      return NextResponse.json(
+        { error: "Failed to store webhook payload in database" },
+        { status: 500 }
+      );
+    }
+
+    if (delivery.duplicate) {
+      console.log(`[Fireflies Webhook] Ignoring repeated delivery for meeting ${meetingId}`);
+      return NextResponse.json({ ok: true, duplicate: true });
+    }
+
+    // Fetch the transcript and process linking in the background; we return success immediately
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.url.split('/api')[0];
+    processFirefliesWebhook(userEmail, { eventType, meetingId }, baseUrl)
+      .then(() =>
+        convexMutation("fireflies:setWebhookStatus", {
+          webhookId: delivery.webhookId,
+          status: "processed",
+        }, { actingAs: userEmail })
+      )
+      .catch(async (error) => {
+        console.error(`Failed to fetch transcript ${meetingId} for user ${userEmail}:`, error);
+        // The delivery stays in the inspector as failed, where it can be replayed
+        await convexMutation("fireflies:setWebhookStatus", {
+          webhookId: delivery.webhookId,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        }, { actingAs: userEmail }).catch((statusError) => {
+          console.error(`Failed to mark webhook ${delivery.webhookId} failed:`, statusError);
+        });
+      });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    console.error("[Fireflies Webhook] Processing error:", {
+      message: error.message,
+      stack: error.stack,
+      name: error.name,
+    });
+    return NextResponse.json(
+      { 
+        error: `Webhook processing failed: ${error.message}`,
+        details: process.env.NODE_ENV === "development" ? error.stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
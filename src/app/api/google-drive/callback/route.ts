@@ -1,15 +1,12 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { storeGoogleDriveTokens } from "@/lib/credentials";
 import { api } from "../../../../../convex/_generated/api";
 
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
 export async function GET(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return NextResponse.redirect(
         `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/settings?error=unauthorized`
       );
@@ -54,7 +51,7 @@ export async function GET(request: Request) {
     if (state) {
       try {
         const stateData = JSON.parse(Buffer.from(state, "base64").toString());
-        if (stateData.email !== user.email) {
+        if (stateData.email !== session.email) {
           return NextResponse.redirect(
             `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/settings?error=invalid_state`
           );
@@ -146,23 +143,18 @@ export async function GET(request: Request) {
     }
 
     // Store tokens in Convex
-    if (!convex) {
-      return NextResponse.redirect(
-        `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/settings?error=convex_not_configured`
-      );
-    }
+    const { convex } = session;
 
     const tokenExpiry = Date.now() + (tokenData.expires_in * 1000);
 
     // Get or create organization for user
     const organizationId = await convex.mutation(api.organizations.getOrCreateDefaultOrganization, {
-      email: user.email,
+      email: session.email,
     });
 
-    // Store tokens at organization level
-    await convex.mutation(api.googleDrive.setTokensForOrganization, {
-      organizationId,
-      connectedByEmail: user.email,
+    // Store tokens at organization level; the refresh token is encrypted
+    await storeGoogleDriveTokens(session.email, organizationId, {
+      connectedByEmail: session.email,
       accessToken: tokenData.access_token,
       refreshToken: tokenData.refresh_token || "",
       tokenExpiry,
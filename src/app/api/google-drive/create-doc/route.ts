@@ -1,10 +1,8 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { getGoogleDriveTokens, storeGoogleDriveTokens } from "@/lib/credentials";
 import { api } from "../../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import type { Id } from "../../../../../convex/_generated/dataModel";
 
 // Google Drive API helpers
 const DRIVE_API_BASE = "https://www.googleapis.com/drive/v3";
@@ -331,34 +329,46 @@ function createGoogleDocsRequests(segments: TextSegment[]): any[] {
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user?.email) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
-
-    if (!convex) {
-      return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
-    }
+    const { convex } = session;
 
     const body = (await request.json()) as {
+      scriptId: string; // Script to export; must be approved
       title?: string;
-      content: string; // HTML content
       parentFolderId?: string; // Optional parent folder ID
     };
 
-    if (!body?.content) {
-      return NextResponse.json({ error: "Content is required" }, { status: 400 });
+    if (!body?.scriptId) {
+      return NextResponse.json({ error: "scriptId is required" }, { status: 400 });
+    }
+
+    // Only approved scripts can be exported, and always with their stored (approved) content
+    const scriptId = body.scriptId as Id<"scripts">;
+    const eligibility = await convex.query(api.scriptReview.getExportEligibility, {
+      scriptId,
+      email: session.email,
+    });
+    if (!eligibility.allowed || !eligibility.script) {
+      return NextResponse.json(
+        { error: eligibility.reason, errorCode: eligibility.code === "not_found" ? "script_not_found" : "script_not_approved" },
+        { status: eligibility.code === "not_found" ? 404 : 409 }
+      );
     }
+    const content = eligibility.script.contentHtml;
+    const title = body.title || eligibility.script.title || "New Document";
 
     // Get user's organization
-    const org = await convex.query(api.organizations.getOrganizationForUser, { email: user.email });
+    const org = await convex.query(api.organizations.getOrganizationForUser, { email: session.email });
     if (!org) {
       return NextResponse.json({ error: "Organization not found" }, { status: 400 });
     }
 
     // Load Google Drive tokens for organization
-    const cfg = await convex.query(api.googleDrive.getConfigForOrganization, { organizationId: org._id });
-    if (!cfg?.accessToken || !cfg?.refreshToken) {
+    const cfg = await getGoogleDriveTokens(session.email, org._id);
+    if (!cfg) {
       return NextResponse.json({ error: "Google Drive not connected" }, { status: 400 });
     }
 
@@ -370,8 +380,7 @@ export async function POST(request: Request) {
         const refreshed = await refreshAccessToken(cfg.refreshToken);
         accessToken = refreshed.access_token;
         const newExpiry = Date.now() + refreshed.expires_in * 1000;
-        await convex.mutation(api.googleDrive.setTokensForOrganization, {
-          organizationId: org._id,
+        await storeGoogleDriveTokens(session.email, org._id, {
           connectedByEmail: cfg.connectedByEmail,
           accessToken,
           refreshToken: refreshed.refresh_token || cfg.refreshToken,
@@ -393,7 +402,7 @@ export async function POST(request: Request) {
       mimeType: string;
       parents?: string[];
     } = {
-      name: body.title || "New Document",
+      name: title,
       mimeType: "application/vnd.google-apps.document",
     };
     if (body.parentFolderId) {
@@ -405,7 +414,7 @@ export async function POST(request: Request) {
       `${JSON.stringify(metadata)}\r\n` +
       `--${boundary}\r\n` +
       `Content-Type: text/html; charset=UTF-8\r\n\r\n` +
-      `${body.content}\r\n` +
+      `${content}\r\n` +
       `--${boundary}--`;
 
     let createdDoc: { id: string; webViewLink?: string } | null = null;
@@ -438,7 +447,7 @@ export async function POST(request: Request) {
         mimeType: string;
         parents?: string[];
       } = {
-        name: body.title || "New Document",
+        name: title,
         mimeType: "application/vnd.google-apps.document",
       };
       if (body.parentFolderId) {
@@ -464,7 +473,7 @@ export async function POST(request: Request) {
       const documentId = doc.id;
 
       // Parse HTML and convert to Google Docs API format
-      const segments = parseHtmlToSegments(body.content);
+      const segments = parseHtmlToSegments(content);
       const requests = createGoogleDocsRequests(segments);
 
       // Insert content with formatting into the document using Google Docs API
@@ -487,6 +496,7 @@ export async function POST(request: Request) {
       }
 
       const docUrl = doc.webViewLink || `https://docs.google.com/document/d/${documentId}/edit`;
+      await convex.mutation(api.scriptReview.markDelivered, { scriptId, email: session.email, driveDocUrl: docUrl });
       return NextResponse.json({
         success: true,
         documentId,
@@ -495,10 +505,12 @@ export async function POST(request: Request) {
     }
 
     // Success via HTML import
+    const docUrl = createdDoc.webViewLink || `https://docs.google.com/document/d/${createdDoc.id}/edit`;
+    await convex.mutation(api.scriptReview.markDelivered, { scriptId, email: session.email, driveDocUrl: docUrl });
     return NextResponse.json({
       success: true,
       documentId: createdDoc.id,
-      url: createdDoc.webViewLink || `https://docs.google.com/document/d/${createdDoc.id}/edit`,
+      url: docUrl,
     });
   } catch (error) {
     console.error("[Drive] Create doc error:", error);
@@ -1,10 +1,9 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForRequest } from "@/lib/convexServer";
+import { getGoogleDriveTokens, storeGoogleDriveTokens } from "@/lib/credentials";
 import { api } from "../../../../../convex/_generated/api";
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
 
 // Google Drive API helpers
 const DRIVE_API_BASE = "https://www.googleapis.com/drive/v3";
@@ -190,7 +189,7 @@ async function refreshAccessToken(refreshToken: string) {
 
 export async function POST(request: Request) {
   try {
-    // Allow internal calls (from Convex cron) by providing email in body
+    // Internal calls (Convex cron, the generation pipeline) provide the email in the body
     const body = (await request.json()) as {
       clientId: string;
       email?: string; // optional for internal calls
@@ -201,15 +200,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "clientId is required" }, { status: 400 });
     }
 
-    let user = await getCurrentUser();
-    const ownerEmail = body.email || user?.email;
-    if (!ownerEmail) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (!convexUrl) {
+      return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
     }
 
-    if (!convex) {
-      return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
+    const session = await getConvexForRequest(request, body.email);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    const { convex, email: ownerEmail } = session;
 
     // Load client to get name
     const client = await convex.query(api.clients.getClientById, { clientId: body.clientId as any });
@@ -224,8 +223,8 @@ export async function POST(request: Request) {
     }
 
     // Load Google Drive tokens for organization
-    const cfg = await convex.query(api.googleDrive.getConfigForOrganization, { organizationId: org._id });
-    if (!cfg?.accessToken || !cfg?.refreshToken) {
+    const cfg = await getGoogleDriveTokens(ownerEmail, org._id);
+    if (!cfg) {
       return NextResponse.json({ error: "Google Drive not connected" }, { status: 400 });
     }
 
@@ -237,8 +236,7 @@ export async function POST(request: Request) {
         const refreshed = await refreshAccessToken(cfg.refreshToken);
         accessToken = refreshed.access_token;
         const newExpiry = Date.now() + refreshed.expires_in * 1000;
-        await convex.mutation(api.googleDrive.setTokensForOrganization, {
-          organizationId: org._id,
+        await storeGoogleDriveTokens(ownerEmail, org._id, {
           connectedByEmail: cfg.connectedByEmail,
           accessToken,
           refreshToken: refreshed.refresh_token || cfg.refreshToken,
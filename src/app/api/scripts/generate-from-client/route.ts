@@ -1,10 +1,13 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import type { ConvexHttpClient } from "convex/browser";
+import { getConvexForRequest } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
+import { assembleScriptContext } from "@/lib/scriptContext";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { LlmBudgetExceededError, openRouterChatCompletion } from "@/lib/openrouter";
+import { formatContactsForPrompt, type ClientContactSummary } from "../../../../../convex/utils/clientContacts";
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
 
 type ClientData = {
   businessName: string | null;
@@ -13,28 +16,23 @@ type ClientData = {
   contactLastName: string | null;
   targetRevenue: number | null;
   servicesOffered: string | null;
+  contacts: ClientContactSummary[];
 };
 
 /**
  * Generate script content using LLM from client data
  */
 async function generateScriptContentFromClient(
+  convex: ConvexHttpClient,
   clientData: ClientData,
+  contextText: string,
   model: string,
   thinkingEffort: "low" | "medium" | "high",
-  ownerEmail: string
+  ownerEmail: string,
+  clientId: string
 ): Promise<string> {
   // Get OpenRouter API key from Convex (user-specific)
-  if (!convex) {
-    throw new Error("Convex not configured");
-  }
-
-  const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-    email: ownerEmail,
-  });
-
-  // Fallback to environment variable for backwards compatibility
-  const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+  const apiKey = await getOpenRouterApiKey(ownerEmail);
   if (!apiKey) {
     throw new Error(
       "OpenRouter API key not configured. Please set it in Settings → OpenRouter."
@@ -49,25 +47,25 @@ async function generateScriptContentFromClient(
   const servicesOfferedText = clientData.servicesOffered 
     ? `\nServices Offered: ${clientData.servicesOffered}` 
     : "";
+  const contactsText = clientData.contacts.length > 0
+    ? `\nContacts:\n${formatContactsForPrompt(clientData.contacts)}`
+    : "";
 
   const userPrompt = `Create a personalized video script for:
 
 Business Name: ${clientData.businessName || "Unknown"}
 Contact: ${clientData.contactFirstName || ""} ${clientData.contactLastName || ""}
 Email: ${clientData.businessEmail || "Not provided"}
-Target Revenue: ${clientData.targetRevenue ? `$${clientData.targetRevenue.toLocaleString()}` : "Not specified"}${servicesOfferedText}
-
+Target Revenue: ${clientData.targetRevenue ? `$${clientData.targetRevenue.toLocaleString()}` : "Not specified"}${servicesOfferedText}${contactsText}
+${contextText ? `
+Client Context (most recent first where dated):
+${contextText}
+` : ""}
 Generate the script as HTML with proper structure.`;
 
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
-      "X-Title": "Gravitate Agent",
-    },
-    body: JSON.stringify({
+  const response = await openRouterChatCompletion(
+    apiKey,
+    {
       model: model || "openai/gpt-5",
       messages: [
         { role: "system", content: systemPrompt },
@@ -79,8 +77,9 @@ Generate the script as HTML with proper structure.`;
         },
       } : {}),
       temperature: 0.7,
-    }),
-  });
+    },
+    { email: ownerEmail, feature: "script_generation", clientId }
+  );
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -111,30 +110,26 @@ export async function POST(request: Request) {
       clientId: string;
       email?: string; // Optional - for internal calls
       force?: boolean; // Optional - force generation even if scripts exist
+      cronJobId?: string; // Optional - set when triggered by a scheduled cron job
     };
 
-    const { clientId, email: providedEmail, force } = body;
+    const { clientId, email: providedEmail, force, cronJobId } = body;
 
-    // Get user - either from auth or from provided email (for internal calls)
-    let user: { id: string; email: string } | null = null;
-    if (providedEmail) {
-      // Internal call from Convex action - use provided email
-      user = { id: "internal", email: providedEmail };
-    } else {
-      // Authenticated call from UI
-      user = await getCurrentUser();
-      if (!user) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-    }
-
-    if (!convex) {
+    if (!convexUrl) {
       return NextResponse.json(
         { error: "Convex not configured" },
         { status: 500 }
       );
     }
 
+    // Act as the signed-in user, or as the provided email for internal calls from Convex
+    const session = await getConvexForRequest(request, providedEmail);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const { convex } = session;
+    const user = { email: session.email };
+
     // Get the client
     const client = await convex.query(api.clients.getClientById, {
       clientId: clientId as any,
@@ -191,6 +186,7 @@ export async function POST(request: Request) {
       contactLastName: client.contactLastName || null,
       targetRevenue: client.targetRevenue || null,
       servicesOffered: client.servicesOffered || null,
+      contacts: await convex.query(api.clientContacts.getContactsForClient, { clientId: client._id }),
     };
 
     if (!clientData.businessName) {
@@ -208,14 +204,32 @@ export async function POST(request: Request) {
     const model = settings?.defaultModel || "openai/gpt-5";
     const thinkingEffort = settings?.defaultThinkingEffort || "medium";
 
+    // Assemble context: onboarding answers, linked transcripts, ad briefing, notes, previous scripts
+    const contextInputs = await convex.query(api.scriptContext.getScriptContextInputs, {
+      clientId: clientId as any,
+      ownerEmail: user.email,
+      transcriptLimit: settings?.contextTranscriptLimit,
+    });
+    const context = contextInputs
+      ? assembleScriptContext(contextInputs, { tokenBudget: settings?.contextTokenBudget })
+      : { contextText: "", sources: [], estimatedTokens: 0 };
+    console.log("[Script Generation] Context assembled", {
+      clientId,
+      estimatedTokens: context.estimatedTokens,
+      sources: context.sources.map((s) => s.type),
+    });
+
     // Generate script content
     let scriptHtml: string;
     try {
       scriptHtml = await generateScriptContentFromClient(
+        convex,
         clientData,
+        context.contextText,
         model,
         thinkingEffort,
-        user.email
+        user.email,
+        clientId
       );
       console.log("[Script Generation] Script content generated", {
         clientId,
@@ -228,7 +242,7 @@ export async function POST(request: Request) {
           error: "Failed to generate script",
           details: error instanceof Error ? error.message : "Unknown error",
         },
-        { status: 500 }
+        { status: error instanceof LlmBudgetExceededError ? error.status : 500 }
       );
     }
 
@@ -240,11 +254,12 @@ export async function POST(request: Request) {
       clientId: clientId as any,
       title: scriptTitle,
       contentHtml: scriptHtml,
-      source: {
-        type: "manual", // Changed from "typeform" since this is from client creation
-      },
+      source: cronJobId
+        ? { type: "cron", cronJobId }
+        : { type: "manual" }, // Changed from "typeform" since this is from client creation
       model,
       thinkingEffort,
+      contextSources: context.sources,
       status: "draft",
     });
 
@@ -1,209 +1,13 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForRequest } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
+import type { Id } from "../../../../../convex/_generated/dataModel";
+import {
+  PipelineStepError,
+  runScriptGenerationPipeline,
+} from "@/lib/scriptGenerationPipeline";
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
-/**
- * Explicit field mapping for the single Typeform form
- * Maps fieldRef values to client data fields
- */
-const FIELD_MAPPING: Record<string, { field: keyof ClientData; type: "string" | "number" | "email" }> = {
-  // Full Name
-  "98e94d78-6c72-4ea2-806e-9675f326550e": { field: "contactFirstName", type: "string" },
-  // Business Name
-  "01K3PZTF2WHB908HD47FDXE81C": { field: "businessName", type: "string" },
-  // Email
-  "a0e9781d-38e4-4768-af2c-19a4518d2ac7": { field: "businessEmail", type: "email" },
-  // Target Revenue (monthly)
-  "6589c67b-c739-4372-96e0-a5e3b6a52220": { field: "targetRevenue", type: "number" },
-};
-
-type ClientData = {
-  businessName: string | null;
-  businessEmail: string | null;
-  contactFirstName: string | null;
-  contactLastName: string | null;
-  targetRevenue: number | null;
-  servicesOffered: string | null;
-};
-
-/**
- * Extract client data from qaPairs using explicit field mapping
- */
-function extractClientDataFromQAPairs(qaPairs: Array<{ question: string; answer: string; fieldRef?: string }>): ClientData {
-  const result: ClientData = {
-    businessName: null,
-    businessEmail: null,
-    contactFirstName: null,
-    contactLastName: null,
-    targetRevenue: null,
-    servicesOffered: null,
-  };
-
-  for (const qa of qaPairs) {
-    const fieldRef = qa.fieldRef?.trim();
-    if (!fieldRef) continue;
-
-    const mapping = FIELD_MAPPING[fieldRef];
-    if (!mapping) continue;
-
-    const value = qa.answer?.trim();
-    // Allow empty email (it might be optional)
-    if (!value && mapping.field !== "businessEmail") continue;
-
-    switch (mapping.field) {
-      case "businessName":
-        result.businessName = value;
-        break;
-      case "businessEmail":
-        if (value) {
-          result.businessEmail = value.toLowerCase();
-        }
-        break;
-      case "contactFirstName": {
-        const nameParts = value.split(/\s+/);
-        result.contactFirstName = nameParts[0] || null;
-        if (nameParts.length > 1) {
-          result.contactLastName = nameParts.slice(1).join(" ");
-        }
-        break;
-      }
-      case "targetRevenue": {
-        // Handle ranges like "20-30k" or "20k-30k"
-        let num: number | null = null;
-        const cleaned = value.replace(/,/g, "").toLowerCase().trim();
-        
-        // Try to parse range (e.g., "20-30k" -> take upper bound)
-        const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)\s*k/i);
-        if (rangeMatch) {
-          const upper = parseInt(rangeMatch[2], 10) * 1000;
-          num = upper;
-        } else {
-          // Try single number with k suffix
-          const kMatch = cleaned.match(/(\d+)\s*k/i);
-          if (kMatch) {
-            num = parseInt(kMatch[1], 10) * 1000;
-          } else {
-            // Try plain number
-            const plainNum = parseInt(cleaned, 10);
-            if (!isNaN(plainNum) && plainNum > 0) {
-              num = plainNum;
-            }
-          }
-        }
-        
-        if (num && num > 0) {
-          result.targetRevenue = num;
-        }
-        break;
-      }
-    }
-  }
-
-  return result;
-}
-
-/**
- * Generate script content using LLM
- */
-async function generateScriptContent(
-  clientData: ClientData,
-  qaPairs: Array<{ question: string; answer: string; fieldRef?: string }>,
-  model: string,
-  thinkingEffort: "low" | "medium" | "high",
-  ownerEmail: string
-): Promise<string> {
-  // Get OpenRouter API key from Convex (user-specific)
-  if (!convex) {
-    throw new Error("Convex not configured");
-  }
-
-  const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-    email: ownerEmail,
-  });
-
-  // Fallback to environment variable for backwards compatibility
-  const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "OpenRouter API key not configured. Please set it in Settings → OpenRouter."
-    );
-  }
-
-  // Get system prompt from Convex (user-specific)
-  const systemPrompt = await convex.query(api.systemPrompts.getSystemPrompt, {
-    email: ownerEmail,
-  });
-
-  // Build context from qaPairs
-  const contextText = qaPairs
-    .map((qa) => `Q: ${qa.question}\nA: ${qa.answer}`)
-    .join("\n\n");
-
-  const servicesOfferedText = clientData.servicesOffered 
-    ? `\nServices Offered: ${clientData.servicesOffered}` 
-    : "";
-
-  const userPrompt = `Create a personalized video script for:
-
-Business Name: ${clientData.businessName || "Unknown"}
-Contact: ${clientData.contactFirstName || ""} ${clientData.contactLastName || ""}
-Email: ${clientData.businessEmail || "Not provided"}
-Target Revenue: ${clientData.targetRevenue ? `$${clientData.targetRevenue.toLocaleString()}` : "Not specified"}${servicesOfferedText}
-
-Client Information:
-${contextText}
-
-Generate the script as HTML with proper structure.`;
-
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
-      "X-Title": "Gravitate Agent",
-    },
-    body: JSON.stringify({
-      model: model || "openai/gpt-5",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      ...(model.includes("gpt-5") || model.includes("gpt-oss-120b") ? {
-        reasoning: {
-          effort: thinkingEffort,
-        },
-      } : {}),
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
-  const content = data?.choices?.[0]?.message?.content;
-  
-  if (!content || typeof content !== "string") {
-    throw new Error("AI response missing content");
-  }
-
-  // Clean up markdown code blocks if present
-  let htmlContent = content.trim();
-  if (htmlContent.startsWith("```html")) {
-    htmlContent = htmlContent.replace(/^```html\n?/, "").replace(/\n?```$/, "");
-  } else if (htmlContent.startsWith("```")) {
-    htmlContent = htmlContent.replace(/^```\n?/, "").replace(/\n?```$/, "");
-  }
-
-  return htmlContent.trim();
-}
 
 export async function POST(request: Request) {
   try {
@@ -212,252 +16,98 @@ export async function POST(request: Request) {
       responseId: string;
       clientId?: string; // Optional - will be created if not provided
       email?: string; // Optional - for internal calls from Convex sync
+      runId?: string; // Optional - resume this run from its last completed step
     };
 
-    const { responseId, clientId, email: providedEmail } = body;
+    const { responseId, clientId, email: providedEmail, runId: resumeRunId } = body;
     console.log(
       "[Workflow][DirectAPI] Received script generation request",
-      JSON.stringify({ responseId, hasClientId: Boolean(clientId), hasProvidedEmail: Boolean(providedEmail) })
+      JSON.stringify({ responseId, hasClientId: Boolean(clientId), hasProvidedEmail: Boolean(providedEmail), resumeRunId })
     );
 
-    // Get user - either from auth or from provided email (for internal calls)
-    let user: { id: string; email: string } | null = null;
-    if (providedEmail) {
-      // Internal call from Convex sync - use provided email
-      user = { id: "internal", email: providedEmail };
-    } else {
-      // Authenticated call from UI
-      user = await getCurrentUser();
-      if (!user) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-    }
-
-    if (!convex) {
+    if (!convexUrl) {
       return NextResponse.json(
         { error: "Convex not configured" },
         { status: 500 }
       );
     }
 
-    // Start a run for detailed tracking
-    const runId = await convex.mutation(api.scriptGeneration.startRun, {
-      ownerEmail: user.email,
-      responseId,
-      clientId: clientId as any,
-    });
-    console.log("[Workflow][DirectAPI] Run started", JSON.stringify({ runId, responseId, ownerEmail: user.email }));
-
-    // Get the Typeform response
-    const response = await convex.query(api.typeform.getResponseByResponseId, {
-      responseId,
-    });
-
-    if (!response) {
-      console.warn("[Workflow][DirectAPI] Typeform response not found", JSON.stringify({ responseId }));
-      return NextResponse.json(
-        { error: "Typeform response not found" },
-        { status: 404 }
-      );
-    }
-
-    // Verify ownership - response must belong to the user
-    if (response.email !== user.email) {
-      console.warn("[Workflow][DirectAPI] Ownership check failed", JSON.stringify({ responseEmail: response.email, userEmail: user.email }));
-      return NextResponse.json(
-        { error: "Access denied: Response does not belong to user" },
-        { status: 403 }
-      );
-    }
-
-    // Check if script already exists (idempotency)
-    const existingScript = await convex.query(api.scripts.getScriptByResponseId, {
-      responseId,
-      ownerEmail: user.email,
-    });
-
-    if (existingScript) {
-      console.log("[Workflow][DirectAPI] Script already exists - skipping", JSON.stringify({ scriptId: existingScript._id, responseId }));
-      return NextResponse.json({
-        success: true,
-        scriptId: existingScript._id,
-        message: "Script already exists",
-        existing: true,
-      });
+    // Act as the signed-in user, or as the provided email for internal calls from Convex
+    const session = await getConvexForRequest(request, providedEmail);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
-
-    // Extract client data from qaPairs
-    if (!response.qaPairs || response.qaPairs.length === 0) {
-      await convex.mutation(api.scriptGeneration.failRun, {
-        runId,
-        error: "No qaPairs found in response",
-      });
-      return NextResponse.json(
-        { error: "No qaPairs found in response" },
-        { status: 400 }
-      );
-    }
-    console.log("[Workflow][DirectAPI] Loaded response", JSON.stringify({ qaPairs: response.qaPairs.length, questions: response.questions?.length || 0 }));
-
-    const clientData = extractClientDataFromQAPairs(response.qaPairs);
-
-    if (!clientData.businessName) {
-      console.warn("[Workflow][DirectAPI] Missing business name in qaPairs", JSON.stringify({ responseId }));
-      return NextResponse.json(
-        { error: "Business name is required but not found in response" },
-        { status: 400 }
-      );
-    }
-
-    await convex.mutation(api.scriptGeneration.updateStep, {
-      runId,
-      step: { name: "extract_client_data", status: "success" },
-      status: "started",
-    });
-
-    // Get or create client
-    let finalClientId: string;
-    if (clientId) {
-      // Verify ownership
-      const client = await convex.query(api.clients.getClientById, {
-        clientId: clientId as any,
-      });
-      if (!client || client.ownerEmail !== user.email) {
-        await convex.mutation(api.scriptGeneration.failRun, {
-          runId,
-          error: "Client not found or access denied",
-        });
+    const { convex } = session;
+    const user = { email: session.email };
+
+    // Start a new run, or resume an existing one from its checkpoint
+    let runId: Id<"script_generation_runs">;
+    let checkpoint = null;
+    if (resumeRunId) {
+      runId = resumeRunId as Id<"script_generation_runs">;
+      const run = await convex.query(api.scriptGeneration.getRun, { runId, ownerEmail: user.email });
+      if (!run || run.responseId !== responseId) {
+        return NextResponse.json({ error: "Run not found or access denied" }, { status: 404 });
+      }
+      try {
+        checkpoint = await convex.mutation(api.scriptGeneration.resumeRun, { runId, ownerEmail: user.email });
+      } catch (error) {
         return NextResponse.json(
-          { error: "Client not found or access denied" },
-          { status: 403 }
+          { error: error instanceof Error ? error.message : "Run cannot be resumed" },
+          { status: 409 }
         );
       }
-      finalClientId = clientId;
+      console.log("[Workflow][DirectAPI] Run resumed", JSON.stringify({ runId, completedSteps: checkpoint.completedSteps }));
     } else {
-      // Create client if it doesn't exist
-      const existingClient = await convex.query(api.clients.getClientByOnboardingResponseId, {
+      runId = await convex.mutation(api.scriptGeneration.startRun, {
         ownerEmail: user.email,
-        onboardingResponseId: responseId,
+        responseId,
+        clientId: clientId as Id<"clients"> | undefined,
       });
-
-      if (existingClient) {
-        console.log("[Workflow][DirectAPI] Using existing client", JSON.stringify({ clientId: existingClient._id }));
-        finalClientId = existingClient._id;
-      } else {
-        // Create new client
-        const newClientId = await convex.mutation(api.clients.upsertClientFromTypeform, {
-          ownerEmail: user.email,
-          businessEmail: clientData.businessEmail || undefined,
-          businessName: clientData.businessName,
-          contactFirstName: clientData.contactFirstName || undefined,
-          contactLastName: clientData.contactLastName || undefined,
-          onboardingResponseId: responseId,
-          targetRevenue: clientData.targetRevenue || undefined,
-        });
-        finalClientId = newClientId;
-        console.log("[Workflow][DirectAPI] Created new client", JSON.stringify({ clientId: finalClientId }));
-      }
+      console.log("[Workflow][DirectAPI] Run started", JSON.stringify({ runId, responseId, ownerEmail: user.email }));
     }
 
-    await convex.mutation(api.scriptGeneration.updateStep, {
-      runId,
-      step: { name: "prepare_settings", status: "success" },
-      status: "generating",
-    });
-
-    // Get script generation settings
-    const settings = await convex.query(api.scriptSettings.getSettingsForEmail, {
-      email: user.email,
-    });
-
-    const model = settings?.defaultModel || "openai/gpt-5";
-    const thinkingEffort = settings?.defaultThinkingEffort || "medium";
-    console.log("[Workflow][DirectAPI] Using settings", JSON.stringify({ model, thinkingEffort }));
-
-    // Fetch client record to get servicesOffered
-    const client = await convex.query(api.clients.getClientById, {
-      clientId: finalClientId as any,
-    });
-    if (client?.servicesOffered) {
-      clientData.servicesOffered = client.servicesOffered;
-    }
-
-    // Generate script content
-    let scriptHtml: string;
     try {
-      await convex.mutation(api.scriptGeneration.updateStep, {
+      const result = await runScriptGenerationPipeline(convex, {
         runId,
-        step: { name: "llm_generate", status: "running" },
+        ownerEmail: user.email,
+        responseId,
+        clientId: clientId ?? (checkpoint?.clientId as string | undefined),
+        checkpoint,
+        appBaseUrl: new URL(request.url).origin,
       });
-      console.log("[Workflow][DirectAPI] LLM generate starting", JSON.stringify({ qaPairs: response.qaPairs.length, model, thinkingEffort }));
-      scriptHtml = await generateScriptContent(
-        clientData,
-        response.qaPairs,
-        model,
-        thinkingEffort,
-        user.email
-      );
-      await convex.mutation(api.scriptGeneration.updateStep, {
+      await convex.mutation(api.scriptGeneration.completeRun, { runId });
+      console.log("[Workflow][DirectAPI] Script stored", JSON.stringify({ scriptId: result.scriptId, clientId: result.clientId, existing: Boolean(result.existing) }));
+      return NextResponse.json({
+        success: true,
         runId,
-        step: { name: "llm_generate", status: "success" },
+        scriptId: result.scriptId,
+        clientId: result.clientId,
+        ...(result.existing && { existing: true, message: "Script already exists" }),
       });
-      console.log("[Workflow][DirectAPI] Script content generated", JSON.stringify({ htmlLength: scriptHtml.length }));
     } catch (error) {
-      console.error("[Workflow][DirectAPI] Script generation failed", error instanceof Error ? error.message : String(error));
+      const step = error instanceof PipelineStepError ? error.step : undefined;
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Workflow][DirectAPI] Pipeline failed", JSON.stringify({ runId, step, error: message }));
       await convex.mutation(api.scriptGeneration.failRun, {
         runId,
-        error: error instanceof Error ? error.message : "Unknown error during LLM generation",
+        error: message,
+        failedStep: step,
       });
+      const status = error instanceof PipelineStepError ? error.status : 500;
       return NextResponse.json(
         {
-          error: "Failed to generate script",
-          details: error instanceof Error ? error.message : "Unknown error",
+          // Client errors (missing response, access denied) are shown as-is
+          error: status < 500 ? message : "Failed to generate script",
+          details: message,
+          runId,
+          failedStep: step,
         },
-        { status: 500 }
+        { status }
       );
     }
-
-    // Create script record
-    const scriptTitle = `Script for ${clientData.businessName} - ${new Date().toLocaleDateString()}`;
-    
-    await convex.mutation(api.scriptGeneration.updateStep, {
-      runId,
-      step: { name: "store_script", status: "running" },
-      status: "storing",
-    });
-    const scriptId = await convex.mutation(api.scripts.createScript, {
-      ownerEmail: user.email,
-      clientId: finalClientId as any,
-      title: scriptTitle,
-      contentHtml: scriptHtml,
-      source: {
-        type: "typeform",
-        responseId: responseId,
-      },
-      model,
-      thinkingEffort,
-      status: "draft",
-    });
-
-    console.log("[Workflow][DirectAPI] Script stored", JSON.stringify({ scriptId, clientId: finalClientId }));
-    await convex.mutation(api.scriptGeneration.updateStep, {
-      runId,
-      step: { name: "store_script", status: "success" },
-      status: "completed",
-    });
-    await convex.mutation(api.scriptGeneration.completeRun, { runId });
-    return NextResponse.json({
-      success: true,
-      scriptId,
-      clientId: finalClientId,
-    });
   } catch (error) {
     console.error("[Workflow][DirectAPI] Error generating script:", error);
-    try {
-      if (convex) {
-        // Best effort: if we had a runId in scope, we can't access here; skip
-      }
-    } catch {}
     return NextResponse.json(
       {
         error: "Failed to generate script",
@@ -467,4 +117,3 @@ export async function POST(request: Request) {
     );
   }
 }
-
@@ -1,10 +1,9 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { openRouterChatCompletion } from "@/lib/openrouter";
 import { api } from "../../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import { extractClientDataFromQAPairs } from "../../../../../convex/utils/typeformFieldMapping";
 
 function sendLog(controller: ReadableStreamDefaultController<Uint8Array>, message: string, type: "info" | "success" | "error" | "warning" = "info") {
   const encoder = new TextEncoder();
@@ -14,14 +13,11 @@ function sendLog(controller: ReadableStreamDefaultController<Uint8Array>, messag
 
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
-
-    if (!convex) {
-      return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
-    }
+    const { convex } = session;
 
     const stream = new ReadableStream({
       async start(controller) {
@@ -71,7 +67,7 @@ export async function POST(request: Request) {
           };
 
           await convex.mutation(api.typeform.storeResponse, {
-            email: user.email,
+            email: session.email,
             formId: "test-form",
             responseId: testResponseId,
             payload: testPayload,
@@ -92,60 +88,17 @@ export async function POST(request: Request) {
           }
 
           // Extract client data (same logic as in generate-from-response)
-          const FIELD_MAPPING: Record<string, { field: string }> = {
-            "98e94d78-6c72-4ea2-806e-9675f326550e": { field: "contactFirstName" },
-            "01K3PZTF2WHB908HD47FDXE81C": { field: "businessName" },
-            "a0e9781d-38e4-4768-af2c-19a4518d2ac7": { field: "businessEmail" },
-            "6589c67b-c739-4372-96e0-a5e3b6a52220": { field: "targetRevenue" },
-          };
-
-          let businessEmail: string | null = null;
-          let businessName: string | null = null;
-          let firstName: string | null = null;
-          let lastName: string | null = null;
-          let targetRevenue: number | null = null;
-
-          for (const qa of response.qaPairs) {
-            const fieldRef = qa.fieldRef?.trim();
-            if (!fieldRef) continue;
-
-            const mapping = FIELD_MAPPING[fieldRef];
-            if (!mapping) continue;
-
-            const value = qa.answer?.trim();
-            if (!value && mapping.field !== "businessEmail") continue;
-
-            switch (mapping.field) {
-              case "businessName":
-                businessName = value;
-                break;
-              case "businessEmail":
-                if (value) businessEmail = value.toLowerCase();
-                break;
-              case "contactFirstName": {
-                const nameParts = value.split(/\s+/);
-                firstName = nameParts[0] || null;
-                if (nameParts.length > 1) lastName = nameParts.slice(1).join(" ");
-                break;
-              }
-              case "targetRevenue": {
-                const cleaned = value.replace(/,/g, "").toLowerCase().trim();
-                const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)\s*k/i);
-                if (rangeMatch) {
-                  targetRevenue = parseInt(rangeMatch[2], 10) * 1000;
-                } else {
-                  const kMatch = cleaned.match(/(\d+)\s*k/i);
-                  if (kMatch) {
-                    targetRevenue = parseInt(kMatch[1], 10) * 1000;
-                  } else {
-                    const num = parseInt(cleaned, 10);
-                    if (!isNaN(num) && num > 0) targetRevenue = num;
-                  }
-                }
-                break;
-              }
-            }
-          }
+          const fieldMapping = await convex.query(api.typeformFieldMappings.getMappingForForm, {
+            email: session.email,
+            formId: response.formId,
+          });
+          const {
+            businessEmail,
+            businessName,
+            contactFirstName: firstName,
+            contactLastName: lastName,
+            targetRevenue,
+          } = extractClientDataFromQAPairs(response.qaPairs, fieldMapping?.rules);
 
           sendLog(controller, `   Business Name: ${businessName}`, "info");
           sendLog(controller, `   Contact: ${firstName} ${lastName || ""}`, "info");
@@ -158,7 +111,7 @@ export async function POST(request: Request) {
           let clientId: string;
           
           const existingClient = await convex.query(api.clients.getClientByOnboardingResponseId, {
-            ownerEmail: user.email,
+            ownerEmail: session.email,
             onboardingResponseId: testResponseId,
           });
 
@@ -167,7 +120,7 @@ export async function POST(request: Request) {
             clientId = existingClient._id;
           } else {
             const newClientId = await convex.mutation(api.clients.upsertClientFromTypeform, {
-              ownerEmail: user.email,
+              ownerEmail: session.email,
               businessEmail: businessEmail || undefined,
               businessName: businessName!,
               contactFirstName: firstName || undefined,
@@ -184,7 +137,7 @@ export async function POST(request: Request) {
           sendLog(controller, "🔎 Step 4: Checking for existing script...", "info");
           const existingScript = await convex.query(api.scripts.getScriptByResponseId, {
             responseId: testResponseId,
-            ownerEmail: user.email,
+            ownerEmail: session.email,
           });
 
           if (existingScript) {
@@ -203,7 +156,7 @@ export async function POST(request: Request) {
           // Step 5: Get script generation settings
           sendLog(controller, "⚙️ Step 5: Loading script generation settings...", "info");
           const settings = await convex.query(api.scriptSettings.getSettingsForEmail, {
-            email: user.email,
+            email: session.email,
           });
 
           const model = settings?.defaultModel || "openai/gpt-5";
@@ -218,16 +171,7 @@ export async function POST(request: Request) {
           sendLog(controller, `   Calling OpenRouter API (${model})...`, "info");
           
           // Get OpenRouter API key from Convex (user-specific)
-          const openrouterConfig = await convex.query(
-            api.openrouter.getConfigForEmail,
-            {
-              email: user.email,
-            }
-          );
-
-          // Fallback to environment variable for backwards compatibility
-          const apiKey =
-            openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+          const apiKey = await getOpenRouterApiKey(session.email);
           if (!apiKey) {
             throw new Error(
               "OpenRouter API key not configured. Please set it in Settings → OpenRouter."
@@ -262,15 +206,9 @@ ${contextText}
 
 Generate the script as HTML with proper structure.`;
 
-          const aiResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${apiKey}`,
-              "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
-              "X-Title": "Gravitate Agent",
-            },
-            body: JSON.stringify({
+          const aiResponse = await openRouterChatCompletion(
+            apiKey,
+            {
               model,
               messages: [
                 { role: "system", content: systemPrompt },
@@ -280,8 +218,9 @@ Generate the script as HTML with proper structure.`;
                 reasoning: { effort: thinkingEffort },
               } : {}),
               temperature: 0.7,
-            }),
-          });
+            },
+            { email: session.email, feature: "studio_test", clientId }
+          );
 
           if (!aiResponse.ok) {
             const errorText = await aiResponse.text();
@@ -311,7 +250,7 @@ Generate the script as HTML with proper structure.`;
           const scriptTitle = `Script for ${businessName} - ${new Date().toLocaleDateString()}`;
           
           const scriptId = await convex.mutation(api.scripts.createScript, {
-            ownerEmail: user.email,
+            ownerEmail: session.email,
             clientId: clientId as any,
             title: scriptTitle,
             contentHtml: htmlContent,
@@ -1,24 +1,16 @@
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { LlmBudgetExceededError, openRouterChatCompletion } from "@/lib/openrouter";
 import { api } from "../../../../../convex/_generated/api";
 
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
 export async function POST(request: Request) {
   try {
-    const user = await getCurrentUser();
-    if (!user) {
+    const session = await getVerifiedSession();
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
-
-    if (!convex) {
-      return NextResponse.json(
-        { error: "Convex not configured" },
-        { status: 500 }
-      );
-    }
+    const { convex } = session;
 
     const body = await request.json() as {
       systemPrompt: string;
@@ -34,11 +26,7 @@ export async function POST(request: Request) {
     };
 
     // Get OpenRouter API key
-    const openrouterConfig = await convex.query(api.openrouter.getConfigForEmail, {
-      email: user.email,
-    });
-
-    const apiKey = openrouterConfig?.apiKey || process.env.OPENROUTER_API_KEY;
+    const apiKey = await getOpenRouterApiKey(session.email);
     if (!apiKey) {
       return NextResponse.json(
         { error: "OpenRouter API key not configured" },
@@ -48,7 +36,7 @@ export async function POST(request: Request) {
 
     // Get default model and thinking effort from settings (or use provided values)
     const settings = await convex.query(api.scriptSettings.getSettingsForEmail, {
-      email: user.email,
+      email: session.email,
     });
 
     const model = body.model || settings?.defaultModel || "openai/gpt-4o";
@@ -75,15 +63,9 @@ ${contextText ? `Client Information:\n${contextText}\n\n` : ""}Generate the scri
     // Append HTML formatting instruction to system prompt (not user-facing)
     const systemPromptWithFormatting = body.systemPrompt + "\n\nFormat the response as clean HTML without any markdown code blocks or explanations.";
 
-    const openRouterResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
-        "X-Title": "Gravitate Agent",
-      },
-      body: JSON.stringify({
+    const openRouterResponse = await openRouterChatCompletion(
+      apiKey,
+      {
         model,
         messages: [
           { role: "system", content: systemPromptWithFormatting },
@@ -94,8 +76,9 @@ ${contextText ? `Client Information:\n${contextText}\n\n` : ""}Generate the scri
         } : {}),
         temperature: 0.7,
         stream: true,
-      }),
-    });
+      },
+      { email: session.email, feature: "studio_test" }
+    );
 
     if (!openRouterResponse.ok) {
       const errorText = await openRouterResponse.text();
@@ -213,7 +196,7 @@ ${contextText ? `Client Information:\n${contextText}\n\n` : ""}Generate the scri
     console.error("Test generation error:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
-      { status: 500 }
+      { status: error instanceof LlmBudgetExceededError ? error.status : 500 }
     );
   }
 }
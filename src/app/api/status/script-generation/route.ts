@@ -1,17 +1,15 @@
 import { NextResponse } from "next/server";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForSession } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
 import { getCurrentUser } from "@/lib/auth";
 
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
 export async function GET() {
   try {
     const user = await getCurrentUser();
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    const convex = await getConvexForSession();
     if (!convex) {
       return NextResponse.json({ error: "Convex not configured" }, { status: 500 });
     }
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { convexMutation } from "@/lib/convexHttp";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { callTelegramApi } from "../../../../../convex/utils/telegram";
+
+/**
+ * Point the bot's webhook at this app with a secret_token, as the signed-in
+ * admin. Telegram sends the secret back with every update and the webhook
+ * rejects requests without it, so chat IDs alone can't drive the bot.
+ */
+export async function POST(request: Request) {
+  const session = await getVerifiedSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    return NextResponse.json({ error: "TELEGRAM_BOT_TOKEN not configured" }, { status: 500 });
+  }
+
+  let secret: string;
+  try {
+    secret = await convexMutation<string>(
+      "telegram:registerWebhookSecretForEmail",
+      { email: session.email },
+      { actingAs: session.email }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: message }, { status: message.includes("Unauthorized") ? 403 : 500 });
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.url.split("/api")[0];
+  const webhookUrl = `${baseUrl}/api/telegram/webhook`;
+  try {
+    await callTelegramApi(botToken, "setWebhook", {
+      url: webhookUrl,
+      secret_token: secret,
+      allowed_updates: ["message", "callback_query"],
+    });
+  } catch (error) {
+    console.error("[Telegram] Failed to register webhook:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to register webhook" },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json({ ok: true, webhookUrl });
+}
@@ -1,52 +1,87 @@
 import { NextResponse } from "next/server";
-import { ConvexHttpClient } from "convex/browser";
+import type { ConvexHttpClient } from "convex/browser";
 import { api } from "../../../../../convex/_generated/api";
+import type { Doc, Id } from "../../../../../convex/_generated/dataModel";
+import { internalApiHeaders } from "../../../../../convex/utils/internalApi";
+import {
+  buildPickKeyboard,
+  callTelegramApi,
+  parseTelegramCallback,
+  type TelegramInlineKeyboard,
+} from "../../../../../convex/utils/telegram";
+import { describeCandidate, resolveClientCandidates } from "../../../../../convex/utils/clientResolution";
+import { convexMutation, convexQuery } from "@/lib/convexHttp";
+import { getConvexForEmail } from "@/lib/convexServer";
+import { timingSafeEqual } from "@/lib/webhookSignature";
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
 const botToken = process.env.TELEGRAM_BOT_TOKEN;
 const manualBaseUrl = process.env.NEXT_PUBLIC_APP_URL;
 
-function normalizeEmail(email: string): string {
-  return email.toLowerCase().trim();
-}
+// Transcripts listed by /unlinked and upcoming runs listed by /next
+const UNLINKED_LIST_LIMIT = 10;
+const UPCOMING_LIST_LIMIT = 5;
 
-function normalizeKey(value: string): string {
-  return value.toLowerCase().trim().replace(/[^a-z0-9]/g, "");
-}
+const HELP_TEXT =
+  "🤖 *Commands*\n\n" +
+  "/unlinked — transcripts waiting for a client\n" +
+  "/client <name> — look up a client\n" +
+  "/generate <client> — generate a script now\n" +
+  "/next [client] — upcoming scheduled scripts\n\n" +
+  "Tap a client on a linking prompt, or reply to it with the client name or email.";
+
+type TelegramConfig = Doc<"telegram_configs">;
+type TelegramPrompt = Doc<"telegram_prompts">;
+type Transcript = Doc<"fireflies_transcripts">;
 
-async function sendTelegramMessage(chatId: number, text: string) {
+async function sendTelegramMessage(chatId: number, text: string, keyboard?: TelegramInlineKeyboard) {
   if (!botToken) {
     throw new Error("TELEGRAM_BOT_TOKEN is not configured.");
   }
 
   console.log(`[Telegram] Sending message to chat ${chatId}:`, text.substring(0, 100));
 
-  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text,
-      parse_mode: "Markdown",
-      disable_web_page_preview: true,
-    }),
+  const message = await callTelegramApi<{ message_id: number }>(botToken, "sendMessage", {
+    chat_id: chatId,
+    text,
+    parse_mode: "Markdown",
+    disable_web_page_preview: true,
+    ...(keyboard && { reply_markup: { inline_keyboard: keyboard } }),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`[Telegram] Failed to send message: ${response.status} - ${errorText}`);
-    throw new Error(`Telegram API error: ${response.status} - ${errorText}`);
-  }
+  console.log(`[Telegram] Message sent successfully`);
+  return message;
+}
 
-  const result = (await response.json()) as { ok: boolean; description?: string };
-  if (!result.ok) {
-    console.error(`[Telegram] Telegram API returned error:`, result);
-    throw new Error(`Telegram API error: ${result.description || JSON.stringify(result)}`);
+/**
+ * Acknowledge a button press; Telegram shows the spinner until this is called
+ */
+async function answerCallbackQuery(callbackQueryId: string, text?: string) {
+  if (!botToken) return;
+  try {
+    await callTelegramApi(botToken, "answerCallbackQuery", {
+      callback_query_id: callbackQueryId,
+      ...(text && { text }),
+    });
+  } catch (error) {
+    console.error("[Telegram] Failed to answer callback query:", error);
   }
+}
 
-  console.log(`[Telegram] Message sent successfully`);
+/**
+ * Drop the buttons from a prompt once it has been handled
+ */
+async function removeKeyboard(chatId: number, messageId: number) {
+  if (!botToken) return;
+  try {
+    await callTelegramApi(botToken, "editMessageReplyMarkup", {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: { inline_keyboard: [] },
+    });
+  } catch (error) {
+    console.error("[Telegram] Failed to remove keyboard:", error);
+  }
 }
 
 function extractTranscriptId(source?: string | null): string | null {
@@ -57,19 +92,18 @@ function extractTranscriptId(source?: string | null): string | null {
     /transcript[_\s]*id[:\s]*([A-Za-z0-9\-_]+)/i,
     /test-[\d]+-[a-z0-9]+/i, // Match test transcript IDs directly
   ];
-  
+
   for (const pattern of patterns) {
     const match = source.match(pattern);
     if (match) {
       return match[1] || match[0];
     }
   }
-  
+
   return null;
 }
 
 type ClientDoc = Awaited<ReturnType<typeof getClientsForOwner>>[number];
-type TranscriptDoc = Awaited<ReturnType<typeof getTranscriptById>>;
 
 type ClientMatch = {
   client: ClientDoc;
@@ -77,20 +111,62 @@ type ClientMatch = {
   reason: string;
 };
 
-function getTranscriptById(convex: ConvexHttpClient, transcriptId: string) {
-  return convex.query(api.fireflies.getTranscriptById, { transcriptId });
+/**
+ * Telegram updates carry no user: the chat identifies the organization, and
+ * commands then act as the user who connected it (see convex/telegram.ts)
+ */
+function getConfigForChat(chatId: number) {
+  return convexQuery<TelegramConfig | null>("telegram:getConfigByChatIdInternal", { chatId: String(chatId) });
+}
+
+/**
+ * Whether the request carries the secret_token the webhook was registered
+ * with (see src/app/api/telegram/register-webhook/route.ts). Checked against
+ * the chat's organization, or any organization for an unconnected chat.
+ */
+async function hasWebhookSecret(header: string, config: TelegramConfig | null): Promise<boolean> {
+  const secrets = await convexQuery<string[]>("telegram:getWebhookSecretsInternal", {
+    organizationId: config?.organizationId,
+  });
+  const encoder = new TextEncoder();
+  const received = encoder.encode(header);
+  let matched = false;
+  for (const secret of secrets) {
+    // No early exit, so the time taken doesn't say which secret matched
+    matched = timingSafeEqual(received, encoder.encode(secret)) || matched;
+  }
+  return matched;
+}
+
+function getPrompt(chatId: number, messageId: number) {
+  return convexQuery<TelegramPrompt | null>("telegram:getPromptInternal", { chatId: String(chatId), messageId });
+}
+
+function resolvePromptsForTranscript(transcriptId: string) {
+  return convexMutation<null>("telegram:resolvePromptsForTranscriptInternal", { transcriptId });
+}
+
+/**
+ * Transcripts are looked up with the deployment token and everything after
+ * that acts as their owner, once they are known to belong to the chat's organization
+ */
+async function getTranscriptForChat(config: TelegramConfig, transcriptId: string): Promise<Transcript | null> {
+  const transcript = await convexQuery<Transcript | null>("fireflies:getTranscriptByIdInternal", { transcriptId });
+  return transcript && transcript.organizationId === config.organizationId ? transcript : null;
 }
 
 function getClientsForOwner(convex: ConvexHttpClient, ownerEmail: string) {
   return convex.query(api.clients.getClientsForLinking, { ownerEmail });
 }
 
-function matchClientFromInput(input: string, clients: ClientDoc[]): ClientMatch | { multiple: ClientDoc[] } | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
+function getTranscriptLink(transcriptId: string): string | null {
+  return manualBaseUrl ? `${manualBaseUrl.replace(/\/$/, "")}/resolve-transcript/${transcriptId}` : null;
+}
 
-  const lower = trimmed.toLowerCase();
-  const sanitized = lower
+function matchClientFromInput(input: string, clients: ClientDoc[]): ClientMatch | { multiple: ClientDoc[] } | null {
+  const sanitized = input
+    .trim()
+    .toLowerCase()
     .replace(/^link\s+/, "")
     .replace(/^belongs\s+to\s+/, "")
     .replace(/^this\s+is\s+/, "")
@@ -100,68 +176,442 @@ function matchClientFromInput(input: string, clients: ClientDoc[]): ClientMatch
 
   if (!sanitized) return null;
 
-  if (sanitized.includes("@")) {
-    const emailNormalized = normalizeEmail(sanitized);
-    const match = clients.find(
-      (client) => client.businessEmail && normalizeEmail(client.businessEmail) === emailNormalized
+  const candidates = resolveClientCandidates(
+    sanitized.includes("@") ? { emails: [sanitized] } : { name: sanitized },
+    clients
+  );
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const [best] = candidates;
+  const topMatches = candidates.filter((candidate) => candidate.score === best.score);
+  if (topMatches.length > 1) {
+    return { multiple: topMatches.map((candidate) => candidate.client) };
+  }
+
+  return {
+    client: best.client,
+    confidence: best.score,
+    reason: describeCandidate(best),
+  };
+}
+
+/**
+ * Find the one client a command names, telling the chat when there is none
+ * or several
+ */
+async function findClientForCommand(
+  chatId: number,
+  convex: ConvexHttpClient,
+  ownerEmail: string,
+  input: string,
+  usage: string
+): Promise<ClientDoc | null> {
+  if (!input.trim()) {
+    await sendTelegramMessage(chatId, `Usage: ${usage}`);
+    return null;
+  }
+  const clients = await getClientsForOwner(convex, ownerEmail);
+  const match = matchClientFromInput(input, clients);
+  if (!match) {
+    await sendTelegramMessage(chatId, `❌ No client matches "${input}".`);
+    return null;
+  }
+  if ("multiple" in match) {
+    const options = match.multiple
+      .map((client) => `• ${client.businessName}${client.businessEmail ? ` (${client.businessEmail})` : ""}`)
+      .join("\n");
+    await sendTelegramMessage(chatId, `⚠️ Several clients match "${input}":\n${options}\n\nPlease be more specific.`);
+    return null;
+  }
+  return match.client;
+}
+
+async function linkTranscript(
+  chatId: number,
+  convex: ConvexHttpClient,
+  transcript: Transcript,
+  target: ClientDoc,
+  confidence: number,
+  reason: string
+) {
+  const transcriptId = transcript.transcriptId;
+  try {
+    await convex.mutation(api.clients.linkTranscriptToClient, {
+      transcriptId,
+      clientId: target._id,
+    });
+
+    const attemptTimestamp = Date.now();
+    await convex.mutation(api.fireflies.recordLinkingAttempt, {
+      transcriptId,
+      clientId: target._id,
+      linkingStatus: "manually_linked",
+      lastLinkAttemptAt: attemptTimestamp,
+      linkingHistoryEntry: {
+        stage: "telegram",
+        status: "success",
+        timestamp: attemptTimestamp,
+        confidence,
+        clientId: target._id,
+        reason,
+      },
+    });
+    await resolvePromptsForTranscript(transcriptId);
+
+    const manualLink = getTranscriptLink(transcriptId);
+    await sendTelegramMessage(
+      chatId,
+      `✅ *Success!*\n\nLinked transcript *${transcript.title}* to *${target.businessName}*.\n\n` +
+      `📊 Confidence: ${(confidence * 100).toFixed(0)}%\n` +
+      `📝 Reason: ${reason}\n\n` +
+      (manualLink ? `View transcript: ${manualLink}` : "")
     );
-    if (match) {
-      return {
-        client: match,
-        confidence: 0.95,
-        reason: "Matched business email provided in Telegram reply.",
-      };
+  } catch (linkError) {
+    const errorMsg = linkError instanceof Error ? linkError.message : String(linkError);
+    console.error(`Failed to link transcript ${transcriptId} to client ${target._id}:`, linkError);
+
+    await sendTelegramMessage(
+      chatId,
+      `❌ *Error*\n\nFailed to link transcript: ${errorMsg}\n\nPlease try again or use the manual link.`
+    );
+
+    // Record the error
+    await convex.mutation(api.fireflies.recordLinkingAttempt, {
+      transcriptId,
+      linkingStatus: "needs_human",
+      lastLinkAttemptAt: Date.now(),
+      linkingHistoryEntry: {
+        stage: "telegram",
+        status: "error",
+        timestamp: Date.now(),
+        reason: `Link attempt failed: ${errorMsg}`,
+      },
+    });
+  }
+}
+
+async function leaveForManualLinking(chatId: number, convex: ConvexHttpClient, transcriptId: string) {
+  await convex.mutation(api.fireflies.recordLinkingAttempt, {
+    transcriptId,
+    linkingStatus: "needs_human",
+    lastLinkAttemptAt: Date.now(),
+    linkingHistoryEntry: {
+      stage: "telegram",
+      status: "no_match",
+      timestamp: Date.now(),
+      reason: "Operator requested manual handling via Telegram.",
+    },
+  });
+  await resolvePromptsForTranscript(transcriptId);
+  const manualLink = getTranscriptLink(transcriptId);
+  await sendTelegramMessage(
+    chatId,
+    manualLink
+      ? `✅ Noted. You can complete the link manually here:\n${manualLink}`
+      : "✅ Noted. We'll wait for manual linking in the dashboard."
+  );
+}
+
+async function handleCallbackQuery(config: TelegramConfig, callbackQuery: any) {
+  const chatId: number | undefined = callbackQuery.message?.chat?.id;
+  const messageId: number | undefined = callbackQuery.message?.message_id;
+  const callback = parseTelegramCallback(callbackQuery.data);
+  if (typeof chatId !== "number" || typeof messageId !== "number" || !callback) {
+    await answerCallbackQuery(callbackQuery.id, "This button is no longer supported.");
+    return;
+  }
+
+  const prompt = await getPrompt(chatId, messageId);
+  if (!prompt || prompt.organizationId !== config.organizationId) {
+    await answerCallbackQuery(callbackQuery.id, "This prompt has expired.");
+    return;
+  }
+  if (prompt.resolvedAt) {
+    await answerCallbackQuery(callbackQuery.id, "Already handled.");
+    await removeKeyboard(chatId, messageId);
+    return;
+  }
+
+  if (prompt.kind === "unlinked") {
+    const transcriptId = callback.type === "pick" ? prompt.options[callback.index] : undefined;
+    const transcript = transcriptId ? await getTranscriptForChat(config, transcriptId) : null;
+    if (!transcript?.email) {
+      await answerCallbackQuery(callbackQuery.id, "Transcript not found.");
+      return;
+    }
+    if (transcript.clientId) {
+      await answerCallbackQuery(callbackQuery.id, "Already linked.");
+      return;
+    }
+    const convex = getConvexForEmail(transcript.email);
+    if (!convex) {
+      throw new Error("CONVEX_DEPLOYMENT_TOKEN is not configured.");
     }
+    await answerCallbackQuery(callbackQuery.id);
+    // Sends a fresh prompt with candidate clients for this transcript
+    const result = await convex.action(api.firefliesActions.notifyTranscriptLinkingViaTelegram, {
+      transcriptId: transcript.transcriptId,
+      force: true,
+    });
+    if (result.status === "skipped") {
+      await sendTelegramMessage(chatId, `⚠️ ${result.reason}`);
+    }
+    return;
   }
 
-  const key = normalizeKey(sanitized);
-  if (!key) return null;
+  const transcript = prompt.transcriptId ? await getTranscriptForChat(config, prompt.transcriptId) : null;
+  if (!transcript?.email) {
+    await answerCallbackQuery(callbackQuery.id, "Transcript not found.");
+    return;
+  }
+  const convex = getConvexForEmail(transcript.email);
+  if (!convex) {
+    throw new Error("CONVEX_DEPLOYMENT_TOKEN is not configured.");
+  }
 
-  const scored: Array<{ client: ClientDoc; score: number; reason: string }> = [];
+  if (transcript.clientId) {
+    await answerCallbackQuery(callbackQuery.id, "This transcript is already linked.");
+    await resolvePromptsForTranscript(transcript.transcriptId);
+    await removeKeyboard(chatId, messageId);
+    return;
+  }
 
-  for (const client of clients) {
-    const businessKey = normalizeKey(client.businessName ?? "");
-    const contactKey = normalizeKey(
-      `${client.contactFirstName ?? ""} ${client.contactLastName ?? ""}`.trim()
+  if (callback.type === "manual") {
+    await answerCallbackQuery(callbackQuery.id);
+    await removeKeyboard(chatId, messageId);
+    await leaveForManualLinking(chatId, convex, transcript.transcriptId);
+    return;
+  }
+
+  const clientId = callback.type === "link" ? prompt.options[callback.index] : undefined;
+  const clients = clientId ? await getClientsForOwner(convex, transcript.email) : [];
+  const target = clients.find((client) => client._id === clientId);
+  if (!target) {
+    await answerCallbackQuery(callbackQuery.id, "That client no longer exists.");
+    return;
+  }
+
+  await answerCallbackQuery(callbackQuery.id, `Linking to ${target.businessName}…`);
+  await removeKeyboard(chatId, messageId);
+  const pressedBy = callbackQuery.from?.username ? `@${callbackQuery.from.username}` : "an operator";
+  await linkTranscript(
+    chatId,
+    convex,
+    transcript,
+    target,
+    1,
+    `Linked to ${target.businessName} via Telegram button pressed by ${pressedBy}`
+  );
+}
+
+async function handleUnlinkedCommand(chatId: number, config: TelegramConfig, convex: ConvexHttpClient) {
+  const transcripts = await convex.query(api.fireflies.getUnlinkedTranscriptsForEmail, {
+    email: config.connectedByEmail,
+  });
+  if (transcripts.length === 0) {
+    await sendTelegramMessage(chatId, "🎉 Every transcript is linked to a client.");
+    return;
+  }
+
+  const listed = transcripts.slice(0, UNLINKED_LIST_LIMIT);
+  const lines = listed.map(
+    (transcript, index) => `${index + 1}. ${transcript.title} — ${new Date(transcript.date).toLocaleDateString()}`
+  );
+  const more = transcripts.length > listed.length ? `\n…and ${transcripts.length - listed.length} more.` : "";
+  const message = await sendTelegramMessage(
+    chatId,
+    `📋 *${transcripts.length} unlinked transcript(s)*\n\n${lines.join("\n")}${more}\n\nTap one to pick its client.`,
+    buildPickKeyboard(listed.map((transcript, index) => `${index + 1}. ${transcript.title}`))
+  );
+  await convexMutation("telegram:recordPromptInternal", {
+    organizationId: config.organizationId,
+    chatId: String(chatId),
+    messageId: message.message_id,
+    kind: "unlinked",
+    options: listed.map((transcript) => transcript.transcriptId),
+  });
+}
+
+async function handleClientCommand(chatId: number, config: TelegramConfig, convex: ConvexHttpClient, input: string) {
+  const client = await findClientForCommand(chatId, convex, config.connectedByEmail, input, "/client <name or email>");
+  if (!client) return;
+
+  const [transcripts, nextJob] = await Promise.all([
+    convex.query(api.fireflies.getTranscriptsForClient, { clientId: client._id }),
+    convex.query(api.cronJobs.getNextScheduledJob, { clientId: client._id }),
+  ]);
+  const contact = [client.contactFirstName, client.contactLastName].filter(Boolean).join(" ");
+  const lines = [
+    `👤 *${client.businessName}*`,
+    "",
+    client.businessEmail ? `*Email:* ${client.businessEmail}` : "",
+    contact ? `*Contact:* ${contact}` : "",
+    `*Status:* ${client.status ?? "unspecified"}`,
+    `*Transcripts:* ${transcripts.length}`,
+    `*Next script:* ${nextJob ? new Date(nextJob.scheduledTime).toLocaleString() : "none scheduled"}`,
+    manualBaseUrl ? `\n${manualBaseUrl.replace(/\/$/, "")}/dashboard/clients/${client._id}` : "",
+  ].filter(Boolean);
+  await sendTelegramMessage(chatId, lines.join("\n"));
+}
+
+async function handleGenerateCommand(chatId: number, config: TelegramConfig, convex: ConvexHttpClient, input: string) {
+  const client = await findClientForCommand(chatId, convex, config.connectedByEmail, input, "/generate <client>");
+  if (!client) return;
+  if (!manualBaseUrl) {
+    await sendTelegramMessage(chatId, "❌ NEXT_PUBLIC_APP_URL is not configured, so scripts can't be generated from Telegram.");
+    return;
+  }
+
+  await sendTelegramMessage(chatId, `⏳ Generating a script for *${client.businessName}*. It will appear in the dashboard when ready.`);
+  // Generation takes longer than Telegram waits for the webhook, so don't wait for it
+  fetch(`${manualBaseUrl.replace(/\/$/, "")}/api/scripts/generate-from-client`, {
+    method: "POST",
+    headers: internalApiHeaders(),
+    body: JSON.stringify({
+      clientId: client._id,
+      email: config.connectedByEmail,
+      force: true,
+    }),
+  }).catch((error) => {
+    console.error(`[Telegram Webhook] Failed to trigger script generation for client ${client._id}:`, error);
+  });
+}
+
+async function handleNextCommand(chatId: number, config: TelegramConfig, convex: ConvexHttpClient, input: string) {
+  if (input.trim()) {
+    const client = await findClientForCommand(chatId, convex, config.connectedByEmail, input, "/next [client]");
+    if (!client) return;
+    const nextJob = await convex.query(api.cronJobs.getNextScheduledJob, { clientId: client._id });
+    await sendTelegramMessage(
+      chatId,
+      nextJob
+        ? `🗓 Next script for *${client.businessName}*: ${new Date(nextJob.scheduledTime).toLocaleString()}`
+        : `No script is scheduled for *${client.businessName}*.`
     );
+    return;
+  }
 
-    if (businessKey && businessKey === key) {
-      scored.push({ client, score: 3, reason: "Exact business name match." });
-      continue;
-    }
+  const jobs = await convex.query(api.cronJobs.getUpcomingCronJobs, { limit: UPCOMING_LIST_LIMIT });
+  if (jobs.length === 0) {
+    await sendTelegramMessage(chatId, "No scripts are scheduled.");
+    return;
+  }
+  const clientNames = new Map<Id<"clients">, string>();
+  for (const job of jobs) {
+    if (clientNames.has(job.clientId)) continue;
+    const client = await convex.query(api.clients.getClientById, { clientId: job.clientId });
+    clientNames.set(job.clientId, client?.businessName ?? "Unknown client");
+  }
+  const lines = jobs.map(
+    (job) => `• ${new Date(job.scheduledTime).toLocaleString()} — ${clientNames.get(job.clientId)}`
+  );
+  await sendTelegramMessage(chatId, `🗓 *Upcoming scripts*\n\n${lines.join("\n")}`);
+}
 
-    if (businessKey && (businessKey.includes(key) || key.includes(businessKey))) {
-      scored.push({ client, score: 2, reason: "Partial business name match." });
-    }
+/**
+ * Link the transcript a free-text reply is about to the client it names
+ */
+async function handleReply(chatId: number, config: TelegramConfig, message: any) {
+  // Prompts are recorded by message; older prompts only have the ID in their text
+  const repliedTo = message.reply_to_message;
+  const prompt = typeof repliedTo?.message_id === "number" ? await getPrompt(chatId, repliedTo.message_id) : null;
+  const transcriptId =
+    (prompt?.kind === "link" ? prompt.transcriptId : undefined) ??
+    extractTranscriptId(repliedTo?.text || repliedTo?.caption || "");
+
+  console.log("[Telegram Webhook] Extracted transcript ID:", transcriptId);
+
+  if (!transcriptId) {
+    // Not a reply to one of our prompts; send a helpful message
+    console.log("[Telegram Webhook] Not a reply to transcript notification");
+    await sendTelegramMessage(
+      chatId,
+      "ℹ️ Please reply directly to a transcript notification message to link it to a client.\n\n" +
+      "Send /help to see what else I can do."
+    );
+    return;
+  }
 
-    if (contactKey) {
-      if (contactKey === key) {
-        scored.push({ client, score: 2, reason: "Exact contact name match." });
-      } else if (contactKey.includes(key) || key.includes(contactKey)) {
-        scored.push({ client, score: 1.5, reason: "Partial contact name match." });
-      }
-    }
+  const transcript = await getTranscriptForChat(config, transcriptId);
+  if (!transcript) {
+    await sendTelegramMessage(chatId, `⚠️ Could not find transcript ${transcriptId}. Please double-check the ID.`);
+    return;
   }
 
-  if (scored.length === 0) {
-    return null;
+  if (!transcript.email) {
+    await sendTelegramMessage(chatId, "❌ This transcript doesn't have an associated email. Cannot match clients.");
+    return;
   }
 
-  scored.sort((a, b) => b.score - a.score);
-  const topScore = scored[0].score;
-  const topMatches = scored.filter((entry) => entry.score === topScore);
+  const convex = getConvexForEmail(transcript.email);
+  if (!convex) {
+    throw new Error("CONVEX_DEPLOYMENT_TOKEN is not configured.");
+  }
 
-  if (topMatches.length > 1) {
-    return { multiple: topMatches.map((entry) => entry.client) };
+  const text: string = typeof message.text === "string" ? message.text.trim() : "";
+  if (!text) {
+    await sendTelegramMessage(chatId, "I couldn't read that message. Please provide the client name or email.");
+    return;
   }
 
-  const best = topMatches[0];
-  const confidence = Math.min(1, 0.5 + best.score / 4);
-  return {
-    client: best.client,
-    confidence,
-    reason: best.reason,
-  };
+  if (text.toLowerCase().includes("manual")) {
+    await leaveForManualLinking(chatId, convex, transcriptId);
+    return;
+  }
+
+  const clients = await getClientsForOwner(convex, transcript.email);
+  if (!clients || clients.length === 0) {
+    await sendTelegramMessage(chatId, "❌ I couldn't find any clients to match against. Please add the client first.");
+    return;
+  }
+
+  const match = matchClientFromInput(text, clients);
+
+  if (!match) {
+    await sendTelegramMessage(
+      chatId,
+      `❌ *No Match Found*\n\nI couldn't map "${text}" to any existing client.\n\n` +
+      `Please reply with:\n` +
+      `• The exact business name\n` +
+      `• The business email address\n` +
+      `• Or reply "manual" to handle it manually`
+    );
+
+    await convex.mutation(api.fireflies.recordLinkingAttempt, {
+      transcriptId,
+      linkingStatus: "needs_human",
+      lastLinkAttemptAt: Date.now(),
+      linkingHistoryEntry: {
+        stage: "telegram",
+        status: "no_match",
+        timestamp: Date.now(),
+        reason: `Telegram reply "${text}" did not match any client.`,
+      },
+    });
+    return;
+  }
+
+  if ("multiple" in match) {
+    const options = match.multiple
+      .map((client) => `• ${client.businessName}${client.businessEmail ? ` (${client.businessEmail})` : ""}`)
+      .join("\n");
+    await sendTelegramMessage(
+      chatId,
+      `⚠️ I found multiple possible matches:\n${options}\n\nPlease reply with the exact business email to confirm.`
+    );
+    return;
+  }
+
+  await linkTranscript(
+    chatId,
+    convex,
+    transcript,
+    match.client,
+    match.confidence,
+    `Linked to ${match.client.businessName} via Telegram reply: "${text}" (${match.reason})`
+  );
 }
 
 // GET endpoint to check webhook status
@@ -194,7 +644,7 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   console.log("[Telegram Webhook] Received request");
-  
+
   if (!convexUrl) {
     console.error("[Telegram Webhook] Missing NEXT_PUBLIC_CONVEX_URL");
     return NextResponse.json({ ok: false });
@@ -205,201 +655,82 @@ export async function POST(request: Request) {
     return NextResponse.json({ ok: false });
   }
 
-  const convex = new ConvexHttpClient(convexUrl);
+  // Anyone can POST here; only Telegram knows the secret_token
+  const secretHeader = request.headers.get("x-telegram-bot-api-secret-token");
+  if (!secretHeader) {
+    console.error("[Telegram Webhook] Missing secret token header");
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
 
   try {
     const update = (await request.json()) as any;
     console.log("[Telegram Webhook] Update received:", JSON.stringify(update, null, 2));
-    
-    const message = update?.message;
-    if (!message) {
-      console.log("[Telegram Webhook] No message in update, ignoring");
-      return NextResponse.json({ ok: true });
-    }
 
-    const chatId: number | undefined = message.chat?.id;
+    const callbackQuery = update?.callback_query;
+    const message = update?.message;
+    const chatId: number | undefined = callbackQuery ? callbackQuery.message?.chat?.id : message?.chat?.id;
     if (typeof chatId !== "number") {
-      console.log("[Telegram Webhook] Invalid chat ID:", chatId);
-      return NextResponse.json({ ok: true });
-    }
-
-    console.log("[Telegram Webhook] Message from chat:", chatId);
-    console.log("[Telegram Webhook] Message text:", message.text);
-    console.log("[Telegram Webhook] Reply to message:", JSON.stringify(message.reply_to_message, null, 2));
-
-    const replyText: string | undefined = message.reply_to_message?.text;
-    const replyCaption: string | undefined = message.reply_to_message?.caption;
-    const fullReplyText = replyText || replyCaption || "";
-    
-    console.log("[Telegram Webhook] Full reply text:", fullReplyText);
-    
-    const transcriptId = extractTranscriptId(fullReplyText);
-
-    console.log("[Telegram Webhook] Extracted transcript ID:", transcriptId);
-
-    if (!transcriptId) {
-      // Not a reply to one of our prompts; send a helpful message
-      console.log("[Telegram Webhook] Not a reply to transcript notification");
-      await sendTelegramMessage(
-        chatId,
-        "ℹ️ Please reply directly to a transcript notification message to link it to a client.\n\n" +
-        "Or send a message starting with the transcript ID if you know it."
-      );
+      console.log("[Telegram Webhook] No chat in update, ignoring");
       return NextResponse.json({ ok: true });
     }
 
-    const transcript = await getTranscriptById(convex, transcriptId);
-    if (!transcript) {
-      await sendTelegramMessage(chatId, `⚠️ Could not find transcript ${transcriptId}. Please double-check the ID.`);
-      return NextResponse.json({ ok: true });
-    }
+    const text: string = typeof message?.text === "string" ? message.text.trim() : "";
+    // Commands may be addressed to the bot in groups: /client@MyBot Acme
+    const command = text.match(/^\/([a-z]+)(?:@\S+)?\s*([\s\S]*)$/i);
+    const commandName = command?.[1].toLowerCase();
 
-    const text: string = typeof message.text === "string" ? message.text.trim() : "";
-    if (!text) {
-      await sendTelegramMessage(chatId, "I couldn't read that message. Please provide the client name or email.");
-      return NextResponse.json({ ok: true });
+    const config = await getConfigForChat(chatId);
+    if (!(await hasWebhookSecret(secretHeader, config))) {
+      console.error("[Telegram Webhook] Invalid secret token for chat:", chatId);
+      return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
     }
-
-    // Send initial acknowledgment
-    await sendTelegramMessage(chatId, "⏳ Processing your request...");
-
-    if (text.toLowerCase().includes("manual")) {
-      const manualLink = manualBaseUrl
-        ? `${manualBaseUrl.replace(/\/$/, "")}/resolve-transcript/${transcriptId}`
-        : null;
-      await convex.mutation(api.fireflies.recordLinkingAttempt, {
-        transcriptId,
-        linkingStatus: "needs_human",
-        lastLinkAttemptAt: Date.now(),
-        linkingHistoryEntry: {
-          stage: "telegram",
-          status: "no_match",
-          timestamp: Date.now(),
-          reason: "Operator requested manual handling via Telegram.",
-        },
-      });
-      await sendTelegramMessage(
-        chatId,
-        manualLink
-          ? `✅ Noted. You can complete the link manually here:\n${manualLink}`
-          : "✅ Noted. We'll wait for manual linking in the dashboard."
-      );
-      return NextResponse.json({ ok: true });
-    }
-
-    await sendTelegramMessage(chatId, "🔍 Searching for matching client...");
-
-    if (!transcript.email) {
-      await sendTelegramMessage(chatId, "❌ This transcript doesn't have an associated email. Cannot match clients.");
+    if (!config) {
+      // Only chats connected in Settings → Telegram may use the bot
+      console.log("[Telegram Webhook] Ignoring update from unconnected chat:", chatId);
+      if (commandName === "start" || commandName === "help") {
+        await sendTelegramMessage(
+          chatId,
+          `👋 This chat's ID is \`${chatId}\`.\n\nConnect it in Settings → Telegram to get transcript linking prompts here.`
+        );
+      }
+      if (callbackQuery) {
+        await answerCallbackQuery(callbackQuery.id, "This chat is not connected to an organization.");
+      }
       return NextResponse.json({ ok: true });
     }
 
-    const clients = await getClientsForOwner(convex, transcript.email);
-    if (!clients || clients.length === 0) {
-      await sendTelegramMessage(chatId, "❌ I couldn't find any clients to match against. Please add the client first.");
+    if (callbackQuery) {
+      await handleCallbackQuery(config, callbackQuery);
       return NextResponse.json({ ok: true });
     }
 
-    await sendTelegramMessage(chatId, `📋 Found ${clients.length} client(s). Matching against your input...`);
-
-    const match = matchClientFromInput(text, clients);
-
-    if (!match) {
-      await sendTelegramMessage(
-        chatId,
-        `❌ *No Match Found*\n\nI couldn't map "${text}" to any existing client.\n\n` +
-        `Please reply with:\n` +
-        `• The exact business name\n` +
-        `• The business email address\n` +
-        `• Or reply "manual" to handle it manually`
-      );
-      
-      await convex.mutation(api.fireflies.recordLinkingAttempt, {
-        transcriptId,
-        linkingStatus: "needs_human",
-        lastLinkAttemptAt: Date.now(),
-        linkingHistoryEntry: {
-          stage: "telegram",
-          status: "no_match",
-          timestamp: Date.now(),
-          reason: `Telegram reply "${text}" did not match any client.`,
-        },
-      });
+    if (!command) {
+      await handleReply(chatId, config, message);
       return NextResponse.json({ ok: true });
     }
 
-    if ("multiple" in match) {
-      const options = match.multiple
-        .map((client) => `• ${client.businessName}${client.businessEmail ? ` (${client.businessEmail})` : ""}`)
-        .join("\n");
-      await sendTelegramMessage(
-        chatId,
-        `⚠️ I found multiple possible matches:\n${options}\n\nPlease reply with the exact business email to confirm.`
-      );
-      return NextResponse.json({ ok: true });
+    const convex = getConvexForEmail(config.connectedByEmail);
+    if (!convex) {
+      console.error("[Telegram Webhook] Missing CONVEX_DEPLOYMENT_TOKEN");
+      return NextResponse.json({ ok: false });
     }
 
-    const target = match.client;
-    
-    await sendTelegramMessage(
-      chatId,
-      `✅ Found match: *${target.businessName}*\n🔗 Linking transcript...`
-    );
-
-    try {
-      await convex.mutation(api.clients.linkTranscriptToClient, {
-        transcriptId,
-        clientId: target._id,
-      });
-
-      const attemptTimestamp = Date.now();
-      await convex.mutation(api.fireflies.recordLinkingAttempt, {
-        transcriptId,
-        clientId: target._id,
-        linkingStatus: "manually_linked",
-        lastLinkAttemptAt: attemptTimestamp,
-        linkingHistoryEntry: {
-          stage: "telegram",
-          status: "success",
-          timestamp: attemptTimestamp,
-          confidence: match.confidence,
-          clientId: target._id,
-          reason: `Linked to ${target.businessName} via Telegram reply: "${text}"`,
-        },
-      });
-
-      const manualLink = manualBaseUrl
-        ? `${manualBaseUrl.replace(/\/$/, "")}/resolve-transcript/${transcriptId}`
-        : null;
-      
-      await sendTelegramMessage(
-        chatId,
-        `✅ *Success!*\n\nLinked transcript *${transcript.title}* to *${target.businessName}*.\n\n` +
-        `📊 Confidence: ${(match.confidence * 100).toFixed(0)}%\n` +
-        `📝 Reason: ${match.reason}\n\n` +
-        (manualLink ? `View transcript: ${manualLink}` : "")
-      );
-    } catch (linkError) {
-      const errorMsg = linkError instanceof Error ? linkError.message : String(linkError);
-      console.error(`Failed to link transcript ${transcriptId} to client ${target._id}:`, linkError);
-      
-      await sendTelegramMessage(
-        chatId,
-        `❌ *Error*\n\nFailed to link transcript: ${errorMsg}\n\nPlease try again or use the manual link.`
-      );
-      
-      // Record the error
-      await convex.mutation(api.fireflies.recordLinkingAttempt, {
-        transcriptId,
-        linkingStatus: "needs_human",
-        lastLinkAttemptAt: Date.now(),
-        linkingHistoryEntry: {
-          stage: "telegram",
-          status: "error",
-          timestamp: Date.now(),
-          reason: `Link attempt failed: ${errorMsg}`,
-        },
-      });
+    const commandInput = command[2].trim();
+    switch (commandName) {
+      case "unlinked":
+        await handleUnlinkedCommand(chatId, config, convex);
+        break;
+      case "client":
+        await handleClientCommand(chatId, config, convex, commandInput);
+        break;
+      case "generate":
+        await handleGenerateCommand(chatId, config, convex, commandInput);
+        break;
+      case "next":
+        await handleNextCommand(chatId, config, convex, commandInput);
+        break;
+      default:
+        await sendTelegramMessage(chatId, HELP_TEXT);
     }
 
     return NextResponse.json({ ok: true });
@@ -407,11 +738,10 @@ export async function POST(request: Request) {
     const err = error instanceof Error ? error : new Error(String(error));
     console.error("[Telegram Webhook] Error:", err);
     console.error("[Telegram Webhook] Error stack:", err.stack);
-    
+
     // Note: We can't re-read the request body here since it's already been consumed
     // But we've logged everything we need for debugging
-    
+
     return NextResponse.json({ ok: false, error: err.message });
   }
 }
-
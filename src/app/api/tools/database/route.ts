@@ -1,10 +1,7 @@
 import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForSession } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
 
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
-
 export async function POST(request: Request) {
   try {
     const user = await getCurrentUser();
@@ -15,6 +12,7 @@ export async function POST(request: Request) {
       });
     }
 
+    const convex = await getConvexForSession();
     if (!convex) {
       return new Response(
         JSON.stringify({ error: "Server configuration error: Convex not configured" }),
@@ -1,9 +1,12 @@
 import { getCurrentUser } from "@/lib/auth";
-import { ConvexHttpClient } from "convex/browser";
+import { getConvexForSession } from "@/lib/convexServer";
 import { api } from "../../../../../convex/_generated/api";
-
-const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
-const convex = convexUrl ? new ConvexHttpClient(convexUrl) : null;
+import {
+  describeCandidate,
+  pickAutoLinkCandidate,
+  resolveClientCandidates,
+  type ResolutionSignal,
+} from "../../../../../convex/utils/clientResolution";
 
 type MatchingStrategy = "participants_email" | "title_fuzzy" | "both";
 
@@ -14,66 +17,15 @@ interface MatchResult {
   clientName: string | null;
   matchReason: string;
   confidence: "high" | "medium" | "low";
+  score: number;
+  signals: ResolutionSignal[];
 }
 
-function normalizeEmail(email: string): string {
-  return email.toLowerCase().trim();
-}
-
-const COMMON_TLDS = [
-  "com",
-  "net",
-  "org",
-  "io",
-  "ai",
-  "co",
-  "us",
-  "uk",
-  "ca",
-  "app",
-  "dev",
-  "info",
-  "biz",
-  "xyz",
-];
-
-function normalizeKey(value: string): string {
-  return value.toLowerCase().trim().replace(/[^a-z0-9]/g, "");
-}
-
-function extractDomain(email: string): string | null {
-  const atIndex = email.lastIndexOf("@");
-  if (atIndex === -1) return null;
-  return email.slice(atIndex + 1).toLowerCase().trim();
-}
-
-function stripCommonTlds(value: string): string {
-  let result = value;
-  let changed = true;
-  while (changed && result.length > 0) {
-    changed = false;
-    for (const tld of COMMON_TLDS) {
-      if (result.endsWith(tld)) {
-        result = result.slice(0, -tld.length);
-        changed = true;
-        break;
-      }
-    }
-  }
-  return result;
-}
-
-function getDomainKey(domain: string): string | null {
-  const normalized = normalizeKey(domain);
-  if (!normalized) return null;
-  const stripped = stripCommonTlds(normalized);
-  return stripped || normalized;
-}
-
-function fuzzyMatch(str1: string, str2: string): boolean {
-  const s1 = str1.toLowerCase().replace(/[^a-z0-9]/g, "");
-  const s2 = str2.toLowerCase().replace(/[^a-z0-9]/g, "");
-  return s1.includes(s2) || s2.includes(s1) || s1 === s2;
+// Score bands reported to the chat assistant
+function describeConfidence(score: number): MatchResult["confidence"] {
+  if (score >= 0.9) return "high";
+  if (score >= 0.7) return "medium";
+  return "low";
 }
 
 export async function POST(request: Request) {
@@ -86,6 +38,7 @@ export async function POST(request: Request) {
       });
     }
 
+    const convex = await getConvexForSession();
     if (!convex) {
       return new Response(
         JSON.stringify({ error: "Server configuration error: Convex not configured" }),
@@ -141,183 +94,63 @@ export async function POST(request: Request) {
       );
     }
 
-    // Get all clients
-    const clients = await convex.query(api.clients.searchClients, {
+    const clients = await convex.query(api.clients.getClientsForLinking, {
       ownerEmail: user.email,
-      query: "",
-      limit: 200,
     });
-
-    type ClientRecord = (typeof clients)[number];
-
-    interface ClientMetadata {
-      client: ClientRecord;
-      emailNormalized: string | null;
-      domain: string | null;
-      domainKey: string | null;
-      businessKey: string | null;
-    }
-
-    const clientMetadata: ClientMetadata[] = clients.map((client) => {
-      const emailNormalized = client.businessEmail ? normalizeEmail(client.businessEmail) : null;
-      const domain = client.businessEmail ? extractDomain(client.businessEmail) : null;
-      const domainKey = domain ? getDomainKey(domain) : null;
-      const businessKey = client.businessName ? normalizeKey(client.businessName) : null;
-      return {
-        client,
-        emailNormalized,
-        domain,
-        domainKey,
-        businessKey,
-      };
+    const aliases = await convex.query(api.linkAliases.getAliasesForLinking, {
+      ownerEmail: user.email,
+    });
+    const threshold = await convex.query(api.organizations.getAutoLinkThresholdForEmail, {
+      email: user.email,
     });
 
-    // Build lookup maps for fast matching
-    const emailToClient = new Map<string, ClientMetadata>();
-    const domainToClients = new Map<string, ClientMetadata[]>();
-    const domainKeyToClients = new Map<string, ClientMetadata[]>();
-
-    for (const meta of clientMetadata) {
-      if (meta.emailNormalized) {
-        emailToClient.set(meta.emailNormalized, meta);
-      }
-      if (meta.domain) {
-        const existing = domainToClients.get(meta.domain);
-        if (existing) {
-          existing.push(meta);
-        } else {
-          domainToClients.set(meta.domain, [meta]);
-        }
-      }
-      if (meta.domainKey) {
-        const existingKey = domainKeyToClients.get(meta.domainKey);
-        if (existingKey) {
-          existingKey.push(meta);
-        } else {
-          domainKeyToClients.set(meta.domainKey, [meta]);
-        }
-      }
-    }
-
-    // Match transcripts to clients
+    // Match transcripts to clients; only candidates the organization would
+    // auto-link are linked, the rest are reported with their best guess
     const matches: MatchResult[] = [];
-    const unmatched: Array<{ transcriptId: string; transcriptTitle: string }> = [];
+    const unmatched: Array<{
+      transcriptId: string;
+      transcriptTitle: string;
+      bestCandidate?: { clientId: string; clientName: string; score: number; reason: string };
+    }> = [];
 
     for (const transcript of transcripts) {
-      let bestMatch: { meta: ClientMetadata; reason: string; confidence: "high" | "medium" | "low" } | null = null;
-
-      // Strategy: participants_email
-      if (strategy === "participants_email" || strategy === "both") {
-        if (transcript.participants && Array.isArray(transcript.participants)) {
-          for (const participantEmail of transcript.participants) {
-            const normalized = normalizeEmail(participantEmail);
-            const meta = emailToClient.get(normalized);
-            if (meta) {
-              bestMatch = {
-                meta,
-                reason: `Participant email matches business email: ${participantEmail}`,
-                confidence: "high",
-              };
-              break;
-            }
-
-            // Domain-based matching
-            const domain = extractDomain(participantEmail);
-            if (!domain) continue;
-
-            const domainCandidates = domainToClients.get(domain);
-            if (!bestMatch && domainCandidates && domainCandidates.length === 1) {
-              const matchedMeta = domainCandidates[0];
-              bestMatch = {
-                meta: matchedMeta,
-                reason: `Participant email domain "${domain}" matches client domain for ${matchedMeta.client.businessName || "client"}`,
-                confidence: "high",
-              };
-              break;
-            }
-
-            const participantDomainKey = domain ? getDomainKey(domain) : null;
-
-            if (!bestMatch && participantDomainKey) {
-              const keyCandidates = domainKeyToClients.get(participantDomainKey);
-              if (keyCandidates && keyCandidates.length > 0) {
-                let selected: ClientMetadata | null = null;
-                if (keyCandidates.length === 1) {
-                  selected = keyCandidates[0];
-                } else {
-                  const filtered = keyCandidates.filter(
-                    (candidate) =>
-                      candidate.businessKey &&
-                      (candidate.businessKey.includes(participantDomainKey) ||
-                        participantDomainKey.includes(candidate.businessKey))
-                  );
-                  if (filtered.length === 1) {
-                    selected = filtered[0];
-                  }
-                }
-
-                if (selected) {
-                  bestMatch = {
-                    meta: selected,
-                    reason: `Participant email domain "${domain}" aligns with client domain/name for ${selected.client.businessName || "client"}`,
-                    confidence: keyCandidates.length === 1 ? "medium" : "low",
-                  };
-                  break;
-                }
-              }
-            }
-
-            if (!bestMatch && participantDomainKey) {
-              const fuzzyMatches = clientMetadata.filter(
-                (candidate) =>
-                  candidate.businessKey &&
-                  (candidate.businessKey.includes(participantDomainKey) ||
-                    participantDomainKey.includes(candidate.businessKey))
-              );
-
-              if (fuzzyMatches.length === 1) {
-                const [selected] = fuzzyMatches;
-                bestMatch = {
-                  meta: selected,
-                  reason: `Participant email domain "${domain}" closely matches client name "${selected.client.businessName}"`,
-                  confidence: "low",
-                };
-                break;
-              }
-            }
-          }
-        }
-      }
-
-      // Strategy: title_fuzzy
-      if (!bestMatch && (strategy === "title_fuzzy" || strategy === "both")) {
-        const transcriptTitle = transcript.title || "";
-        for (const meta of clientMetadata) {
-          const client = meta.client;
-          if (client.businessName && fuzzyMatch(transcriptTitle, client.businessName)) {
-            bestMatch = {
-              meta,
-              reason: `Title fuzzy match: "${transcriptTitle}" ≈ "${client.businessName}"`,
-              confidence: "medium",
-            };
-            break;
-          }
-        }
-      }
+      const useParticipants = strategy === "participants_email" || strategy === "both";
+      const useTitle = strategy === "title_fuzzy" || strategy === "both";
+      const candidates = resolveClientCandidates(
+        {
+          emails: useParticipants ? transcript.participants : undefined,
+          ignoreEmails: [user.email],
+          title: useTitle ? transcript.title : undefined,
+          aliases,
+        },
+        clients
+      );
+      const match = pickAutoLinkCandidate(candidates, threshold);
 
-      if (bestMatch) {
+      if (match) {
         matches.push({
           transcriptId: transcript.transcriptId,
           transcriptTitle: transcript.title || "Untitled",
-          clientId: bestMatch.meta.client._id,
-          clientName: bestMatch.meta.client.businessName,
-          matchReason: bestMatch.reason,
-          confidence: bestMatch.confidence,
+          clientId: match.client._id,
+          clientName: match.client.businessName,
+          matchReason: describeCandidate(match),
+          confidence: describeConfidence(match.score),
+          score: match.score,
+          signals: match.signals,
         });
       } else {
+        const [best] = candidates;
         unmatched.push({
           transcriptId: transcript.transcriptId,
           transcriptTitle: transcript.title || "Untitled",
+          bestCandidate: best
+            ? {
+                clientId: best.client._id,
+                clientName: best.client.businessName,
+                score: best.score,
+                reason: describeCandidate(best),
+              }
+            : undefined,
         });
       }
     }
@@ -352,6 +185,7 @@ export async function POST(request: Request) {
         matched: matches,
         unmatched,
         executionResults: dryRun ? undefined : executionResults,
+        autoLinkThreshold: threshold,
         summary: {
           total: transcripts.length,
           matched: matches.length,
@@ -0,0 +1,190 @@
+import { NextResponse } from "next/server";
+import { convexMutation, convexQuery } from "@/lib/convexHttp";
+import { verifySignature } from "@/lib/webhookSignature";
+import { parseTypeformWebhook, processTypeformWebhook } from "@/lib/typeformWebhook";
+
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+const hasConvexConfig = Boolean(
+  convexUrl && process.env.CONVEX_DEPLOYMENT_TOKEN
+);
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+type WebhookConfig = {
+  organizationId: string;
+  email: string | null;
+  secret: string | null;
+};
+
+// Health check endpoint
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    route: "/api/typeform/webhook/[token]",
+    convexConfigured: hasConvexConfig,
+    convexUrl: convexUrl ? `${convexUrl.substring(0, 30)}...` : "not set",
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+
+    console.log("[Typeform Webhook] POST request received", {
+      convexConfigured: hasConvexConfig,
+      convexUrlSet: !!convexUrl,
+    });
+
+    if (!hasConvexConfig) {
+      console.error("[Typeform Webhook] Convex HTTP API not configured");
+      return NextResponse.json(
+        { error: "Server configuration error: Convex not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Get raw body as text for signature verification
+    // Note: This consumes the body stream, so we must parse it after
+    const rawBody = await request.text();
+    
+    if (!rawBody || rawBody.length === 0) {
+      return NextResponse.json(
+        { error: "Empty request body" },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the organization from the token in the URL
+    let config: WebhookConfig | null;
+    try {
+      config = await convexQuery<WebhookConfig | null>("typeform:getWebhookConfigByTokenInternal", { token });
+    } catch (error) {
+      console.error("[Typeform Webhook] Failed to fetch webhook config:", error);
+      return NextResponse.json(
+        { error: "Failed to retrieve webhook configuration" },
+        { status: 500 }
+      );
+    }
+
+    if (!config) {
+      return NextResponse.json({ error: "Unknown webhook URL" }, { status: 404 });
+    }
+
+    if (!config.secret) {
+      return NextResponse.json(
+        { error: "Webhook secret not configured. Generate a secret in Settings → Typeform and add it to the Typeform webhook." },
+        { status: 401 }
+      );
+    }
+
+    // Verify signature
+    // Typeform uses "typeform-signature" header (primary), with fallbacks for compatibility
+    const signature = request.headers.get("typeform-signature") || 
+                      request.headers.get("x-typeform-signature") ||
+                      request.headers.get("signature");
+    
+    if (!signature) {
+      return NextResponse.json(
+        { error: "Missing signature header. Expected 'typeform-signature' header." },
+        { status: 401 }
+      );
+    }
+
+    const isValid = await verifySignature(rawBody, signature, config.secret);
+    if (!isValid) {
+      console.warn(`[Typeform Webhook] Signature verification failed for organization ${config.organizationId}`);
+      return NextResponse.json(
+        { error: "Invalid webhook signature. Signature verification failed." },
+        { status: 401 }
+      );
+    }
+
+    if (!config.email) {
+      return NextResponse.json(
+        { error: "The member who set up this webhook URL has left the organization. Rotate the URL in Settings → Typeform." },
+        { status: 403 }
+      );
+    }
+    const userEmail = config.email;
+
+    // Parse JSON payload
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch (parseError) {
+      console.error("Failed to parse webhook payload as JSON:", parseError);
+      return NextResponse.json(
+        { error: "Invalid JSON payload. Failed to parse request body." },
+        { status: 400 }
+      );
+    }
+
+    const { eventId, eventType, formId } = parseTypeformWebhook(payload);
+
+    // Record the delivery first so it can be inspected and replayed if processing fails
+    let delivery: { webhookId: string; duplicate: boolean };
+    try {
+      delivery = await convexMutation<{ webhookId: string; duplicate: boolean }>("typeform:storeWebhook", {
+        email: userEmail,
+        payload,
+        eventType,
+        eventId,
+        formId,
+      }, { actingAs: userEmail });
+    } catch (storageError) {
+      console.error(`[Workflow][Webhook] Failed to store webhook for user ${userEmail}:`, storageError);
+      return NextResponse.json(
+        { error: "Failed to store webhook payload in database" },
+        { status: 500 }
+      );
+    }
+
+    if (delivery.duplicate) {
+      console.log(`[Typeform Webhook] Ignoring repeated delivery of event ${eventId}`);
+      return NextResponse.json({ ok: true, duplicate: true });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.url.split('/api')[0];
+    try {
+      await processTypeformWebhook(userEmail, payload, baseUrl);
+      await convexMutation("typeform:setWebhookStatus", {
+        webhookId: delivery.webhookId,
+        status: "processed",
+      }, { actingAs: userEmail });
+    } catch (processingError) {
+      const message = processingError instanceof Error ? processingError.message : String(processingError);
+      console.error(`[Workflow][Webhook] Failed to process webhook ${delivery.webhookId}:`, processingError);
+      await convexMutation("typeform:setWebhookStatus", {
+        webhookId: delivery.webhookId,
+        status: "failed",
+        error: message,
+      }, { actingAs: userEmail }).catch((error) => {
+        console.error(`[Workflow][Webhook] Failed to mark webhook ${delivery.webhookId} failed:`, error);
+      });
+      // Typeform retries failed deliveries; the retry reprocesses this one
+      return NextResponse.json(
+        { error: `Failed to process webhook: ${message}` },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    console.error("[Typeform Webhook] Processing error:", {
+      message: error.message,
+      stack: error.stack,
+      name: error.name,
+    });
+    return NextResponse.json(
+      { 
+        error: `Webhook processing failed: ${error.message}`,
+        details: process.env.NODE_ENV === "development" ? error.stack : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+
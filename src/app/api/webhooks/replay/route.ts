@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getVerifiedSession } from "@/lib/convexServer";
+import { processTypeformWebhook } from "@/lib/typeformWebhook";
+import { parseFirefliesWebhook, processFirefliesWebhook } from "@/lib/firefliesWebhook";
+import { api } from "../../../../../convex/_generated/api";
+import type { Id } from "../../../../../convex/_generated/dataModel";
+
+/**
+ * Process a stored webhook delivery again, as the signed-in user. Used by the
+ * webhook inspector for deliveries that failed. Unlike the webhook routes
+ * this waits for processing so the inspector can show the outcome.
+ */
+export async function POST(request: Request) {
+  const session = await getVerifiedSession();
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  // Processing acts as this email with the deployment token, so it must be the verified one
+  const { convex, email } = session;
+
+  const body = (await request.json().catch(() => null)) as { provider?: string; webhookId?: string } | null;
+  if (!body?.webhookId || (body.provider !== "typeform" && body.provider !== "fireflies")) {
+    return NextResponse.json({ error: "provider (typeform or fireflies) and webhookId are required" }, { status: 400 });
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.url.split("/api")[0];
+
+  if (body.provider === "typeform") {
+    const webhookId = body.webhookId as Id<"typeform_webhooks">;
+    try {
+      const webhook = await convex.query(api.typeform.getWebhookById, { webhookId });
+      await convex.mutation(api.typeform.setWebhookStatus, { webhookId, status: "received" });
+      try {
+        await processTypeformWebhook(email, webhook.payload, baseUrl);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await convex.mutation(api.typeform.setWebhookStatus, { webhookId, status: "failed", error: message });
+        return NextResponse.json({ ok: false, status: "failed", error: message });
+      }
+      await convex.mutation(api.typeform.setWebhookStatus, { webhookId, status: "processed" });
+      return NextResponse.json({ ok: true, status: "processed" });
+    } catch (error) {
+      console.error(`[Webhook Replay] Failed to replay Typeform webhook ${webhookId}:`, error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to replay webhook" },
+        { status: 500 }
+      );
+    }
+  }
+
+  const webhookId = body.webhookId as Id<"fireflies_webhooks">;
+  try {
+    const webhook = await convex.query(api.fireflies.getWebhookById, { webhookId });
+    const { eventType, meetingId } = parseFirefliesWebhook(webhook.payload);
+    if (!meetingId) {
+      return NextResponse.json({ error: "The stored payload has no meetingId" }, { status: 400 });
+    }
+    await convex.mutation(api.fireflies.setWebhookStatus, { webhookId, status: "received" });
+    try {
+      await processFirefliesWebhook(email, { eventType, meetingId }, baseUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await convex.mutation(api.fireflies.setWebhookStatus, { webhookId, status: "failed", error: message });
+      return NextResponse.json({ ok: false, status: "failed", error: message });
+    }
+    await convex.mutation(api.fireflies.setWebhookStatus, { webhookId, status: "processed" });
+    return NextResponse.json({ ok: true, status: "processed" });
+  } catch (error) {
+    console.error(`[Webhook Replay] Failed to replay Fireflies webhook ${webhookId}:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to replay webhook" },
+      { status: 500 }
+    );
+  }
+}
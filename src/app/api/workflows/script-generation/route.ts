@@ -15,6 +15,8 @@
  */
 
 import { NextResponse } from "next/server";
+import { isInternalRequest } from "@/lib/convexServer";
+import { internalApiHeaders } from "../../../../../convex/utils/internalApi";
 
 const CLOUDFLARE_ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID;
 const CLOUDFLARE_API_TOKEN = process.env.CLOUDFLARE_API_TOKEN;
@@ -27,6 +29,11 @@ const WORKFLOW_SCRIPT_NAME = "script-generation-workflow";
  * uses the REST API pattern. Adjust based on actual API availability.
  */
 export async function POST(request: Request) {
+  // Only Convex and the webhooks start workflows; they act as `email`
+  if (!isInternalRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   // Read body once and reuse
   const body = await request.json() as {
     responseId: string;
@@ -116,9 +123,7 @@ async function executeDirectly(
       );
       const workflowResponse = await fetch(workflowWorkerUrl, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
+        headers: internalApiHeaders(),
         body: JSON.stringify({
           responseId,
           email,
@@ -152,9 +157,7 @@ async function executeDirectly(
     directUrl,
     {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers: internalApiHeaders(),
       body: JSON.stringify({
         responseId,
         email,
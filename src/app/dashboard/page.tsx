@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation";
 import { getCurrentUser } from "@/lib/auth";
 import DashboardClient from "@/components/DashboardClient";
+import ClientHealthPanel from "@/components/ClientHealthPanel";
 
 export default async function Dashboard() {
   const user = await getCurrentUser();
@@ -22,6 +23,8 @@ export default async function Dashboard() {
           </p>
         </div>
 
+        <ClientHealthPanel email={user.email} />
+
         {/* Main Content */}
         <div>
             <DashboardClient email={user.email} />
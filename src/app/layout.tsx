@@ -52,7 +52,7 @@ export default async function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <Providers>
+        <Providers isAuthenticated={Boolean(user)}>
           <Navbar user={user} />
           {children}
         </Providers>
@@ -7,6 +7,12 @@ import OpenRouterSettingsCard from "@/components/OpenRouterSettingsCard";
 import ScriptGenerationStatusCard from "@/components/ScriptGenerationStatusCard";
 import GoogleDriveSettingsCard from "@/components/GoogleDriveSettingsCard";
 import OrganizationSettingsCard from "@/components/OrganizationSettingsCard";
+import ScheduleSettingsCard from "@/components/ScheduleSettingsCard";
+import TelegramSettingsCard from "@/components/TelegramSettingsCard";
+import NotificationSettingsCard from "@/components/NotificationSettingsCard";
+import LinkingSettingsCard from "@/components/LinkingSettingsCard";
+import SearchSettingsCard from "@/components/SearchSettingsCard";
+import BackupSettingsCard from "@/components/BackupSettingsCard";
 
 export default async function SettingsPage() {
   const user = await getCurrentUser();
@@ -22,6 +28,7 @@ export default async function SettingsPage() {
         <OpenRouterSettingsCard email={user.email} />
         <ScriptGenerationStatusCard />
         <ScriptSettingsCard email={user.email} />
+        <ScheduleSettingsCard email={user.email} />
         <GoogleDriveSettingsCard email={user.email} />
         <TypeformSettingsCard
           email={user.email}
@@ -31,6 +38,11 @@ export default async function SettingsPage() {
           email={user.email}
           appUrl={process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}
         />
+        <LinkingSettingsCard email={user.email} />
+        <SearchSettingsCard email={user.email} />
+        <NotificationSettingsCard email={user.email} />
+        <TelegramSettingsCard email={user.email} />
+        <BackupSettingsCard email={user.email} />
       </div>
     </div>
   );
@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/lib/auth";
+import LlmUsageDashboard from "@/components/LlmUsageDashboard";
+
+export default async function UsagePage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/");
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-10">
+      <h1 className="mb-6 text-2xl font-light tracking-tight">AI Usage</h1>
+      <LlmUsageDashboard email={user.email} />
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import * as React from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+type ImportSummary = {
+  imported: Record<string, number>;
+  skipped: Record<string, number>;
+  exportedAt: number;
+  sourceName: string;
+};
+
+function describeCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([table, count]) => `${count} ${table.replace(/_/g, " ")}`)
+    .join(", ");
+}
+
+export default function BackupSettingsCard({ email }: { email: string }) {
+  const exportOrganization = useAction(api.organizationArchiveActions.exportOrganization);
+  const importOrganization = useAction(api.organizationArchiveActions.importOrganization);
+  const generateUploadUrl = useMutation(api.organizationArchive.generateUploadUrl);
+
+  const [isExporting, setIsExporting] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [pauseSchedules, setPauseSchedules] = React.useState(false);
+  const [summary, setSummary] = React.useState<ImportSummary | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { url, fileName } = await exportOrganization({ email });
+      // Fetch first so the download gets a readable file name
+      const response = await fetch(url);
+      const objectUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      alert(`Failed to export: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    if (
+      !confirm(
+        `Restore "${file.name}" into this organization? Its clients, transcripts, scripts and settings will be added here.`
+      )
+    ) {
+      return;
+    }
+    setIsImporting(true);
+    setSummary(null);
+    try {
+      const uploadUrl = await generateUploadUrl({ email });
+      const upload = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-ndjson" },
+        body: file,
+      });
+      if (!upload.ok) {
+        throw new Error(`Upload failed (${upload.status})`);
+      }
+      const { storageId } = (await upload.json()) as { storageId: Id<"_storage"> };
+      setSummary(await importOrganization({ email, storageId, pauseSchedules }));
+    } catch (error) {
+      alert(`Failed to restore: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-foreground/10 p-6">
+      <div className="space-y-1">
+        <h2 className="text-lg font-light">Backup &amp; restore</h2>
+        <p className="text-sm text-foreground/60">
+          Download everything in this organization — clients, contacts, transcripts, onboarding responses, scripts,
+          briefings, schedules and settings — as an archive file. API keys, tokens and webhook secrets aren&apos;t
+          included, so integrations need to be connected again after a restore.
+        </p>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={isExporting}
+        className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+      >
+        {isExporting ? "Exporting…" : "Export archive"}
+      </button>
+
+      <div className="space-y-3 border-t border-foreground/10 pt-4">
+        <p className="text-sm text-foreground/60">
+          Restore an archive into this organization, e.g. to move to another deployment or seed staging. The
+          organization must not have any clients or other data yet.
+        </p>
+        <label className="flex items-start gap-3 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={pauseSchedules}
+            disabled={isImporting}
+            onChange={(e) => setPauseSchedules(e.target.checked)}
+          />
+          <span className="space-y-1">
+            <span className="block text-foreground/80">Pause client schedules</span>
+            <span className="block text-xs text-foreground/60">
+              Turn off scheduled script generation for restored clients, e.g. for a staging copy.
+            </span>
+          </span>
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {isImporting ? "Restoring…" : "Restore from archive"}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ndjson,.jsonl,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              void handleImport(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        {summary && (
+          <div className="space-y-1 text-xs text-foreground/60">
+            <p>
+              Restored {summary.sourceName} from {new Date(summary.exportedAt).toLocaleString()}:{" "}
+              {describeCounts(summary.imported) || "nothing to import"}.
+            </p>
+            {describeCounts(summary.skipped) && (
+              <p>
+                Skipped {describeCounts(summary.skipped)} (members already in another organization, pending jobs that
+                were rescheduled, or records whose client is missing).
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
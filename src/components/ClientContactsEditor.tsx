@@ -0,0 +1,237 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+  CLIENT_CONTACT_ROLES,
+  CLIENT_CONTACT_ROLE_LABELS,
+  type ClientContactRole,
+} from "../../convex/utils/clientContacts";
+import { X } from "lucide-react";
+
+const INPUT_CLASS = "rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs";
+
+export type ContactFields = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  role: ClientContactRole;
+};
+
+export const EMPTY_CONTACT: ContactFields = { firstName: "", lastName: "", email: "", phone: "", role: "owner" };
+
+function toFields(contact: Doc<"client_contacts">): ContactFields {
+  return {
+    firstName: contact.firstName,
+    lastName: contact.lastName ?? "",
+    email: contact.email ?? "",
+    phone: contact.phone ?? "",
+    role: contact.role,
+  };
+}
+
+/**
+ * Name, email, phone and role inputs shared by the contact rows and the
+ * create dialog's draft contacts
+ */
+export function ContactFieldInputs({
+  value,
+  onChange,
+}: {
+  value: ContactFields;
+  onChange: (value: ContactFields) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+      <input
+        className={INPUT_CLASS}
+        placeholder="First name"
+        value={value.firstName}
+        onChange={(e) => onChange({ ...value, firstName: e.target.value })}
+      />
+      <input
+        className={INPUT_CLASS}
+        placeholder="Last name"
+        value={value.lastName}
+        onChange={(e) => onChange({ ...value, lastName: e.target.value })}
+      />
+      <input
+        className={INPUT_CLASS}
+        type="email"
+        placeholder="Email"
+        value={value.email}
+        onChange={(e) => onChange({ ...value, email: e.target.value })}
+      />
+      <input
+        className={INPUT_CLASS}
+        placeholder="Phone"
+        value={value.phone}
+        onChange={(e) => onChange({ ...value, phone: e.target.value })}
+      />
+      <select
+        className={INPUT_CLASS}
+        value={value.role}
+        onChange={(e) => onChange({ ...value, role: e.target.value as ClientContactRole })}
+      >
+        {CLIENT_CONTACT_ROLES.map((role) => (
+          <option key={role} value={role}>
+            {CLIENT_CONTACT_ROLE_LABELS[role]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function ContactRow({ contact }: { contact: Doc<"client_contacts"> }) {
+  const updateContact = useMutation(api.clientContacts.updateContact);
+  const removeContact = useMutation(api.clientContacts.removeContact);
+  const [fields, setFields] = React.useState<ContactFields>(() => toFields(contact));
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setFields(toFields(contact));
+  }, [contact]);
+
+  const saved = toFields(contact);
+  const isDirty = (Object.keys(saved) as Array<keyof ContactFields>).some((key) => saved[key] !== fields[key]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateContact({ contactId: contact._id, ...fields });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save contact");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMakePrimary = async () => {
+    try {
+      await updateContact({ contactId: contact._id, isPrimary: true });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to change the primary contact");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove ${contact.firstName} from this client's contacts?`)) return;
+    try {
+      await removeContact({ contactId: contact._id });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to remove contact");
+    }
+  };
+
+  return (
+    <li className="space-y-2 rounded-md border border-foreground/10 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-foreground/70">
+          <input type="radio" checked={contact.isPrimary} onChange={handleMakePrimary} />
+          {contact.isPrimary ? "Primary contact" : "Make primary"}
+        </label>
+        <button
+          type="button"
+          onClick={handleRemove}
+          className="text-foreground/40 hover:text-foreground/80"
+          aria-label="Remove contact"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+      <ContactFieldInputs value={fields} onChange={setFields} />
+      {isDirty && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => setFields(saved)}
+            className="px-3 py-1.5 text-xs rounded-md hover:bg-foreground/5"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !fields.firstName.trim()}
+            className="px-3 py-1.5 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * People at a client with their roles. Changes save immediately; the primary
+ * contact's name is what older screens show as the client's contact.
+ */
+export default function ClientContactsEditor({ clientId }: { clientId: Id<"clients"> }) {
+  const contacts = useQuery(api.clientContacts.getContactsForClient, { clientId });
+  const addContact = useMutation(api.clientContacts.addContact);
+
+  const [draft, setDraft] = React.useState<ContactFields>(EMPTY_CONTACT);
+  const [isAdding, setIsAdding] = React.useState(false);
+
+  const handleAdd = async () => {
+    if (!draft.firstName.trim()) return;
+    setIsAdding(true);
+    try {
+      await addContact({
+        clientId,
+        contact: {
+          ...draft,
+          // The first contact of a client becomes its primary one
+          isPrimary: contacts?.length === 0,
+        },
+      });
+      setDraft(EMPTY_CONTACT);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add contact");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-foreground/80">Contacts</p>
+        <p className="text-xs text-foreground/60 font-light">
+          Contact emails link this client&apos;s meetings automatically, and contacts are listed in script prompts.
+        </p>
+      </div>
+
+      {contacts === undefined ? (
+        <p className="text-xs text-foreground/50 font-light">Loading contacts...</p>
+      ) : contacts.length === 0 ? (
+        <p className="text-xs text-foreground/50 font-light">No contacts yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {contacts.map((contact) => (
+            <ContactRow key={contact._id} contact={contact} />
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2 rounded-md border border-dashed border-foreground/15 p-3">
+        <ContactFieldInputs value={draft} onChange={setDraft} />
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={isAdding || !draft.firstName.trim()}
+            className="px-3 py-1.5 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {isAdding ? "Adding..." : "Add contact"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
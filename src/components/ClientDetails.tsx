@@ -1,6 +1,6 @@
 "use client";
 
-import { useQuery, useMutation, useAction } from "convex/react";
+import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { extractClientInfo } from "@/lib/typeform";
 import * as React from "react";
@@ -8,6 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { useRouter } from "next/navigation";
 import type { Id, Doc } from "../../convex/_generated/dataModel";
 import UnlinkedTranscripts from "./UnlinkedTranscripts";
+import ClientSoundbites from "./ClientSoundbites";
+import ClientInsightsTimeline from "./ClientInsightsTimeline";
+import ClientLinkAliases from "./ClientLinkAliases";
+import ClientContactsEditor from "./ClientContactsEditor";
 import ScriptTabContent from "./ScriptTabContent";
 import { AdBriefingForm } from "./AdBriefingForm";
 import { ScriptInputsVisualizer } from "./ScriptInputsVisualizer";
@@ -26,6 +30,18 @@ import {
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
+import {
+  DEFAULT_SCHEDULE_RULE,
+  DEFAULT_SCHEDULE_TIMEZONE,
+  computeNextRunTimes,
+  describeScheduleRule,
+  getZonedDateParts,
+  validateScheduleRule,
+  zonedTimeToUtc,
+  type ScheduleRule,
+} from "../../convex/utils/schedule";
+import ScheduleRuleFields from "./ScheduleRuleFields";
+import ScriptStatusBadge from "./ScriptStatusBadge";
 
 type ClientDetailsProps = {
   email: string;
@@ -158,6 +174,164 @@ function NextScriptEditor({
   );
 }
 
+type ClientScheduleEditorProps = {
+  email: string;
+  client: Doc<"clients">;
+};
+
+function formatDateInTimeZone(ms: number, timeZone: string, withTime = false): string {
+  return new Date(ms).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    ...(withTime && { hour: "numeric", minute: "2-digit" }),
+  });
+}
+
+function toDateInputValue(ms: number, timeZone: string): string {
+  const { year, monthIndex, day } = getZonedDateParts(ms, timeZone);
+  return `${year}-${String(monthIndex + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Pick a schedule template or a custom rule for a client, with a preview of the next 12 runs
+ */
+function ClientScheduleEditor({ email, client }: ClientScheduleEditorProps) {
+  const effective = useQuery(api.cronJobs.getEffectiveScheduleForClient, { clientId: client._id });
+  const templates = useQuery(api.scheduleTemplates.getTemplatesForEmail, { email });
+  const updateClient = useMutation(api.clients.updateClient);
+
+  // "inherit" = org default template (or built-in default); otherwise a template ID or "custom"
+  const [mode, setMode] = React.useState<string>("inherit");
+  const [rule, setRule] = React.useState<ScheduleRule>(DEFAULT_SCHEDULE_RULE);
+  const [anchorInput, setAnchorInput] = React.useState<string>("");
+  const [saving, setSaving] = React.useState(false);
+
+  const timezone = effective?.timezone ?? DEFAULT_SCHEDULE_TIMEZONE;
+
+  // Reset the form whenever the stored schedule changes
+  const hasOwnRule = client.scheduleRule !== undefined;
+  const storedTemplateId = client.scheduleTemplateId;
+  React.useEffect(() => {
+    if (!effective) return;
+    setMode(hasOwnRule ? "custom" : storedTemplateId && effective.source === "template" ? storedTemplateId : "inherit");
+    setRule(effective.rule);
+    setAnchorInput(toDateInputValue(effective.anchor, effective.timezone));
+  }, [effective, hasOwnRule, storedTemplateId]);
+
+  const selectedTemplate = templates?.find((t) => t._id === mode);
+  const defaultTemplate = templates?.find((t) => t.isDefault);
+  const draftRule: ScheduleRule =
+    mode === "custom" ? rule : selectedTemplate?.rule ?? defaultTemplate?.rule ?? DEFAULT_SCHEDULE_RULE;
+
+  const anchorMs = React.useMemo(() => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(anchorInput);
+    if (!match) return null;
+    return zonedTimeToUtc(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 0, timezone);
+  }, [anchorInput, timezone]);
+
+  const ruleError = validateScheduleRule(draftRule);
+  const preview = React.useMemo(
+    () =>
+      anchorMs === null || ruleError
+        ? []
+        : computeNextRunTimes(draftRule, { anchor: anchorMs, after: Date.now(), timezone, count: 12 }),
+    [draftRule, anchorMs, ruleError, timezone]
+  );
+
+  const handleSave = async () => {
+    if (ruleError) {
+      alert(ruleError);
+      return;
+    }
+    if (anchorMs === null) {
+      alert("Please enter a valid start date.");
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateClient({
+        clientId: client._id,
+        scheduleRule: mode === "custom" ? rule : null,
+        scheduleTemplateId: selectedTemplate ? selectedTemplate._id : null,
+        scheduleAnchorTime: anchorMs,
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!effective) {
+    return <p className="text-xs text-foreground/50 font-light">Loading schedule...</p>;
+  }
+
+  const selectClass = "w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm";
+
+  return (
+    <div className="space-y-2">
+      <select className={selectClass} value={mode} onChange={(e) => setMode(e.target.value)}>
+        <option value="inherit">
+          {defaultTemplate ? `Organization default (${defaultTemplate.name})` : "Standard (25 days, 30 days, then monthly)"}
+        </option>
+        {templates
+          ?.filter((t) => !t.isDefault)
+          .map((t) => (
+            <option key={t._id} value={t._id}>
+              Template: {t.name}
+            </option>
+          ))}
+        <option value="custom">Custom rule</option>
+      </select>
+
+      {mode === "custom" && (
+        <div className="rounded-md border border-foreground/10 bg-background/30 p-2">
+          <ScheduleRuleFields rule={rule} onChange={setRule} />
+        </div>
+      )}
+
+      <div>
+        <label className="text-xs text-foreground/60 font-light mb-1 block">Schedule start</label>
+        <input
+          type="date"
+          className={selectClass}
+          value={anchorInput}
+          onChange={(e) => setAnchorInput(e.target.value)}
+        />
+      </div>
+
+      <p className="text-xs text-foreground/70">
+        {ruleError ?? describeScheduleRule(draftRule)}
+        <span className="text-foreground/50 font-light"> · {timezone}</span>
+      </p>
+
+      <div className="rounded-md border border-foreground/10 bg-background/30 p-2">
+        <p className="text-xs text-foreground/70 font-medium mb-1">Next {preview.length} runs</p>
+        {preview.length === 0 ? (
+          <p className="text-xs text-foreground/50 font-light">No upcoming runs</p>
+        ) : (
+          <ol className="text-xs text-foreground/60 space-y-0.5 list-decimal list-inside">
+            {preview.map((ms) => (
+              <li key={ms}>{formatDateInTimeZone(ms, timezone, (draftRule.hour ?? 0) !== 0)}</li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full px-3 py-1.5 text-xs rounded-md border border-foreground/15 bg-background hover:bg-foreground/5 font-light"
+      >
+        {saving ? "Saving..." : "Save schedule"}
+      </button>
+    </div>
+  );
+}
+
 function formatShortDate(dateString: string | null): string {
   if (!dateString) return "N/A";
   const date = new Date(dateString);
@@ -233,6 +407,12 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
     client ? { clientId: client._id, ownerEmail: email } : "skip"
   );
   const totalScriptsGenerated = scriptCount ?? 0;
+  // Same subscription as the Scripts tab; used for the latest script's review status
+  const clientScripts = useQuery(
+    api.scripts.getScriptsForClient,
+    client ? { clientId: client._id, ownerEmail: email } : "skip"
+  );
+  const latestScript = clientScripts?.[0] ?? null;
   
   // Get cron jobs for this client
   const cronJobs = useQuery(
@@ -244,9 +424,9 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
     api.cronJobs.getNextScheduledJob,
     client ? { clientId: client._id } : "skip"
   );
-  // Actions to control schedule
-  const overrideNextRun = useAction(api.cronJobs.overrideNextRun);
-  const skipNextRun = useAction(api.cronJobs.skipNextRun);
+  // Mutations to control schedule
+  const overrideNextRun = useMutation(api.cronJobs.overrideNextRun);
+  const skipNextRun = useMutation(api.cronJobs.skipNextRun);
   
   // Get settings (for backwards compatibility, but schedule is now fixed)
   const settings = useQuery(api.scriptSettings.getSettingsForEmail, { email });
@@ -547,8 +727,6 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
         businessName: editTabFormData.businessName || undefined,
         businessEmail: normalizedEmails.length > 0 ? normalizedEmails[0] : undefined,
         businessEmails: normalizedEmails,
-        contactFirstName: editTabFormData.contactFirstName || undefined,
-        contactLastName: editTabFormData.contactLastName || undefined,
         targetRevenue: editTabFormData.targetRevenue ? parseFloat(editTabFormData.targetRevenue) : undefined,
         servicesOffered: editTabFormData.servicesOffered || undefined,
         status: editTabFormData.status,
@@ -688,6 +866,11 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
                         >
                           {client.status ? client.status.charAt(0).toUpperCase() + client.status.slice(1) : "Inactive"}
                         </span>
+                        {latestScript && (
+                          <span title="Latest script">
+                            <ScriptStatusBadge status={latestScript.status} />
+                          </span>
+                        )}
                         <span className="text-sm text-foreground/60 font-light">
                           {nextScheduledJob
                             ? `Next in ${formatCountdownTo(nextScheduledJob.scheduledTime)}`
@@ -924,20 +1107,7 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
                           Enable cron jobs
                         </label>
                       </div>
-                      <div className="rounded-md border border-foreground/10 bg-background/30 p-2">
-                        <p className="text-xs text-foreground/70 font-medium mb-1">Fixed Schedule:</p>
-                        <ul className="text-xs text-foreground/60 space-y-0.5 list-disc list-inside">
-                          <li>Immediate (on creation)</li>
-                          <li>25 days later</li>
-                          <li>30 days after that (55d total)</li>
-                          <li>Then monthly on that day</li>
-                        </ul>
-                      </div>
-                      {cronJobs && cronJobs.length > 0 && cronJobs.some((j: Doc<"cron_jobs">) => j.isRepeating && j.status === "scheduled") && (
-                        <p className="text-xs text-foreground/50 font-light">
-                          Recurring monthly on day {cronJobs.find((j: Doc<"cron_jobs">) => j.isRepeating && j.status === "scheduled")?.dayOfMonth}
-                        </p>
-                      )}
+                      <ClientScheduleEditor email={email} client={client} />
                     </div>
                   </div>
                   {cronJobs && cronJobs.length > 0 && (
@@ -948,7 +1118,7 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
                           .filter((job: Doc<"cron_jobs">) => job.status === "scheduled")
                           .map((job: Doc<"cron_jobs">) => (
                             <div key={job.cronJobId} className="text-xs text-foreground/70">
-                              {new Date(job.scheduledTime).toLocaleDateString()} (day {job.dayOfMonth}{job.isRepeating ? ", monthly" : ""})
+                              {new Date(job.scheduledTime).toLocaleDateString()}{job.isRepeating ? " (repeating)" : ""}
                             </div>
                           ))}
                       </div>
@@ -1338,29 +1508,7 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
                     {/* Contact Information */}
                     <div className="space-y-4">
                       <h3 className="text-sm font-medium text-foreground/80">Contact Information</h3>
-                      
-                      <div className="grid grid-cols-2 gap-4">
-                        <div className="space-y-2">
-                          <Label htmlFor="edit-contact-first">First Name</Label>
-                          <Input
-                            id="edit-contact-first"
-                            value={editTabFormData.contactFirstName}
-                            onChange={(e) =>
-                              setEditTabFormData({ ...editTabFormData, contactFirstName: e.target.value })
-                            }
-                          />
-                        </div>
-                        <div className="space-y-2">
-                          <Label htmlFor="edit-contact-last">Last Name</Label>
-                          <Input
-                            id="edit-contact-last"
-                            value={editTabFormData.contactLastName}
-                            onChange={(e) =>
-                              setEditTabFormData({ ...editTabFormData, contactLastName: e.target.value })
-                            }
-                          />
-                        </div>
-                      </div>
+                      <ClientContactsEditor clientId={client._id} />
                     </div>
 
                     {/* Business Details */}
@@ -1477,7 +1625,17 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
 
             {/* Transcripts Tab */}
             {activeTab === "transcripts" && (
-              <div>
+              <div className="space-y-6">
+                <Card className="border-foreground/10">
+                  <CardContent className="pt-6">
+                    <ClientLinkAliases clientId={client._id} />
+                  </CardContent>
+                </Card>
+                <Card className="border-foreground/10">
+                  <CardContent className="pt-6">
+                    <ClientSoundbites clientId={client._id} />
+                  </CardContent>
+                </Card>
                 <UnlinkedTranscripts 
                   email={email} 
                   clientId={client._id} 
@@ -1503,6 +1661,14 @@ export default function ClientDetails({ email, responseId }: ClientDetailsProps)
             {/* Call Intelligence Tab */}
             {activeTab === "call-intelligence" && (
               <div className="space-y-4">
+                <Card className="border-foreground/10">
+                  <CardContent className="pt-6">
+                    <ClientInsightsTimeline
+                      clientId={client._id}
+                      onOpenBriefing={() => setActiveTab("ad-briefing")}
+                    />
+                  </CardContent>
+                </Card>
                 {transcripts && transcripts.length > 0 ? (
                   transcripts
                     .filter((t) => t.notes && t.notes.trim().length > 0)
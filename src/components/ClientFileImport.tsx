@@ -0,0 +1,380 @@
+"use client";
+
+import * as React from "react";
+import { useConvex, useMutation } from "convex/react";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import {
+  CLIENT_IMPORT_FIELDS,
+  buildErrorReportCsv,
+  guessColumnMapping,
+  readImportFile,
+  validateImportRows,
+  type ClientImportField,
+  type ColumnMapping,
+  type ValidatedImportRow,
+} from "@/lib/clientImport";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+
+// Keep in sync with the limits in convex/clients.ts
+const PREVIEW_CHUNK_SIZE = 500;
+const IMPORT_BATCH_SIZE = 50;
+
+type PreviewRow = ValidatedImportRow & { duplicateOf?: string };
+
+type ImportReport = {
+  imported: number;
+  failures: Array<{ rowNumber: number; businessName: string; error: string }>;
+};
+
+function columnLabel(index: number): string {
+  let label = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+function rowFailures(rows: PreviewRow[]): ImportReport["failures"] {
+  return rows.flatMap((row) => {
+    if (row.errors.length > 0) {
+      return [{ rowNumber: row.rowNumber, businessName: row.businessName, error: row.errors.join("; ") }];
+    }
+    if (row.duplicateOf) {
+      return [
+        {
+          rowNumber: row.rowNumber,
+          businessName: row.businessName,
+          error: `A client with matching information already exists: ${row.duplicateOf}`,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+function downloadErrorReport(failures: ImportReport["failures"], fileName: string) {
+  const blob = new Blob([buildErrorReportCsv(failures)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName.replace(/\.[^.]+$/, "")}-import-errors.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Import clients from a CSV or XLSX file: map columns to client fields,
+ * review a dry run with validation errors and duplicates, then create the
+ * ready rows in batches with cron jobs scheduled from each start date
+ */
+export default function ClientFileImport({ email }: { email: string }) {
+  const convex = useConvex();
+  const importClients = useMutation(api.clients.importClients);
+
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [sheetRows, setSheetRows] = React.useState<string[][]>([]);
+  const [hasHeaderRow, setHasHeaderRow] = React.useState(true);
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = React.useState<PreviewRow[] | null>(null);
+  const [isReading, setIsReading] = React.useState(false);
+  const [isPreviewing, setIsPreviewing] = React.useState(false);
+  const [progress, setProgress] = React.useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = React.useState<ImportReport | null>(null);
+
+  const headers = hasHeaderRow ? (sheetRows[0] ?? []) : [];
+  const columnCount = Math.max(0, ...sheetRows.map((row) => row.length));
+  const dataRows = hasHeaderRow ? sheetRows.slice(1) : sheetRows;
+
+  const reset = () => {
+    setFileName(null);
+    setSheetRows([]);
+    setMapping(null);
+    setPreview(null);
+    setReport(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setIsReading(true);
+    try {
+      const rows = await readImportFile(file);
+      if (rows.length === 0) {
+        throw new Error("The file is empty");
+      }
+      setFileName(file.name);
+      setSheetRows(rows);
+      setHasHeaderRow(true);
+      setMapping(guessColumnMapping(rows[0]));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to read the file");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeaderRow(checked);
+    setPreview(null);
+    setMapping(checked ? guessColumnMapping(sheetRows[0] ?? []) : guessColumnMapping([]));
+  };
+
+  const updateMapping = (field: ClientImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === "" ? null : Number(value) });
+    setPreview(null);
+  };
+
+  const missingRequired = mapping
+    ? CLIENT_IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === null)
+    : [];
+
+  const handlePreview = async () => {
+    if (!mapping) return;
+    setIsPreviewing(true);
+    try {
+      const validated = validateImportRows(dataRows, mapping, hasHeaderRow ? 2 : 1);
+      const rows: PreviewRow[] = validated.map((row) => ({ ...row }));
+      const ready = rows.filter((row) => row.client);
+      for (let start = 0; start < ready.length; start += PREVIEW_CHUNK_SIZE) {
+        const chunk = ready.slice(start, start + PREVIEW_CHUNK_SIZE);
+        const duplicates = await convex.query(api.clients.previewClientImport, {
+          ownerEmail: email,
+          rows: chunk.map((row) => ({
+            businessName: row.client!.businessName,
+            businessEmail: row.client!.businessEmail,
+            website: row.client!.website,
+          })),
+        });
+        duplicates.forEach((duplicate, index) => {
+          if (duplicate) chunk[index].duplicateOf = duplicate.businessName;
+        });
+      }
+      setPreview(rows);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to preview the import");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const readyRows = preview?.filter((row) => row.client && !row.duplicateOf) ?? [];
+
+  const handleImport = async () => {
+    if (!preview || readyRows.length === 0) return;
+    const failures = rowFailures(preview);
+    let imported = 0;
+    setProgress({ done: 0, total: readyRows.length });
+    try {
+      for (let start = 0; start < readyRows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = readyRows.slice(start, start + IMPORT_BATCH_SIZE);
+        try {
+          const results = await importClients({ ownerEmail: email, rows: batch.map((row) => row.client!) });
+          results.forEach((result, index) => {
+            if ("error" in result) {
+              failures.push({ rowNumber: batch[index].rowNumber, businessName: batch[index].businessName, error: result.error });
+            } else {
+              imported++;
+            }
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Failed to import";
+          for (const row of batch) {
+            failures.push({ rowNumber: row.rowNumber, businessName: row.businessName, error: message });
+          }
+        }
+        setProgress({ done: Math.min(start + batch.length, readyRows.length), total: readyRows.length });
+      }
+    } finally {
+      failures.sort((a, b) => a.rowNumber - b.rowNumber);
+      setReport({ imported, failures });
+      setPreview(null);
+      setProgress(null);
+    }
+  };
+
+  const selectClassName = "w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs";
+
+  return (
+    <Card className="bg-linear-to-br from-background to-background/95 border-foreground/10 shadow-md">
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-light">Import from a file</h2>
+            <p className="text-sm text-foreground/60 font-light">
+              Upload a CSV or Excel (.xlsx) file with one client per row. You&apos;ll match its columns to client fields and
+              review a dry run before anything is created.
+            </p>
+          </div>
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-md border border-foreground/15 px-4 py-2 text-sm hover:bg-foreground/5">
+            {isReading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+            {fileName ? "Choose another file" : "Choose file"}
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              disabled={isReading || progress !== null}
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+
+        {report && (
+          <div className="space-y-3 rounded-md border border-foreground/10 p-4">
+            <p className="text-sm">
+              Imported {report.imported} client(s).
+              {report.failures.length > 0 && ` ${report.failures.length} row(s) were not imported.`}
+            </p>
+            <div className="flex gap-2">
+              {report.failures.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => downloadErrorReport(report.failures, fileName ?? "clients")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download error report
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={reset}>
+                Import another file
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mapping && !report && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-foreground/70">
+                {fileName} · {dataRows.length} row(s)
+              </p>
+              <label className="flex items-center gap-2 text-xs text-foreground/70">
+                <input type="checkbox" checked={hasHeaderRow} onChange={(e) => handleHeaderToggle(e.target.checked)} />
+                First row contains column names
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              {CLIENT_IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs text-foreground/70">
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <select
+                    className={selectClassName}
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        {headers[index]?.trim() ? `${headers[index]} (column ${columnLabel(index)})` : `Column ${columnLabel(index)}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-xs text-destructive">
+                Choose a column for {missingRequired.map((field) => field.label.toLowerCase()).join(" and ")}.
+              </p>
+            )}
+
+            {!preview && (
+              <div className="flex justify-end">
+                <Button onClick={handlePreview} disabled={missingRequired.length > 0 || isPreviewing}>
+                  {isPreviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Preview import
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {preview && !report && (
+          <div className="space-y-4 border-t border-foreground/10 pt-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm">
+                Dry run: {readyRows.length} ready
+                {preview.length - readyRows.length > 0 && `, ${preview.length - readyRows.length} will be skipped`}
+              </p>
+              {preview.length - readyRows.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => downloadErrorReport(rowFailures(preview), fileName ?? "clients")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download error report
+                </Button>
+              )}
+            </div>
+
+            <div className="max-h-[420px] overflow-auto rounded-md border border-foreground/10">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Business</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Start date</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-xs text-foreground/50">{row.rowNumber}</TableCell>
+                      <TableCell className="text-xs">{row.businessName || "—"}</TableCell>
+                      <TableCell className="text-xs text-foreground/70">
+                        {[row.client?.contactFirstName, row.client?.contactLastName].filter(Boolean).join(" ") ||
+                          row.client?.businessEmail ||
+                          "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-foreground/70">
+                        {row.client ? new Date(row.client.startTime).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        ) : row.duplicateOf ? (
+                          <Badge variant="warning" size="sm">
+                            Duplicate of {row.duplicateOf}
+                          </Badge>
+                        ) : (
+                          <Badge variant="success" size="sm">
+                            Ready
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={progress !== null}>
+                Back to mapping
+              </Button>
+              <Button onClick={handleImport} disabled={readyRows.length === 0 || progress !== null} className="min-w-[120px]">
+                {progress ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Importing {progress.done}/{progress.total}...
+                  </>
+                ) : (
+                  `Import ${readyRows.length} Client(s)`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Badge } from "./ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+type HealthLevel = "healthy" | "watch" | "at_risk";
+
+const LEVEL_LABELS: Record<HealthLevel, string> = {
+  healthy: "Healthy",
+  watch: "Watch",
+  at_risk: "At risk",
+};
+
+const LEVEL_BADGES: Record<HealthLevel, "success" | "warning" | "destructive"> = {
+  healthy: "success",
+  watch: "warning",
+  at_risk: "destructive",
+};
+
+const LEVEL_STROKES: Record<HealthLevel, string> = {
+  healthy: "stroke-green-600 dark:stroke-green-400",
+  watch: "stroke-amber-600 dark:stroke-amber-400",
+  at_risk: "stroke-destructive",
+};
+
+// Clients listed before "Show all"
+const COLLAPSED_COUNT = 8;
+
+function Sparkline({ scores, level }: { scores: number[]; level: HealthLevel }) {
+  const width = 96;
+  const height = 24;
+  if (scores.length < 2) {
+    return <span className="text-[11px] text-foreground/40">No history yet</span>;
+  }
+  const points = scores
+    .map((score, index) => {
+      const x = (index / (scores.length - 1)) * width;
+      const y = height - (score / 100) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible" aria-hidden>
+      <polyline points={points} fill="none" strokeWidth="1.5" className={LEVEL_STROKES[level]} />
+    </svg>
+  );
+}
+
+/**
+ * Clients ranked by health score (see convex/utils/clientHealth.ts), least
+ * healthy first, with what's pulling each score down and its 30-day trend
+ */
+export default function ClientHealthPanel({ email }: { email: string }) {
+  const rows = useQuery(api.clientHealth.getHealthDashboard, { email });
+  const [showAll, setShowAll] = React.useState(false);
+
+  if (rows === undefined || rows.length === 0) {
+    return null;
+  }
+
+  const counts = { healthy: 0, watch: 0, at_risk: 0 } as Record<HealthLevel, number>;
+  for (const row of rows) {
+    counts[row.level]++;
+  }
+  const visible = showAll ? rows : rows.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card className="mb-8 border-foreground/10 shadow-md">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 pb-2">
+        <CardTitle className="text-lg font-light">Client health</CardTitle>
+        <div className="flex items-center gap-2">
+          {(Object.keys(LEVEL_LABELS) as HealthLevel[]).map((level) => (
+            <Badge key={level} variant={LEVEL_BADGES[level]}>
+              {counts[level]} {LEVEL_LABELS[level].toLowerCase()}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {visible.map((row) => (
+          <Link
+            key={row.clientId}
+            href={`/dashboard/clients/${row.clientId}`}
+            className="grid grid-cols-[3rem_1fr_auto] items-center gap-4 rounded-md px-2 py-2 hover:bg-foreground/5 md:grid-cols-[3rem_1fr_7rem_4rem]"
+          >
+            <Badge variant={LEVEL_BADGES[row.level]} className="justify-center">
+              {row.score}
+            </Badge>
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">
+                {row.businessName}
+                {row.status === "paused" && <span className="ml-2 text-xs font-normal text-foreground/50">Paused</span>}
+              </div>
+              <div className="truncate text-xs text-foreground/60">
+                {row.factors.length > 0 ? row.factors.map((factor) => factor.detail).join(" · ") : "No issues"}
+              </div>
+            </div>
+            <div className="hidden md:block">
+              <Sparkline scores={row.trend.map((point) => point.score)} level={row.level} />
+            </div>
+            <div className="text-right text-xs">
+              {row.change === null || row.change === 0 ? (
+                <span className="text-foreground/40">—</span>
+              ) : row.change > 0 ? (
+                <span className="text-green-600 dark:text-green-400">+{row.change}</span>
+              ) : (
+                <span className="text-destructive">{row.change}</span>
+              )}
+            </div>
+          </Link>
+        ))}
+        {rows.length > COLLAPSED_COUNT && (
+          <button
+            type="button"
+            onClick={() => setShowAll(!showAll)}
+            className="mt-2 px-2 text-xs text-foreground/60 hover:text-foreground"
+          >
+            {showAll ? "Show fewer" : `Show all ${rows.length} clients`}
+          </button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
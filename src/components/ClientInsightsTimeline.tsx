@@ -0,0 +1,264 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  TRANSCRIPT_INSIGHT_KINDS,
+  TRANSCRIPT_INSIGHT_KIND_LABELS,
+  type InsightSentiment,
+  type TranscriptInsightKind,
+} from "../../convex/utils/transcriptInsights";
+import { Badge } from "./ui/badge";
+
+const SENTIMENT_VARIANTS: Record<InsightSentiment, "success" | "default" | "destructive" | "warning"> = {
+  positive: "success",
+  neutral: "default",
+  negative: "destructive",
+  mixed: "warning",
+};
+
+function formatCallDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+type ClientInsightsTimelineProps = {
+  clientId: Id<"clients">;
+  // Switches to the Ad Briefing tab so a contradiction can be resolved there
+  onOpenBriefing?: () => void;
+};
+
+/**
+ * Insights extracted from the client's linked calls, grouped by call, with
+ * anything that contradicts the ad briefing flagged at the top
+ */
+export default function ClientInsightsTimeline({ clientId, onOpenBriefing }: ClientInsightsTimelineProps) {
+  const data = useQuery(api.transcriptInsights.getInsightsForClient, { clientId });
+  const reextract = useMutation(api.transcriptInsights.reextractInsights);
+  const dismissContradiction = useMutation(api.transcriptInsights.dismissContradiction);
+  const extractMissing = useMutation(api.transcriptInsights.extractMissingInsights);
+
+  const [kind, setKind] = React.useState<TranscriptInsightKind | "">("");
+
+  const handleReextract = async (transcriptId: Id<"fireflies_transcripts">) => {
+    try {
+      await reextract({ transcriptId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to extract insights");
+    }
+  };
+
+  const handleExtractMissing = async () => {
+    try {
+      await extractMissing({ clientId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to extract insights");
+    }
+  };
+
+  const handleDismiss = async (insightId: Id<"transcript_insights">) => {
+    try {
+      await dismissContradiction({ insightId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to dismiss");
+    }
+  };
+
+  if (data === undefined) {
+    return <p className="text-xs text-foreground/50 font-light">Loading insights...</p>;
+  }
+
+  const openContradictions = data.insights.filter(
+    (insight) => insight.contradiction && insight.contradictionDismissedAt === undefined
+  );
+
+  // One timeline entry per call; the sentiment insight becomes the call's badge
+  const calls: Array<{
+    transcriptId: Id<"fireflies_transcripts">;
+    title: string;
+    occurredAt: number;
+    sentiment?: InsightSentiment;
+    insights: typeof data.insights;
+  }> = [];
+  for (const insight of data.insights) {
+    let call = calls.find((entry) => entry.transcriptId === insight.transcriptId);
+    if (!call) {
+      call = {
+        transcriptId: insight.transcriptId,
+        title: insight.transcriptTitle,
+        occurredAt: insight.occurredAt,
+        insights: [],
+      };
+      calls.push(call);
+    }
+    if (insight.kind === "sentiment") {
+      call.sentiment = insight.sentiment;
+    } else if (!kind || insight.kind === kind) {
+      call.insights.push(insight);
+    }
+  }
+  const visibleCalls = kind ? calls.filter((call) => call.insights.length > 0) : calls;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-foreground/80">Meeting insights</p>
+          <p className="text-xs text-foreground/60 font-light">
+            Objections, offers, pricing changes, testimonials and action items pulled from every linked call.
+          </p>
+        </div>
+        <select
+          className="rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as TranscriptInsightKind | "")}
+        >
+          <option value="">All insights</option>
+          {TRANSCRIPT_INSIGHT_KINDS.filter((option) => option !== "sentiment").map((option) => (
+            <option key={option} value={option}>
+              {TRANSCRIPT_INSIGHT_KIND_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {openContradictions.length > 0 && (
+        <div className="space-y-2 rounded-md border border-destructive/30 bg-destructive/5 p-3">
+          <p className="flex items-center gap-2 text-xs font-medium text-destructive">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {openContradictions.length === 1
+              ? "1 statement from a call contradicts the ad briefing"
+              : `${openContradictions.length} statements from calls contradict the ad briefing`}
+          </p>
+          <ul className="space-y-2">
+            {openContradictions.map((insight) => (
+              <li key={insight._id} className="flex items-start justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <p className="text-foreground/80">
+                    <span className="font-medium">{insight.contradiction!.briefingField}:</span>{" "}
+                    {insight.contradiction!.explanation}
+                  </p>
+                  <p className="text-foreground/50">
+                    {insight.transcriptTitle} · {formatCallDate(insight.occurredAt)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {onOpenBriefing && (
+                    <button type="button" onClick={onOpenBriefing} className="text-foreground/60 hover:text-foreground">
+                      Open briefing
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDismiss(insight._id)}
+                    className="text-foreground/60 hover:text-foreground"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {data.notExtractedCount > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs text-foreground/60">
+          <span>
+            {data.notExtractedCount === 1
+              ? "1 call was linked before insights were extracted."
+              : `${data.notExtractedCount} calls were linked before insights were extracted.`}
+          </span>
+          <button
+            type="button"
+            onClick={handleExtractMissing}
+            className="shrink-0 rounded-md border border-foreground/15 px-3 py-1.5 hover:bg-foreground/5"
+          >
+            Extract insights
+          </button>
+        </div>
+      )}
+
+      {data.extractions.length > 0 && (
+        <ul className="space-y-1">
+          {data.extractions.map((extraction) => (
+            <li key={extraction.transcriptId} className="flex items-center justify-between gap-2 text-xs">
+              <span className={extraction.status === "error" ? "text-destructive" : "text-foreground/50"}>
+                {extraction.status === "pending"
+                  ? `Extracting insights from "${extraction.title}"...`
+                  : `Couldn't extract insights from "${extraction.title}": ${extraction.error ?? "unknown error"}`}
+              </span>
+              {extraction.status === "error" && (
+                <button
+                  type="button"
+                  onClick={() => handleReextract(extraction.transcriptId)}
+                  className="shrink-0 text-foreground/60 hover:text-foreground"
+                >
+                  Retry
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {visibleCalls.length === 0 ? (
+        <p className="text-xs text-foreground/50 font-light">
+          {kind ? "No insights of this kind yet" : "No insights yet. They're extracted when a transcript is linked."}
+        </p>
+      ) : (
+        <ol className="space-y-4 border-l border-foreground/10 pl-4">
+          {visibleCalls.map((call) => (
+            <li key={call.transcriptId} className="relative space-y-2">
+              <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-foreground/30" />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-foreground/50">{formatCallDate(call.occurredAt)}</span>
+                <span className="text-sm font-medium">{call.title}</span>
+                {call.sentiment && (
+                  <Badge variant={SENTIMENT_VARIANTS[call.sentiment]} size="sm">
+                    {call.sentiment}
+                  </Badge>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleReextract(call.transcriptId)}
+                  className="ml-auto text-foreground/40 hover:text-foreground/80"
+                  aria-label="Extract insights again"
+                  title="Extract insights again"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                </button>
+              </div>
+              <ul className="space-y-2">
+                {call.insights.map((insight) => (
+                  <li key={insight._id} className="space-y-1 text-xs">
+                    <div className="flex items-start gap-2">
+                      <Badge variant="outline" size="sm" className="shrink-0">
+                        {TRANSCRIPT_INSIGHT_KIND_LABELS[insight.kind]}
+                      </Badge>
+                      <span className="text-foreground/80">{insight.summary}</span>
+                    </div>
+                    {insight.quote && <p className="pl-2 italic text-foreground/60">&ldquo;{insight.quote}&rdquo;</p>}
+                    {insight.contradiction && (
+                      <p
+                        className={`flex items-center gap-1 pl-2 ${
+                          insight.contradictionDismissedAt === undefined ? "text-destructive" : "text-foreground/40"
+                        }`}
+                      >
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                        Contradicts briefing ({insight.contradiction.briefingField})
+                        {insight.contradictionDismissedAt !== undefined && " · dismissed"}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { LinkAliasKind } from "../../convex/utils/clientResolution";
+import { X } from "lucide-react";
+import { Badge } from "./ui/badge";
+
+const KIND_LABELS: Record<LinkAliasKind, string> = {
+  email: "Participant email",
+  domain: "Email domain",
+  title: "Meeting title",
+};
+
+const KIND_PLACEHOLDERS: Record<LinkAliasKind, string> = {
+  email: "jane@acme.com",
+  domain: "acme.com",
+  title: "Acme weekly sync",
+};
+
+/**
+ * Alias rules that link a client's transcripts automatically. Most are learned
+ * from manual links; they can be added or removed here.
+ */
+export default function ClientLinkAliases({ clientId }: { clientId: Id<"clients"> }) {
+  const aliases = useQuery(api.linkAliases.getAliasesForClient, { clientId });
+  const addAlias = useMutation(api.linkAliases.addAlias);
+  const removeAlias = useMutation(api.linkAliases.removeAlias);
+
+  const [kind, setKind] = React.useState<LinkAliasKind>("email");
+  const [value, setValue] = React.useState("");
+  const [isAdding, setIsAdding] = React.useState(false);
+
+  const handleAdd = async () => {
+    if (!value.trim()) return;
+    setIsAdding(true);
+    try {
+      await addAlias({ clientId, kind, value: value.trim() });
+      setValue("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add rule");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (aliasId: Id<"link_aliases">) => {
+    try {
+      await removeAlias({ aliasId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to remove rule");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-foreground/80">Linking rules</p>
+        <p className="text-xs text-foreground/60 font-light">
+          Transcripts matching a rule are linked to this client before the AI is asked. Rules are learned whenever a
+          transcript is linked here by hand.
+        </p>
+      </div>
+
+      {aliases === undefined ? (
+        <p className="text-xs text-foreground/50 font-light">Loading rules...</p>
+      ) : aliases.length === 0 ? (
+        <p className="text-xs text-foreground/50 font-light">No rules yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {aliases.map((alias) => (
+            <li
+              key={alias._id}
+              className="flex items-center justify-between gap-2 rounded-md border border-foreground/10 px-3 py-1.5 text-xs"
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="text-foreground/50 shrink-0">{KIND_LABELS[alias.kind]}</span>
+                <span className="font-mono truncate">{alias.value}</span>
+                {alias.source === "learned" && (
+                  <Badge variant="default" size="sm">
+                    Learned
+                  </Badge>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(alias._id)}
+                className="text-foreground/40 hover:text-foreground/80"
+                aria-label="Remove rule"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <select
+          className="rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as LinkAliasKind)}
+        >
+          {(Object.keys(KIND_LABELS) as LinkAliasKind[]).map((option) => (
+            <option key={option} value={option}>
+              {KIND_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder={KIND_PLACEHOLDERS[kind]}
+          className="flex-1 rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={isAdding || !value.trim()}
+          className="px-3 py-2 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+        >
+          {isAdding ? "Adding..." : "Add rule"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatTimestamp } from "../../convex/utils/transcriptSentences";
+import { X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import TranscriptViewer from "./TranscriptViewer";
+
+/**
+ * Quotes saved from this client's calls. Script generation includes them as
+ * lines it can cite word for word.
+ */
+export default function ClientSoundbites({ clientId }: { clientId: Id<"clients"> }) {
+  const soundbites = useQuery(api.soundbites.getSoundbitesForClient, { clientId });
+  const deleteSoundbite = useMutation(api.soundbites.deleteSoundbite);
+
+  // The call a soundbite came from, opened at the quote
+  const [openCall, setOpenCall] = React.useState<{ transcriptId: string; sentenceIndex: number } | null>(null);
+  const openTranscript = useQuery(
+    api.fireflies.getTranscriptById,
+    openCall ? { transcriptId: openCall.transcriptId } : "skip"
+  );
+
+  const handleRemove = async (soundbiteId: Id<"transcript_soundbites">) => {
+    try {
+      await deleteSoundbite({ soundbiteId });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to remove soundbite");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-foreground/80">Soundbites</p>
+        <p className="text-xs text-foreground/60 font-light">
+          Highlight a quote while reading a transcript to save it here. Generated scripts can quote soundbites word for
+          word.
+        </p>
+      </div>
+
+      {soundbites === undefined ? (
+        <p className="text-xs text-foreground/50 font-light">Loading soundbites...</p>
+      ) : soundbites.length === 0 ? (
+        <p className="text-xs text-foreground/50 font-light">No soundbites yet</p>
+      ) : (
+        <ul className="space-y-2">
+          {soundbites.map((soundbite) => (
+            <li
+              key={soundbite._id}
+              className="flex items-start justify-between gap-2 rounded-md border border-foreground/10 px-3 py-2 text-xs"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm text-foreground/90">&ldquo;{soundbite.quote}&rdquo;</p>
+                {soundbite.note && <p className="text-foreground/60">{soundbite.note}</p>}
+                <p className="text-foreground/50">
+                  {soundbite.speakerName && <>{soundbite.speakerName} · </>}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setOpenCall({ transcriptId: soundbite.transcript.transcriptId, sentenceIndex: soundbite.startIndex })
+                    }
+                    className="underline-offset-2 hover:text-foreground hover:underline"
+                  >
+                    {soundbite.transcript.title}
+                    {soundbite.startTime !== undefined && ` at ${formatTimestamp(soundbite.startTime)}`}
+                  </button>
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(soundbite._id)}
+                className="shrink-0 text-foreground/40 hover:text-foreground/80"
+                aria-label="Remove soundbite"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openCall && (
+        <Dialog open={true} onOpenChange={(open) => !open && setOpenCall(null)}>
+          <DialogContent className="sm:max-h-[90vh] sm:max-w-3xl overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="text-base">{openTranscript?.title ?? "Transcript"}</DialogTitle>
+              <DialogDescription className="sr-only">Transcript the soundbite was saved from</DialogDescription>
+            </DialogHeader>
+            {openTranscript === undefined ? (
+              <p className="text-xs text-foreground/50">Loading transcript...</p>
+            ) : openTranscript === null ? (
+              <p className="text-xs text-foreground/50">This transcript no longer exists.</p>
+            ) : (
+              <TranscriptViewer transcript={openTranscript} initialSentenceIndex={openCall.sentenceIndex} />
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
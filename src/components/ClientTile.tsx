@@ -17,6 +17,7 @@ type ClientTileProps = {
     // Enriched fields from getClientsWithScheduleSummary
     lastCallDate?: number | null;
     nextScriptDate?: number | null;
+    openCommentCount?: number;
   };
 };
 
@@ -75,6 +76,11 @@ export default function ClientTile({ client }: ClientTileProps) {
           >
             {status.charAt(0).toUpperCase() + status.slice(1)}
           </span>
+          {!!client.openCommentCount && (
+            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border border-blue-500/30 text-blue-700 dark:text-blue-300">
+              {client.openCommentCount} open comment{client.openCommentCount === 1 ? "" : "s"}
+            </span>
+          )}
         </div>
 
         {/* Dates */}
@@ -36,6 +36,8 @@ declare module "@tanstack/react-table" {
 
 type ClientStatus = "active" | "paused" | "inactive";
 
+type HealthLevel = "healthy" | "watch" | "at_risk";
+
 type ClientRow = {
   id: string;
   businessName: string;
@@ -45,6 +47,8 @@ type ClientRow = {
   lastCallDate: number | null;
   lastScriptDate: number | null;
   nextScriptDate: number | null;
+  healthScore: number;
+  healthLevel: HealthLevel;
 };
 
 type ClientsTableProps = {
@@ -117,6 +121,26 @@ const columns: ColumnDef<ClientRow>[] = [
       );
     },
   },
+  {
+    header: "Health",
+    accessorKey: "healthScore",
+    size: 90,
+    minSize: 60,
+    sortDescFirst: false,
+    cell: ({ row }) => {
+      const styles = {
+        healthy: "bg-green-600/10 text-green-600 dark:bg-green-400/10 dark:text-green-400",
+        watch: "bg-amber-600/10 text-amber-600 dark:bg-amber-400/10 dark:text-amber-400",
+        at_risk: "bg-destructive/10 text-destructive",
+      }[row.original.healthLevel];
+
+      return (
+        <span className={cn("inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium", styles)}>
+          {row.original.healthScore}
+        </span>
+      );
+    },
+  },
   {
     header: "Days Until Next Script",
     accessorKey: "nextScriptDate",
@@ -234,6 +258,8 @@ const ClientsTable = ({ email, searchQuery, filter, sortByScriptDate }: ClientsT
         lastCallDate: client.lastCallDate ?? null,
         lastScriptDate: client.lastScriptDate ?? null,
         nextScriptDate: client.nextScriptDate ?? null,
+        healthScore: client.healthScore,
+        healthLevel: client.healthLevel,
       };
     });
 
@@ -354,12 +380,19 @@ const ClientsTable = ({ email, searchQuery, filter, sortByScriptDate }: ClientsT
                     className="relative h-11 select-none text-[11px] font-medium text-foreground/60"
                     style={{ width: header.getSize(), minWidth: header.getSize(), maxWidth: header.getSize() }}
                   >
-                    {header.isPlaceholder
-                      ? null
-                      : flexRender(
+                    {header.isPlaceholder ? null : (
+                      <button
+                        type="button"
+                        onClick={header.column.getToggleSortingHandler()}
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                      >
+                        {flexRender(
                           header.column.columnDef.header,
                           header.getContext()
                         )}
+                        {{ asc: "↑", desc: "↓" }[header.column.getIsSorted() as string] ?? null}
+                      </button>
+                    )}
                     {header.column.getCanResize() && (
                       <div
                         onMouseDown={header.getResizeHandler()}
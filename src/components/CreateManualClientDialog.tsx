@@ -14,6 +14,7 @@ import {
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Checkbox } from "./ui/checkbox";
+import { ContactFieldInputs, EMPTY_CONTACT, type ContactFields } from "./ClientContactsEditor";
 
 type FormField = {
   id: string;
@@ -42,6 +43,7 @@ export default function CreateManualClientDialog({
   const [loading, setLoading] = React.useState(false);
   const [loadingFormQuestions, setLoadingFormQuestions] = React.useState(false);
   const [formData, setFormData] = React.useState<Record<string, string>>({});
+  const [contacts, setContacts] = React.useState<ContactFields[]>([]);
   const [generateScriptImmediately, setGenerateScriptImmediately] = React.useState(true);
   const [schedule, setSchedule] = React.useState<string[]>(["offset25", "monthly"]); // default = standard
   const [manualMonthlyStart, setManualMonthlyStart] = React.useState<string>("");
@@ -100,6 +102,7 @@ export default function CreateManualClientDialog({
   React.useEffect(() => {
     if (!open) {
       setFormData({});
+      setContacts([]);
       setError(null);
       setGenerateScriptImmediately(true);
       setSchedule(["offset25", "monthly"]);
@@ -293,6 +296,15 @@ export default function CreateManualClientDialog({
         contactLastName: contactLastName.trim() || undefined,
         targetRevenue,
         website: website.trim() || undefined,
+        contacts: contacts
+          .filter((contact) => contact.firstName.trim())
+          .map((contact) => ({
+            firstName: contact.firstName,
+            lastName: contact.lastName || undefined,
+            email: contact.email || undefined,
+            phone: contact.phone || undefined,
+            role: contact.role,
+          })),
         generateScriptImmediately,
         enableCronJobs,
         cronJobBaseTime: monthlyStartTime || cronJobBaseTime,
@@ -480,6 +492,46 @@ export default function CreateManualClientDialog({
             </div>
           ) : null}
 
+          {/* Additional contacts; the name above becomes the primary contact */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold tracking-tight text-foreground">Additional contacts</h3>
+              <button
+                type="button"
+                onClick={() => setContacts((prev) => [...prev, { ...EMPTY_CONTACT, role: "marketing" }])}
+                className="text-xs text-foreground/60 hover:text-foreground/80"
+              >
+                + Add contact
+              </button>
+            </div>
+            {contacts.length === 0 ? (
+              <p className="text-xs text-foreground/50">
+                Add the client&apos;s bookkeeper, marketing manager or anyone else who joins calls.
+              </p>
+            ) : (
+              contacts.map((contact, index) => (
+                <div key={index} className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <ContactFieldInputs
+                      value={contact}
+                      onChange={(value) =>
+                        setContacts((prev) => prev.map((existing, i) => (i === index ? value : existing)))
+                      }
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setContacts((prev) => prev.filter((_, i) => i !== index))}
+                    className="px-2 py-2 text-xs text-foreground/40 hover:text-foreground/80"
+                    aria-label="Remove contact"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
           {/* Script Generation Section */}
           <div className="pt-4 border-t border-foreground/10 space-y-6">
             <h3 className="text-sm font-semibold tracking-tight text-foreground">
@@ -133,7 +133,7 @@ export default function DashboardClient({ email }: DashboardClientProps) {
     setFormFields(null);
     
     // Fetch forms list if we have access token and haven't loaded yet
-    if (typeformConfig?.accessToken && forms.length === 0 && !formsLoading) {
+    if (typeformConfig?.maskedAccessToken && forms.length === 0 && !formsLoading) {
       setFormsLoading(true);
       try {
         const fetchedForms = await fetchForms({ email });
@@ -1,8 +1,10 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { useMutation, useQuery, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { computeHMAC } from "@/lib/webhookSignature";
 import {
   Dialog,
   DialogContent,
@@ -16,13 +18,15 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
   const cfg = useQuery(api.fireflies.getConfigForEmail, { email });
   const transcripts = useQuery(api.fireflies.getAllTranscriptsForEmail, { email });
   const latestWebhook = useQuery(api.fireflies.getLatestWebhookForEmail, { email });
-  const setApiKey = useMutation(api.fireflies.setApiKeyForEmail);
+  const setCredential = useAction(api.credentialsActions.setCredentialForEmail);
   const setWebhookSecret = useMutation(api.fireflies.setWebhookSecretForEmail);
+  const rotateWebhookToken = useMutation(api.fireflies.rotateWebhookTokenForEmail);
   const syncTranscripts = useAction(api.firefliesActions.syncFirefliesTranscripts);
   const createTestTranscript = useAction(api.firefliesActions.createTestTranscript);
   
   const [pending, setPending] = React.useState(false);
   const [secretPending, setSecretPending] = React.useState(false);
+  const [rotatePending, setRotatePending] = React.useState(false);
   const [testWebhookPending, setTestWebhookPending] = React.useState(false);
   const [syncPending, setSyncPending] = React.useState(false);
   const [syncResult, setSyncResult] = React.useState<{ synced: number; skipped: number; total: number } | null>(null);
@@ -40,16 +44,17 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
   const [copied, setCopied] = React.useState<"endpoint" | "secret" | null>(null);
   const [tick, setTick] = React.useState(0);
   
-  const endpoint = `${appUrl}/api/fireflies/webhook?user=${encodeURIComponent(email)}`;
+  const endpoint = cfg?.webhookToken ? `${appUrl}/api/fireflies/webhook/${cfg.webhookToken}` : "";
 
-  // Initialize API key input when config loads
+  // The API key is write-only: the input shows its masked suffix until it's replaced
+  const maskedApiKey = cfg?.maskedApiKey ?? null;
   React.useEffect(() => {
-    if (cfg?.apiKey && apiKeyValue === "") {
-      setApiKeyValue("••••••••");
-    } else if (!cfg?.apiKey && apiKeyValue === "••••••••") {
+    if (maskedApiKey && (apiKeyValue === "" || apiKeyValue.startsWith("••••••••"))) {
+      setApiKeyValue(maskedApiKey);
+    } else if (!maskedApiKey && apiKeyValue.startsWith("••••••••")) {
       setApiKeyValue("");
     }
-  }, [cfg?.apiKey]);
+  }, [maskedApiKey, cfg?.updatedAt]);
 
   // Initialize webhook secret input when config loads
   React.useEffect(() => {
@@ -61,13 +66,14 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
   }, [cfg?.webhookSecret]);
 
   const saveApiKey = React.useCallback(async () => {
-    if (!apiKeyValue || apiKeyValue.trim() === "" || apiKeyValue === "••••••••") {
+    if (!apiKeyValue || apiKeyValue.trim() === "" || apiKeyValue === maskedApiKey) {
       return;
     }
     const keyToSave = apiKeyValue.trim();
     setPending(true);
     try {
-      await setApiKey({ email, apiKey: keyToSave });
+      await setCredential({ email, kind: "fireflies_api_key", value: keyToSave });
+      // Replaced by the new masked key once the config reloads
       setApiKeyValue("••••••••");
       setShowUpdateKeyDialog(false);
     } catch (error) {
@@ -76,7 +82,7 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
     } finally {
       setPending(false);
     }
-  }, [email, apiKeyValue, setApiKey]);
+  }, [email, apiKeyValue, maskedApiKey, setCredential]);
 
   const handleUpdateKeyConfirm = React.useCallback(() => {
     setApiKeyValue("");
@@ -232,7 +238,23 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
     await saveWebhookSecret();
   }, [webhookSecretValue, saveWebhookSecret]);
 
+  const rotateEndpoint = React.useCallback(async () => {
+    if (cfg?.webhookToken && !confirm("Rotate the webhook URL? Fireflies must be updated with the new URL; the old one stops working.")) {
+      return;
+    }
+    setRotatePending(true);
+    try {
+      await rotateWebhookToken({ email });
+    } catch (error) {
+      console.error("Failed to rotate webhook URL:", error);
+      alert(error instanceof Error ? error.message : "Failed to rotate webhook URL");
+    } finally {
+      setRotatePending(false);
+    }
+  }, [email, cfg?.webhookToken, rotateWebhookToken]);
+
   const copyEndpoint = React.useCallback(async () => {
+    if (!endpoint) return;
     await navigator.clipboard.writeText(endpoint);
     setCopied("endpoint");
     setTimeout(() => setCopied(null), 2000);
@@ -250,6 +272,10 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
       alert("Please paste your webhook secret from Fireflies AI first");
       return;
     }
+    if (!endpoint) {
+      alert("Please generate a webhook URL first");
+      return;
+    }
     
     setTestWebhookPending(true);
     try {
@@ -263,18 +289,7 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
         status: "completed",
       };
 
-      // Compute signature
-      const hmac = await crypto.subtle.importKey(
-        "raw",
-        new TextEncoder().encode(cfg.webhookSecret),
-        { name: "HMAC", hash: "SHA-256" },
-        false,
-        ["sign"]
-      );
-      const signature = await crypto.subtle.sign("HMAC", hmac, new TextEncoder().encode(JSON.stringify(testPayload)));
-      const signatureHex = Array.from(new Uint8Array(signature))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join("");
+      const signatureHex = await computeHMAC(JSON.stringify(testPayload), cfg.webhookSecret);
 
       // Send test webhook
       // Fireflies uses x-hub-signature header with sha256= prefix
@@ -355,20 +370,20 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
             <input
               type="text"
               className={`w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm font-mono ${
-                apiKeyValue === "••••••••" && cfg?.apiKey ? "cursor-pointer" : ""
+                maskedApiKey && apiKeyValue === maskedApiKey ? "cursor-pointer" : ""
               }`}
               value={apiKeyValue}
               onChange={(e) => {
                 setApiKeyValue(e.target.value);
               }}
               onFocus={(e) => {
-                if (apiKeyValue === "••••••••" && cfg?.apiKey) {
+                if (maskedApiKey && apiKeyValue === maskedApiKey) {
                   e.target.blur();
                   setShowUpdateKeyDialog(true);
                 }
               }}
               onClick={(e) => {
-                if (apiKeyValue === "••••••••" && cfg?.apiKey) {
+                if (maskedApiKey && apiKeyValue === maskedApiKey) {
                   e.preventDefault();
                   setShowUpdateKeyDialog(true);
                 }
@@ -377,10 +392,10 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
             />
             <button
               onClick={saveApiKey}
-              disabled={pending || !apiKeyValue || apiKeyValue === "••••••••" || apiKeyValue.trim() === ""}
+              disabled={pending || !apiKeyValue || apiKeyValue === maskedApiKey || apiKeyValue.trim() === ""}
               className="px-4 py-2 text-sm rounded-md border border-foreground/15 bg-background hover:bg-foreground/5 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150"
             >
-              {pending ? "Saving..." : cfg?.apiKey ? "Update" : "Save"}
+              {pending ? "Saving..." : maskedApiKey ? "Update" : "Save"}
             </button>
           </div>
           <p className="text-xs text-foreground/60">
@@ -404,11 +419,20 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
               <input
                 className="w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
                 value={endpoint}
+                placeholder="No webhook URL yet"
                 readOnly
               />
+              <button
+                onClick={rotateEndpoint}
+                disabled={rotatePending}
+                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+              >
+                {cfg?.webhookToken ? "Rotate" : "Generate"}
+              </button>
               <button
                 onClick={copyEndpoint}
-                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 transition-all duration-150 relative overflow-hidden flex items-center justify-center"
+                disabled={!endpoint}
+                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50 transition-all duration-150 relative overflow-hidden flex items-center justify-center"
               >
                 <span className={`inline-block transition-all duration-200 ${copied === "endpoint" ? "animate-elastic-bounce scale-110" : ""}`}>
                   {copied === "endpoint" ? "Copied!" : "Copy"}
@@ -460,10 +484,15 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
               </button>
             </div>
           </div>
+          {cfg !== undefined && !cfg?.webhookSecret && (
+            <p className="rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+              Webhooks are rejected until a secret is set. Paste the secret Fireflies shows for your webhook.
+            </p>
+          )}
           <p className="text-xs text-foreground/60">
-            Add this endpoint to your Fireflies AI webhook settings and paste the webhook secret that Fireflies provides. The secret will be used to verify incoming webhooks.
+            Add this endpoint to your Fireflies AI webhook settings and paste the webhook secret that Fireflies provides. Every request must be signed with it. Webhooks act as whoever last generated the URL. <Link href="/webhooks" className="underline hover:text-foreground/80 transition-colors">View deliveries</Link>
           </p>
-          {cfg?.webhookSecret && (
+          {cfg?.webhookSecret && endpoint && (
             <div className="space-y-2">
               <button
                 onClick={sendTestWebhook}
@@ -500,7 +529,7 @@ export default function FirefliesSettingsCard({ email, appUrl }: { email: string
           )}
         </div>
 
-        {cfg?.apiKey && (
+        {maskedApiKey && (
           <div className="pt-4 border-t border-foreground/10 space-y-4">
             <div className="flex items-center justify-between">
               <div>
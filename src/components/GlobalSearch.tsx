@@ -0,0 +1,259 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useAction, useQuery } from "convex/react";
+import { Command } from "cmdk";
+import { Search } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  SEARCH_SOURCES,
+  SEARCH_SOURCE_LABELS,
+  type SearchResult,
+  type SearchSnippet,
+  type SearchSource,
+} from "../../convex/utils/search";
+import { Dialog, DialogContent, DialogTitle } from "./ui/dialog";
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SELECT_CLASS = "rounded-md border border-foreground/15 bg-background px-2 py-1 text-xs";
+
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], index) => {
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="rounded-sm bg-yellow-200/70 px-0.5 text-foreground dark:bg-yellow-500/30">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
+
+/**
+ * ⌘K palette searching transcripts, onboarding responses, scripts and client
+ * notes, by keyword or (when the organization has it on) by meaning
+ */
+export default function GlobalSearch({ email }: { email: string }) {
+  const router = useRouter();
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState("");
+  const [debouncedQuery, setDebouncedQuery] = React.useState("");
+  const [mode, setMode] = React.useState<"keyword" | "semantic">("keyword");
+  const [source, setSource] = React.useState<SearchSource | "">("");
+  const [clientId, setClientId] = React.useState<Id<"clients"> | "">("");
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+
+  const [semanticResults, setSemanticResults] = React.useState<SearchResult[] | undefined>(undefined);
+  const [semanticError, setSemanticError] = React.useState<string | null>(null);
+
+  const settings = useQuery(api.search.getSearchSettingsForEmail, open ? { email } : "skip");
+  const clients = useQuery(api.clients.getAllClientsForOwner, open ? { ownerEmail: email } : "skip");
+  const semanticSearch = useAction(api.searchActions.semanticSearch);
+
+  React.useEffect(() => {
+    const down = (e: KeyboardEvent) => {
+      if (e.key === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(true);
+      }
+    };
+    document.addEventListener("keydown", down);
+    return () => document.removeEventListener("keydown", down);
+  }, []);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const filters = React.useMemo(
+    () => ({
+      source: source || undefined,
+      clientId: clientId || undefined,
+      from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+    }),
+    [source, clientId, from, to]
+  );
+
+  const isSemantic = mode === "semantic" && settings?.semanticSearchEnabled === true;
+
+  const keywordResults = useQuery(
+    api.search.searchForEmail,
+    open && !isSemantic && debouncedQuery ? { email, query: debouncedQuery, ...filters } : "skip"
+  );
+
+  React.useEffect(() => {
+    if (!open || !isSemantic || !debouncedQuery) {
+      setSemanticResults(undefined);
+      return;
+    }
+    let cancelled = false;
+    setSemanticResults(undefined);
+    setSemanticError(null);
+    semanticSearch({ email, query: debouncedQuery, ...filters })
+      .then((results) => {
+        if (!cancelled) setSemanticResults(results);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setSemanticError(error instanceof Error ? error.message : "Semantic search failed");
+          setSemanticResults([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, isSemantic, debouncedQuery, filters, email, semanticSearch]);
+
+  const results = isSemantic ? semanticResults : keywordResults;
+  const isLoading = Boolean(debouncedQuery) && results === undefined;
+
+  const grouped = SEARCH_SOURCES.map((groupSource) => ({
+    source: groupSource,
+    results: (results ?? []).filter((result) => result.source === groupSource),
+  })).filter((group) => group.results.length > 0);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    router.push(result.href);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="p-1 text-foreground/60 hover:text-foreground cursor-pointer"
+        aria-label="Search"
+        title="Search (⌘K)"
+      >
+        <Search className="h-4 w-4" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="top-[35%] max-w-2xl overflow-hidden p-0">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          <Command shouldFilter={false} className="flex flex-col">
+            <div className="flex items-center gap-2 border-b border-foreground/10 px-3">
+              <Search className="h-4 w-4 shrink-0 text-foreground/50" />
+              <Command.Input
+                value={query}
+                onValueChange={setQuery}
+                placeholder={isSemantic ? "Describe what was said..." : "Search transcripts, responses, scripts, notes..."}
+                className="h-11 w-full bg-transparent text-sm outline-none placeholder:text-foreground/40"
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 border-b border-foreground/10 px-3 py-2">
+              {settings?.semanticSearchEnabled && (
+                <select
+                  className={SELECT_CLASS}
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as "keyword" | "semantic")}
+                >
+                  <option value="keyword">Keyword</option>
+                  <option value="semantic">Semantic</option>
+                </select>
+              )}
+              <select
+                className={SELECT_CLASS}
+                value={source}
+                onChange={(e) => setSource(e.target.value as SearchSource | "")}
+              >
+                <option value="">All sources</option>
+                {SEARCH_SOURCES.map((option) => (
+                  <option key={option} value={option}>
+                    {SEARCH_SOURCE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+              <select
+                className={`${SELECT_CLASS} max-w-40`}
+                value={clientId}
+                onChange={(e) => setClientId(e.target.value as Id<"clients"> | "")}
+              >
+                <option value="">All clients</option>
+                {(clients ?? []).map((client) => (
+                  <option key={client._id} value={client._id}>
+                    {client.businessName}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                className={SELECT_CLASS}
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                aria-label="From date"
+              />
+              <span className="text-xs text-foreground/40">–</span>
+              <input
+                type="date"
+                className={SELECT_CLASS}
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                aria-label="To date"
+              />
+            </div>
+
+            <Command.List className="max-h-[420px] overflow-y-auto p-1">
+              {!debouncedQuery ? (
+                <p className="px-3 py-6 text-center text-xs text-foreground/50">
+                  Search what was said in calls, answered in onboarding, written in scripts or noted about clients.
+                </p>
+              ) : isLoading ? (
+                <Command.Loading>
+                  <p className="px-3 py-6 text-center text-xs text-foreground/50">Searching...</p>
+                </Command.Loading>
+              ) : semanticError && isSemantic ? (
+                <p className="px-3 py-6 text-center text-xs text-red-500">{semanticError}</p>
+              ) : (
+                <Command.Empty className="px-3 py-6 text-center text-xs text-foreground/50">
+                  No results found.
+                </Command.Empty>
+              )}
+
+              {grouped.map((group) => (
+                <Command.Group
+                  key={group.source}
+                  heading={SEARCH_SOURCE_LABELS[group.source]}
+                  className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:py-1.5 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:text-foreground/50"
+                >
+                  {group.results.map((result) => (
+                    <Command.Item
+                      key={`${result.source}:${result.sourceId}`}
+                      value={`${result.source}:${result.sourceId}`}
+                      onSelect={() => handleSelect(result)}
+                      className="cursor-pointer space-y-1 rounded-md px-2 py-2 aria-selected:bg-foreground/5"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate text-sm font-medium">{result.title}</span>
+                        <span className="shrink-0 text-[10px] text-foreground/50">
+                          {result.clientName ? `${result.clientName} · ` : ""}
+                          {new Date(result.date).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="line-clamp-2 text-xs text-foreground/70">
+                        <HighlightedSnippet snippet={result.snippet} />
+                      </p>
+                    </Command.Item>
+                  ))}
+                </Command.Group>
+              ))}
+            </Command.List>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
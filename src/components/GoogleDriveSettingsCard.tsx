@@ -52,7 +52,7 @@ export default function GoogleDriveSettingsCard({ email }: { email: string }) {
     }
   };
 
-  const isConnected = !!(cfg?.accessToken && cfg?.refreshToken);
+  const isConnected = !!cfg?.connected;
 
   return (
     <div className="rounded-lg border border-foreground/10 p-6 space-y-4">
@@ -9,6 +9,7 @@ import { Label } from "./ui/label";
 import { Card } from "./ui/card";
 import { Plus, Trash2, Loader2, Calendar } from "lucide-react";
 import { useRouter } from "next/navigation";
+import ClientFileImport from "./ClientFileImport";
 
 type ImportRow = {
   id: string;
@@ -162,6 +163,11 @@ export default function ImportClient({ email }: ImportClientProps) {
           </p>
         </div>
 
+        {/* File Import */}
+        <div className="mb-6">
+          <ClientFileImport email={email} />
+        </div>
+
         {/* Import Form */}
         <Card className="bg-linear-to-br from-background to-background/95 border-foreground/10 shadow-md">
           <div className="p-6 space-y-6">
@@ -0,0 +1,73 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+export default function LinkingSettingsCard({ email }: { email: string }) {
+  const threshold = useQuery(api.organizations.getAutoLinkThresholdForEmail, { email });
+  const setThreshold = useMutation(api.organizations.setAutoLinkThresholdForEmail);
+
+  const [percent, setPercent] = React.useState(85);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (threshold !== undefined) {
+      setPercent(Math.round(threshold * 100));
+    }
+  }, [threshold]);
+
+  const isDirty = threshold !== undefined && percent !== Math.round(threshold * 100);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setThreshold({ email, threshold: percent / 100 });
+    } catch (error) {
+      alert(`Failed to save threshold: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-foreground/10 p-6">
+      <div className="space-y-1">
+        <h2 className="text-lg font-light">Transcript Linking</h2>
+        <p className="text-sm text-foreground/60">
+          Transcripts are scored against every client using participant emails and domains, the meeting title and the
+          AI&apos;s pick. The best client is linked automatically when its score reaches this threshold; otherwise you are
+          asked to choose.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-foreground/70">Auto-link threshold: {percent}%</label>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="range"
+            min={50}
+            max={100}
+            step={1}
+            value={percent}
+            onChange={(e) => setPercent(Number(e.target.value))}
+            disabled={threshold === undefined}
+            className="w-full"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {isSaving ? "Saving…" : "Save"}
+          </button>
+        </div>
+        <p className="text-xs text-foreground/60">
+          Lower links more transcripts without asking but risks wrong matches. An exact participant email scores 100%,
+          an email domain used by only one client 95%.
+        </p>
+      </div>
+    </div>
+  );
+}
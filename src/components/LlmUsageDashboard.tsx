@@ -0,0 +1,259 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { LlmBudgetMode } from "../../convex/utils/llmUsage";
+import { OpenRouterBalance } from "./OpenRouterBalance";
+
+type Totals = { cost: number; totalTokens: number; calls: number };
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function BreakdownTable({
+  title,
+  label,
+  rows,
+}: {
+  title: string;
+  label: string;
+  rows: Array<Totals & { key: string; name: React.ReactNode }>;
+}) {
+  const total = rows.reduce((sum, row) => sum + row.cost, 0);
+  return (
+    <div className="rounded-lg border border-foreground/10 overflow-hidden">
+      <h2 className="px-4 pt-4 pb-2 text-lg font-light">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="px-4 pb-6 text-sm text-foreground/60">No usage this month</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="bg-foreground/5 text-xs text-foreground/60">
+            <tr>
+              <th className="px-4 py-2 text-left font-normal">{label}</th>
+              <th className="px-4 py-2 text-right font-normal">Calls</th>
+              <th className="px-4 py-2 text-right font-normal">Tokens</th>
+              <th className="px-4 py-2 text-right font-normal">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-foreground/10">
+                <td className="px-4 py-2">{row.name}</td>
+                <td className="px-4 py-2 text-right">{row.calls}</td>
+                <td className="px-4 py-2 text-right">{formatTokens(row.totalTokens)}</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {formatCost(row.cost)}
+                  {total > 0 && (
+                    <span className="ml-2 text-xs text-foreground/50">{Math.round((row.cost / total) * 100)}%</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function BudgetCard({
+  email,
+  budget,
+}: {
+  email: string;
+  budget: { budget: number | null; mode: LlmBudgetMode; spent: number };
+}) {
+  const setBudget = useMutation(api.llmUsage.setBudgetForEmail);
+  const [amount, setAmount] = React.useState("");
+  const [mode, setMode] = React.useState<LlmBudgetMode>("warn");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    setAmount(budget.budget === null ? "" : String(budget.budget));
+    setMode(budget.mode);
+  }, [budget.budget, budget.mode]);
+
+  const isDirty = amount !== (budget.budget === null ? "" : String(budget.budget)) || mode !== budget.mode;
+
+  const handleSave = async () => {
+    const monthlyBudget = amount.trim() === "" ? null : Number(amount);
+    if (monthlyBudget !== null && (!Number.isFinite(monthlyBudget) || monthlyBudget < 0)) {
+      alert("Enter a budget in dollars, or leave it empty for no limit.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setBudget({ email, monthlyBudget, mode });
+    } catch (error) {
+      alert(`Failed to save budget: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const percent = budget.budget ? Math.min(100, (budget.spent / budget.budget) * 100) : 0;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-foreground/10 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-lg font-light">Monthly Budget</h2>
+          <p className="text-sm text-foreground/60">
+            Spend across every AI feature, reset on the 1st of each month (UTC). Admins are notified when it&apos;s
+            reached; blocking also stops new AI calls until next month.
+          </p>
+        </div>
+        <OpenRouterBalance />
+      </div>
+
+      {budget.budget !== null && (
+        <div className="space-y-1">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-foreground/10">
+            <div
+              className={`h-full ${percent >= 100 ? "bg-destructive" : percent >= 80 ? "bg-amber-500" : "bg-green-600"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-foreground/60">
+            {formatCost(budget.spent)} of ${budget.budget.toFixed(2)} spent this month
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <div className="flex items-center gap-1">
+          <span className="text-sm text-foreground/70">$</span>
+          <input
+            type="number"
+            min={0}
+            step="1"
+            inputMode="decimal"
+            placeholder="No limit"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-32 rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
+          />
+        </div>
+        <select
+          className="rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as LlmBudgetMode)}
+        >
+          <option value="warn">Warn when reached</option>
+          <option value="block">Block when reached</option>
+        </select>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !isDirty}
+          className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * OpenRouter spend recorded in llm_usage (see convex/utils/llmUsage.ts):
+ * monthly totals, a month's breakdown by client, model and feature, and the
+ * organization's monthly budget
+ */
+export default function LlmUsageDashboard({ email }: { email: string }) {
+  const [month, setMonth] = React.useState<string | undefined>(undefined);
+  const summary = useQuery(api.llmUsage.getUsageSummary, { email, month });
+
+  if (summary === undefined) {
+    return <p className="py-8 text-center text-sm text-foreground/60">Loading...</p>;
+  }
+
+  const maxMonthCost = Math.max(...summary.byMonth.map((row) => row.cost), 0);
+  const { budget } = summary;
+
+  return (
+    <div className="space-y-6">
+      {budget.exceeded && (
+        <div className="rounded-lg border border-destructive/40 bg-destructive/10 px-4 py-3 text-sm">
+          {budget.blocked
+            ? "This month's AI budget has been reached. AI features are blocked until next month or until the budget is raised."
+            : "This month's AI budget has been reached. AI features keep working; raise the budget or switch it to block to stop them."}
+        </div>
+      )}
+
+      <BudgetCard email={email} budget={budget} />
+
+      <div className="rounded-lg border border-foreground/10 p-6">
+        <h2 className="mb-4 text-lg font-light">By Month</h2>
+        <div className="flex h-40 items-end gap-3">
+          {summary.byMonth.map((row) => (
+            <button
+              key={row.month}
+              type="button"
+              onClick={() => setMonth(row.month)}
+              className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+              title={`${row.calls} calls · ${formatTokens(row.totalTokens)} tokens`}
+            >
+              <span className="text-xs text-foreground/70">{formatCost(row.cost)}</span>
+              <div
+                className={`w-full rounded-t-md ${row.month === summary.month ? "bg-blue-500" : "bg-foreground/20 hover:bg-foreground/30"}`}
+                style={{ height: `${maxMonthCost > 0 ? Math.max(2, (row.cost / maxMonthCost) * 100) : 2}%` }}
+              />
+              <span className={`text-xs ${row.month === summary.month ? "font-medium" : "text-foreground/60"}`}>
+                {formatMonth(row.month)}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="lg:col-span-2">
+          <BreakdownTable
+            title={`By Client — ${formatMonth(summary.month)}`}
+            label="Client"
+            rows={summary.byClient.map((row) => ({
+              ...row,
+              key: row.clientId ?? "none",
+              name: row.clientId ? (
+                <Link href={`/dashboard/clients/${row.clientId}`} className="hover:underline">
+                  {row.businessName}
+                </Link>
+              ) : (
+                <span className="text-foreground/60">No client (chat, linking, search)</span>
+              ),
+            }))}
+          />
+        </div>
+        <BreakdownTable
+          title="By Model"
+          label="Model"
+          rows={summary.byModel.map((row) => ({ ...row, key: row.model, name: row.model }))}
+        />
+        <BreakdownTable
+          title="By Feature"
+          label="Feature"
+          rows={summary.byFeature.map((row) => ({ ...row, key: row.feature, name: row.label }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { usePathname } from "next/navigation";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu } from "@/components/ui/dropdown-menu";
 import ThemeToggle from "@/components/ThemeToggle";
+import NotificationBell from "@/components/NotificationBell";
+import GlobalSearch from "@/components/GlobalSearch";
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import * as React from "react";
@@ -131,6 +133,8 @@ export default function Navbar({ user }: { user: NavbarUser | null }) {
         </div>
 
         <div className="flex items-center gap-3">
+          {user && <GlobalSearch email={user.email} />}
+          {user && <NotificationBell email={user.email} />}
           <ThemeToggle />
           <DropdownMenu
             trigger={
@@ -140,6 +144,7 @@ export default function Navbar({ user }: { user: NavbarUser | null }) {
             }
             items={[
               { label: "Settings", href: "/settings" },
+              { label: "AI usage", href: "/usage" },
               { label: "Sign out", onClick: handleSignOut, danger: true },
             ]}
           />
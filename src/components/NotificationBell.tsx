@@ -0,0 +1,89 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { useQuery, useMutation } from "convex/react";
+import { Bell } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+
+export default function NotificationBell({ email }: { email: string }) {
+  const router = useRouter();
+  const [open, setOpen] = React.useState(false);
+  const notifications = useQuery(api.notifications.listForEmail, open ? { email } : "skip");
+  const unreadCount = useQuery(api.notifications.getUnreadCountForEmail, { email });
+  const markRead = useMutation(api.notifications.markRead);
+  const markAllRead = useMutation(api.notifications.markAllReadForEmail);
+
+  const handleOpen = async (notification: Doc<"notifications">) => {
+    if (!notification.readAt) {
+      await markRead({ notificationId: notification._id }).catch((error) => {
+        console.error("Failed to mark notification read:", error);
+      });
+    }
+    if (notification.link) {
+      setOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-1 text-foreground/60 hover:text-foreground cursor-pointer"
+          aria-label="Notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount !== undefined && unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-foreground/10 px-4 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount !== undefined && unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead({ email })}
+              className="text-xs text-foreground/60 hover:text-foreground cursor-pointer"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications === undefined ? (
+            <p className="px-4 py-6 text-center text-xs text-foreground/60">Loading...</p>
+          ) : notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs text-foreground/60">No notifications yet</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification._id}
+                onClick={() => handleOpen(notification)}
+                className={`block w-full border-b border-foreground/5 px-4 py-3 text-left hover:bg-foreground/5 cursor-pointer ${
+                  notification.readAt ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-red-500" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-foreground/70 line-clamp-2">{notification.body}</p>
+                    <p className="mt-1 text-[10px] text-foreground/50">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import * as React from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  type NotificationChannel,
+  type NotificationEvent,
+} from "../../convex/utils/notifications";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+export default function NotificationSettingsCard({ email }: { email: string }) {
+  const preferences = useQuery(api.notifications.getPreferencesForEmail, { email });
+  const savePreferences = useMutation(api.notifications.setPreferencesForEmail);
+  const [channelsByEvent, setChannelsByEvent] = React.useState<Record<string, NotificationChannel[]>>({});
+  const [slackWebhookUrl, setSlackWebhookUrl] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!preferences) return;
+    setChannelsByEvent(
+      Object.fromEntries(preferences.events.map((event) => [event.eventType, event.channels]))
+    );
+    setSlackWebhookUrl(preferences.slackWebhookUrl ?? "");
+  }, [preferences]);
+
+  const toggleChannel = (eventType: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    setChannelsByEvent((current) => {
+      const channels = current[eventType] ?? [];
+      return {
+        ...current,
+        [eventType]: enabled ? [...channels, channel] : channels.filter((c) => c !== channel),
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+    try {
+      await savePreferences({
+        email,
+        events: preferences.events.map((event) => ({
+          eventType: event.eventType,
+          channels: channelsByEvent[event.eventType] ?? [],
+        })),
+        slackWebhookUrl: slackWebhookUrl.trim() || undefined,
+      });
+    } catch (error) {
+      console.error("Failed to save notification settings:", error);
+      alert(error instanceof Error ? error.message : "Failed to save notification settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isAvailable = (channel: NotificationChannel) => {
+    if (!preferences || channel === "inApp") return true;
+    if (channel === "slack") return preferences.available.slack || Boolean(slackWebhookUrl.trim());
+    return preferences.available[channel];
+  };
+
+  return (
+    <div className="rounded-lg border border-foreground/10 p-6 space-y-4">
+      <h2 className="text-lg font-light">Notifications</h2>
+
+      {preferences === undefined ? (
+        <p className="text-sm text-foreground/60">Loading...</p>
+      ) : (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-foreground/60">
+                <th className="py-2 text-left font-normal">Event</th>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <th key={channel} className="py-2 text-center font-normal">
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preferences.events.map((event) => (
+                <tr key={event.eventType} className="border-t border-foreground/5">
+                  <td className="py-2">{event.label}</td>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <td key={channel} className="py-2 text-center">
+                      <Checkbox
+                        checked={(channelsByEvent[event.eventType] ?? []).includes(channel)}
+                        disabled={!isAvailable(channel)}
+                        onCheckedChange={(checked) => toggleChannel(event.eventType, channel, checked === true)}
+                        aria-label={`${event.label} via ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="space-y-2">
+            <Label className="text-sm text-foreground/70">Slack incoming webhook URL</Label>
+            <Input
+              type="url"
+              placeholder="https://hooks.slack.com/services/..."
+              value={slackWebhookUrl}
+              onChange={(e) => setSlackWebhookUrl(e.target.value)}
+            />
+            <p className="text-xs text-foreground/60">
+              {preferences.available.email
+                ? "Emails go to your sign-in address."
+                : "Email is unavailable until SMTP is configured for the deployment."}{" "}
+              {!preferences.available.telegram && "Connect a Telegram chat below to use Telegram."}
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="default" onClick={handleSave} disabled={isSaving} className="cursor-pointer">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
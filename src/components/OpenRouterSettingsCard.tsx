@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { OpenRouterBalance } from "./OpenRouterBalance";
 import { Button } from "./ui/button";
@@ -10,17 +10,11 @@ import { Label } from "./ui/label";
 
 export default function OpenRouterSettingsCard({ email }: { email: string }) {
   const config = useQuery(api.openrouter.getConfigForEmail, { email });
-  const setApiKey = useMutation(api.openrouter.setApiKeyForEmail);
+  const setCredential = useAction(api.credentialsActions.setCredentialForEmail);
   const [apiKeyValue, setApiKeyValue] = React.useState("");
   const [isSaving, setIsSaving] = React.useState(false);
   const [showUpdateDialog, setShowUpdateDialog] = React.useState(false);
 
-  React.useEffect(() => {
-    if (config?.apiKey) {
-      setApiKeyValue(config.apiKey);
-    }
-  }, [config]);
-
   const handleSave = async () => {
     if (!apiKeyValue.trim()) {
       alert("Please enter an API key");
@@ -28,7 +22,9 @@ export default function OpenRouterSettingsCard({ email }: { email: string }) {
     }
     setIsSaving(true);
     try {
-      await setApiKey({ email, apiKey: apiKeyValue.trim() });
+      await setCredential({ email, kind: "openrouter_api_key", value: apiKeyValue.trim() });
+      // The key is write-only; settings only show its masked suffix from now on
+      setApiKeyValue("");
       setShowUpdateDialog(false);
     } catch (error) {
       console.error("Failed to save API key:", error);
@@ -46,12 +42,12 @@ export default function OpenRouterSettingsCard({ email }: { email: string }) {
 
       <div className="space-y-2">
         <Label className="text-sm text-foreground/70">API Key</Label>
-        {config?.apiKey ? (
+        {config?.maskedApiKey ? (
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <Input
-                type="password"
-                value="••••••••••••••••"
+                type="text"
+                value={config.maskedApiKey}
                 disabled
                 className="flex-1"
               />
@@ -66,8 +62,8 @@ export default function OpenRouterSettingsCard({ email }: { email: string }) {
             {showUpdateDialog && (
               <div className="space-y-2 p-3 border border-foreground/10 rounded-md bg-background/50">
                 <Input
-                  type="text"
-                  placeholder="Enter your OpenRouter API key"
+                  type="password"
+                  placeholder="Enter a new OpenRouter API key"
                   value={apiKeyValue}
                   onChange={(e) => setApiKeyValue(e.target.value)}
                   className="w-full"
@@ -86,7 +82,7 @@ export default function OpenRouterSettingsCard({ email }: { email: string }) {
                     variant="outline"
                     onClick={() => {
                       setShowUpdateDialog(false);
-                      setApiKeyValue(config.apiKey || "");
+                      setApiKeyValue("");
                     }}
                     size="sm"
                     className="cursor-pointer"
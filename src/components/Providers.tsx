@@ -1,12 +1,47 @@
 "use client";
 
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ConvexProviderWithAuth, ConvexReactClient } from "convex/react";
 import * as React from "react";
 
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
 const client = convexUrl ? new ConvexReactClient(convexUrl) : null;
 
-export default function Providers({ children }: { children: React.ReactNode }) {
+/**
+ * Signs the Convex client in with the WorkOS session's access token,
+ * which Convex functions use to check who is calling.
+ */
+function useWorkosAuth(isAuthenticated: boolean) {
+  const fetchAccessToken = React.useCallback(
+    async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+      try {
+        const response = await fetch(`/api/auth/token${forceRefreshToken ? "?refresh=1" : ""}`, {
+          cache: "no-store",
+        });
+        if (!response.ok) return null;
+        const data = (await response.json()) as { token: string | null };
+        return data.token;
+      } catch {
+        return null;
+      }
+    },
+    []
+  );
+  return React.useMemo(
+    () => ({ isLoading: false, isAuthenticated, fetchAccessToken }),
+    [isAuthenticated, fetchAccessToken]
+  );
+}
+
+export default function Providers({
+  children,
+  isAuthenticated,
+}: {
+  children: React.ReactNode;
+  isAuthenticated: boolean;
+}) {
+  // The hook is passed by reference, so bind the session state to it
+  const useAuth = React.useCallback(() => useWorkosAuth(isAuthenticated), [isAuthenticated]);
+
   if (!client) {
     if (typeof window !== "undefined") {
       // eslint-disable-next-line no-console
@@ -14,7 +49,9 @@ export default function Providers({ children }: { children: React.ReactNode }) {
     }
     return <>{children}</>;
   }
-  return <ConvexProvider client={client}>{children}</ConvexProvider>;
+  return (
+    <ConvexProviderWithAuth client={client} useAuth={useAuth}>
+      {children}
+    </ConvexProviderWithAuth>
+  );
 }
-
-
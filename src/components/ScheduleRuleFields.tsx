@@ -0,0 +1,147 @@
+"use client";
+
+import * as React from "react";
+import {
+  SCHEDULE_FREQUENCIES,
+  type ScheduleFrequency,
+  type ScheduleRule,
+} from "../../convex/utils/schedule";
+
+const WEEKDAY_OPTIONS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const NTH_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: "First" },
+  { value: 2, label: "Second" },
+  { value: 3, label: "Third" },
+  { value: 4, label: "Fourth" },
+  { value: -1, label: "Last" },
+];
+const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly_day: "Monthly on a day",
+  monthly_nth_weekday: "Monthly on a weekday",
+  custom_offsets: "Custom offsets",
+};
+
+const fieldClass = "w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm";
+
+type ScheduleRuleFieldsProps = {
+  rule: ScheduleRule;
+  onChange: (rule: ScheduleRule) => void;
+};
+
+/**
+ * Form fields for editing a schedule rule (frequency, day, offsets and hour)
+ */
+export default function ScheduleRuleFields({ rule, onChange }: ScheduleRuleFieldsProps) {
+  const [offsetsText, setOffsetsText] = React.useState<string>((rule.offsetsDays ?? []).join(", "));
+
+  // Keep the text in sync when a different rule is loaded
+  const offsetsKey = (rule.offsetsDays ?? []).join(",");
+  React.useEffect(() => {
+    setOffsetsText((current) => {
+      const parsed = current.split(/[,\s]+/).filter(Boolean).join(",");
+      return parsed === offsetsKey ? current : offsetsKey.split(",").filter(Boolean).join(", ");
+    });
+  }, [offsetsKey]);
+
+  const update = (patch: Partial<ScheduleRule>) => onChange({ ...rule, ...patch });
+
+  const handleFrequencyChange = (frequency: ScheduleFrequency) => {
+    onChange({
+      frequency,
+      hour: rule.hour,
+      ...(frequency !== "monthly_day" && frequency !== "custom_offsets" && { weekday: rule.weekday ?? 1 }),
+      ...(frequency === "monthly_nth_weekday" && { nth: rule.nth ?? 1 }),
+      ...(frequency === "monthly_day" && { dayOfMonth: rule.dayOfMonth ?? 1 }),
+      ...(frequency === "custom_offsets" && {
+        offsetsDays: rule.offsetsDays ?? [25, 55],
+        repeatMonthly: rule.repeatMonthly ?? true,
+      }),
+    });
+  };
+
+  const handleOffsetsChange = (value: string) => {
+    setOffsetsText(value);
+    update({
+      offsetsDays: value
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map((part) => Number(part)),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        className={fieldClass}
+        value={rule.frequency}
+        onChange={(e) => handleFrequencyChange(e.target.value as ScheduleFrequency)}
+      >
+        {SCHEDULE_FREQUENCIES.map((f) => (
+          <option key={f} value={f}>
+            {FREQUENCY_LABELS[f]}
+          </option>
+        ))}
+      </select>
+      {rule.frequency === "monthly_nth_weekday" && (
+        <select className={fieldClass} value={rule.nth ?? 1} onChange={(e) => update({ nth: Number(e.target.value) })}>
+          {NTH_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      )}
+      {(rule.frequency === "weekly" || rule.frequency === "biweekly" || rule.frequency === "monthly_nth_weekday") && (
+        <select className={fieldClass} value={rule.weekday ?? 1} onChange={(e) => update({ weekday: Number(e.target.value) })}>
+          {WEEKDAY_OPTIONS.map((name, index) => (
+            <option key={name} value={index}>
+              {name}
+            </option>
+          ))}
+        </select>
+      )}
+      {rule.frequency === "monthly_day" && (
+        <input
+          type="number"
+          min={1}
+          max={31}
+          className={fieldClass}
+          value={rule.dayOfMonth ?? 1}
+          onChange={(e) => update({ dayOfMonth: Number(e.target.value) })}
+        />
+      )}
+      {rule.frequency === "custom_offsets" && (
+        <>
+          <input
+            type="text"
+            placeholder="Days after start, e.g. 25, 55"
+            className={fieldClass}
+            value={offsetsText}
+            onChange={(e) => handleOffsetsChange(e.target.value)}
+          />
+          <label className="flex items-center gap-2 text-xs text-foreground/60 font-light cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rule.repeatMonthly === true}
+              onChange={(e) => update({ repeatMonthly: e.target.checked })}
+              className="rounded border-foreground/20"
+            />
+            Then repeat monthly on the last offset&apos;s day
+          </label>
+        </>
+      )}
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-foreground/60 font-light whitespace-nowrap">Run at</label>
+        <select className={fieldClass} value={rule.hour ?? 0} onChange={(e) => update({ hour: Number(e.target.value) })}>
+          {Array.from({ length: 24 }, (_, h) => (
+            <option key={h} value={h}>
+              {String(h).padStart(2, "0")}:00
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  DEFAULT_SCHEDULE_RULE,
+  describeScheduleRule,
+  isValidTimeZone,
+  validateScheduleRule,
+  type ScheduleRule,
+} from "../../convex/utils/schedule";
+import ScheduleRuleFields from "./ScheduleRuleFields";
+
+const COMMON_TIMEZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "Europe/London",
+  "Europe/Berlin",
+  "Australia/Sydney",
+  "UTC",
+];
+
+type TemplateDraft = {
+  templateId?: Id<"schedule_templates">;
+  name: string;
+  rule: ScheduleRule;
+  isDefault: boolean;
+};
+
+const EMPTY_DRAFT: TemplateDraft = { name: "", rule: DEFAULT_SCHEDULE_RULE, isDefault: false };
+
+export default function ScheduleSettingsCard({ email }: { email: string }) {
+  const timezone = useQuery(api.scheduleTemplates.getTimezoneForEmail, { email });
+  const templates = useQuery(api.scheduleTemplates.getTemplatesForEmail, { email });
+  const setTimezone = useMutation(api.scheduleTemplates.setTimezoneForEmail);
+  const saveTemplate = useMutation(api.scheduleTemplates.saveTemplate);
+  const deleteTemplate = useMutation(api.scheduleTemplates.deleteTemplate);
+
+  const [timezoneInput, setTimezoneInput] = React.useState("");
+  const [isSavingTimezone, setIsSavingTimezone] = React.useState(false);
+  const [draft, setDraft] = React.useState<TemplateDraft | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = React.useState(false);
+
+  React.useEffect(() => {
+    if (timezone) {
+      setTimezoneInput(timezone);
+    }
+  }, [timezone]);
+
+  const handleSaveTimezone = async () => {
+    const trimmed = timezoneInput.trim();
+    if (!isValidTimeZone(trimmed)) {
+      alert(`Unknown timezone: ${trimmed}. Use an IANA name such as America/Chicago.`);
+      return;
+    }
+    if (!confirm(`Change the schedule timezone to ${trimmed}? Every client's next run will be rescheduled.`)) {
+      return;
+    }
+    setIsSavingTimezone(true);
+    try {
+      await setTimezone({ email, timezone: trimmed });
+    } catch (error) {
+      alert(`Failed to save timezone: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSavingTimezone(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert("Please enter a template name.");
+      return;
+    }
+    const ruleError = validateScheduleRule(draft.rule);
+    if (ruleError) {
+      alert(ruleError);
+      return;
+    }
+    setIsSavingTemplate(true);
+    try {
+      await saveTemplate({
+        email,
+        templateId: draft.templateId,
+        name: draft.name,
+        rule: draft.rule,
+        isDefault: draft.isDefault,
+      });
+      setDraft(null);
+    } catch (error) {
+      alert(`Failed to save template: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: Id<"schedule_templates">, name: string) => {
+    if (!confirm(`Delete the "${name}" schedule? Clients using it will fall back to the organization default.`)) {
+      return;
+    }
+    try {
+      await deleteTemplate({ email, templateId });
+    } catch (error) {
+      alert(`Failed to delete template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-foreground/10 p-6">
+      <div className="space-y-1">
+        <h2 className="text-lg font-light">Content Schedules</h2>
+        <p className="text-sm text-foreground/60">
+          Reusable schedule rules for recurring scripts. The default template applies to clients without their own schedule.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm text-foreground/70">Timezone</label>
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="text"
+            list="schedule-timezones"
+            value={timezoneInput}
+            onChange={(e) => setTimezoneInput(e.target.value)}
+            className="w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+            placeholder="America/New_York"
+          />
+          <datalist id="schedule-timezones">
+            {COMMON_TIMEZONES.map((tz) => (
+              <option key={tz} value={tz} />
+            ))}
+          </datalist>
+          <button
+            type="button"
+            onClick={handleSaveTimezone}
+            disabled={isSavingTimezone || !timezoneInput.trim() || timezoneInput.trim() === timezone}
+            className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {isSavingTimezone ? "Saving…" : "Save"}
+          </button>
+        </div>
+        <p className="text-xs text-foreground/60">Run dates and hours are calculated in this timezone.</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-foreground/70">Templates</p>
+          {!draft && (
+            <button
+              type="button"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              className="px-3 py-1.5 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5"
+            >
+              Add template
+            </button>
+          )}
+        </div>
+
+        {templates === undefined ? (
+          <p className="text-xs text-foreground/50">Loading…</p>
+        ) : templates.length === 0 ? (
+          <p className="text-xs text-foreground/50">
+            No templates yet. Clients use the standard schedule: 25 days, 30 days later, then monthly.
+          </p>
+        ) : (
+          <ul className="divide-y divide-foreground/10 rounded-md border border-foreground/10">
+            {templates.map((template) => (
+              <li key={template._id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {template.name}
+                    {template.isDefault && (
+                      <span className="ml-2 rounded-full border border-foreground/15 px-2 py-0.5 text-[10px] font-light text-foreground/60">
+                        Default
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-foreground/60">{describeScheduleRule(template.rule)}</p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({
+                        templateId: template._id,
+                        name: template.name,
+                        rule: template.rule,
+                        isDefault: template.isDefault === true,
+                      })
+                    }
+                    className="px-2 py-1 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteTemplate(template._id, template.name)}
+                    className="px-2 py-1 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {draft && (
+          <div className="space-y-3 rounded-md border border-foreground/10 p-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name, e.g. Biweekly Tuesdays"
+              className="w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+            />
+            <ScheduleRuleFields rule={draft.rule} onChange={(rule) => setDraft({ ...draft, rule })} />
+            <label className="flex items-center gap-2 text-sm font-light cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+                className="rounded border-foreground/20"
+              />
+              Use as the organization default
+            </label>
+            <p className="text-xs text-foreground/60">{validateScheduleRule(draft.rule) ?? describeScheduleRule(draft.rule)}</p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleSaveTemplate}
+                disabled={isSavingTemplate}
+                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+              >
+                {isSavingTemplate ? "Saving…" : "Save template"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import * as React from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export const COMMENT_KIND_LABELS: Record<Doc<"script_comments">["kind"], string> = {
+  comment: "Comment",
+  changes_requested: "Changes requested",
+  approval: "Approved",
+};
+
+export function formatCommentTimestamp(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+type ScriptCommentThreadProps = {
+  comment: Doc<"script_comments">;
+  replies: Doc<"script_comments">[];
+  email: string;
+  // Text anchor could not be found in the current script
+  detached?: boolean;
+  active?: boolean;
+  onSelect?: () => void;
+};
+
+/**
+ * A root comment with its replies, a reply box, and resolve/reopen
+ */
+export default function ScriptCommentThread({
+  comment,
+  replies,
+  email,
+  detached = false,
+  active = false,
+  onSelect,
+}: ScriptCommentThreadProps) {
+  const addComment = useMutation(api.scriptReview.addComment);
+  const setCommentResolved = useMutation(api.scriptReview.setCommentResolved);
+  const [replyBody, setReplyBody] = React.useState("");
+  const [isReplying, setIsReplying] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await fn();
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReply = () => {
+    if (!replyBody.trim()) return;
+    void run(() =>
+      addComment({ scriptId: comment.scriptId, email, body: replyBody, parentCommentId: comment._id })
+    ).then((ok) => {
+      if (ok) {
+        setReplyBody("");
+        setIsReplying(false);
+      }
+    });
+  };
+
+  return (
+    <li
+      className={`rounded-md border p-3 text-sm ${active ? "border-blue-500/50" : "border-foreground/10"} ${comment.resolvedAt ? "opacity-60" : ""}`}
+    >
+      <div onClick={onSelect} className={onSelect ? "cursor-pointer" : undefined}>
+        <div className="flex items-center justify-between gap-2 text-xs text-foreground/60">
+          <span>
+            <span className="font-medium text-foreground/80">{comment.authorEmail}</span>
+            {comment.kind !== "comment" && <> · {COMMENT_KIND_LABELS[comment.kind]}</>}
+            {comment.anchor && <> · on &ldquo;{comment.anchor.sectionHeading ?? `Section ${comment.anchor.sectionIndex + 1}`}&rdquo;</>}
+          </span>
+          <span>{formatCommentTimestamp(comment.createdAt)}</span>
+        </div>
+        {comment.textAnchor && (
+          <p className="mt-1 border-l-2 border-yellow-400 pl-2 text-xs text-foreground/60 line-clamp-2">
+            {comment.textAnchor.quote}
+            {detached && <span className="ml-1 italic">(text no longer in script)</span>}
+          </p>
+        )}
+        <p className="mt-1 whitespace-pre-wrap">{comment.body}</p>
+      </div>
+
+      {replies.length > 0 && (
+        <ul className="mt-2 space-y-2 border-l border-foreground/10 pl-3">
+          {replies.map((reply) => (
+            <li key={reply._id}>
+              <div className="flex items-center justify-between gap-2 text-xs text-foreground/60">
+                <span className="font-medium text-foreground/80">{reply.authorEmail}</span>
+                <span>{formatCommentTimestamp(reply.createdAt)}</span>
+              </div>
+              <p className="mt-0.5 whitespace-pre-wrap">{reply.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isReplying ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            autoFocus
+            className="w-full min-h-[60px] rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+            placeholder="Reply"
+            value={replyBody}
+            onChange={(e) => setReplyBody(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleReply}
+              disabled={busy || !replyBody.trim()}
+              className="px-3 py-1.5 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+            >
+              Reply
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsReplying(false)}
+              className="px-3 py-1.5 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex gap-3">
+          {!comment.resolvedAt && (
+            <button
+              type="button"
+              onClick={() => setIsReplying(true)}
+              className="text-xs text-foreground/60 hover:underline"
+            >
+              Reply
+            </button>
+          )}
+          {comment.kind !== "approval" && (
+            <button
+              type="button"
+              onClick={() => run(() => setCommentResolved({ commentId: comment._id, email, resolved: !comment.resolvedAt }))}
+              disabled={busy}
+              className="text-xs text-foreground/60 hover:underline"
+            >
+              {comment.resolvedAt ? "Reopen" : "Resolve"}
+            </button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
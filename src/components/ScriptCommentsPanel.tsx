@@ -0,0 +1,255 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { Editor } from "@tiptap/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { buildTextAnchor, resolveTextAnchor, type TextAnchor } from "../../convex/utils/textAnchor";
+import {
+  buildDocTextIndex,
+  docRangeToTextRange,
+  setCommentHighlights,
+  textRangeToDocRange,
+} from "@/lib/commentAnchors";
+import ScriptCommentThread from "./ScriptCommentThread";
+
+type ScriptCommentsPanelProps = {
+  scriptId: Id<"scripts">;
+  email: string;
+  editor: Editor | null;
+};
+
+type ThreadPlacement = {
+  comment: Doc<"script_comments">;
+  // Where the anchor sits in the current document, null when detached
+  range: { from: number; to: number } | null;
+  // Anchor rebuilt from the current text, for persisting after edits
+  currentAnchor: TextAnchor | null;
+};
+
+// Wait for typing to settle before saving moved anchors
+const REANCHOR_DEBOUNCE_MS = 2000;
+
+function sameAnchor(a: TextAnchor, b: TextAnchor): boolean {
+  return a.quote === b.quote && a.prefix === b.prefix && a.suffix === b.suffix && a.offset === b.offset;
+}
+
+/**
+ * Inline comments for the script editor: comment on selected text, highlight
+ * commented ranges, and keep anchors in place as the script is edited.
+ */
+export default function ScriptCommentsPanel({ scriptId, email, editor }: ScriptCommentsPanelProps) {
+  const review = useQuery(api.scriptReview.getReviewForScript, { scriptId, email });
+  const addComment = useMutation(api.scriptReview.addComment);
+  const updateCommentAnchor = useMutation(api.scriptReview.updateCommentAnchor);
+
+  const [docVersion, setDocVersion] = React.useState(0);
+  const [selectionAnchor, setSelectionAnchor] = React.useState<TextAnchor | null>(null);
+  const [pendingAnchor, setPendingAnchor] = React.useState<TextAnchor | null>(null);
+  const [draftBody, setDraftBody] = React.useState("");
+  const [activeCommentId, setActiveCommentId] = React.useState<Id<"script_comments"> | null>(null);
+  const [showResolved, setShowResolved] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  // Track document changes (including programmatic setContent) and the current selection
+  React.useEffect(() => {
+    if (!editor) return;
+    const handleTransaction = ({ transaction }: { transaction: { docChanged: boolean } }) => {
+      if (transaction.docChanged) setDocVersion((v) => v + 1);
+    };
+    const handleSelection = () => {
+      const { from, to } = editor.state.selection;
+      if (from === to) {
+        setSelectionAnchor(null);
+        return;
+      }
+      const index = buildDocTextIndex(editor.state.doc);
+      const range = docRangeToTextRange(index, from, to);
+      setSelectionAnchor(range ? buildTextAnchor(index.text, range.start, range.end) : null);
+    };
+    editor.on("transaction", handleTransaction);
+    editor.on("selectionUpdate", handleSelection);
+    return () => {
+      editor.off("transaction", handleTransaction);
+      editor.off("selectionUpdate", handleSelection);
+    };
+  }, [editor]);
+
+  // Clicking highlighted text opens its thread
+  React.useEffect(() => {
+    if (!editor) return;
+    const dom = editor.view.dom;
+    const handleClick = (event: MouseEvent) => {
+      const target = (event.target as HTMLElement | null)?.closest("[data-comment-id]");
+      if (target) {
+        setActiveCommentId(target.getAttribute("data-comment-id") as Id<"script_comments">);
+      }
+    };
+    dom.addEventListener("click", handleClick);
+    return () => dom.removeEventListener("click", handleClick);
+  }, [editor]);
+
+  const comments = review?.comments;
+
+  const placements = React.useMemo<ThreadPlacement[]>(() => {
+    if (!editor || !comments) return [];
+    const index = buildDocTextIndex(editor.state.doc);
+    return comments
+      .filter((c) => !c.parentCommentId && c.textAnchor)
+      .map((comment) => {
+        const span = index.text ? resolveTextAnchor(index.text, comment.textAnchor!) : null;
+        return {
+          comment,
+          range: span ? textRangeToDocRange(index, span.start, span.end) : null,
+          currentAnchor: span ? buildTextAnchor(index.text, span.start, span.end) : null,
+        };
+      });
+    // docVersion re-runs placement after the editor's document changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editor, comments, docVersion]);
+
+  // Highlight open threads in the editor
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    const highlights = placements
+      .filter((p) => p.range && !p.comment.resolvedAt)
+      .map((p) => ({ commentId: p.comment._id, from: p.range!.from, to: p.range!.to }));
+    setCommentHighlights(editor, highlights, activeCommentId);
+  }, [editor, placements, activeCommentId]);
+
+  // Persist anchors that moved or whose quoted text was edited
+  React.useEffect(() => {
+    const moved = placements.filter(
+      (p) => p.currentAnchor && !p.comment.resolvedAt && !sameAnchor(p.currentAnchor, p.comment.textAnchor!)
+    );
+    if (moved.length === 0) return;
+    const timeoutId = setTimeout(() => {
+      for (const p of moved) {
+        updateCommentAnchor({ commentId: p.comment._id, email, textAnchor: p.currentAnchor! }).catch((error) => {
+          console.error("Failed to update comment anchor:", error);
+        });
+      }
+    }, REANCHOR_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [placements, email, updateCommentAnchor]);
+
+  if (review === undefined) {
+    return <p className="p-6 text-sm text-foreground/60 font-light">Loading comments...</p>;
+  }
+  if (review === null) {
+    return <p className="p-6 text-sm text-foreground/60 font-light">Script not found.</p>;
+  }
+
+  const handleStartComment = () => {
+    setPendingAnchor(selectionAnchor);
+    setDraftBody("");
+  };
+
+  const handleSubmit = async () => {
+    if (!pendingAnchor || !draftBody.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const commentId = await addComment({ scriptId, email, body: draftBody, textAnchor: pendingAnchor });
+      setActiveCommentId(commentId);
+      setPendingAnchor(null);
+      setDraftBody("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSelectThread = (placement: ThreadPlacement) => {
+    setActiveCommentId(placement.comment._id);
+    if (editor && placement.range) {
+      editor.chain().focus().setTextSelection(placement.range).scrollIntoView().run();
+    }
+  };
+
+  // Document order, detached threads last
+  const visible = placements
+    .filter((p) => showResolved || !p.comment.resolvedAt)
+    .sort((a, b) => (a.range?.from ?? Infinity) - (b.range?.from ?? Infinity) || a.comment.createdAt - b.comment.createdAt);
+  const resolvedCount = placements.filter((p) => p.comment.resolvedAt).length;
+  const repliesFor = (commentId: string) => review.comments.filter((c) => c.parentCommentId === commentId);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      {pendingAnchor ? (
+        <div className="rounded-md border border-foreground/10 p-3 space-y-2">
+          <p className="border-l-2 border-yellow-400 pl-2 text-xs text-foreground/60 line-clamp-3">{pendingAnchor.quote}</p>
+          <textarea
+            autoFocus
+            className="w-full min-h-[80px] rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+            placeholder="Leave a comment"
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSubmitting || !draftBody.trim()}
+              className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+            >
+              {isSubmitting ? "Saving..." : "Comment"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingAnchor(null)}
+              className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleStartComment}
+          disabled={!selectionAnchor}
+          title={selectionAnchor ? undefined : "Select text in the script to comment on it"}
+          className="w-full px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+        >
+          Comment on selection
+        </button>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-foreground/70">Inline comments</p>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved((v) => !v)}
+              className="text-xs text-foreground/60 hover:underline"
+            >
+              {showResolved ? "Hide resolved" : `Show resolved (${resolvedCount})`}
+            </button>
+          )}
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-xs text-foreground/50 font-light">
+            No open comments. Select text in the script to start a thread.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {visible.map((placement) => (
+              <ScriptCommentThread
+                key={placement.comment._id}
+                comment={placement.comment}
+                replies={repliesFor(placement.comment._id)}
+                email={email}
+                detached={!placement.range}
+                active={placement.comment._id === activeCommentId}
+                onSelect={() => handleSelectThread(placement)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
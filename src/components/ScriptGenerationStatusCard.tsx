@@ -9,6 +9,7 @@ import {
   DialogTitle,
 } from "./ui/dialog";
 import { Input } from "./ui/input";
+import { STUCK_RUN_TIMEOUT_MS } from "../../convex/utils/scriptGenerationRuns";
 
 type StatusResponse = {
   clients: { total: number; withScripts: number; withoutScripts: number };
@@ -24,6 +25,9 @@ type StatusResponse = {
     status: "queued" | "started" | "generating" | "storing" | "completed" | "failed";
     error?: string;
     steps?: Array<{ name: string; status: "pending" | "running" | "success" | "error"; timestamp: number; detail?: string }>;
+    currentStep?: string;
+    failedStep?: string;
+    resumeCount?: number;
     createdAt: number;
     updatedAt: number;
   }>;
@@ -31,6 +35,52 @@ type StatusResponse = {
 
 const RECENT_RUNS_LIMIT = 5;
 
+type Run = NonNullable<StatusResponse["runs"]>[number];
+
+/**
+ * Failed runs, and runs that stopped updating, can be resumed from the step that failed
+ */
+function canRetryRun(run: Run): boolean {
+  if (!run.responseId) return false;
+  if (run.status === "failed") return true;
+  return run.status !== "completed" && Date.now() - run.updatedAt > STUCK_RUN_TIMEOUT_MS;
+}
+
+function RetryRunButton({ run, onDone }: { run: Run; onDone: () => void }) {
+  const [retrying, setRetrying] = React.useState(false);
+  const step = run.failedStep ?? run.currentStep;
+
+  const retry = async () => {
+    setRetrying(true);
+    try {
+      const res = await fetch("/api/scripts/generate-from-response", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ responseId: run.responseId, clientId: run.clientId, runId: run._id }),
+      });
+      if (!res.ok) {
+        const data = (await res.json().catch(() => ({}))) as { error?: string; details?: string };
+        alert(data.details || data.error || "Retry failed");
+      }
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Retry failed");
+    } finally {
+      setRetrying(false);
+      onDone();
+    }
+  };
+
+  return (
+    <button
+      onClick={retry}
+      disabled={retrying}
+      className="text-xs px-2 py-1 rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+    >
+      {retrying ? "Retrying..." : step ? `Retry from ${step}` : "Retry"}
+    </button>
+  );
+}
+
 export default function ScriptGenerationStatusCard() {
   const [data, setData] = React.useState<StatusResponse | null>(null);
   const [loading, setLoading] = React.useState(true);
@@ -186,6 +236,14 @@ export default function ScriptGenerationStatusCard() {
                         <div className="text-xs text-foreground/60">{new Date(r.updatedAt).toLocaleString()}</div>
                       </div>
                       {r.error && <div className="text-xs text-red-500 mt-1">Error: {r.error}</div>}
+                      {canRetryRun(r) && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <RetryRunButton run={r} onDone={load} />
+                          {r.resumeCount ? (
+                            <span className="text-[10px] text-foreground/50">Resumed {r.resumeCount}×</span>
+                          ) : null}
+                        </div>
+                      )}
                       {r.steps && r.steps.length > 0 && (
                         <div className="mt-2 grid gap-1">
                           {r.steps.map((st, idx) => (
@@ -245,6 +303,14 @@ export default function ScriptGenerationStatusCard() {
                         <div className="text-xs text-foreground/60">{new Date(r.updatedAt).toLocaleString()}</div>
                       </div>
                       {r.error && <div className="text-xs text-red-500 mt-1">Error: {r.error}</div>}
+                      {canRetryRun(r) && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <RetryRunButton run={r} onDone={load} />
+                          {r.resumeCount ? (
+                            <span className="text-[10px] text-foreground/50">Resumed {r.resumeCount}×</span>
+                          ) : null}
+                        </div>
+                      )}
                       {r.steps && r.steps.length > 0 && (
                         <div className="mt-2 grid gap-1">
                           {r.steps.map((st, idx) => (
@@ -4,6 +4,38 @@ import * as React from "react";
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { ScriptContextSource } from "../../convex/utils/scriptContext";
+import { assembleScriptContext } from "@/lib/scriptContext";
+
+const SOURCE_TYPE_LABELS: Record<ScriptContextSource["type"], string> = {
+  onboarding_response: "Onboarding",
+  transcript: "Transcript",
+  ad_briefing: "Ad briefing",
+  client_notes: "Notes",
+  soundbites: "Soundbites",
+  previous_script: "Previous script",
+};
+
+function ContextSourceList({ sources }: { sources: ScriptContextSource[] }) {
+  if (sources.length === 0) {
+    return <p className="mt-2 text-xs text-foreground/60">No context sources.</p>;
+  }
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-foreground/80">
+      {sources.map((source, index) => (
+        <li key={`${source.type}-${source.refId ?? index}`} className="flex items-center justify-between gap-2">
+          <span className="truncate">
+            <span className="text-foreground/60">{SOURCE_TYPE_LABELS[source.type]}:</span>{" "}
+            {source.label}
+          </span>
+          <span className="shrink-0 text-foreground/50">
+            ~{source.tokens.toLocaleString()} tokens{source.truncated ? " (trimmed)" : ""}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
 type ScriptInputsVisualizerProps = {
   ownerEmail: string;
@@ -37,9 +69,30 @@ export function ScriptInputsVisualizer({
     email: ownerEmail,
   });
 
+  const contextInputs = useQuery(api.scriptContext.getScriptContextInputs, {
+    clientId: client._id as Id<"clients">,
+    ownerEmail,
+    transcriptLimit: scriptSettings?.contextTranscriptLimit,
+  });
+
+  const scripts = useQuery(api.scripts.getScriptsForClient, {
+    clientId: client._id as Id<"clients">,
+    ownerEmail,
+  });
+
+  // Preview of what the next generation would include with current data/settings
+  const nextContext = React.useMemo(
+    () =>
+      contextInputs
+        ? assembleScriptContext(contextInputs, { tokenBudget: scriptSettings?.contextTokenBudget })
+        : null,
+    [contextInputs, scriptSettings?.contextTokenBudget],
+  );
+  const latestScriptWithSources = scripts?.find((s) => s.contextSources !== undefined);
+
   const hasTypeform = Boolean(typeformResponse);
   const hasTranscripts = Boolean(transcripts && transcripts.length > 0);
-  const hasOpenRouterKey = Boolean(openrouterConfig?.apiKey);
+  const hasOpenRouterKey = Boolean(openrouterConfig?.maskedApiKey);
   const hasSystemPrompt = Boolean(systemPrompt);
 
   return (
@@ -211,6 +264,48 @@ export function ScriptInputsVisualizer({
           </div>
         </div>
       </div>
+
+      {/* Context sources */}
+      <div className="flex flex-col items-stretch gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex-1 rounded-lg border border-foreground/10 bg-background/70 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-foreground/60">
+            Next Generation Will Use
+          </p>
+          <p className="mt-1 text-xs text-foreground/80">
+            Context assembled from the last{" "}
+            {scriptSettings?.contextTranscriptLimit ?? 3} linked transcript(s),
+            the saved ad briefing, client notes, onboarding answers and recent
+            scripts
+            {nextContext
+              ? ` (~${nextContext.estimatedTokens.toLocaleString()} tokens).`
+              : "."}
+          </p>
+          {nextContext ? (
+            <ContextSourceList sources={nextContext.sources} />
+          ) : (
+            <p className="mt-2 text-xs text-foreground/60">Loading...</p>
+          )}
+        </div>
+        <div className="flex-1 rounded-lg border border-foreground/10 bg-background/70 p-3">
+          <p className="text-xs font-medium uppercase tracking-wide text-foreground/60">
+            Latest Script Used
+          </p>
+          {latestScriptWithSources ? (
+            <>
+              <p className="mt-1 text-xs text-foreground/80">
+                {latestScriptWithSources.title}
+              </p>
+              <ContextSourceList
+                sources={latestScriptWithSources.contextSources ?? []}
+              />
+            </>
+          ) : (
+            <p className="mt-1 text-xs text-foreground/60">
+              No script has recorded its context sources yet.
+            </p>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,276 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { ScriptSection } from "../../convex/utils/scriptReview";
+import ScriptStatusBadge from "./ScriptStatusBadge";
+import ScriptCommentThread, { formatCommentTimestamp } from "./ScriptCommentThread";
+
+type ScriptReviewPanelProps = {
+  scriptId: Id<"scripts">;
+  email: string;
+};
+
+/**
+ * Select a section of the script to anchor a comment to ("" = whole script)
+ */
+function SectionSelect({
+  sections,
+  value,
+  onChange,
+}: {
+  sections: ScriptSection[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      className="w-full rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">Whole script</option>
+      {sections.map((section) => (
+        <option key={section.index} value={String(section.index)}>
+          {section.heading}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function toAnchor(sections: ScriptSection[], value: string) {
+  if (value === "") return undefined;
+  const section = sections.find((s) => String(s.index) === value);
+  return section ? { sectionIndex: section.index, sectionHeading: section.heading } : undefined;
+}
+
+/**
+ * Review workflow for one script: assign a reviewer, approve or request
+ * changes, and discuss sections in comments.
+ */
+export default function ScriptReviewPanel({ scriptId, email }: ScriptReviewPanelProps) {
+  const review = useQuery(api.scriptReview.getReviewForScript, { scriptId, email });
+  const requestReview = useMutation(api.scriptReview.requestReview);
+  const approveScript = useMutation(api.scriptReview.approveScript);
+  const requestChanges = useMutation(api.scriptReview.requestChanges);
+  const addComment = useMutation(api.scriptReview.addComment);
+
+  const [reviewerEmail, setReviewerEmail] = React.useState("");
+  const [commentBody, setCommentBody] = React.useState("");
+  const [commentSection, setCommentSection] = React.useState("");
+  const [showResolved, setShowResolved] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+
+  React.useEffect(() => {
+    if (review?.reviewerEmail) {
+      setReviewerEmail(review.reviewerEmail);
+    }
+  }, [review?.reviewerEmail]);
+
+  const run = async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await fn();
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (review === undefined) {
+    return <p className="p-6 text-sm text-foreground/60 font-light">Loading review...</p>;
+  }
+  if (review === null) {
+    return <p className="p-6 text-sm text-foreground/60 font-light">Script not found.</p>;
+  }
+
+  const isReviewer = review.status === "in_review" && review.reviewerEmail === email;
+  const canRequestReview = review.status === "draft" || review.status === "in_review";
+  const threads = review.comments.filter((c) => !c.parentCommentId);
+  const visibleComments = threads
+    .filter((c) => showResolved || !c.resolvedAt)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  const resolvedCount = threads.filter((c) => c.resolvedAt).length;
+  const repliesFor = (commentId: string) => review.comments.filter((c) => c.parentCommentId === commentId);
+
+  const handleRequestReview = () =>
+    run(() => requestReview({ scriptId, email, reviewerEmail }));
+
+  const handleApprove = () => {
+    if (!confirm("Approve this script? It can then be exported to Google Drive.")) return;
+    void run(() => approveScript({ scriptId, email, body: commentBody || undefined })).then((ok) => {
+      if (ok) setCommentBody("");
+    });
+  };
+
+  const handleRequestChanges = () => {
+    if (!commentBody.trim()) {
+      alert("Describe the changes you need in the comment box.");
+      return;
+    }
+    void run(() =>
+      requestChanges({ scriptId, email, body: commentBody, anchor: toAnchor(review.sections, commentSection) })
+    ).then((ok) => {
+      if (ok) setCommentBody("");
+    });
+  };
+
+  const handleAddComment = () => {
+    if (!commentBody.trim()) return;
+    void run(() =>
+      addComment({ scriptId, email, body: commentBody, anchor: toAnchor(review.sections, commentSection) })
+    ).then((ok) => {
+      if (ok) setCommentBody("");
+    });
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div className="rounded-lg border border-foreground/10 p-4 space-y-2">
+        <div className="flex items-center gap-2">
+          <ScriptStatusBadge status={review.status} />
+          {review.reviewerEmail && (
+            <span className="text-sm text-foreground/70">
+              Reviewer: <span className="font-medium">{review.reviewerEmail}</span>
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-foreground/60 space-y-0.5">
+          {review.reviewRequestedAt && (
+            <p>
+              Review requested by {review.reviewRequestedByEmail} on {formatCommentTimestamp(review.reviewRequestedAt)}
+            </p>
+          )}
+          {review.approvedAt && (
+            <p>
+              Approved by {review.approvedByEmail} on {formatCommentTimestamp(review.approvedAt)}
+            </p>
+          )}
+          {review.deliveredAt && (
+            <p>
+              Delivered on {formatCommentTimestamp(review.deliveredAt)}
+              {review.driveDocUrl && (
+                <>
+                  {" "}
+                  ·{" "}
+                  <a href={review.driveDocUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                    Open doc
+                  </a>
+                </>
+              )}
+            </p>
+          )}
+          {(review.status === "approved" || review.status === "delivered") && (
+            <p>Editing the script sends it back to draft for another review.</p>
+          )}
+        </div>
+      </div>
+
+      {canRequestReview && (
+        <div className="space-y-2">
+          <label className="text-sm text-foreground/70">
+            {review.status === "in_review" ? "Reassign reviewer" : "Request review from"}
+          </label>
+          <div className="flex gap-2">
+            <select
+              className="flex-1 rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+              value={reviewerEmail}
+              onChange={(e) => setReviewerEmail(e.target.value)}
+            >
+              <option value="">Select a teammate</option>
+              {review.members.map((member) => (
+                <option key={member.email} value={member.email}>
+                  {member.email} ({member.role})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleRequestReview}
+              disabled={busy || !reviewerEmail || reviewerEmail === review.reviewerEmail}
+              className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+            >
+              {review.status === "in_review" ? "Reassign" : "Request review"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm text-foreground/70">{isReviewer ? "Your review" : "Add a comment"}</label>
+        <SectionSelect sections={review.sections} value={commentSection} onChange={setCommentSection} />
+        <textarea
+          className="w-full min-h-[80px] rounded-md border border-foreground/15 bg-background px-3 py-2 text-sm"
+          placeholder={isReviewer ? "Feedback for the author (required to request changes)" : "Leave a comment"}
+          value={commentBody}
+          onChange={(e) => setCommentBody(e.target.value)}
+        />
+        <div className="flex gap-2 flex-wrap">
+          <button
+            type="button"
+            onClick={handleAddComment}
+            disabled={busy || !commentBody.trim()}
+            className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+          >
+            Comment
+          </button>
+          {isReviewer && (
+            <>
+              <button
+                type="button"
+                onClick={handleRequestChanges}
+                disabled={busy}
+                className="px-3 py-2 text-sm rounded-md border border-orange-500/40 text-orange-700 dark:text-orange-300 hover:bg-orange-500/10 disabled:opacity-50"
+              >
+                Request changes
+              </button>
+              <button
+                type="button"
+                onClick={handleApprove}
+                disabled={busy}
+                className="px-3 py-2 text-sm rounded-md border border-green-500/40 text-green-700 dark:text-green-300 hover:bg-green-500/10 disabled:opacity-50"
+              >
+                Approve
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-foreground/70">Comments</p>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved((v) => !v)}
+              className="text-xs text-foreground/60 hover:underline"
+            >
+              {showResolved ? "Hide resolved" : `Show resolved (${resolvedCount})`}
+            </button>
+          )}
+        </div>
+        {visibleComments.length === 0 ? (
+          <p className="text-xs text-foreground/50 font-light">No comments yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {visibleComments.map((comment) => (
+              <ScriptCommentThread
+                key={comment._id}
+                comment={comment}
+                replies={repliesFor(comment._id)}
+                email={email}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
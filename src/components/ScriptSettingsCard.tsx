@@ -7,6 +7,10 @@ import { ModelSelector } from "./ModelSelector";
 import { ThinkingEffortSelector } from "./ThinkingEffortSelector";
 import type { ThinkingEffort } from "./ModelSelector";
 import { CheckCircle2, XCircle, Loader2, AlertCircle } from "lucide-react";
+import {
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  DEFAULT_CONTEXT_TRANSCRIPT_LIMIT,
+} from "../../convex/utils/scriptContext";
 
 type LogEntry = {
   type: "info" | "success" | "error" | "warning";
@@ -21,6 +25,8 @@ export default function ScriptSettingsCard({ email }: { email: string }) {
   const [thinkingEffort, setThinkingEffort] = React.useState<ThinkingEffort>("medium");
   const [autoGenerateOnSync, setAutoGenerateOnSync] = React.useState<boolean>(false);
   const [publicAppUrl, setPublicAppUrl] = React.useState<string>("");
+  const [contextTranscriptLimit, setContextTranscriptLimit] = React.useState<number>(DEFAULT_CONTEXT_TRANSCRIPT_LIMIT);
+  const [contextTokenBudget, setContextTokenBudget] = React.useState<number>(DEFAULT_CONTEXT_TOKEN_BUDGET);
   // Cron job template is now fixed: 25 days, then 30 days later, then monthly
   const [isSaving, setIsSaving] = React.useState(false);
   const [isTesting, setIsTesting] = React.useState(false);
@@ -42,6 +48,12 @@ export default function ScriptSettingsCard({ email }: { email: string }) {
       if (typeof settings.publicAppUrl === "string") {
         setPublicAppUrl(settings.publicAppUrl);
       }
+      if (typeof settings.contextTranscriptLimit === "number") {
+        setContextTranscriptLimit(settings.contextTranscriptLimit);
+      }
+      if (typeof settings.contextTokenBudget === "number") {
+        setContextTokenBudget(settings.contextTokenBudget);
+      }
       // Cron job template is deprecated - schedule is now fixed
     }
   }, [settings]);
@@ -67,7 +79,9 @@ export default function ScriptSettingsCard({ email }: { email: string }) {
         defaultThinkingEffort: thinkingEffort,
         autoGenerateOnSync,
         publicAppUrl: trimmedUrl || undefined,
-        // cronJobTemplate is deprecated - schedule is fixed
+        contextTranscriptLimit,
+        contextTokenBudget: Math.max(500, contextTokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET),
+        // cronJobTemplate is deprecated - schedules live in ScheduleSettingsCard
       });
       
       // Show success feedback
@@ -79,7 +93,7 @@ export default function ScriptSettingsCard({ email }: { email: string }) {
     } finally {
       setIsSaving(false);
     }
-  }, [email, selectedModel, thinkingEffort, autoGenerateOnSync, publicAppUrl, updateSettings]);
+  }, [email, selectedModel, thinkingEffort, autoGenerateOnSync, publicAppUrl, contextTranscriptLimit, contextTokenBudget, updateSettings]);
 
   const handleTestFlow = React.useCallback(async () => {
     setIsTesting(true);
@@ -207,6 +221,37 @@ export default function ScriptSettingsCard({ email }: { email: string }) {
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm text-foreground/70">Generation Context</label>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 space-y-1">
+              <span className="text-xs text-foreground/60">Transcripts to include</span>
+              <input
+                type="number"
+                min={0}
+                max={20}
+                className="w-full px-3 py-2 rounded-md border border-foreground/15 bg-background text-sm"
+                value={contextTranscriptLimit}
+                onChange={(e) => setContextTranscriptLimit(Math.max(0, Math.min(20, Number(e.target.value) || 0)))}
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <span className="text-xs text-foreground/60">Context token budget</span>
+              <input
+                type="number"
+                min={500}
+                step={500}
+                className="w-full px-3 py-2 rounded-md border border-foreground/15 bg-background text-sm"
+                value={contextTokenBudget}
+                onChange={(e) => setContextTokenBudget(Number(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-foreground/60">
+            Monthly scripts include the most recent linked Fireflies transcripts, the saved ad briefing, client notes and previous scripts. Longer sources are trimmed to fit the budget.
+          </p>
+        </div>
+
         <div className="space-y-2">
           <label className="text-sm text-foreground/70">Cron Job Schedule</label>
           <div className="rounded-md border border-foreground/10 bg-background/50 p-3">
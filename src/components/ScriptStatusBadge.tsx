@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils";
+import { SCRIPT_STATUS_LABELS, type ScriptStatus } from "../../convex/utils/scriptReview";
+
+const STATUS_CLASSES: Record<ScriptStatus, string> = {
+  draft: "bg-foreground/10 text-foreground/70",
+  in_review: "bg-amber-500/15 text-amber-700 dark:text-amber-300",
+  approved: "bg-green-500/15 text-green-700 dark:text-green-300",
+  delivered: "bg-blue-500/15 text-blue-700 dark:text-blue-300",
+  final: "bg-green-500/15 text-green-700 dark:text-green-300",
+};
+
+export default function ScriptStatusBadge({ status, className }: { status: ScriptStatus; className?: string }) {
+  return (
+    <span
+      className={cn(
+        "px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap",
+        STATUS_CLASSES[status],
+        className
+      )}
+    >
+      {SCRIPT_STATUS_LABELS[status]}
+    </span>
+  );
+}
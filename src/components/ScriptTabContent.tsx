@@ -18,14 +18,22 @@ import ChatClient from "./ChatClient";
 import { ModelSelector } from "./ModelSelector";
 import { ThinkingEffortSelector } from "./ThinkingEffortSelector";
 import type { ThinkingEffort } from "./ModelSelector";
-import { ZoomIn, ZoomOut, Bold as BoldIcon, Italic as ItalicIcon, Heading1, Heading2, Heading3, List, ListOrdered, Quote, Code as CodeIcon, Minus, Undo2, Redo2, Pilcrow, Link2, Link2Off, Plus, Loader2 } from "lucide-react";
+import { ZoomIn, ZoomOut, Bold as BoldIcon, Italic as ItalicIcon, Heading1, Heading2, Heading3, List, ListOrdered, Quote, Code as CodeIcon, Minus, Undo2, Redo2, Pilcrow, Link2, Link2Off, Plus, Loader2, History, MessageSquare } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { diffHtml, type DiffBlock, type DiffSegment } from "@/lib/htmlDiff";
 import TiptapLink from "@tiptap/extension-link";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { DialogClose, DialogDescription, DialogFooter } from "./ui/dialog";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
+import ScriptStatusBadge from "./ScriptStatusBadge";
+import ScriptReviewPanel from "./ScriptReviewPanel";
+import ScriptCommentsPanel from "./ScriptCommentsPanel";
+import { CommentHighlights } from "@/lib/commentAnchors";
+import { CollabCursors, mergeHtmlChange } from "@/lib/scriptCollab";
+import { useScriptCollab } from "@/hooks/use-script-collab";
+import { isScriptApproved } from "../../convex/utils/scriptReview";
 
 type ScriptTabContentProps = {
   clientId: Id<"clients">;
@@ -46,7 +54,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     clientId,
     ownerEmail,
   });
-  const updateScript = useMutation(api.scripts.updateScriptContent);
   const [selectedScriptId, setSelectedScriptId] = React.useState<Id<"scripts"> | null>(null);
   const [isDialogOpen, setIsDialogOpen] = React.useState(false);
   const [scriptContent, setScriptContent] = React.useState<string>(""); // Now stores HTML
@@ -54,8 +61,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   const [thinkingEffort, setThinkingEffort] = React.useState<ThinkingEffort>("medium");
   const [zoomLevel, setZoomLevel] = React.useState<number | "auto">("auto");
   const editorContainerRef = React.useRef<HTMLDivElement>(null);
-  const isUserEditingRef = React.useRef(false);
-  const lastAIContentRef = React.useRef<string>("");
   const [isCopying, setIsCopying] = React.useState(false);
   const [isCreatingDoc, setIsCreatingDoc] = React.useState(false);
   const [toolbarVersion, setToolbarVersion] = React.useState(0);
@@ -64,22 +69,21 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   const linkRangeRef = React.useRef<{ from: number; to: number } | null>(null);
   const [linkPopoverOpen, setLinkPopoverOpen] = React.useState(false);
   const [linkPopoverPos, setLinkPopoverPos] = React.useState<{ x: number; y: number } | null>(null);
-  const [isSaving, setIsSaving] = React.useState(false);
-  const [lastSavedTime, setLastSavedTime] = React.useState<Date | null>(null);
   const saveTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
-  const isSavingRef = React.useRef(false);
-  const handleAutoSaveRef = React.useRef<(() => Promise<void>) | null>(null);
   const editorRef = React.useRef<ReturnType<typeof useEditor> | null>(null);
-  const isDialogOpenRef = React.useRef(isDialogOpen);
   const [aiFlash, setAiFlash] = React.useState(false);
   const aiStreamTimersRef = React.useRef<number[]>([]);
   const [isGenerateDialogOpen, setIsGenerateDialogOpen] = React.useState(false);
   const [isGenerating, setIsGenerating] = React.useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = React.useState(false);
+  const [isReviewOpen, setIsReviewOpen] = React.useState(false);
+  const [rightPanel, setRightPanel] = React.useState<"chat" | "comments">("chat");
   
   // Currently selected script doc
   const selectedScript = selectedScriptId && scripts
     ? scripts.find((s) => s._id === selectedScriptId) || null
     : null;
+  const canExport = selectedScript ? isScriptApproved(selectedScript.status) : false;
   
   // Drive folder UI state
   const [isCreatingFolders, setIsCreatingFolders] = React.useState(false);
@@ -172,25 +176,18 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
           target: null,
         },
       }),
+      CommentHighlights,
+      CollabCursors,
     ],
     content: "",
     immediatelyRender: false, // Required for SSR compatibility
     onUpdate: ({ editor }) => {
-      // Mark that user is editing
-      isUserEditingRef.current = true;
+      // Local, collaborator and AI edits all land here; useScriptCollab saves them.
       // Get HTML directly - no conversion needed
       const html = editor.getHTML();
       setScriptContent(html);
       // Ensure toolbar reacts to content changes
       setToolbarVersion((v) => v + 1);
-      // Trigger save immediately on every keystroke
-      if (isDialogOpen && handleAutoSaveRef.current && !isSavingRef.current) {
-        handleAutoSaveRef.current();
-      }
-      // Reset flag after a short delay
-      setTimeout(() => {
-        isUserEditingRef.current = false;
-      }, 100);
     },
     onSelectionUpdate: () => {
       // Re-render ribbon on caret move/selection changes so active states stay in sync
@@ -207,10 +204,14 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   React.useEffect(() => {
     editorRef.current = editor;
   }, [editor]);
-  
-  React.useEffect(() => {
-    isDialogOpenRef.current = isDialogOpen;
-  }, [isDialogOpen]);
+
+  // Sync edits with everyone else who has this script open
+  const { isSaving, lastSavedTime, collaborators, markNextSaveAsAiEdit } = useScriptCollab({
+    editor,
+    scriptId: isDialogOpen ? selectedScriptId : null,
+    email: ownerEmail,
+    snapshot: selectedScript,
+  });
 
   // Format time as "xx:xx am/pm"
   const formatTime = React.useCallback((date: Date): string => {
@@ -221,18 +222,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     }).toLowerCase();
   }, []);
 
-  // Update editor content when scriptContent changes (from AI updates or script selection)
-  React.useEffect(() => {
-    if (editor && scriptContent && !isUserEditingRef.current) {
-      // Only update if this is an AI update or script selection, not user editing
-      const currentHtml = editor.getHTML();
-      if (currentHtml !== scriptContent) {
-        editor.commands.setContent(scriptContent);
-        lastAIContentRef.current = scriptContent;
-      }
-    }
-  }, [scriptContent, editor]);
-
   // Calculate autofit scale based on container width
   const calculateAutofitScale = React.useCallback(() => {
     if (!editorContainerRef.current) return 1;
@@ -290,7 +279,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
 
   const handleScriptClick = (scriptId: Id<"scripts">) => {
     setSelectedScriptId(scriptId);
-    isUserEditingRef.current = false; // Reset flag when selecting new script
     const script = scripts?.find((s) => s._id === scriptId);
     if (script) {
       setScriptContent(script.contentHtml);
@@ -331,47 +319,10 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     }
   }, [clientId]);
 
-  // Auto-save script content when user edits
-  React.useEffect(() => {
-    if (selectedScriptId && scriptContent && isUserEditingRef.current && handleAutoSaveRef.current) {
-      // Debounce auto-save
-      const timeoutId = setTimeout(() => {
-        if (handleAutoSaveRef.current && !isSavingRef.current) {
-          handleAutoSaveRef.current();
-        }
-      }, 2000); // 2 second debounce
-
-      return () => clearTimeout(timeoutId);
-    }
-  }, [scriptContent, selectedScriptId]);
-
-  // Update auto-save to persist to database
-  const handleAutoSave = React.useCallback(async () => {
-    if (!editorRef.current || !isDialogOpenRef.current || isSavingRef.current || !selectedScriptId) return;
-    
-    isSavingRef.current = true;
-    setIsSaving(true);
-    
-    try {
-      const html = editorRef.current.getHTML();
-      await updateScript({
-        scriptId: selectedScriptId,
-        ownerEmail,
-        contentHtml: html,
-      });
-      setLastSavedTime(new Date());
-    } catch (error) {
-      console.error("Failed to save script:", error);
-    } finally {
-      setIsSaving(false);
-      isSavingRef.current = false;
-    }
-  }, [selectedScriptId, ownerEmail, updateScript]);
-
-  // Store save function in ref so it can be called from onUpdate
-  React.useEffect(() => {
-    handleAutoSaveRef.current = handleAutoSave;
-  }, [handleAutoSave]);
+  const handleRevisionRestored = React.useCallback(() => {
+    // The restored content reaches the editor through useScriptCollab
+    setIsHistoryOpen(false);
+  }, []);
 
   // Open link dialog for current selection (or current link)
   const openLinkDialog = React.useCallback(() => {
@@ -456,14 +407,9 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   }, [scriptContent]);
 
   const handleOpenInGoogleDrive = React.useCallback(async () => {
+    if (!selectedScript) return;
     try {
       setIsCreatingDoc(true);
-      const html = editorRef.current ? editorRef.current.getHTML() : scriptContent || "";
-      if (!html || html.trim().length === 0) {
-        console.warn("No content to create document");
-        setIsCreatingDoc(false);
-        return;
-      }
 
       // First, ensure folders exist and get the month folder ID
       const dateMs = selectedScript?.createdAt || Date.now();
@@ -490,9 +436,10 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
         headers: {
           "Content-Type": "application/json",
         },
+        // The server exports the stored, approved content of the script
         body: JSON.stringify({
+          scriptId: selectedScript._id,
           title,
-          content: html,
           parentFolderId: foldersData.monthFolderId,
         }),
       });
@@ -513,7 +460,7 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     } finally {
       setIsCreatingDoc(false);
     }
-  }, [scriptContent, selectedScript, clientId]);
+  }, [selectedScript, clientId]);
 
   const handleLinkSave = React.useCallback(() => {
     if (!editor) return;
@@ -538,6 +485,10 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   const handleEditorClick = React.useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement | null;
     if (!target) return;
+    // Commented text opens the comments panel (the panel selects the thread)
+    if (target.closest("[data-comment-id]")) {
+      setRightPanel("comments");
+    }
     const anchor = target.closest("a");
     if (anchor) {
       e.preventDefault();
@@ -638,13 +589,18 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     result?: unknown;
   }) => {
     if (toolCall.name === "update_document" && toolCall.status === "success" && toolCall.result) {
-      const result = toolCall.result as { updatedContent?: string };
-      if (result.updatedContent) {
-        isUserEditingRef.current = false; // Mark as AI update
+      const result = toolCall.result as { updatedContent?: string; baseContent?: string };
+      if (result.updatedContent && editor) {
         // Compute changed blocks between current and new content
-        const before = editor ? editor.getHTML() : scriptContent;
-        const beforeBlocks = getBlockTexts(before || "");
-        const afterBlocks = getBlockTexts(result.updatedContent);
+        const before = editor.getHTML();
+        // Merge the AI's edit of the version it saw into the current document,
+        // keeping what collaborators typed in the meantime
+        const tr = mergeHtmlChange(editor.state, result.baseContent ?? before, result.updatedContent);
+        if (!tr) return;
+        markNextSaveAsAiEdit();
+        editor.view.dispatch(tr);
+        const beforeBlocks = getBlockTexts(before);
+        const afterBlocks = getBlockTexts(editor.getHTML());
         const changedIndexes: number[] = [];
         const maxLen = Math.max(beforeBlocks.length, afterBlocks.length);
         for (let i = 0; i < maxLen; i++) {
@@ -652,8 +608,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
             changedIndexes.push(i);
           }
         }
-        // Replace content
-        setScriptContent(result.updatedContent);
         // Clean previous streaming overlays if any
         cleanupAiStreams();
         // After render, decorate and stream only changed blocks
@@ -709,7 +663,7 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
         }, 60);
       }
     }
-  }, [editor, editorContainerRef, getBlockTexts, scriptContent, cleanupAiStreams]);
+  }, [editor, editorContainerRef, getBlockTexts, cleanupAiStreams, markNextSaveAsAiEdit]);
 
   // Cleanup timeout on unmount
   React.useEffect(() => {
@@ -720,13 +674,6 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
     };
   }, []);
 
-  // Initialize saved time when dialog opens with existing script
-  React.useEffect(() => {
-    if (isDialogOpen && selectedScript && !lastSavedTime) {
-      setLastSavedTime(new Date());
-    }
-  }, [isDialogOpen, selectedScript, lastSavedTime]);
-
   if (scripts === undefined) {
     return (
       <Card className="bg-linear-to-br from-background to-background/95 border-foreground/10 shadow-md">
@@ -778,8 +725,11 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
               onClick={() => handleScriptClick(script._id)}
             >
               <div className="p-4">
-                <div className="text-sm font-medium text-foreground mb-2">
-                  {formatScriptDate(new Date(script.createdAt).toISOString())}
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <div className="text-sm font-medium text-foreground">
+                    {formatScriptDate(new Date(script.createdAt).toISOString())}
+                  </div>
+                  <ScriptStatusBadge status={script.status} />
                 </div>
                 <div className="text-xs text-foreground/60 font-light line-clamp-2">
                   {script.contentHtml.replace(/<[^>]+>/g, '').substring(0, 100)}...
@@ -816,8 +766,9 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
         <DialogContent className="max-w-[90vw] w-[90vw] max-h-[90vh] h-[90vh] flex flex-col p-0 gap-0 sm:max-w-[90vw]">
           <DialogHeader className="px-6 py-4 border-b">
             <div className="flex items-center justify-between">
-              <DialogTitle>
+              <DialogTitle className="flex items-center gap-2">
                 {selectedScript ? `Script - ${formatScriptDate(new Date(selectedScript.createdAt).toISOString())}` : "Script Editor"}
+                {selectedScript && <ScriptStatusBadge status={selectedScript.status} />}
               </DialogTitle>
               {/* Save status indicator - centered */}
               <div className="absolute left-1/2 transform -translate-x-1/2">
@@ -825,14 +776,47 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
                   <div className="flex items-center gap-2 text-sm text-foreground/70 font-medium">
                     <span className="animate-pulse">Saving...</span>
                   </div>
-                ) : lastSavedTime ? (
+                ) : lastSavedTime || selectedScript ? (
                   <div className="flex items-center gap-2 text-sm text-foreground/70 font-medium">
                     <span className="text-green-600 dark:text-green-400">Saved</span>
-                    <span>{formatTime(lastSavedTime)}</span>
+                    <span>{formatTime(lastSavedTime ?? new Date(selectedScript!.updatedAt))}</span>
                   </div>
                 ) : null}
               </div>
               <div className="flex items-center gap-2 mr-8">
+                {/* Other people editing this script */}
+                {collaborators.length > 0 && (
+                  <div className="flex -space-x-2 mr-2">
+                    {collaborators.map((collaborator) => (
+                      <span
+                        key={collaborator.sessionId}
+                        title={`${collaborator.email} is editing`}
+                        className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background text-xs font-medium text-white"
+                        style={{ backgroundColor: collaborator.color }}
+                      >
+                        {collaborator.email.charAt(0).toUpperCase()}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
+                  disabled={!selectedScriptId}
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  History
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsReviewOpen(true)}
+                  disabled={!selectedScriptId}
+                >
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  Review
+                </Button>
                 <ModelSelector value={selectedModel} onValueChange={setSelectedModel} />
                 <ThinkingEffortSelector value={thinkingEffort} onValueChange={setThinkingEffort} />
               </div>
@@ -932,6 +916,34 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
                       border-top: 1px solid #ddd;
                       margin: 2em 0;
                     }
+                    /* Collaborator cursors */
+                    .script-page .collab-cursor {
+                      position: relative;
+                      margin-left: -1px;
+                      margin-right: -1px;
+                      border-left: 2px solid;
+                      pointer-events: none;
+                    }
+                    .script-page .collab-cursor-label {
+                      position: absolute;
+                      top: -1.4em;
+                      left: -2px;
+                      padding: 0 4px;
+                      border-radius: 3px;
+                      font-size: 11px;
+                      line-height: 1.4;
+                      color: white;
+                      white-space: nowrap;
+                    }
+                    /* Inline comment ranges */
+                    .script-page .comment-highlight {
+                      background: rgba(250,204,21,0.25);
+                      border-bottom: 2px solid rgba(234,179,8,0.6);
+                      cursor: pointer;
+                    }
+                    .script-page .comment-highlight-active {
+                      background: rgba(250,204,21,0.5);
+                    }
                     /* AI highlight flash - applied when container has ai-flash */
                     .script-page.ai-flash p,
                     .script-page.ai-flash li,
@@ -1286,8 +1298,9 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
                     </Button>
                     <Button
                       variant="outline"
-                      disabled={isCreatingDoc || !editor}
+                      disabled={isCreatingDoc || !editor || !canExport}
                       onClick={handleOpenInGoogleDrive}
+                      title={canExport ? undefined : "Approve the script in Review before exporting"}
                       className="cursor-pointer hover:bg-accent hover:text-accent-foreground transition-all duration-200"
                     >
                       {isCreatingDoc ? "Creating..." : "Open in Google Docs"}
@@ -1328,27 +1341,85 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
                 </div>
               </div>
 
-              {/* Right side - AI Chat */}
+              {/* Right side - AI Chat / inline comments */}
               <div className="w-1/2 overflow-hidden flex flex-col">
-                <ChatClient
-                  model={selectedModel}
-                  thinkingEffort={thinkingEffort}
-                  extraPayload={{
-                    documentContext: {
-                      content: scriptContent,
-                    },
-                  }}
-                  onToolResult={handleToolResult}
-                  storageKeyPrefix="script-editor"
-                  emptyStateTitle="AI Script Editor"
-                  emptyStateDescription="Ask me to edit the script. I can help you modify, improve, or customize it."
-                />
+                <div className="flex gap-1 border-b border-foreground/10 px-4 py-2">
+                  {(["chat", "comments"] as const).map((panel) => (
+                    <button
+                      key={panel}
+                      type="button"
+                      onClick={() => setRightPanel(panel)}
+                      className={cn(
+                        "px-3 py-1.5 text-sm rounded-md transition-colors",
+                        rightPanel === panel ? "bg-foreground/10 font-medium" : "text-foreground/60 hover:bg-foreground/5"
+                      )}
+                    >
+                      {panel === "chat" ? "AI Chat" : "Comments"}
+                    </button>
+                  ))}
+                </div>
+                {/* Stays mounted while chatting so highlights and anchors keep up with edits */}
+                {selectedScriptId && (
+                  <div className={cn("flex-1 overflow-hidden flex flex-col", rightPanel !== "comments" && "hidden")}>
+                    <ScriptCommentsPanel scriptId={selectedScriptId} email={ownerEmail} editor={editor} />
+                  </div>
+                )}
+                <div className={cn("flex-1 overflow-hidden flex flex-col", rightPanel !== "chat" && "hidden")}>
+                  <ChatClient
+                    model={selectedModel}
+                    thinkingEffort={thinkingEffort}
+                    extraPayload={{
+                      documentContext: {
+                        content: scriptContent,
+                      },
+                    }}
+                    onToolResult={handleToolResult}
+                    storageKeyPrefix="script-editor"
+                    emptyStateTitle="AI Script Editor"
+                    emptyStateDescription="Ask me to edit the script. I can help you modify, improve, or customize it."
+                  />
+                </div>
               </div>
             </div>
           </div>
         </DialogContent>
       </Dialog>
 
+      {/* Revision history */}
+      <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <DialogContent className="max-w-[85vw] w-[85vw] max-h-[85vh] h-[85vh] flex flex-col p-0 gap-0 sm:max-w-[85vw]">
+          <DialogHeader className="px-6 py-4 border-b">
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>
+              Compare a previous version with the current script. Restoring creates a new version, so nothing is lost.
+            </DialogDescription>
+          </DialogHeader>
+          {isHistoryOpen && selectedScriptId && (
+            <ScriptHistoryPanel
+              scriptId={selectedScriptId}
+              ownerEmail={ownerEmail}
+              currentHtml={editorRef.current ? editorRef.current.getHTML() : scriptContent}
+              onRestored={handleRevisionRestored}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Review workflow */}
+      <Dialog open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col p-0 gap-0">
+          <DialogHeader className="px-6 py-4 border-b">
+            <DialogTitle>Review</DialogTitle>
+            <DialogDescription>
+              Scripts need an approved review before they can be exported to Google Drive.
+            </DialogDescription>
+          </DialogHeader>
+          {isReviewOpen && selectedScriptId && (
+            <ScriptReviewPanel scriptId={selectedScriptId} email={ownerEmail} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Link action popover (Open | Edit) */}
       {linkPopoverPos && (
         <Popover open={linkPopoverOpen} onOpenChange={setLinkPopoverOpen}>
@@ -1423,3 +1494,170 @@ export default function ScriptTabContent({ clientId, ownerEmail }: ScriptTabCont
   );
 }
 
+
+const REVISION_SOURCE_LABELS: Record<string, string> = {
+  generation: "Generated",
+  manual: "Edited",
+  ai_edit: "AI edit",
+  restore: "Restored",
+};
+
+function formatRevisionTime(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function DiffBlockView({
+  block,
+  segments,
+  highlight,
+}: {
+  block: DiffBlock;
+  segments?: DiffSegment[];
+  highlight?: "added" | "removed";
+}) {
+  const isHeading = block.tag.startsWith("h");
+  return (
+    <div
+      className={cn(
+        "px-3 py-1.5 text-sm whitespace-pre-wrap",
+        isHeading && "font-semibold",
+        block.tag === "li" && "pl-6",
+        highlight === "added" && "bg-green-500/10",
+        highlight === "removed" && "bg-red-500/10"
+      )}
+    >
+      {block.tag === "li" && <span className="text-foreground/40 mr-1">•</span>}
+      {segments
+        ? segments.map((segment, i) => (
+            <span
+              key={i}
+              className={cn(
+                segment.type === "added" && "bg-green-500/25 text-green-900 dark:text-green-200",
+                segment.type === "removed" && "bg-red-500/25 text-red-900 dark:text-red-200 line-through"
+              )}
+            >
+              {segment.text}
+            </span>
+          ))
+        : block.text}
+    </div>
+  );
+}
+
+/**
+ * Revision list plus a side-by-side diff of the selected revision against
+ * the script's current content
+ */
+function ScriptHistoryPanel({
+  scriptId,
+  ownerEmail,
+  currentHtml,
+  onRestored,
+}: {
+  scriptId: Id<"scripts">;
+  ownerEmail: string;
+  currentHtml: string;
+  onRestored: (html: string) => void;
+}) {
+  const revisions = useQuery(api.scriptRevisions.listRevisionsForScript, { scriptId, ownerEmail });
+  const restoreRevision = useMutation(api.scriptRevisions.restoreRevision);
+  const [selectedRevisionId, setSelectedRevisionId] = React.useState<Id<"script_revisions"> | null>(null);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+
+  // Default to the most recent revision that differs from the current content
+  React.useEffect(() => {
+    if (selectedRevisionId || !revisions || revisions.length === 0) return;
+    const firstDifferent = revisions.find((r) => r.contentHtml !== currentHtml);
+    setSelectedRevisionId((firstDifferent ?? revisions[0])._id);
+  }, [revisions, selectedRevisionId, currentHtml]);
+
+  const selectedRevision = revisions?.find((r) => r._id === selectedRevisionId) ?? null;
+  const rows = React.useMemo(
+    () => (selectedRevision ? diffHtml(selectedRevision.contentHtml, currentHtml) : []),
+    [selectedRevision, currentHtml]
+  );
+  const changeCount = rows.filter((r) => r.type !== "equal").length;
+
+  const handleRestore = async () => {
+    if (!selectedRevision) return;
+    if (!confirm(`Restore the version from ${formatRevisionTime(selectedRevision.updatedAt)}? The current content will stay in the history.`)) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      await restoreRevision({ revisionId: selectedRevision._id, ownerEmail });
+      onRestored(selectedRevision.contentHtml);
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      alert(error instanceof Error ? error.message : "Failed to restore revision");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (revisions === undefined) {
+    return <div className="p-6 text-sm text-foreground/60">Loading history...</div>;
+  }
+  if (revisions.length === 0) {
+    return <div className="p-6 text-sm text-foreground/60">No saved versions yet. Versions are recorded as the script is edited.</div>;
+  }
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      <div className="w-64 border-r overflow-y-auto">
+        {revisions.map((revision) => (
+          <button
+            key={revision._id}
+            type="button"
+            onClick={() => setSelectedRevisionId(revision._id)}
+            className={cn(
+              "w-full text-left px-4 py-3 border-b border-foreground/10 hover:bg-foreground/5",
+              revision._id === selectedRevisionId && "bg-foreground/10"
+            )}
+          >
+            <div className="text-sm font-medium">{formatRevisionTime(revision.updatedAt)}</div>
+            <div className="text-xs text-foreground/60">
+              {REVISION_SOURCE_LABELS[revision.source] ?? revision.source}
+              {revision.authorEmail ? ` · ${revision.authorEmail}` : ""}
+            </div>
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="px-4 py-2 border-b flex items-center justify-between">
+          <span className="text-sm text-foreground/70">
+            {changeCount === 0 ? "Identical to the current version" : `${changeCount} changed block${changeCount === 1 ? "" : "s"}`}
+          </span>
+          <Button size="sm" onClick={handleRestore} disabled={!selectedRevision || changeCount === 0 || isRestoring}>
+            {isRestoring ? "Restoring..." : "Restore this version"}
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 text-xs font-medium text-foreground/60 border-b">
+          <div className="px-3 py-1.5 border-r">Selected version</div>
+          <div className="px-3 py-1.5">Current</div>
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2 border-b border-foreground/5">
+              <div className="border-r border-foreground/10">
+                {row.type === "equal" && <DiffBlockView block={row.left} />}
+                {row.type === "removed" && <DiffBlockView block={row.left} highlight="removed" />}
+                {row.type === "changed" && <DiffBlockView block={row.left} segments={row.leftSegments} highlight="removed" />}
+              </div>
+              <div>
+                {row.type === "equal" && <DiffBlockView block={row.right} />}
+                {row.type === "added" && <DiffBlockView block={row.right} highlight="added" />}
+                {row.type === "changed" && <DiffBlockView block={row.right} segments={row.rightSegments} highlight="added" />}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
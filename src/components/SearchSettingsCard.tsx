@@ -0,0 +1,81 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+
+export default function SearchSettingsCard({ email }: { email: string }) {
+  const settings = useQuery(api.search.getSearchSettingsForEmail, { email });
+  const setSemanticSearch = useMutation(api.search.setSemanticSearchForEmail);
+  const rebuildIndex = useMutation(api.search.rebuildIndexForEmail);
+
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [rebuildStarted, setRebuildStarted] = React.useState(false);
+
+  const handleToggle = async (enabled: boolean) => {
+    setIsSaving(true);
+    try {
+      await setSemanticSearch({ email, enabled });
+    } catch (error) {
+      alert(`Failed to update search settings: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    try {
+      await rebuildIndex({ email });
+      setRebuildStarted(true);
+    } catch (error) {
+      alert(`Failed to rebuild the search index: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-foreground/10 p-6">
+      <div className="space-y-1">
+        <h2 className="text-lg font-light">Search</h2>
+        <p className="text-sm text-foreground/60">
+          Press ⌘K (Ctrl+K) anywhere to search transcripts, onboarding responses, scripts and client notes. Records are
+          indexed as they change; rebuild the index once to include everything stored before search existed.
+        </p>
+      </div>
+
+      <label className="flex items-start gap-3 text-sm">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={settings?.semanticSearchEnabled ?? false}
+          disabled={settings === undefined || isSaving}
+          onChange={(e) => handleToggle(e.target.checked)}
+        />
+        <span className="space-y-1">
+          <span className="block text-foreground/80">Semantic search</span>
+          <span className="block text-xs text-foreground/60">
+            Also find passages by meaning (&quot;pricing objections&quot; finds &quot;it&apos;s too expensive&quot;).
+            Every indexed passage is embedded with your OpenRouter key.
+          </span>
+          {settings?.semanticSearchEnabled && settings.pendingEmbeddings > 0 && (
+            <span className="block text-xs text-foreground/50">
+              {settings.pendingEmbeddings >= 1000 ? "1000+" : settings.pendingEmbeddings} passages waiting to be
+              embedded
+            </span>
+          )}
+        </span>
+      </label>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleRebuild}
+          disabled={settings === undefined}
+          className="rounded-md border border-foreground/15 px-4 py-2 text-sm font-light hover:bg-foreground/5 disabled:opacity-50"
+        >
+          Rebuild index
+        </button>
+        {rebuildStarted && <span className="text-xs text-foreground/60">Rebuilding in the background…</span>}
+      </div>
+    </div>
+  );
+}
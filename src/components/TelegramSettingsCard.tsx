@@ -0,0 +1,121 @@
+"use client";
+
+import * as React from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+
+export default function TelegramSettingsCard({ email }: { email: string }) {
+  const config = useQuery(api.telegram.getConfigForEmail, { email });
+  const setChatId = useMutation(api.telegram.setChatIdForEmail);
+  const disconnectChat = useMutation(api.telegram.disconnectChatForEmail);
+  const [chatIdValue, setChatIdValue] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isRegistering, setIsRegistering] = React.useState(false);
+
+  React.useEffect(() => {
+    if (config?.chatId) {
+      setChatIdValue(config.chatId);
+    }
+  }, [config]);
+
+  const handleSave = async () => {
+    if (!chatIdValue.trim()) {
+      alert("Please enter a chat ID");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setChatId({ email, chatId: chatIdValue.trim() });
+    } catch (error) {
+      console.error("Failed to save Telegram chat:", error);
+      alert(error instanceof Error ? error.message : "Failed to save Telegram chat");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm("Stop sending linking prompts to this Telegram chat?")) return;
+    try {
+      await disconnectChat({ email });
+      setChatIdValue("");
+    } catch (error) {
+      console.error("Failed to disconnect Telegram chat:", error);
+      alert("Failed to disconnect Telegram chat");
+    }
+  };
+
+  const handleRegisterWebhook = async () => {
+    setIsRegistering(true);
+    try {
+      const response = await fetch("/api/telegram/register-webhook", { method: "POST" });
+      const data = (await response.json().catch(() => ({}))) as { webhookUrl?: string; error?: string };
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to register webhook");
+      }
+      alert(`Webhook registered: ${data.webhookUrl}`);
+    } catch (error) {
+      console.error("Failed to register Telegram webhook:", error);
+      alert(error instanceof Error ? error.message : "Failed to register webhook");
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-foreground/10 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-light">Telegram</h2>
+        {config && (
+          <span className="text-xs text-foreground/60">Connected by {config.connectedByEmail}</span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm text-foreground/70">Webhook</Label>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleRegisterWebhook} disabled={isRegistering} className="cursor-pointer">
+            {isRegistering ? "Registering..." : "Register webhook"}
+          </Button>
+        </div>
+        <p className="text-xs text-foreground/60">
+          Points the bot at this app with a secret token. The bot ignores updates until its webhook has been
+          registered here, so do this before sending <code>/start</code>.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm text-foreground/70">Chat ID</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="text"
+            placeholder="-1001234567890"
+            value={chatIdValue}
+            onChange={(e) => setChatIdValue(e.target.value)}
+            className="flex-1"
+          />
+          <Button
+            variant="default"
+            onClick={handleSave}
+            disabled={isSaving || !chatIdValue.trim() || chatIdValue.trim() === config?.chatId}
+            className="cursor-pointer"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+          {config && (
+            <Button variant="outline" onClick={handleDisconnect} className="cursor-pointer">
+              Disconnect
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-foreground/60">
+          Send <code>/start</code> to the bot in the chat that should get transcript linking prompts
+          and paste the ID it replies with. Commands sent from the chat act as you.
+        </p>
+      </div>
+    </div>
+  );
+}
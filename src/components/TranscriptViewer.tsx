@@ -0,0 +1,424 @@
+"use client";
+
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ChevronDown, ChevronUp, Quote, Trash2 } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  findSentenceAtTime,
+  formatTimestamp,
+  parseTimestamp,
+  type TranscriptSentence,
+} from "../../convex/utils/transcriptSentences";
+
+const INPUT_CLASS = "rounded-md border border-foreground/15 bg-background px-3 py-2 text-xs";
+
+// Assigned to speakers in the order they first talk
+const SPEAKER_COLORS = [
+  { text: "text-sky-700 dark:text-sky-400", dot: "bg-sky-500" },
+  { text: "text-emerald-700 dark:text-emerald-400", dot: "bg-emerald-500" },
+  { text: "text-violet-700 dark:text-violet-400", dot: "bg-violet-500" },
+  { text: "text-amber-700 dark:text-amber-400", dot: "bg-amber-500" },
+  { text: "text-rose-700 dark:text-rose-400", dot: "bg-rose-500" },
+  { text: "text-teal-700 dark:text-teal-400", dot: "bg-teal-500" },
+];
+const UNKNOWN_SPEAKER_COLOR = { text: "text-foreground/70", dot: "bg-foreground/40" };
+
+type ViewerTranscript = {
+  _id: Id<"fireflies_transcripts">;
+  transcript: string;
+  sentences?: TranscriptSentence[];
+  clientId?: Id<"clients">;
+};
+
+type TranscriptViewerProps = {
+  transcript: ViewerTranscript;
+  // Sentence to scroll to when the viewer opens, e.g. where a soundbite starts
+  initialSentenceIndex?: number;
+};
+
+type SentenceSelection = { startIndex: number; endIndex: number; quote: string };
+
+// Consecutive sentences by the same speaker
+type SpeakerTurn = { speakerName?: string; startIndex: number; sentences: TranscriptSentence[] };
+
+function groupIntoTurns(sentences: TranscriptSentence[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  sentences.forEach((sentence, index) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speakerName === sentence.speakerName) {
+      last.sentences.push(sentence);
+    } else {
+      turns.push({ speakerName: sentence.speakerName, startIndex: index, sentences: [sentence] });
+    }
+  });
+  return turns;
+}
+
+function HighlightedText({ text, query, isCurrent }: { text: string; query: string; isCurrent: boolean }) {
+  if (!query) return <>{text}</>;
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  let start = lowerText.indexOf(lowerQuery);
+  while (start !== -1) {
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark
+        key={start}
+        className={`rounded-sm px-0.5 text-foreground ${
+          isCurrent ? "bg-orange-300 dark:bg-orange-500/60" : "bg-yellow-200/70 dark:bg-yellow-500/30"
+        }`}
+      >
+        {text.slice(start, start + query.length)}
+      </mark>
+    );
+    cursor = start + query.length;
+    start = lowerText.indexOf(lowerQuery, cursor);
+  }
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+/**
+ * Sentence index of the element a selection boundary falls in, or null when
+ * it's outside the transcript body
+ */
+function sentenceIndexOf(node: Node | null, container: HTMLElement): number | null {
+  const element = node instanceof Element ? node : node?.parentElement;
+  const sentence = element?.closest("[data-sentence-index]");
+  if (!sentence || !container.contains(sentence)) return null;
+  return Number(sentence.getAttribute("data-sentence-index"));
+}
+
+/**
+ * Transcript reader: speaker-colored turns with timestamps, search within the
+ * call, jump to a time, and highlighting quotes to save as client soundbites
+ */
+export default function TranscriptViewer({ transcript, initialSentenceIndex }: TranscriptViewerProps) {
+  const sentences = React.useMemo(() => transcript.sentences ?? [], [transcript.sentences]);
+  const hasSentences = sentences.length > 0;
+  const hasTimestamps = sentences.some((sentence) => sentence.startTime !== undefined);
+
+  const soundbites = useQuery(
+    api.soundbites.getSoundbitesForTranscript,
+    hasSentences ? { transcriptId: transcript._id } : "skip"
+  );
+  const createSoundbite = useMutation(api.soundbites.createSoundbite);
+  const deleteSoundbite = useMutation(api.soundbites.deleteSoundbite);
+
+  const bodyRef = React.useRef<HTMLDivElement>(null);
+  const [searchQuery, setSearchQuery] = React.useState("");
+  const [currentMatch, setCurrentMatch] = React.useState(0);
+  const [jumpTo, setJumpTo] = React.useState("");
+  const [activeIndex, setActiveIndex] = React.useState<number | null>(null);
+  const [selection, setSelection] = React.useState<SentenceSelection | null>(null);
+  const [note, setNote] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const turns = React.useMemo(() => groupIntoTurns(sentences), [sentences]);
+
+  const speakerColors = React.useMemo(() => {
+    const colors = new Map<string, (typeof SPEAKER_COLORS)[number]>();
+    for (const sentence of sentences) {
+      if (sentence.speakerName && !colors.has(sentence.speakerName)) {
+        colors.set(sentence.speakerName, SPEAKER_COLORS[colors.size % SPEAKER_COLORS.length]);
+      }
+    }
+    return colors;
+  }, [sentences]);
+
+  const query = searchQuery.trim();
+  const matches = React.useMemo(() => {
+    if (!query) return [];
+    const lowerQuery = query.toLowerCase();
+    return sentences.flatMap((sentence, index) => (sentence.text.toLowerCase().includes(lowerQuery) ? [index] : []));
+  }, [sentences, query]);
+
+  // Sentences inside a saved soundbite are highlighted in the text
+  const savedIndexes = React.useMemo(() => {
+    const indexes = new Set<number>();
+    for (const soundbite of soundbites ?? []) {
+      for (let index = soundbite.startIndex; index <= soundbite.endIndex; index++) {
+        indexes.add(index);
+      }
+    }
+    return indexes;
+  }, [soundbites]);
+
+  const scrollToSentence = React.useCallback((index: number) => {
+    setActiveIndex(index);
+    bodyRef.current
+      ?.querySelector(`[data-sentence-index="${index}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, []);
+
+  React.useEffect(() => {
+    setCurrentMatch(0);
+    if (matches.length > 0) {
+      scrollToSentence(matches[0]);
+    }
+  }, [matches, scrollToSentence]);
+
+  React.useEffect(() => {
+    if (initialSentenceIndex !== undefined) {
+      scrollToSentence(initialSentenceIndex);
+    }
+  }, [initialSentenceIndex, scrollToSentence]);
+
+  const goToMatch = (offset: number) => {
+    if (matches.length === 0) return;
+    const next = (currentMatch + offset + matches.length) % matches.length;
+    setCurrentMatch(next);
+    scrollToSentence(matches[next]);
+  };
+
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const seconds = parseTimestamp(jumpTo);
+    if (seconds === null) {
+      alert("Enter a time like 12:30 or 1:02:15");
+      return;
+    }
+    const index = findSentenceAtTime(sentences, seconds);
+    if (index !== -1) {
+      scrollToSentence(index);
+    }
+  };
+
+  const handleMouseUp = () => {
+    const container = bodyRef.current;
+    const windowSelection = window.getSelection();
+    if (!container || !windowSelection || windowSelection.isCollapsed) {
+      return;
+    }
+    const anchor = sentenceIndexOf(windowSelection.anchorNode, container);
+    const focus = sentenceIndexOf(windowSelection.focusNode, container);
+    const quote = windowSelection.toString().replace(/\s+/g, " ").trim();
+    if (anchor === null || focus === null || !quote) {
+      return;
+    }
+    setSelection({ startIndex: Math.min(anchor, focus), endIndex: Math.max(anchor, focus), quote });
+  };
+
+  const clearSelection = () => {
+    setSelection(null);
+    setNote("");
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleSaveSoundbite = async () => {
+    if (!selection) return;
+    setIsSaving(true);
+    try {
+      await createSoundbite({
+        transcriptId: transcript._id,
+        ...selection,
+        note: note.trim() || undefined,
+      });
+      clearSelection();
+    } catch (error) {
+      alert(`Failed to save soundbite: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSoundbite = async (soundbiteId: Id<"transcript_soundbites">) => {
+    try {
+      await deleteSoundbite({ soundbiteId });
+    } catch (error) {
+      alert(`Failed to remove soundbite: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (!hasSentences) {
+    return <p className="text-sm text-foreground/90 whitespace-pre-wrap">{transcript.transcript}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              goToMatch(e.shiftKey ? -1 : 1);
+            }
+          }}
+          placeholder="Search this call..."
+          className={`${INPUT_CLASS} min-w-0 flex-1`}
+        />
+        {query && (
+          <div className="flex items-center gap-1 text-xs text-foreground/60">
+            <span>{matches.length > 0 ? `${currentMatch + 1} / ${matches.length}` : "No matches"}</span>
+            <button
+              type="button"
+              onClick={() => goToMatch(-1)}
+              disabled={matches.length === 0}
+              className="rounded p-1 hover:bg-foreground/5 disabled:opacity-40"
+              aria-label="Previous match"
+            >
+              <ChevronUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => goToMatch(1)}
+              disabled={matches.length === 0}
+              className="rounded p-1 hover:bg-foreground/5 disabled:opacity-40"
+              aria-label="Next match"
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+        {hasTimestamps && (
+          <form onSubmit={handleJump} className="flex items-center gap-1">
+            <input
+              value={jumpTo}
+              onChange={(e) => setJumpTo(e.target.value)}
+              placeholder="mm:ss"
+              className={`${INPUT_CLASS} w-20`}
+              aria-label="Jump to time"
+            />
+            <button
+              type="submit"
+              className="rounded-md border border-foreground/15 px-3 py-2 text-xs hover:bg-foreground/5"
+            >
+              Jump
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div
+        ref={bodyRef}
+        onMouseUp={handleMouseUp}
+        className="max-h-[50vh] space-y-4 overflow-y-auto rounded-md border border-foreground/10 p-4"
+      >
+        {turns.map((turn) => {
+          const color = (turn.speakerName && speakerColors.get(turn.speakerName)) || UNKNOWN_SPEAKER_COLOR;
+          const startTime = turn.sentences[0].startTime;
+          return (
+            <div key={turn.startIndex} className="space-y-1">
+              <div className="flex items-center gap-2 text-xs select-none">
+                <span className={`h-2 w-2 rounded-full ${color.dot}`} />
+                <span className={`font-semibold ${color.text}`}>{turn.speakerName || "Unknown speaker"}</span>
+                {startTime !== undefined && (
+                  <button
+                    type="button"
+                    onClick={() => scrollToSentence(turn.startIndex)}
+                    className="tabular-nums text-foreground/50 hover:text-foreground"
+                  >
+                    {formatTimestamp(startTime)}
+                  </button>
+                )}
+              </div>
+              <p className="text-sm leading-relaxed text-foreground/90">
+                {turn.sentences.map((sentence, offset) => {
+                  const index = turn.startIndex + offset;
+                  return (
+                    <React.Fragment key={index}>
+                      <span
+                        data-sentence-index={index}
+                        title={sentence.startTime !== undefined ? formatTimestamp(sentence.startTime) : undefined}
+                        className={`rounded-sm transition-colors ${
+                          activeIndex === index ? "bg-foreground/10" : ""
+                        } ${savedIndexes.has(index) ? "underline decoration-amber-500 decoration-2 underline-offset-4" : ""}`}
+                      >
+                        <HighlightedText
+                          text={sentence.text}
+                          query={query}
+                          isCurrent={matches[currentMatch] === index}
+                        />
+                      </span>{" "}
+                    </React.Fragment>
+                  );
+                })}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {selection ? (
+        <div className="space-y-2 rounded-md border border-foreground/15 bg-foreground/[0.02] p-3">
+          <p className="line-clamp-3 text-xs italic text-foreground/80">&ldquo;{selection.quote}&rdquo;</p>
+          {transcript.clientId ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why it matters (optional)"
+                className={`${INPUT_CLASS} min-w-0 flex-1`}
+              />
+              <button
+                type="button"
+                onClick={handleSaveSoundbite}
+                disabled={isSaving}
+                className="flex items-center gap-1 rounded-md bg-primary px-3 py-2 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                <Quote className="h-3 w-3" />
+                {isSaving ? "Saving..." : "Save soundbite"}
+              </button>
+              <button
+                type="button"
+                onClick={clearSelection}
+                className="rounded-md border border-foreground/15 px-3 py-2 text-xs hover:bg-foreground/5"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-foreground/60">Link this transcript to a client to save soundbites.</p>
+          )}
+        </div>
+      ) : (
+        transcript.clientId && (
+          <p className="text-xs text-foreground/50">
+            Highlight part of the transcript to save it as a soundbite scripts can quote.
+          </p>
+        )
+      )}
+
+      {soundbites && soundbites.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-foreground/70">Soundbites from this call</p>
+          <ul className="space-y-2">
+            {soundbites.map((soundbite) => (
+              <li key={soundbite._id} className="flex items-start gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => scrollToSentence(soundbite.startIndex)}
+                  className="shrink-0 tabular-nums text-foreground/50 hover:text-foreground"
+                >
+                  {soundbite.startTime !== undefined ? formatTimestamp(soundbite.startTime) : "Go to"}
+                </button>
+                <div className="min-w-0 flex-1">
+                  <p className="text-foreground/80">
+                    &ldquo;{soundbite.quote}&rdquo;
+                    {soundbite.speakerName && <span className="text-foreground/50"> — {soundbite.speakerName}</span>}
+                  </p>
+                  {soundbite.note && <p className="text-foreground/50">{soundbite.note}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteSoundbite(soundbite._id)}
+                  className="shrink-0 rounded p-1 text-foreground/40 hover:bg-foreground/5 hover:text-red-500"
+                  aria-label="Remove soundbite"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
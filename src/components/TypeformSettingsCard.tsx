@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import Link from "next/link";
 import { useMutation, useQuery, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import {
@@ -11,6 +12,33 @@ import {
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
+import {
+  MAPPABLE_CLIENT_FIELDS,
+  FIELD_COERCIONS,
+  DEFAULT_FIELD_MAPPING_RULES,
+  defaultCoercionForField,
+  type MappableClientField,
+  type FieldCoercion,
+  type FieldMappingRule,
+} from "../../convex/utils/typeformFieldMapping";
+
+const CLIENT_FIELD_LABELS: Record<MappableClientField, string> = {
+  businessName: "Business name",
+  businessEmail: "Business email",
+  contactFirstName: "Contact first name",
+  contactLastName: "Contact last name",
+  targetRevenue: "Target revenue",
+  servicesOffered: "Services offered",
+  notes: "Notes",
+};
+
+const COERCION_LABELS: Record<FieldCoercion, string> = {
+  string: "Text",
+  email: "Email (lowercased)",
+  full_name: "Full name (split first/last)",
+  number: "Number",
+  revenue_range: "Revenue range (20-30k → 30,000)",
+};
 
 function formatRelativeTime(timestamp: number): string {
   const now = Date.now();
@@ -37,55 +65,267 @@ function formatRelativeTime(timestamp: number): string {
   return new Date(timestamp).toLocaleDateString();
 }
 
+function TypeformFieldMappingEditor({
+  email,
+  forms,
+  formsLoading,
+}: {
+  email: string;
+  forms: Array<{ id: string; title: string }>;
+  formsLoading: boolean;
+}) {
+  const fetchFormDetails = useAction(api.typeformActions.fetchTypeformFormDetails);
+  const setMapping = useMutation(api.typeformFieldMappings.setMappingForForm);
+  const deleteMapping = useMutation(api.typeformFieldMappings.deleteMappingForForm);
+  const [formId, setFormId] = React.useState("");
+  const savedMapping = useQuery(
+    api.typeformFieldMappings.getMappingForForm,
+    formId ? { email, formId } : "skip"
+  );
+  const [fields, setFields] = React.useState<Array<{ id: string; ref: string; title: string; type: string }>>([]);
+  const [fieldsLoading, setFieldsLoading] = React.useState(false);
+  const [fieldsError, setFieldsError] = React.useState<string | null>(null);
+  const [draft, setDraft] = React.useState<Record<string, { field: MappableClientField; coercion: FieldCoercion }>>({});
+  const [saving, setSaving] = React.useState(false);
+  const [saved, setSaved] = React.useState(false);
+
+  // Load questions for the selected form
+  React.useEffect(() => {
+    if (!formId) {
+      setFields([]);
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      setFieldsLoading(true);
+      setFieldsError(null);
+      try {
+        const details = await fetchFormDetails({ email, formId });
+        if (!cancelled) setFields(details?.fields ?? []);
+      } catch (error) {
+        console.error("Failed to fetch form details:", error);
+        if (!cancelled) setFieldsError(error instanceof Error ? error.message : "Failed to load questions");
+      } finally {
+        if (!cancelled) setFieldsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [email, formId, fetchFormDetails]);
+
+  // Seed the draft from the saved mapping (or the default mapping) once it loads
+  React.useEffect(() => {
+    if (!formId || savedMapping === undefined) return;
+    const rules: FieldMappingRule[] = savedMapping?.rules ?? DEFAULT_FIELD_MAPPING_RULES;
+    const next: Record<string, { field: MappableClientField; coercion: FieldCoercion }> = {};
+    for (const rule of rules) {
+      next[rule.fieldRef] = { field: rule.field, coercion: rule.coercion };
+    }
+    setDraft(next);
+    setSaved(false);
+  }, [formId, savedMapping]);
+
+  const updateField = (ref: string, value: string) => {
+    setSaved(false);
+    setDraft((prev) => {
+      const next = { ...prev };
+      if (!value) {
+        delete next[ref];
+      } else {
+        const field = value as MappableClientField;
+        next[ref] = { field, coercion: defaultCoercionForField(field) };
+      }
+      return next;
+    });
+  };
+
+  const updateCoercion = (ref: string, coercion: FieldCoercion) => {
+    setSaved(false);
+    setDraft((prev) => (prev[ref] ? { ...prev, [ref]: { ...prev[ref], coercion } } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!formId) return;
+    setSaving(true);
+    try {
+      const titles = new Map(fields.map((f) => [f.ref, f.title]));
+      await setMapping({
+        email,
+        formId,
+        formTitle: forms.find((f) => f.id === formId)?.title,
+        rules: Object.entries(draft).map(([fieldRef, rule]) => ({
+          fieldRef,
+          field: rule.field,
+          coercion: rule.coercion,
+          questionTitle: titles.get(fieldRef),
+        })),
+      });
+      setSaved(true);
+    } catch (error) {
+      console.error("Failed to save field mapping:", error);
+      alert(error instanceof Error ? error.message : "Failed to save field mapping");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!formId || !savedMapping) return;
+    if (!confirm("Remove the custom mapping for this form and use the default mapping?")) return;
+    await deleteMapping({ email, formId });
+  };
+
+  const mappedCount = Object.keys(draft).filter((ref) => fields.some((f) => f.ref === ref)).length;
+
+  return (
+    <div className="pt-4 border-t border-foreground/10 space-y-2">
+      <label className="text-sm text-foreground/70">Field Mapping</label>
+      <select
+        className="w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
+        value={formId}
+        onChange={(e) => setFormId(e.target.value)}
+        disabled={formsLoading || forms.length === 0}
+      >
+        <option value="">{formsLoading ? "Loading forms..." : forms.length === 0 ? "No forms available" : "Select a form to map"}</option>
+        {forms.map((form) => (
+          <option key={form.id} value={form.id}>
+            {form.title}
+          </option>
+        ))}
+      </select>
+      {formId && (
+        <>
+          <p className="text-xs text-foreground/60">
+            {savedMapping === undefined
+              ? "Loading mapping..."
+              : savedMapping
+              ? `Custom mapping saved ${new Date(savedMapping.updatedAt).toLocaleString()}`
+              : "No custom mapping saved — using the default mapping."}
+          </p>
+          {fieldsLoading && <p className="text-xs text-foreground/60">Loading questions...</p>}
+          {fieldsError && <p className="text-xs text-red-500/80">{fieldsError}</p>}
+          {!fieldsLoading && fields.length > 0 && (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {fields.map((field) => {
+                const rule = draft[field.ref];
+                return (
+                  <div key={field.ref} className="rounded-md border border-foreground/10 p-3 space-y-2">
+                    <div className="text-sm text-foreground/90">{field.title}</div>
+                    <div className="text-[11px] font-mono text-foreground/40">
+                      {field.ref} · {field.type}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        className="w-full rounded-md border border-foreground/15 bg-background/50 px-2 py-1.5 text-xs"
+                        value={rule?.field ?? ""}
+                        onChange={(e) => updateField(field.ref, e.target.value)}
+                      >
+                        <option value="">Not mapped</option>
+                        {MAPPABLE_CLIENT_FIELDS.map((clientField) => (
+                          <option key={clientField} value={clientField}>
+                            {CLIENT_FIELD_LABELS[clientField]}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        className="w-full rounded-md border border-foreground/15 bg-background/50 px-2 py-1.5 text-xs disabled:opacity-50"
+                        value={rule?.coercion ?? ""}
+                        onChange={(e) => updateCoercion(field.ref, e.target.value as FieldCoercion)}
+                        disabled={!rule}
+                      >
+                        {!rule && <option value="">—</option>}
+                        {FIELD_COERCIONS.map((coercion) => (
+                          <option key={coercion} value={coercion}>
+                            {COERCION_LABELS[coercion]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || fieldsLoading || fields.length === 0}
+              className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : saved ? "Saved" : `Save Mapping (${mappedCount})`}
+            </button>
+            {savedMapping && (
+              <button
+                onClick={handleReset}
+                className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5"
+              >
+                Use Default
+              </button>
+            )}
+          </div>
+        </>
+      )}
+      <p className="text-xs text-foreground/60">
+        Choose which question fills each client field. Used by the webhook, response sync and script generation.
+      </p>
+    </div>
+  );
+}
+
 export default function TypeformSettingsCard({ email, appUrl }: { email: string; appUrl: string }) {
   const cfg = useQuery(api.typeform.getConfigForEmail, { email });
   const latestActivity = useQuery(api.typeform.getLatestActivityForEmail, { email });
   const setSecret = useMutation(api.typeform.setSecretForEmail);
-  const setAccessToken = useMutation(api.typeform.setAccessTokenForEmail);
+  const setCredential = useAction(api.credentialsActions.setCredentialForEmail);
+  const rotateWebhookToken = useMutation(api.typeform.rotateWebhookTokenForEmail);
   const syncResponses = useAction(api.typeformActions.syncTypeformResponses);
   const fetchForms = useAction(api.typeformActions.fetchTypeformForms);
   const [pending, setPending] = React.useState(false);
   const [tokenPending, setTokenPending] = React.useState(false);
+  const [rotatePending, setRotatePending] = React.useState(false);
   const [syncPending, setSyncPending] = React.useState(false);
   const [syncResult, setSyncResult] = React.useState<{ synced: number; skipped: number; total: number } | null>(null);
   const [formId, setFormId] = React.useState("");
   const [forms, setForms] = React.useState<Array<{ id: string; title: string }>>([]);
   const [formsLoading, setFormsLoading] = React.useState(false);
   const [formsError, setFormsError] = React.useState<string | null>(null);
-  const [lastAccessToken, setLastAccessToken] = React.useState<string | undefined>(undefined);
+  const [lastMaskedAccessToken, setLastMaskedAccessToken] = React.useState<string | undefined>(undefined);
   const [copied, setCopied] = React.useState<"endpoint" | "secret" | null>(null);
   const [expanded, setExpanded] = React.useState(false);
   const [showPayload, setShowPayload] = React.useState(false);
   const [accessTokenValue, setAccessTokenValue] = React.useState("");
   const [showUpdateTokenDialog, setShowUpdateTokenDialog] = React.useState(false);
   const [tick, setTick] = React.useState(0);
-  const endpoint = `${appUrl}/api/typeform/webhook?user=${encodeURIComponent(email)}`;
+  const endpoint = cfg?.webhookToken ? `${appUrl}/api/typeform/webhook/${cfg.webhookToken}` : "";
 
-  // Initialize access token input when config loads
+  // The access token is write-only: the input shows its masked suffix until it's replaced
+  const maskedAccessToken = cfg?.maskedAccessToken ?? null;
   React.useEffect(() => {
-    if (cfg?.accessToken && accessTokenValue === "") {
+    if (maskedAccessToken && (accessTokenValue === "" || accessTokenValue.startsWith("••••••••"))) {
       // Show masked value if token exists and input is empty
-      setAccessTokenValue("••••••••");
-    } else if (!cfg?.accessToken && accessTokenValue === "••••••••") {
+      setAccessTokenValue(maskedAccessToken);
+    } else if (!maskedAccessToken && accessTokenValue.startsWith("••••••••")) {
       // Clear masked value if token was removed
       setAccessTokenValue("");
     }
-  }, [cfg?.accessToken]);
+  }, [maskedAccessToken, cfg?.updatedAt]);
 
   // Fetch forms when access token is available
   React.useEffect(() => {
-    if (!cfg?.accessToken) {
+    if (!maskedAccessToken) {
       // Clear forms if access token is removed
       setForms([]);
       setFormsError(null);
-      setLastAccessToken(undefined);
+      setLastMaskedAccessToken(undefined);
       return;
     }
     
     // If access token changed, reset forms to trigger a fresh fetch
-    if (lastAccessToken !== cfg.accessToken) {
+    if (lastMaskedAccessToken !== maskedAccessToken) {
       setForms([]);
-      setLastAccessToken(cfg.accessToken);
+      setLastMaskedAccessToken(maskedAccessToken);
     }
     
     // Don't re-fetch if already loading or forms already loaded
@@ -107,7 +347,7 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
 
     loadForms();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [cfg?.accessToken, email]);
+  }, [maskedAccessToken, email]);
 
   // Update relative time every second
   React.useEffect(() => {
@@ -141,7 +381,23 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
     }
   }, [email, setSecret]);
 
+  const rotateEndpoint = React.useCallback(async () => {
+    if (cfg?.webhookToken && !confirm("Rotate the webhook URL? Typeform must be updated with the new URL; the old one stops working.")) {
+      return;
+    }
+    setRotatePending(true);
+    try {
+      await rotateWebhookToken({ email });
+    } catch (error) {
+      console.error("Failed to rotate webhook URL:", error);
+      alert(error instanceof Error ? error.message : "Failed to rotate webhook URL");
+    } finally {
+      setRotatePending(false);
+    }
+  }, [email, cfg?.webhookToken, rotateWebhookToken]);
+
   const copyEndpoint = React.useCallback(async () => {
+    if (!endpoint) return;
     await navigator.clipboard.writeText(endpoint);
     setCopied("endpoint");
     setTimeout(() => setCopied(null), 2000);
@@ -155,13 +411,13 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
   }, [cfg?.secret]);
 
   const saveAccessToken = React.useCallback(async () => {
-    if (!accessTokenValue || accessTokenValue.trim() === "" || accessTokenValue === "••••••••") {
+    if (!accessTokenValue || accessTokenValue.trim() === "" || accessTokenValue === maskedAccessToken) {
       return;
     }
     const tokenToSave = accessTokenValue.trim();
     setTokenPending(true);
     try {
-      await setAccessToken({ email, accessToken: tokenToSave });
+      await setCredential({ email, kind: "typeform_access_token", value: tokenToSave });
       // Mask the token after successfully saving
       setAccessTokenValue("••••••••");
       setShowUpdateTokenDialog(false);
@@ -170,7 +426,7 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
     } finally {
       setTokenPending(false);
     }
-  }, [email, accessTokenValue, setAccessToken]);
+  }, [email, accessTokenValue, maskedAccessToken, setCredential]);
 
   const handleUpdateTokenConfirm = React.useCallback(() => {
     setShowUpdateTokenDialog(false);
@@ -212,11 +468,20 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
           <input
             className="w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
             value={endpoint}
+            placeholder="No webhook URL yet"
             readOnly
           />
+          <button
+            onClick={rotateEndpoint}
+            disabled={rotatePending}
+            className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+          >
+            {cfg?.webhookToken ? "Rotate" : "Generate"}
+          </button>
           <button
             onClick={copyEndpoint}
-            className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 transition-all duration-150 relative overflow-hidden flex items-center justify-center"
+            disabled={!endpoint}
+            className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50 transition-all duration-150 relative overflow-hidden flex items-center justify-center"
           >
             <span className={`inline-block transition-all duration-200 ${copied === "endpoint" ? "animate-elastic-bounce scale-110" : ""}`}>
               {copied === "endpoint" ? "Copied!" : "Copy"}
@@ -251,9 +516,14 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
           </button>
         </div>
       </div>
+      {cfg !== undefined && !cfg?.secret && (
+        <p className="rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+          Webhooks are rejected until a secret is set. Generate one and add it to your Typeform webhook.
+        </p>
+      )}
       <p className="text-xs text-foreground/60">
-        Add the endpoint to your Typeform webhook and paste the secret there as well. We'll use it
-        to verify requests later.
+        Add the endpoint to your Typeform webhook and paste the secret there as well. Every request
+        must be signed with it. Webhooks act as whoever last generated the URL. <Link href="/webhooks" className="underline hover:text-foreground/80 transition-colors">View deliveries</Link>
       </p>
 
       <div className="pt-4 border-t border-foreground/10 space-y-2">
@@ -262,7 +532,7 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
           <input
             type="text"
             className={`w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm font-mono ${
-              accessTokenValue === "••••••••" && cfg?.accessToken ? "cursor-pointer" : ""
+              maskedAccessToken && accessTokenValue === maskedAccessToken ? "cursor-pointer" : ""
             }`}
             value={accessTokenValue}
             onChange={(e) => {
@@ -270,28 +540,28 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
             }}
             onFocus={(e) => {
               // Show dialog if token is masked
-              if (accessTokenValue === "••••••••" && cfg?.accessToken) {
+              if (maskedAccessToken && accessTokenValue === maskedAccessToken) {
                 e.target.blur();
                 setShowUpdateTokenDialog(true);
               }
             }}
             onClick={(e) => {
               // Show dialog if token is masked
-              if (accessTokenValue === "••••••••" && cfg?.accessToken) {
+              if (maskedAccessToken && accessTokenValue === maskedAccessToken) {
                 e.preventDefault();
                 setShowUpdateTokenDialog(true);
               }
             }}
-            readOnly={accessTokenValue === "••••••••" && !!cfg?.accessToken}
-            placeholder={cfg?.accessToken ? "Click to update token" : "Enter your Typeform personal access token"}
+            readOnly={!!maskedAccessToken && accessTokenValue === maskedAccessToken}
+            placeholder={maskedAccessToken ? "Click to update token" : "Enter your Typeform personal access token"}
             disabled={tokenPending}
           />
           <button
             onClick={saveAccessToken}
-            disabled={tokenPending || !accessTokenValue || accessTokenValue.trim() === "" || accessTokenValue === "••••••••"}
+            disabled={tokenPending || !accessTokenValue || accessTokenValue.trim() === "" || accessTokenValue === maskedAccessToken}
             className="px-3 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {tokenPending ? "Saving..." : cfg?.accessToken ? "Update" : "Save"}
+            {tokenPending ? "Saving..." : maskedAccessToken ? "Update" : "Save"}
           </button>
         </div>
         <p className="text-xs text-foreground/60">
@@ -314,7 +584,7 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
             className="w-full rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
             value={formId}
             onChange={(e) => setFormId(e.target.value)}
-            disabled={syncPending || formsLoading || !cfg?.accessToken}
+            disabled={syncPending || formsLoading || !maskedAccessToken}
           >
             <option value="">
               {formsLoading ? "Loading forms..." : formsError ? "Error loading forms" : forms.length === 0 ? "No forms available" : "Select a form"}
@@ -327,7 +597,7 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
           </select>
           <button
             onClick={handleSyncResponses}
-            disabled={syncPending || !formId.trim() || !cfg?.accessToken || formsLoading}
+            disabled={syncPending || !formId.trim() || !maskedAccessToken || formsLoading}
             className="px-4 py-2 text-sm rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-150 font-light"
           >
             {syncPending ? "Syncing..." : "Sync All"}
@@ -348,6 +618,10 @@ export default function TypeformSettingsCard({ email, appUrl }: { email: string;
         </p>
       </div>
 
+      {maskedAccessToken && (
+        <TypeformFieldMappingEditor email={email} forms={forms} formsLoading={formsLoading} />
+      )}
+
       {latestActivity && (
         <div className="pt-4 border-t border-foreground/10">
           <button
@@ -26,6 +26,11 @@ export default function UnlinkedResponses({ email }: UnlinkedResponsesProps) {
   const createClient = useMutation(api.clients.upsertClientFromTypeform);
   const linkResponse = useMutation(api.clients.linkResponseToClient);
   const existingClients = useQuery(api.clients.getAllClientsForOwner, { ownerEmail: email });
+  const fieldMappings = useQuery(api.typeformFieldMappings.getMappingsForEmail, { email });
+  const rulesByFormId = React.useMemo(
+    () => new Map((fieldMappings ?? []).map((m) => [m.formId, m.rules])),
+    [fieldMappings]
+  );
 
   const [creating, setCreating] = React.useState<string | null>(null);
   const [creatingAll, setCreatingAll] = React.useState(false);
@@ -156,7 +161,10 @@ export default function UnlinkedResponses({ email }: UnlinkedResponsesProps) {
     try {
       for (const response of unlinkedResponses) {
         try {
-          const extractedData = extractTypeformData(response.payload as Parameters<typeof extractTypeformData>[0]);
+          const extractedData = extractTypeformData(
+            response.payload as Parameters<typeof extractTypeformData>[0],
+            rulesByFormId.get(response.formId)
+          );
           
           // businessEmail is now optional
           const businessEmail = extractedData.businessEmail;
@@ -215,7 +223,10 @@ export default function UnlinkedResponses({ email }: UnlinkedResponsesProps) {
         <CardContent>
           <div className="space-y-2 max-h-[calc(100vh-300px)] overflow-y-auto">
             {unlinkedResponses.map((response) => {
-              const extractedData = extractTypeformData(response.payload as Parameters<typeof extractTypeformData>[0]);
+              const extractedData = extractTypeformData(
+                response.payload as Parameters<typeof extractTypeformData>[0],
+                rulesByFormId.get(response.formId)
+              );
               
               const businessName = extractedData.businessName || "Unnamed Business";
               const contactName = extractedData.contactFirstName || extractedData.contactLastName
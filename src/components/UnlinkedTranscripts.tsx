@@ -3,6 +3,8 @@
 import * as React from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { TranscriptSentence } from "../../convex/utils/transcriptSentences";
 import { Button } from "./ui/button";
 import {
   Dialog,
@@ -25,6 +27,7 @@ import {
 } from "./ui/alert-dialog";
 import { Input } from "./ui/input";
 import { Maximize2, Link2, Pencil } from "lucide-react";
+import TranscriptViewer from "./TranscriptViewer";
 
 type UnlinkedTranscriptsProps = {
   email: string;
@@ -50,18 +53,20 @@ export default function UnlinkedTranscripts({ email, clientId, showEditButton =
     clientId ? { clientId: clientId as any } : { email }
   );
   const clients = useQuery(api.clients.getAllClientsForOwner, { ownerEmail: email });
-  const linkTranscript = useMutation(api.clients.linkTranscriptToClient);
+  const recordLinkingAttempt = useMutation(api.fireflies.recordLinkingAttempt);
   const unlinkTranscript = useMutation(api.clients.unlinkTranscriptFromClient);
   const updateClientEmail = useMutation(api.clients.updateClientEmail);
 
   const [linking, setLinking] = React.useState<string | null>(null);
   const [selectedTranscript, setSelectedTranscript] = React.useState<{
+    _id: Id<"fireflies_transcripts">;
+    clientId?: Id<"clients">;
     transcriptId: string;
     title: string;
     transcript: string;
     date: number;
     participants?: string[];
-    sentences?: Array<{ text: string; speakerName?: string; speakerId?: string }>;
+    sentences?: TranscriptSentence[];
     mode: "view" | "edit";
   } | null>(null);
   const [dialogSearchQuery, setDialogSearchQuery] = React.useState("");
@@ -253,11 +258,23 @@ export default function UnlinkedTranscripts({ email, clientId, showEditButton =
     });
     
     try {
-      // Link all transcripts with the same email
+      // Link all transcripts with the same email; manual links teach alias rules
+      const timestamp = Date.now();
+      const clientName = effectiveClients.find(c => c._id === clientId)?.businessName ?? "client";
       const linkPromises = transcriptsToLink.map(t => 
-        linkTranscript({
+        recordLinkingAttempt({
           transcriptId: t.transcriptId,
           clientId: clientId as any,
+          overwriteClient: true,
+          linkingStatus: "manually_linked",
+          lastLinkAttemptAt: timestamp,
+          linkingHistoryEntry: {
+            stage: "manual_list",
+            status: "success",
+            timestamp,
+            clientId: clientId as any,
+            reason: `Linked to ${clientName} from the transcripts list.`,
+          },
         })
       );
       
@@ -405,6 +422,8 @@ export default function UnlinkedTranscripts({ email, clientId, showEditButton =
 
   const handleOpenDialog = (transcript: Transcript, mode: "view" | "edit" = "view") => {
     setSelectedTranscript({
+      _id: transcript._id,
+      clientId: transcript.clientId,
       transcriptId: transcript.transcriptId,
       title: transcript.title,
       transcript: transcript.transcript,
@@ -626,7 +645,11 @@ export default function UnlinkedTranscripts({ email, clientId, showEditButton =
             setDialogSelectedClientId("");
           }
         }}>
-          <DialogContent className="flex flex-col gap-0 p-0 sm:max-h-[min(640px,80vh)] sm:max-w-lg [&>button:last-child]:hidden">
+          <DialogContent
+            className={`flex flex-col gap-0 p-0 [&>button:last-child]:hidden ${
+              selectedTranscript.mode === "view" ? "sm:max-h-[90vh] sm:max-w-3xl" : "sm:max-h-[min(640px,80vh)] sm:max-w-lg"
+            }`}
+          >
             <div className="overflow-y-auto">
               <DialogHeader className="contents space-y-0 text-left">
                 <DialogTitle className="px-6 pt-6 text-base">
@@ -644,31 +667,10 @@ export default function UnlinkedTranscripts({ email, clientId, showEditButton =
                           )}
                         </p>
                       </div>
-                      <div className="space-y-2">
-                          {selectedTranscript.sentences && selectedTranscript.sentences.length > 0 ? (
-                            <div className="space-y-3">
-                              {selectedTranscript.sentences.map((sentence, index) => (
-                                <div key={index} className="space-y-1">
-                                  {sentence.speakerName && (
-                                    <p className="text-xs font-semibold text-foreground/70">
-                                      {sentence.speakerName}
-                                    </p>
-                                  )}
-                                  <p className="text-sm text-foreground/90 whitespace-pre-wrap">
-                                    {sentence.text}
-                                  </p>
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                        <p className="text-sm text-foreground/90 whitespace-pre-wrap">
-                          {selectedTranscript.transcript}
-                        </p>
-                          )}
-                        </div>
-                      </div>
+                      <TranscriptViewer transcript={selectedTranscript} />
                     </div>
-                  </DialogDescription>
+                  </div>
+                </DialogDescription>
                 )}
                 {selectedTranscript.mode === "edit" && (
                   <DialogDescription asChild>
@@ -5,6 +5,7 @@ import { api } from "../../convex/_generated/api";
 import { extractClientInfo } from "@/lib/typeform";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import * as React from "react";
+import ScriptStatusBadge from "./ScriptStatusBadge";
 
 type UpcomingScriptsProps = {
   email: string;
@@ -34,6 +35,12 @@ function getNextScriptDate(submittedAt: string | null): string | null {
 
 export default function UpcomingScripts({ email }: UpcomingScriptsProps) {
   const responses = useQuery(api.typeform.getAllResponsesForEmail, { email });
+  const scriptStatuses = useQuery(api.scriptReview.getLatestScriptStatusesForEmail, { email });
+  const latestStatusByResponseId = new Map(
+    (scriptStatuses ?? [])
+      .filter((s) => s.onboardingResponseId)
+      .map((s) => [s.onboardingResponseId as string, s])
+  );
 
   if (responses === undefined) {
     return (
@@ -60,6 +67,7 @@ export default function UpcomingScripts({ email }: UpcomingScriptsProps) {
         nextScriptDate,
         daysUntil,
         responseId: response._id,
+        latestScript: latestStatusByResponseId.get(response.responseId) ?? null,
       };
     })
     .filter((script) => {
@@ -115,6 +123,12 @@ export default function UpcomingScripts({ email }: UpcomingScriptsProps) {
                     <span className="px-2 py-0.5 rounded-full bg-foreground/10 text-foreground/70 text-xs font-medium whitespace-nowrap">
                       Script #{scriptNumber}
                     </span>
+                    {script.latestScript && (
+                      <ScriptStatusBadge
+                        status={script.latestScript.status}
+                        className="shrink-0"
+                      />
+                    )}
                   </div>
                   <div className="flex items-center gap-4 text-xs text-foreground/60">
                     <div className="flex items-center gap-1.5">
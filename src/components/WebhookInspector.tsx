@@ -0,0 +1,168 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import type { WebhookDeliveryStatus } from "../../convex/utils/webhookDeliveries";
+import { Badge } from "./ui/badge";
+import { SegmentedControl } from "./ui/segmented-control";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+type Provider = "typeform" | "fireflies";
+type Delivery = Doc<"typeform_webhooks"> | Doc<"fireflies_webhooks">;
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, { label: string; variant: "default" | "success" | "destructive" }> = {
+  received: { label: "Processing", variant: "default" },
+  processed: { label: "Processed", variant: "success" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+function describeDelivery(delivery: Delivery): string {
+  if ("formId" in delivery && delivery.formId) return `Form ${delivery.formId}`;
+  if ("meetingId" in delivery && delivery.meetingId) return `Meeting ${delivery.meetingId}`;
+  return "—";
+}
+
+export default function WebhookInspector({ email }: { email: string }) {
+  const [provider, setProvider] = React.useState<Provider>("typeform");
+  const [statusFilter, setStatusFilter] = React.useState<"all" | WebhookDeliveryStatus>("all");
+  const [selected, setSelected] = React.useState<Delivery | null>(null);
+  const [replaying, setReplaying] = React.useState<string | null>(null);
+
+  const status = statusFilter === "all" ? undefined : statusFilter;
+  const typeformDeliveries = useQuery(
+    api.typeform.listWebhooksForEmail,
+    provider === "typeform" ? { email, status } : "skip"
+  );
+  const firefliesDeliveries = useQuery(
+    api.fireflies.listWebhooksForEmail,
+    provider === "fireflies" ? { email, status } : "skip"
+  );
+  const deliveries: Delivery[] | undefined = provider === "typeform" ? typeformDeliveries : firefliesDeliveries;
+
+  const replay = async (delivery: Delivery) => {
+    setReplaying(delivery._id);
+    try {
+      const response = await fetch("/api/webhooks/replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider, webhookId: delivery._id }),
+      });
+      const result = (await response.json()) as { status?: string; error?: string };
+      if (!response.ok || result.status === "failed") {
+        alert(result.error || "Replay failed");
+      }
+    } catch (error) {
+      console.error("Failed to replay webhook:", error);
+      alert("Failed to replay webhook");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <SegmentedControl
+          options={[
+            { value: "typeform", label: "Typeform" },
+            { value: "fireflies", label: "Fireflies" },
+          ]}
+          value={provider}
+          onChange={(value) => setProvider(value as Provider)}
+        />
+        <select
+          className="rounded-md border border-foreground/15 bg-background/50 px-3 py-2 text-sm"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+        >
+          <option value="all">All statuses</option>
+          <option value="failed">Failed</option>
+          <option value="received">Processing</option>
+          <option value="processed">Processed</option>
+        </select>
+      </div>
+
+      <div className="rounded-lg border border-foreground/10 overflow-hidden">
+        {deliveries === undefined ? (
+          <p className="px-4 py-8 text-center text-sm text-foreground/60">Loading...</p>
+        ) : deliveries.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-foreground/60">No deliveries yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-foreground/5 text-xs text-foreground/60">
+              <tr>
+                <th className="px-4 py-2 text-left font-normal">Received</th>
+                <th className="px-4 py-2 text-left font-normal">Event</th>
+                <th className="px-4 py-2 text-left font-normal">Subject</th>
+                <th className="px-4 py-2 text-left font-normal">Status</th>
+                <th className="px-4 py-2 text-right font-normal" />
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => {
+                const badge = delivery.status ? STATUS_BADGES[delivery.status] : null;
+                return (
+                  <tr key={delivery._id} className="border-t border-foreground/5 align-top">
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(delivery.receivedAt).toLocaleString()}</td>
+                    <td className="px-4 py-2">{delivery.eventType ?? "—"}</td>
+                    <td className="px-4 py-2 font-mono text-xs">{describeDelivery(delivery)}</td>
+                    <td className="px-4 py-2">
+                      {badge ? <Badge variant={badge.variant} size="sm">{badge.label}</Badge> : <span className="text-foreground/40">—</span>}
+                      {(delivery.attempts ?? 1) > 1 && (
+                        <span className="ml-2 text-xs text-foreground/50">{delivery.attempts} attempts</span>
+                      )}
+                      {delivery.error && (
+                        <p className="mt-1 max-w-xs text-xs text-red-600 dark:text-red-400 line-clamp-2" title={delivery.error}>
+                          {delivery.error}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setSelected(delivery)}
+                        className="px-3 py-1 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5"
+                      >
+                        Payload
+                      </button>
+                      <button
+                        onClick={() => replay(delivery)}
+                        disabled={replaying !== null || delivery.status === "received"}
+                        className="ml-2 px-3 py-1 text-xs rounded-md border border-foreground/15 hover:bg-foreground/5 disabled:opacity-50"
+                      >
+                        {replaying === delivery._id ? "Replaying..." : "Replay"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Webhook Payload</DialogTitle>
+            <DialogDescription>
+              {selected ? `Received ${new Date(selected.receivedAt).toLocaleString()}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <pre className="p-4 rounded-md bg-background/50 border border-foreground/10 text-xs overflow-x-auto">
+              {JSON.stringify(selected.payload, null, 2)}
+            </pre>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import * as React from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { Editor } from "@tiptap/react";
+import type { Transaction } from "@tiptap/pm/state";
+import { Step } from "@tiptap/pm/transform";
+import { getVersion, receiveTransaction, sendableSteps } from "@tiptap/pm/collab";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { PRESENCE_TTL_MS } from "../../convex/utils/scriptCollab";
+import { COLLAB_LOAD_META, loadCollabDocument, presenceColor, setCollabCursors, stopCollab } from "@/lib/scriptCollab";
+
+// Wait for typing to settle before saving a snapshot of the content
+const SNAPSHOT_DEBOUNCE_MS = 2000;
+const PRESENCE_HEARTBEAT_MS = 10 * 1000;
+const PRESENCE_THROTTLE_MS = 300;
+
+type Snapshot = { contentHtml: string; contentVersion?: number };
+
+export type Collaborator = { sessionId: string; email: string; color: string };
+
+/**
+ * Keeps a TipTap editor in sync with everyone else editing the same script.
+ * Local edits are sent as steps, other editors' steps are rebased in, and a
+ * snapshot of the HTML is saved once our steps are confirmed.
+ * Pass scriptId null while no script is open.
+ */
+export function useScriptCollab({
+  editor,
+  scriptId,
+  email,
+  snapshot,
+}: {
+  editor: Editor | null;
+  scriptId: Id<"scripts"> | null;
+  email: string;
+  // Saved content of the script, used when it is opened
+  snapshot: Snapshot | null;
+}) {
+  const submitSteps = useMutation(api.scriptCollab.submitSteps);
+  const updateScript = useMutation(api.scripts.updateScriptContent);
+  const updatePresence = useMutation(api.scriptCollab.updatePresence);
+  const leaveScript = useMutation(api.scriptCollab.leaveScript);
+
+  const sessionId = React.useMemo(() => crypto.randomUUID(), []);
+  const [version, setVersion] = React.useState<number | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [lastSavedTime, setLastSavedTime] = React.useState<Date | null>(null);
+  const [now, setNow] = React.useState(() => Date.now());
+
+  const loadedScriptIdRef = React.useRef<Id<"scripts"> | null>(null);
+  const inFlightRef = React.useRef(false);
+  const dirtyRef = React.useRef(false);
+  const snapshotTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const nextSaveSourceRef = React.useRef<"manual" | "ai_edit">("manual");
+
+  const stepsResult = useQuery(
+    api.scriptCollab.getStepsSince,
+    scriptId && version !== null ? { scriptId, email, version } : "skip"
+  );
+  const presence = useQuery(api.scriptCollab.getPresence, scriptId ? { scriptId, email } : "skip");
+
+  const load = React.useCallback(
+    (html: string, atVersion: number) => {
+      if (!editor) return;
+      loadCollabDocument(editor, html, atVersion, sessionId);
+      dirtyRef.current = false;
+      setVersion(atVersion);
+    },
+    [editor, sessionId]
+  );
+
+  // Open (or close) the script
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    if (!scriptId) {
+      if (loadedScriptIdRef.current) {
+        stopCollab(editor);
+        loadedScriptIdRef.current = null;
+        setVersion(null);
+      }
+      return;
+    }
+    if (loadedScriptIdRef.current === scriptId || !snapshot) return;
+    loadedScriptIdRef.current = scriptId;
+    load(snapshot.contentHtml, snapshot.contentVersion ?? 0);
+  }, [editor, scriptId, snapshot, load]);
+
+  const trySend = React.useCallback(async () => {
+    if (!editor || editor.isDestroyed || !scriptId || inFlightRef.current) return;
+    const sendable = sendableSteps(editor.state);
+    if (!sendable) return;
+    inFlightRef.current = true;
+    try {
+      await submitSteps({
+        scriptId,
+        email,
+        clientId: String(sendable.clientID),
+        version: sendable.version,
+        steps: sendable.steps.map((step) => step.toJSON()),
+      });
+    } catch (error) {
+      console.error("Failed to send script edits:", error);
+    } finally {
+      inFlightRef.current = false;
+    }
+    // Steps received while we were sending may have unblocked more of ours.
+    // Otherwise the next batch of steps from the server triggers the retry.
+    if (!editor.isDestroyed && getVersion(editor.state) !== sendable.version) {
+      void trySend();
+    }
+  }, [editor, scriptId, email, submitSteps]);
+
+  const saveSnapshot = React.useCallback(async () => {
+    snapshotTimerRef.current = null;
+    if (!editor || editor.isDestroyed || !scriptId || !dirtyRef.current) return;
+    // The editor may have moved on to another script
+    if (loadedScriptIdRef.current !== scriptId) return;
+    if (sendableSteps(editor.state)) {
+      // Only confirmed content can be saved; try again once our steps land
+      snapshotTimerRef.current = setTimeout(() => void saveSnapshot(), SNAPSHOT_DEBOUNCE_MS);
+      return;
+    }
+    const source = nextSaveSourceRef.current;
+    dirtyRef.current = false;
+    nextSaveSourceRef.current = "manual";
+    setIsSaving(true);
+    try {
+      await updateScript({
+        scriptId,
+        ownerEmail: email,
+        contentHtml: editor.getHTML(),
+        source,
+        version: getVersion(editor.state),
+      });
+      setLastSavedTime(new Date());
+    } catch (error) {
+      dirtyRef.current = true;
+      console.error("Failed to save script:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [editor, scriptId, email, updateScript]);
+
+  // Apply steps from the server (ours come back as confirmations)
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed || !stepsResult) return;
+    if (stepsResult.resync && stepsResult.snapshot) {
+      load(stepsResult.snapshot.contentHtml, stepsResult.snapshot.contentVersion);
+      return;
+    }
+    const localVersion = getVersion(editor.state);
+    // Results for an older version arrive while the query catches up
+    if (stepsResult.version - stepsResult.steps.length !== localVersion) return;
+    if (stepsResult.steps.length > 0) {
+      const tr = receiveTransaction(
+        editor.state,
+        stepsResult.steps.map((s) => Step.fromJSON(editor.schema, s.step)),
+        stepsResult.steps.map((s) => s.clientId),
+        { mapSelectionBackward: true }
+      );
+      editor.view.dispatch(tr);
+    }
+    setVersion(getVersion(editor.state));
+    void trySend();
+  }, [editor, stepsResult, load, trySend]);
+
+  // Send local edits and schedule a snapshot
+  React.useEffect(() => {
+    if (!editor || !scriptId) return;
+    const handleTransaction = ({ transaction }: { transaction: Transaction }) => {
+      if (!transaction.docChanged || transaction.getMeta(COLLAB_LOAD_META) || transaction.getMeta("rebased") !== undefined) {
+        return;
+      }
+      dirtyRef.current = true;
+      void trySend();
+      if (snapshotTimerRef.current) clearTimeout(snapshotTimerRef.current);
+      snapshotTimerRef.current = setTimeout(() => void saveSnapshot(), SNAPSHOT_DEBOUNCE_MS);
+    };
+    editor.on("transaction", handleTransaction);
+    return () => {
+      editor.off("transaction", handleTransaction);
+    };
+  }, [editor, scriptId, trySend, saveSnapshot]);
+
+  // Save pending edits when the script is closed
+  React.useEffect(() => {
+    return () => {
+      if (snapshotTimerRef.current) {
+        clearTimeout(snapshotTimerRef.current);
+        void saveSnapshot();
+      }
+    };
+  }, [saveSnapshot]);
+
+  // Presence: heartbeat plus throttled selection updates
+  React.useEffect(() => {
+    if (!editor || !scriptId) return;
+    let lastSent = 0;
+    let pending: ReturnType<typeof setTimeout> | null = null;
+    const send = () => {
+      pending = null;
+      lastSent = Date.now();
+      if (editor.isDestroyed) return;
+      const { anchor, head } = editor.state.selection;
+      updatePresence({
+        scriptId,
+        email,
+        sessionId,
+        selection: { anchor, head },
+        version: getVersion(editor.state),
+      }).catch((error) => console.error("Failed to update presence:", error));
+    };
+    const schedule = () => {
+      if (pending) return;
+      pending = setTimeout(send, Math.max(0, PRESENCE_THROTTLE_MS - (Date.now() - lastSent)));
+    };
+    send();
+    const heartbeat = setInterval(() => {
+      setNow(Date.now());
+      send();
+    }, PRESENCE_HEARTBEAT_MS);
+    editor.on("selectionUpdate", schedule);
+    return () => {
+      editor.off("selectionUpdate", schedule);
+      clearInterval(heartbeat);
+      if (pending) clearTimeout(pending);
+      leaveScript({ scriptId, sessionId }).catch(() => {});
+    };
+  }, [editor, scriptId, email, sessionId, updatePresence, leaveScript]);
+
+  const others = React.useMemo(
+    () => (presence ?? []).filter((p) => p.sessionId !== sessionId && p.updatedAt > now - PRESENCE_TTL_MS),
+    [presence, sessionId, now]
+  );
+
+  // Draw other editors' cursors once we've caught up to the version they were at
+  React.useEffect(() => {
+    if (!editor || editor.isDestroyed || version === null) return;
+    const cursors = others
+      .filter((p) => p.selection && p.version <= version)
+      .map((p) => ({
+        sessionId: p.sessionId,
+        label: p.email.split("@")[0],
+        color: presenceColor(p.email),
+        anchor: p.selection!.anchor,
+        head: p.selection!.head,
+      }));
+    setCollabCursors(editor, cursors);
+  }, [editor, others, version]);
+
+  const collaborators = React.useMemo<Collaborator[]>(
+    () => others.map((p) => ({ sessionId: p.sessionId, email: p.email, color: presenceColor(p.email) })),
+    [others]
+  );
+
+  /**
+   * Record the next snapshot as an AI edit rather than a manual one
+   */
+  const markNextSaveAsAiEdit = React.useCallback(() => {
+    nextSaveSourceRef.current = "ai_edit";
+  }, []);
+
+  return { isSaving, lastSavedTime, collaborators, markNextSaveAsAiEdit };
+}
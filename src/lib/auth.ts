@@ -1,11 +1,33 @@
 import { cookies } from "next/headers";
+import { WorkOS } from "@workos-inc/node";
+
+const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  maxAge: 60 * 60 * 24 * 7, // 7 days
+  path: "/",
+};
+
+// Refresh access tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export const SESSION_COOKIES = [
+  "workos_user_id",
+  "workos_user_email",
+  "workos_session_id",
+  "workos_access_token",
+  "workos_refresh_token",
+] as const;
 
 export async function getCurrentUser() {
   const cookieStore = await cookies();
   const userId = cookieStore.get("workos_user_id")?.value;
   const userEmail = cookieStore.get("workos_user_email")?.value;
+  // Sessions from before Convex checked tokens have none; they sign in again
+  const refreshToken = cookieStore.get("workos_refresh_token")?.value;
 
-  if (!userId || !userEmail) {
+  if (!userId || !userEmail || !refreshToken) {
     return null;
   }
 
@@ -15,3 +37,62 @@ export async function getCurrentUser() {
   };
 }
 
+/**
+ * Store the WorkOS tokens for the session. Only callable from route handlers.
+ */
+export async function setSessionTokens(accessToken: string, refreshToken: string) {
+  const cookieStore = await cookies();
+  cookieStore.set("workos_access_token", accessToken, SESSION_COOKIE_OPTIONS);
+  cookieStore.set("workos_refresh_token", refreshToken, SESSION_COOKIE_OPTIONS);
+}
+
+function getTokenExpiry(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = JSON.parse(
+      Buffer.from(payload.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8")
+    );
+    return typeof json?.exp === "number" ? json.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed-in user's WorkOS access token, refreshed when it is about to
+ * expire. Convex verifies it (see convex/auth.config.ts), so unlike the
+ * email cookie it can't be forged. Returns null when there is no session.
+ */
+export async function getSessionAccessToken({ forceRefresh = false } = {}): Promise<string | null> {
+  const cookieStore = await cookies();
+  const accessToken = cookieStore.get("workos_access_token")?.value;
+  const expiresAt = accessToken ? getTokenExpiry(accessToken) : null;
+  if (!forceRefresh && accessToken && expiresAt && expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return accessToken;
+  }
+
+  const refreshToken = cookieStore.get("workos_refresh_token")?.value;
+  const workosApiKey = process.env.WORKOS_API_KEY;
+  const workosClientId = process.env.WORKOS_CLIENT_ID;
+  if (!refreshToken || !workosApiKey || !workosClientId) {
+    return null;
+  }
+
+  try {
+    const workos = new WorkOS(workosApiKey);
+    const refreshed = await workos.userManagement.authenticateWithRefreshToken({
+      clientId: workosClientId,
+      refreshToken,
+    });
+    try {
+      await setSessionTokens(refreshed.accessToken, refreshed.refreshToken);
+    } catch {
+      // Cookies are read-only while rendering; the next route call stores them
+    }
+    return refreshed.accessToken;
+  } catch (error) {
+    console.error("[AUTH] Failed to refresh WorkOS access token:", error);
+    return null;
+  }
+}
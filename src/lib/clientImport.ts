@@ -0,0 +1,288 @@
+import { readXlsxRows } from "@/lib/xlsx";
+
+/**
+ * Parsing, column mapping and validation for bulk client import from CSV or
+ * XLSX files (see components/ClientFileImport.tsx). Rows that pass are sent
+ * to clients.importClients in batches.
+ */
+export const CLIENT_IMPORT_FIELDS = [
+  {
+    key: "businessName",
+    label: "Business name",
+    required: true,
+    aliases: ["business name", "business", "company", "company name", "client", "client name", "name"],
+  },
+  {
+    key: "contactFirstName",
+    label: "Contact first name",
+    required: false,
+    aliases: ["first name", "firstname", "contact first name", "first"],
+  },
+  {
+    key: "contactLastName",
+    label: "Contact last name",
+    required: false,
+    aliases: ["last name", "lastname", "surname", "contact last name", "last"],
+  },
+  {
+    key: "businessEmail",
+    label: "Email",
+    required: false,
+    aliases: ["email", "e-mail", "business email", "contact email", "email address"],
+  },
+  {
+    key: "website",
+    label: "Website",
+    required: false,
+    aliases: ["website", "site", "url", "domain", "web"],
+  },
+  {
+    key: "targetRevenue",
+    label: "Target revenue",
+    required: false,
+    aliases: ["target revenue", "revenue", "revenue goal", "monthly revenue"],
+  },
+  {
+    key: "startDate",
+    label: "Start date",
+    required: true,
+    aliases: ["start date", "start", "started", "onboarding date", "date"],
+  },
+] as const;
+
+export type ClientImportField = (typeof CLIENT_IMPORT_FIELDS)[number]["key"];
+
+// Column index for each field, or null when the file has no such column
+export type ColumnMapping = Record<ClientImportField, number | null>;
+
+export type ImportClientRow = {
+  businessName: string;
+  businessEmail?: string;
+  contactFirstName?: string;
+  contactLastName?: string;
+  targetRevenue?: number;
+  website?: string;
+  startTime: number;
+};
+
+export type ValidatedImportRow = {
+  rowNumber: number; // 1-based, as shown in a spreadsheet
+  businessName: string;
+  client: ImportClientRow | null; // null when the row has errors
+  errors: string[];
+};
+
+/**
+ * Split CSV text into rows (RFC 4180 quoting). The delimiter is whichever of
+ * comma, semicolon or tab appears most in the first line, since spreadsheet
+ * exports in some locales use semicolons.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Rows of an uploaded .csv or .xlsx file, header row first
+ */
+export async function readImportFile(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return await readXlsxRows(await file.arrayBuffer());
+  }
+  if (name.endsWith(".csv") || name.endsWith(".tsv") || name.endsWith(".txt")) {
+    return parseCsv(await file.text());
+  }
+  throw new Error("Upload a .csv or .xlsx file (older .xls files must be saved as .xlsx first)");
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Map fields to the columns whose header matches one of their aliases;
+ * exact matches win over partial ones
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const field of CLIENT_IMPORT_FIELDS) {
+    const aliases: readonly string[] = field.aliases;
+    let index = normalized.findIndex((header, i) => !used.has(i) && aliases.includes(header));
+    if (index === -1) {
+      index = normalized.findIndex(
+        (header, i) => !used.has(i) && header !== "" && aliases.some((alias) => alias.length > 4 && header.includes(alias))
+      );
+    }
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+  return mapping;
+}
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A start date as local midnight: YYYY-MM-DD, MM/DD/YYYY, DD.MM.YYYY or an
+ * Excel date serial. Null when the value isn't a date.
+ */
+export function parseImportDate(value: string): number | null {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let match: RegExpMatchArray | null;
+  if ((match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 100) year += 2000;
+  } else if ((match = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    const utc = new Date((Math.floor(Number(trimmed)) - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS);
+    [year, month, day] = [utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date.getTime();
+}
+
+function normalizeBusinessName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Check every data row against the mapping. A row repeating an earlier
+ * row's business name or email is an error, since only one can be imported.
+ * Duplicates of existing clients are checked by clients.previewClientImport.
+ */
+export function validateImportRows(dataRows: string[][], mapping: ColumnMapping, firstRowNumber: number): ValidatedImportRow[] {
+  const seenNames = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+  const now = Date.now();
+
+  return dataRows.flatMap((cells, index) => {
+    const rowNumber = firstRowNumber + index;
+    const cell = (field: ClientImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    // Skip blank lines
+    if (cells.every((value) => value.trim() === "")) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    const businessName = cell("businessName");
+    if (!businessName) {
+      errors.push("Business name is missing");
+    }
+
+    const rawDate = cell("startDate");
+    const startTime = rawDate ? parseImportDate(rawDate) : null;
+    if (!rawDate) {
+      errors.push("Start date is missing");
+    } else if (startTime === null) {
+      errors.push(`"${rawDate}" isn't a date (use YYYY-MM-DD)`);
+    } else if (startTime >= now) {
+      errors.push("Start date must be in the past");
+    }
+
+    const businessEmail = cell("businessEmail").toLowerCase();
+    if (businessEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(businessEmail)) {
+      errors.push(`"${businessEmail}" isn't an email address`);
+    }
+
+    const rawRevenue = cell("targetRevenue");
+    const targetRevenue = rawRevenue ? Number(rawRevenue.replace(/[$€£,\s]/g, "")) : undefined;
+    if (targetRevenue !== undefined && !Number.isFinite(targetRevenue)) {
+      errors.push(`"${rawRevenue}" isn't a number`);
+    }
+
+    const nameKey = normalizeBusinessName(businessName);
+    if (nameKey && seenNames.has(nameKey)) {
+      errors.push(`Same business as row ${seenNames.get(nameKey)}`);
+    } else if (businessEmail && seenEmails.has(businessEmail)) {
+      errors.push(`Same email as row ${seenEmails.get(businessEmail)}`);
+    }
+    if (nameKey && !seenNames.has(nameKey)) seenNames.set(nameKey, rowNumber);
+    if (businessEmail && !seenEmails.has(businessEmail)) seenEmails.set(businessEmail, rowNumber);
+
+    const client: ImportClientRow | null =
+      errors.length === 0 && startTime !== null
+        ? {
+            businessName,
+            businessEmail: businessEmail || undefined,
+            contactFirstName: cell("contactFirstName") || undefined,
+            contactLastName: cell("contactLastName") || undefined,
+            targetRevenue,
+            website: cell("website") || undefined,
+            startTime,
+          }
+        : null;
+    return [{ rowNumber, businessName, client, errors }];
+  });
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV listing each row that wasn't imported and why
+ */
+export function buildErrorReportCsv(entries: Array<{ rowNumber: number; businessName: string; error: string }>): string {
+  const lines = [["Row", "Business name", "Error"], ...entries.map((entry) => [entry.rowNumber, entry.businessName, entry.error])];
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n");
+}
@@ -0,0 +1,131 @@
+/**
+ * Bridges text-anchored script comments and the TipTap editor.
+ * Anchors are stored against the document's plain text (see
+ * convex/utils/textAnchor.ts); this module maps that text back to editor
+ * positions and highlights commented ranges with decorations, so the
+ * highlights never end up in the saved HTML.
+ */
+
+import { Extension } from "@tiptap/react";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, type EditorState, type Transaction } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+
+export type DocTextIndex = {
+  // Plain text of the document, blocks separated by "\n"
+  text: string;
+  // Document position of each character in `text`
+  positions: number[];
+};
+
+export function buildDocTextIndex(doc: ProseMirrorNode): DocTextIndex {
+  let text = "";
+  const positions: number[] = [];
+  doc.descendants((node, pos) => {
+    if (node.isText && node.text) {
+      for (let i = 0; i < node.text.length; i++) {
+        positions.push(pos + i);
+      }
+      text += node.text;
+    } else if (node.isBlock && text.length > 0 && !text.endsWith("\n")) {
+      positions.push(pos);
+      text += "\n";
+    }
+    return true;
+  });
+  return { text, positions };
+}
+
+/**
+ * Editor range covering text offsets [start, end), or null when empty
+ */
+export function textRangeToDocRange(index: DocTextIndex, start: number, end: number): { from: number; to: number } | null {
+  if (start >= end || start < 0 || end > index.positions.length) return null;
+  return { from: index.positions[start], to: index.positions[end - 1] + 1 };
+}
+
+/**
+ * Text offsets covered by an editor selection
+ */
+export function docRangeToTextRange(index: DocTextIndex, from: number, to: number): { start: number; end: number } | null {
+  let start = -1;
+  let end = -1;
+  for (let i = 0; i < index.positions.length; i++) {
+    const pos = index.positions[i];
+    if (pos >= to) break;
+    if (pos >= from) {
+      if (start === -1) start = i;
+      end = i + 1;
+    }
+  }
+  if (start === -1) return null;
+  // Don't anchor on block separators at the edges of the selection
+  while (start < end && index.text[start] === "\n") start++;
+  while (end > start && index.text[end - 1] === "\n") end--;
+  return start < end ? { start, end } : null;
+}
+
+export type CommentHighlight = {
+  commentId: string;
+  from: number;
+  to: number;
+};
+
+type HighlightMeta = { highlights: CommentHighlight[]; activeCommentId: string | null };
+
+const commentHighlightsKey = new PluginKey<DecorationSet>("commentHighlights");
+
+function buildDecorations(doc: ProseMirrorNode, meta: HighlightMeta): DecorationSet {
+  const decorations = meta.highlights
+    .filter((h) => h.from < h.to && h.to <= doc.content.size)
+    .map((h) =>
+      Decoration.inline(h.from, h.to, {
+        class: h.commentId === meta.activeCommentId ? "comment-highlight comment-highlight-active" : "comment-highlight",
+        "data-comment-id": h.commentId,
+      })
+    );
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Highlights commented ranges. Ranges are pushed in with setCommentHighlights
+ * and follow edits until the next push.
+ */
+export const CommentHighlights = Extension.create({
+  name: "commentHighlights",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: commentHighlightsKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr: Transaction, decorations: DecorationSet, _oldState: EditorState, newState: EditorState) => {
+            const meta = tr.getMeta(commentHighlightsKey) as HighlightMeta | undefined;
+            if (meta) {
+              return buildDecorations(newState.doc, meta);
+            }
+            return tr.docChanged ? decorations.map(tr.mapping, tr.doc) : decorations;
+          },
+        },
+        props: {
+          decorations(state) {
+            return commentHighlightsKey.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Replace the highlighted comment ranges without touching content or undo history
+ */
+export function setCommentHighlights(
+  editor: { state: EditorState; view: { dispatch: (tr: Transaction) => void } },
+  highlights: CommentHighlight[],
+  activeCommentId: string | null
+): void {
+  const meta: HighlightMeta = { highlights, activeCommentId };
+  editor.view.dispatch(editor.state.tr.setMeta(commentHighlightsKey, meta).setMeta("addToHistory", false));
+}
@@ -1,3 +1,5 @@
+import { actingAsIdentity } from "@/lib/convexServer";
+
 const convexBaseUrl = (process.env.NEXT_PUBLIC_CONVEX_URL || "").replace(/\/$/, "");
 const deploymentToken = process.env.CONVEX_DEPLOYMENT_TOKEN;
 
@@ -25,10 +27,24 @@ function requireConfig() {
   }
 }
 
+type ConvexCallOptions = {
+  // Email of the user the deployment token acts as (see convex/utils/authorization.ts)
+  actingAs?: string;
+};
+
+function adminAuthorization(actingAs?: string) {
+  if (!actingAs) {
+    return `Convex ${deploymentToken}`;
+  }
+  const identity = new TextEncoder().encode(JSON.stringify(actingAsIdentity(actingAs)));
+  return `Convex ${deploymentToken}:${btoa(String.fromCodePoint(...identity))}`;
+}
+
 async function callConvex<T>(
   type: ConvexCallType,
   path: string,
-  args: Record<string, unknown> | undefined = {}
+  args: Record<string, unknown> | undefined = {},
+  options: ConvexCallOptions = {}
 ): Promise<T> {
   requireConfig();
 
@@ -37,7 +53,7 @@ async function callConvex<T>(
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Convex ${deploymentToken}`,
+      Authorization: adminAuthorization(options.actingAs),
     },
     body: JSON.stringify({
       path,
@@ -64,22 +80,25 @@ async function callConvex<T>(
 
 export async function convexQuery<T>(
   path: string,
-  args?: Record<string, unknown>
+  args?: Record<string, unknown>,
+  options?: ConvexCallOptions
 ) {
-  return callConvex<T>("query", path, args);
+  return callConvex<T>("query", path, args, options);
 }
 
 export async function convexMutation<T>(
   path: string,
-  args?: Record<string, unknown>
+  args?: Record<string, unknown>,
+  options?: ConvexCallOptions
 ) {
-  return callConvex<T>("mutation", path, args);
+  return callConvex<T>("mutation", path, args, options);
 }
 
 export async function convexAction<T>(
   path: string,
-  args?: Record<string, unknown>
+  args?: Record<string, unknown>,
+  options?: ConvexCallOptions
 ) {
-  return callConvex<T>("action", path, args);
+  return callConvex<T>("action", path, args, options);
 }
 
@@ -0,0 +1,92 @@
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../../convex/_generated/api";
+import { getSessionAccessToken } from "@/lib/auth";
+import { timingSafeEqual } from "@/lib/webhookSignature";
+
+const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+
+/**
+ * Identity a trusted server acts as when calling Convex with the deployment
+ * token. Convex functions see it like a signed-in user with this email.
+ */
+export function actingAsIdentity(email: string) {
+  return { subject: email, issuer: "gravitate-server", email };
+}
+
+/**
+ * A Convex client signed in as the user of the current request, or null
+ * when Convex isn't configured or there is no session. Create one per
+ * request; the client holds the user's token.
+ */
+export async function getConvexForSession(): Promise<ConvexHttpClient | null> {
+  if (!convexUrl) return null;
+  const token = await getSessionAccessToken();
+  if (!token) return null;
+  const client = new ConvexHttpClient(convexUrl);
+  client.setAuth(token);
+  return client;
+}
+
+/**
+ * The signed-in user with their Convex client. The email is the one Convex
+ * verified from the WorkOS token, not the unsigned email cookie, so it is
+ * safe to act as with the deployment token (credentials, usage, webhooks).
+ * Null when Convex isn't configured or the session isn't valid.
+ */
+export async function getVerifiedSession(): Promise<{ convex: ConvexHttpClient; email: string } | null> {
+  const convex = await getConvexForSession();
+  if (!convex) return null;
+  try {
+    const email = await convex.query(api.users.getSessionEmail, {});
+    return email ? { convex, email } : null;
+  } catch (error) {
+    console.error("[AUTH] Failed to verify the session with Convex:", error);
+    return null;
+  }
+}
+
+/**
+ * A Convex client acting as `email`, for callers that have no session but
+ * were already trusted: internal calls carrying INTERNAL_API_SECRET and
+ * webhooks that passed their signature check. Null when Convex or the
+ * deployment token isn't configured.
+ */
+export function getConvexForEmail(email: string): ConvexHttpClient | null {
+  const deploymentToken = process.env.CONVEX_DEPLOYMENT_TOKEN;
+  if (!convexUrl || !deploymentToken) return null;
+  const client = new ConvexHttpClient(convexUrl);
+  // setAdminAuth is marked internal but is how the deployment token acts as a user
+  (client as unknown as {
+    setAdminAuth(token: string, identity: ReturnType<typeof actingAsIdentity>): void;
+  }).setAdminAuth(deploymentToken, actingAsIdentity(email));
+  return client;
+}
+
+/**
+ * Whether a request comes from Convex or the generation worker: it must carry
+ * `Authorization: Bearer <INTERNAL_API_SECRET>`. Only these requests may name
+ * the user to act as in their body.
+ */
+export function isInternalRequest(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return false;
+  const header = request.headers.get("authorization") ?? "";
+  const encoder = new TextEncoder();
+  return timingSafeEqual(encoder.encode(header), encoder.encode(`Bearer ${secret}`));
+}
+
+/**
+ * Convex client for a route that serves both the browser and internal
+ * callers: internal requests act as the `email` they name, everyone else
+ * is the signed-in user. Returns the email the client acts as.
+ */
+export async function getConvexForRequest(
+  request: Request,
+  requestedEmail?: string | null
+): Promise<{ convex: ConvexHttpClient; email: string } | null> {
+  if (requestedEmail && isInternalRequest(request)) {
+    const convex = getConvexForEmail(requestedEmail);
+    return convex ? { convex, email: requestedEmail } : null;
+  }
+  return await getVerifiedSession();
+}
@@ -0,0 +1,52 @@
+import { convexAction } from "@/lib/convexHttp";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { CredentialKind } from "../../convex/utils/credentialVault";
+
+/**
+ * Decrypted third-party credentials for server routes. Credentials are
+ * encrypted at rest and only internal Convex actions decrypt them, so these
+ * calls use the deployment token acting as `email`; Convex still checks that
+ * `email` may use the organization's integrations, so `email` must be
+ * verified (getVerifiedSession, or an internal caller), never the email
+ * cookie. Never send the results to the browser.
+ */
+export async function getCredential(email: string, kind: CredentialKind): Promise<string | null> {
+  return convexAction<string | null>("credentialsActions:revealCredentialForEmail", { email, kind }, { actingAs: email });
+}
+
+/**
+ * The organization's OpenRouter key, falling back to OPENROUTER_API_KEY
+ */
+export async function getOpenRouterApiKey(email: string): Promise<string | null> {
+  const apiKey = await getCredential(email, "openrouter_api_key");
+  // Fallback to environment variable for backwards compatibility
+  return apiKey || process.env.OPENROUTER_API_KEY || null;
+}
+
+export type GoogleDriveTokens = {
+  connectedByEmail: string;
+  accessToken: string;
+  refreshToken: string;
+  tokenExpiry?: number;
+  userEmail?: string;
+  userName?: string;
+};
+
+export async function getGoogleDriveTokens(
+  email: string,
+  organizationId: Id<"organizations">
+): Promise<GoogleDriveTokens | null> {
+  return convexAction<GoogleDriveTokens | null>("googleDriveActions:getTokens", { organizationId }, { actingAs: email });
+}
+
+/**
+ * Store tokens from the OAuth callback or a refresh; the refresh token is
+ * encrypted before it's saved
+ */
+export async function storeGoogleDriveTokens(
+  email: string,
+  organizationId: Id<"organizations">,
+  tokens: Omit<GoogleDriveTokens, "tokenExpiry"> & { tokenExpiry: number }
+): Promise<void> {
+  await convexAction<null>("googleDriveActions:storeTokens", { organizationId, ...tokens }, { actingAs: email });
+}
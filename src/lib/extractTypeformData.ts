@@ -3,6 +3,11 @@
  * Attempts to extract all possible business/client information
  */
 
+import {
+  extractClientDataFromAnswers,
+  type FieldMappingRule,
+} from "../../convex/utils/typeformFieldMapping";
+
 type TypeformAnswer = {
   field?: {
     id?: string;
@@ -67,6 +72,8 @@ export type ExtractedTypeformData = {
   website: string | null;
   location: string | null;
   companySize: string | null;
+  servicesOffered: string | null;
+  notes: string | null;
   
   // Additional fields (store all other answers)
   additionalFields: Record<string, unknown>;
@@ -74,8 +81,13 @@ export type ExtractedTypeformData = {
 
 /**
  * Extract comprehensive data from Typeform payload
+ * Heuristics fill in what they can; fields covered by the organization's
+ * field mapping (or the default mapping when none is given) take precedence.
  */
-export function extractTypeformData(payload: TypeformPayload): ExtractedTypeformData {
+export function extractTypeformData(
+  payload: TypeformPayload,
+  fieldMapping?: FieldMappingRule[] | null
+): ExtractedTypeformData {
   const result: ExtractedTypeformData = {
     businessName: null,
     businessEmail: null,
@@ -92,6 +104,8 @@ export function extractTypeformData(payload: TypeformPayload): ExtractedTypeform
     website: null,
     location: null,
     companySize: null,
+    servicesOffered: null,
+    notes: null,
     additionalFields: {},
   };
 
@@ -207,6 +221,20 @@ export function extractTypeformData(payload: TypeformPayload): ExtractedTypeform
     }
   });
 
+  // Apply explicit field mapping on top of the heuristics
+  const mapped = extractClientDataFromAnswers(payload.answers, fieldMapping);
+  if (mapped.businessName) result.businessName = mapped.businessName;
+  if (mapped.businessEmail) result.businessEmail = mapped.businessEmail;
+  if (mapped.contactFirstName) {
+    result.contactFirstName = mapped.contactFirstName;
+    result.contactLastName = mapped.contactLastName;
+  } else if (mapped.contactLastName) {
+    result.contactLastName = mapped.contactLastName;
+  }
+  if (mapped.targetRevenue) result.targetRevenue = mapped.targetRevenue;
+  if (mapped.servicesOffered) result.servicesOffered = mapped.servicesOffered;
+  if (mapped.notes) result.notes = mapped.notes;
+
   // Check metadata for email
   if (!result.businessEmail && payload.metadata) {
     const metadata = payload.metadata as Record<string, unknown>;
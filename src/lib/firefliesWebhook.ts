@@ -0,0 +1,59 @@
+import { convexAction } from "@/lib/convexHttp";
+import { internalApiHeaders } from "../../convex/utils/internalApi";
+
+/**
+ * Fields of a Fireflies webhook payload. The webhook only carries the
+ * meeting ID and event type; the transcript is fetched from the API.
+ */
+export function parseFirefliesWebhook(payload: unknown) {
+  const payloadObj = payload as Record<string, unknown>;
+  const eventType = typeof payloadObj.eventType === "string" ? payloadObj.eventType :
+                    typeof payloadObj.event === "string" ? payloadObj.event :
+                    typeof payloadObj.type === "string" ? payloadObj.type :
+                    undefined;
+  const meetingId = typeof payloadObj.meetingId === "string" ? payloadObj.meetingId :
+                    typeof payloadObj.meeting_id === "string" ? payloadObj.meeting_id :
+                    undefined;
+  return { eventType, meetingId };
+}
+
+/**
+ * Fetch and store the transcript a webhook announced, acting as `userEmail`,
+ * then try AI linking. Used by the webhook route and by replays from the
+ * webhook inspector; throws if the transcript can't be stored so the
+ * delivery is marked failed. A failed AI linking attempt leaves the
+ * transcript for review and doesn't fail the delivery.
+ */
+export async function processFirefliesWebhook(
+  userEmail: string,
+  { eventType, meetingId }: { eventType?: string; meetingId: string },
+  baseUrl: string
+): Promise<void> {
+  if (eventType !== "Transcription completed" && eventType !== "transcription.completed") {
+    return;
+  }
+
+  // Fetch and store transcript (this handles auto-linking via participant emails)
+  await convexAction("firefliesActions:fetchAndStoreTranscriptById", {
+    email: userEmail,
+    meetingId,
+  }, { actingAs: userEmail });
+
+  // After storing, try AI linking if auto-linking didn't work
+  // This runs in Next.js so it can use Next.js environment variables
+  try {
+    const linkingResponse = await fetch(`${baseUrl}/api/fireflies/process-linking`, {
+      method: "POST",
+      headers: internalApiHeaders(),
+      body: JSON.stringify({
+        email: userEmail,
+        transcriptId: meetingId,
+      }),
+    });
+    if (!linkingResponse.ok) {
+      console.error(`AI linking failed for transcript ${meetingId}:`, await linkingResponse.text());
+    }
+  } catch (linkingError) {
+    console.error(`Failed to process AI linking for transcript ${meetingId}:`, linkingError);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * HTML-aware diff for script revisions.
+ * Scripts are TipTap HTML, so we compare block by block (headings, paragraphs,
+ * list items) and then word by word inside blocks that changed, instead of
+ * diffing raw markup.
+ */
+
+export type DiffBlock = {
+  // Block tag (h1, p, li, ...) so the viewer can render it with the same weight
+  tag: string;
+  text: string;
+};
+
+export type DiffSegment = {
+  text: string;
+  type: "equal" | "added" | "removed";
+};
+
+export type DiffRow =
+  | { type: "equal"; left: DiffBlock; right: DiffBlock }
+  | { type: "removed"; left: DiffBlock }
+  | { type: "added"; right: DiffBlock }
+  | {
+      type: "changed";
+      left: DiffBlock;
+      right: DiffBlock;
+      leftSegments: DiffSegment[];
+      rightSegments: DiffSegment[];
+    };
+
+const BLOCK_PATTERN = /<(h[1-6]|p|li|blockquote|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Split script HTML into text blocks. Nested blocks (a <p> inside an <li>)
+ * are reported once, under the outer tag.
+ */
+export function htmlToBlocks(html: string): DiffBlock[] {
+  const blocks: DiffBlock[] = [];
+  for (const match of html.matchAll(BLOCK_PATTERN)) {
+    const text = decodeEntities(match[2].replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""))
+      .replace(/[ \t]+/g, " ")
+      .trim();
+    if (!text) continue;
+    blocks.push({ tag: match[1].toLowerCase(), text });
+  }
+  if (blocks.length === 0) {
+    // Plain text or unexpected markup: fall back to lines
+    const plain = decodeEntities(html.replace(/<[^>]+>/g, "\n"));
+    for (const line of plain.split("\n")) {
+      if (line.trim()) blocks.push({ tag: "p", text: line.trim() });
+    }
+  }
+  return blocks;
+}
+
+type Op<T> = { type: "equal" | "added" | "removed"; left?: T; right?: T };
+
+/**
+ * Longest-common-subsequence diff of two sequences
+ */
+function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Op<T>[] {
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = equals(a[i], b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equals(a[i], b[j])) {
+      ops.push({ type: "equal", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "removed", left: a[i] });
+      i++;
+    } else {
+      ops.push({ type: "added", right: b[j] });
+      j++;
+    }
+  }
+  while (i < n) ops.push({ type: "removed", left: a[i++] });
+  while (j < m) ops.push({ type: "added", right: b[j++] });
+  return ops;
+}
+
+/**
+ * Word-level diff of two strings, split into left (old) and right (new) segments
+ */
+export function diffWords(before: string, after: string): { left: DiffSegment[]; right: DiffSegment[] } {
+  const tokenize = (s: string) => s.match(/\s+|[^\s]+/g) ?? [];
+  const ops = diffSequences(tokenize(before), tokenize(after), (x, y) => x === y);
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  const push = (segments: DiffSegment[], text: string, type: DiffSegment["type"]) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ text, type });
+    }
+  };
+  for (const op of ops) {
+    if (op.type === "equal") {
+      push(left, op.left!, "equal");
+      push(right, op.right!, "equal");
+    } else if (op.type === "removed") {
+      push(left, op.left!, "removed");
+    } else {
+      push(right, op.right!, "added");
+    }
+  }
+  return { left, right };
+}
+
+/**
+ * Diff two HTML documents into side-by-side rows.
+ * A removed block immediately followed by an added block is shown as a single
+ * "changed" row with word-level highlights.
+ */
+export function diffHtml(beforeHtml: string, afterHtml: string): DiffRow[] {
+  const ops = diffSequences(
+    htmlToBlocks(beforeHtml),
+    htmlToBlocks(afterHtml),
+    (x, y) => x.tag === y.tag && x.text === y.text
+  );
+
+  const rows: DiffRow[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    const op = ops[k];
+    if (op.type === "equal") {
+      rows.push({ type: "equal", left: op.left!, right: op.right! });
+      k++;
+      continue;
+    }
+
+    // Collect a run of removals and additions, then pair them up in order
+    const removed: DiffBlock[] = [];
+    const added: DiffBlock[] = [];
+    while (k < ops.length && ops[k].type !== "equal") {
+      if (ops[k].type === "removed") removed.push(ops[k].left!);
+      else added.push(ops[k].right!);
+      k++;
+    }
+    const paired = Math.min(removed.length, added.length);
+    for (let p = 0; p < paired; p++) {
+      const { left, right } = diffWords(removed[p].text, added[p].text);
+      rows.push({
+        type: "changed",
+        left: removed[p],
+        right: added[p],
+        leftSegments: left,
+        rightSegments: right,
+      });
+    }
+    for (const block of removed.slice(paired)) rows.push({ type: "removed", left: block });
+    for (const block of added.slice(paired)) rows.push({ type: "added", right: block });
+  }
+  return rows;
+}
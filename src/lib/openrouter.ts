@@ -0,0 +1,161 @@
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { convexMutation, convexQuery } from "@/lib/convexHttp";
+import type { Id } from "../../convex/_generated/dataModel";
+import { NonRetryableError } from "../../convex/utils/retry";
+import {
+  llmBudgetExceededMessage,
+  usageFromOpenRouterResponse,
+  type LlmBudgetStatus,
+  type LlmFeature,
+  type LlmUsageRecord,
+} from "../../convex/utils/llmUsage";
+
+const OPENROUTER_CHAT_URL = "https://openrouter.ai/api/v1/chat/completions";
+
+/**
+ * The organization's monthly AI budget is used up and set to block. Routes
+ * respond 402; the script pipeline doesn't retry it.
+ */
+export class LlmBudgetExceededError extends NonRetryableError {
+  constructor(message: string) {
+    super(message, 402);
+    this.name = "LlmBudgetExceededError";
+  }
+}
+
+export type OpenRouterCallOptions = {
+  // User the call is made for; usage goes to their organization. Calls act as
+  // this email, so it must be verified (getVerifiedSession or an internal caller)
+  email: string;
+  feature: LlmFeature;
+  clientId?: Id<"clients"> | string;
+  // Off for follow-up calls within a request that already passed the check
+  checkBudget?: boolean;
+  referer?: string;
+  title?: string;
+};
+
+type ChatCompletionBody = { model: string; stream?: boolean } & Record<string, unknown>;
+
+async function recordUsage(options: OpenRouterCallOptions, usage: LlmUsageRecord) {
+  try {
+    await convexMutation<string | null>(
+      "llmUsage:recordUsageForEmail",
+      { email: options.email, feature: options.feature, clientId: options.clientId, ...usage },
+      { actingAs: options.email }
+    );
+  } catch (error) {
+    console.error("[OpenRouter] Failed to record usage", options.feature, error);
+  }
+}
+
+/**
+ * Read a copy of a streamed completion to the end and record the usage from
+ * its last chunk
+ */
+async function recordStreamUsage(stream: ReadableStream<Uint8Array>, model: string, options: OpenRouterCallOptions) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let usage: LlmUsageRecord | null = null;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        if (!line.startsWith("data: ") || line.includes("[DONE]") || !line.includes('"usage"')) continue;
+        try {
+          usage = usageFromOpenRouterResponse(JSON.parse(line.slice(6)), model) ?? usage;
+        } catch {
+          // Partial or non-JSON line; the usage chunk is complete JSON
+        }
+      }
+    }
+  } catch (error) {
+    console.error("[OpenRouter] Failed to read streamed usage", options.feature, error);
+  }
+  if (usage) {
+    await recordUsage(options, usage);
+  }
+}
+
+/**
+ * Keep `promise` running after the route returns its response. On Cloudflare
+ * the Worker stops once the response is done unless it's passed to waitUntil;
+ * under `next dev` there is no Cloudflare context and Node keeps it running.
+ */
+function runAfterResponse(promise: Promise<void>) {
+  try {
+    getCloudflareContext().ctx.waitUntil(promise);
+  } catch {
+    void promise;
+  }
+}
+
+/**
+ * POST a chat completion to OpenRouter for a Next.js route, recording its
+ * tokens, model and cost in llm_usage (see convex/utils/llmUsage.ts).
+ * Returns OpenRouter's response as fetch() would, so callers handle errors
+ * and streams the same way. Throws LlmBudgetExceededError when the
+ * organization's budget blocks new calls.
+ */
+export async function openRouterChatCompletion(
+  apiKey: string,
+  body: ChatCompletionBody,
+  options: OpenRouterCallOptions
+): Promise<Response> {
+  if (options.checkBudget !== false) {
+    let budget: LlmBudgetStatus | null = null;
+    try {
+      budget = await convexQuery<LlmBudgetStatus>(
+        "llmUsage:getBudgetStatusForEmail",
+        { email: options.email },
+        { actingAs: options.email }
+      );
+    } catch (error) {
+      // Accounting being unavailable shouldn't take AI features down with it
+      console.error("[OpenRouter] Failed to check the AI budget", error);
+    }
+    if (budget?.blocked) {
+      throw new LlmBudgetExceededError(llmBudgetExceededMessage(budget));
+    }
+  }
+
+  const response = await fetch(OPENROUTER_CHAT_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "HTTP-Referer": options.referer || process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+      "X-Title": options.title || "Gravitate Agent",
+    },
+    body: JSON.stringify({ ...body, usage: { include: true } }),
+  });
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  if (body.stream) {
+    // The caller may stop reading at finish_reason; the copy reads on to the usage chunk
+    const [forCaller, forUsage] = response.body.tee();
+    runAfterResponse(recordStreamUsage(forUsage, body.model, options));
+    return new Response(forCaller, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  try {
+    const usage = usageFromOpenRouterResponse(await response.clone().json(), body.model);
+    if (usage) {
+      await recordUsage(options, usage);
+    }
+  } catch (error) {
+    console.error("[OpenRouter] Failed to read usage", options.feature, error);
+  }
+  return response;
+}
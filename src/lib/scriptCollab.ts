@@ -0,0 +1,184 @@
+/**
+ * Editor-side pieces of collaborative script editing (server side and the
+ * versioning model are described in convex/utils/scriptCollab.ts).
+ * - loadCollabDocument swaps in a snapshot and restarts step tracking at its version
+ * - mergeHtmlChange applies a whole-document HTML edit (the AI update_document
+ *   tool) as a minimal change, so it merges with what collaborators typed meanwhile
+ * - CollabCursors draws other editors' cursors and selections
+ */
+
+import { Extension, createDocument, type Editor } from "@tiptap/react";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, type EditorState, type Transaction } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { collab } from "@tiptap/pm/collab";
+
+// Marks the transaction that loads a snapshot, so it isn't treated as a local edit
+export const COLLAB_LOAD_META = "collabLoad";
+
+/**
+ * Replace the editor's document with a snapshot and track steps from `version`.
+ * The replacement is kept out of undo history and isn't sent as a step.
+ */
+export function loadCollabDocument(editor: Editor, html: string, version: number, clientID: string): void {
+  editor.unregisterPlugin("collab");
+  const doc = createDocument(html, editor.schema);
+  const tr = editor.state.tr
+    .replaceWith(0, editor.state.doc.content.size, doc.content)
+    .setMeta("addToHistory", false)
+    .setMeta(COLLAB_LOAD_META, true);
+  editor.view.dispatch(tr);
+  editor.registerPlugin(collab({ version, clientID }));
+}
+
+/**
+ * Stop tracking steps (the script was closed)
+ */
+export function stopCollab(editor: Editor): void {
+  if (!editor.isDestroyed) {
+    editor.unregisterPlugin("collab");
+  }
+}
+
+type DocChange = { start: number; endA: number; endB: number };
+
+/**
+ * The single range where two documents differ: a[start, endA) became b[start, endB)
+ */
+function diffDocs(a: ProseMirrorNode, b: ProseMirrorNode): DocChange | null {
+  const start = a.content.findDiffStart(b.content);
+  if (start === null) return null;
+  const end = a.content.findDiffEnd(b.content);
+  if (!end) return null;
+  let { a: endA, b: endB } = end;
+  // Repeated content can make the end scan run past the start
+  const overlap = start - Math.min(endA, endB);
+  if (overlap > 0) {
+    endA += overlap;
+    endB += overlap;
+  }
+  return { start, endA, endB };
+}
+
+/**
+ * Transaction applying the edit from `baseHtml` to `nextHtml` onto the current
+ * document. Edits made since `baseHtml` are kept when they don't overlap the
+ * changed range; when they do, the new version of that range wins.
+ * Returns null when there is nothing to change.
+ */
+export function mergeHtmlChange(state: EditorState, baseHtml: string, nextHtml: string): Transaction | null {
+  const base = createDocument(baseHtml, state.schema);
+  const next = createDocument(nextHtml, state.schema);
+
+  const replaceDirectly = () => {
+    const direct = diffDocs(state.doc, next);
+    return direct ? state.tr.replace(direct.start, direct.endA, next.slice(direct.start, direct.endB)) : null;
+  };
+
+  const change = diffDocs(base, next);
+  if (!change) return null;
+  const local = diffDocs(base, state.doc);
+  let from = change.start;
+  let to = change.endA;
+  if (local) {
+    if (local.endA <= change.start) {
+      // Local edits before the changed range shift it
+      const shift = local.endB - local.endA;
+      from += shift;
+      to += shift;
+    } else if (local.start < change.endA) {
+      return replaceDirectly();
+    }
+  }
+  try {
+    return state.tr.replace(from, to, next.slice(change.start, change.endB));
+  } catch {
+    return replaceDirectly();
+  }
+}
+
+const PRESENCE_COLORS = ["#2563eb", "#db2777", "#16a34a", "#ea580c", "#7c3aed", "#0891b2", "#ca8a04", "#dc2626"];
+
+/**
+ * Stable color for a collaborator
+ */
+export function presenceColor(email: string): string {
+  let hash = 0;
+  for (let i = 0; i < email.length; i++) {
+    hash = (hash * 31 + email.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+export type CollabCursor = {
+  sessionId: string;
+  label: string;
+  color: string;
+  anchor: number;
+  head: number;
+};
+
+const collabCursorsKey = new PluginKey<DecorationSet>("collabCursors");
+
+function cursorWidget(cursor: CollabCursor): HTMLElement {
+  const caret = document.createElement("span");
+  caret.className = "collab-cursor";
+  caret.style.borderColor = cursor.color;
+  const label = document.createElement("span");
+  label.className = "collab-cursor-label";
+  label.style.backgroundColor = cursor.color;
+  label.textContent = cursor.label;
+  caret.appendChild(label);
+  return caret;
+}
+
+function buildCursorDecorations(doc: ProseMirrorNode, cursors: CollabCursor[]): DecorationSet {
+  const size = doc.content.size;
+  const decorations: Decoration[] = [];
+  for (const cursor of cursors) {
+    const head = Math.min(cursor.head, size);
+    const anchor = Math.min(cursor.anchor, size);
+    const from = Math.min(anchor, head);
+    const to = Math.max(anchor, head);
+    if (from < to) {
+      decorations.push(Decoration.inline(from, to, { style: `background-color: ${cursor.color}33` }));
+    }
+    decorations.push(Decoration.widget(head, () => cursorWidget(cursor), { key: `${cursor.sessionId}-${cursor.color}`, side: -1 }));
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Shows collaborators' cursors. Cursors are pushed in with setCollabCursors and
+ * follow edits until the next push.
+ */
+export const CollabCursors = Extension.create({
+  name: "collabCursors",
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: collabCursorsKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr: Transaction, decorations: DecorationSet, _oldState: EditorState, newState: EditorState) => {
+            const cursors = tr.getMeta(collabCursorsKey) as CollabCursor[] | undefined;
+            if (cursors) {
+              return buildCursorDecorations(newState.doc, cursors);
+            }
+            return tr.docChanged ? decorations.map(tr.mapping, tr.doc) : decorations;
+          },
+        },
+        props: {
+          decorations(state) {
+            return collabCursorsKey.getState(state);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export function setCollabCursors(editor: Editor, cursors: CollabCursor[]): void {
+  editor.view.dispatch(editor.state.tr.setMeta(collabCursorsKey, cursors).setMeta("addToHistory", false));
+}
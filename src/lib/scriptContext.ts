@@ -0,0 +1,256 @@
+/**
+ * Context assembly for script generation.
+ * Turns the raw inputs from `scriptContext.getScriptContextInputs` into prompt
+ * text that fits a token budget, and records which sources were used.
+ */
+
+import { normalizeBriefing } from "@/lib/adBriefing";
+import {
+  DEFAULT_CONTEXT_TOKEN_BUDGET,
+  type ScriptContextSource,
+} from "../../convex/utils/scriptContext";
+import { formatTimestamp } from "../../convex/utils/transcriptSentences";
+
+export type ScriptContextInputs = {
+  client: {
+    notes?: string;
+  };
+  onboarding: {
+    responseId: string;
+    qaPairs: Array<{ question: string; answer: string; fieldRef?: string }>;
+  } | null;
+  transcripts: Array<{
+    transcriptId: string;
+    title: string;
+    date: number;
+    notes?: string;
+    transcript: string;
+    sentences?: Array<{ text: string; speakerName?: string }>;
+  }>;
+  soundbites: Array<{
+    soundbiteId: string;
+    quote: string;
+    speakerName?: string;
+    startTime?: number;
+    note?: string;
+    transcriptTitle: string;
+    transcriptDate: number;
+  }>;
+  briefing: {
+    briefingId: string;
+    briefing: unknown;
+  } | null;
+  previousScripts: Array<{
+    scriptId: string;
+    title: string;
+    createdAt: number;
+    contentHtml: string;
+  }>;
+};
+
+export type AssembledScriptContext = {
+  contextText: string;
+  sources: ScriptContextSource[];
+  estimatedTokens: number;
+};
+
+// Rough estimate used for budgeting; good enough for English prose
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return { text, truncated: false };
+  }
+  // Cut on a word boundary where possible
+  const cut = text.slice(0, maxChars);
+  const lastSpace = cut.lastIndexOf(" ");
+  return {
+    text: `${lastSpace > maxChars * 0.8 ? cut.slice(0, lastSpace) : cut}…`,
+    truncated: true,
+  };
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|li|div|br)>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function formatBriefing(raw: unknown): string {
+  const b = normalizeBriefing(raw);
+  const lines = [
+    ["Brand", b.brandIdentity.brandName],
+    ["Service being sold", b.brandIdentity.serviceBeingSold],
+    ["Brand personality", b.brandIdentity.brandPersonality],
+    ["Target audience", b.audienceAndProblem.targetAudience],
+    ["Location", b.audienceAndProblem.geographicLocation],
+    ["Local enemies", b.audienceAndProblem.localEnemies],
+    ["Obvious problem", b.audienceAndProblem.obviousProblem],
+    ["Real problem", b.audienceAndProblem.realProblem],
+    ["Dream outcome", b.solutionAndDifferentiators.dreamOutcome],
+    ["Unique mechanism", b.solutionAndDifferentiators.uniqueMechanism],
+    ["Guarantee", b.proofAndCredibility.guarantee],
+    ["Trust badges", b.proofAndCredibility.trustBadges],
+    ["Social proof", b.proofAndCredibility.socialProof],
+    ["Offer", b.offerAndCTA.offer],
+    ["Urgency", b.offerAndCTA.urgency],
+  ];
+  return lines
+    .filter(([, value]) => value && value.trim())
+    .map(([label, value]) => `${label}: ${value.trim()}`)
+    .join("\n");
+}
+
+/**
+ * Summarize a transcript for the prompt: Fireflies' AI notes when available,
+ * otherwise the speaker-labelled transcript itself (truncated by the caller).
+ */
+function summarizeTranscript(t: ScriptContextInputs["transcripts"][number]): string {
+  if (t.notes && t.notes.trim()) {
+    return t.notes.trim();
+  }
+  if (t.sentences && t.sentences.length > 0) {
+    return t.sentences
+      .map((s) => (s.speakerName ? `${s.speakerName}: ${s.text}` : s.text))
+      .join("\n");
+  }
+  return t.transcript.trim();
+}
+
+/**
+ * One verbatim quote per line with who said it and where, so the model can
+ * cite it word for word
+ */
+function formatSoundbites(soundbites: ScriptContextInputs["soundbites"]): string {
+  return soundbites
+    .map((s) => {
+      const where = [
+        s.speakerName,
+        `${s.transcriptTitle} (${new Date(s.transcriptDate).toLocaleDateString("en-US")}${
+          s.startTime !== undefined ? ` at ${formatTimestamp(s.startTime)}` : ""
+        })`,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return `- "${s.quote}" (${where})${s.note ? ` [Note: ${s.note}]` : ""}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Build the context block for a generation prompt.
+ *
+ * Sources are added in priority order (ad briefing, client notes, soundbites,
+ * onboarding answers, transcripts newest first, previous scripts) until the
+ * token budget is spent. Transcripts share whatever budget is left after the
+ * fixed sections.
+ */
+export function assembleScriptContext(
+  inputs: ScriptContextInputs,
+  options: { tokenBudget?: number } = {}
+): AssembledScriptContext {
+  const budget = Math.max(options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET, 500);
+  let remaining = budget;
+  const sections: string[] = [];
+  const sources: ScriptContextSource[] = [];
+
+  const addSection = (
+    heading: string,
+    body: string,
+    source: Omit<ScriptContextSource, "tokens" | "truncated">,
+    maxTokens: number
+  ) => {
+    if (!body.trim() || remaining <= 0) return;
+    const limit = Math.min(maxTokens, remaining);
+    const { text, truncated } = truncateToTokens(body.trim(), limit);
+    const tokens = estimateTokens(text);
+    sections.push(`${heading}\n${text}`);
+    sources.push({ ...source, tokens, ...(truncated && { truncated }) });
+    remaining -= tokens;
+  };
+
+  if (inputs.briefing) {
+    addSection(
+      "## Ad Strategist Briefing",
+      formatBriefing(inputs.briefing.briefing),
+      { type: "ad_briefing", refId: inputs.briefing.briefingId, label: "Ad briefing" },
+      Math.floor(budget * 0.25)
+    );
+  }
+
+  if (inputs.client.notes) {
+    addSection(
+      "## Client Notes",
+      inputs.client.notes,
+      { type: "client_notes", label: "Client notes" },
+      Math.floor(budget * 0.1)
+    );
+  }
+
+  if (inputs.soundbites.length > 0) {
+    addSection(
+      "## Client Soundbites (verbatim quotes the script may cite)",
+      formatSoundbites(inputs.soundbites),
+      { type: "soundbites", label: `${inputs.soundbites.length} soundbite${inputs.soundbites.length === 1 ? "" : "s"}` },
+      Math.floor(budget * 0.1)
+    );
+  }
+
+  if (inputs.onboarding && inputs.onboarding.qaPairs.length > 0) {
+    addSection(
+      "## Onboarding Form Answers",
+      inputs.onboarding.qaPairs.map((qa) => `Q: ${qa.question}\nA: ${qa.answer}`).join("\n\n"),
+      { type: "onboarding_response", refId: inputs.onboarding.responseId, label: "Onboarding response" },
+      Math.floor(budget * 0.25)
+    );
+  }
+
+  // Reserve a slice for previous scripts so transcripts can't starve them
+  const previousScriptReserve = inputs.previousScripts.length > 0 ? Math.floor(budget * 0.1) : 0;
+  const transcripts = inputs.transcripts.filter((t) => summarizeTranscript(t).length > 0);
+  if (transcripts.length > 0) {
+    const transcriptBudget = Math.max(remaining - previousScriptReserve, 0);
+    const perTranscript = Math.floor(transcriptBudget / transcripts.length);
+    for (const t of transcripts) {
+      addSection(
+        `## Call: ${t.title} (${new Date(t.date).toLocaleDateString("en-US")})`,
+        summarizeTranscript(t),
+        { type: "transcript", refId: t.transcriptId, label: t.title },
+        perTranscript
+      );
+    }
+  }
+
+  if (inputs.previousScripts.length > 0) {
+    const perScript = Math.floor(remaining / inputs.previousScripts.length);
+    for (const script of inputs.previousScripts) {
+      addSection(
+        `## Previous Script: ${script.title}`,
+        stripHtml(script.contentHtml),
+        { type: "previous_script", refId: script.scriptId, label: script.title },
+        perScript
+      );
+    }
+  }
+
+  const contextText = sections.join("\n\n");
+  return {
+    contextText,
+    sources,
+    estimatedTokens: estimateTokens(contextText),
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * Step-by-step script generation from a Typeform response.
+ *
+ * Each step (fetch_response, extract_client, generate, store, drive_export) is
+ * retried with exponential backoff and records its progress on the
+ * `script_generation_runs` row. Outputs are checkpointed so a failed or stuck
+ * run resumes from the step that failed instead of starting over.
+ */
+
+import type { ConvexHttpClient } from "convex/browser";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+  extractClientDataFromQAPairs,
+  type MappedClientData,
+} from "../../convex/utils/typeformFieldMapping";
+import {
+  HttpStatusError,
+  NonRetryableError,
+  withRetry,
+} from "../../convex/utils/retry";
+import { internalApiHeaders } from "../../convex/utils/internalApi";
+import { formatContactsForPrompt, type ClientContactSummary } from "../../convex/utils/clientContacts";
+import type { ScriptGenerationStep } from "../../convex/utils/scriptGenerationRuns";
+import { getOpenRouterApiKey } from "@/lib/credentials";
+import { openRouterChatCompletion } from "@/lib/openrouter";
+
+type RunCheckpoint = NonNullable<Doc<"script_generation_runs">["checkpoint"]>;
+type CheckpointUpdate = Omit<Partial<RunCheckpoint>, "completedSteps">;
+type RunStatus = Doc<"script_generation_runs">["status"];
+type ThinkingEffort = "low" | "medium" | "high";
+
+export type ScriptGenerationPipelineInput = {
+  runId: Id<"script_generation_runs">;
+  ownerEmail: string;
+  responseId: string;
+  clientId?: string;
+  // Saved outputs from a previous attempt of this run
+  checkpoint?: RunCheckpoint | null;
+  // Origin of the Next.js app, used to call internal routes (Drive folders)
+  appBaseUrl: string;
+};
+
+export type ScriptGenerationPipelineResult = {
+  scriptId: string;
+  clientId: string;
+  existing?: boolean;
+};
+
+/**
+ * A pipeline failure, tagged with the step that failed
+ */
+export class PipelineStepError extends Error {
+  readonly step: ScriptGenerationStep;
+  readonly status: number;
+
+  constructor(step: ScriptGenerationStep, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = "PipelineStepError";
+    this.step = step;
+    this.status = cause instanceof NonRetryableError ? cause.status : 500;
+  }
+}
+
+/**
+ * Call OpenRouter for the script body. Throws HttpStatusError on non-2xx so
+ * rate limits and 5xx responses are retried.
+ */
+async function generateScriptContent(
+  convex: ConvexHttpClient,
+  clientData: MappedClientData,
+  contacts: ClientContactSummary[],
+  qaPairs: Array<{ question: string; answer: string; fieldRef?: string }>,
+  model: string,
+  thinkingEffort: ThinkingEffort,
+  ownerEmail: string,
+  clientId: Id<"clients">
+): Promise<string> {
+  const apiKey = await getOpenRouterApiKey(ownerEmail);
+  if (!apiKey) {
+    throw new NonRetryableError(
+      "OpenRouter API key not configured. Please set it in Settings → OpenRouter.",
+      500
+    );
+  }
+
+  // Get system prompt from Convex (user-specific)
+  const systemPrompt = await convex.query(api.systemPrompts.getSystemPrompt, {
+    email: ownerEmail,
+  });
+
+  // Build context from qaPairs
+  const contextText = qaPairs
+    .map((qa) => `Q: ${qa.question}\nA: ${qa.answer}`)
+    .join("\n\n");
+
+  const servicesOfferedText = clientData.servicesOffered
+    ? `\nServices Offered: ${clientData.servicesOffered}`
+    : "";
+  const contactsText = contacts.length > 0
+    ? `\nContacts:\n${formatContactsForPrompt(contacts)}`
+    : "";
+
+  const userPrompt = `Create a personalized video script for:
+
+Business Name: ${clientData.businessName || "Unknown"}
+Contact: ${clientData.contactFirstName || ""} ${clientData.contactLastName || ""}
+Email: ${clientData.businessEmail || "Not provided"}
+Target Revenue: ${clientData.targetRevenue ? `$${clientData.targetRevenue.toLocaleString()}` : "Not specified"}${servicesOfferedText}${contactsText}
+
+Client Information:
+${contextText}
+
+Generate the script as HTML with proper structure.`;
+
+  const response = await openRouterChatCompletion(
+    apiKey,
+    {
+      model: model || "openai/gpt-5",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      ...(model.includes("gpt-5") || model.includes("gpt-oss-120b") ? {
+        reasoning: {
+          effort: thinkingEffort,
+        },
+      } : {}),
+      temperature: 0.7,
+    },
+    { email: ownerEmail, feature: "script_generation", clientId }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new HttpStatusError(`OpenRouter API error: ${response.status} - ${errorText}`, response.status);
+  }
+
+  const data = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
+  const content = data?.choices?.[0]?.message?.content;
+
+  if (!content || typeof content !== "string") {
+    throw new Error("AI response missing content");
+  }
+
+  // Clean up markdown code blocks if present
+  let htmlContent = content.trim();
+  if (htmlContent.startsWith("```html")) {
+    htmlContent = htmlContent.replace(/^```html\n?/, "").replace(/\n?```$/, "");
+  } else if (htmlContent.startsWith("```")) {
+    htmlContent = htmlContent.replace(/^```\n?/, "").replace(/\n?```$/, "");
+  }
+
+  return htmlContent.trim();
+}
+
+export async function runScriptGenerationPipeline(
+  convex: ConvexHttpClient,
+  input: ScriptGenerationPipelineInput
+): Promise<ScriptGenerationPipelineResult> {
+  const { runId, ownerEmail, responseId } = input;
+  const checkpoint: RunCheckpoint = input.checkpoint ?? { completedSteps: [] };
+  const isDone = (step: ScriptGenerationStep) => checkpoint.completedSteps.includes(step);
+
+  const runStep = async <T>(
+    step: ScriptGenerationStep,
+    fn: () => Promise<T>,
+    options: { status?: RunStatus; toCheckpoint?: (result: T) => CheckpointUpdate; detail?: (result: T) => string | undefined } = {}
+  ): Promise<T> => {
+    await convex.mutation(api.scriptGeneration.updateStep, {
+      runId,
+      step: { name: step, status: "running" },
+      ...(options.status && { status: options.status }),
+    });
+    try {
+      const result = await withRetry(fn, {
+        onRetry: async ({ attempt, attempts, delayMs, error }) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`[Workflow][Pipeline] ${step} attempt ${attempt}/${attempts} failed: ${message}`);
+          await convex.mutation(api.scriptGeneration.updateStep, {
+            runId,
+            step: {
+              name: step,
+              status: "pending",
+              detail: `Attempt ${attempt}/${attempts} failed (${message.slice(0, 200)}); retrying in ${Math.ceil(delayMs / 1000)}s`,
+            },
+          });
+        },
+      });
+      const update = options.toCheckpoint?.(result);
+      Object.assign(checkpoint, update);
+      await convex.mutation(api.scriptGeneration.updateStep, {
+        runId,
+        step: { name: step, status: "success", detail: options.detail?.(result) },
+        ...(update && { checkpoint: update }),
+      });
+      return result;
+    } catch (error) {
+      throw new PipelineStepError(step, error);
+    }
+  };
+
+  // Step 1: load the response (always re-read; it's cheap and later steps need it)
+  const response = await runStep("fetch_response", async () => {
+    const res = await convex.query(api.typeform.getResponseByResponseId, { responseId });
+    if (!res) {
+      throw new NonRetryableError("Typeform response not found", 404);
+    }
+    if (res.email !== ownerEmail) {
+      throw new NonRetryableError("Access denied: Response does not belong to user", 403);
+    }
+    if (!res.qaPairs || res.qaPairs.length === 0) {
+      throw new NonRetryableError("No qaPairs found in response", 400);
+    }
+    return res;
+  }, { status: "started" });
+  const qaPairs = response.qaPairs ?? [];
+
+  // Idempotency: a script for this response already exists from another run
+  if (!checkpoint.scriptId) {
+    const existingScript = await convex.query(api.scripts.getScriptByResponseId, {
+      responseId,
+      ownerEmail,
+    });
+    if (existingScript) {
+      console.log("[Workflow][Pipeline] Script already exists - skipping", JSON.stringify({ scriptId: existingScript._id, responseId }));
+      return { scriptId: existingScript._id, clientId: existingScript.clientId, existing: true };
+    }
+  }
+
+  // Use the organization's mapping for this form (falls back to the default form mapping)
+  const fieldMapping = await convex.query(api.typeformFieldMappings.getMappingForForm, {
+    email: ownerEmail,
+    formId: response.formId,
+  });
+  const clientData = extractClientDataFromQAPairs(qaPairs, fieldMapping?.rules);
+
+  // Step 2: resolve or create the client
+  const clientId = checkpoint.clientId && isDone("extract_client")
+    ? checkpoint.clientId
+    : await runStep("extract_client", async (): Promise<Id<"clients">> => {
+        if (!clientData.businessName) {
+          throw new NonRetryableError("Business name is required but not found in response", 400);
+        }
+        if (input.clientId) {
+          const client = await convex.query(api.clients.getClientById, {
+            clientId: input.clientId as Id<"clients">,
+          });
+          if (!client || client.ownerEmail !== ownerEmail) {
+            throw new NonRetryableError("Client not found or access denied", 403);
+          }
+          return client._id;
+        }
+        const existingClient = await convex.query(api.clients.getClientByOnboardingResponseId, {
+          ownerEmail,
+          onboardingResponseId: responseId,
+        });
+        if (existingClient) {
+          return existingClient._id;
+        }
+        return await convex.mutation(api.clients.upsertClientFromTypeform, {
+          ownerEmail,
+          businessEmail: clientData.businessEmail || undefined,
+          businessName: clientData.businessName,
+          contactFirstName: clientData.contactFirstName || undefined,
+          contactLastName: clientData.contactLastName || undefined,
+          onboardingResponseId: responseId,
+          targetRevenue: clientData.targetRevenue || undefined,
+        });
+      }, { toCheckpoint: (id) => ({ clientId: id }), detail: (id) => `Client ${id}` });
+
+  // Step 3: generate the script with the LLM
+  let model = checkpoint.model;
+  let thinkingEffort = checkpoint.thinkingEffort;
+  const scriptHtml = checkpoint.scriptHtml && isDone("generate")
+    ? checkpoint.scriptHtml
+    : await runStep("generate", async () => {
+        const settings = await convex.query(api.scriptSettings.getSettingsForEmail, {
+          email: ownerEmail,
+        });
+        model = settings?.defaultModel || "openai/gpt-5";
+        thinkingEffort = settings?.defaultThinkingEffort || "medium";
+
+        // Fetch client record to get servicesOffered and its contacts
+        const client = await convex.query(api.clients.getClientById, { clientId });
+        if (client?.servicesOffered) {
+          clientData.servicesOffered = client.servicesOffered;
+        }
+        const contacts = await convex.query(api.clientContacts.getContactsForClient, { clientId });
+        return await generateScriptContent(convex, clientData, contacts, qaPairs, model, thinkingEffort, ownerEmail, clientId);
+      }, {
+        status: "generating",
+        toCheckpoint: (html) => ({ scriptHtml: html, model, thinkingEffort }),
+        detail: (html) => `${html.length} characters`,
+      });
+
+  // Step 4: store the script
+  const scriptId = checkpoint.scriptId && isDone("store")
+    ? checkpoint.scriptId
+    : await runStep("store", async (): Promise<Id<"scripts">> => {
+        // A previous attempt may have stored it before failing to report back
+        const existing = await convex.query(api.scripts.getScriptByResponseId, { responseId, ownerEmail });
+        if (existing) {
+          return existing._id;
+        }
+        return await convex.mutation(api.scripts.createScript, {
+          ownerEmail,
+          clientId,
+          title: `Script for ${clientData.businessName} - ${new Date().toLocaleDateString()}`,
+          contentHtml: scriptHtml,
+          source: {
+            type: "typeform",
+            responseId,
+          },
+          model,
+          thinkingEffort,
+          status: "draft",
+        });
+      }, { status: "storing", toCheckpoint: (id) => ({ scriptId: id }), detail: (id) => `Script ${id}` });
+
+  // Step 5: make sure the client's Drive folders exist for this month (skipped when Drive isn't connected)
+  if (!isDone("drive_export")) {
+    await runStep("drive_export", async () => {
+      const res = await fetch(new URL("/api/google-drive/create-folders", input.appBaseUrl).toString(), {
+        method: "POST",
+        headers: internalApiHeaders(),
+        body: JSON.stringify({ clientId, email: ownerEmail }),
+      });
+      if (res.ok) {
+        return "Drive folders ready";
+      }
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (res.status === 400) {
+        // Not connected / no organization: nothing to export to
+        return `Skipped: ${data.error || "Google Drive not available"}`;
+      }
+      throw new HttpStatusError(data.error || `Drive folder setup failed (${res.status})`, res.status);
+    }, { detail: (message) => message });
+  }
+
+  return { scriptId, clientId };
+}
@@ -0,0 +1,223 @@
+import { convexAction, convexMutation, convexQuery } from "@/lib/convexHttp";
+import { internalApiHeaders } from "../../convex/utils/internalApi";
+import {
+  extractClientDataFromQAPairs,
+  getTypeformAnswerValue,
+  type FieldMappingRule,
+} from "../../convex/utils/typeformFieldMapping";
+
+/**
+ * Fields of a Typeform webhook payload kept on the delivery record.
+ * `eventId` identifies the event across Typeform's retries.
+ */
+export function parseTypeformWebhook(payload: unknown) {
+  const payloadObj = payload as Record<string, unknown>;
+  const eventId = typeof payloadObj.event_id === "string" ? payloadObj.event_id : undefined;
+  const eventType = typeof payloadObj.event_type === "string" ? payloadObj.event_type : undefined;
+  const formId = typeof payloadObj.form_response === "object" && payloadObj.form_response !== null
+    ? (payloadObj.form_response as Record<string, unknown>).form_id as string | undefined
+    : typeof payloadObj.form_id === "string" ? payloadObj.form_id : undefined;
+  return { eventId, eventType, formId };
+}
+
+/**
+ * Store the form response a webhook delivered and create or update its
+ * client, acting as `userEmail`. Used by the webhook route and by replays
+ * from the webhook inspector; throws if the response can't be stored so the
+ * delivery is marked failed.
+ */
+export async function processTypeformWebhook(userEmail: string, payload: unknown, baseUrl: string): Promise<void> {
+  const payloadObj = payload as Record<string, unknown>;
+  const { formId } = parseTypeformWebhook(payload);
+
+  // If this is a form response webhook, also store the response and create/update client
+  const formResponse = payloadObj.form_response as Record<string, unknown> | undefined;
+  
+  if (formResponse && formId) {
+    const responseId = typeof formResponse.token === "string" 
+      ? formResponse.token 
+      : typeof formResponse.response_id === "string"
+      ? formResponse.response_id
+      : undefined;
+    
+    if (responseId) {
+      // Store response if not already stored
+      const existingResponse = await convexQuery<any>(
+        "typeform:getResponseByResponseId",
+        {
+          responseId,
+        }, { actingAs: userEmail }
+      );
+      
+      if (!existingResponse) {
+        // Fetch form details to get questions
+        let formQuestions: Array<{ id: string; ref: string; title: string; type: string }> = [];
+        let qaPairs: Array<{ question: string; answer: string; fieldRef?: string }> = [];
+        
+        try {
+          const formDetails = await convexAction<any>(
+            "typeformActions:fetchTypeformFormDetails",
+            {
+              email: userEmail,
+              formId: formId!,
+            }, { actingAs: userEmail }
+          );
+          
+          if (formDetails?.fields) {
+            formQuestions = formDetails.fields;
+            
+            // Create field map
+            const fieldMap = new Map<string, { id: string; ref: string; title: string; type: string }>();
+            formQuestions.forEach((field) => {
+              fieldMap.set(field.ref, field);
+            });
+            
+            // Create Q&A pairs
+            const answers = formResponse.answers as Array<Record<string, unknown> & { field?: { id?: string; ref?: string } }> | undefined;
+            qaPairs = answers?.map((answer) => {
+              const ref = answer.field?.ref;
+              const field = ref ? fieldMap.get(ref) : null;
+              return {
+                question: field?.title || ref || "Unknown Question",
+                answer: getTypeformAnswerValue(answer),
+                fieldRef: ref,
+              };
+            }) || [];
+          }
+        } catch (error) {
+          console.error(`Failed to fetch form details for webhook:`, error);
+          // Continue without questions
+        }
+        
+        await convexMutation<any>("typeform:storeResponse", {
+          email: userEmail,
+          formId,
+          responseId,
+          payload: formResponse,
+          questions: formQuestions.length > 0 ? formQuestions : undefined,
+          qaPairs: qaPairs.length > 0 ? qaPairs : undefined,
+          notify: true,
+        }, { actingAs: userEmail });
+        
+        // Extract client info using the organization's field mapping for this form
+        const fieldMapping = await convexQuery<{ rules: FieldMappingRule[] } | null>(
+          "typeformFieldMappings:getMappingForForm",
+          {
+            email: userEmail,
+            formId,
+          }, { actingAs: userEmail }
+        );
+        const {
+          businessEmail,
+          businessName,
+          contactFirstName: firstName,
+          contactLastName: lastName,
+          targetRevenue,
+          servicesOffered,
+          notes,
+        } = extractClientDataFromQAPairs(qaPairs, fieldMapping?.rules);
+        
+        // Create/update client if we have business name (businessEmail is optional)
+        // First check for duplicates (manual clients or existing clients)
+        if (businessName) {
+          try {
+            // Extract website from formResponse if available
+            const answers = formResponse.answers as Array<{ field?: { id?: string; ref?: string }; text?: string }> | undefined;
+            const website = answers?.find((a) => 
+              a.field?.ref?.toLowerCase().includes("website") || 
+              a.field?.ref?.toLowerCase().includes("url") ||
+              a.text?.match(/^https?:\/\//)
+            )?.text || undefined;
+            
+            // Check for duplicate client before creating
+            const duplicate = await convexQuery<any>(
+              "clients:findDuplicateClient",
+              {
+                ownerEmail: userEmail,
+                businessEmail: businessEmail
+                  ? businessEmail.toLowerCase().trim()
+                  : undefined,
+                businessName: businessName,
+                website: website || undefined,
+              }, { actingAs: userEmail }
+            );
+            
+            if (duplicate) {
+              // Link the response to the existing client instead of creating a new one
+              console.log(`[Webhook] Duplicate client found: ${duplicate.businessName}, linking response ${responseId}`);
+              await convexMutation<any>("clients:linkResponseToClient", {
+                clientId: duplicate._id,
+                responseId: responseId,
+              }, { actingAs: userEmail });
+              // Update client with response data if it's a manual client (no onboardingResponseId)
+              if (!duplicate.onboardingResponseId) {
+                await convexMutation<any>("clients:updateClient", {
+                  clientId: duplicate._id,
+                  contactFirstName: firstName || undefined,
+                  contactLastName: lastName || undefined,
+                  targetRevenue: targetRevenue || undefined,
+                  // Fill in, but don't overwrite, what was entered by hand
+                  servicesOffered: duplicate.servicesOffered ? undefined : servicesOffered || undefined,
+                  notes: duplicate.notes ? undefined : notes || undefined,
+                }, { actingAs: userEmail });
+                
+                // Trigger script generation for manual clients that now have a response
+                const workflowUrl = `${baseUrl}/api/workflows/script-generation`;
+                fetch(workflowUrl, {
+                  method: "POST",
+                  headers: internalApiHeaders(),
+                  body: JSON.stringify({
+                    responseId: responseId,
+                    email: userEmail,
+                  }),
+                }).catch((error) => {
+                  console.error(`[Workflow][Webhook] Failed to trigger script generation workflow for duplicate client ${duplicate._id}:`, error);
+                });
+              }
+            } else {
+              // No duplicate found, create new client
+              await convexMutation<any>(
+                "clients:upsertClientFromTypeform",
+                {
+                  ownerEmail: userEmail,
+                  businessEmail: businessEmail
+                    ? businessEmail.toLowerCase().trim()
+                    : undefined,
+                  businessName: businessName,
+                  contactFirstName: firstName || undefined,
+                  contactLastName: lastName || undefined,
+                  onboardingResponseId: responseId,
+                  targetRevenue: targetRevenue || undefined,
+                  servicesOffered: servicesOffered || undefined,
+                  notes: notes || undefined,
+                }, { actingAs: userEmail }
+              );
+              
+              // Trigger script generation via Cloudflare Workflow (or fallback to direct)
+              // This happens in the background so webhook responds quickly
+              console.log(
+                `[Workflow][Webhook] Triggering script generation workflow`,
+                JSON.stringify({ responseId, ownerEmail: userEmail, clientCreated: true })
+              );
+              const workflowUrl = `${baseUrl}/api/workflows/script-generation`;
+              fetch(workflowUrl, {
+                method: "POST",
+                headers: internalApiHeaders(),
+                body: JSON.stringify({
+                  responseId: responseId,
+                  email: userEmail,
+                }),
+              }).catch((error) => {
+                console.error(`[Workflow][Webhook] Failed to trigger script generation workflow for response ${responseId}:`, error);
+                // Don't fail the webhook if script generation fails
+              });
+            }
+          } catch (clientError) {
+            // Log but don't fail the webhook if client creation fails
+            console.error(`[Workflow][Webhook] Failed to create/update client for ${businessEmail || businessName}:`, clientError);
+          }
+        }
+      }
+    }
+  }
+}
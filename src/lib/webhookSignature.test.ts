@@ -0,0 +1,70 @@
+import { describe, expect, test } from "vitest";
+import { computeHMAC, timingSafeEqual, verifySignature } from "./webhookSignature";
+
+const SECRET = "whsec_test";
+const BODY = '{"event":"form_response","form_response":{"token":"abc"}}';
+
+function hexToBase64(hex: string): string {
+  return btoa(String.fromCharCode(...hex.match(/../g)!.map((byte) => parseInt(byte, 16))));
+}
+
+describe("computeHMAC", () => {
+  test("matches the RFC 4231 HMAC-SHA256 test vector", async () => {
+    expect(await computeHMAC("what do ya want for nothing?", "Jefe")).toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+    );
+  });
+});
+
+describe("timingSafeEqual", () => {
+  test("compares bytes", () => {
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+    expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2]))).toBe(false);
+  });
+});
+
+describe("verifySignature", () => {
+  test("accepts the Fireflies format, sha256=<hex>", async () => {
+    const hex = await computeHMAC(BODY, SECRET);
+    expect(await verifySignature(BODY, `sha256=${hex}`, SECRET)).toBe(true);
+    expect(await verifySignature(BODY, `sha256=${hex.toUpperCase()}`, SECRET)).toBe(true);
+    expect(await verifySignature(BODY, hex, SECRET)).toBe(true);
+  });
+
+  test("accepts the Typeform format, sha256=<base64>", async () => {
+    const base64 = hexToBase64(await computeHMAC(BODY, SECRET));
+    expect(await verifySignature(BODY, `sha256=${base64}`, SECRET)).toBe(true);
+    expect(await verifySignature(BODY, base64, SECRET)).toBe(true);
+  });
+
+  test("rejects a signature made with another secret", async () => {
+    const hex = await computeHMAC(BODY, "wrong-secret");
+    expect(await verifySignature(BODY, `sha256=${hex}`, SECRET)).toBe(false);
+    expect(await verifySignature(BODY, `sha256=${hexToBase64(hex)}`, SECRET)).toBe(false);
+  });
+
+  test("rejects a signature over a different body", async () => {
+    const hex = await computeHMAC(BODY, SECRET);
+    expect(await verifySignature(`${BODY} `, `sha256=${hex}`, SECRET)).toBe(false);
+  });
+
+  test("rejects malformed hex and base64", async () => {
+    const hex = await computeHMAC(BODY, SECRET);
+    expect(await verifySignature(BODY, `sha256=${hex.slice(0, -1)}z`, SECRET)).toBe(false);
+    expect(await verifySignature(BODY, "sha256=not base64!", SECRET)).toBe(false);
+  });
+
+  test("rejects digests of the wrong length", async () => {
+    const hex = await computeHMAC(BODY, SECRET);
+    expect(await verifySignature(BODY, `sha256=${hex.slice(0, 32)}`, SECRET)).toBe(false);
+    expect(await verifySignature(BODY, `sha256=${hex}00`, SECRET)).toBe(false);
+    expect(await verifySignature(BODY, `sha256=${hexToBase64(hex.slice(0, 62))}`, SECRET)).toBe(false);
+  });
+
+  test("rejects a missing or empty header", async () => {
+    expect(await verifySignature(BODY, null, SECRET)).toBe(false);
+    expect(await verifySignature(BODY, "", SECRET)).toBe(false);
+    expect(await verifySignature(BODY, "sha256=", SECRET)).toBe(false);
+  });
+});
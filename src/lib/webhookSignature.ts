@@ -0,0 +1,77 @@
+/**
+ * HMAC-SHA256 webhook signatures, shared by the Typeform and Fireflies
+ * webhooks and the settings test button. Uses Web Crypto so it runs on
+ * Cloudflare Workers and in the browser.
+ */
+
+export async function computeHMAC(message: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Constant-time comparison, so a mismatch doesn't reveal how many leading
+ * bytes were right
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a[i] ^ b[i];
+  }
+  return result === 0;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (!/^[0-9a-f]*$/i.test(hex) || hex.length % 2 !== 0) {
+    throw new Error("Invalid hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes[i / 2] = parseInt(hex.slice(i, i + 2), 16);
+  }
+  return bytes;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Check a signature header against the raw body. Accepts hex or base64
+ * digests, with or without a "sha256=" prefix (Fireflies sends
+ * "sha256=<hex>", Typeform "sha256=<base64>").
+ */
+export async function verifySignature(rawBody: string, signature: string | null, secret: string): Promise<boolean> {
+  if (!signature) return false;
+
+  try {
+    const expectedBytes = hexToBytes(await computeHMAC(rawBody, secret));
+    const cleanSignature = signature.replace(/^sha256=/, "").trim();
+
+    if (/^[0-9a-f]+$/i.test(cleanSignature) && cleanSignature.length === expectedBytes.length * 2) {
+      return timingSafeEqual(hexToBytes(cleanSignature), expectedBytes);
+    }
+    return timingSafeEqual(base64ToBytes(cleanSignature), expectedBytes);
+  } catch {
+    // Malformed hex/base64 is simply an invalid signature
+    return false;
+  }
+}
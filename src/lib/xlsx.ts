@@ -0,0 +1,176 @@
+import { XMLParser } from "fast-xml-parser";
+
+/**
+ * Minimal reader for the first worksheet of an .xlsx file, returning cell
+ * text row by row. An .xlsx file is a zip of XML parts; entries are inflated
+ * with the browser's DecompressionStream. Formulas yield their cached value
+ * and dates their serial number (see parseImportDate in clientImport.ts).
+ */
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  // The end record is at least 22 bytes from the end, followed by a comment of up to 64KB
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("Not a valid .xlsx file");
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Not a valid .xlsx file");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  if (view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Can't read ${entry.name} from the .xlsx file`);
+  }
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in ${entry.name}`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return await new Response(stream).text();
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  trimValues: false,
+  isArray: (name) => ["sheet", "Relationship", "si", "r", "row", "c"].includes(name),
+});
+
+type XmlNode = Record<string, unknown>;
+
+// Text of a <t> element or the runs of rich text (<r><t>...</t></r>)
+function nodeText(node: unknown): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  const element = node as XmlNode;
+  if ("#text" in element) return String(element["#text"]);
+  if ("t" in element) return nodeText(element.t);
+  if (Array.isArray(element.r)) return (element.r as unknown[]).map(nodeText).join("");
+  return "";
+}
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/)?.[0] ?? "A";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+async function readPart(buffer: ArrayBuffer, entries: Map<string, ZipEntry>, name: string): Promise<XmlNode | null> {
+  const entry = entries.get(name);
+  return entry ? (parser.parse(await readZipText(buffer, entry)) as XmlNode) : null;
+}
+
+/**
+ * The path of the workbook's first sheet, e.g. "xl/worksheets/sheet1.xml"
+ */
+async function firstSheetPath(buffer: ArrayBuffer, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readPart(buffer, entries, "xl/workbook.xml");
+  const relationships = await readPart(buffer, entries, "xl/_rels/workbook.xml.rels");
+  const sheets = ((workbook?.workbook as XmlNode | undefined)?.sheets as XmlNode | undefined)?.sheet as
+    | XmlNode[]
+    | undefined;
+  const relationshipId = sheets?.[0]?.["@_r:id"];
+  const relationship = (
+    (relationships?.Relationships as XmlNode | undefined)?.Relationship as XmlNode[] | undefined
+  )?.find((candidate) => candidate["@_Id"] === relationshipId);
+  const target = relationship?.["@_Target"];
+  if (typeof target !== "string") {
+    return "xl/worksheets/sheet1.xml";
+  }
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZipEntries(buffer);
+
+  const sharedStringsPart = await readPart(buffer, entries, "xl/sharedStrings.xml");
+  const sharedStrings = (((sharedStringsPart?.sst as XmlNode | undefined)?.si as unknown[] | undefined) ?? []).map(
+    nodeText
+  );
+
+  const sheet = await readPart(buffer, entries, await firstSheetPath(buffer, entries));
+  if (!sheet) {
+    throw new Error("The .xlsx file has no worksheet");
+  }
+  const rows = (((sheet.worksheet as XmlNode | undefined)?.sheetData as XmlNode | undefined)?.row ?? []) as XmlNode[];
+
+  const result: string[][] = [];
+  for (const row of rows) {
+    // Blank rows are omitted from the file; keep row numbers aligned with the sheet
+    const rowNumber = Number(row["@_r"]) || result.length + 1;
+    while (result.length < rowNumber - 1) {
+      result.push([]);
+    }
+    const values: string[] = [];
+    for (const cell of (row.c ?? []) as XmlNode[]) {
+      const index = typeof cell["@_r"] === "string" ? columnIndex(cell["@_r"]) : values.length;
+      const type = cell["@_t"];
+      let value: string;
+      if (type === "s") {
+        value = sharedStrings[Number(nodeText(cell.v))] ?? "";
+      } else if (type === "inlineStr") {
+        value = nodeText(cell.is);
+      } else if (type === "b") {
+        value = nodeText(cell.v) === "1" ? "TRUE" : "FALSE";
+      } else {
+        value = nodeText(cell.v);
+      }
+      while (values.length < index) {
+        values.push("");
+      }
+      values[index] = value;
+    }
+    result.push(values);
+  }
+  return result;
+}
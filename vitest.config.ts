@@ -0,0 +1,13 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    include: ["convex/**/*.test.ts", "src/**/*.test.ts"],
+    // Convex function tests (convex-test) set `@vitest-environment edge-runtime`
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});
@@ -18,7 +18,11 @@
  */
 
 import { ConvexHttpClient } from "convex/browser";
-import { api } from "../convex/_generated/api";
+import type { FunctionArgs, FunctionReference } from "convex/server";
+import { api, internal } from "../convex/_generated/api";
+import { extractClientDataFromQAPairs } from "../convex/utils/typeformFieldMapping";
+import { HttpStatusError, NonRetryableError, withRetry, type RetryOptions } from "../convex/utils/retry";
+import { llmBudgetExceededMessage, usageFromOpenRouterResponse, type OpenRouterUsage } from "../convex/utils/llmUsage";
 
 // Get environment variables from Cloudflare Workers environment
 // In local dev, these come from .dev.vars
@@ -26,6 +30,8 @@ import { api } from "../convex/_generated/api";
 const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL || process.env.CONVEX_URL;
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+const CONVEX_DEPLOYMENT_TOKEN = process.env.CONVEX_DEPLOYMENT_TOKEN;
+const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
 
 interface WorkflowInput {
   responseId: string;
@@ -40,6 +46,51 @@ interface WorkflowStep {
   error?: string;
 }
 
+/**
+ * Retry options for a step: log each failed attempt before backing off
+ */
+function retryOptions(step: string): RetryOptions {
+  return {
+    onRetry: ({ attempt, attempts, delayMs, error }) => {
+      console.warn(
+        `[Workflow][Worker] Step: ${step} attempt ${attempt}/${attempts} failed, retrying`,
+        JSON.stringify({ delayMs, error: error instanceof Error ? error.message : String(error) })
+      );
+    },
+  };
+}
+
+/**
+ * Convex client acting as the user the workflow runs for, using the
+ * deployment token (the same identity src/lib/convexServer.ts uses)
+ */
+function createConvexClientFor(email: string): ConvexHttpClient {
+  if (!convexUrl) {
+    throw new Error("Convex URL not configured");
+  }
+  if (!CONVEX_DEPLOYMENT_TOKEN) {
+    throw new Error("CONVEX_DEPLOYMENT_TOKEN not configured");
+  }
+  const convex = new ConvexHttpClient(convexUrl);
+  (convex as unknown as {
+    setAdminAuth(token: string, identity: { subject: string; issuer: string; email: string }): void;
+  }).setAdminAuth(CONVEX_DEPLOYMENT_TOKEN, { subject: email, issuer: "gravitate-server", email });
+  return convex;
+}
+
+/**
+ * Record an OpenRouter call in llm_usage (see convex/utils/llmUsage.ts). The
+ * deployment token may run internal mutations; ConvexHttpClient's types only
+ * list public ones. Failing to record is only logged.
+ */
+async function recordUsage(convex: ConvexHttpClient, args: FunctionArgs<typeof internal.llmUsage.recordUsageForEmail>) {
+  try {
+    await convex.mutation(internal.llmUsage.recordUsageForEmail as unknown as FunctionReference<"mutation">, args);
+  } catch (error) {
+    console.error("[Workflow][Worker] Failed to record OpenRouter usage", error);
+  }
+}
+
 /**
  * Workflow handler - called by Cloudflare Workflows
  */
@@ -48,6 +99,10 @@ export default {
     if (request.method !== "POST") {
       return new Response("Method not allowed", { status: 405 });
     }
+    // Runs as the user named in the input, so only the app may start it
+    if (!INTERNAL_API_SECRET || request.headers.get("authorization") !== `Bearer ${INTERNAL_API_SECRET}`) {
+      return new Response("Unauthorized", { status: 401 });
+    }
 
     const input: WorkflowInput = await request.json();
     const steps: WorkflowStep[] = [];
@@ -57,26 +112,23 @@ export default {
         "[Workflow][Worker] Started",
         JSON.stringify({ responseId: input.responseId, email: input.email, hasClientId: Boolean(input.clientId) })
       );
-      if (!convexUrl) {
-        throw new Error("Convex URL not configured");
-      }
-
-      const convex = new ConvexHttpClient(convexUrl);
+      const convex = createConvexClientFor(input.email);
 
       // Step 1: Fetch Typeform response
       steps.push({ step: "fetch_response", status: "running" });
       console.log("[Workflow][Worker] Step: fetch_response (running)");
-      const response = await convex.query(api.typeform.getResponseByResponseId, {
-        responseId: input.responseId,
-      });
-
-      if (!response) {
-        throw new Error("Typeform response not found");
-      }
-
-      if (response.email !== input.email) {
-        throw new Error("Access denied: Response does not belong to user");
-      }
+      const response = await withRetry(async () => {
+        const res = await convex.query(api.typeform.getResponseByResponseId, {
+          responseId: input.responseId,
+        });
+        if (!res) {
+          throw new NonRetryableError("Typeform response not found", 404);
+        }
+        if (res.email !== input.email) {
+          throw new NonRetryableError("Access denied: Response does not belong to user", 403);
+        }
+        return res;
+      }, retryOptions("fetch_response"));
 
       steps[0].status = "completed";
       steps[0].result = { responseId: response._id };
@@ -115,60 +167,19 @@ export default {
         throw new Error("No qaPairs found in response");
       }
 
-      const FIELD_MAPPING: Record<string, { field: string }> = {
-        "98e94d78-6c72-4ea2-806e-9675f326550e": { field: "contactFirstName" },
-        "01K3PZTF2WHB908HD47FDXE81C": { field: "businessName" },
-        "a0e9781d-38e4-4768-af2c-19a4518d2ac7": { field: "businessEmail" },
-        "6589c67b-c739-4372-96e0-a5e3b6a52220": { field: "targetRevenue" },
-      };
-
-      let businessEmail: string | null = null;
-      let businessName: string | null = null;
-      let firstName: string | null = null;
-      let lastName: string | null = null;
-      let targetRevenue: number | null = null;
-
-      for (const qa of response.qaPairs) {
-        const fieldRef = qa.fieldRef?.trim();
-        if (!fieldRef) continue;
-
-        const mapping = FIELD_MAPPING[fieldRef];
-        if (!mapping) continue;
-
-        const value = qa.answer?.trim();
-        if (!value && mapping.field !== "businessEmail") continue;
-
-        switch (mapping.field) {
-          case "businessName":
-            businessName = value;
-            break;
-          case "businessEmail":
-            if (value) businessEmail = value.toLowerCase();
-            break;
-          case "contactFirstName": {
-            const nameParts = value.split(/\s+/);
-            firstName = nameParts[0] || null;
-            if (nameParts.length > 1) lastName = nameParts.slice(1).join(" ");
-            break;
-          }
-          case "targetRevenue": {
-            const cleaned = value.replace(/,/g, "").toLowerCase().trim();
-            const rangeMatch = cleaned.match(/(\d+)\s*-\s*(\d+)\s*k/i);
-            if (rangeMatch) {
-              targetRevenue = parseInt(rangeMatch[2], 10) * 1000;
-            } else {
-              const kMatch = cleaned.match(/(\d+)\s*k/i);
-              if (kMatch) {
-                targetRevenue = parseInt(kMatch[1], 10) * 1000;
-              } else {
-                const num = parseInt(cleaned, 10);
-                if (!isNaN(num) && num > 0) targetRevenue = num;
-              }
-            }
-            break;
-          }
-        }
-      }
+      const fieldMapping = await convex.query(api.typeformFieldMappings.getMappingForForm, {
+        email: input.email,
+        formId: response.formId,
+      });
+      const {
+        businessEmail,
+        businessName,
+        contactFirstName: firstName,
+        contactLastName: lastName,
+        targetRevenue,
+        servicesOffered,
+        notes,
+      } = extractClientDataFromQAPairs(response.qaPairs, fieldMapping?.rules);
 
       steps[2].status = "completed";
       steps[2].result = { businessName, businessEmail, firstName, lastName, targetRevenue };
@@ -180,15 +191,22 @@ export default {
       let clientId = input.clientId;
 
       if (!clientId && businessName) {
-        clientId = await convex.mutation(api.clients.upsertClientFromTypeform, {
-          ownerEmail: input.email,
-          businessEmail: businessEmail || undefined,
-          businessName: businessName,
-          contactFirstName: firstName || undefined,
-          contactLastName: lastName || undefined,
-          onboardingResponseId: input.responseId,
-          targetRevenue: targetRevenue || undefined,
-        });
+        // Upsert is keyed on the response, so retrying can't create duplicates
+        clientId = await withRetry(
+          () =>
+            convex.mutation(api.clients.upsertClientFromTypeform, {
+              ownerEmail: input.email,
+              businessEmail: businessEmail || undefined,
+              businessName: businessName,
+              contactFirstName: firstName || undefined,
+              contactLastName: lastName || undefined,
+              onboardingResponseId: input.responseId,
+              targetRevenue: targetRevenue || undefined,
+              servicesOffered: servicesOffered || undefined,
+              notes: notes || undefined,
+            }),
+          retryOptions("create_client")
+        );
       }
 
       if (!clientId) {
@@ -219,6 +237,10 @@ export default {
       if (!OPENROUTER_API_KEY) {
         throw new Error("OPENROUTER_API_KEY not configured");
       }
+      const budget = await convex.query(api.llmUsage.getBudgetStatusForEmail, { email: input.email });
+      if (budget.blocked) {
+        throw new NonRetryableError(llmBudgetExceededMessage(budget), 402);
+      }
 
       // Note: In production, this should fetch from Convex using api.systemPrompts.getSystemPrompt
       // For now, using default prompt with HTML formatting instruction appended automatically
@@ -250,38 +272,54 @@ ${contextText}
 
 Generate the script as HTML with proper structure.`;
 
-      const aiResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-          "HTTP-Referer": APP_URL,
-          "X-Title": "Gravitate Agent",
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          ...(model.includes("gpt-5") || model.includes("gpt-oss-120b") ? {
-            reasoning: { effort: thinkingEffort },
-          } : {}),
-          temperature: 0.7,
-        }),
-      });
+      const content = await withRetry(async () => {
+        const aiResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${OPENROUTER_API_KEY}`,
+            "HTTP-Referer": APP_URL,
+            "X-Title": "Gravitate Agent",
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userPrompt },
+            ],
+            ...(model.includes("gpt-5") || model.includes("gpt-oss-120b") ? {
+              reasoning: { effort: thinkingEffort },
+            } : {}),
+            temperature: 0.7,
+            usage: { include: true },
+          }),
+        });
 
-      if (!aiResponse.ok) {
-        const errorText = await aiResponse.text();
-        throw new Error(`OpenRouter API error: ${aiResponse.status} - ${errorText}`);
-      }
+        if (!aiResponse.ok) {
+          const errorText = await aiResponse.text();
+          throw new HttpStatusError(`OpenRouter API error: ${aiResponse.status} - ${errorText}`, aiResponse.status);
+        }
 
-      const aiData = (await aiResponse.json()) as { choices?: Array<{ message?: { content?: string } }> };
-      const content = aiData?.choices?.[0]?.message?.content;
+        const aiData = (await aiResponse.json()) as {
+          choices?: Array<{ message?: { content?: string } }>;
+          usage?: OpenRouterUsage;
+        };
+        const usage = usageFromOpenRouterResponse(aiData, model);
+        if (usage) {
+          await recordUsage(convex, {
+            email: input.email,
+            feature: "script_generation",
+            clientId: clientId as any,
+            ...usage,
+          });
+        }
+        const aiContent = aiData?.choices?.[0]?.message?.content;
 
-      if (!content || typeof content !== "string") {
-        throw new Error("AI response missing content");
-      }
+        if (!aiContent || typeof aiContent !== "string") {
+          throw new Error("AI response missing content");
+        }
+        return aiContent;
+      }, retryOptions("generate_script"));
 
       let htmlContent = content.trim();
       if (htmlContent.startsWith("```html")) {
@@ -300,19 +338,29 @@ Generate the script as HTML with proper structure.`;
       console.log("[Workflow][Worker] Step: store_script (running)");
       const scriptTitle = `Script for ${businessName} - ${new Date().toLocaleDateString()}`;
 
-      const scriptId = await convex.mutation(api.scripts.createScript, {
-        ownerEmail: input.email,
-        clientId: clientId as any,
-        title: scriptTitle,
-        contentHtml: htmlContent,
-        source: {
-          type: "typeform",
+      const scriptId = await withRetry(async () => {
+        // A previous attempt may have stored the script before the error
+        const stored = await convex.query(api.scripts.getScriptByResponseId, {
           responseId: input.responseId,
-        },
-        model,
-        thinkingEffort,
-        status: "draft",
-      });
+          ownerEmail: input.email,
+        });
+        if (stored) {
+          return stored._id;
+        }
+        return await convex.mutation(api.scripts.createScript, {
+          ownerEmail: input.email,
+          clientId: clientId as any,
+          title: scriptTitle,
+          contentHtml: htmlContent,
+          source: {
+            type: "typeform",
+            responseId: input.responseId,
+          },
+          model,
+          thinkingEffort,
+          status: "draft",
+        });
+      }, retryOptions("store_script"));
 
       steps[6].status = "completed";
       steps[6].result = { scriptId };
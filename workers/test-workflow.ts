@@ -41,6 +41,14 @@ async function testWorkflow() {
   console.log("");
 
   const convex = new ConvexHttpClient(CONVEX_URL);
+  const deploymentToken = process.env.CONVEX_DEPLOYMENT_TOKEN;
+  if (!deploymentToken) {
+    console.error("❌ CONVEX_DEPLOYMENT_TOKEN is required to read data as the test user");
+    process.exit(1);
+  }
+  (convex as unknown as {
+    setAdminAuth(token: string, identity: { subject: string; issuer: string; email: string }): void;
+  }).setAdminAuth(deploymentToken, { subject: TEST_EMAIL, issuer: "gravitate-server", email: TEST_EMAIL });
 
   // Step 1: Fetch response
   console.log("📝 Step 1: Fetching Typeform response...");
@@ -83,6 +91,7 @@ async function testWorkflow() {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.INTERNAL_API_SECRET ?? ""}`,
       },
       body: JSON.stringify({
         responseId: TEST_RESPONSE_ID,